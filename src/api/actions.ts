@@ -0,0 +1,110 @@
+/**
+ * src/api/actions.ts
+ *
+ * API para gestionar las acciones propias de cada tenant que ejecutan los nodos ACTION
+ * (tabla tenant_actions): webhooks y acciones integradas con parámetros fijos.
+ * @version 1.0.0
+ * @created 2025-06-17
+ */
+
+import express from "express";
+import { authMiddleware, adminMiddleware } from "../middlewares/auth";
+import type { AuthRequest } from "../middlewares/auth";
+import logger from "../utils/logger";
+import {
+  ActionRegistryError,
+  deleteTenantAction,
+  listActions,
+  listTenantActionDefinitions,
+  loadTenantActions,
+  saveTenantAction,
+} from "../services/actionRegistry";
+
+const router = express.Router();
+
+// Middleware de autenticación
+router.use(authMiddleware);
+
+/**
+ * Responde con el código HTTP adecuado para los errores del registro de acciones
+ */
+function handleActionError(res: express.Response, error: unknown, fallback: string) {
+  if (error instanceof ActionRegistryError) {
+    const status = error.code === "NOT_FOUND" ? 404 : error.code === "INVALID_INPUT" ? 400 : 500;
+    return res.status(status).json({ error: error.message, code: error.code });
+  }
+
+  return res.status(500).json({
+    error: fallback,
+    message: error instanceof Error ? error.message : "Error desconocido"
+  });
+}
+
+/**
+ * Obtiene el tenant del usuario o responde 401
+ */
+function requireTenant(req: AuthRequest, res: express.Response): string | null {
+  if (!req.user || !req.user.tenantId) {
+    res.status(401).json({
+      error: "No autorizado",
+      message: "Se requiere autenticación con información de tenant",
+    });
+    return null;
+  }
+  return req.user.tenantId;
+}
+
+/**
+ * GET /api/actions
+ * Acciones disponibles para los nodos del tenant y las acciones guardadas
+ */
+router.get("/", async (req: AuthRequest, res) => {
+  const tenantId = requireTenant(req, res);
+  if (!tenantId) return;
+
+  try {
+    const tenantActions = await listTenantActionDefinitions(tenantId);
+    await loadTenantActions(tenantId);
+    return res.json({ available: listActions(tenantId), tenantActions });
+  } catch (error) {
+    logger.error("Error en GET /actions:", error);
+    return handleActionError(res, error, "Error al listar acciones");
+  }
+});
+
+/**
+ * PUT /api/actions/:actionType
+ * Crea o reemplaza una acción del tenant (body: { kind, config, enabled? })
+ */
+router.put("/:actionType", adminMiddleware, async (req: AuthRequest, res) => {
+  const tenantId = requireTenant(req, res);
+  if (!tenantId) return;
+
+  try {
+    const { kind, config, enabled } = req.body || {};
+    const action = await saveTenantAction(tenantId, { action_type: req.params.actionType, kind, config, enabled });
+    return res.json(action);
+  } catch (error) {
+    logger.error(`Error en PUT /actions/${req.params.actionType}:`, error);
+    return handleActionError(res, error, "Error al guardar la acción");
+  }
+});
+
+/**
+ * DELETE /api/actions/:actionType
+ * Elimina una acción del tenant
+ */
+router.delete("/:actionType", adminMiddleware, async (req: AuthRequest, res) => {
+  const tenantId = requireTenant(req, res);
+  if (!tenantId) return;
+
+  try {
+    await deleteTenantAction(tenantId, req.params.actionType);
+    return res.json({ success: true });
+  } catch (error) {
+    logger.error(`Error en DELETE /actions/${req.params.actionType}:`, error);
+    return handleActionError(res, error, "Error al eliminar la acción");
+  }
+});
+
+export default router;
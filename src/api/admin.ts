@@ -3,14 +3,19 @@
  *
  * Endpoints administrativos para gestionar el sistema
  * Incluye funciones de reinicio, limpieza y diagnóstico
- * @version 1.0.0
- * @updated 2025-05-08
+ * y la conexión del número de WhatsApp de cada tenant
+ * @version 1.1.0
+ * @updated 2025-06-17
  */
 
 import express from 'express';
+import fs from 'fs';
 import { cleanAllSessions, cleanOldSessions } from '../utils/cleanSessions';
 import logger from '../utils/logger';
 import { config } from '../config';
+import { authMiddleware, superAdminMiddleware } from '../middlewares/auth';
+import { getValidTenantUuid } from '../services/supabase';
+import { WhatsAppProviderPool, WhatsAppPoolError } from '../provider/whatsappProviderPool';
 
 const router = express.Router();
 
@@ -158,4 +163,105 @@ router.post('/log-level', (req, res) => {
   }
 });
 
+/**
+ * Responde un error del pool de WhatsApp con el estado HTTP adecuado
+ */
+function handleWhatsAppPoolError(res: express.Response, error: unknown, fallback: string) {
+  if (error instanceof WhatsAppPoolError) {
+    const status = error.code === 'NUMBER_IN_USE' ? 409 : error.code === 'INVALID_PROVIDER' ? 400 : 502;
+    return res.status(status).json({ success: false, message: error.message, code: error.code });
+  }
+
+  logger.error(`${fallback}:`, error);
+  return res.status(500).json({
+    success: false,
+    message: fallback,
+    error: error instanceof Error ? error.message : 'Error desconocido',
+  });
+}
+
+// Rutas de números por tenant: requieren super_admin (manejan credenciales y QR)
+const whatsappAdmin = [authMiddleware, superAdminMiddleware];
+
+/**
+ * GET /api/admin/whatsapp/numbers
+ * Lista el estado del número de WhatsApp de cada tenant
+ */
+router.get('/whatsapp/numbers', ...whatsappAdmin, async (req, res) => {
+  try {
+    const numbers = await WhatsAppProviderPool.getInstance().listStatuses();
+    return res.json({ success: true, enabled: config.whatsapp.pool.enabled, numbers });
+  } catch (error) {
+    return handleWhatsAppPoolError(res, error, 'Error al listar números de WhatsApp');
+  }
+});
+
+/**
+ * GET /api/admin/whatsapp/:tenantId/status
+ * Estado de la conexión de WhatsApp de un tenant
+ */
+router.get('/whatsapp/:tenantId/status', ...whatsappAdmin, async (req, res) => {
+  try {
+    const status = await WhatsAppProviderPool.getInstance().getStatus(getValidTenantUuid(req.params.tenantId));
+    return res.json({ success: true, ...status });
+  } catch (error) {
+    return handleWhatsAppPoolError(res, error, 'Error al obtener el estado de WhatsApp');
+  }
+});
+
+/**
+ * POST /api/admin/whatsapp/:tenantId/connect
+ * Conecta el número de un tenant
+ * Body: { provider?: 'baileys' | 'twilio' | 'meta', phoneNumber?, credentials? }
+ */
+router.post('/whatsapp/:tenantId/connect', ...whatsappAdmin, async (req, res) => {
+  if (!config.whatsapp.enabled || !config.whatsapp.pool.enabled) {
+    return res.status(400).json({
+      success: false,
+      message: 'Los números por tenant no están habilitados (WHATSAPP_MULTI_NUMBER)',
+    });
+  }
+
+  try {
+    const { provider, phoneNumber, credentials } = req.body || {};
+    const status = await WhatsAppProviderPool.getInstance().connect(getValidTenantUuid(req.params.tenantId), {
+      provider,
+      phoneNumber,
+      credentials,
+    });
+    return res.json({ success: true, ...status });
+  } catch (error) {
+    return handleWhatsAppPoolError(res, error, 'Error al conectar WhatsApp');
+  }
+});
+
+/**
+ * POST /api/admin/whatsapp/:tenantId/disconnect
+ * Desconecta el número de un tenant. Body: { logout?: boolean } borra la sesión y el QR
+ */
+router.post('/whatsapp/:tenantId/disconnect', ...whatsappAdmin, async (req, res) => {
+  try {
+    const status = await WhatsAppProviderPool.getInstance().disconnect(
+      getValidTenantUuid(req.params.tenantId),
+      req.body?.logout === true
+    );
+    return res.json({ success: true, ...status });
+  } catch (error) {
+    return handleWhatsAppPoolError(res, error, 'Error al desconectar WhatsApp');
+  }
+});
+
+/**
+ * GET /api/admin/whatsapp/:tenantId/qr
+ * QR pendiente de vincular del número de un tenant (PNG)
+ */
+router.get('/whatsapp/:tenantId/qr', ...whatsappAdmin, (req, res) => {
+  const qrPath = WhatsAppProviderPool.getInstance().getQrPath(getValidTenantUuid(req.params.tenantId));
+  if (!fs.existsSync(qrPath)) {
+    return res.status(404).json({ success: false, message: 'No hay QR pendiente para este tenant' });
+  }
+  res.setHeader('Cache-Control', 'no-store');
+  return res.sendFile(qrPath);
+});
+
 export default router;
\ No newline at end of file
@@ -2,7 +2,9 @@
  * src/api/appointments.ts
  *
  * API para gestionar citas y su configuración.
- * @version 1.0.0
+ * Incluye reserva, reprogramación y cancelación de citas,
+ * y exportación a iCalendar (.ics).
+ * @version 1.2.1
  * @created 2025-07-05
  */
 
@@ -12,6 +14,20 @@ import { config } from "../config";
 import { authMiddleware } from "../middlewares/auth";
 import type { AuthRequest } from "../middlewares/auth";
 import logger from "../utils/logger";
+import {
+  AppointmentError,
+  getAvailability,
+  listAppointments,
+  getAppointment,
+  bookAppointment,
+  rescheduleAppointment,
+  cancelAppointment,
+} from "../services/appointmentService";
+import {
+  buildAppointmentIcs,
+  sendAppointmentIcs,
+  getFeedUrl,
+} from "../services/appointmentCalendar";
 
 // Cliente de Supabase
 const supabase = createClient(
@@ -124,6 +140,24 @@ router.get("/settings", async (req: AuthRequest, res) => {
   }
 });
 
+/**
+ * Responde con el código HTTP adecuado para los errores del motor de reservas
+ */
+function handleAppointmentError(res: express.Response, error: unknown, fallback: string) {
+  if (error instanceof AppointmentError) {
+    const status =
+      error.code === "NOT_FOUND" ? 404 :
+      error.code === "SLOT_UNAVAILABLE" || error.code === "DAILY_LIMIT" || error.code === "INVALID_STATUS" ? 409 :
+      400;
+    return res.status(status).json({ error: error.message, code: error.code });
+  }
+
+  return res.status(500).json({
+    error: fallback,
+    message: error instanceof Error ? error.message : "Error desconocido"
+  });
+}
+
 /**
  * GET /api/appointments/availability
  * Obtiene disponibilidad de horarios para una fecha específica
@@ -140,9 +174,6 @@ router.get("/availability", async (req: AuthRequest, res) => {
 
     const tenant_id = req.user.tenantId;
     const date = req.query.date as string;
-    const appointment_type_id = req.query.appointment_type_id as string | undefined;
-    const location_id = req.query.location_id as string | undefined;
-    const agent_id = req.query.agent_id as string | undefined;
     
     // Validar fecha
     if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
@@ -153,260 +184,230 @@ router.get("/availability", async (req: AuthRequest, res) => {
     
     logger.info(`Calculando disponibilidad para tenant ${tenant_id}, fecha ${date}`);
     
-    // Parsear la fecha
-    const selectedDate = new Date(date);
-    const dayOfWeek = selectedDate.getDay(); // 0 (domingo) a 6 (sábado)
-    
-    // Consultar horarios de negocio para el día de la semana
-    const { data: businessHoursData, error: businessHoursError } = await supabase
-      .from("tenant_business_hours")
-      .select("*")
-      .eq("tenant_id", tenant_id)
-      .eq("day_of_week", dayOfWeek)
-      .is("location_id", location_id || null)
-      .single();
-    
-    if (businessHoursError && businessHoursError.code !== "PGRST116") {
-      logger.error(`Error al obtener horarios de negocio: ${businessHoursError.message}`, businessHoursError);
-      throw new Error("Error al obtener horarios de negocio");
-    }
+    const availability = await getAvailability(tenant_id, date, {
+      appointmentTypeId: req.query.appointment_type_id as string | undefined,
+      locationId: req.query.location_id as string | undefined,
+      agentId: req.query.agent_id as string | undefined,
+    });
     
-    // Si no hay horarios para este día, o está marcado como cerrado
-    if (!businessHoursData || businessHoursData.is_closed) {
-      logger.info(`Día ${date} cerrado o sin horarios configurados`);
-      return res.json({
-        available_slots: [],
-        business_hours: {
-          open_time: businessHoursData?.open_time || "00:00",
-          close_time: businessHoursData?.close_time || "00:00",
-          is_closed: true
-        },
-        date,
-        is_exception_day: false
+    return res.json(availability);
+  } catch (error) {
+    logger.error("Error en GET /appointments/availability:", error);
+    return handleAppointmentError(res, error, "Error al calcular disponibilidad");
+  }
+});
+
+/**
+ * GET /api/appointments
+ * Lista las citas del tenant (filtros: from, to, lead_id, agent_id, status)
+ */
+router.get("/", async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.user.tenantId) {
+      return res.status(401).json({
+        error: "No autorizado",
+        message: "Se requiere autenticación con información de tenant",
       });
     }
-    
-    // Verificar si hay una excepción para esta fecha
-    const { data: exceptionData, error: exceptionError } = await supabase
-      .from("tenant_business_hours_exceptions")
-      .select("*")
-      .eq("tenant_id", tenant_id)
-      .eq("exception_date", date)
-      .is("location_id", location_id || null)
-      .maybeSingle();
-    
-    if (exceptionError) {
-      logger.error(`Error al obtener excepciones de horarios: ${exceptionError.message}`, exceptionError);
-      throw new Error("Error al obtener excepciones de horarios");
-    }
-    
-    // Si hay una excepción y está marcada como cerrado
-    if (exceptionData && exceptionData.is_closed) {
-      logger.info(`Día ${date} marcado como excepción (cerrado)`);
-      return res.json({
-        available_slots: [],
-        business_hours: {
-          open_time: exceptionData.open_time || "00:00",
-          close_time: exceptionData.close_time || "00:00",
-          is_closed: true
-        },
-        date,
-        is_exception_day: true
+
+    const appointments = await listAppointments(req.user.tenantId, {
+      from: req.query.from as string | undefined,
+      to: req.query.to as string | undefined,
+      leadId: req.query.lead_id as string | undefined,
+      agentId: req.query.agent_id as string | undefined,
+      status: req.query.status as string | undefined,
+    });
+
+    return res.json(appointments);
+  } catch (error) {
+    logger.error("Error en GET /appointments:", error);
+    return handleAppointmentError(res, error, "Error al listar citas");
+  }
+});
+
+/**
+ * POST /api/appointments
+ * Reserva una cita
+ */
+router.post("/", async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.user.tenantId) {
+      return res.status(401).json({
+        error: "No autorizado",
+        message: "Se requiere autenticación con información de tenant",
       });
     }
-    
-    // Obtener configuración de citas
-    const { data: settingsData, error: settingsError } = await supabase
-      .from("tenant_appointment_settings")
-      .select("*")
-      .eq("tenant_id", tenant_id)
-      .single();
-    
-    if (settingsError && settingsError.code !== "PGRST116") {
-      logger.error(`Error al obtener configuración de citas: ${settingsError.message}`, settingsError);
-      throw new Error("Error al obtener configuración de citas");
+
+    const body = req.body || {};
+    logger.info(`Reservando cita para tenant ${req.user.tenantId}: ${body.date} ${body.start_time}`);
+
+    const appointment = await bookAppointment({
+      tenantId: req.user.tenantId,
+      date: body.date,
+      startTime: body.start_time,
+      appointmentTypeId: body.appointment_type_id,
+      agentId: body.agent_id,
+      locationId: body.location_id,
+      leadId: body.lead_id,
+      propertyId: body.property_id,
+      customerName: body.customer_name,
+      customerPhone: body.customer_phone,
+      customerEmail: body.customer_email,
+      notes: body.notes,
+      source: "api",
+    });
+
+    return res.status(201).json(appointment);
+  } catch (error) {
+    logger.error("Error en POST /appointments:", error);
+    return handleAppointmentError(res, error, "Error al reservar cita");
+  }
+});
+
+/**
+ * GET /api/appointments/feed-url
+ * URL suscribible del calendario del tenant (o de un agente con ?agent_id=)
+ */
+router.get("/feed-url", async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.user.tenantId) {
+      return res.status(401).json({
+        error: "No autorizado",
+        message: "Se requiere autenticación con información de tenant",
+      });
     }
-    
-    // Si no hay configuración, usar valores predeterminados
-    const settings = settingsData || {
-      id: "",
-      tenant_id,
-      appointment_duration: 30,
-      buffer_time: 0,
-      max_daily_appointments: null,
-      min_notice_minutes: 60,
-      max_future_days: 30,
-      require_approval: false,
-      reminder_time_hours: 24,
-      created_at: "",
-      updated_at: ""
-    };
-    
-    let appointmentType = null;
-    
-    // Si se especifica un tipo de cita, obtenerlo
-    if (appointment_type_id) {
-      const { data: typeData, error: typeError } = await supabase
-        .from("tenant_appointment_types")
-        .select("*")
-        .eq("id", appointment_type_id)
-        .eq("tenant_id", tenant_id)
-        .single();
-      
-      if (typeError) {
-        logger.error(`Error al obtener tipo de cita: ${typeError.message}`, typeError);
-        throw new Error("Error al obtener tipo de cita");
-      }
-      
-      appointmentType = typeData;
+
+    if (!config.appointments.feedSecret) {
+      return res.status(404).json({ error: "Los feeds de calendario no están habilitados" });
     }
-    
-    // Determinar duración y tiempo de buffer
-    const duration = appointmentType ? appointmentType.duration_minutes : settings.appointment_duration;
-    const bufferTime = appointmentType ? (appointmentType.buffer_time || 0) : settings.buffer_time;
-    
-    // Usar horarios de la excepción si existen, o los horarios regulares
-    const openTime = exceptionData ? exceptionData.open_time : businessHoursData.open_time;
-    const closeTime = exceptionData ? exceptionData.close_time : businessHoursData.close_time;
-    
-    // Convertir horarios a objetos Date
-    const businessDate = new Date(date);
-    const [openHour, openMinute] = openTime.split(":").map(Number);
-    const [closeHour, closeMinute] = closeTime.split(":").map(Number);
-    
-    const openDateTime = new Date(businessDate);
-    openDateTime.setHours(openHour, openMinute, 0, 0);
-    
-    const closeDateTime = new Date(businessDate);
-    closeDateTime.setHours(closeHour, closeMinute, 0, 0);
-    
-    // Obtener citas existentes para este día
-    let appointmentsQuery = supabase
-      .from("tenant_appointments")
-      .select("*")
-      .eq("tenant_id", tenant_id)
-      .eq("date", date);
-    
-    // Filtrar por ubicación si se especifica
-    if (location_id) {
-      appointmentsQuery = appointmentsQuery.eq("location_id", location_id);
+
+    const agentId = req.query.agent_id as string | undefined;
+    return res.json({ url: getFeedUrl(req.user.tenantId, agentId) });
+  } catch (error) {
+    logger.error("Error en GET /appointments/feed-url:", error);
+    return handleAppointmentError(res, error, "Error al generar URL del calendario");
+  }
+});
+
+/**
+ * GET /api/appointments/:id/ics
+ * Descarga la cita como archivo .ics (METHOD:CANCEL si está cancelada)
+ */
+router.get("/:id/ics", async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.user.tenantId) {
+      return res.status(401).json({
+        error: "No autorizado",
+        message: "Se requiere autenticación con información de tenant",
+      });
     }
-    
-    // Filtrar por agente si se especifica
-    if (agent_id) {
-      appointmentsQuery = appointmentsQuery.eq("agent_id", agent_id);
+
+    const ics = await buildAppointmentIcs(req.user.tenantId, req.params.id);
+    res.setHeader("Content-Type", `text/calendar; charset=utf-8; method=${ics.method}`);
+    res.setHeader("Content-Disposition", `attachment; filename="${ics.filename}"`);
+    return res.send(ics.content);
+  } catch (error) {
+    logger.error(`Error en GET /appointments/${req.params.id}/ics:`, error);
+    return handleAppointmentError(res, error, "Error al generar calendario de la cita");
+  }
+});
+
+/**
+ * POST /api/appointments/:id/ics/send
+ * Envía el .ics de la cita por el proveedor activo (body.to o el teléfono del cliente)
+ */
+router.post("/:id/ics/send", async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.user.tenantId) {
+      return res.status(401).json({
+        error: "No autorizado",
+        message: "Se requiere autenticación con información de tenant",
+      });
     }
-    
-    const { data: existingAppointments, error: appointmentsError } = await appointmentsQuery;
-    
-    if (appointmentsError) {
-      logger.error(`Error al obtener citas existentes: ${appointmentsError.message}`, appointmentsError);
-      throw new Error("Error al obtener citas existentes");
+
+    const sent = await sendAppointmentIcs(req.user.tenantId, req.params.id, req.body && req.body.to);
+    if (!sent) {
+      return res.status(502).json({ error: "No se pudo enviar el calendario por el proveedor" });
     }
-    
-    logger.debug(`Calculando slots con ${existingAppointments?.length || 0} citas existentes`);
-    
-    // Generar slots de tiempo desde la apertura hasta el cierre
-    const totalMinutes = (closeDateTime.getTime() - openDateTime.getTime()) / (1000 * 60);
-    const slots: Array<{ start: Date; end: Date; available: boolean }> = [];
-    
-    // Duración total de cada slot (duración de la cita + buffer)
-    const totalSlotDuration = duration + bufferTime;
-    
-    // Comprobar si estamos planificando para hoy
-    const now = new Date();
-    const isToday = now.toDateString() === businessDate.toDateString();
-    
-    // Crear slots hasta llenar todo el horario comercial
-    for (let minute = 0; minute <= totalMinutes - duration; minute += totalSlotDuration) {
-      const slotStart = new Date(openDateTime.getTime() + minute * 60 * 1000);
-      const slotEnd = new Date(slotStart.getTime() + duration * 60 * 1000);
-      
-      // Si es hoy, no mostrar slots que ya han pasado o que no cumplen con el tiempo mínimo de antelación
-      if (isToday) {
-        const minNoticeDate = new Date(now.getTime() + settings.min_notice_minutes * 60 * 1000);
-        if (slotStart < minNoticeDate) {
-          continue;
-        }
-      }
-      
-      // Por defecto el slot está disponible
-      let available = true;
-      
-      // Verificar si el slot se solapa con alguna cita existente
-      for (const appointment of existingAppointments || []) {
-        const appointmentStart = new Date(`${date}T${appointment.start_time}`);
-        const appointmentEnd = new Date(`${date}T${appointment.end_time}`);
-        
-        // Si hay solapamiento, marcar como no disponible
-        if (
-          (slotStart >= appointmentStart && slotStart < appointmentEnd) ||
-          (slotEnd > appointmentStart && slotEnd <= appointmentEnd) ||
-          (slotStart <= appointmentStart && slotEnd >= appointmentEnd)
-        ) {
-          available = false;
-          break;
-        }
-      }
-      
-      slots.push({
-        start: slotStart,
-        end: slotEnd,
-        available
+
+    return res.json({ success: true });
+  } catch (error) {
+    logger.error(`Error en POST /appointments/${req.params.id}/ics/send:`, error);
+    return handleAppointmentError(res, error, "Error al enviar calendario de la cita");
+  }
+});
+
+/**
+ * GET /api/appointments/:id
+ * Obtiene una cita
+ */
+router.get("/:id", async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.user.tenantId) {
+      return res.status(401).json({
+        error: "No autorizado",
+        message: "Se requiere autenticación con información de tenant",
       });
     }
-    
-    // Filtrar solo los slots disponibles
-    const availableSlots = slots.filter(slot => slot.available);
-    
-    // Verificar límite diario de citas (del tenant o del tipo de cita)
-    const maxDailyAppointments = appointmentType?.max_daily_appointments || settings.max_daily_appointments;
-    let limitedSlots = [...availableSlots];
-    
-    if (maxDailyAppointments !== null) {
-      const existingCount = existingAppointments?.length || 0;
-      const slotsAvailable = Math.max(0, maxDailyAppointments - existingCount);
-      
-      // Limitar la cantidad de slots si es necesario
-      if (limitedSlots.length > slotsAvailable) {
-        limitedSlots = limitedSlots.slice(0, slotsAvailable);
-      }
+
+    const appointment = await getAppointment(req.user.tenantId, req.params.id);
+    return res.json(appointment);
+  } catch (error) {
+    logger.error(`Error en GET /appointments/${req.params.id}:`, error);
+    return handleAppointmentError(res, error, "Error al obtener cita");
+  }
+});
+
+/**
+ * PATCH /api/appointments/:id
+ * Reprograma una cita (date, start_time y opcionalmente agent_id)
+ */
+router.patch("/:id", async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.user.tenantId) {
+      return res.status(401).json({
+        error: "No autorizado",
+        message: "Se requiere autenticación con información de tenant",
+      });
     }
-    
-    // Formatear los slots para la respuesta
-    const formattedSlots = limitedSlots.map(slot => {
-      // Formato HH:MM
-      const formatTime = (date: Date) => {
-        return date.toTimeString().slice(0, 5);
-      };
-      
-      return {
-        start_time: formatTime(slot.start),
-        end_time: formatTime(slot.end),
-        start_datetime: slot.start.toISOString(),
-        end_datetime: slot.end.toISOString()
-      };
-    });
-    
-    logger.info(`Disponibilidad calculada para ${date}: ${formattedSlots.length} slots disponibles`);
-    
-    return res.json({
-      available_slots: formattedSlots,
-      business_hours: {
-        open_time: openTime,
-        close_time: closeTime,
-        is_closed: false
-      },
-      date,
-      is_exception_day: !!exceptionData
+
+    const body = req.body || {};
+    logger.info(`Reprogramando cita ${req.params.id} al ${body.date} ${body.start_time}`);
+
+    const appointment = await rescheduleAppointment(req.user.tenantId, req.params.id, {
+      date: body.date,
+      startTime: body.start_time,
+      agentId: body.agent_id,
     });
-    
+
+    return res.json(appointment);
   } catch (error) {
-    logger.error("Error en GET /appointments/availability:", error);
-    return res.status(500).json({ 
-      error: "Error al calcular disponibilidad",
-      message: error instanceof Error ? error.message : "Error desconocido"
-    });
+    logger.error(`Error en PATCH /appointments/${req.params.id}:`, error);
+    return handleAppointmentError(res, error, "Error al reprogramar cita");
+  }
+});
+
+/**
+ * DELETE /api/appointments/:id
+ * Cancela una cita (el motivo puede enviarse en el body o en ?reason=)
+ */
+router.delete("/:id", async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.user.tenantId) {
+      return res.status(401).json({
+        error: "No autorizado",
+        message: "Se requiere autenticación con información de tenant",
+      });
+    }
+
+    const reason = (req.body && req.body.reason) || (req.query.reason as string | undefined);
+    logger.info(`Cancelando cita ${req.params.id} para tenant ${req.user.tenantId}`);
+
+    const appointment = await cancelAppointment(req.user.tenantId, req.params.id, reason);
+    return res.json(appointment);
+  } catch (error) {
+    logger.error(`Error en DELETE /appointments/${req.params.id}:`, error);
+    return handleAppointmentError(res, error, "Error al cancelar cita");
   }
 });
 
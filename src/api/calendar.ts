@@ -0,0 +1,60 @@
+/**
+ * src/api/calendar.ts
+ *
+ * Feeds iCalendar suscribibles de citas (Google Calendar, Outlook).
+ * No usa authMiddleware: los clientes de calendario no envían cabeceras,
+ * el acceso se valida con el token firmado de la URL (?token=).
+ * Sin CALENDAR_FEED_SECRET los feeds no están disponibles.
+ * @version 1.0.1
+ * @created 2025-06-08
+ * @updated 2025-06-17
+ */
+
+import express from "express";
+import logger from "../utils/logger";
+import { config } from "../config";
+import { buildAppointmentFeed, verifyFeedToken } from "../services/appointmentCalendar";
+
+const router = express.Router();
+
+/**
+ * Responde con el feed del tenant o del agente si el token es válido
+ */
+async function sendFeed(req: express.Request, res: express.Response, tenantId: string, agentId?: string) {
+  try {
+    if (!config.appointments.feedSecret) {
+      return res.status(404).json({ error: "Los feeds de calendario no están habilitados" });
+    }
+
+    if (!verifyFeedToken(req.query.token as string, tenantId, agentId)) {
+      return res.status(403).json({ error: "Token de calendario inválido" });
+    }
+
+    const content = await buildAppointmentFeed(tenantId, agentId);
+    res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+    res.setHeader("Cache-Control", "private, max-age=300");
+    return res.send(content);
+  } catch (error) {
+    logger.error(`Error al generar feed de calendario para tenant ${tenantId}:`, error);
+    return res.status(500).json({
+      error: "Error al generar calendario",
+      message: error instanceof Error ? error.message : "Error desconocido"
+    });
+  }
+}
+
+/**
+ * GET /api/calendar/:tenantId/feed.ics?token=
+ * Feed con todas las citas del tenant
+ */
+router.get("/:tenantId/feed.ics", (req, res) => sendFeed(req, res, req.params.tenantId));
+
+/**
+ * GET /api/calendar/:tenantId/agents/:agentId/feed.ics?token=
+ * Feed con las citas de un agente
+ */
+router.get("/:tenantId/agents/:agentId/feed.ics", (req, res) =>
+  sendFeed(req, res, req.params.tenantId, req.params.agentId)
+);
+
+export default router;
@@ -2,10 +2,11 @@
  * src/api/flows.ts
  *
  * API para la gestión de flujos conversacionales.
- * Proporciona endpoints para crear, consultar, actualizar y eliminar flujos.
+ * Proporciona endpoints para crear, consultar, actualizar y eliminar flujos,
+ * y para publicar, comparar y restaurar versiones.
  * Diferentes permisos para super_admin y tenants.
- * @version 1.2.1
- * @updated 2025-04-27
+ * @version 1.3.1
+ * @updated 2025-06-17
  */
 
 import { Router } from "express";
@@ -14,6 +15,15 @@ import { TemplateService } from "../services/templateService";
 import { AuthRequest, authMiddleware, superAdminMiddleware } from "../middlewares/auth";
 import { validateFlow } from "../services/flowValidator";
 import { logAuditAction, AuditActionType } from "../services/auditService";
+import {
+  FlowVersionError,
+  listFlowVersions,
+  getFlowVersion,
+  diffFlowVersions,
+} from "../services/flowVersionService";
+import { lintFlow } from "../services/flowLinter";
+import { getSystemVariablesForTenant } from "../utils/systemVariablesLoader";
+import { Flow } from "../models/flow.types";
 import { config } from "../config";
 import logger from "../utils/logger";
 
@@ -193,7 +203,7 @@ router.put("/:id", superAdminMiddleware, async (req: AuthRequest, res) => {
     const { id } = req.params;
     const userId = req.user?.id || 'unknown';
     const userRole = req.user?.role || 'super_admin';
-    const flowData = req.body;
+    const { publish, publishNotes, ...flowData } = req.body || {};
     
     // Verificamos que el flujo exista
     const existingFlow = await flowService.getFlowById(id);
@@ -236,10 +246,18 @@ router.put("/:id", superAdminMiddleware, async (req: AuthRequest, res) => {
     if (flowData.isActive) {
       await flowService.activateFlow(id);
     }
+
+    // Los cambios quedan en el borrador salvo que se pida publicarlos
+    const publishedVersion = publish
+      ? await flowService.publishFlow(id, { notes: publishNotes, publishedBy: userId })
+      : null;
     
     return res.json({
       success: true,
-      message: "Flujo actualizado correctamente",
+      message: publishedVersion
+        ? `Flujo actualizado y publicado como versión ${publishedVersion.version}`
+        : "Borrador del flujo actualizado correctamente",
+      ...(publishedVersion ? { version: publishedVersion } : {}),
     });
   } catch (error) {
     logger.error(`Error al actualizar flujo ${req.params.id}:`, error);
@@ -602,4 +620,345 @@ router.post("/:id/test", async (req: AuthRequest, res) => {
   }
 });
 
+/**
+ * Obtiene un flujo verificando que pertenezca al tenant del usuario
+ * Responde 404/403 y devuelve null si no se puede acceder
+ */
+async function getAccessibleFlow(req: AuthRequest, res: any): Promise<Flow | null> {
+  const tenantId = req.user?.tenantId || config.multitenant.defaultTenant;
+  const isSuperAdmin = req.user?.role === 'super_admin';
+  const flow = await flowService.getFlowById(req.params.id);
+
+  if (!flow) {
+    res.status(404).json({
+      success: false,
+      error: "Flujo no encontrado",
+    });
+    return null;
+  }
+
+  if (!isSuperAdmin && flow.tenantId !== tenantId) {
+    if (config.environment === "development") {
+      logger.warn(`Usuario con tenant ${tenantId} accediendo a versiones de flujo de tenant ${flow.tenantId} en modo desarrollo`);
+    } else {
+      res.status(403).json({
+        success: false,
+        error: "No tienes permiso para acceder a este flujo",
+      });
+      return null;
+    }
+  }
+
+  return flow;
+}
+
+/**
+ * Responde a los errores del versionado de flujos
+ */
+function handleFlowVersionError(res: any, error: unknown, fallback: string) {
+  if (error instanceof FlowVersionError) {
+    const status =
+      error.code === "NOT_FOUND" ? 404 :
+      error.code === "INVALID_FLOW" ? 400 :
+      error.code === "CONFLICT" ? 409 :
+      500;
+    return res.status(status).json({
+      success: false,
+      error: error.message,
+      code: error.code,
+    });
+  }
+
+  return res.status(500).json({
+    success: false,
+    error: fallback,
+    details: error instanceof Error ? error.message : "Error desconocido",
+  });
+}
+
+/**
+ * Lista las versiones publicadas de un flujo
+ * GET /flows/:id/versions
+ */
+router.get("/:id/versions", async (req: AuthRequest, res) => {
+  try {
+    const flow = await getAccessibleFlow(req, res);
+    if (!flow) return;
+
+    const versions = await listFlowVersions(flow.id);
+
+    return res.json({
+      success: true,
+      publishedVersionId: flow.publishedVersionId || null,
+      versions,
+    });
+  } catch (error) {
+    logger.error(`Error al listar versiones del flujo ${req.params.id}:`, error);
+    return handleFlowVersionError(res, error, "Error al listar versiones");
+  }
+});
+
+/**
+ * Obtiene una versión publicada con su contenido
+ * GET /flows/:id/versions/:versionId
+ */
+router.get("/:id/versions/:versionId", async (req: AuthRequest, res) => {
+  try {
+    const flow = await getAccessibleFlow(req, res);
+    if (!flow) return;
+
+    const version = await getFlowVersion(req.params.versionId);
+    if (!version || version.flowId !== flow.id) {
+      return res.status(404).json({
+        success: false,
+        error: "Versión no encontrada",
+      });
+    }
+
+    return res.json({
+      success: true,
+      version,
+    });
+  } catch (error) {
+    logger.error(`Error al obtener versión ${req.params.versionId} del flujo ${req.params.id}:`, error);
+    return handleFlowVersionError(res, error, "Error al obtener versión");
+  }
+});
+
+/**
+ * Compara dos versiones de un flujo
+ * GET /flows/:id/diff?from=published&to=draft
+ * from/to aceptan "draft", "published", el número de versión o su ID
+ */
+router.get("/:id/diff", async (req: AuthRequest, res) => {
+  try {
+    const flow = await getAccessibleFlow(req, res);
+    if (!flow) return;
+
+    const diff = await diffFlowVersions(
+      flow.id,
+      (req.query.from as string) || "published",
+      (req.query.to as string) || "draft",
+      { includeLayout: req.query.layout === "true" }
+    );
+
+    return res.json({
+      success: true,
+      diff,
+    });
+  } catch (error) {
+    logger.error(`Error al comparar versiones del flujo ${req.params.id}:`, error);
+    return handleFlowVersionError(res, error, "Error al comparar versiones");
+  }
+});
+
+/**
+ * Publica el borrador como una nueva versión inmutable (solo super_admin)
+ * POST /flows/:id/publish
+ */
+router.post("/:id/publish", superAdminMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const flow = await getAccessibleFlow(req, res);
+    if (!flow) return;
+
+    const userId = req.user?.id || 'unknown';
+    const { notes, version: versionLabel } = req.body || {};
+
+    const version = await flowService.publishFlow(flow.id, {
+      notes,
+      version: versionLabel,
+      publishedBy: userId,
+    });
+
+    await logAuditAction({
+      action: AuditActionType.PUBLISH_FLOW,
+      userId,
+      tenantId: flow.tenantId,
+      resourceId: flow.id,
+      resourceType: 'flow',
+      resourceName: flow.name,
+      details: {
+        versionId: version.id,
+        versionNumber: version.versionNumber,
+        version: version.version,
+        previousVersionId: flow.publishedVersionId || null,
+      },
+      role: req.user?.role || 'tenant_user'
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: `Flujo publicado como versión ${version.version}`,
+      version,
+    });
+  } catch (error) {
+    logger.error(`Error al publicar flujo ${req.params.id}:`, error);
+    return handleFlowVersionError(res, error, "Error al publicar flujo");
+  }
+});
+
+/**
+ * Restaura una versión anterior (body: { version, restoreDraft? }) (solo super_admin)
+ * POST /flows/:id/rollback
+ */
+router.post("/:id/rollback", superAdminMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const flow = await getAccessibleFlow(req, res);
+    if (!flow) return;
+
+    const { version: ref, restoreDraft } = req.body || {};
+    if (ref === undefined || ref === null || ref === "") {
+      return res.status(400).json({
+        success: false,
+        error: "Se requiere la versión a restaurar (número o ID)",
+      });
+    }
+
+    const userId = req.user?.id || 'unknown';
+    const version = await flowService.rollbackFlow(flow.id, String(ref), {
+      restoreDraft: restoreDraft !== false,
+    });
+
+    await logAuditAction({
+      action: AuditActionType.ROLLBACK_FLOW,
+      userId,
+      tenantId: flow.tenantId,
+      resourceId: flow.id,
+      resourceType: 'flow',
+      resourceName: flow.name,
+      details: {
+        versionId: version.id,
+        versionNumber: version.versionNumber,
+        previousVersionId: flow.publishedVersionId || null,
+        draftRestored: restoreDraft !== false,
+      },
+      role: req.user?.role || 'tenant_user'
+    });
+
+    return res.json({
+      success: true,
+      message: `Flujo restaurado a la versión ${version.version}`,
+      version,
+    });
+  } catch (error) {
+    logger.error(`Error al restaurar versión del flujo ${req.params.id}:`, error);
+    return handleFlowVersionError(res, error, "Error al restaurar versión");
+  }
+});
+
+/**
+ * Vista previa de la actualización de un flujo con la versión actual de su plantilla
+ * GET /flows/:id/template-merge
+ */
+router.get("/:id/template-merge", async (req: AuthRequest, res) => {
+  try {
+    const flow = await getAccessibleFlow(req, res);
+    if (!flow) return;
+
+    const preview = await templateService.previewTemplateMerge(flow.id);
+
+    return res.json({
+      success: true,
+      ...preview,
+    });
+  } catch (error) {
+    logger.error(`Error al calcular merge de plantilla del flujo ${req.params.id}:`, error);
+    return handleFlowVersionError(res, error, "Error al calcular actualización de plantilla");
+  }
+});
+
+/**
+ * Aplica la versión actual de la plantilla al flujo
+ * (body: { resolutions?: { [nodeId]: "template" | "instance" | nodo | null }, publish? })
+ * POST /flows/:id/template-merge
+ */
+router.post("/:id/template-merge", async (req: AuthRequest, res) => {
+  try {
+    const flow = await getAccessibleFlow(req, res);
+    if (!flow) return;
+
+    const { resolutions, publish } = req.body || {};
+    if (resolutions !== undefined && (typeof resolutions !== "object" || Array.isArray(resolutions))) {
+      return res.status(400).json({
+        success: false,
+        error: "resolutions debe ser un objeto indexado por ID de nodo",
+      });
+    }
+
+    const userId = req.user?.id || 'unknown';
+    const result = await templateService.applyTemplateMerge(flow.id, resolutions || {}, {
+      publish: publish === true,
+      publishedBy: userId,
+    });
+
+    await logAuditAction({
+      action: AuditActionType.MERGE_TEMPLATE_UPDATE,
+      userId,
+      tenantId: flow.tenantId,
+      resourceId: flow.id,
+      resourceType: 'flow',
+      resourceName: flow.name,
+      details: {
+        templateId: flow.parentTemplateId,
+        fromTemplateVersion: flow.parentTemplateVersion || null,
+        toTemplateVersion: result.templateVersion,
+        applied: result.merge.applied.map((change) => change.nodeId),
+        resolvedConflicts: result.merge.conflicts.map((conflict) => conflict.nodeId),
+        publishedVersionId: result.version?.id || null,
+      },
+      role: req.user?.role || 'tenant_user'
+    });
+
+    return res.json({
+      success: true,
+      message: `Flujo actualizado con la plantilla ${result.templateVersion}`,
+      ...result,
+    });
+  } catch (error) {
+    logger.error(`Error al aplicar merge de plantilla del flujo ${req.params.id}:`, error);
+    return handleFlowVersionError(res, error, "Error al aplicar actualización de plantilla");
+  }
+});
+
+/**
+ * Analiza el flujo y reporta nodos inalcanzables, ciclos, variables y conexiones faltantes
+ * (body opcional: { nodes, entryNodeId } para analizar contenido sin guardar)
+ * POST /flows/:id/lint
+ */
+router.post("/:id/lint", async (req: AuthRequest, res) => {
+  try {
+    const flow = await getAccessibleFlow(req, res);
+    if (!flow) return;
+
+    const { nodes, entryNodeId } = req.body || {};
+    if (nodes !== undefined && (typeof nodes !== "object" || nodes === null || Array.isArray(nodes))) {
+      return res.status(400).json({
+        success: false,
+        error: "nodes debe ser un objeto indexado por ID de nodo",
+      });
+    }
+
+    const systemVariables = await getSystemVariablesForTenant(flow.tenantId);
+    const result = lintFlow(
+      {
+        entryNodeId: entryNodeId || flow.entryNodeId,
+        nodes: nodes || flow.nodes,
+      },
+      { knownVariables: Object.keys(systemVariables) }
+    );
+
+    return res.json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    logger.error(`Error al analizar flujo ${req.params.id}:`, error);
+    return res.status(500).json({
+      success: false,
+      error: "Error al analizar flujo",
+      details: error instanceof Error ? error.message : "Error desconocido",
+    });
+  }
+});
+
 export default router;
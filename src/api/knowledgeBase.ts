@@ -0,0 +1,168 @@
+/**
+ * src/api/knowledgeBase.ts
+ *
+ * API para gestionar la base de conocimiento de cada tenant
+ * (FAQs, fichas de propiedades, políticas) usada por los nodos de IA.
+ * Los documentos se envían como texto en JSON o como archivo (.txt, .md);
+ * los PDF se reciben con el texto ya extraído (formato "pdf", páginas separadas por \f).
+ * @version 1.0.0
+ * @created 2025-06-12
+ */
+
+import express from "express";
+import fileUpload from "express-fileupload";
+import { authMiddleware } from "../middlewares/auth";
+import type { AuthRequest } from "../middlewares/auth";
+import logger from "../utils/logger";
+import {
+  KnowledgeBase,
+  KnowledgeBaseError,
+  KnowledgeFormat,
+  buildKnowledgePrompt,
+} from "../services/knowledgeBase";
+
+const router = express.Router();
+
+router.use(
+  fileUpload({
+    limits: { fileSize: 5 * 1024 * 1024 }, // 5MB
+    useTempFiles: false,
+    abortOnLimit: true,
+  })
+);
+
+// Middleware de autenticación
+router.use(authMiddleware);
+
+// Formato según la extensión del archivo subido
+const FORMAT_BY_EXTENSION: Record<string, KnowledgeFormat> = {
+  txt: "text",
+  text: "text",
+  md: "markdown",
+  markdown: "markdown",
+};
+
+/**
+ * Responde con el código HTTP adecuado para los errores de la base de conocimiento
+ */
+function handleKnowledgeBaseError(res: express.Response, error: unknown, fallback: string) {
+  if (error instanceof KnowledgeBaseError) {
+    const status = error.code === "NOT_FOUND" ? 404 : error.code === "INVALID_INPUT" ? 400 : 500;
+    return res.status(status).json({ error: error.message, code: error.code });
+  }
+
+  return res.status(500).json({
+    error: fallback,
+    message: error instanceof Error ? error.message : "Error desconocido"
+  });
+}
+
+/**
+ * Obtiene el tenant del usuario o responde 401
+ */
+function requireTenant(req: AuthRequest, res: express.Response): string | null {
+  if (!req.user || !req.user.tenantId) {
+    res.status(401).json({
+      error: "No autorizado",
+      message: "Se requiere autenticación con información de tenant",
+    });
+    return null;
+  }
+  return req.user.tenantId;
+}
+
+/**
+ * GET /api/knowledge-base/documents
+ * Lista los documentos del tenant
+ */
+router.get("/documents", async (req: AuthRequest, res) => {
+  const tenantId = requireTenant(req, res);
+  if (!tenantId) return;
+
+  try {
+    const documents = await KnowledgeBase.getInstance().listDocuments(tenantId);
+    return res.json(documents);
+  } catch (error) {
+    logger.error("Error en GET /knowledge-base/documents:", error);
+    return handleKnowledgeBaseError(res, error, "Error al listar documentos");
+  }
+});
+
+/**
+ * POST /api/knowledge-base/documents
+ * Agrega un documento (body: { title, content, format?, source? } o archivo "file")
+ */
+router.post("/documents", async (req: AuthRequest, res) => {
+  const tenantId = requireTenant(req, res);
+  if (!tenantId) return;
+
+  try {
+    let { title, content, format, source } = req.body || {};
+
+    const file = req.files?.file as fileUpload.UploadedFile | undefined;
+    if (file) {
+      const extension = (file.name.split(".").pop() || "").toLowerCase();
+      if (!FORMAT_BY_EXTENSION[extension]) {
+        return res.status(400).json({
+          error: "Solo se aceptan archivos .txt o .md; para PDF envía el texto extraído con formato \"pdf\"",
+        });
+      }
+      content = file.data.toString("utf8");
+      format = format || FORMAT_BY_EXTENSION[extension];
+      title = title || file.name.replace(/\.[^.]+$/, "");
+      source = source || file.name;
+    }
+
+    const document = await KnowledgeBase.getInstance().addDocument(tenantId, { title, content, format, source });
+    return res.status(201).json(document);
+  } catch (error) {
+    logger.error("Error en POST /knowledge-base/documents:", error);
+    return handleKnowledgeBaseError(res, error, "Error al agregar documento");
+  }
+});
+
+/**
+ * DELETE /api/knowledge-base/documents/:id
+ * Elimina un documento y sus fragmentos
+ */
+router.delete("/documents/:id", async (req: AuthRequest, res) => {
+  const tenantId = requireTenant(req, res);
+  if (!tenantId) return;
+
+  try {
+    await KnowledgeBase.getInstance().deleteDocument(tenantId, req.params.id);
+    return res.json({ success: true });
+  } catch (error) {
+    logger.error(`Error en DELETE /knowledge-base/documents/${req.params.id}:`, error);
+    return handleKnowledgeBaseError(res, error, "Error al eliminar documento");
+  }
+});
+
+/**
+ * POST /api/knowledge-base/search
+ * Prueba la recuperación (body: { query, topK? }) y devuelve el contexto que recibiría el nodo de IA
+ */
+router.post("/search", async (req: AuthRequest, res) => {
+  const tenantId = requireTenant(req, res);
+  if (!tenantId) return;
+
+  try {
+    const { query, topK } = req.body || {};
+    if (!query || typeof query !== "string") {
+      return res.status(400).json({ error: "Se requiere el parámetro query" });
+    }
+
+    const passages = await KnowledgeBase.getInstance().search(
+      tenantId,
+      query,
+      topK ? Math.min(Math.max(parseInt(topK, 10) || 1, 1), 20) : undefined
+    );
+
+    return res.json({ passages, prompt: buildKnowledgePrompt(passages) });
+  } catch (error) {
+    logger.error("Error en POST /knowledge-base/search:", error);
+    return handleKnowledgeBaseError(res, error, "Error al buscar en la base de conocimiento");
+  }
+});
+
+export default router;
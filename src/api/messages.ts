@@ -0,0 +1,55 @@
+/**
+ * src/api/messages.ts
+ *
+ * API del registro de entrega de mensajes salientes: línea de tiempo
+ * de una conversación (enviado, entregado, leído, fallido y reintentos).
+ * @version 1.0.0
+ * @created 2025-06-17
+ */
+
+import express from "express";
+import { authMiddleware } from "../middlewares/auth";
+import type { AuthRequest } from "../middlewares/auth";
+import logger from "../utils/logger";
+import { getValidTenantUuid } from "../services/supabase";
+import { MessageDeliveryService } from "../services/messageDelivery";
+
+const router = express.Router();
+
+// Middleware de autenticación
+router.use(authMiddleware);
+
+const MAX_TIMELINE_LIMIT = 200;
+
+/**
+ * GET /api/messages/conversations/:recipient/deliveries?limit=50
+ * Línea de tiempo de entrega de los mensajes enviados a un cliente del tenant
+ */
+router.get("/conversations/:recipient/deliveries", async (req: AuthRequest, res) => {
+  if (!req.user || !req.user.tenantId) {
+    return res.status(401).json({
+      error: "No autorizado",
+      message: "Se requiere autenticación con información de tenant",
+    });
+  }
+
+  const requested = parseInt(String(req.query.limit || "50"), 10);
+  const limit = Math.min(Math.max(isNaN(requested) ? 50 : requested, 1), MAX_TIMELINE_LIMIT);
+
+  try {
+    const timeline = await MessageDeliveryService.getInstance().getTimeline(
+      getValidTenantUuid(req.user.tenantId),
+      req.params.recipient,
+      limit
+    );
+    return res.json(timeline);
+  } catch (error) {
+    logger.error("Error en GET /messages/conversations/:recipient/deliveries:", error);
+    return res.status(500).json({
+      error: "Error al obtener la línea de tiempo de entrega",
+      message: error instanceof Error ? error.message : "Error desconocido"
+    });
+  }
+});
+
+export default router;
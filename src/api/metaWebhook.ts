@@ -0,0 +1,108 @@
+/**
+ * src/api/metaWebhook.ts
+ *
+ * Webhook de WhatsApp Cloud API (por defecto /webhooks/meta).
+ * GET: verificación de la suscripción (hub.mode, hub.verify_token, hub.challenge).
+ * POST: notificaciones firmadas con X-Hub-Signature-256 (HMAC-SHA256 del cuerpo
+ * crudo con el secreto de la app). Cada notificación se entrega al proveedor
+ * del phone_number_id que la recibe. Se monta antes de express.json para
+ * conservar el cuerpo crudo.
+ * @version 1.0.1
+ * @created 2025-06-17
+ * @updated 2025-06-17
+ */
+
+import express from "express";
+import { config } from "../config";
+import logger from "../utils/logger";
+import {
+  getMetaProvider,
+  listMetaProviders,
+  parseMetaWebhook,
+  verifyMetaSignature,
+} from "../provider/metaProvider";
+
+const router = express.Router();
+
+/**
+ * GET /webhooks/meta
+ * Meta envía hub.challenge y espera recibirlo de vuelta si el token coincide
+ */
+router.get("/", (req, res) => {
+  const mode = req.query["hub.mode"];
+  const token = String(req.query["hub.verify_token"] || "");
+  const challenge = String(req.query["hub.challenge"] || "");
+
+  const tokens = [config.whatsapp.meta.verifyToken, ...listMetaProviders().map((provider) => provider.verifyToken)];
+  if (mode === "subscribe" && token && tokens.includes(token)) {
+    logger.info("[Meta] Webhook verificado");
+    return res.status(200).type("text/plain").send(challenge);
+  }
+
+  logger.warn("[Meta] Verificación de webhook rechazada: token inválido");
+  return res.sendStatus(403);
+});
+
+/**
+ * POST /webhooks/meta
+ * Mensajes entrantes y estados de entrega/lectura
+ */
+router.post("/", express.raw({ type: "*/*", limit: "5mb" }), (req, res) => {
+  const rawBody: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.from("");
+
+  let payload: any;
+  try {
+    payload = JSON.parse(rawBody.toString("utf8"));
+  } catch {
+    return res.status(400).json({ error: "Cuerpo JSON inválido" });
+  }
+
+  const parsed = parseMetaWebhook(payload);
+  const phoneNumberIds = new Set([...parsed.messages, ...parsed.statuses].map((item) => item.phoneNumberId));
+  const targets = Array.from(phoneNumberIds).map((id) => ({ id, provider: getMetaProvider(id) }));
+
+  // La firma valida la notificación para un número solo si se hizo con el secreto global
+  // o con el de ese número (las apps de Meta firman con su propio secreto): un tenant no
+  // puede firmar entradas dirigidas al número de otro tenant
+  const signature = req.get("x-hub-signature-256");
+  const globalSecret = config.whatsapp.meta.appSecret;
+  const signedGlobally = !!globalSecret && verifyMetaSignature(rawBody, signature, globalSecret);
+  const hasSecrets = !!globalSecret || targets.some((target) => !!target.provider?.appSecret);
+
+  let verified = targets;
+  if (!hasSecrets) {
+    if (config.environment !== "development") {
+      logger.error("[Meta] Webhook rechazado: META_APP_SECRET no configurado");
+      return res.sendStatus(401);
+    }
+    logger.warn("[Meta] META_APP_SECRET no configurado: se acepta el webhook sin validar la firma (desarrollo)");
+  } else if (!signedGlobally) {
+    verified = targets.filter(
+      ({ provider }) => !!provider?.appSecret && verifyMetaSignature(rawBody, signature, provider.appSecret)
+    );
+    if (verified.length === 0) {
+      logger.warn("[Meta] Webhook rechazado: firma X-Hub-Signature-256 inválida");
+      return res.sendStatus(401);
+    }
+    targets
+      .filter((target) => !verified.includes(target))
+      .forEach(({ id }) => logger.warn(`[Meta] Entradas para phone_number_id ${id} descartadas: firma de otra app`));
+  }
+
+  // Meta reintenta si no recibe 200 rápido: se responde antes de procesar
+  res.sendStatus(200);
+
+  for (const { id, provider } of verified) {
+    if (!provider) {
+      logger.warn(`[Meta] Notificación para phone_number_id ${id} sin proveedor conectado`);
+      continue;
+    }
+    try {
+      provider.handleWebhook(parsed);
+    } catch (error) {
+      logger.error(`[Meta] Error al procesar el webhook de ${id}:`, error);
+    }
+  }
+});
+
+export default router;
@@ -3,8 +3,8 @@
  *
  * API para procesamiento de voz (STT y TTS).
  * Maneja la transcripción, procesamiento y síntesis de voz.
- * @version 2.0.0
- * @updated 2025-04-17
+ * @version 2.2.1
+ * @updated 2025-06-17
  */
 
 // Función auxiliar para generar un UUID v4 aleatorio (o fallback a un UUID fijo)
@@ -36,14 +36,27 @@ function generateUUID(): string {
 
 import { Router } from "express";
 import fileUpload from "express-fileupload";
-import { transcribeAudio, base64ToBuffer } from "../services/stt";
-import { synthesizeSpeech, saveAudioFile } from "../services/tts";
+import {
+  transcribeAudio,
+  transcribeAudioWithProvider,
+  getSessionLanguageHint,
+  base64ToBuffer,
+} from "../services/stt";
+import { synthesizeSpeechWithProvider, saveAudioFile } from "../services/tts";
+import {
+  TTSService,
+  STTService,
+  TTSAudioCache,
+  SpeechProviderError,
+  saveTenantVoiceSettings,
+} from "../services/speech";
 import { synthesizeSpeechStreamWithMiniMax } from "../services/minimax-tts-stream";
+import { getActiveVoiceSessions } from "./voiceStream";
 import {
   processMessageWithFlows,
   clearFlowState,
 } from "../services/botFlowIntegration";
-import { AuthRequest, optionalAuthMiddleware } from "../middlewares/auth";
+import { AuthRequest, authMiddleware, adminMiddleware, optionalAuthMiddleware } from "../middlewares/auth";
 import {
   logMessage,
   incrementUsage,
@@ -207,11 +220,15 @@ router.post("/chat", checkTenantQuota, async (req: AuthRequest, res) => {
 
     // 2. Transcribir si la entrada fue audio
     if (inputType === "audio" && audioBuffer) {
+      // Idioma: el solicitado o el del último nodo de voz de la sesión
+      const language =
+        req.body.language ||
+        (req.body.session_id
+          ? await getSessionLanguageHint(tenantId, userId, sessionId)
+          : undefined);
+
       // Iniciamos temprano la transcripción para reducir latencia
-      const transcriptionPromise = transcribeAudio(
-        audioBuffer,
-        req.body.language || "es"
-      );
+      const transcriptionPromise = transcribeAudio(audioBuffer, language);
 
       // Si es un usuario que ya ha hablado, mientras esperamos la transcripción,
       // podemos indicar que estamos procesando
@@ -297,12 +314,16 @@ router.post("/chat", checkTenantQuota, async (req: AuthRequest, res) => {
       }"`
     );
 
-    // 5. Sintetizar la respuesta del bot a voz
-    const voiceId = req.body.voice_id || config.minimax.voice;
-    // Activamos streaming por defecto para respuestas más rápidas (a menos que se desactive explícitamente)
+    // 5. Sintetizar la respuesta del bot a voz (sin voz solicitada se usa la del tenant)
+    const voiceId: string | undefined = req.body.voice_id || undefined;
+    const ttsService = TTSService.getInstance();
+    const [ttsProvider] = await ttsService.resolveProviderOrder({ tenantId });
+    // Activamos streaming por defecto para respuestas más rápidas (a menos que se desactive explícitamente).
+    // Solo MiniMax ofrece streaming
     const useStreaming =
       req.query.stream !== "false" &&
-      config.minimax.streaming.enabled !== false;
+      config.minimax.streaming.enabled !== false &&
+      ttsProvider === "minimax";
 
     if (useStreaming) {
       // Verificar que tenemos texto válido antes de sintetizar
@@ -328,7 +349,7 @@ router.post("/chat", checkTenantQuota, async (req: AuthRequest, res) => {
       try {
         const remoteStream = await synthesizeSpeechStreamWithMiniMax(
           botResponse.text,
-          voiceId
+          voiceId || (await ttsService.listVoices({ tenantId })).defaultVoice
         );
 
         const rl = createInterface({ input: remoteStream });
@@ -394,15 +415,15 @@ router.post("/chat", checkTenantQuota, async (req: AuthRequest, res) => {
       });
     }
 
-    const audioResponse = await synthesizeSpeech(botResponse.text, voiceId);
+    const speech = await synthesizeSpeechWithProvider(botResponse.text, { tenantId, voice: voiceId });
 
     // Guardamos el audio y obtenemos la URL
     const audioUrl = saveAudioFile(
-      audioResponse,
+      speech.audio,
       tenantId,
       userId,
       botResponse.text,
-      voiceId
+      speech.voice
     );
 
     // 6. Registrar mensaje del bot en Supabase (si está habilitado)
@@ -498,11 +519,16 @@ router.post("/transcribe", checkTenantQuota, async (req: AuthRequest, res) => {
       audioBuffer = audioFile.data;
     }
 
-    // Obtenemos el idioma si se especificó
-    const language = req.body.language || "es";
+    // Idioma: el solicitado o el del último nodo de voz de la sesión
+    const language =
+      req.body.language ||
+      (await getSessionLanguageHint(tenantId, userId, req.body.session_id));
 
-    // Realizamos la transcripción
-    const transcription = await transcribeAudio(audioBuffer, language);
+    // Realizamos la transcripción con el proveedor solicitado (o los configurados)
+    const result = await transcribeAudioWithProvider(audioBuffer, {
+      provider: req.body.provider,
+      language,
+    });
 
     // Incrementamos contador de uso si Supabase está habilitado
     if (config.supabase.enabled) {
@@ -511,10 +537,21 @@ router.post("/transcribe", checkTenantQuota, async (req: AuthRequest, res) => {
 
     return res.json({
       success: true,
-      transcription,
+      transcription: result.text,
+      confidence: result.confidence,
+      words: result.words,
+      language: result.language,
+      provider: result.provider,
     });
   } catch (error) {
     logger.error("Error en endpoint de transcripción:", error);
+    if (error instanceof SpeechProviderError && error.code === "NOT_CONFIGURED") {
+      return res.status(503).json({
+        success: false,
+        error: "No hay proveedores de transcripción disponibles",
+        details: error.message,
+      });
+    }
     return res.status(500).json({
       success: false,
       error: "Error al transcribir audio",
@@ -548,20 +585,22 @@ router.post("/tts", checkTenantQuota, async (req: AuthRequest, res) => {
       );
     }
 
-    const { text, voice_id } = req.body;
+    const { text, voice_id, provider, format, speed, pitch } = req.body;
+    const ttsService = TTSService.getInstance();
 
     logger.info(
       `Endpoint TTS - Petición recibida: texto="${text}", voice_id=${
         voice_id || "default"
       }`
     );
-    // Streaming chunked si se solicita
-    if (req.query.stream === "true") {
+    // Streaming chunked si se solicita (solo disponible con MiniMax)
+    const [ttsProvider] = await ttsService.resolveProviderOrder({ tenantId, provider });
+    if (req.query.stream === "true" && ttsProvider === "minimax") {
       res.setHeader("Content-Type", "audio/mpeg");
       res.setHeader("Transfer-Encoding", "chunked");
       const remoteStream = await synthesizeSpeechStreamWithMiniMax(
         text,
-        voice_id
+        voice_id || (await ttsService.listVoices({ tenantId, provider })).defaultVoice
       );
       const rl = createInterface({ input: remoteStream });
       rl.on("line", (line: string) => {
@@ -589,16 +628,19 @@ router.post("/tts", checkTenantQuota, async (req: AuthRequest, res) => {
         .json({ error: "No se proporcionó texto para sintetizar" });
     }
 
-    // Configuración de MiniMax a utilizar
-    logger.info(
-      `Usando configuración MiniMax: ${config.minimax.apiUrl.tts}?GroupId=${config.minimax.groupId}`
-    );
-
     try {
-      // Sintetizamos el texto
-      logger.info("Llamando a synthesizeSpeech...");
-      const audioBuffer = await synthesizeSpeech(text, voice_id);
-      logger.info(`Audio generado: ${audioBuffer.length} bytes`);
+      // Sintetizamos el texto con el proveedor del tenant (o el solicitado) en un formato aceptado
+      logger.info(`Sintetizando con el proveedor ${ttsProvider || "ninguno"}...`);
+      const speech = await synthesizeSpeechWithProvider(text, {
+        tenantId,
+        provider,
+        voice: voice_id,
+        accept: Array.isArray(format) ? format : format ? [format] : undefined,
+        speed: speed !== undefined ? Number(speed) : undefined,
+        pitch: pitch !== undefined ? Number(pitch) : undefined,
+      });
+      const audioBuffer = speech.audio;
+      logger.info(`Audio generado por ${speech.provider}: ${audioBuffer.length} bytes (${speech.format})`);
 
       // Guardamos el archivo
       logger.info("Guardando archivo de audio...");
@@ -607,7 +649,7 @@ router.post("/tts", checkTenantQuota, async (req: AuthRequest, res) => {
         tenantId,
         userId,
         text,
-        voice_id
+        speech.voice
       );
       logger.info(`Archivo guardado en: ${audioUrl}`);
 
@@ -621,16 +663,20 @@ router.post("/tts", checkTenantQuota, async (req: AuthRequest, res) => {
         text,
         audio_url: audioUrl,
         audio_size: audioBuffer.length,
+        audio_format: speech.format,
+        provider: speech.provider,
+        voice: speech.voice,
+        cached: Boolean(speech.cached),
         debug_info: {
           // Incluimos información de depuración en la respuesta
           first_bytes: audioBuffer.slice(0, 20).toString("hex"),
-          content_type: "audio/mp3", // El formato conforme al payload
-          api_url: `${config.minimax.apiUrl.tts}?GroupId=${config.minimax.groupId}`,
+          content_type: speech.mimeType, // Detectado en los bytes del audio
         },
       });
     } catch (synthError) {
       logger.error("Error al sintetizar voz:", synthError);
-      return res.status(500).json({
+      const unsupported = synthError instanceof SpeechProviderError && synthError.code === "UNSUPPORTED_FORMAT";
+      return res.status(unsupported ? 406 : 500).json({
         success: false,
         error: "Error al sintetizar voz",
         details:
@@ -695,58 +741,28 @@ router.post("/clear", async (req: AuthRequest, res) => {
  * Endpoint para obtener las voces disponibles
  * Útil para interfaces que permiten seleccionar voz
  */
-router.get("/voices", async (req, res) => {
+router.get("/voices", async (req: AuthRequest, res) => {
   try {
-    // Lista de voces disponibles de MiniMax
-    const availableVoices = [
-      "Wise_Woman",
-      "Friendly_Person",
-      "Inspirational_girl",
-      "Deep_Voice_Man",
-      "Calm_Woman",
-      "Casual_Guy",
-      "Lively_Girl",
-      "Patient_Man",
-      "Young_Knight",
-      "Determined_Man",
-      "Lovely_Girl",
-      "Decent_Boy",
-      "Imposing_Manner",
-      "Elegant_Man",
-      "Abbess",
-      "Sweet_Girl_2",
-      "Exuberant_Girl",
-    ];
+    const ttsService = TTSService.getInstance();
+    const { provider, defaultVoice, voices } = await ttsService.listVoices({
+      tenantId: req.user?.tenantId,
+      provider: typeof req.query.provider === "string" ? req.query.provider : undefined,
+    });
 
     // Agrupamos por categorías
-    const voicesByCategory = {
-      male: [
-        "Deep_Voice_Man",
-        "Casual_Guy",
-        "Patient_Man",
-        "Young_Knight",
-        "Determined_Man",
-        "Decent_Boy",
-        "Elegant_Man",
-      ],
-      female: [
-        "Wise_Woman",
-        "Inspirational_girl",
-        "Calm_Woman",
-        "Lively_Girl",
-        "Lovely_Girl",
-        "Abbess",
-        "Sweet_Girl_2",
-        "Exuberant_Girl",
-      ],
-      neutral: ["Friendly_Person", "Imposing_Manner"],
-    };
+    const voicesByCategory: Record<string, string[]> = { male: [], female: [], neutral: [] };
+    for (const voice of voices) {
+      voicesByCategory[voice.gender || "neutral"].push(voice.id);
+    }
 
     return res.json({
       success: true,
-      default_voice: config.minimax.voice,
-      voices: availableVoices,
+      provider,
+      providers: ttsService.listProviders(),
+      default_voice: defaultVoice,
+      voices: voices.map((voice) => voice.id),
       voices_by_category: voicesByCategory,
+      voice_details: voices,
     });
   } catch (error) {
     logger.error("Error al obtener voces disponibles:", error);
@@ -758,6 +774,50 @@ router.get("/voices", async (req, res) => {
   }
 });
 
+/**
+ * Endpoint para guardar la voz del tenant
+ * Recibe { provider, voice }; valores nulos restauran la configuración global.
+ * Requiere autenticación con rol de administrador
+ */
+router.put("/settings", authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const tenantId = req.user?.tenantId;
+    if (!tenantId) {
+      return res.status(401).json({ success: false, error: "Se requiere autenticación" });
+    }
+    if (!config.supabase.enabled) {
+      return res.status(503).json({ success: false, error: "La configuración de voz requiere Supabase" });
+    }
+
+    const ttsService = TTSService.getInstance();
+    const providerName: string | null = req.body.provider || null;
+    const voice: string | null = req.body.voice || null;
+
+    if (providerName && !ttsService.getProvider(providerName)) {
+      return res.status(400).json({ success: false, error: `Proveedor de TTS desconocido: ${providerName}` });
+    }
+
+    if (voice) {
+      const { voices } = await ttsService.listVoices({ provider: providerName || undefined });
+      if (!voices.some((candidate) => candidate.id === voice)) {
+        return res.status(400).json({ success: false, error: `Voz no disponible: ${voice}` });
+      }
+    }
+
+    await saveTenantVoiceSettings(tenantId, { tts_provider: providerName, tts_voice: voice });
+    ttsService.invalidateTenantSettings(tenantId);
+
+    return res.json({ success: true, provider: providerName, voice });
+  } catch (error) {
+    logger.error("Error al guardar la voz del tenant:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Error al guardar la voz del tenant",
+      details: error instanceof Error ? error.message : "Error desconocido",
+    });
+  }
+});
+
 /**
  * Endpoint para verificar estado del servicio
  * Útil para monitoreo y healthchecks
@@ -770,13 +830,21 @@ router.get("/health", async (req, res) => {
       timestamp: new Date().toISOString(),
       services: {
         stt: {
-          provider: "assemblyai",
+          provider: config.stt.defaultProvider,
+          available: STTService.getInstance().listProviders(),
           status: "active",
         },
         tts: {
-          provider: "minimax",
+          provider: config.tts.defaultProvider,
+          available: TTSService.getInstance().listProviders(),
+          cache: TTSAudioCache.getInstance().getStats(),
           status: "active",
         },
+        stream: {
+          enabled: config.voiceStream.enabled,
+          path: config.voiceStream.path,
+          activeSessions: getActiveVoiceSessions(),
+        },
         bot: {
           engine: "builderbot",
           status: "active",
@@ -0,0 +1,245 @@
+/**
+ * src/api/voiceStream.ts
+ *
+ * Endpoint WebSocket para sesiones de voz en tiempo real (por defecto /api/voice/stream).
+ *
+ * Conexión: ws://host/api/voice/stream?token=...&session_id=...&sample_rate=16000&language=es&voice=...
+ * Cliente -> servidor:
+ *   - Binario: audio PCM de 16 bits mono little-endian a sample_rate
+ *   - {"type":"text","text":"..."}   mensaje escrito
+ *   - {"type":"end_of_speech"}       cierra el enunciado en curso
+ *   - {"type":"interrupt"}           corta la respuesta en curso
+ * Servidor -> cliente: mensajes JSON de VoiceSessionMessage y el audio de la
+ * respuesta como binario entre "audio_start" y "audio_end". El cliente debe
+ * esperar el mensaje "ready" antes de enviar audio.
+ * Fuera de desarrollo se rechaza (401) la conexión sin un token válido, y antes
+ * de cada turno se verifica la cuota del tenant, como en /chat, /transcribe y /tts.
+ * @version 1.0.1
+ * @created 2025-06-17
+ * @updated 2025-06-17
+ */
+
+import { IncomingMessage, Server } from "http";
+import { Duplex } from "stream";
+import { randomUUID } from "crypto";
+import { WebSocketServer, WebSocket, RawData } from "ws";
+import { config } from "../config";
+import logger from "../utils/logger";
+import { AuthRequest, authMiddleware } from "../middlewares/auth";
+import { FlowService } from "../services/flowService";
+import { FlowState } from "../models/flow.types";
+import { VoiceSession, VoiceSessionDependencies } from "../services/voiceSession";
+import { transcribeAudioWithProvider } from "../services/stt";
+import { streamSynthesizedSpeech } from "../services/tts";
+import { getConversationState, saveConversationState } from "../services/conversationState";
+import { getValidTenantUuid, hasTenantExceededQuota, incrementUsage } from "../services/supabase";
+
+const flowService = new FlowService();
+const sessions = new Map<WebSocket, VoiceSession>();
+
+interface VoiceStreamIdentity {
+  userId: string;
+  tenantId: string;
+}
+
+/**
+ * Obtiene usuario y tenant de la conexión (token en la query o en la cabecera)
+ * user_id y tenant_id de la query solo se aceptan en desarrollo
+ * @returns null si la conexión no está autorizada
+ */
+async function authenticate(req: IncomingMessage, params: URLSearchParams): Promise<VoiceStreamIdentity | null> {
+  const token = params.get("token");
+  const development = config.environment === "development";
+  const authReq = {
+    headers: { ...req.headers, ...(token ? { authorization: `Bearer ${token}` } : {}) },
+    body: development
+      ? { user_id: params.get("user_id") || undefined, tenant_id: params.get("tenant_id") || undefined }
+      : {},
+  } as unknown as AuthRequest;
+
+  // authMiddleware responde 401/500 con res.status().json() y llama a next() si autoriza
+  const authorized = await new Promise<boolean>((resolve) => {
+    const res = { status: () => ({ json: () => resolve(false) }) };
+    authMiddleware(authReq, res as any, () => resolve(true));
+  });
+  if (!authorized) return null;
+
+  return {
+    userId: authReq.user?.id || "anonymous",
+    tenantId: getValidTenantUuid(authReq.user?.tenantId || config.multitenant.defaultTenant),
+  };
+}
+
+/**
+ * Indica si el tenant aún tiene cuota (ante un error se permite continuar, como en /api/voice)
+ */
+async function hasQuota(tenantId: string): Promise<boolean> {
+  if (!config.supabase.enabled || !config.multitenant.enabled) return true;
+  try {
+    return !(await hasTenantExceededQuota(tenantId));
+  } catch (error) {
+    logger.error("Error al verificar cuota:", error);
+    return true;
+  }
+}
+
+/**
+ * Servicios reales de una sesión: STT con respaldo, TTS por frases y el flujo activo del tenant
+ */
+function createDependencies(tenantId: string, userId: string, sessionId: string): VoiceSessionDependencies {
+  return {
+    transcribe: (audio, language) => transcribeAudioWithProvider(audio, { language }),
+    synthesize: (text, options) => streamSynthesizedSpeech(text, options),
+    processMessage: async (text, state) => {
+      const result = await flowService.processMessage(text, userId, sessionId, tenantId, state);
+
+      if (config.supabase.enabled) {
+        // Guardamos el estado y el uso en segundo plano para no retrasar la respuesta
+        saveConversationState(tenantId, userId, sessionId, result.state).catch((error) =>
+          logger.error(`Error al guardar el estado de la sesión de voz ${sessionId}:`, error)
+        );
+        incrementUsage(tenantId).catch((error) => logger.error("Error al registrar uso:", error));
+      }
+
+      return { response: result.response, state: result.state };
+    },
+    hasQuota: () => hasQuota(tenantId),
+  };
+}
+
+async function loadState(tenantId: string, userId: string, sessionId: string): Promise<FlowState | undefined> {
+  if (!config.supabase.enabled) return undefined;
+  try {
+    const saved = await getConversationState(tenantId, userId, sessionId);
+    return (saved?.data as FlowState) || undefined;
+  } catch (error) {
+    logger.warn(`No se pudo cargar el estado de la sesión de voz ${sessionId}:`, error);
+    return undefined;
+  }
+}
+
+function handleMessage(session: VoiceSession, data: RawData, isBinary: boolean): void {
+  if (isBinary) {
+    session.handleAudio(Array.isArray(data) ? Buffer.concat(data) : Buffer.from(data as Buffer));
+    return;
+  }
+
+  let message: { type?: string; text?: string };
+  try {
+    message = JSON.parse(data.toString());
+  } catch {
+    logger.warn(`Sesión de voz ${session.sessionId}: mensaje no JSON ignorado`);
+    return;
+  }
+
+  switch (message.type) {
+    case "text":
+      if (message.text) session.handleText(message.text);
+      break;
+    case "end_of_speech":
+      session.endOfSpeech();
+      break;
+    case "interrupt":
+      session.interrupt();
+      break;
+    default:
+      logger.warn(`Sesión de voz ${session.sessionId}: tipo de mensaje desconocido ${message.type}`);
+  }
+}
+
+async function handleConnection(socket: WebSocket, identity: VoiceStreamIdentity, params: URLSearchParams): Promise<void> {
+  const { userId, tenantId } = identity;
+  const sessionId = params.get("session_id") || randomUUID();
+  const sampleRate = parseInt(params.get("sample_rate") || "", 10) || config.voiceStream.sampleRate;
+
+  const session = new VoiceSession(
+    {
+      sessionId,
+      tenantId,
+      userId,
+      sampleRate,
+      language: params.get("language") || undefined,
+      voice: params.get("voice") || undefined,
+      bargeIn: params.get("barge_in") ? params.get("barge_in") !== "false" : undefined,
+      state: await loadState(tenantId, userId, sessionId),
+    },
+    {
+      sendJson: (message) => socket.readyState === WebSocket.OPEN && socket.send(JSON.stringify(message)),
+      sendAudio: (audio) => socket.readyState === WebSocket.OPEN && socket.send(audio, { binary: true }),
+    },
+    createDependencies(tenantId, userId, sessionId)
+  );
+  sessions.set(socket, session);
+
+  socket.on("message", (data, isBinary) => handleMessage(session, data, isBinary));
+  socket.on("close", () => {
+    session.close();
+    sessions.delete(socket);
+    logger.info(`Sesión de voz ${sessionId} cerrada (${sessions.size} activas)`);
+  });
+  socket.on("error", (error) => logger.error(`Error en la sesión de voz ${sessionId}:`, error));
+
+  logger.info(`Sesión de voz ${sessionId} iniciada para tenant ${tenantId} (${sampleRate} Hz)`);
+  session.start();
+}
+
+function reject(socket: Duplex, status: number, message: string): void {
+  socket.write(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+/**
+ * Registra el endpoint WebSocket de voz en el servidor HTTP
+ * @param server Servidor devuelto por app.listen
+ * @returns Servidor WebSocket (null si está deshabilitado)
+ */
+export function attachVoiceStreamServer(server: Server): WebSocketServer | null {
+  if (!config.voiceStream.enabled) {
+    logger.info("Sesiones de voz en tiempo real deshabilitadas");
+    return null;
+  }
+
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url || "/", "http://localhost");
+    if (url.pathname !== config.voiceStream.path) return;
+
+    if (sessions.size >= config.voiceStream.maxSessions) {
+      reject(socket, 503, "Service Unavailable");
+      return;
+    }
+
+    authenticate(req, url.searchParams)
+      .then((identity) => {
+        if (!identity) {
+          logger.warn("Conexión de voz rechazada: token ausente o inválido");
+          reject(socket, 401, "Unauthorized");
+          return;
+        }
+
+        wss.handleUpgrade(req, socket, head, (ws) => {
+          handleConnection(ws, identity, url.searchParams).catch((error) => {
+            logger.error("Error al iniciar la sesión de voz:", error);
+            ws.close(1011, "Error al iniciar la sesión");
+          });
+        });
+      })
+      .catch((error) => {
+        logger.error("Error al autenticar la sesión de voz:", error);
+        reject(socket, 500, "Internal Server Error");
+      });
+  });
+
+  logger.info(`Sesiones de voz en tiempo real en ${config.voiceStream.path}`);
+  return wss;
+}
+
+/**
+ * Cantidad de sesiones de voz abiertas
+ */
+export function getActiveVoiceSessions(): number {
+  return sessions.size;
+}
+
+export default attachVoiceStreamServer;
@@ -0,0 +1,280 @@
+/**
+ * src/api/webchat.ts
+ *
+ * Endpoints públicos del widget de chat web embebible (por tenant).
+ * No usan authMiddleware: cada petición debe venir de un origen permitido
+ * para el tenant, y el visitante anónimo se identifica con el token firmado
+ * que obtiene en /session (el widget lo guarda y lo reutiliza).
+ *
+ *   GET  /api/webchat/:tenantId/config             apariencia del widget
+ *   POST /api/webchat/:tenantId/session            { token? } -> { visitorId, token }
+ *   GET  /api/webchat/:tenantId/events?token=      SSE: "ready", "message" y "typing"
+ *   POST /api/webchat/:tenantId/messages           { token, text?, buttonId?, name? }
+ *
+ * Los mensajes llevan id: al reconectar, EventSource envía Last-Event-ID y se
+ * reenvían los que el visitante no recibió. La configuración del widget
+ * (orígenes y apariencia) se edita con autenticación en /api/webchat/widget.
+ * @version 1.0.0
+ * @created 2025-06-17
+ */
+
+import express from "express";
+import { config } from "../config";
+import logger from "../utils/logger";
+import { authMiddleware } from "../middlewares/auth";
+import type { AuthRequest } from "../middlewares/auth";
+import { getValidTenantUuid, hasTenantExceededQuota, incrementUsage } from "../services/supabase";
+import {
+  WebChatWidgetService,
+  WebChatWidgetError,
+  createVisitorToken,
+  verifyVisitorToken,
+} from "../services/webChatWidgets";
+import type { WebChatProvider, WebChatStreamEvent } from "../provider/webChatProvider";
+import { WebChatProviderError } from "../provider/webChatProvider";
+
+/**
+ * Servicios que usa el router (inyectables para pruebas)
+ */
+export interface WebChatRouterDependencies {
+  getProvider(): Promise<WebChatProvider>;
+  widgets: WebChatWidgetService;
+}
+
+const RECONNECT_MS = 3000;
+
+/**
+ * Serializa un evento en formato SSE
+ */
+export function formatSseEvent(event: WebChatStreamEvent): string {
+  const id = "id" in event ? `id: ${event.id}\n` : "";
+  return `${id}event: ${event.event}\ndata: ${JSON.stringify(event.data)}\n\n`;
+}
+
+/**
+ * Responde un error del widget con el estado HTTP adecuado
+ */
+function handleWebChatError(res: express.Response, error: unknown, fallback: string) {
+  if (error instanceof WebChatProviderError) {
+    const status = error.code === "INVALID_MESSAGE" ? 400 : 403;
+    return res.status(status).json({ error: error.message, code: error.code });
+  }
+  if (error instanceof WebChatWidgetError) {
+    const status = error.code === "INVALID_ORIGIN" ? 400 : 503;
+    return res.status(status).json({ error: error.message, code: error.code });
+  }
+
+  logger.error(`${fallback}:`, error);
+  return res.status(500).json({
+    error: fallback,
+    message: error instanceof Error ? error.message : "Error desconocido",
+  });
+}
+
+/**
+ * Crea el router del widget
+ */
+export function createWebChatRouter(deps: WebChatRouterDependencies): express.Router {
+  const router = express.Router();
+
+  /**
+   * Valida el tenant de la URL y el origen de la petición contra la lista del widget
+   */
+  const widgetAccess: express.RequestHandler = async (req, res, next) => {
+    if (!config.webchat.enabled) {
+      return res.status(404).json({ error: "El chat web no está habilitado" });
+    }
+
+    const tenantId = getValidTenantUuid(req.params.tenantId);
+    if (req.params.tenantId !== "default" && tenantId !== req.params.tenantId) {
+      return res.status(404).json({ error: "Widget no encontrado" });
+    }
+
+    try {
+      const origin = req.get("origin");
+      if (!(await deps.widgets.isOriginAllowed(tenantId, origin))) {
+        logger.warn(`[WebChat] Origen rechazado para tenant ${tenantId}: ${origin || "(sin origen)"}`);
+        return res.status(403).json({ error: "Origen no permitido para este widget" });
+      }
+
+      res.setHeader("Access-Control-Allow-Origin", origin as string);
+      res.setHeader("Vary", "Origin");
+      res.locals.tenantId = tenantId;
+      return next();
+    } catch (error) {
+      return handleWebChatError(res, error, "Error al validar el widget");
+    }
+  };
+
+  /**
+   * Token del visitante (en el body o, para EventSource, en la query)
+   */
+  const getVisitorToken = (req: express.Request): string | undefined => {
+    const token = req.body?.token || req.query.token;
+    return typeof token === "string" ? token : undefined;
+  };
+
+  const getVisitorId = (req: express.Request, tenantId: string): string | null =>
+    verifyVisitorToken(getVisitorToken(req), tenantId);
+
+  /**
+   * GET /api/webchat/widget
+   * Configuración del widget del tenant autenticado
+   */
+  router.get("/widget", authMiddleware, async (req: AuthRequest, res) => {
+    if (!req.user || !req.user.tenantId) {
+      return res.status(401).json({ error: "No autorizado", message: "Se requiere autenticación con información de tenant" });
+    }
+
+    try {
+      const widget = await deps.widgets.getWidget(getValidTenantUuid(req.user.tenantId));
+      return res.json({ ...widget, effective_origins: deps.widgets.getAllowedOrigins(widget) });
+    } catch (error) {
+      return handleWebChatError(res, error, "Error al obtener el widget de chat");
+    }
+  });
+
+  /**
+   * PUT /api/webchat/widget
+   * Body: { enabled?, allowed_origins?: string[], settings? }
+   */
+  router.put("/widget", authMiddleware, async (req: AuthRequest, res) => {
+    if (!req.user || !req.user.tenantId) {
+      return res.status(401).json({ error: "No autorizado", message: "Se requiere autenticación con información de tenant" });
+    }
+
+    const { enabled, allowed_origins, settings } = req.body || {};
+    if (allowed_origins !== undefined && !Array.isArray(allowed_origins)) {
+      return res.status(400).json({ error: "allowed_origins debe ser una lista de orígenes" });
+    }
+
+    try {
+      const widget = await deps.widgets.updateWidget(getValidTenantUuid(req.user.tenantId), {
+        ...(typeof enabled === "boolean" ? { enabled } : {}),
+        ...(allowed_origins !== undefined ? { allowed_origins } : {}),
+        ...(settings !== undefined ? { settings } : {}),
+      });
+      return res.json({ ...widget, effective_origins: deps.widgets.getAllowedOrigins(widget) });
+    } catch (error) {
+      return handleWebChatError(res, error, "Error al actualizar el widget de chat");
+    }
+  });
+
+  /**
+   * GET /api/webchat/:tenantId/config
+   * Apariencia pública del widget
+   */
+  router.get("/:tenantId/config", widgetAccess, async (req, res) => {
+    try {
+      const widget = await deps.widgets.getWidget(res.locals.tenantId);
+      return res.json({ tenantId: res.locals.tenantId, settings: widget.settings || {} });
+    } catch (error) {
+      return handleWebChatError(res, error, "Error al obtener la configuración del widget");
+    }
+  });
+
+  /**
+   * POST /api/webchat/:tenantId/session
+   * Reutiliza la identidad del visitante si el token es válido, o crea una nueva
+   */
+  router.post("/:tenantId/session", widgetAccess, (req, res) => {
+    try {
+      const tenantId = res.locals.tenantId;
+      const previous = getVisitorToken(req);
+      const resumed = !!verifyVisitorToken(previous, tenantId);
+      const token = resumed ? (previous as string) : createVisitorToken(tenantId);
+
+      return res.json({ visitorId: verifyVisitorToken(token, tenantId), token, resumed });
+    } catch (error) {
+      return handleWebChatError(res, error, "Error al crear la sesión del chat");
+    }
+  });
+
+  /**
+   * GET /api/webchat/:tenantId/events?token=&last_event_id=
+   * Flujo SSE con los mensajes del bot y los indicadores de escritura
+   */
+  router.get("/:tenantId/events", widgetAccess, async (req, res) => {
+    const tenantId = res.locals.tenantId;
+    const visitorId = getVisitorId(req, tenantId);
+    if (!visitorId) {
+      return res.status(401).json({ error: "Token de visitante inválido" });
+    }
+
+    let disconnect: () => void;
+    try {
+      const provider = await deps.getProvider();
+      const lastEventId = parseInt(String(req.get("last-event-id") || req.query.last_event_id || ""), 10);
+
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no", // Sin buffer en proxies nginx
+      });
+      res.write(`retry: ${RECONNECT_MS}\nevent: ready\ndata: ${JSON.stringify({ visitorId })}\n\n`);
+
+      disconnect = provider.connect(
+        tenantId,
+        visitorId,
+        { send: (event) => res.write(formatSseEvent(event)), close: () => res.end() },
+        isNaN(lastEventId) ? undefined : lastEventId
+      );
+    } catch (error) {
+      if (res.headersSent) return res.end();
+      return handleWebChatError(res, error, "Error al abrir el flujo del chat");
+    }
+
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), config.webchat.heartbeatMs);
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      disconnect();
+    });
+  });
+
+  /**
+   * POST /api/webchat/:tenantId/messages
+   * Mensaje del visitante: texto escrito o botón / elemento de lista elegido
+   */
+  router.post("/:tenantId/messages", widgetAccess, async (req, res) => {
+    const tenantId = res.locals.tenantId;
+    const visitorId = getVisitorId(req, tenantId);
+    if (!visitorId) {
+      return res.status(401).json({ error: "Token de visitante inválido" });
+    }
+
+    try {
+      if (config.supabase.enabled && config.features.quotaValidation && (await hasTenantExceededQuota(tenantId))) {
+        return res.status(429).json({
+          error: "Cuota excedida",
+          message: "El tenant ha excedido su cuota de mensajes para el período actual",
+        });
+      }
+
+      const provider = await deps.getProvider();
+      const { text, buttonId, name } = req.body || {};
+      const incoming = provider.receive(tenantId, visitorId, { text, buttonId, name });
+
+      if (config.supabase.enabled) {
+        incrementUsage(tenantId).catch((error) => logger.error("Error al registrar uso:", error));
+      }
+
+      // Las respuestas llegan por el flujo SSE
+      return res.status(202).json({ accepted: true, messageId: incoming.messageId });
+    } catch (error) {
+      return handleWebChatError(res, error, "Error al procesar el mensaje del chat");
+    }
+  });
+
+  return router;
+}
+
+const router = createWebChatRouter({
+  getProvider: async () => {
+    const { getProvider } = await import("../provider/providerFactory");
+    return (await getProvider("webchat")) as unknown as WebChatProvider;
+  },
+  widgets: WebChatWidgetService.getInstance(),
+});
+
+export default router;
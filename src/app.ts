@@ -3,8 +3,8 @@
  *
  * Archivo principal de la aplicación que configura el servidor Express,
  * integra los servicios de voz y gestiona la conexión con WhatsApp.
- * @version 1.4.0
- * @updated 2025-04-26
+ * @version 1.6.0
+ * @updated 2025-06-17
  */
 
 // Cargar variables de entorno antes que cualquier otro módulo
@@ -23,13 +23,20 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 import { config } from "./config";
 import voiceRouter from "./api/voice";
+import { attachVoiceStreamServer } from "./api/voiceStream"; // Sesiones de voz en tiempo real (WebSocket)
 import textRouter from "./api/textRouter"; // Importamos el nuevo router de texto
 import flowsRouter from "./api/flows";
 import templatesRouter from "./api/templates";
 import businessRouter from "./api/business"; // Importamos el router de business
 import appointmentsRouter from "./api/appointments"; // Importamos el router de appointments
+import calendarRouter from "./api/calendar"; // Router para feeds iCalendar de citas
+import knowledgeBaseRouter from "./api/knowledgeBase"; // Router para la base de conocimiento de IA
+import messagesRouter from "./api/messages"; // Router para el registro de entrega de mensajes
+import actionsRouter from "./api/actions"; // Router para las acciones propias de cada tenant
+import webchatRouter from "./api/webchat"; // Router del widget de chat web embebible
 import flowDiagnosticRouter from "./api/flow-diagnostic"; // Router para diagnóstico de flujos
 import adminRouter from "./api/admin"; // Router para funciones administrativas
+import metaWebhookRouter from "./api/metaWebhook"; // Webhook de WhatsApp Cloud API
 import templatesDiagnosticRouter from "./api/templates-diagnostic"; // Router para diagnóstico de plantillas
 import systemRouter from "./api/system"; // Router para información del sistema
 import connectionTestRouter from "./api/connection-test"; // Router para pruebas de conexión
@@ -81,6 +88,8 @@ app.options('*', (req, res) => {
   res.header('Access-Control-Allow-Credentials', 'true');
   res.status(200).end();
 });
+// El webhook de Meta necesita el cuerpo crudo para validar la firma: va antes de express.json
+app.use(config.whatsapp.meta.webhookPath, metaWebhookRouter);
 app.use(express.json({ limit: "50mb" }));
 app.use(express.urlencoded({ extended: true, limit: "50mb" }));
 
@@ -115,6 +124,7 @@ app.get("/health", (req, res) => {
       flows: true,
       templates: true,
       whatsapp: config.whatsapp.enabled,
+      webchat: config.webchat.enabled,
     },
   });
 });
@@ -162,6 +172,11 @@ app.use("/api/flows", flowsRouter);
 app.use("/api/templates", templatesRouter);
 app.use("/api/business", businessRouter); // Registramos la nueva API de business
 app.use("/api/appointments", appointmentsRouter); // Registramos la nueva API de appointments
+app.use("/api/calendar", calendarRouter); // Feeds iCalendar (autenticados por token en la URL)
+app.use("/api/knowledge-base", knowledgeBaseRouter); // Documentos de la base de conocimiento por tenant
+app.use("/api/messages", messagesRouter); // Estados de entrega de mensajes salientes
+app.use("/api/actions", actionsRouter); // Acciones de nodos ACTION guardadas por tenant
+app.use("/api/webchat", webchatRouter); // Widget de chat web (público, validado por origen)
 app.use("/api/flow-diagnostic", flowDiagnosticRouter); // Registramos el router de diagnóstico de flujos
 app.use("/api/admin", adminRouter); // Registramos el router administrativo
 app.use("/api/templates-diagnostic", templatesDiagnosticRouter); // Registramos el router de diagnóstico de plantillas
@@ -229,7 +244,8 @@ const main = async () => {
         
         // Crear flujo principal que usa el bridge service
         const mainFlow = flowBridge.createMainWhatsAppFlow();
-        const adapterFlow = createFlow([mainFlow]);
+        const appointmentReplyFlow = flowBridge.createAppointmentReplyFlow();
+        const adapterFlow = createFlow([appointmentReplyFlow, mainFlow]);
         
         logger.info("WhatsApp Flow Bridge configurado correctamente");
 
@@ -261,6 +277,25 @@ const main = async () => {
         }
 
         logger.info("Proveedor de WhatsApp inicializado correctamente");
+
+        // Números propios de cada tenant (un bot por número)
+        if (config.whatsapp.pool.enabled && config.whatsapp.pool.restoreOnStart) {
+          const { WhatsAppProviderPool } = await import("./provider/whatsappProviderPool");
+          WhatsAppProviderPool.getInstance()
+            .restore()
+            .then((restored) => logger.info(`Números de WhatsApp por tenant reconectados: ${restored}`))
+            .catch((error) => logger.error("Error al reconectar números de WhatsApp por tenant:", error));
+        }
+
+        // Reintentos de mensajes salientes con fallos transitorios
+        const { MessageDeliveryService } = await import("./services/messageDelivery");
+        MessageDeliveryService.getInstance().start();
+
+        // Recordatorios, confirmaciones y seguimiento de citas por el proveedor activo
+        if (config.appointments.schedulerEnabled && config.supabase.enabled) {
+          const { AppointmentScheduler } = await import("./services/appointmentScheduler");
+          await AppointmentScheduler.getInstance().start();
+        }
       } catch (error) {
         logger.error("Error al inicializar WhatsApp", error);
       }
@@ -268,8 +303,49 @@ const main = async () => {
       logger.info("WhatsApp deshabilitado en configuración");
     }
 
+    // Canal de Telegram: mismo bridge de flujos que WhatsApp
+    if (config.telegram.enabled) {
+      try {
+        const { getProvider } = await import("./provider/providerFactory");
+        const { WhatsAppFlowBridge } = await import("./services/whatsappFlowBridge");
+        const telegramProvider = await getProvider("telegram");
+        const flowBridge = WhatsAppFlowBridge.getInstance();
+
+        await createBot({
+          flow: createFlow([flowBridge.createAppointmentReplyFlow(), flowBridge.createMainWhatsAppFlow()]),
+          provider: telegramProvider,
+          database: new MemoryDB(),
+        });
+        logger.info("Bot de Telegram iniciado");
+      } catch (error) {
+        logger.error("Error al inicializar Telegram", error);
+      }
+    }
+
+    // Widget de chat web: mismo bridge de flujos, el tenant llega en cada mensaje
+    if (process.env.ENABLE_WEBCHAT === "true" && !config.webchat.enabled) {
+      logger.warn("Chat web deshabilitado: falta WEBCHAT_TOKEN_SECRET");
+    }
+    if (config.webchat.enabled) {
+      try {
+        const { getProvider } = await import("./provider/providerFactory");
+        const { WhatsAppFlowBridge } = await import("./services/whatsappFlowBridge");
+        const webChatProvider = await getProvider("webchat");
+        const flowBridge = WhatsAppFlowBridge.getInstance();
+
+        await createBot({
+          flow: createFlow([flowBridge.createMainWhatsAppFlow()]),
+          provider: webChatProvider,
+          database: new MemoryDB(),
+        });
+        logger.info("Chat web iniciado");
+      } catch (error) {
+        logger.error("Error al inicializar el chat web", error);
+      }
+    }
+
     // Iniciamos el servidor
-    app.listen(PORT, () => {
+    const server = app.listen(PORT, () => {
       logger.info(`Servidor iniciado en puerto ${PORT}`);
 
       const serverUrl = `http://localhost:${PORT}`;
@@ -280,8 +356,13 @@ const main = async () => {
       logger.info(`[API Templates]: ${serverUrl}/api/templates`);
       logger.info(`[API Business]: ${serverUrl}/api/business`);
       logger.info(`[API Appointments]: ${serverUrl}/api/appointments`);
+      logger.info(`[API Calendar]: ${serverUrl}/api/calendar`);
+      logger.info(`[API Messages]: ${serverUrl}/api/messages`);
+      logger.info(`[API Actions]: ${serverUrl}/api/actions`);
+      logger.info(`[API WebChat]: ${serverUrl}/api/webchat`);
       logger.info(`[API Flow Diagnostic]: ${serverUrl}/api/flow-diagnostic`);
       logger.info(`[API Admin]: ${serverUrl}/api/admin`);
+      logger.info(`[Webhook Meta]: ${serverUrl}${config.whatsapp.meta.webhookPath}`);
       logger.info(`[API Templates Diagnostic]: ${serverUrl}/api/templates-diagnostic`);
       logger.info(`[API System]: ${serverUrl}/api/system`);
       logger.info(`[API Connection Test]: ${serverUrl}/api/connection-test`);
@@ -290,11 +371,17 @@ const main = async () => {
       logger.info(`[API Properties]: ${serverUrl}/api/properties`);
       logger.info(`[API Variables]: ${serverUrl}/api/variables`);
       logger.info(`[CORS Test]: ${serverUrl}/cors-test`);
+      if (config.voiceStream.enabled) {
+        logger.info(`[Voice Stream]: ws://localhost:${PORT}${config.voiceStream.path}`);
+      }
 
       if (config.whatsapp.enabled) {
         logger.info(`[QR]: ${serverUrl}/qr/bot.qr.png`);
       }
     });
+
+    // Endpoint WebSocket de voz sobre el mismo servidor HTTP
+    attachVoiceStreamServer(server);
   } catch (error) {
     logger.error("Error al iniciar la aplicación", error);
     process.exit(1);
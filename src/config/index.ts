@@ -24,6 +24,10 @@ export const config = {
     sessions: join(process.cwd(), "sessions"),
     qr: join(process.cwd(), "assets", "qr"),
     audio: join(process.cwd(), "assets", "audio"),
+    calendar: join(process.cwd(), "assets", "calendar"),
+    media: join(process.cwd(), "assets", "media"),
+    // Directorios adicionales desde los que se pueden enviar archivos locales (separados por coma)
+    localMedia: (process.env.LOCAL_MEDIA_DIRS || "").split(",").map((dir) => dir.trim()).filter(Boolean),
   },
 
   // Configuración de AssemblyAI
@@ -57,11 +61,117 @@ export const config = {
     },
   },
 
+  // Proveedores de síntesis de voz ("minimax", "local", "silent")
+  tts: {
+    defaultProvider: process.env.TTS_PROVIDER || "minimax",
+    fallbackProviders: (process.env.TTS_FALLBACK_PROVIDERS || "")
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean),
+    // Motor local ejecutado como subproceso (Piper o espeak-ng)
+    local: {
+      enabled: process.env.LOCAL_TTS_ENABLED === "true",
+      engine: process.env.LOCAL_TTS_ENGINE || "espeak", // "espeak" | "piper"
+      command: process.env.LOCAL_TTS_COMMAND || "",     // Por defecto espeak-ng o piper
+      model: process.env.LOCAL_TTS_MODEL || "",         // Modelo .onnx de Piper
+      voice: process.env.LOCAL_TTS_VOICE || "es",       // Voz de espeak-ng
+      timeoutMs: parseInt(process.env.LOCAL_TTS_TIMEOUT_MS || "30000", 10),
+    },
+    // Proveedor que genera silencio, para pruebas y desarrollo sin audio
+    silentEnabled: process.env.ENABLE_SILENT_TTS === "true",
+    // Caché persistente de audio direccionada por contenido (texto, voz, velocidad, tono, formato)
+    cache: {
+      enabled: process.env.ENABLE_TTS_CACHE === "true",
+      directory: process.env.TTS_CACHE_DIR || join(process.cwd(), "assets", "audio", "cache", "tts"),
+      maxBytes: parseInt(process.env.TTS_CACHE_MAX_MB || "200", 10) * 1024 * 1024, // Cuota en disco (LRU)
+      prewarmOnActivate: process.env.TTS_CACHE_PREWARM !== "false", // Pre-renderiza los mensajes al activar un flujo
+    },
+  },
+
+  // Proveedores de transcripción de voz ("assemblyai", "minimax", "local")
+  stt: {
+    defaultProvider: process.env.STT_PROVIDER || "assemblyai",
+    fallbackProviders: (process.env.STT_FALLBACK_PROVIDERS || "")
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean),
+    defaultLanguage: process.env.STT_LANGUAGE || "es",
+    // Servidor local compatible con whisper.cpp (/inference) u OpenAI (/v1/audio/transcriptions)
+    local: {
+      enabled: process.env.LOCAL_STT_ENABLED === "true",
+      url: process.env.LOCAL_STT_URL || "http://127.0.0.1:8080",
+      endpoint: process.env.LOCAL_STT_ENDPOINT || "/inference",
+      model: process.env.LOCAL_STT_MODEL || "",  // Solo para servidores compatibles con OpenAI
+      timeoutMs: parseInt(process.env.LOCAL_STT_TIMEOUT_MS || "60000", 10),
+    },
+  },
+
+  // Sesiones de voz en tiempo real por WebSocket (audio PCM de 16 bits mono)
+  voiceStream: {
+    enabled: process.env.ENABLE_VOICE_STREAM !== "false",
+    path: process.env.VOICE_STREAM_PATH || "/api/voice/stream",
+    sampleRate: parseInt(process.env.VOICE_STREAM_SAMPLE_RATE || "16000", 10),
+    partialIntervalMs: parseInt(process.env.VOICE_STREAM_PARTIAL_MS || "1500", 10), // Transcripción parcial mientras se habla
+    bargeIn: process.env.VOICE_STREAM_BARGE_IN !== "false", // El usuario puede interrumpir al bot
+    maxSessions: parseInt(process.env.VOICE_STREAM_MAX_SESSIONS || "50", 10),
+    vad: {
+      threshold: parseFloat(process.env.VAD_THRESHOLD || "0.02"),
+      minSpeechMs: parseInt(process.env.VAD_MIN_SPEECH_MS || "200", 10),
+      silenceMs: parseInt(process.env.VAD_SILENCE_MS || "700", 10),
+      maxUtteranceMs: parseInt(process.env.VAD_MAX_UTTERANCE_MS || "15000", 10),
+    },
+  },
+
   // Configuración de WhatsApp
   whatsapp: {
     enabled: process.env.ENABLE_WHATSAPP !== "false",
     sessionName: process.env.WHATSAPP_SESSION_NAME || "bot",
     provider: process.env.WHATSAPP_PROVIDER || "baileys", // "baileys" o "meta"
+    // Un número conectado por tenant (src/provider/whatsappProviderPool.ts)
+    pool: {
+      enabled: process.env.WHATSAPP_MULTI_NUMBER === "true",
+      sessionsDir: process.env.WHATSAPP_TENANT_SESSIONS_DIR || join(process.cwd(), "tenant_sessions"),
+      qrDir: join(process.cwd(), "assets", "tenant_qr"), // No se sirve en /qr: solo por /api/admin
+      restoreOnStart: process.env.WHATSAPP_RESTORE_NUMBERS !== "false",
+    },
+    // WhatsApp Cloud API de Meta (src/provider/metaProvider.ts)
+    meta: {
+      accessToken: process.env.META_ACCESS_TOKEN || "",
+      phoneNumberId: process.env.META_PHONE_NUMBER_ID || "",
+      appSecret: process.env.META_APP_SECRET || "",         // Valida X-Hub-Signature-256
+      verifyToken: process.env.META_VERIFY_TOKEN || "",     // hub.verify_token del webhook
+      apiVersion: process.env.META_API_VERSION || "v20.0",
+      graphUrl: process.env.META_GRAPH_URL || "https://graph.facebook.com",
+      webhookPath: process.env.META_WEBHOOK_PATH || "/webhooks/meta",
+      mediaDir: join(process.cwd(), "assets", "media", "meta"),
+      timeoutMs: parseInt(process.env.META_TIMEOUT_MS || "15000", 10),
+    },
+  },
+
+  // Canal de Telegram (src/provider/telegramProvider.ts)
+  telegram: {
+    enabled: process.env.ENABLE_TELEGRAM === "true",
+    botToken: process.env.TELEGRAM_BOT_TOKEN || "",
+    apiUrl: process.env.TELEGRAM_API_URL || "https://api.telegram.org",
+    tenantId: process.env.TELEGRAM_TENANT_ID || "",            // Tenant que atiende el bot (vacío = por defecto)
+    pollingTimeoutSec: parseInt(process.env.TELEGRAM_POLLING_TIMEOUT || "30", 10), // Long polling de getUpdates
+    transcribeVoiceNotes: process.env.TELEGRAM_TRANSCRIBE_VOICE !== "false",   // Notas de voz al STT
+    mediaDir: join(process.cwd(), "assets", "media", "telegram"),
+    timeoutMs: parseInt(process.env.TELEGRAM_TIMEOUT_MS || "15000", 10),
+  },
+
+  // Widget de chat web embebible (src/provider/webChatProvider.ts, /api/webchat)
+  webchat: {
+    // Sin WEBCHAT_TOKEN_SECRET el widget queda deshabilitado
+    enabled: process.env.ENABLE_WEBCHAT === "true" && Boolean(process.env.WEBCHAT_TOKEN_SECRET),
+    // Firma de la identidad de los visitantes anónimos (secreto propio, independiente de otras claves)
+    tokenSecret: process.env.WEBCHAT_TOKEN_SECRET || "",
+    // Orígenes permitidos para los tenants sin lista propia (separados por comas)
+    allowedOrigins: (process.env.WEBCHAT_ALLOWED_ORIGINS || "").split(",").map((origin) => origin.trim()).filter(Boolean),
+    heartbeatMs: parseInt(process.env.WEBCHAT_HEARTBEAT_MS || "25000", 10),       // Comentario SSE para mantener viva la conexión
+    historySize: parseInt(process.env.WEBCHAT_HISTORY_SIZE || "50", 10),          // Eventos que se reenvían al reconectar
+    maxTypingMs: parseInt(process.env.WEBCHAT_MAX_TYPING_MS || "10000", 10),
+    visitorIdleMs: parseInt(process.env.WEBCHAT_VISITOR_IDLE_MS || "1800000", 10), // Se olvida al visitante tras 30 min sin conexión
   },
 
   // Configuración de OpenAI
@@ -74,6 +184,26 @@ export const config = {
     frequencyPenalty: parseFloat(process.env.OPENAI_FREQUENCY_PENALTY || "0"),
   },
 
+  // Proveedores de modelos de lenguaje ("openai", "local", "scripted")
+  llm: {
+    defaultProvider: process.env.LLM_PROVIDER || "openai",
+    fallbackProviders: (process.env.LLM_FALLBACK_PROVIDERS || "")
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean),
+    // Servidor local compatible con OpenAI (llama.cpp, Ollama)
+    local: {
+      baseUrl: process.env.LOCAL_LLM_BASE_URL || "",
+      apiKey: process.env.LOCAL_LLM_API_KEY || "",
+      model: process.env.LOCAL_LLM_MODEL || "llama3.1",
+      timeoutMs: parseInt(process.env.LOCAL_LLM_TIMEOUT_MS || "60000", 10),
+    },
+    // Proveedor con respuestas fijas para demos sin conexión
+    scriptedEnabled: process.env.ENABLE_SCRIPTED_LLM === "true",
+    // Rondas de herramientas (function calling) por respuesta de un nodo de IA
+    maxToolRounds: parseInt(process.env.LLM_MAX_TOOL_ROUNDS || "3", 10),
+  },
+
   // Configuración de Supabase
   supabase: {
     url: process.env.SUPABASE_URL || "",
@@ -90,6 +220,74 @@ export const config = {
     defaultTenantUuid: process.env.DEFAULT_TENANT_UUID || "afa60b0a-3046-4607-9c48-266af6e1d322",
   },
   
+  // Recordatorios y seguimiento de citas
+  appointments: {
+    schedulerEnabled: process.env.ENABLE_APPOINTMENT_SCHEDULER !== "false",
+    schedulerIntervalMs: parseInt(process.env.APPOINTMENT_SCHEDULER_INTERVAL_MS || "60000", 10),
+    maxSendAttempts: parseInt(process.env.APPOINTMENT_MAX_SEND_ATTEMPTS || "3", 10),
+    // Calendario (.ics): zona horaria por defecto y firma de los feeds suscribibles
+    // (sin CALENDAR_FEED_SECRET los feeds quedan deshabilitados)
+    timezone: process.env.APPOINTMENT_TIMEZONE || "America/Mexico_City",
+    publicUrl: process.env.PUBLIC_URL || `http://localhost:${process.env.PORT || 3090}`,
+    feedSecret: process.env.CALENDAR_FEED_SECRET || "",
+  },
+
+  // Llamadas HTTP de nodos API_CALL (src/services/apiCallService.ts)
+  apiCalls: {
+    // Hosts permitidos (también sus subdominios), separados por coma; vacío = cualquier host público
+    allowedHosts: (process.env.API_CALL_ALLOWED_HOSTS || "")
+      .split(",")
+      .map((host) => host.trim().toLowerCase())
+      .filter(Boolean),
+    // Permite direcciones privadas, loopback y link-local (solo para redes de confianza)
+    allowPrivateNetworks: process.env.API_CALL_ALLOW_PRIVATE_NETWORKS === "true",
+  },
+
+  // Registro de entrega de mensajes salientes y reintentos de fallos transitorios
+  messageDelivery: {
+    retryIntervalMs: parseInt(process.env.MESSAGE_RETRY_INTERVAL_MS || "15000", 10),
+    maxAttempts: parseInt(process.env.MESSAGE_MAX_SEND_ATTEMPTS || "4", 10),
+    retryBaseDelayMs: parseInt(process.env.MESSAGE_RETRY_BASE_DELAY_MS || "30000", 10), // 30 s, 1 min, 2 min...
+    retryMaxDelayMs: parseInt(process.env.MESSAGE_RETRY_MAX_DELAY_MS || "900000", 10),
+  },
+
+  // Base de conocimiento para nodos de IA (useKnowledgeBase)
+  knowledgeBase: {
+    topK: parseInt(process.env.KNOWLEDGE_BASE_TOP_K || "4", 10),
+    maxChunkChars: parseInt(process.env.KNOWLEDGE_BASE_CHUNK_CHARS || "1200", 10),
+    chunkOverlapChars: parseInt(process.env.KNOWLEDGE_BASE_CHUNK_OVERLAP || "150", 10),
+    maxContextChars: parseInt(process.env.KNOWLEDGE_BASE_MAX_CONTEXT_CHARS || "4000", 10),
+    // Índice por embeddings opcional (requiere OPENAI_API_KEY)
+    embeddingsEnabled: process.env.ENABLE_KNOWLEDGE_BASE_EMBEDDINGS === "true",
+    embeddingModel: process.env.KNOWLEDGE_BASE_EMBEDDING_MODEL || "text-embedding-3-small",
+  },
+
+  // Memoria de conversación para nodos de IA
+  conversationMemory: {
+    maxMessages: parseInt(process.env.AI_MEMORY_MAX_MESSAGES || "20", 10),
+    maxTokens: parseInt(process.env.AI_MEMORY_MAX_TOKENS || "1500", 10),
+    // Mensajes fuera de la ventana que disparan la actualización del resumen
+    summaryThreshold: parseInt(process.env.AI_MEMORY_SUMMARY_THRESHOLD || "6", 10),
+    summaryMaxTokens: parseInt(process.env.AI_MEMORY_SUMMARY_MAX_TOKENS || "300", 10),
+    // Mensajes que se conservan en el historial del contexto del flujo
+    historyLimit: parseInt(process.env.AI_MEMORY_HISTORY_LIMIT || "100", 10),
+  },
+
+  // Validaciones de las respuestas generadas por nodos de IA (src/services/aiGuardrails.ts)
+  guardrails: {
+    enabled: process.env.AI_GUARDRAILS_ENABLED !== "false",
+    maxResponseLength: parseInt(process.env.AI_MAX_RESPONSE_LENGTH || "1200", 10),
+    // Diferencia relativa aceptada entre un precio mencionado y el registrado
+    priceTolerance: parseFloat(process.env.AI_PRICE_TOLERANCE || "0.02"),
+    forbiddenTopics: (process.env.AI_FORBIDDEN_TOPICS || "")
+      .split(",")
+      .map((topic) => topic.trim())
+      .filter(Boolean),
+    fallbackReply:
+      process.env.AI_GUARDRAIL_FALLBACK_REPLY ||
+      "Disculpa, no puedo darte esa información por este medio. Un asesor te contactará para ayudarte.",
+  },
+
   // Características habilitadas
   features: {
     quotaValidation: process.env.ENABLE_QUOTA_VALIDATION === "true",
@@ -6,12 +6,15 @@
  * 
  * IMPORTANTE: NO modificar la lógica de actualización de leads
  * PROPÓSITO: Capturar y validar datos específicos del usuario
+ * Los slots declarados en el nodo se extraen de la misma respuesta; las
+ * preguntas cuyo dato ya se extrajo se omiten
  */
 
 import { addKeyword } from '@builderbot/bot';
 import logger from '../../utils/logger';
 import { processSalesFunnelActions } from '../../services/salesFunnelService';
 import { replaceVariables } from '../../utils/variableReplacer';
+import { extractNodeSlots, isSlotFilled } from '../../services/nlu/slotExtractor';
 
 /**
  * Tipos de validación soportados
@@ -37,6 +40,7 @@ interface InputNodeData {
   retryMessage?: string;
   successMessage?: string;
   maxRetries?: number;
+  slots?: Array<string | { variable: string; type?: string; options?: string[] }>; // Otros datos a extraer de la respuesta
 }
 
 /**
@@ -45,7 +49,7 @@ interface InputNodeData {
  */
 const createInputFlow = () => {
   return addKeyword(['INPUT', 'input', 'ENTRADA', 'entrada', 'CAPTURA', 'captura'])
-    .addAction(async (ctx, { flowDynamic, state, provider }) => {
+    .addAction(async (ctx, { flowDynamic, state, provider, gotoFlow, endFlow }) => {
       try {
         logger.info(`[InputFlow] Iniciando flujo de entrada para usuario: ${ctx.from}`);
         
@@ -63,6 +67,22 @@ const createInputFlow = () => {
           return;
         }
         
+        // El dato ya se extrajo de una respuesta anterior: no repetimos la pregunta
+        const pendingSlots: Record<string, any> = currentState.extractedSlots || {};
+        if (nodeData.variableName in pendingSlots && isSlotFilled(currentState.globalVars?.[nodeData.variableName])) {
+          const { [nodeData.variableName]: _answered, ...remainingSlots } = pendingSlots;
+          logger.info(`[InputFlow] Variable ${nodeData.variableName} ya capturada, se omite la pregunta`);
+          const answeredState = {
+            ...currentState,
+            awaitingResponse: false,
+            awaitingInput: false,
+            extractedSlots: remainingSlots,
+          };
+          await state.update(answeredState);
+          // Igual que tras una captura: si no hay flujo para el siguiente nodo, este termina aquí
+          return (await continueWithNextNode(answeredState, state, gotoFlow)) || endFlow();
+        }
+
         // Procesar mensaje con variables
         let message = nodeData.message;
         if (currentState.globalVars) {
@@ -178,13 +198,25 @@ const createInputFlow = () => {
         } else {
           logger.info(`[InputFlow] Entrada válida recibida para ${inputConfig.variableName}: ${userResponse}`);
           
+          // Otros datos declarados en el nodo que vienen en la misma respuesta
+          const { [inputConfig.variableName]: _ownValue, ...extracted } = extractNodeSlots(
+            userResponse,
+            inputConfig.slots,
+            inputConfig.variableName
+          );
+          if (Object.keys(extracted).length > 0) {
+            logger.info(`[InputFlow] Datos extraídos de la respuesta: ${Object.keys(extracted).join(', ')}`);
+          }
+          
           // Guardar valor en globalVars
           await state.update({
             ...currentState,
             awaitingResponse: false,
             awaitingInput: false,
+            extractedSlots: { ...(currentState.extractedSlots || {}), ...extracted },
             globalVars: {
               ...currentState.globalVars,
+              ...extracted,
               [inputConfig.variableName]: userResponse,
               [`${inputConfig.variableName}_validated`]: true,
               lastCapturedValue: userResponse
@@ -203,56 +235,8 @@ const createInputFlow = () => {
           logger.info(`[InputFlow] Valor guardado exitosamente: ${inputConfig.variableName} = ${userResponse}`);
         }
         
-        // Procesar acciones del sales funnel (CRÍTICO - NO MODIFICAR)
-        if (currentState.nodeData?.salesStageId) {
-          try {
-            // Crear estructura de nodo para sales funnel
-            const nodeForSales = {
-              id: currentState.nodeData.id || 'input-node',
-              type: 'input',
-              content: currentState.nodeData.message || '',
-              metadata: { salesStageId: currentState.nodeData.salesStageId },
-              data: { salesStageId: currentState.nodeData.salesStageId }
-            };
-            
-            await processSalesFunnelActions(nodeForSales, currentState as any);
-            logger.info(`[InputFlow] Sales funnel procesado para stage: ${currentState.nodeData.salesStageId}`);
-          } catch (salesError) {
-            logger.error(`[InputFlow] Error procesando sales funnel:`, salesError);
-          }
-        }
-        
-        // Navegar al siguiente nodo si existe
-        if (currentState.nodeData?.edges && currentState.nodeData.edges.length > 0) {
-          const nextEdge = currentState.nodeData.edges[0];
-          const nextNode = nextEdge.targetNode;
-          
-          if (nextNode) {
-            logger.info(`[InputFlow] Navegando al siguiente nodo: ${nextNode.id} (${nextNode.type})`);
-            
-            // Actualizar estado con el siguiente nodo
-            await state.update({
-              ...currentState,
-              currentNodeId: nextNode.id,
-              nodeData: {
-                ...nextNode,
-                edges: currentState.templateData?.edges?.filter(edge => edge.source === nextNode.id)?.map(edge => ({
-                  ...edge,
-                  targetNode: currentState.templateData?.nodes?.[edge.target]
-                })) || []
-              }
-            });
-            
-            // Determinar flujo siguiente (lógica similar a mainFlow)
-            const nextNodeType = nextNode.type?.toLowerCase();
-            if (shouldUseModularFlow(nextNodeType)) {
-              const nextFlow = getModularFlow(nextNodeType);
-              if (nextFlow) {
-                return gotoFlow(nextFlow);
-              }
-            }
-          }
-        }
+        const nextFlow = await continueWithNextNode(currentState, state, gotoFlow);
+        if (nextFlow) return nextFlow;
         
         logger.info(`[InputFlow] Flujo de entrada completado para ${inputConfig.variableName}`);
         
@@ -263,6 +247,65 @@ const createInputFlow = () => {
     });
 };
 
+/**
+ * Procesa las acciones del sales funnel del nodo de entrada y navega al siguiente nodo
+ * @returns Resultado de gotoFlow si el siguiente nodo tiene un flujo modular
+ */
+async function continueWithNextNode(currentState: any, state: any, gotoFlow: any): Promise<any> {
+  // Procesar acciones del sales funnel (CRÍTICO - NO MODIFICAR)
+  if (currentState.nodeData?.salesStageId) {
+    try {
+      // Crear estructura de nodo para sales funnel
+      const nodeForSales = {
+        id: currentState.nodeData.id || 'input-node',
+        type: 'input',
+        content: currentState.nodeData.message || '',
+        metadata: { salesStageId: currentState.nodeData.salesStageId },
+        data: { salesStageId: currentState.nodeData.salesStageId }
+      };
+
+      await processSalesFunnelActions(nodeForSales, currentState as any);
+      logger.info(`[InputFlow] Sales funnel procesado para stage: ${currentState.nodeData.salesStageId}`);
+    } catch (salesError) {
+      logger.error(`[InputFlow] Error procesando sales funnel:`, salesError);
+    }
+  }
+
+  // Navegar al siguiente nodo si existe
+  if (currentState.nodeData?.edges && currentState.nodeData.edges.length > 0) {
+    const nextEdge = currentState.nodeData.edges[0];
+    const nextNode = nextEdge.targetNode;
+
+    if (nextNode) {
+      logger.info(`[InputFlow] Navegando al siguiente nodo: ${nextNode.id} (${nextNode.type})`);
+
+      // Actualizar estado con el siguiente nodo (conservando lo que se acaba de capturar)
+      await state.update({
+        ...(state.getMyState() || currentState),
+        currentNodeId: nextNode.id,
+        nodeData: {
+          ...nextNode,
+          edges: currentState.templateData?.edges?.filter(edge => edge.source === nextNode.id)?.map(edge => ({
+            ...edge,
+            targetNode: currentState.templateData?.nodes?.[edge.target]
+          })) || []
+        }
+      });
+
+      // Determinar flujo siguiente (lógica similar a mainFlow)
+      const nextNodeType = nextNode.type?.toLowerCase();
+      if (shouldUseModularFlow(nextNodeType)) {
+        const nextFlow = getModularFlow(nextNodeType);
+        if (nextFlow) {
+          return gotoFlow(nextFlow);
+        }
+      }
+    }
+  }
+  
+  return null;
+}
+
 /**
  * Valida la entrada del usuario según las reglas especificadas
  */
@@ -78,6 +78,7 @@ export enum ConditionType {
   CONTEXT_VALUE = 'context_value', // Una variable de contexto tiene valor específico
   SENTIMENT_IS = 'sentiment_is',   // Análisis de sentimiento
   ENTITY_PRESENT = 'entity_present', // Identificar entidades
+  EXPRESSION = 'expression',       // Expresión compuesta (&&, ||, !, >, in...) sobre contexto y lead
   DEFAULT = 'default',             // Condición por defecto siempre se cumple
 }
 
@@ -88,6 +89,7 @@ export interface Condition {
   type: ConditionType;
   value: string;
   caseSensitive?: boolean;
+  minConfidence?: number; // Confianza mínima para INTENT_IS (0-1)
 }
 
 /**
@@ -112,6 +114,7 @@ export interface MessageNodeMetadata {
  */
 export interface ConditionNodeMetadata {
   conditions: Condition[];
+  nluProvider?: 'local' | 'llm'; // Clasificador para condiciones de intención/sentimiento/entidades
 }
 
 /**
@@ -120,6 +123,8 @@ export interface ConditionNodeMetadata {
 export interface ActionNodeMetadata {
   actionType: string;
   parameters?: Record<string, any>;
+  resultVariable?: string;  // Variable donde se guarda el resultado de la acción
+  fallbackNodeId?: string;  // Nodo destino si la acción falla
 }
 
 /**
@@ -127,10 +132,36 @@ export interface ActionNodeMetadata {
  */
 export interface ApiCallNodeMetadata {
   url: string;
-  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
   headers?: Record<string, string>;
   body?: string;
   resultVariable?: string;
+  responsePath?: string;   // Ruta JSON a extraer de la respuesta (ej: "data.items[0].id")
+  timeout?: number;        // Tiempo máximo por intento en milisegundos
+  retries?: number;        // Reintentos ante errores de red, 429 o 5xx
+  retryDelay?: number;     // Espera base entre reintentos en milisegundos
+  successNodeId?: string;  // Nodo destino si la llamada tiene éxito
+  errorNodeId?: string;    // Nodo destino si la llamada falla
+}
+
+/**
+ * Metadatos para nodos de citas (disponibilidad, reserva, reprogramación y cancelación)
+ */
+export interface AppointmentNodeMetadata {
+  appointmentTypeId?: string;
+  agentId?: string;
+  locationId?: string;
+  propertyId?: string;
+  dateVariable?: string;          // Variable con la fecha solicitada (YYYY-MM-DD, por defecto requested_date)
+  timeVariable?: string;          // Variable con la hora solicitada (HH:mm, por defecto requested_time)
+  appointmentIdVariable?: string; // Variable con el ID de la cita
+  maxSlots?: number;              // Máximo de horarios a ofrecer
+  searchDays?: number;            // Días a buscar si la fecha no tiene disponibilidad
+  reason?: string;                // Motivo de cancelación
+  message?: string;               // Mensaje de éxito (admite variables)
+  errorMessage?: string;          // Mensaje de error (admite variables)
+  successNodeId?: string;         // Nodo destino si la operación tiene éxito
+  errorNodeId?: string;           // Nodo destino si la operación falla
 }
 
 /**
@@ -196,6 +227,17 @@ export interface ExtendedNodeMetadata {
   template?: string;          // Plantilla con variables para nodos de mensaje
   maxTokens?: number;         // Máximo de tokens para respuestas de IA
   useKnowledgeBase?: boolean; // Indica si se debe incluir la base de conocimiento
+  knowledgeBaseTopK?: number; // Fragmentos de la base de conocimiento a incluir
+  llmProvider?: string;        // Proveedor de LLM del nodo ("openai", "local"...)
+  llmFallbackProviders?: string[]; // Proveedores de respaldo del nodo, en orden
+  aiTools?: string[];          // Herramientas que el modelo puede invocar (search_properties...)
+  useConversationMemory?: boolean; // Envía el historial de la sesión al modelo (por defecto sí)
+  memoryMaxMessages?: number;  // Mensajes previos como máximo en la ventana
+  memoryMaxTokens?: number;    // Presupuesto de tokens del historial
+  guardrails?: boolean;        // Valida la respuesta generada antes de enviarla (por defecto sí)
+  guardrailFallback?: string;  // Respuesta cuando la validación bloquea la generada
+  maxResponseLength?: number;  // Longitud máxima de la respuesta generada
+  slots?: Array<string | { variable: string; type?: string; options?: string[] }>; // Datos a extraer de la respuesta en nodos de entrada
   // Propiedades para integración con Sales Funnel
   salesStageId?: string;      // Etapa actual del nodo
   movesToStage?: string;      // Etapa a la que mueve el lead
@@ -210,6 +252,7 @@ export type NodeMetadata = (
   ConditionNodeMetadata |
   ActionNodeMetadata |
   ApiCallNodeMetadata |
+  AppointmentNodeMetadata |
   VoiceNodeMetadata |
   AINodeMetadata |
   AIVoiceAgentNodeMetadata |
@@ -261,6 +304,9 @@ export interface Flow {
   isTemplate?: boolean; // Indica si es una plantilla creada por super_admin
   parentTemplateId?: string; // ID de la plantilla original si es una instancia
   editPermission?: EditPermission; // Nivel de edición permitido para tenants
+  publishedVersionId?: string; // Versión publicada en ejecución (los nodos del flujo son el borrador)
+  parentTemplateVersion?: string; // Versión de la plantilla con la que se sincronizó por última vez
+  parentTemplateSnapshot?: FlowSnapshot; // Contenido de la plantilla en esa sincronización (base del merge)
 }
 
 /**
@@ -271,7 +317,35 @@ export type FlowCreateData = Omit<Flow, 'id' | 'createdAt' | 'updatedAt'>;
 /**
  * Datos para actualizar un flujo existente
  */
-export type FlowUpdateData = Partial<Omit<Flow, 'id' | 'createdAt' | 'updatedAt'>>;
+export type FlowUpdateData = Partial<Omit<
+  Flow,
+  'id' | 'createdAt' | 'updatedAt' | 'publishedVersionId' | 'parentTemplateVersion' | 'parentTemplateSnapshot'
+>>;
+
+/**
+ * Contenido de un flujo congelado en una versión publicada
+ */
+export interface FlowSnapshot {
+  name: string;
+  description?: string;
+  entryNodeId: string;
+  nodes: Record<string, FlowNode>;
+}
+
+/**
+ * Versión publicada (inmutable) de un flujo
+ */
+export interface FlowVersion {
+  id: string;
+  flowId: string;
+  tenantId: string;
+  versionNumber: number;
+  version: string;
+  snapshot: FlowSnapshot;
+  notes?: string;
+  publishedBy?: string;
+  createdAt: Date;
+}
 
 /**
  * Datos limitados para que un tenant actualice un flujo
@@ -291,6 +365,7 @@ export interface RuntimeFlow {
   id: string;
   name: string;
   version: string;
+  versionId?: string; // Versión publicada que se ejecuta (ausente = borrador)
   nodes: Record<string, FlowNode>;
   entryNodeId: string;
   tenantId: string;
@@ -308,6 +383,7 @@ export interface FlowState {
   lastUpdatedAt: Date;
   userId: string;
   sessionId: string;
+  flowVersionId?: string; // Versión con la que inició la sesión
 }
 
 /**
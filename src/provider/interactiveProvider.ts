@@ -0,0 +1,47 @@
+/**
+ * src/provider/interactiveProvider.ts
+ *
+ * Contrato de los proveedores que envían botones y listas de forma nativa
+ * (no como texto numerado) a partir de los metadatos de los nodos, y de los
+ * que muestran el indicador de "escribiendo...".
+ * @version 1.1.0
+ * @created 2025-06-17
+ * @updated 2025-06-17
+ */
+
+import { ButtonNodeMetadata, ListNodeMetadata } from "../models/button.types";
+
+/**
+ * Resultado de un envío (ID del mensaje en el canal, si lo informa)
+ */
+export interface SentMessage {
+  messageId: string | null;
+}
+
+export interface InteractiveProvider {
+  sendInteractiveButtons(to: string, text: string, metadata: Pick<ButtonNodeMetadata, "buttons"> & Partial<ButtonNodeMetadata>): Promise<SentMessage>;
+  sendInteractiveList(to: string, text: string, metadata: Pick<ListNodeMetadata, "items"> & Partial<ListNodeMetadata>): Promise<SentMessage>;
+}
+
+/**
+ * Indica si un proveedor envía botones y listas nativos
+ */
+export function isInteractiveProvider(provider: unknown): provider is InteractiveProvider {
+  const candidate = provider as Partial<InteractiveProvider> | null;
+  return (
+    !!candidate &&
+    typeof candidate.sendInteractiveButtons === "function" &&
+    typeof candidate.sendInteractiveList === "function"
+  );
+}
+
+export interface TypingIndicatorProvider {
+  sendTyping(to: string, durationMs: number): Promise<void>;
+}
+
+/**
+ * Indica si un proveedor muestra el indicador de escritura (typing de MessageNodeMetadata)
+ */
+export function isTypingProvider(provider: unknown): provider is TypingIndicatorProvider {
+  return !!provider && typeof (provider as Partial<TypingIndicatorProvider>).sendTyping === "function";
+}
@@ -0,0 +1,567 @@
+/**
+ * src/provider/metaProvider.ts
+ *
+ * Proveedor de WhatsApp Cloud API (Meta) sobre ProviderClass de BuilderBot.
+ * Envía texto, botones y listas nativos (desde ButtonNodeMetadata/ListNodeMetadata)
+ * y multimedia (por URL o subiendo el archivo), descarga los medios recibidos y
+ * procesa el webhook: mensajes entrantes como evento "message" y estados de
+ * entrega/lectura como evento "message_status". El webhook HTTP vive en
+ * src/api/metaWebhook.ts y reparte cada notificación al proveedor del
+ * phone_number_id que la recibe.
+ * @version 1.0.1
+ * @created 2025-06-17
+ * @updated 2025-06-17
+ */
+
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { EventEmitter } from "events";
+import axios, { AxiosRequestConfig } from "axios";
+import FormData from "form-data";
+import { ProviderClass, utils } from "@builderbot/bot";
+import { config } from "../config";
+import logger from "../utils/logger";
+import { Button, ButtonNodeMetadata, ListNodeMetadata } from "../models/button.types";
+import { InteractiveProvider, SentMessage } from "./interactiveProvider";
+import { isRemoteMedia, getLocalMediaDirectories, resolveLocalMediaPath } from "../utils/localMedia";
+
+export interface MetaProviderOptions {
+  accessToken: string;
+  phoneNumberId: string;
+  appSecret?: string;
+  verifyToken?: string;
+  apiVersion: string;
+  graphUrl: string;
+  mediaDir: string;
+  timeoutMs: number;
+  phoneNumber?: string;  // Número visible; si falta se consulta a la Graph API
+}
+
+export type MetaProviderErrorCode = "NOT_CONFIGURED" | "REQUEST_FAILED" | "MEDIA_NOT_FOUND" | "MEDIA_NOT_ALLOWED";
+
+export class MetaProviderError extends Error {
+  constructor(public code: MetaProviderErrorCode, message: string, public status?: number) {
+    super(message);
+    this.name = "MetaProviderError";
+  }
+}
+
+export type MetaDeliveryStatus = "sent" | "delivered" | "read" | "failed";
+
+/**
+ * Estado de entrega de un mensaje saliente (evento "message_status")
+ */
+export interface MetaMessageStatus {
+  messageId: string;
+  recipient: string;
+  status: MetaDeliveryStatus;
+  timestamp: string;
+  phoneNumberId: string;
+  error?: { code: number; title: string };
+}
+
+/**
+ * Mensaje entrante normalizado (evento "message", contexto de BuilderBot)
+ */
+export interface MetaIncomingMessage {
+  from: string;
+  name?: string;
+  body: string;
+  type: string;
+  messageId: string;
+  timestamp: string;
+  phoneNumberId: string;
+  displayPhoneNumber?: string;
+  buttonId?: string;     // Respuesta a botón o lista
+  media?: { id: string; mimeType: string; filename?: string };
+  caption?: string;
+  location?: { latitude: number; longitude: number; name?: string; address?: string };
+}
+
+/**
+ * Notificaciones de un webhook agrupadas por tipo
+ */
+export interface ParsedMetaWebhook {
+  messages: MetaIncomingMessage[];
+  statuses: MetaMessageStatus[];
+}
+
+// Límites de la Cloud API para mensajes interactivos
+const MAX_REPLY_BUTTONS = 3;
+const MAX_LIST_ROWS = 10;
+const BUTTON_TITLE_MAX = 20;
+const ROW_TITLE_MAX = 24;
+const ROW_DESCRIPTION_MAX = 72;
+const BODY_MAX = 1024;
+
+const MIME_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+  ".mp3": "audio/mpeg",
+  ".ogg": "audio/ogg",
+  ".opus": "audio/ogg",
+  ".m4a": "audio/mp4",
+  ".aac": "audio/aac",
+  ".amr": "audio/amr",
+  ".mp4": "video/mp4",
+  ".3gp": "video/3gpp",
+  ".pdf": "application/pdf",
+};
+
+const MEDIA_EVENTS: Record<string, string> = {
+  image: "_event_media_",
+  video: "_event_media_",
+  sticker: "_event_media_",
+  audio: "_event_voice_note_",
+  document: "_event_document_",
+  location: "_event_location_",
+};
+
+const truncate = (text: string, max: number): string =>
+  text.length > max ? `${text.slice(0, max - 1)}…` : text;
+
+const getMimeType = (fileOrUrl: string): string =>
+  MIME_TYPES[path.extname(fileOrUrl.split("?")[0]).toLowerCase()] || "application/octet-stream";
+
+const getMediaType = (mimeType: string): "image" | "audio" | "video" | "document" => {
+  if (mimeType.startsWith("image/")) return "image";
+  if (mimeType.startsWith("audio/")) return "audio";
+  if (mimeType.startsWith("video/")) return "video";
+  return "document";
+};
+
+const getExtension = (mimeType: string): string =>
+  Object.keys(MIME_TYPES).find((ext) => MIME_TYPES[ext] === mimeType.split(";")[0].trim()) || ".bin";
+
+/**
+ * Valida la firma X-Hub-Signature-256 del cuerpo crudo del webhook
+ */
+export function verifyMetaSignature(rawBody: Buffer, signatureHeader: string | undefined, appSecret: string): boolean {
+  if (!signatureHeader || !appSecret) return false;
+
+  const [algorithm, signature] = signatureHeader.split("=");
+  if (algorithm !== "sha256" || !signature) return false;
+
+  const expected = crypto.createHmac("sha256", appSecret).update(rawBody).digest("hex");
+  const received = Buffer.from(signature, "hex");
+  return received.length === expected.length / 2 && crypto.timingSafeEqual(received, Buffer.from(expected, "hex"));
+}
+
+/**
+ * Extrae mensajes y estados de una notificación del webhook
+ */
+export function parseMetaWebhook(payload: any): ParsedMetaWebhook {
+  const parsed: ParsedMetaWebhook = { messages: [], statuses: [] };
+  if (payload?.object !== "whatsapp_business_account") return parsed;
+
+  for (const entry of payload.entry || []) {
+    for (const change of entry.changes || []) {
+      const value = change.value || {};
+      const phoneNumberId = String(value.metadata?.phone_number_id || "");
+      const displayPhoneNumber = String(value.metadata?.display_phone_number || "").replace(/\D/g, "") || undefined;
+      const names = new Map<string, string>(
+        (value.contacts || []).map((contact: any) => [contact.wa_id, contact.profile?.name])
+      );
+
+      for (const message of value.messages || []) {
+        const incoming: MetaIncomingMessage = {
+          from: message.from,
+          name: names.get(message.from),
+          body: "",
+          type: message.type,
+          messageId: message.id,
+          timestamp: message.timestamp,
+          phoneNumberId,
+          displayPhoneNumber,
+        };
+
+        switch (message.type) {
+          case "text":
+            incoming.body = message.text?.body || "";
+            break;
+          case "interactive": {
+            const reply = message.interactive?.button_reply || message.interactive?.list_reply;
+            incoming.body = reply?.title || "";
+            incoming.buttonId = reply?.id;
+            break;
+          }
+          case "button":
+            // Respuesta rápida de una plantilla
+            incoming.body = message.button?.text || "";
+            incoming.buttonId = message.button?.payload;
+            break;
+          case "location":
+            incoming.body = utils.generateRefProvider(MEDIA_EVENTS.location);
+            incoming.location = message.location;
+            break;
+          default: {
+            const media = message[message.type];
+            if (media?.id && MEDIA_EVENTS[message.type]) {
+              incoming.body = utils.generateRefProvider(MEDIA_EVENTS[message.type]);
+              incoming.media = { id: media.id, mimeType: media.mime_type, filename: media.filename };
+              incoming.caption = media.caption;
+            }
+          }
+        }
+
+        if (incoming.body) parsed.messages.push(incoming);
+      }
+
+      for (const status of value.statuses || []) {
+        if (!["sent", "delivered", "read", "failed"].includes(status.status)) continue;
+        parsed.statuses.push({
+          messageId: status.id,
+          recipient: status.recipient_id,
+          status: status.status,
+          timestamp: status.timestamp,
+          phoneNumberId,
+          ...(status.errors?.[0] ? { error: { code: status.errors[0].code, title: status.errors[0].title } } : {}),
+        });
+      }
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Mensaje interactivo de botones (más de 3 botones se envían como lista)
+ */
+export function buildInteractiveButtons(
+  text: string,
+  metadata: Pick<ButtonNodeMetadata, "buttons"> & Partial<ButtonNodeMetadata>
+): Record<string, any> {
+  const buttons = metadata.buttons.filter((button) => !button.disabled && !button.url);
+  if (buttons.length > MAX_REPLY_BUTTONS) {
+    return buildInteractiveList(text, {
+      items: buttons.map((button) => ({ id: button.id, text: button.text, value: button.value })),
+      title: metadata.title,
+    });
+  }
+
+  return {
+    type: "button",
+    ...(metadata.imageUrl
+      ? { header: { type: "image", image: { link: metadata.imageUrl } } }
+      : metadata.title
+        ? { header: { type: "text", text: truncate(metadata.title, 60) } }
+        : {}),
+    body: { text: truncate(text || metadata.title || "Selecciona una opción", BODY_MAX) },
+    ...(metadata.subtitle ? { footer: { text: truncate(metadata.subtitle, 60) } } : {}),
+    action: {
+      buttons: buttons.map((button: Button, index) => ({
+        type: "reply",
+        reply: { id: button.value || button.id || String(index + 1), title: truncate(button.text, BUTTON_TITLE_MAX) },
+      })),
+    },
+  };
+}
+
+/**
+ * Mensaje interactivo de lista
+ */
+export function buildInteractiveList(
+  text: string,
+  metadata: Pick<ListNodeMetadata, "items"> & Partial<ListNodeMetadata>
+): Record<string, any> {
+  const limit = Math.min(metadata.maxItems || MAX_LIST_ROWS, MAX_LIST_ROWS);
+  const rows = metadata.items
+    .filter((item) => !item.disabled)
+    .slice(0, limit)
+    .map((item, index) => ({
+      id: item.value || item.id || String(index + 1),
+      title: truncate(item.text, ROW_TITLE_MAX),
+      ...(item.description ? { description: truncate(item.description, ROW_DESCRIPTION_MAX) } : {}),
+    }));
+
+  return {
+    type: "list",
+    ...(metadata.title ? { header: { type: "text", text: truncate(metadata.title, 60) } } : {}),
+    body: { text: truncate(text || metadata.description || "Selecciona una opción", BODY_MAX) },
+    action: {
+      button: truncate(metadata.buttonText || "Ver opciones", BUTTON_TITLE_MAX),
+      sections: [{ title: truncate(metadata.title || "Opciones", ROW_TITLE_MAX), rows }],
+    },
+  };
+}
+
+// Proveedores por phone_number_id (el webhook es único por aplicación de Meta)
+const providers = new Map<string, MetaCloudProvider>();
+
+/**
+ * Proveedor que atiende un phone_number_id
+ */
+export function getMetaProvider(phoneNumberId: string): MetaCloudProvider | null {
+  return providers.get(phoneNumberId) || null;
+}
+
+export function listMetaProviders(): MetaCloudProvider[] {
+  return Array.from(providers.values());
+}
+
+export class MetaCloudProvider extends ProviderClass implements InteractiveProvider {
+  globalVendorArgs: any;
+  private readonly options: MetaProviderOptions;
+  private displayNumber: string | null;
+  private vendorReady?: Promise<EventEmitter>;
+
+  constructor(options: Partial<MetaProviderOptions> = {}) {
+    super();
+    this.options = { ...config.whatsapp.meta, ...options };
+    if (!this.options.accessToken || !this.options.phoneNumberId) {
+      throw new MetaProviderError("NOT_CONFIGURED", "Faltan META_ACCESS_TOKEN o META_PHONE_NUMBER_ID");
+    }
+
+    this.globalVendorArgs = { name: `meta-${this.options.phoneNumberId}`, port: config.port };
+    this.displayNumber = this.options.phoneNumber?.replace(/\D/g, "") || null;
+    this.vendor = new EventEmitter();
+    providers.set(this.options.phoneNumberId, this);
+
+    this.initVendor().catch((error) =>
+      logger.error(`[Meta] No se pudo verificar el número ${this.options.phoneNumberId}: ${error.message}`)
+    );
+  }
+
+  get phoneNumberId(): string {
+    return this.options.phoneNumberId;
+  }
+
+  get appSecret(): string | undefined {
+    return this.options.appSecret;
+  }
+
+  get verifyToken(): string | undefined {
+    return this.options.verifyToken;
+  }
+
+  // Los eventos se emiten directamente desde handleWebhook
+  protected busEvents = (): Array<{ event: string; func: Function }> => [];
+
+  protected beforeHttpServerInit(): void {}
+
+  protected afterHttpServerInit(): void {}
+
+  /**
+   * Verifica el token una sola vez (BuilderBot puede volver a llamarlo desde httpServer)
+   */
+  protected initVendor(): Promise<EventEmitter> {
+    if (!this.vendorReady) this.vendorReady = this.verifyNumber();
+    return this.vendorReady;
+  }
+
+  /**
+   * Verifica el token consultando el número y anuncia el número visible (host)
+   */
+  private async verifyNumber(): Promise<EventEmitter> {
+    if (!this.displayNumber) {
+      const { data } = await this.request({ method: "GET", url: this.graphPath(this.options.phoneNumberId) });
+      this.displayNumber = String(data?.display_phone_number || "").replace(/\D/g, "") || null;
+    }
+
+    if (this.displayNumber) this.emit("host", { phone: this.displayNumber });
+    this.emit("ready", true);
+    logger.info(`[Meta] Número ${this.displayNumber || this.options.phoneNumberId} listo`);
+    return this.vendor;
+  }
+
+  private graphPath(resource: string): string {
+    return `${this.options.graphUrl.replace(/\/+$/, "")}/${this.options.apiVersion}/${resource}`;
+  }
+
+  private async request(requestConfig: AxiosRequestConfig): Promise<{ data: any; headers: any }> {
+    try {
+      const response = await axios({
+        timeout: this.options.timeoutMs,
+        ...requestConfig,
+        headers: { Authorization: `Bearer ${this.options.accessToken}`, ...(requestConfig.headers || {}) },
+      });
+      return { data: response.data, headers: response.headers };
+    } catch (error) {
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      const detail = axios.isAxiosError(error) ? error.response?.data?.error?.message || error.message : String(error);
+      throw new MetaProviderError("REQUEST_FAILED", `Graph API ${requestConfig.method} ${requestConfig.url}: ${detail}`, status);
+    }
+  }
+
+  /**
+   * Envía un mensaje a /{phone_number_id}/messages
+   */
+  private async postMessage(to: string, message: Record<string, any>): Promise<SentMessage> {
+    const { data } = await this.request({
+      method: "POST",
+      url: this.graphPath(`${this.options.phoneNumberId}/messages`),
+      data: { messaging_product: "whatsapp", recipient_type: "individual", to: to.replace(/\D/g, ""), ...message },
+    });
+    return { messageId: data?.messages?.[0]?.id || null };
+  }
+
+  /**
+   * Envío genérico usado por BuilderBot: respeta options.media y options.buttons de flowDynamic
+   */
+  async sendMessage<K = SentMessage>(userId: string, message: any, args?: any): Promise<K> {
+    const options = args?.options || {};
+    const text = typeof message === "string" ? message : message?.body || "";
+
+    if (options.media) {
+      return (await this.sendMedia(userId, options.media, text)) as K;
+    }
+    if (Array.isArray(options.buttons) && options.buttons.length > 0) {
+      return (await this.sendButtons(userId, options.buttons, text)) as K;
+    }
+    return (await this.sendText(userId, text)) as K;
+  }
+
+  async sendText(to: string, text: string): Promise<SentMessage> {
+    return this.postMessage(to, { type: "text", text: { body: text, preview_url: /https?:\/\//.test(text) } });
+  }
+
+  /**
+   * Botones en formato BuilderBot ({ body }) o del nodo ({ id, text })
+   */
+  async sendButtons(to: string, buttons: Array<{ body?: string; text?: string; id?: string }>, text = ""): Promise<SentMessage> {
+    return this.sendInteractiveButtons(to, text, {
+      buttons: buttons.map((button, index) => ({
+        id: button.id || String(index + 1),
+        text: button.text || button.body || String(index + 1),
+      })),
+    });
+  }
+
+  async sendInteractiveButtons(
+    to: string,
+    text: string,
+    metadata: Pick<ButtonNodeMetadata, "buttons"> & Partial<ButtonNodeMetadata>
+  ): Promise<SentMessage> {
+    return this.postMessage(to, { type: "interactive", interactive: buildInteractiveButtons(text, metadata) });
+  }
+
+  async sendInteractiveList(
+    to: string,
+    text: string,
+    metadata: Pick<ListNodeMetadata, "items"> & Partial<ListNodeMetadata>
+  ): Promise<SentMessage> {
+    return this.postMessage(to, { type: "interactive", interactive: buildInteractiveList(text, metadata) });
+  }
+
+  /**
+   * Envía multimedia: por enlace si es una URL, o subiendo el archivo local
+   * (solo dentro de los directorios de medios, ver src/utils/localMedia.ts)
+   */
+  async sendMedia(to: string, mediaUrlOrPath: string, caption?: string): Promise<SentMessage> {
+    const mimeType = getMimeType(mediaUrlOrPath);
+    const type = getMediaType(mimeType);
+
+    let media: Record<string, string>;
+    if (isRemoteMedia(mediaUrlOrPath)) {
+      media = { link: mediaUrlOrPath };
+    } else {
+      const filePath = resolveLocalMediaPath(mediaUrlOrPath, [...getLocalMediaDirectories(), this.options.mediaDir]);
+      if (!filePath) {
+        throw new MetaProviderError("MEDIA_NOT_ALLOWED", `Archivo fuera de los directorios de medios: ${mediaUrlOrPath}`);
+      }
+      if (!fs.existsSync(filePath)) {
+        throw new MetaProviderError("MEDIA_NOT_FOUND", `Archivo no encontrado: ${mediaUrlOrPath}`);
+      }
+      const id = await this.uploadMedia(fs.readFileSync(filePath), mimeType, path.basename(filePath));
+      media = { id };
+    }
+
+    if (type === "document") media.filename = path.basename(mediaUrlOrPath.split("?")[0]);
+    // Los audios no admiten texto: se envía aparte
+    if (caption && type !== "audio") media.caption = caption;
+
+    const sent = await this.postMessage(to, { type, [type]: media });
+    if (caption && type === "audio") await this.sendText(to, caption);
+    return sent;
+  }
+
+  /**
+   * Sube un archivo a /{phone_number_id}/media
+   * @returns ID del medio en Meta
+   */
+  async uploadMedia(file: Buffer, mimeType: string, filename: string): Promise<string> {
+    const form = new FormData();
+    form.append("messaging_product", "whatsapp");
+    form.append("type", mimeType);
+    form.append("file", file, { filename, contentType: mimeType });
+
+    const { data } = await this.request({
+      method: "POST",
+      url: this.graphPath(`${this.options.phoneNumberId}/media`),
+      data: form,
+      headers: form.getHeaders(),
+      maxBodyLength: Infinity,
+    });
+    if (!data?.id) throw new MetaProviderError("REQUEST_FAILED", "La Graph API no devolvió el ID del medio");
+    return data.id;
+  }
+
+  /**
+   * Descarga un medio recibido (la URL de descarga también requiere el token)
+   */
+  async downloadMedia(mediaId: string): Promise<{ data: Buffer; mimeType: string }> {
+    const { data: info } = await this.request({ method: "GET", url: this.graphPath(mediaId) });
+    if (!info?.url) throw new MetaProviderError("MEDIA_NOT_FOUND", `Medio ${mediaId} sin URL de descarga`);
+
+    const { data, headers } = await this.request({ method: "GET", url: info.url, responseType: "arraybuffer" });
+    return { data: Buffer.from(data), mimeType: info.mime_type || headers["content-type"] || "application/octet-stream" };
+  }
+
+  /**
+   * Guarda el medio de un mensaje entrante (ctx de BuilderBot) y devuelve la ruta
+   */
+  async saveFile(ctx: any, options?: { path: string }): Promise<string> {
+    const mediaId = ctx?.media?.id;
+    if (!mediaId) throw new MetaProviderError("MEDIA_NOT_FOUND", "El mensaje no contiene multimedia");
+
+    const { data, mimeType } = await this.downloadMedia(mediaId);
+    const directory = options?.path || this.options.mediaDir;
+    fs.mkdirSync(directory, { recursive: true });
+
+    const filePath = path.join(directory, `${mediaId.replace(/\W/g, "")}${getExtension(mimeType)}`);
+    fs.writeFileSync(filePath, data);
+    return filePath;
+  }
+
+  /**
+   * Procesa las notificaciones del webhook dirigidas a este número
+   */
+  handleWebhook(parsed: ParsedMetaWebhook): void {
+    const messages = parsed.messages.filter((message) => message.phoneNumberId === this.options.phoneNumberId);
+    const displayNumber = messages[0]?.displayPhoneNumber || this.displayNumber;
+
+    // BuilderBot pone en ctx.host el último número anunciado: se anuncia antes de cada lote
+    // por si el bot se creó después de la verificación inicial
+    if (messages.length > 0 && displayNumber) {
+      this.displayNumber = displayNumber;
+      this.emit("host", { phone: displayNumber });
+    }
+    messages.forEach((message) => this.emit("message", message));
+
+    for (const status of parsed.statuses) {
+      if (status.phoneNumberId !== this.options.phoneNumberId) continue;
+      if (status.status === "failed") {
+        logger.warn(`[Meta] Mensaje ${status.messageId} a ${status.recipient} fallido: ${status.error?.title || "sin detalle"}`);
+      }
+      this.emit("message_status", status);
+    }
+  }
+
+  async getInstance(): Promise<this> {
+    return this;
+  }
+
+  /**
+   * Deja de recibir notificaciones del webhook
+   */
+  async close(): Promise<void> {
+    if (providers.get(this.options.phoneNumberId) === this) {
+      providers.delete(this.options.phoneNumberId);
+    }
+  }
+}
+
+export default MetaCloudProvider;
@@ -3,8 +3,8 @@
  *
  * Factory para crear proveedores de manera dinámica.
  * Permite seleccionar y cambiar entre diferentes proveedores.
- * @version 1.0.0
- * @updated 2025-04-17
+ * @version 1.2.0
+ * @updated 2025-06-17
  */
 
 import { ProviderClass } from "@builderbot/bot";
@@ -12,9 +12,11 @@ import { config } from "../config";
 import logger from "../utils/logger";
 import { initWhatsAppProvider, WhatsAppProviderType } from "./whatsappProvider";
 import { WebProvider } from "./webProvider";
+import { TelegramProvider } from "./telegramProvider";
+import { WebChatProvider } from "./webChatProvider";
 
 // Tipos de proveedores disponibles
-export type ProviderType = "web" | "whatsapp";
+export type ProviderType = "web" | "whatsapp" | "telegram" | "webchat";
 
 // Cache de instancias de proveedores
 const providerInstances: Record<string, ProviderClass> = {};
@@ -62,6 +64,19 @@ export const getProvider = async (
         });
         break;
 
+      case "telegram":
+        // Instanciamos el bot de Telegram (long polling de la Bot API)
+        provider = new TelegramProvider({
+          ...(options.botToken ? { botToken: options.botToken } : {}),
+          tenantId: options.tenantId || config.telegram.tenantId,
+        });
+        break;
+
+      case "webchat":
+        // Widget de chat web: un proveedor para los visitantes de todos los tenants
+        provider = new WebChatProvider();
+        break;
+
       default:
         throw new Error(`Tipo de proveedor no soportado: ${type}`);
     }
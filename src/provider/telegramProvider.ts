@@ -0,0 +1,504 @@
+/**
+ * src/provider/telegramProvider.ts
+ *
+ * Proveedor de Telegram (Bot API) sobre ProviderClass de BuilderBot.
+ * Recibe las actualizaciones por long polling (getUpdates) y las emite como
+ * evento "message"; los nodos de botones y lista se envían como teclados
+ * inline, y al pulsar un botón (callback_query) se emite el texto del botón
+ * con su ID en buttonId para que el bridge lo resuelva como selección. Las
+ * notas de voz se descargan y se transcriben con el servicio de STT.
+ * @version 1.0.1
+ * @created 2025-06-17
+ * @updated 2025-06-17
+ */
+
+import fs from "fs";
+import path from "path";
+import { EventEmitter } from "events";
+import axios, { AxiosRequestConfig } from "axios";
+import FormData from "form-data";
+import { ProviderClass, utils } from "@builderbot/bot";
+import { config } from "../config";
+import logger from "../utils/logger";
+import { ButtonNodeMetadata, ListNodeMetadata } from "../models/button.types";
+import { InteractiveProvider, SentMessage } from "./interactiveProvider";
+import { isRemoteMedia, getLocalMediaDirectories, resolveLocalMediaPath } from "../utils/localMedia";
+
+export interface TelegramProviderOptions {
+  botToken: string;
+  apiUrl: string;
+  tenantId?: string;              // Se envía en ctx._metadata para que el bridge elija el tenant
+  pollingTimeoutSec: number;
+  transcribeVoiceNotes: boolean;
+  mediaDir: string;
+  timeoutMs: number;
+  // Transcripción de notas de voz (por defecto el servicio de STT configurado)
+  transcribe?: (audio: Buffer) => Promise<string>;
+}
+
+export type TelegramProviderErrorCode = "NOT_CONFIGURED" | "REQUEST_FAILED" | "FILE_NOT_FOUND" | "FILE_NOT_ALLOWED";
+
+export class TelegramProviderError extends Error {
+  constructor(public code: TelegramProviderErrorCode, message: string, public status?: number) {
+    super(message);
+    this.name = "TelegramProviderError";
+  }
+}
+
+/**
+ * Mensaje entrante normalizado (evento "message", contexto de BuilderBot)
+ */
+export interface TelegramIncomingMessage {
+  from: string;                   // chat_id (destino de las respuestas)
+  name?: string;
+  body: string;
+  type: string;
+  messageId: string;
+  timestamp: string;
+  buttonId?: string;              // callback_data del botón pulsado
+  media?: { fileId: string; mimeType?: string; filename?: string };
+  caption?: string;
+  transcription?: string;         // Texto de la nota de voz
+  location?: { latitude: number; longitude: number };
+  _metadata?: { tenantId?: string; channel: "telegram" };
+}
+
+// Límites de la Bot API
+const CALLBACK_DATA_MAX_BYTES = 64;
+const TEXT_MAX = 4096;
+const CAPTION_MAX = 1024;
+const MAX_LIST_ITEMS = 50;
+const RETRY_MAX_DELAY_MS = 30000;
+
+// Método de envío según la extensión del archivo
+const MEDIA_METHODS: Record<string, { method: string; field: string }> = {
+  ".jpg": { method: "sendPhoto", field: "photo" },
+  ".jpeg": { method: "sendPhoto", field: "photo" },
+  ".png": { method: "sendPhoto", field: "photo" },
+  ".webp": { method: "sendPhoto", field: "photo" },
+  ".mp3": { method: "sendAudio", field: "audio" },
+  ".m4a": { method: "sendAudio", field: "audio" },
+  ".ogg": { method: "sendVoice", field: "voice" },
+  ".oga": { method: "sendVoice", field: "voice" },
+  ".opus": { method: "sendVoice", field: "voice" },
+  ".mp4": { method: "sendVideo", field: "video" },
+};
+
+type InlineButton = { text: string; callback_data?: string; url?: string };
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+/**
+ * callback_data admite hasta 64 bytes
+ */
+export function toCallbackData(value: string): string {
+  let data = String(value);
+  while (Buffer.byteLength(data, "utf8") > CALLBACK_DATA_MAX_BYTES) data = data.slice(0, -1);
+  return data;
+}
+
+/**
+ * Teclado inline de un nodo de botones (los botones con url abren el enlace)
+ */
+export function buildButtonsKeyboard(
+  metadata: Pick<ButtonNodeMetadata, "buttons"> & Partial<ButtonNodeMetadata>
+): { inline_keyboard: InlineButton[][] } {
+  const buttons: InlineButton[] = metadata.buttons
+    .filter((button) => !button.disabled)
+    .map((button, index) =>
+      button.url
+        ? { text: button.text, url: button.url }
+        : { text: button.text, callback_data: toCallbackData(button.value || button.id || String(index + 1)) }
+    );
+
+  return {
+    inline_keyboard: metadata.buttonLayout === "horizontal" ? [buttons] : buttons.map((button) => [button]),
+  };
+}
+
+/**
+ * Teclado inline de un nodo de lista (un elemento por fila)
+ */
+export function buildListKeyboard(
+  metadata: Pick<ListNodeMetadata, "items"> & Partial<ListNodeMetadata>
+): { inline_keyboard: InlineButton[][] } {
+  const limit = Math.min(metadata.maxItems || MAX_LIST_ITEMS, MAX_LIST_ITEMS);
+  return {
+    inline_keyboard: metadata.items
+      .filter((item) => !item.disabled)
+      .slice(0, limit)
+      .map((item, index) => [{ text: item.text, callback_data: toCallbackData(item.value || item.id || String(index + 1)) }]),
+  };
+}
+
+/**
+ * Texto del botón pulsado a partir del teclado del mensaje original
+ */
+function findPressedButtonText(callbackQuery: any): string | null {
+  const rows: InlineButton[][] = callbackQuery?.message?.reply_markup?.inline_keyboard || [];
+  for (const row of rows) {
+    const button = row.find((candidate) => candidate.callback_data === callbackQuery.data);
+    if (button) return button.text;
+  }
+  return null;
+}
+
+function getSenderName(user: any): string | undefined {
+  const name = [user?.first_name, user?.last_name].filter(Boolean).join(" ");
+  return name || user?.username || undefined;
+}
+
+/**
+ * Transcribe una nota de voz con el servicio de STT configurado
+ */
+async function transcribeWithSTT(audio: Buffer): Promise<string> {
+  const { transcribeAudioWithProvider } = await import("../services/stt");
+  const result = await transcribeAudioWithProvider(audio);
+  return result.text;
+}
+
+export class TelegramProvider extends ProviderClass implements InteractiveProvider {
+  globalVendorArgs: any;
+  private readonly options: TelegramProviderOptions;
+  private botUsername: string | null = null;
+  private vendorReady?: Promise<EventEmitter>;
+  private offset = 0;
+  private polling = false;
+  private abortController: AbortController | null = null;
+
+  constructor(options: Partial<TelegramProviderOptions> = {}) {
+    super();
+    this.options = { ...config.telegram, ...options };
+    if (!this.options.botToken) {
+      throw new TelegramProviderError("NOT_CONFIGURED", "Falta TELEGRAM_BOT_TOKEN");
+    }
+
+    this.globalVendorArgs = { name: "telegram", port: config.port };
+    this.vendor = new EventEmitter();
+
+    this.initVendor().catch((error) =>
+      logger.error(`[Telegram] No se pudo iniciar el bot: ${error.message}`)
+    );
+  }
+
+  get username(): string | null {
+    return this.botUsername;
+  }
+
+  // Los eventos se emiten directamente desde handleUpdate
+  protected busEvents = (): Array<{ event: string; func: Function }> => [];
+
+  protected beforeHttpServerInit(): void {}
+
+  protected afterHttpServerInit(): void {}
+
+  /**
+   * Verifica el token y arranca el long polling una sola vez
+   * (BuilderBot puede volver a llamarlo desde httpServer)
+   */
+  protected initVendor(): Promise<EventEmitter> {
+    if (!this.vendorReady) this.vendorReady = this.bootstrap();
+    return this.vendorReady;
+  }
+
+  private async bootstrap(): Promise<EventEmitter> {
+    const me = await this.call<{ username?: string }>("getMe");
+    this.botUsername = me?.username || null;
+
+    this.polling = true;
+    this.pollLoop();
+
+    if (this.botUsername) this.emit("host", { phone: this.botUsername });
+    this.emit("ready", true);
+    logger.info(`[Telegram] Bot @${this.botUsername || "desconocido"} listo`);
+    return this.vendor;
+  }
+
+  /**
+   * Llama a un método de la Bot API
+   */
+  private async call<T = any>(method: string, params?: Record<string, any> | FormData, requestConfig: AxiosRequestConfig = {}): Promise<T> {
+    const isForm = params instanceof FormData;
+    try {
+      const response = await axios({
+        method: "POST",
+        url: `${this.options.apiUrl.replace(/\/+$/, "")}/bot${this.options.botToken}/${method}`,
+        data: params || {},
+        timeout: this.options.timeoutMs,
+        ...(isForm ? { headers: (params as FormData).getHeaders(), maxBodyLength: Infinity } : {}),
+        ...requestConfig,
+      });
+      return response.data?.result as T;
+    } catch (error) {
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      const detail = axios.isAxiosError(error) ? error.response?.data?.description || error.message : String(error);
+      throw new TelegramProviderError("REQUEST_FAILED", `Bot API ${method}: ${detail}`, status);
+    }
+  }
+
+  /**
+   * Long polling de getUpdates hasta close(); los errores se reintentan con espera creciente
+   */
+  private async pollLoop(): Promise<void> {
+    let failures = 0;
+
+    while (this.polling) {
+      this.abortController = new AbortController();
+      try {
+        const updates = await this.call<any[]>(
+          "getUpdates",
+          { offset: this.offset, timeout: this.options.pollingTimeoutSec, allowed_updates: ["message", "callback_query"] },
+          { timeout: (this.options.pollingTimeoutSec + 10) * 1000, signal: this.abortController.signal }
+        );
+        failures = 0;
+
+        for (const update of updates || []) {
+          this.offset = Math.max(this.offset, update.update_id + 1);
+          await this.handleUpdate(update).catch((error) =>
+            logger.error(`[Telegram] Error al procesar la actualización ${update.update_id}:`, error)
+          );
+        }
+      } catch (error) {
+        if (!this.polling) break;
+        failures++;
+        const delay = Math.min(1000 * 2 ** (failures - 1), RETRY_MAX_DELAY_MS);
+        logger.warn(`[Telegram] Error en getUpdates, reintento en ${delay} ms: ${error instanceof Error ? error.message : error}`);
+        await new Promise((resolve) => setTimeout(resolve, delay).unref?.());
+      }
+    }
+  }
+
+  /**
+   * Convierte una actualización de la Bot API en mensajes de BuilderBot
+   */
+  async handleUpdate(update: any): Promise<void> {
+    if (update?.callback_query) {
+      await this.handleCallbackQuery(update.callback_query);
+      return;
+    }
+
+    const message = update?.message;
+    if (!message?.chat) return;
+
+    const incoming: TelegramIncomingMessage = {
+      from: String(message.chat.id),
+      name: getSenderName(message.from),
+      body: message.text || "",
+      type: "text",
+      messageId: String(message.message_id),
+      timestamp: String(message.date),
+      _metadata: { tenantId: this.options.tenantId || undefined, channel: "telegram" },
+    };
+
+    if (message.voice || message.audio) {
+      const audio = message.voice || message.audio;
+      incoming.type = message.voice ? "voice" : "audio";
+      incoming.media = { fileId: audio.file_id, mimeType: audio.mime_type, filename: audio.file_name };
+      incoming.body = utils.generateRefProvider("_event_voice_note_");
+      if (this.options.transcribeVoiceNotes) {
+        const transcription = await this.transcribeVoiceNote(audio.file_id);
+        if (transcription) {
+          incoming.body = transcription;
+          incoming.transcription = transcription;
+        }
+      }
+    } else if (message.photo || message.video || message.document) {
+      const file = message.document || message.video || message.photo[message.photo.length - 1]; // La foto más grande
+      incoming.type = message.document ? "document" : message.video ? "video" : "image";
+      incoming.media = { fileId: file.file_id, mimeType: file.mime_type, filename: file.file_name };
+      incoming.caption = message.caption;
+      incoming.body = utils.generateRefProvider(message.document ? "_event_document_" : "_event_media_");
+    } else if (message.location) {
+      incoming.type = "location";
+      incoming.location = { latitude: message.location.latitude, longitude: message.location.longitude };
+      incoming.body = utils.generateRefProvider("_event_location_");
+    } else if (!message.text) {
+      return; // Stickers, encuestas, etc.
+    }
+
+    this.emit("message", incoming);
+  }
+
+  /**
+   * Botón pulsado: se confirma a Telegram y se emite como respuesta del usuario
+   */
+  private async handleCallbackQuery(callbackQuery: any): Promise<void> {
+    await this.call("answerCallbackQuery", { callback_query_id: callbackQuery.id }).catch((error) =>
+      logger.warn(`[Telegram] No se pudo confirmar el botón pulsado: ${error.message}`)
+    );
+
+    const chatId = callbackQuery.message?.chat?.id ?? callbackQuery.from?.id;
+    if (chatId === undefined || !callbackQuery.data) return;
+
+    this.emit("message", {
+      from: String(chatId),
+      name: getSenderName(callbackQuery.from),
+      body: findPressedButtonText(callbackQuery) || callbackQuery.data,
+      type: "callback_query",
+      messageId: String(callbackQuery.message?.message_id ?? callbackQuery.id),
+      timestamp: String(Math.floor(Date.now() / 1000)),
+      buttonId: callbackQuery.data,
+      _metadata: { tenantId: this.options.tenantId || undefined, channel: "telegram" },
+    } as TelegramIncomingMessage);
+  }
+
+  /**
+   * Descarga y transcribe una nota de voz
+   * @returns Texto, o null si no se pudo transcribir
+   */
+  private async transcribeVoiceNote(fileId: string): Promise<string | null> {
+    try {
+      const { data } = await this.downloadFile(fileId);
+      const text = (await (this.options.transcribe || transcribeWithSTT)(data)).trim();
+      return text || null;
+    } catch (error) {
+      logger.warn(`[Telegram] No se pudo transcribir la nota de voz ${fileId}: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Envío genérico usado por BuilderBot: respeta options.media y options.buttons de flowDynamic
+   */
+  async sendMessage<K = SentMessage>(userId: string, message: any, args?: any): Promise<K> {
+    const options = args?.options || {};
+    const text = typeof message === "string" ? message : message?.body || "";
+
+    if (options.media) {
+      return (await this.sendMedia(userId, options.media, text)) as K;
+    }
+    if (Array.isArray(options.buttons) && options.buttons.length > 0) {
+      return (await this.sendInteractiveButtons(userId, text, {
+        buttons: options.buttons.map((button: { body?: string; text?: string; id?: string }, index: number) => ({
+          id: button.id || String(index + 1),
+          text: button.text || button.body || String(index + 1),
+        })),
+      })) as K;
+    }
+    return (await this.sendText(userId, text)) as K;
+  }
+
+  async sendText(chatId: string, text: string, replyMarkup?: Record<string, any>): Promise<SentMessage> {
+    const result = await this.call<{ message_id: number }>("sendMessage", {
+      chat_id: chatId,
+      text: truncate(text || " ", TEXT_MAX),
+      ...(replyMarkup ? { reply_markup: replyMarkup } : {}),
+    });
+    return { messageId: result?.message_id !== undefined ? String(result.message_id) : null };
+  }
+
+  async sendInteractiveButtons(
+    to: string,
+    text: string,
+    metadata: Pick<ButtonNodeMetadata, "buttons"> & Partial<ButtonNodeMetadata>
+  ): Promise<SentMessage> {
+    const body = [metadata.title, text || "Selecciona una opción", metadata.subtitle].filter(Boolean).join("\n\n");
+    const keyboard = buildButtonsKeyboard(metadata);
+
+    if (metadata.imageUrl) {
+      return this.sendMedia(to, metadata.imageUrl, body, keyboard);
+    }
+    return this.sendText(to, body, keyboard);
+  }
+
+  async sendInteractiveList(
+    to: string,
+    text: string,
+    metadata: Pick<ListNodeMetadata, "items"> & Partial<ListNodeMetadata>
+  ): Promise<SentMessage> {
+    // Los botones inline no tienen descripción: se listan en el texto
+    const descriptions = metadata.items
+      .filter((item) => !item.disabled && item.description)
+      .map((item) => `• ${item.text}: ${item.description}`);
+    const body = [metadata.title, text || metadata.description || "Selecciona una opción", descriptions.join("\n")]
+      .filter(Boolean)
+      .join("\n\n");
+
+    return this.sendText(to, body, buildListKeyboard(metadata));
+  }
+
+  /**
+   * Envía multimedia: por URL, o subiendo el archivo local
+   * (solo dentro de los directorios de medios, ver src/utils/localMedia.ts)
+   */
+  async sendMedia(chatId: string, mediaUrlOrPath: string, caption?: string, replyMarkup?: Record<string, any>): Promise<SentMessage> {
+    const extension = path.extname(mediaUrlOrPath.split("?")[0]).toLowerCase();
+    const { method, field } = MEDIA_METHODS[extension] || { method: "sendDocument", field: "document" };
+    const extra = {
+      ...(caption ? { caption: truncate(caption, CAPTION_MAX) } : {}),
+      ...(replyMarkup ? { reply_markup: replyMarkup } : {}),
+    };
+
+    let result: { message_id: number };
+    if (isRemoteMedia(mediaUrlOrPath)) {
+      result = await this.call(method, { chat_id: chatId, [field]: mediaUrlOrPath, ...extra });
+    } else {
+      const filePath = resolveLocalMediaPath(mediaUrlOrPath, [...getLocalMediaDirectories(), this.options.mediaDir]);
+      if (!filePath) {
+        throw new TelegramProviderError("FILE_NOT_ALLOWED", `Archivo fuera de los directorios de medios: ${mediaUrlOrPath}`);
+      }
+      if (!fs.existsSync(filePath)) {
+        throw new TelegramProviderError("FILE_NOT_FOUND", `Archivo no encontrado: ${mediaUrlOrPath}`);
+      }
+      const form = new FormData();
+      form.append("chat_id", chatId);
+      form.append(field, fs.readFileSync(filePath), { filename: path.basename(filePath) });
+      Object.entries(extra).forEach(([key, value]) =>
+        form.append(key, typeof value === "string" ? value : JSON.stringify(value))
+      );
+      result = await this.call(method, form);
+    }
+    return { messageId: result?.message_id !== undefined ? String(result.message_id) : null };
+  }
+
+  /**
+   * Descarga un archivo recibido (getFile + /file/bot<token>/<file_path>)
+   */
+  async downloadFile(fileId: string): Promise<{ data: Buffer; filePath: string }> {
+    const file = await this.call<{ file_path?: string }>("getFile", { file_id: fileId });
+    if (!file?.file_path) throw new TelegramProviderError("FILE_NOT_FOUND", `Archivo ${fileId} sin ruta de descarga`);
+
+    try {
+      const response = await axios.get(
+        `${this.options.apiUrl.replace(/\/+$/, "")}/file/bot${this.options.botToken}/${file.file_path}`,
+        { responseType: "arraybuffer", timeout: this.options.timeoutMs }
+      );
+      return { data: Buffer.from(response.data), filePath: file.file_path };
+    } catch (error) {
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      throw new TelegramProviderError("REQUEST_FAILED", `No se pudo descargar el archivo ${fileId}`, status);
+    }
+  }
+
+  /**
+   * Guarda el archivo de un mensaje entrante (ctx de BuilderBot) y devuelve la ruta
+   */
+  async saveFile(ctx: any, options?: { path: string }): Promise<string> {
+    const fileId = ctx?.media?.fileId;
+    if (!fileId) throw new TelegramProviderError("FILE_NOT_FOUND", "El mensaje no contiene archivos");
+
+    const { data, filePath } = await this.downloadFile(fileId);
+    const directory = options?.path || this.options.mediaDir;
+    fs.mkdirSync(directory, { recursive: true });
+
+    const target = path.join(directory, `${fileId.replace(/\W/g, "")}${path.extname(filePath)}`);
+    fs.writeFileSync(target, data);
+    return target;
+  }
+
+  async getInstance(): Promise<this> {
+    return this;
+  }
+
+  /**
+   * Detiene el long polling
+   */
+  async close(): Promise<void> {
+    this.polling = false;
+    this.abortController?.abort();
+  }
+}
+
+export default TelegramProvider;
@@ -0,0 +1,416 @@
+/**
+ * src/provider/webChatProvider.ts
+ *
+ * Proveedor del widget de chat web embebible sobre ProviderClass de BuilderBot.
+ * Un solo proveedor atiende a los visitantes anónimos de todos los tenants:
+ * los mensajes del visitante se emiten como evento "message" con el tenant en
+ * ctx._metadata, y las respuestas del bot se entregan a sus conexiones abiertas
+ * (SSE en /api/webchat) como eventos con contenido listo para renderizar
+ * (texto, botones, listas y medios) e indicadores de escritura. Los mensajes
+ * se numeran y se guardan los últimos por visitante para reenviarlos al
+ * reconectar (Last-Event-ID).
+ * @version 1.0.0
+ * @created 2025-06-17
+ */
+
+import path from "path";
+import { randomUUID } from "crypto";
+import { EventEmitter } from "events";
+import { ProviderClass } from "@builderbot/bot";
+import { config } from "../config";
+import logger from "../utils/logger";
+import { ButtonNodeMetadata, ListNodeMetadata } from "../models/button.types";
+import { InteractiveProvider, SentMessage, TypingIndicatorProvider } from "./interactiveProvider";
+
+export interface WebChatProviderOptions {
+  historySize: number;
+  maxTypingMs: number;
+  visitorIdleMs: number;
+}
+
+export type WebChatProviderErrorCode = "UNKNOWN_VISITOR" | "INVALID_MESSAGE" | "FILE_NOT_FOUND";
+
+export class WebChatProviderError extends Error {
+  constructor(public code: WebChatProviderErrorCode, message: string) {
+    super(message);
+    this.name = "WebChatProviderError";
+  }
+}
+
+export type WebChatMediaType = "image" | "video" | "audio" | "file";
+
+/**
+ * Contenido de un mensaje del bot tal como lo renderiza el widget
+ */
+export type WebChatPayload =
+  | { type: "text"; text: string }
+  | {
+      type: "buttons";
+      text: string;
+      title?: string;
+      subtitle?: string;
+      imageUrl?: string;
+      layout: "vertical" | "horizontal";
+      buttons: Array<{ id: string; text: string; url?: string }>;
+    }
+  | {
+      type: "list";
+      text: string;
+      title?: string;
+      buttonText?: string;
+      items: Array<{ id: string; text: string; description?: string; imageUrl?: string }>;
+    }
+  | { type: "media"; text: string; url: string; mediaType: WebChatMediaType };
+
+export type WebChatMessage = WebChatPayload & { messageId: string; timestamp: string };
+
+/**
+ * Evento hacia el widget. Solo los mensajes llevan id (se reenvían al reconectar);
+ * un mensaje nuevo termina el indicador de escritura en curso.
+ */
+export type WebChatStreamEvent =
+  | { id: number; event: "message"; data: WebChatMessage }
+  | { event: "typing"; data: { active: boolean; durationMs: number } };
+
+/**
+ * Conexión abierta de un visitante (SSE u otro transporte)
+ */
+export interface WebChatStream {
+  send(event: WebChatStreamEvent): void;
+  close(): void;
+}
+
+/**
+ * Mensaje del visitante normalizado (evento "message", contexto de BuilderBot)
+ */
+export interface WebChatIncomingMessage {
+  from: string;                   // ID del visitante (destino de las respuestas)
+  name?: string;
+  body: string;
+  type: "text" | "button_reply";
+  messageId: string;
+  timestamp: string;
+  buttonId?: string;              // ID o valor del botón / elemento elegido
+  _metadata: { tenantId: string; channel: "webchat" };
+}
+
+export interface WebChatVisitorInput {
+  text?: string;
+  buttonId?: string;
+  name?: string;
+}
+
+interface WebChatVisitor {
+  tenantId: string;
+  streams: Set<WebChatStream>;
+  history: Array<Extract<WebChatStreamEvent, { event: "message" }>>;
+  sequence: number;
+  choices: Map<string, string>;   // Botones y elementos del último mensaje interactivo (ID -> texto)
+  lastSeenAt: number;
+}
+
+const TEXT_MAX = 4096;
+
+// Tipo de medio según la extensión del archivo
+const MEDIA_TYPES: Record<string, WebChatMediaType> = {
+  ".jpg": "image",
+  ".jpeg": "image",
+  ".png": "image",
+  ".gif": "image",
+  ".webp": "image",
+  ".svg": "image",
+  ".mp4": "video",
+  ".webm": "video",
+  ".mov": "video",
+  ".mp3": "audio",
+  ".ogg": "audio",
+  ".oga": "audio",
+  ".m4a": "audio",
+  ".wav": "audio",
+};
+
+/**
+ * Tipo de medio de una URL o ruta (por defecto archivo descargable)
+ */
+export function getWebChatMediaType(url: string): WebChatMediaType {
+  const pathname = url.split(/[?#]/)[0];
+  return MEDIA_TYPES[path.extname(pathname).toLowerCase()] || "file";
+}
+
+export class WebChatProvider extends ProviderClass implements InteractiveProvider, TypingIndicatorProvider {
+  globalVendorArgs: any;
+  private readonly options: WebChatProviderOptions;
+  private readonly visitors = new Map<string, WebChatVisitor>();
+  private vendorReady?: Promise<EventEmitter>;
+  private pruneTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: Partial<WebChatProviderOptions> = {}) {
+    super();
+    this.options = { ...config.webchat, ...options };
+    this.globalVendorArgs = { name: "webchat", port: config.port };
+    this.vendor = new EventEmitter();
+
+    this.initVendor().catch((error) =>
+      logger.error(`[WebChat] No se pudo iniciar el proveedor: ${error.message}`)
+    );
+  }
+
+  // Los eventos se emiten directamente desde receive
+  protected busEvents = (): Array<{ event: string; func: Function }> => [];
+
+  protected beforeHttpServerInit(): void {}
+
+  protected afterHttpServerInit(): void {}
+
+  /**
+   * Arranca la limpieza de visitantes inactivos una sola vez
+   * (BuilderBot puede volver a llamarlo desde httpServer)
+   */
+  protected initVendor(): Promise<EventEmitter> {
+    if (!this.vendorReady) this.vendorReady = this.bootstrap();
+    return this.vendorReady;
+  }
+
+  private async bootstrap(): Promise<EventEmitter> {
+    this.pruneTimer = setInterval(() => this.pruneIdleVisitors(), Math.min(this.options.visitorIdleMs, 60000));
+    this.pruneTimer.unref();
+
+    // Diferido para que BuilderBot alcance a registrar sus listeners
+    setImmediate(() => this.emit("ready", true));
+    logger.info("[WebChat] Proveedor del widget listo");
+    return this.vendor;
+  }
+
+  /**
+   * Registra una conexión del visitante y le reenvía los mensajes posteriores a lastEventId
+   * @returns Función para cerrar la conexión
+   */
+  connect(tenantId: string, visitorId: string, stream: WebChatStream, lastEventId?: number): () => void {
+    const visitor = this.getOrCreateVisitor(tenantId, visitorId);
+    visitor.streams.add(stream);
+    visitor.lastSeenAt = Date.now();
+
+    if (lastEventId !== undefined && !isNaN(lastEventId)) {
+      for (const event of visitor.history) {
+        if (event.id > lastEventId) stream.send(event);
+      }
+    }
+
+    return () => {
+      visitor.streams.delete(stream);
+      visitor.lastSeenAt = Date.now();
+    };
+  }
+
+  /**
+   * Indica si el visitante tiene alguna conexión abierta
+   */
+  isOnline(visitorId: string): boolean {
+    return (this.visitors.get(visitorId)?.streams.size || 0) > 0;
+  }
+
+  /**
+   * Recibe un mensaje del visitante (texto o botón pulsado) y lo emite hacia los flujos
+   */
+  receive(tenantId: string, visitorId: string, input: WebChatVisitorInput): WebChatIncomingMessage {
+    const visitor = this.getOrCreateVisitor(tenantId, visitorId);
+    const buttonId = typeof input.buttonId === "string" && input.buttonId.trim() ? input.buttonId.trim() : undefined;
+    const text = typeof input.text === "string" ? input.text.trim() : "";
+
+    if (!buttonId && !text) {
+      throw new WebChatProviderError("INVALID_MESSAGE", "El mensaje debe tener text o buttonId");
+    }
+    if (text.length > TEXT_MAX) {
+      throw new WebChatProviderError("INVALID_MESSAGE", `El mensaje supera los ${TEXT_MAX} caracteres`);
+    }
+
+    visitor.lastSeenAt = Date.now();
+    const incoming: WebChatIncomingMessage = {
+      from: visitorId,
+      ...(input.name ? { name: String(input.name).slice(0, 100) } : {}),
+      // El botón pulsado se emite con su texto para que el bridge lo resuelva como selección
+      body: buttonId ? visitor.choices.get(buttonId) || text || buttonId : text,
+      type: buttonId ? "button_reply" : "text",
+      messageId: randomUUID(),
+      timestamp: String(Math.floor(Date.now() / 1000)),
+      ...(buttonId ? { buttonId } : {}),
+      _metadata: { tenantId, channel: "webchat" },
+    };
+
+    this.emit("message", incoming);
+    return incoming;
+  }
+
+  async sendMessage<K = SentMessage>(userId: string, message: any, args?: any): Promise<K> {
+    const options = args?.options || {};
+    const text = typeof message === "string" ? message : message?.body || "";
+
+    if (options.media) {
+      return (await this.sendMedia(userId, options.media, text)) as K;
+    }
+    if (Array.isArray(options.buttons) && options.buttons.length > 0) {
+      return (await this.sendInteractiveButtons(userId, text, {
+        buttons: options.buttons.map((button: { body?: string; text?: string; id?: string }, index: number) => ({
+          id: button.id || String(index + 1),
+          text: button.text || button.body || String(index + 1),
+        })),
+      })) as K;
+    }
+    return (await this.sendText(userId, text)) as K;
+  }
+
+  async sendText(to: string, text: string): Promise<SentMessage> {
+    return this.push(to, { type: "text", text: text.slice(0, TEXT_MAX) });
+  }
+
+  async sendInteractiveButtons(
+    to: string,
+    text: string,
+    metadata: Pick<ButtonNodeMetadata, "buttons"> & Partial<ButtonNodeMetadata>
+  ): Promise<SentMessage> {
+    const buttons = metadata.buttons
+      .filter((button) => !button.disabled)
+      .map((button, index) => ({
+        id: button.value || button.id || String(index + 1),
+        text: button.text,
+        ...(button.url ? { url: button.url } : {}),
+      }));
+
+    this.rememberChoices(to, buttons.filter((button) => !button.url));
+    return this.push(to, {
+      type: "buttons",
+      text: text || "Selecciona una opción",
+      ...(metadata.title ? { title: metadata.title } : {}),
+      ...(metadata.subtitle ? { subtitle: metadata.subtitle } : {}),
+      ...(metadata.imageUrl ? { imageUrl: metadata.imageUrl } : {}),
+      layout: metadata.buttonLayout === "horizontal" ? "horizontal" : "vertical",
+      buttons,
+    });
+  }
+
+  async sendInteractiveList(
+    to: string,
+    text: string,
+    metadata: Pick<ListNodeMetadata, "items"> & Partial<ListNodeMetadata>
+  ): Promise<SentMessage> {
+    const enabled = metadata.items.filter((item) => !item.disabled);
+    const items = enabled.slice(0, metadata.maxItems || enabled.length).map((item, index) => ({
+      id: item.value || item.id || String(index + 1),
+      text: item.text,
+      ...(item.description ? { description: item.description } : {}),
+      ...(item.imageUrl ? { imageUrl: item.imageUrl } : {}),
+    }));
+
+    this.rememberChoices(to, items);
+    return this.push(to, {
+      type: "list",
+      text: text || metadata.description || "Selecciona una opción",
+      ...(metadata.title ? { title: metadata.title } : {}),
+      ...(metadata.buttonText ? { buttonText: metadata.buttonText } : {}),
+      items,
+    });
+  }
+
+  async sendMedia(to: string, url: string, caption?: string): Promise<SentMessage> {
+    return this.push(to, { type: "media", text: caption || "", url, mediaType: getWebChatMediaType(url) });
+  }
+
+  /**
+   * Muestra "escribiendo..." durante durationMs (o hasta el siguiente mensaje)
+   */
+  async sendTyping(to: string, durationMs: number): Promise<void> {
+    const visitor = this.visitors.get(to);
+    if (!visitor) return;
+
+    const event: WebChatStreamEvent = {
+      event: "typing",
+      data: { active: true, durationMs: Math.min(Math.max(durationMs || 0, 0), this.options.maxTypingMs) },
+    };
+    visitor.streams.forEach((stream) => stream.send(event));
+  }
+
+  /**
+   * El widget no recibe archivos de los visitantes
+   */
+  async saveFile(_ctx: any, _options?: { path: string }): Promise<string> {
+    throw new WebChatProviderError("FILE_NOT_FOUND", "El chat web no recibe archivos");
+  }
+
+  async getInstance(): Promise<this> {
+    return this;
+  }
+
+  /**
+   * Cierra las conexiones abiertas y olvida a los visitantes
+   */
+  async close(): Promise<void> {
+    if (this.pruneTimer) clearInterval(this.pruneTimer);
+    this.pruneTimer = null;
+    this.visitors.forEach((visitor) => visitor.streams.forEach((stream) => stream.close()));
+    this.visitors.clear();
+  }
+
+  /**
+   * Olvida a los visitantes sin conexiones abiertas desde hace visitorIdleMs
+   * @returns Número de visitantes eliminados
+   */
+  pruneIdleVisitors(now: number = Date.now()): number {
+    let pruned = 0;
+    this.visitors.forEach((visitor, visitorId) => {
+      if (visitor.streams.size === 0 && now - visitor.lastSeenAt >= this.options.visitorIdleMs) {
+        this.visitors.delete(visitorId);
+        pruned++;
+      }
+    });
+    return pruned;
+  }
+
+  private getOrCreateVisitor(tenantId: string, visitorId: string): WebChatVisitor {
+    const existing = this.visitors.get(visitorId);
+    if (existing) {
+      if (existing.tenantId !== tenantId) {
+        throw new WebChatProviderError("UNKNOWN_VISITOR", `El visitante ${visitorId} no pertenece al tenant ${tenantId}`);
+      }
+      return existing;
+    }
+
+    const visitor: WebChatVisitor = {
+      tenantId,
+      streams: new Set(),
+      history: [],
+      sequence: 0,
+      choices: new Map(),
+      lastSeenAt: Date.now(),
+    };
+    this.visitors.set(visitorId, visitor);
+    return visitor;
+  }
+
+  private rememberChoices(visitorId: string, choices: Array<{ id: string; text: string }>): void {
+    const visitor = this.visitors.get(visitorId);
+    if (visitor) visitor.choices = new Map(choices.map((choice) => [choice.id, choice.text]));
+  }
+
+  /**
+   * Numera el mensaje, lo guarda para reconexiones y lo entrega a las conexiones abiertas
+   */
+  private push(visitorId: string, payload: WebChatPayload): SentMessage {
+    const visitor = this.visitors.get(visitorId);
+    if (!visitor) {
+      logger.warn(`[WebChat] Mensaje descartado: el visitante ${visitorId} no está registrado`);
+      return { messageId: null };
+    }
+
+    const message: WebChatMessage = { ...payload, messageId: randomUUID(), timestamp: new Date().toISOString() };
+    const event: WebChatStreamEvent = { id: ++visitor.sequence, event: "message", data: message };
+
+    visitor.history.push(event);
+    if (visitor.history.length > this.options.historySize) {
+      visitor.history.splice(0, visitor.history.length - this.options.historySize);
+    }
+    visitor.streams.forEach((stream) => stream.send(event));
+    return { messageId: message.messageId };
+  }
+}
+
+export default WebChatProvider;
@@ -3,8 +3,9 @@
  *
  * Servicio para gestionar proveedores de WhatsApp.
  * Permite cambiar entre Baileys y Meta API fácilmente.
- * @version 1.0.0
- * @updated 2024-04-16
+ * Las instancias por tenant se gestionan en whatsappProviderPool.ts.
+ * @version 1.2.0
+ * @updated 2025-06-17
  */
 
 import { createProvider, ProviderClass } from "@builderbot/bot";
@@ -15,15 +16,27 @@ import logger from "../utils/logger";
 import path from "path";
 import fs from "fs";
 import qrImage from "qr-image"; // Importamos qr-image para generar el QR manualmente
+import { MetaCloudProvider, MetaProviderOptions } from "./metaProvider";
 
 // Tipos de proveedores soportados
 export type WhatsAppProviderType = "baileys" | "meta" | "twilio";
 
+// Credenciales de Twilio (por defecto las variables TWILIO_*)
+export interface TwilioCredentials {
+  accountSid: string;
+  authToken: string;
+  phoneNumber: string;
+  publicUrl?: string;
+  port?: number;
+}
+
 // Opciones para inicializar el proveedor
 export interface WhatsAppProviderOptions {
   name?: string;
   sessionDir?: string;
   qrPath?: string;
+  twilio?: TwilioCredentials;
+  meta?: Partial<MetaProviderOptions>;
 }
 
 // Estado global del proveedor
@@ -31,21 +44,56 @@ let activeProvider: ProviderClass | null = null;
 let activeProviderType: WhatsAppProviderType = "baileys";
 
 /**
- * Inicializa el proveedor de WhatsApp según la configuración
- * @param options Opciones adicionales
+ * Guarda el QR recibido de Baileys como PNG en qrPath
+ */
+const saveQrImage = (qrString: string, qrPath: string): void => {
+  try {
+    // Aseguramos que el directorio existe
+    const qrDir = path.dirname(qrPath);
+    if (!fs.existsSync(qrDir)) {
+      fs.mkdirSync(qrDir, { recursive: true });
+    }
+
+    // Generamos el QR como PNG
+    const qrPng = qrImage.image(qrString, { type: "png" });
+    const qrFile = fs.createWriteStream(qrPath);
+    qrPng.pipe(qrFile);
+
+    qrFile.on("error", (err) => {
+      logger.error(`Error al guardar QR manualmente: ${err}`);
+    });
+  } catch (error) {
+    logger.error(`Error al generar QR manualmente: ${error}`);
+  }
+};
+
+/**
+ * Obtiene las credenciales de Twilio de las variables de entorno
+ */
+const getTwilioCredentialsFromEnv = (): TwilioCredentials => {
+  // Debug de variables de entorno
+  logger.info(`TWILIO_ACCOUNT_SID: ${process.env.TWILIO_ACCOUNT_SID ? 'SET' : 'NOT SET'}`);
+  logger.info(`TWILIO_AUTH_TOKEN: ${process.env.TWILIO_AUTH_TOKEN ? 'SET' : 'NOT SET'}`);
+  logger.info(`TWILIO_PHONE_NUMBER: ${process.env.TWILIO_PHONE_NUMBER ? process.env.TWILIO_PHONE_NUMBER : 'NOT SET'}`);
+
+  return {
+    accountSid: process.env.TWILIO_ACCOUNT_SID || "",
+    authToken: process.env.TWILIO_AUTH_TOKEN || "",
+    phoneNumber: process.env.TWILIO_PHONE_NUMBER || "",
+  };
+};
+
+/**
+ * Crea una instancia nueva de un proveedor de WhatsApp (sin registrarla como activa).
+ * Cada instancia usa su propio directorio de sesión y su propio archivo de QR.
+ * @param providerType Tipo de proveedor
+ * @param options Opciones de la instancia
  * @returns Instancia del proveedor
  */
-export const initWhatsAppProvider = async (
+export const createWhatsAppProvider = async (
+  providerType: WhatsAppProviderType,
   options: WhatsAppProviderOptions = {}
 ): Promise<ProviderClass> => {
-  // Si ya hay un proveedor activo, lo devolvemos
-  if (activeProvider) {
-    logger.info(
-      `Usando proveedor de WhatsApp existente: ${activeProviderType}`
-    );
-    return activeProvider;
-  }
-
   // Configuramos opciones con valores por defecto
   const providerOptions = {
     name: options.name || config.whatsapp.sessionName,
@@ -53,118 +101,116 @@ export const initWhatsAppProvider = async (
     qrPath: options.qrPath || path.join(config.paths.qr, "bot.qr.png"),
   };
 
-  // Determinamos el tipo de proveedor
-  const providerType = config.whatsapp.provider as WhatsAppProviderType;
-  activeProviderType = providerType;
-
   logger.info(
     `Inicializando proveedor de WhatsApp: ${providerType}`,
     providerOptions
   );
 
-  try {
-    // Inicializamos según el tipo
-    if (providerType === "baileys") {
-      // Aseguramos que el directorio de sesiones existe
-      if (!fs.existsSync(providerOptions.sessionDir)) {
-        fs.mkdirSync(providerOptions.sessionDir, { recursive: true });
-      }
+  // Inicializamos según el tipo
+  if (providerType === "baileys") {
+    // Aseguramos que el directorio de sesiones existe
+    if (!fs.existsSync(providerOptions.sessionDir)) {
+      fs.mkdirSync(providerOptions.sessionDir, { recursive: true });
+    }
 
-      // Inicializamos Baileys
-      // Inicializamos el proveedor Baileys
-      activeProvider = createProvider(BaileysProvider, {
-        name: providerOptions.name,
-        sessionDir: providerOptions.sessionDir,
-        qrPath: providerOptions.qrPath,
-      });
-
-      // Añadir listeners de eventos y generación manual del QR
-      if (activeProvider) {
-        // Listener para el evento require_action (QR)
-        activeProvider.on("require_action", (data) => {
-          // Si recibimos un QR, lo generamos manualmente
-          if (data && data.payload && data.payload.qr) {
-            const qrString = data.payload.qr;
-
-            // Generamos y guardamos el QR manualmente
-            try {
-              const qrPath = path.join(config.paths.qr, "bot.qr.png");
-
-              // Aseguramos que el directorio existe
-              const qrDir = path.dirname(qrPath);
-              if (!fs.existsSync(qrDir)) {
-                fs.mkdirSync(qrDir, { recursive: true });
-              }
-
-              // Generamos el QR como PNG
-              const qrPng = qrImage.image(qrString, { type: "png" });
-              const qrFile = fs.createWriteStream(qrPath);
-              qrPng.pipe(qrFile);
-
-              qrFile.on("error", (err) => {
-                logger.error(`Error al guardar QR manualmente: ${err}`);
-              });
-            } catch (error) {
-              logger.error(`Error al generar QR manualmente: ${error}`);
-            }
-          }
-        });
-
-        // Otros eventos importantes
-        activeProvider.on("ready", () => {
-          logger.info("Conexión con WhatsApp establecida");
-        });
-
-        activeProvider.on("error", (err) => {
-          logger.error("Error en el proveedor de WhatsApp:", err);
-        });
-
-        activeProvider.on("auth_failure", (err) => {
-          logger.error("Fallo de autenticación en WhatsApp:", err);
-        });
+    // Inicializamos el proveedor Baileys
+    const provider = createProvider(BaileysProvider, {
+      name: providerOptions.name,
+      sessionDir: providerOptions.sessionDir,
+      qrPath: providerOptions.qrPath,
+    });
+
+    // Listener para el evento require_action (QR): lo generamos manualmente
+    provider.on("require_action", (data) => {
+      if (data && data.payload && data.payload.qr) {
+        saveQrImage(data.payload.qr, providerOptions.qrPath);
       }
+    });
 
-      return activeProvider;
-    }
+    // Otros eventos importantes
+    provider.on("ready", () => {
+      logger.info(`Conexión con WhatsApp establecida (${providerOptions.name})`);
+    });
 
-    // Twilio provider
-    else if (providerType === "twilio") {
-      logger.info("Configurando proveedor Twilio para WhatsApp");
-      
-      // Debug de variables de entorno
-      logger.info(`TWILIO_ACCOUNT_SID: ${process.env.TWILIO_ACCOUNT_SID ? 'SET' : 'NOT SET'}`);
-      logger.info(`TWILIO_AUTH_TOKEN: ${process.env.TWILIO_AUTH_TOKEN ? 'SET' : 'NOT SET'}`);
-      logger.info(`TWILIO_PHONE_NUMBER: ${process.env.TWILIO_PHONE_NUMBER ? process.env.TWILIO_PHONE_NUMBER : 'NOT SET'}`);
-      
-      if (!process.env.TWILIO_ACCOUNT_SID || !process.env.TWILIO_AUTH_TOKEN || !process.env.TWILIO_PHONE_NUMBER) {
-        throw new Error("Faltan credenciales de Twilio en las variables de entorno");
-      }
-      
-      // Para Twilio, necesitamos pasar el número sin el prefijo 'whatsapp:'
-      const twilioNumber = process.env.TWILIO_PHONE_NUMBER?.replace('whatsapp:', '') || '';
-      
-      activeProvider = createProvider(TwilioProvider, {
-        accountSid: process.env.TWILIO_ACCOUNT_SID,
-        authToken: process.env.TWILIO_AUTH_TOKEN,
-        phoneNumber: twilioNumber,
-        publicUrl: process.env.PUBLIC_URL || `http://localhost:${process.env.PORT || 3090}`,
-      });
-
-      activeProviderType = "twilio";
-      logger.info("Proveedor Twilio configurado exitosamente");
-      return activeProvider;
-    }
+    provider.on("error", (err) => {
+      logger.error(`Error en el proveedor de WhatsApp (${providerOptions.name}):`, err);
+    });
 
-    // Meta provider (implementación futura)
-    else if (providerType === "meta") {
-      // Para implementar cuando se tenga acceso a Meta API
-      throw new Error("Proveedor Meta no implementado aún");
-    }
+    provider.on("auth_failure", (err) => {
+      logger.error(`Fallo de autenticación en WhatsApp (${providerOptions.name}):`, err);
+    });
+
+    return provider;
+  }
 
-    // Proveedor desconocido
-    else {
-      throw new Error(`Tipo de proveedor desconocido: ${providerType}`);
+  // Twilio provider
+  if (providerType === "twilio") {
+    logger.info("Configurando proveedor Twilio para WhatsApp");
+
+    const credentials = options.twilio || getTwilioCredentialsFromEnv();
+    if (!credentials.accountSid || !credentials.authToken || !credentials.phoneNumber) {
+      throw new Error("Faltan credenciales de Twilio");
     }
+
+    // Para Twilio, necesitamos pasar el número sin el prefijo 'whatsapp:'
+    const provider = createProvider(TwilioProvider, {
+      accountSid: credentials.accountSid,
+      authToken: credentials.authToken,
+      phoneNumber: credentials.phoneNumber.replace('whatsapp:', ''),
+      publicUrl: credentials.publicUrl || process.env.PUBLIC_URL || `http://localhost:${process.env.PORT || 3090}`,
+      ...(credentials.port ? { port: credentials.port } : {}),
+    });
+
+    logger.info("Proveedor Twilio configurado exitosamente");
+    return provider;
+  }
+
+  // Meta provider (WhatsApp Cloud API; los mensajes llegan por el webhook de metaWebhook.ts)
+  if (providerType === "meta") {
+    logger.info("Configurando proveedor Meta Cloud API para WhatsApp");
+    return new MetaCloudProvider(options.meta);
+  }
+
+  // Proveedor desconocido
+  throw new Error(`Tipo de proveedor desconocido: ${providerType}`);
+};
+
+/**
+ * Cierra la conexión de una instancia de proveedor
+ * @param provider Instancia a cerrar
+ */
+export const shutdownWhatsAppProvider = async (provider: ProviderClass): Promise<void> => {
+  const instance = await provider.getInstance();
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  if (instance && typeof (instance as any).close === "function") {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await (instance as any).close?.();
+  }
+};
+
+/**
+ * Inicializa el proveedor de WhatsApp según la configuración
+ * @param options Opciones adicionales
+ * @returns Instancia del proveedor
+ */
+export const initWhatsAppProvider = async (
+  options: WhatsAppProviderOptions = {}
+): Promise<ProviderClass> => {
+  // Si ya hay un proveedor activo, lo devolvemos
+  if (activeProvider) {
+    logger.info(
+      `Usando proveedor de WhatsApp existente: ${activeProviderType}`
+    );
+    return activeProvider;
+  }
+
+  // Determinamos el tipo de proveedor
+  const providerType = config.whatsapp.provider as WhatsAppProviderType;
+  activeProviderType = providerType;
+
+  try {
+    activeProvider = await createWhatsAppProvider(providerType, options);
+    return activeProvider;
   } catch (error) {
     logger.error(`Error al inicializar proveedor de WhatsApp: ${error}`, error);
     throw error;
@@ -250,15 +296,7 @@ export const closeWhatsAppProvider = async (): Promise<void> => {
   logger.info(`Cerrando proveedor de WhatsApp: ${activeProviderType}`);
 
   try {
-    // Intentamos cerrar limpiamente
-    const instance = await activeProvider.getInstance(); // Usamos await directamente
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    if (instance && typeof (instance as any).close === "function") {
-      // Volvemos a 'as any' con disable
-      // Verificamos el método
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      await (instance as any).close?.(); // Volvemos a 'as any' con disable y await
-    }
+    await shutdownWhatsAppProvider(activeProvider);
 
     activeProvider = null;
     logger.info(`Proveedor de WhatsApp cerrado exitosamente`);
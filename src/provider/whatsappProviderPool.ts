@@ -0,0 +1,463 @@
+/**
+ * src/provider/whatsappProviderPool.ts
+ *
+ * Pool de proveedores de WhatsApp: cada tenant conecta su propio número
+ * (Baileys, Twilio o Meta) con su directorio de sesión y su QR aislados.
+ * El pool mantiene el índice número -> tenant para asignar los mensajes
+ * entrantes al tenant dueño del número que los recibe, y persiste el estado
+ * de cada conexión en tenant_whatsapp_numbers para reconectar al iniciar.
+ * @version 1.0.0
+ * @created 2025-06-17
+ */
+
+import fs from "fs";
+import path from "path";
+import { createBot, createFlow, MemoryDB, ProviderClass } from "@builderbot/bot";
+import { config } from "../config";
+import logger from "../utils/logger";
+import { getSupabaseAdminClient } from "../services/supabase";
+import {
+  createWhatsAppProvider,
+  shutdownWhatsAppProvider,
+  TwilioCredentials,
+  WhatsAppProviderOptions,
+  WhatsAppProviderType,
+} from "./whatsappProvider";
+import type { MetaProviderOptions } from "./metaProvider";
+
+export type WhatsAppConnectionStatus = "connecting" | "awaiting_qr" | "connected" | "disconnected" | "error";
+
+/**
+ * Número de un tenant (tabla tenant_whatsapp_numbers)
+ */
+export interface TenantWhatsAppNumber {
+  tenant_id: string;
+  provider: WhatsAppProviderType;
+  phone_number: string | null;
+  status: WhatsAppConnectionStatus;
+  credentials?: Record<string, any> | null;
+  auto_connect?: boolean;
+  last_error?: string | null;
+  connected_at?: string | null;
+  updated_at?: string;
+}
+
+/**
+ * Estado de la conexión de un tenant (respuesta de las rutas de administración)
+ */
+export interface TenantWhatsAppStatus {
+  tenantId: string;
+  provider: WhatsAppProviderType | null;
+  phoneNumber: string | null;
+  status: WhatsAppConnectionStatus;
+  qrAvailable: boolean;
+  lastError: string | null;
+  connectedAt: string | null;
+}
+
+export interface ConnectWhatsAppOptions {
+  provider?: WhatsAppProviderType;
+  phoneNumber?: string;
+  credentials?: Record<string, any>;
+}
+
+export type WhatsAppPoolErrorCode = "INVALID_PROVIDER" | "NUMBER_IN_USE" | "CONNECT_FAILED";
+
+export class WhatsAppPoolError extends Error {
+  constructor(public code: WhatsAppPoolErrorCode, message: string) {
+    super(message);
+    this.name = "WhatsAppPoolError";
+  }
+}
+
+/**
+ * Almacenamiento de los números por tenant
+ */
+export interface WhatsAppNumberStore {
+  list(): Promise<TenantWhatsAppNumber[]>;
+  get(tenantId: string): Promise<TenantWhatsAppNumber | null>;
+  save(record: TenantWhatsAppNumber): Promise<void>;
+}
+
+/**
+ * Almacenamiento en Supabase (tabla tenant_whatsapp_numbers)
+ */
+export class SupabaseWhatsAppNumberStore implements WhatsAppNumberStore {
+  async list(): Promise<TenantWhatsAppNumber[]> {
+    const { data, error } = await getSupabaseAdminClient().from("tenant_whatsapp_numbers").select("*");
+    if (error) throw new Error(`Error al obtener números de WhatsApp: ${error.message}`);
+    return (data || []) as TenantWhatsAppNumber[];
+  }
+
+  async get(tenantId: string): Promise<TenantWhatsAppNumber | null> {
+    const { data, error } = await getSupabaseAdminClient()
+      .from("tenant_whatsapp_numbers")
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .maybeSingle();
+    if (error) throw new Error(`Error al obtener el número de WhatsApp del tenant ${tenantId}: ${error.message}`);
+    return (data as TenantWhatsAppNumber) || null;
+  }
+
+  async save(record: TenantWhatsAppNumber): Promise<void> {
+    const { error } = await getSupabaseAdminClient()
+      .from("tenant_whatsapp_numbers")
+      .upsert({ ...record, updated_at: new Date().toISOString() }, { onConflict: "tenant_id" });
+    if (error) throw new Error(`Error al guardar el número de WhatsApp del tenant ${record.tenant_id}: ${error.message}`);
+  }
+}
+
+/**
+ * Almacenamiento en memoria (pruebas o sin Supabase)
+ */
+export class MemoryWhatsAppNumberStore implements WhatsAppNumberStore {
+  records = new Map<string, TenantWhatsAppNumber>();
+
+  async list(): Promise<TenantWhatsAppNumber[]> {
+    return Array.from(this.records.values());
+  }
+
+  async get(tenantId: string): Promise<TenantWhatsAppNumber | null> {
+    return this.records.get(tenantId) || null;
+  }
+
+  async save(record: TenantWhatsAppNumber): Promise<void> {
+    this.records.set(record.tenant_id, { ...record, updated_at: new Date().toISOString() });
+  }
+}
+
+/**
+ * Servicios que usa el pool (inyectables para pruebas)
+ */
+export interface WhatsAppPoolDependencies {
+  createProvider(type: WhatsAppProviderType, options: WhatsAppProviderOptions): Promise<ProviderClass>;
+  startBot(tenantId: string, provider: ProviderClass, credentials?: Record<string, any> | null): Promise<void>;
+  shutdownProvider(provider: ProviderClass): Promise<void>;
+}
+
+export interface WhatsAppPoolOptions {
+  sessionsDir: string;
+  qrDir: string;
+}
+
+interface TenantConnection {
+  record: TenantWhatsAppNumber;
+  provider: ProviderClass;
+}
+
+const PROVIDER_TYPES: WhatsAppProviderType[] = ["baileys", "twilio", "meta"];
+
+/**
+ * Normaliza un número de WhatsApp a solo dígitos
+ * (admite "whatsapp:+52...", "521...:12@s.whatsapp.net", etc.)
+ */
+export function normalizeWhatsAppNumber(value?: string | null): string | null {
+  if (!value) return null;
+  const digits = String(value).replace(/^whatsapp:/i, "").split(/[:@]/)[0].replace(/\D/g, "");
+  return digits || null;
+}
+
+/**
+ * Crea el bot de BuilderBot de un tenant con los flujos del bridge
+ */
+async function startTenantBot(tenantId: string, provider: ProviderClass, credentials?: Record<string, any> | null): Promise<void> {
+  const { WhatsAppFlowBridge } = await import("../services/whatsappFlowBridge");
+  const { MessageDeliveryService } = await import("../services/messageDelivery");
+  const flowBridge = WhatsAppFlowBridge.getInstance();
+
+  // Estados de entrega de los mensajes enviados por el número del tenant
+  MessageDeliveryService.getInstance().trackProvider(provider);
+
+  const botInstance = await createBot({
+    flow: createFlow([flowBridge.createAppointmentReplyFlow(), flowBridge.createMainWhatsAppFlow()]),
+    provider,
+    database: new MemoryDB(),
+  });
+
+  // Los proveedores por webhook (Twilio) necesitan su propio puerto por tenant
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  if (credentials?.port && typeof (botInstance as any)?.httpServer === "function") {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (botInstance as any).httpServer(Number(credentials.port));
+  }
+
+  logger.info(`Bot de WhatsApp iniciado para tenant ${tenantId}`);
+}
+
+const defaultDependencies: WhatsAppPoolDependencies = {
+  createProvider: createWhatsAppProvider,
+  startBot: startTenantBot,
+  shutdownProvider: shutdownWhatsAppProvider,
+};
+
+export class WhatsAppProviderPool {
+  private static instance: WhatsAppProviderPool;
+  private connections = new Map<string, TenantConnection>();
+  // Número normalizado -> tenant dueño
+  private numbers = new Map<string, string>();
+
+  constructor(
+    private store: WhatsAppNumberStore,
+    private deps: WhatsAppPoolDependencies = defaultDependencies,
+    private options: WhatsAppPoolOptions = config.whatsapp.pool
+  ) {}
+
+  static getInstance(): WhatsAppProviderPool {
+    if (!WhatsAppProviderPool.instance) {
+      const store = config.supabase.enabled ? new SupabaseWhatsAppNumberStore() : new MemoryWhatsAppNumberStore();
+      WhatsAppProviderPool.instance = new WhatsAppProviderPool(store);
+    }
+    return WhatsAppProviderPool.instance;
+  }
+
+  getSessionDir(tenantId: string): string {
+    return path.join(this.options.sessionsDir, tenantId);
+  }
+
+  getQrPath(tenantId: string): string {
+    return path.join(this.options.qrDir, `${tenantId}.qr.png`);
+  }
+
+  /**
+   * Tenant dueño del número que recibe un mensaje (null si no está conectado en el pool)
+   */
+  resolveTenantByNumber(phoneNumber?: string | null): string | null {
+    const normalized = normalizeWhatsAppNumber(phoneNumber);
+    return (normalized && this.numbers.get(normalized)) || null;
+  }
+
+  /**
+   * Proveedor conectado de un tenant (null si el tenant no tiene número en el pool)
+   */
+  getProvider(tenantId: string): ProviderClass | null {
+    return this.connections.get(tenantId)?.provider || null;
+  }
+
+  /**
+   * Conecta el número de un tenant. Si ya está conectado devuelve su estado.
+   */
+  async connect(tenantId: string, options: ConnectWhatsAppOptions = {}): Promise<TenantWhatsAppStatus> {
+    const existing = this.connections.get(tenantId);
+    if (existing) return this.toStatus(existing.record);
+
+    const saved = await this.store.get(tenantId);
+    const providerType = options.provider || saved?.provider || (config.whatsapp.provider as WhatsAppProviderType);
+    if (!PROVIDER_TYPES.includes(providerType)) {
+      throw new WhatsAppPoolError("INVALID_PROVIDER", `Tipo de proveedor desconocido: ${providerType}`);
+    }
+
+    const credentials = options.credentials || saved?.credentials || null;
+    const phoneNumber = normalizeWhatsAppNumber(
+      options.phoneNumber || (credentials as TwilioCredentials | null)?.phoneNumber || saved?.phone_number
+    );
+    this.assertNumberAvailable(tenantId, phoneNumber);
+
+    const record: TenantWhatsAppNumber = {
+      tenant_id: tenantId,
+      provider: providerType,
+      phone_number: phoneNumber,
+      status: "connecting",
+      credentials,
+      auto_connect: true,
+      last_error: null,
+      connected_at: null,
+    };
+
+    let provider: ProviderClass;
+    try {
+      provider = await this.deps.createProvider(providerType, {
+        name: `tenant-${tenantId}`,
+        sessionDir: this.getSessionDir(tenantId),
+        qrPath: this.getQrPath(tenantId),
+        twilio: providerType === "twilio" ? (credentials as TwilioCredentials) || undefined : undefined,
+        meta: providerType === "meta" ? (credentials as Partial<MetaProviderOptions>) || undefined : undefined,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.persist({ ...record, status: "error", last_error: message });
+      throw new WhatsAppPoolError("CONNECT_FAILED", `No se pudo conectar WhatsApp del tenant ${tenantId}: ${message}`);
+    }
+
+    const connection: TenantConnection = { record, provider };
+    this.connections.set(tenantId, connection);
+    if (phoneNumber) this.numbers.set(phoneNumber, tenantId);
+    this.attachListeners(connection);
+
+    try {
+      await this.deps.startBot(tenantId, provider, credentials);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.release(tenantId);
+      await this.persist({ ...record, status: "error", last_error: message });
+      throw new WhatsAppPoolError("CONNECT_FAILED", `No se pudo iniciar el bot del tenant ${tenantId}: ${message}`);
+    }
+
+    await this.persist(record);
+    logger.info(`WhatsApp del tenant ${tenantId} conectándose con ${providerType}${phoneNumber ? ` (${phoneNumber})` : ""}`);
+    return this.toStatus(record);
+  }
+
+  /**
+   * Desconecta el número de un tenant
+   * @param logout true para borrar la sesión y el QR (obliga a vincular de nuevo)
+   */
+  async disconnect(tenantId: string, logout = false): Promise<TenantWhatsAppStatus> {
+    const connection = this.connections.get(tenantId);
+    const record = connection?.record || (await this.store.get(tenantId));
+    if (!record) return this.toStatus(null, tenantId);
+
+    await this.release(tenantId);
+
+    if (logout) {
+      fs.rmSync(this.getSessionDir(tenantId), { recursive: true, force: true });
+      fs.rmSync(this.getQrPath(tenantId), { force: true });
+    }
+
+    const updated: TenantWhatsAppNumber = {
+      ...record,
+      status: "disconnected",
+      auto_connect: false,
+      connected_at: null,
+      // Baileys vuelve a conocer el número al vincular el QR
+      phone_number: logout && record.provider === "baileys" ? null : record.phone_number,
+    };
+    await this.persist(updated);
+    logger.info(`WhatsApp del tenant ${tenantId} desconectado${logout ? " (sesión eliminada)" : ""}`);
+    return this.toStatus(updated);
+  }
+
+  async getStatus(tenantId: string): Promise<TenantWhatsAppStatus> {
+    const record = this.connections.get(tenantId)?.record || (await this.store.get(tenantId));
+    return this.toStatus(record, tenantId);
+  }
+
+  async listStatuses(): Promise<TenantWhatsAppStatus[]> {
+    const records = new Map((await this.store.list()).map((record) => [record.tenant_id, record]));
+    this.connections.forEach((connection, tenantId) => records.set(tenantId, connection.record));
+    return Array.from(records.values()).map((record) => this.toStatus(record));
+  }
+
+  /**
+   * Reconecta los números guardados con auto_connect
+   * @returns Cantidad de tenants reconectados
+   */
+  async restore(): Promise<number> {
+    const records = (await this.store.list()).filter((record) => record.auto_connect !== false);
+    let restored = 0;
+
+    for (const record of records) {
+      try {
+        await this.connect(record.tenant_id);
+        restored++;
+      } catch (error) {
+        logger.error(`No se pudo reconectar WhatsApp del tenant ${record.tenant_id}:`, error);
+      }
+    }
+    return restored;
+  }
+
+  /**
+   * Cierra todas las conexiones sin cambiar auto_connect (apagado del servidor)
+   */
+  async closeAll(): Promise<void> {
+    await Promise.all(Array.from(this.connections.keys()).map((tenantId) => this.release(tenantId)));
+  }
+
+  private assertNumberAvailable(tenantId: string, phoneNumber: string | null): void {
+    const owner = phoneNumber ? this.numbers.get(phoneNumber) : null;
+    if (owner && owner !== tenantId) {
+      throw new WhatsAppPoolError("NUMBER_IN_USE", `El número ${phoneNumber} ya está conectado por otro tenant`);
+    }
+  }
+
+  private attachListeners(connection: TenantConnection): void {
+    const { provider, record } = connection;
+    const tenantId = record.tenant_id;
+    const isCurrent = () => this.connections.get(tenantId) === connection;
+
+    provider.on("require_action", () => {
+      if (!isCurrent()) return;
+      record.status = "awaiting_qr";
+      void this.persist(record);
+    });
+
+    provider.on("ready", () => {
+      if (!isCurrent()) return;
+      record.status = "connected";
+      record.connected_at = new Date().toISOString();
+      record.last_error = null;
+      void this.persist(record);
+    });
+
+    // Baileys informa el número vinculado al conectarse
+    provider.on("host", (payload: { phone?: string }) => {
+      if (!isCurrent()) return;
+      const phoneNumber = normalizeWhatsAppNumber(payload?.phone);
+      if (!phoneNumber || phoneNumber === record.phone_number) return;
+
+      try {
+        this.assertNumberAvailable(tenantId, phoneNumber);
+      } catch (error) {
+        logger.error(`WhatsApp del tenant ${tenantId}: ${(error as Error).message}`);
+        record.status = "error";
+        record.last_error = (error as Error).message;
+        void this.persist(record);
+        return;
+      }
+
+      if (record.phone_number) this.numbers.delete(record.phone_number);
+      record.phone_number = phoneNumber;
+      this.numbers.set(phoneNumber, tenantId);
+      void this.persist(record);
+    });
+
+    provider.on("auth_failure", (error: unknown) => {
+      if (!isCurrent()) return;
+      record.status = "error";
+      record.last_error = `Fallo de autenticación: ${error instanceof Error ? error.message : JSON.stringify(error)}`;
+      void this.persist(record);
+    });
+  }
+
+  /**
+   * Cierra el proveedor del tenant y lo quita de los índices
+   */
+  private async release(tenantId: string): Promise<void> {
+    const connection = this.connections.get(tenantId);
+    if (!connection) return;
+
+    this.connections.delete(tenantId);
+    if (connection.record.phone_number && this.numbers.get(connection.record.phone_number) === tenantId) {
+      this.numbers.delete(connection.record.phone_number);
+    }
+
+    try {
+      await this.deps.shutdownProvider(connection.provider);
+    } catch (error) {
+      logger.warn(`Error al cerrar WhatsApp del tenant ${tenantId}: ${error}`);
+    }
+  }
+
+  private async persist(record: TenantWhatsAppNumber): Promise<void> {
+    try {
+      await this.store.save({ ...record });
+    } catch (error) {
+      logger.error(`Error al guardar el estado de WhatsApp del tenant ${record.tenant_id}:`, error);
+    }
+  }
+
+  private toStatus(record: TenantWhatsAppNumber | null, tenantId?: string): TenantWhatsAppStatus {
+    const id = record?.tenant_id || tenantId || "";
+    return {
+      tenantId: id,
+      provider: record?.provider || null,
+      phoneNumber: record?.phone_number || null,
+      status: record?.status || "disconnected",
+      qrAvailable: record?.status === "awaiting_qr" && fs.existsSync(this.getQrPath(id)),
+      lastError: record?.last_error || null,
+      connectedAt: record?.connected_at || null,
+    };
+  }
+}
+
+export default WhatsAppProviderPool;
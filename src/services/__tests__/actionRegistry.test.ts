@@ -0,0 +1,311 @@
+/**
+ * TESTS PARA EL REGISTRO DE ACCIONES
+ *
+ * PROPÓSITO: Verificar la ejecución de acciones desde nodos ACTION
+ * CUBRE: Acciones integradas, acciones por tenant (registro y prioridad),
+ *        interpolación de parámetros, escritura de resultVariable / contextUpdates
+ *        ruteo al fallbackNodeId o al siguiente nodo genérico cuando la acción falla
+ *        y rechazo de rutas locales en send_media; acciones guardadas en tenant_actions
+ *        (webhook y preset) y su recarga tras un fallo
+ *
+ * @version 1.0.1
+ * @created 2025-06-17
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+
+jest.mock('../supabase', () => {
+  const actual = jest.requireActual('../supabase') as any;
+  return { ...actual, getSupabaseAdminClient: jest.fn() };
+});
+
+jest.mock('../apiCallService', () => {
+  const actual = jest.requireActual('../apiCallService') as any;
+  return { ...actual, executeApiCall: jest.fn() };
+});
+
+jest.mock('../providerService', () => ({
+  sendMedia: jest.fn(),
+}));
+
+jest.mock('../salesFunnelService', () => {
+  const actual = jest.requireActual('../salesFunnelService') as any;
+  return {
+    ...actual,
+    updateLeadStage: jest.fn(),
+  };
+});
+
+jest.mock('../auditService', () => {
+  const actual = jest.requireActual('../auditService') as any;
+  return {
+    ...actual,
+    logAuditAction: jest.fn(),
+  };
+});
+
+import * as providerService from '../providerService';
+import * as salesFunnelService from '../salesFunnelService';
+import * as auditService from '../auditService';
+import { getSupabaseAdminClient } from '../supabase';
+import { executeApiCall } from '../apiCallService';
+import { config } from '../../config';
+import {
+  executeAction,
+  registerTenantAction,
+  unregisterTenantAction,
+  listActions,
+  saveTenantAction,
+  ActionContext,
+  ActionRegistryError,
+} from '../actionRegistry';
+import { processActionNode } from '../flowProcessor';
+import { FlowNode, NodeType, RuntimeFlow } from '../../models/flow.types';
+import { ExtendedFlowState } from '../../models/extendedFlow.types';
+
+const sendMediaMock = providerService.sendMedia as jest.MockedFunction<typeof providerService.sendMedia>;
+const updateLeadStageMock = salesFunnelService.updateLeadStage as jest.MockedFunction<typeof salesFunnelService.updateLeadStage>;
+const logAuditMock = auditService.logAuditAction as jest.MockedFunction<typeof auditService.logAuditAction>;
+
+const TENANT = 'tenant-1';
+
+function createState(context: Record<string, any> = {}): ExtendedFlowState {
+  return {
+    flowId: 'flow-1',
+    currentNodeId: 'accion',
+    context,
+    history: [],
+    startedAt: new Date(),
+    lastUpdatedAt: new Date(),
+    userId: '5215511112222',
+    sessionId: 'session-1',
+    tenantId: TENANT,
+  };
+}
+
+function createContext(state: ExtendedFlowState): ActionContext {
+  return { node: { id: 'accion', type: NodeType.ACTION }, state, tenantId: TENANT };
+}
+
+describe('Registro de acciones', () => {
+  beforeEach(() => {
+    sendMediaMock.mockReset();
+    updateLeadStageMock.mockReset();
+    logAuditMock.mockReset();
+  });
+
+  afterEach(() => {
+    unregisterTenantAction(TENANT, 'set_variable');
+    unregisterTenantAction(TENANT, 'consultar_crm');
+  });
+
+  describe('Acciones integradas', () => {
+    it('debe asignar variables e incrementar contadores', async () => {
+      const state = createState({ visitas: 2 });
+
+      expect(await executeAction({ actionType: 'Set Variable', parameters: { variable: 'plan', value: 'pro' } }, createContext(state)))
+        .toEqual({ success: true, output: 'pro', contextUpdates: { plan: 'pro' } });
+      expect(await executeAction({ actionType: 'increment-counter', parameters: { variable: 'visitas', amount: 3 } }, createContext(state)))
+        .toEqual({ success: true, output: 5, contextUpdates: { visitas: 5 } });
+      expect((await executeAction({ actionType: 'set_variable', parameters: {} }, createContext(state))).success).toBe(false);
+    });
+
+    it('debe mover el lead de etapa, enviar medios y registrar auditoría', async () => {
+      const state = createState({ leadId: 'lead-1', phone: '5215599998888' });
+      updateLeadStageMock.mockResolvedValue(true);
+      sendMediaMock.mockResolvedValue(true);
+      logAuditMock.mockResolvedValue(true);
+
+      expect(await executeAction({ actionType: 'update_lead_stage', parameters: { stage: 'calificado' } }, createContext(state)))
+        .toMatchObject({ success: true, contextUpdates: { currentLeadStage: 'calificado' } });
+      expect(updateLeadStageMock).toHaveBeenCalledWith('lead-1', 'calificado', TENANT);
+
+      await executeAction({ actionType: 'send_media', parameters: { mediaUrl: 'https://cdn.example.com/menu.pdf', caption: 'Menú' } }, createContext(state));
+      expect(sendMediaMock).toHaveBeenCalledWith('5215599998888', 'https://cdn.example.com/menu.pdf', 'Menú', TENANT);
+
+      await executeAction({ actionType: 'log_audit_event', parameters: { event: 'cotizacion' } }, createContext(state));
+      expect(logAuditMock).toHaveBeenCalledWith(expect.objectContaining({
+        action: auditService.AuditActionType.FLOW_ACTION,
+        tenantId: TENANT,
+        details: expect.objectContaining({ event: 'cotizacion', nodeId: 'accion' }),
+      }));
+    });
+
+    it('debe reportar el fallo de una acción integrada sin lanzar excepción', async () => {
+      sendMediaMock.mockRejectedValue(new Error('proveedor caído'));
+
+      expect(await executeAction({ actionType: 'send_media', parameters: { mediaUrl: 'https://cdn.example.com/a.jpg' } }, createContext(createState())))
+        .toEqual({ success: false, error: 'proveedor caído' });
+      expect(await executeAction({ actionType: 'no_existe' }, createContext(createState())))
+        .toEqual({ success: false, error: 'Acción desconocida: no_existe' });
+    });
+
+    it('debe rechazar rutas locales en send_media aunque vengan de una variable', async () => {
+      const state = createState({ archivo: '/app/.env' });
+
+      expect(await executeAction({ actionType: 'send_media', parameters: { mediaUrl: '{{archivo}}' } }, createContext(state)))
+        .toEqual({ success: false, error: 'send_media solo acepta URLs http(s)' });
+      expect(sendMediaMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Acciones por tenant', () => {
+    it('debe registrar acciones propias y darles prioridad sobre las integradas', async () => {
+      registerTenantAction(TENANT, 'consultarCrm', async (parameters) => ({ success: true, output: `cliente ${parameters.id}` }));
+      registerTenantAction(TENANT, 'set_variable', async () => ({ success: true, output: 'del tenant' }));
+
+      expect(listActions(TENANT)).toContain('consultar_crm');
+      expect(listActions('otro-tenant')).not.toContain('consultar_crm');
+
+      const state = createState();
+      expect((await executeAction({ actionType: 'consultar_crm', parameters: { id: 7 } }, createContext(state))).output).toBe('cliente 7');
+      expect((await executeAction({ actionType: 'set_variable', parameters: { variable: 'x', value: 1 } }, createContext(state))).output).toBe('del tenant');
+
+      unregisterTenantAction(TENANT, 'set_variable');
+      expect((await executeAction({ actionType: 'set_variable', parameters: { variable: 'x', value: 1 } }, createContext(state))).output).toBe(1);
+    });
+
+    it('debe interpolar los parámetros conservando el tipo de las variables completas', async () => {
+      const received: Record<string, any>[] = [];
+      registerTenantAction(TENANT, 'consultar_crm', async (parameters) => {
+        received.push(parameters);
+        return { success: true };
+      });
+
+      const state = createState({ nombre: 'Ana', cliente: { id: 42 } });
+      await executeAction({
+        actionType: 'consultar_crm',
+        parameters: { saludo: 'Hola {{nombre}}', id: '{{cliente.id}}', filtros: { nombre: '{{nombre}}' }, limite: 5 },
+      }, createContext(state));
+
+      expect(received[0]).toEqual({ saludo: 'Hola Ana', id: 42, filtros: { nombre: 'Ana' }, limite: 5 });
+    });
+  });
+
+  describe('Acciones guardadas en tenant_actions', () => {
+    const STORED_TENANT = 'tenant-db';
+    const storedContext = (state: ExtendedFlowState): ActionContext => ({ ...createContext(state), tenantId: STORED_TENANT });
+    let enabled: boolean;
+
+    beforeEach(() => {
+      enabled = config.supabase.enabled;
+      config.supabase.enabled = true;
+    });
+
+    afterEach(() => {
+      config.supabase.enabled = enabled;
+      (getSupabaseAdminClient as jest.Mock).mockReset();
+    });
+
+    it('debe cargar webhooks y presets del tenant y reintentar tras un fallo', async () => {
+      const results: any[] = [
+        { data: null, error: { message: 'timeout' } },
+        {
+          data: [
+            { action_type: 'consultar_crm', kind: 'webhook', config: { url: 'https://crm.example.com/clientes', method: 'POST', responsePath: 'nombre' } },
+            { action_type: 'marcar_vip', kind: 'preset', config: { action: 'set_variable', parameters: { variable: 'vip', value: true } } },
+          ],
+          error: null,
+        },
+      ];
+      const enabledFilter = jest.fn(async () => results.shift());
+      (getSupabaseAdminClient as jest.Mock).mockReturnValue({
+        from: () => ({ select: () => ({ eq: () => ({ eq: enabledFilter }) }) }),
+      });
+      (executeApiCall as jest.Mock).mockResolvedValue({ success: true, value: 'Ana', attempts: 1, durationMs: 5 } as never);
+
+      const state = createState({ telefono: '5215511112222' });
+      expect(await executeAction({ actionType: 'consultar_crm' }, storedContext(state)))
+        .toEqual({ success: false, error: 'Acción desconocida: consultar_crm' });
+
+      expect(await executeAction({ actionType: 'consultar_crm', parameters: { telefono: '{{telefono}}' } }, storedContext(state)))
+        .toEqual({ success: true, output: 'Ana' });
+      expect(executeApiCall).toHaveBeenCalledWith(
+        expect.objectContaining({ url: 'https://crm.example.com/clientes', body: '{{parameters}}' }),
+        expect.objectContaining({ parameters: { telefono: '5215511112222' } })
+      );
+
+      expect(await executeAction({ actionType: 'Marcar VIP' }, storedContext(state)))
+        .toEqual({ success: true, output: true, contextUpdates: { vip: true } });
+      expect(listActions(STORED_TENANT)).toEqual(expect.arrayContaining(['consultar_crm', 'marcar_vip']));
+      expect(listActions(TENANT)).not.toContain('marcar_vip');
+      expect(enabledFilter).toHaveBeenCalledTimes(2);
+    });
+
+    it('debe rechazar acciones guardadas inválidas', async () => {
+      await expect(saveTenantAction(STORED_TENANT, { action_type: 'crm', kind: 'webhook', config: {} }))
+        .rejects.toBeInstanceOf(ActionRegistryError);
+      await expect(saveTenantAction(STORED_TENANT, { action_type: 'crm', kind: 'preset', config: { action: 'no_existe' } }))
+        .rejects.toMatchObject({ code: 'INVALID_INPUT' });
+    });
+  });
+
+  describe('processActionNode', () => {
+    const buildFlow = (action: FlowNode): RuntimeFlow => ({
+      id: 'flow-1',
+      name: 'Acciones',
+      version: '1',
+      entryNodeId: 'accion',
+      tenantId: TENANT,
+      nodes: {
+        accion: action,
+        siguiente: { id: 'siguiente', type: NodeType.MESSAGE, content: 'Listo' },
+        respaldo: { id: 'respaldo', type: NodeType.MESSAGE, content: 'Algo falló' },
+      },
+    });
+
+    it('debe guardar resultVariable y contextUpdates y avanzar al siguiente nodo', async () => {
+      const node: FlowNode = {
+        id: 'accion',
+        type: NodeType.ACTION,
+        next: 'siguiente',
+        metadata: { actionType: 'increment_counter', parameters: { variable: 'intentos' }, resultVariable: 'total' },
+      };
+      const state = createState({ intentos: 1 });
+
+      await processActionNode(node, buildFlow(node), state);
+
+      expect(state.context).toMatchObject({
+        intentos: 2,
+        total: 2,
+        lastActionResult: { actionType: 'increment_counter', success: true },
+      });
+      expect(state.currentNodeId).toBe('siguiente');
+    });
+
+    it('debe ir al fallbackNodeId cuando la acción falla', async () => {
+      const node: FlowNode = {
+        id: 'accion',
+        type: NodeType.ACTION,
+        next: 'siguiente',
+        metadata: { actionType: 'update_lead_stage', parameters: { stage: 'ganado' }, resultVariable: 'etapa', fallbackNodeId: 'respaldo' },
+      };
+      const state = createState();
+
+      await processActionNode(node, buildFlow(node), state);
+
+      expect(state.currentNodeId).toBe('respaldo');
+      expect(state.context.etapa).toBeUndefined();
+      expect(state.context.lastActionResult).toEqual({
+        actionType: 'update_lead_stage',
+        success: false,
+        error: 'No hay lead asociado a la sesión',
+      });
+    });
+
+    it('debe seguir al siguiente nodo genérico cuando la acción falla sin fallbackNodeId', async () => {
+      const node: FlowNode = {
+        id: 'accion',
+        type: NodeType.ACTION,
+        next: 'siguiente',
+        metadata: { actionType: 'no_existe' },
+      };
+      const state = createState();
+
+      await processActionNode(node, buildFlow(node), state);
+
+      expect(state.currentNodeId).toBe('siguiente');
+      expect(state.context.lastActionResult).toMatchObject({ success: false, error: 'Acción desconocida: no_existe' });
+    });
+  });
+});
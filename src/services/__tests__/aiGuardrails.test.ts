@@ -0,0 +1,104 @@
+/**
+ * TESTS PARA LAS VALIDACIONES DE RESPUESTAS DE IA
+ *
+ * PROPÓSITO: Verificar que las respuestas generadas se revisen antes de enviarse
+ * CUBRE: Datos de contacto ajenos a la conversación, temas prohibidos por tenant,
+ *        precios contra propiedades y productos, longitud máxima y auditoría de bloqueos
+ *        sin datos de contacto en claro
+ *
+ * @version 1.0.1
+ * @created 2025-06-16
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+jest.mock('../propertyService', () => ({
+  getPropertiesByTenant: jest.fn(),
+}));
+
+jest.mock('../productsService', () => ({
+  getProductDetailsForChatbot: jest.fn(),
+}));
+
+jest.mock('../auditService', () => ({
+  logAuditAction: jest.fn(),
+  AuditActionType: { AI_RESPONSE_BLOCKED: 'ai_response_blocked' },
+}));
+
+import * as propertyService from '../propertyService';
+import * as productsService from '../productsService';
+import * as auditService from '../auditService';
+import { applyGuardrails, truncateResponse } from '../aiGuardrails';
+
+const mocked = (fn: any) => fn as jest.Mock<any>;
+
+function createState(context: Record<string, any> = {}): any {
+  return { flowId: 'f1', currentNodeId: 'ai', context, history: [], startedAt: new Date(), lastUpdatedAt: new Date(), userId: '5213311112222', sessionId: 's1' };
+}
+
+const TENANT = { tenant_id: 't1', forbidden_topics: ['política', 'crédito garantizado'] };
+
+describe('Validaciones de respuestas de IA', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mocked(auditService.logAuditAction).mockResolvedValue(true);
+    mocked(propertyService.getPropertiesByTenant).mockResolvedValue([
+      { id: 'p1', name: 'Casa Jardines', type: 'Casa', price: 1850000, status: 'disponible', tenant_id: 't1' },
+      { id: 'example-t1-0', name: 'Casa de ejemplo', type: 'Casa', price: 1000000, status: 'disponible', tenant_id: 't1' },
+    ]);
+    mocked(productsService.getProductDetailsForChatbot).mockResolvedValue([{ name: 'Avalúo', price: 3500 }]);
+  });
+
+  it('debe bloquear datos de contacto que no pertenecen a la conversación y auditarlo', async () => {
+    const state = createState({ email: 'ana@x.com' });
+
+    const own = await applyGuardrails('Te enviamos la ficha a ana@x.com y te marcamos al 33 1111 2222.', { tenantId: 't1', state }, TENANT);
+    expect(own.allowed).toBe(true);
+
+    const leaked = await applyGuardrails(
+      'Otro cliente, luis@correo.com (33 9876 5432), ya apartó esa casa.',
+      { tenantId: 't1', state, node: { id: 'ai', type: 'ai', content: '', metadata: { guardrailFallback: 'Un asesor te atenderá.' } } },
+      TENANT
+    );
+
+    expect(leaked.allowed).toBe(false);
+    expect(leaked.response).toBe('Un asesor te atenderá.');
+    expect(leaked.violations[0]).toMatchObject({ check: 'pii', details: { values: ['l***@correo.com', '***5432'] } });
+
+    const audit = mocked(auditService.logAuditAction).mock.calls[0][0];
+    expect(audit).toMatchObject({ action: 'ai_response_blocked', tenantId: 't1', resourceId: 'f1', details: { nodeId: 'ai', sessionId: 's1' } });
+    expect(audit.details.response).toBe('Otro cliente, l***@correo.com (***5432), ya apartó esa casa.');
+  });
+
+  it('debe bloquear los temas prohibidos del tenant', async () => {
+    const result = await applyGuardrails('Con nosotros tienes Crédito Garantizado.', { tenantId: 't1', state: createState() }, TENANT);
+
+    expect(result.allowed).toBe(false);
+    expect(result.violations[0].details).toEqual({ topics: ['crédito garantizado'] });
+  });
+
+  it('debe verificar los precios contra propiedades, productos y lo dicho por el usuario', async () => {
+    const context = { tenantId: 't1', state: createState(), sourceText: 'Busco algo de hasta 2 millones' };
+
+    expect((await applyGuardrails('Casa Jardines cuesta $1,850,000 y el avalúo $3,500.', context, TENANT)).allowed).toBe(true);
+    expect((await applyGuardrails('Con tu presupuesto de 2 millones hay opciones.', context, TENANT)).allowed).toBe(true);
+
+    const invented = await applyGuardrails('La casa de ejemplo cuesta $1,000,000.', context, TENANT);
+    expect(invented.allowed).toBe(false);
+    expect(invented.violations[0]).toMatchObject({ check: 'prices', details: { prices: ['$1,000,000'] } });
+
+    const unchecked = await applyGuardrails('Cuesta $1,000,000.', context, { ...TENANT, verify_prices: false });
+    expect(unchecked.allowed).toBe(true);
+  });
+
+  it('debe recortar respuestas largas al final de una oración', async () => {
+    const text = 'Primera oración completa. Segunda oración que no cabe en el límite.';
+
+    expect(truncateResponse(text, 40)).toBe('Primera oración completa.');
+    expect(truncateResponse('palabra '.repeat(10).trim(), 20)).toBe('palabra palabra…');
+
+    const result = await applyGuardrails(text, { tenantId: 't1', state: createState() }, { ...TENANT, max_response_length: 40 });
+    expect(result).toMatchObject({ allowed: true, truncated: true, response: 'Primera oración completa.' });
+    expect(auditService.logAuditAction).not.toHaveBeenCalled();
+  });
+});
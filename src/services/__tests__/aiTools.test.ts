@@ -0,0 +1,186 @@
+/**
+ * TESTS PARA LAS HERRAMIENTAS DE IA (FUNCTION CALLING)
+ *
+ * PROPÓSITO: Verificar que el modelo pueda consultar datos reales y guardar datos capturados
+ * CUBRE: Filtros de search_properties, check_availability con siguiente fecha,
+ *        update_lead_fields (variables y lead) y el ciclo de herramientas con el proveedor programado
+ *
+ * @version 1.0.0
+ * @created 2025-06-15
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+jest.mock('../propertyService', () => ({
+  getPropertiesByTenant: jest.fn(),
+}));
+
+jest.mock('../productsService', () => ({
+  getProductsForChatbot: jest.fn(),
+}));
+
+jest.mock('../appointmentService', () => ({
+  getAvailability: jest.fn(),
+  findNextAvailability: jest.fn(),
+}));
+
+jest.mock('../leads/updateLeadData', () => ({
+  updateLeadData: jest.fn(),
+}));
+
+import * as propertyService from '../propertyService';
+import * as productsService from '../productsService';
+import * as appointmentService from '../appointmentService';
+import * as leadData from '../leads/updateLeadData';
+import { completeWithTools, executeAIToolCall, getAIToolDefinitions } from '../aiTools';
+import { ScriptedLLMProvider } from '../llm';
+
+const mocked = (fn: any) => fn as jest.Mock<any>;
+
+const PROPERTIES = [
+  { id: 'p1', name: 'Casa Jardines', type: 'Casa', price: 1850000, city: 'Zapopan', bedrooms: 3, status: 'disponible', tenant_id: 't1' },
+  { id: 'p2', name: 'Casa Real', type: 'Casa', price: 2600000, city: 'Zapopan', bedrooms: 4, status: 'disponible', tenant_id: 't1' },
+  { id: 'p3', name: 'Depto Centro', type: 'Apartamento', price: 1500000, city: 'Guadalajara', bedrooms: 2, status: 'disponible', tenant_id: 't1' },
+  { id: 'p4', name: 'Casa Bosque', type: 'casa', price: 1950000, city: 'Zapopan', bedrooms: 2, status: 'disponible', tenant_id: 't1' },
+  { id: 'example-t1-0', name: 'Casa de ejemplo', type: 'Casa', price: 1000000, city: 'Zapopan', bedrooms: 3, status: 'disponible', tenant_id: 't1' },
+];
+
+function createState(context: Record<string, any> = {}): any {
+  return { flowId: 'f1', currentNodeId: 'ai', context, history: [], startedAt: new Date(), lastUpdatedAt: new Date(), userId: 'u1', sessionId: 's1' };
+}
+
+describe('Herramientas de IA', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mocked(propertyService.getPropertiesByTenant).mockResolvedValue(PROPERTIES);
+  });
+
+  it('debe filtrar propiedades por tipo, zona, recámaras y precio', async () => {
+    const result = await executeAIToolCall(
+      { id: 'c1', name: 'search_properties', arguments: { type: 'casa', location: 'zapopan', min_bedrooms: 3, max_price: '2,000,000' } },
+      { tenantId: 't1', state: createState() }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data.properties.map((property: any) => property.id)).toEqual(['p1']);
+  });
+
+  it('debe ofrecer la siguiente fecha disponible cuando el día está lleno', async () => {
+    mocked(appointmentService.getAvailability).mockResolvedValue({
+      available_slots: [],
+      business_hours: { open_time: '09:00', close_time: '18:00', is_closed: false },
+      date: '2025-06-20',
+      is_exception_day: false,
+    });
+    mocked(appointmentService.findNextAvailability).mockResolvedValue({
+      available_slots: [{ start_time: '10:00', end_time: '11:00', start_datetime: '', end_datetime: '' }],
+      business_hours: { open_time: '09:00', close_time: '18:00', is_closed: false },
+      date: '2025-06-21',
+      is_exception_day: false,
+    });
+
+    const result = await executeAIToolCall({ id: 'c1', name: 'check_availability', arguments: { date: '2025-06-20' } }, { tenantId: 't1', state: createState() });
+    expect(result.data).toEqual({
+      date: '2025-06-20',
+      is_closed: false,
+      available_times: [],
+      next_available_date: '2025-06-21',
+      next_available_times: ['10:00'],
+    });
+
+    const invalid = await executeAIToolCall({ id: 'c2', name: 'check_availability', arguments: { date: 'mañana' } }, { tenantId: 't1', state: createState() });
+    expect(invalid.success).toBe(false);
+  });
+
+  it('debe guardar los datos capturados en variables y en el lead', async () => {
+    mocked(leadData.updateLeadData).mockResolvedValue({ success: true });
+
+    const result = await executeAIToolCall(
+      { id: 'c1', name: 'update_lead_fields', arguments: { name: 'Laura Pérez', budget: 2000000, email: '' } },
+      { tenantId: 't1', state: createState({ leadId: 'lead-1' }) }
+    );
+
+    expect(result.contextUpdates).toEqual({ name: 'Laura Pérez', budget: 2000000 });
+    expect(mocked(leadData.updateLeadData).mock.calls[0][0]).toBe('lead-1');
+    expect(mocked(leadData.updateLeadData).mock.calls[0][1]).toMatchObject({ full_name: 'Laura Pérez' });
+    expect(mocked(leadData.updateLeadData).mock.calls[0][1]).not.toHaveProperty('budget');
+  });
+
+  it('debe descartar los argumentos que no son datos del lead', async () => {
+    const result = await executeAIToolCall(
+      {
+        id: 'c3',
+        name: 'update_lead_fields',
+        arguments: { location: 'Zapopan', tenantId: 'otro-tenant', leadId: 'lead-2', currentLeadStage: 'ganado' },
+      },
+      { tenantId: 't1', state: createState() }
+    );
+
+    expect(result.contextUpdates).toEqual({ location: 'Zapopan' });
+
+    const empty = await executeAIToolCall(
+      { id: 'c4', name: 'update_lead_fields', arguments: { tenantId: 'otro-tenant' } },
+      { tenantId: 't1', state: createState() }
+    );
+    expect(empty.success).toBe(false);
+  });
+
+  it('debe ejecutar las herramientas que pide el modelo y responder con los resultados', async () => {
+    const provider = new ScriptedLLMProvider([
+      {
+        match: 'Zapopan',
+        response: {
+          toolCalls: [
+            { name: 'search_properties', arguments: { type: 'Casa', location: 'Zapopan', min_bedrooms: 3, max_price: 2000000 } },
+            { name: 'update_lead_fields', arguments: { location: 'Zapopan', budget: 2000000 } },
+          ],
+        },
+      },
+      {
+        match: 'Zapopan',
+        response: (request) => {
+          const found = JSON.parse(request.messages.find((message) => message.role === 'tool')!.content);
+          return `Sí, tengo ${found.total} casa: ${found.properties[0].name}.`;
+        },
+      },
+    ]);
+
+    const state = createState();
+    const result = await completeWithTools(
+      provider,
+      {
+        systemPrompt: 'Asesor',
+        messages: [{ role: 'user', content: '¿Tienen casas de 3 recámaras en Zapopan de menos de 2M?' }],
+        tools: getAIToolDefinitions(['search_properties', 'update_lead_fields', 'no_existe']),
+      },
+      {},
+      { tenantId: 't1', state }
+    );
+
+    expect(provider.requests[0].tools!.map((tool) => tool.name)).toEqual(['search_properties', 'update_lead_fields']);
+    expect(result.response.text).toBe('Sí, tengo 1 casa: Casa Jardines.');
+    expect(result.executions.map((execution) => execution.result.success)).toEqual([true, true]);
+    expect(state.context).toMatchObject({ location: 'Zapopan', budget: 2000000 });
+    expect(result.totalTokens).toBeGreaterThan(result.response.usage.totalTokens);
+  });
+
+  it('debe dejar de ofrecer herramientas al agotar las rondas', async () => {
+    const provider = new ScriptedLLMProvider([
+      { response: { toolCalls: [{ name: 'search_products', arguments: {} }] } },
+    ], 'Respuesta final');
+    mocked(productsService.getProductsForChatbot).mockResolvedValue(['Avalúo - $3500']);
+
+    const result = await completeWithTools(
+      provider,
+      { systemPrompt: 'Asesor', messages: [{ role: 'user', content: 'precios' }], tools: getAIToolDefinitions(['search_products']) },
+      {},
+      { tenantId: 't1', state: createState() },
+      1
+    );
+
+    expect(result.executions).toHaveLength(1);
+    expect(JSON.parse(provider.requests[1].messages[2].content)).toEqual({ products: ['Avalúo - $3500'] });
+    expect(provider.requests[1].tools).toBeUndefined();
+    expect(result.response.text).toBe('Respuesta final');
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * TESTS PARA API CALL SERVICE
+ *
+ * PROPÓSITO: Verificar la ejecución real de nodos API_CALL contra un servidor HTTP local
+ * CUBRE: Interpolación de variables (también dentro de cadenas JSON), extracción por
+ *        ruta JSON, timeout, reintentos y bloqueo de direcciones privadas y hosts no permitidos
+ *
+ * @version 1.1.0
+ * @created 2025-06-02
+ * @updated 2025-06-17
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { config } from '../../config';
+import { executeApiCall, interpolateTemplate, getValueByPath, isPrivateAddress } from '../apiCallService';
+
+describe('apiCallService', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let flakyHits = 0;
+  const received: Array<{ method?: string; url?: string; headers: http.IncomingHttpHeaders; body: string }> = [];
+
+  beforeAll(async () => {
+    // El servidor de prueba escucha en loopback
+    config.apiCalls.allowPrivateNetworks = true;
+
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ method: req.method, url: req.url, headers: req.headers, body });
+
+        if (req.url?.startsWith('/leads')) {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ data: { items: [{ id: 'crm-42', name: 'Ana' }] } }));
+          return;
+        }
+
+        if (req.url === '/flaky') {
+          flakyHits++;
+          res.writeHead(flakyHits < 3 ? 503 : 200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ ok: flakyHits >= 3 }));
+          return;
+        }
+
+        if (req.url === '/slow') {
+          setTimeout(() => res.end('{}'), 300);
+          return;
+        }
+
+        res.writeHead(404);
+        res.end();
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    config.apiCalls.allowPrivateNetworks = false;
+    config.apiCalls.allowedHosts = [];
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('debe resolver rutas JSON con índices y prefijo $', () => {
+    const source = { data: { items: [{ id: 1 }, { id: 2 }] } };
+    expect(getValueByPath(source, 'data.items[1].id')).toBe(2);
+    expect(getValueByPath(source, '$.data.items[0].id')).toBe(1);
+    expect(getValueByPath(source, 'data.missing.id')).toBeUndefined();
+  });
+
+  it('debe interpolar variables anidadas sin valores por defecto', () => {
+    expect(interpolateTemplate('Hola {{ lead.nombre }}{{otro}}', { lead: { nombre: 'Ana' } })).toBe('Hola Ana');
+  });
+
+  it('debe enviar URL, cabeceras y cuerpo interpolados y extraer resultVariable', async () => {
+    const result = await executeApiCall(
+      {
+        url: `${baseUrl}/leads?email={{email}}`,
+        method: 'POST',
+        headers: { Authorization: 'Bearer {{token}}', 'Content-Type': 'application/json' },
+        body: '{"name": "{{nombre}}", "budget": {{presupuesto}}}',
+        responsePath: 'data.items[0].id',
+      },
+      { email: 'ana+1@x.com', token: 'abc', nombre: 'Ana "la jefa"', presupuesto: 2000000 }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.value).toBe('crm-42');
+
+    const request = received[received.length - 1];
+    expect(request.url).toBe('/leads?email=ana%2B1%40x.com');
+    expect(request.headers.authorization).toBe('Bearer abc');
+    expect(JSON.parse(request.body)).toEqual({ name: 'Ana "la jefa"', budget: 2000000 });
+  });
+
+  it('debe escapar las variables dentro de cadenas JSON más largas', async () => {
+    const result = await executeApiCall(
+      {
+        url: `${baseUrl}/leads`,
+        method: 'POST',
+        body: '{"mensaje": "Hola {{nombre}}, tu cita es el {{fecha}} \\"{{nota}}\\"", "extra": {{extra}}, "vacio": "sin {{falta}}"}',
+      },
+      { nombre: 'Ana "la jefa"', fecha: '2025-06-20', nota: 'línea\nnueva', extra: { a: 1 } }
+    );
+
+    expect(result.success).toBe(true);
+    const request = received[received.length - 1];
+    expect(request.headers['content-type']).toContain('application/json');
+    expect(JSON.parse(request.body)).toEqual({
+      mensaje: 'Hola Ana "la jefa", tu cita es el 2025-06-20 "línea\nnueva"',
+      extra: { a: 1 },
+      vacio: 'sin ',
+    });
+  });
+
+  it('debe bloquear direcciones privadas, hosts que resuelven a ellas y hosts no permitidos', async () => {
+    expect(['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '::1', 'fe80::1', '::ffff:127.0.0.1']
+      .every(isPrivateAddress)).toBe(true);
+    expect(['8.8.8.8', '172.32.0.1', '2606:4700::1111'].some(isPrivateAddress)).toBe(false);
+
+    config.apiCalls.allowPrivateNetworks = false;
+    try {
+      const direct = await executeApiCall({ url: 'http://169.254.169.254/latest/meta-data', method: 'GET', retries: 2 }, {});
+      expect(direct).toMatchObject({ success: false, attempts: 0, error: 'Dirección no permitida: 169.254.169.254' });
+
+      const resolved = await executeApiCall({ url: 'http://localhost:1/interno', method: 'GET', retries: 2, retryDelay: 10 }, {});
+      expect(resolved.success).toBe(false);
+      expect(resolved.attempts).toBe(1);
+      expect(resolved.error).toContain('Dirección no permitida: localhost');
+
+      const protocol = await executeApiCall({ url: 'file:///etc/passwd', method: 'GET' }, {});
+      expect(protocol).toMatchObject({ success: false, error: 'Protocolo no permitido: file:' });
+    } finally {
+      config.apiCalls.allowPrivateNetworks = true;
+    }
+
+    config.apiCalls.allowedHosts = ['crm.example.com'];
+    try {
+      const host = await executeApiCall({ url: `${baseUrl}/leads`, method: 'GET' }, {});
+      expect(host).toMatchObject({ success: false, attempts: 0, error: 'Host no permitido: 127.0.0.1' });
+    } finally {
+      config.apiCalls.allowedHosts = [];
+    }
+  });
+
+  it('debe reintentar errores 5xx hasta obtener respuesta exitosa', async () => {
+    const result = await executeApiCall(
+      { url: `${baseUrl}/flaky`, method: 'GET', retries: 3, retryDelay: 10 },
+      {}
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.attempts).toBe(3);
+  });
+
+  it('no debe reintentar errores 4xx', async () => {
+    const result = await executeApiCall(
+      { url: `${baseUrl}/unknown`, method: 'GET', retries: 3, retryDelay: 10 },
+      {}
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.status).toBe(404);
+    expect(result.attempts).toBe(1);
+  });
+
+  it('debe respetar el timeout por nodo', async () => {
+    const result = await executeApiCall(
+      { url: `${baseUrl}/slow`, method: 'GET', timeout: 50 },
+      {}
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Tiempo de espera agotado');
+  });
+});
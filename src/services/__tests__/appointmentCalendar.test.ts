@@ -0,0 +1,141 @@
+/**
+ * TESTS PARA LA EXPORTACIÓN DE CITAS A ICALENDAR
+ *
+ * PROPÓSITO: Verificar el contenido de los archivos .ics de citas
+ * CUBRE: Conversión de zona horaria (incluye horario de verano), escape y plegado
+ *        de líneas, estados (TENTATIVE/CANCELLED), METHOD:CANCEL, tokens de feed
+ *        y envío del .ics desde el número del tenant
+ *
+ * @version 1.0.0
+ * @created 2025-06-08
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+jest.mock('../providerService', () => ({
+  sendMedia: jest.fn(async () => true),
+}));
+
+jest.mock('../supabase', () => ({
+  getSupabaseAdminClient: () => ({
+    from: () => ({ select: () => ({ eq: async () => ({ data: [], error: null }) }) }),
+  }),
+}));
+
+jest.mock('../appointmentService', () => {
+  const actual = jest.requireActual('../appointmentService') as any;
+  return {
+    ...actual,
+    getAppointment: jest.fn(),
+    getAppointmentSettings: jest.fn(async () => ({})),
+  };
+});
+
+import { buildCalendar, zonedTimeToUtc, foldLine, escapeText } from '../../utils/icalendar';
+import { appointmentToEvent, createFeedToken, verifyFeedToken, sendAppointmentIcs } from '../appointmentCalendar';
+import { config } from '../../config';
+import { Appointment, getAppointment } from '../appointmentService';
+import { sendMedia } from '../providerService';
+
+const appointment: Appointment = {
+  id: 'cita-1',
+  tenant_id: 'tenant-1',
+  date: '2025-06-12',
+  start_time: '10:00',
+  end_time: '11:00',
+  status: 'scheduled',
+  customer_name: 'Ana López',
+  customer_email: 'ana@example.com',
+  notes: 'Casa en venta; zona norte',
+  updated_at: '2025-06-08T12:00:00.000Z',
+};
+
+describe('Exportación de citas a iCalendar', () => {
+  it('debe convertir horas locales a UTC según la zona horaria', () => {
+    expect(zonedTimeToUtc('2025-06-12', '10:00', 'America/Mexico_City').toISOString()).toBe('2025-06-12T16:00:00.000Z');
+    expect(zonedTimeToUtc('2025-01-15', '10:00', 'Europe/Madrid').toISOString()).toBe('2025-01-15T09:00:00.000Z');
+    expect(zonedTimeToUtc('2025-07-15', '10:00', 'Europe/Madrid').toISOString()).toBe('2025-07-15T08:00:00.000Z');
+  });
+
+  it('debe generar una invitación con el evento de la cita', () => {
+    const event = appointmentToEvent(appointment, { timezone: 'America/Mexico_City', typeName: 'Visita', domain: 'bot.test' });
+    const ics = buildCalendar([event], { method: 'REQUEST', timezone: 'America/Mexico_City' });
+    const lines = ics.split('\r\n');
+
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('METHOD:REQUEST');
+    expect(lines).toContain('UID:cita-1@bot.test');
+    expect(lines).toContain('DTSTART:20250612T160000Z');
+    expect(lines).toContain('DTEND:20250612T170000Z');
+    expect(lines).toContain('STATUS:CONFIRMED');
+    expect(lines).toContain('SUMMARY:Visita - Ana López');
+    expect(lines).toContain('ATTENDEE;CN=Ana López;ROLE=REQ-PARTICIPANT:mailto:ana@example.com');
+    expect(ics.replace(/\r\n /g, '')).toContain('Casa en venta\\; zona norte');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('debe marcar cancelaciones y citas pendientes', () => {
+    const cancelled = appointmentToEvent(
+      { ...appointment, status: 'cancelled', cancellation_reason: 'Viaje', updated_at: '2025-06-09T12:00:00.000Z' },
+      { timezone: 'America/Mexico_City' }
+    );
+    const original = appointmentToEvent(appointment, { timezone: 'America/Mexico_City' });
+    const ics = buildCalendar([cancelled], { method: 'CANCEL' });
+
+    expect(ics).toContain('METHOD:CANCEL');
+    expect(ics).toContain('STATUS:CANCELLED');
+    expect(ics).toContain('Motivo de cancelación: Viaje');
+    expect(cancelled.uid).toBe(original.uid);
+    expect(cancelled.sequence).toBeGreaterThan(original.sequence as number);
+
+    expect(appointmentToEvent({ ...appointment, status: 'pending' }, { timezone: 'UTC' }).status).toBe('TENTATIVE');
+  });
+
+  it('debe escapar y plegar líneas largas', () => {
+    expect(escapeText('a,b;c\\d\ne')).toBe('a\\,b\\;c\\\\d\\ne');
+
+    const folded = foldLine(`DESCRIPTION:${'ñ'.repeat(80)}`);
+    const parts = folded.split('\r\n');
+    expect(parts.length).toBeGreaterThan(1);
+    parts.forEach((part) => expect(Buffer.byteLength(part, 'utf8')).toBeLessThanOrEqual(75));
+    expect(parts.slice(1).every((part) => part.startsWith(' '))).toBe(true);
+    expect(parts.map((part, index) => (index === 0 ? part : part.slice(1))).join('')).toBe(`DESCRIPTION:${'ñ'.repeat(80)}`);
+  });
+
+  it('debe validar los tokens de feed por tenant y agente', () => {
+    config.appointments.feedSecret = 'secreto-de-prueba';
+
+    const token = createFeedToken('tenant-1');
+    expect(verifyFeedToken(token, 'tenant-1')).toBe(true);
+    expect(verifyFeedToken(token, 'tenant-2')).toBe(false);
+    expect(verifyFeedToken(token, 'tenant-1', 'agente-a')).toBe(false);
+    expect(verifyFeedToken(createFeedToken('tenant-1', 'agente-a'), 'tenant-1', 'agente-a')).toBe(true);
+    expect(verifyFeedToken('', 'tenant-1')).toBe(false);
+  });
+
+  it('debe enviar el .ics desde el número del tenant', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'appointment-ics-'));
+    const originalDir = config.paths.calendar;
+    config.paths.calendar = directory;
+    (getAppointment as jest.MockedFunction<typeof getAppointment>).mockResolvedValue({
+      ...appointment,
+      customer_phone: '5215511112222',
+    });
+
+    try {
+      expect(await sendAppointmentIcs('tenant-1', 'cita-1')).toBe(true);
+      expect(sendMedia).toHaveBeenCalledWith(
+        '5215511112222',
+        path.join(directory, 'cita-2025-06-12-cita-1.ics'),
+        expect.any(String),
+        'tenant-1'
+      );
+    } finally {
+      config.paths.calendar = originalDir;
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * TESTS PARA EL PROGRAMADOR DE RECORDATORIOS DE CITAS
+ *
+ * PROPÓSITO: Verificar la planificación, el envío con reintentos y el manejo de respuestas
+ * CUBRE: planAppointmentJobs (con la zona horaria del tenant), processDueJobs
+ *        (envío, reintento, fallo definitivo), handleReply (confirmar, cancelar,
+ *        reprogramar) y persistencia en memoria
+ *
+ * @version 1.0.1
+ * @created 2025-06-07
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+jest.mock('../providerService', () => ({
+  sendText: jest.fn(),
+  sendButtons: jest.fn(),
+}));
+
+jest.mock('../appointmentService', () => {
+  const actual = jest.requireActual('../appointmentService') as any;
+  return {
+    ...actual,
+    getAppointment: jest.fn(),
+    getAppointmentSettings: jest.fn(),
+    findNextAvailability: jest.fn(),
+    bookAppointment: jest.fn(),
+    rescheduleAppointment: jest.fn(),
+    cancelAppointment: jest.fn(),
+    updateAppointmentStatus: jest.fn(),
+  };
+});
+
+import * as providerService from '../providerService';
+import * as appointmentService from '../appointmentService';
+import { Appointment } from '../appointmentService';
+import {
+  AppointmentScheduler,
+  MemoryAppointmentJobStore,
+  planAppointmentJobs,
+} from '../appointmentScheduler';
+
+const mocked = (fn: any) => fn as jest.Mock<any>;
+
+const appointment: Appointment = {
+  id: 'cita-1',
+  tenant_id: 'tenant-1',
+  date: '2025-06-12',
+  start_time: '10:00',
+  end_time: '11:00',
+  status: 'scheduled',
+  customer_name: 'Ana',
+  customer_phone: '+52 1 55 1234 5678',
+};
+
+// El tenant usa la zona horaria del servidor para que las fechas locales de los tests coincidan
+const serverTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+const settings = {
+  confirmation_time_hours: 48,
+  reminder_time_hours: 24,
+  no_show_followup_minutes: 60,
+  timezone: serverTimezone,
+};
+
+describe('Programador de recordatorios de citas', () => {
+  let store: MemoryAppointmentJobStore;
+  let scheduler: AppointmentScheduler;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    store = new MemoryAppointmentJobStore();
+    scheduler = new AppointmentScheduler(store, { maxAttempts: 2 });
+    mocked(appointmentService.getAppointment).mockResolvedValue(appointment);
+    mocked(appointmentService.getAppointmentSettings).mockResolvedValue(settings);
+    mocked(providerService.sendButtons).mockResolvedValue(true);
+    mocked(providerService.sendText).mockResolvedValue(true);
+  });
+
+  it('debe planificar confirmación, recordatorio y seguimiento', () => {
+    const now = new Date(2025, 5, 9, 8, 0);
+    const jobs = planAppointmentJobs(appointment, settings, now);
+
+    expect(jobs.map((job) => job.job_type)).toEqual(['confirmation', 'reminder', 'no_show_followup']);
+    expect(new Date(jobs[0].run_at)).toEqual(new Date(2025, 5, 10, 10, 0));
+    expect(new Date(jobs[1].run_at)).toEqual(new Date(2025, 5, 11, 10, 0));
+    expect(new Date(jobs[2].run_at)).toEqual(new Date(2025, 5, 12, 12, 0));
+    expect(jobs[0].phone_key).toBe('5512345678');
+
+    // Dentro de la ventana de confirmación solo quedan recordatorio y seguimiento
+    const late = planAppointmentJobs(appointment, settings, new Date(2025, 5, 11, 8, 0));
+    expect(late.map((job) => job.job_type)).toEqual(['reminder', 'no_show_followup']);
+    expect(planAppointmentJobs({ ...appointment, status: 'cancelled' }, settings, now)).toEqual([]);
+  });
+
+  it('debe planificar los trabajos en la zona horaria del tenant', async () => {
+    const now = new Date('2025-06-09T12:00:00Z');
+    const jobs = planAppointmentJobs(appointment, settings, now, 'America/Mexico_City');
+
+    // 10:00 en Ciudad de México = 16:00 UTC
+    expect(jobs.map((job) => job.run_at)).toEqual([
+      '2025-06-10T16:00:00.000Z',
+      '2025-06-11T16:00:00.000Z',
+      '2025-06-12T18:00:00.000Z',
+    ]);
+
+    mocked(appointmentService.getAppointmentSettings).mockResolvedValue({ ...settings, timezone: 'Europe/Madrid' });
+    const scheduled = await scheduler.scheduleForAppointment(appointment, now);
+    expect(scheduled[0].run_at).toBe('2025-06-10T08:00:00.000Z');
+  });
+
+  it('debe enviar trabajos vencidos y reintentar los fallidos', async () => {
+    await scheduler.scheduleForAppointment(appointment, new Date(2025, 5, 9, 8, 0));
+    const sendAt = new Date(2025, 5, 10, 10, 5);
+
+    mocked(providerService.sendButtons).mockResolvedValue(false);
+    mocked(providerService.sendText).mockResolvedValue(false);
+    expect(await scheduler.processDueJobs(sendAt)).toBe(1);
+    expect(store.jobs[0]).toMatchObject({ status: 'pending', attempts: 1 });
+
+    // El reintento espera un minuto
+    expect(await scheduler.processDueJobs(sendAt)).toBe(0);
+    mocked(providerService.sendButtons).mockResolvedValue(true);
+    expect(await scheduler.processDueJobs(new Date(sendAt.getTime() + 60 * 1000))).toBe(1);
+    expect(store.jobs[0]).toMatchObject({ status: 'awaiting_reply', attempts: 2 });
+    expect(providerService.sendButtons).toHaveBeenLastCalledWith(
+      appointment.customer_phone,
+      expect.any(Array),
+      expect.stringContaining('Responde 1 para confirmar'),
+      appointment.tenant_id
+    );
+
+    // Al agotar los intentos el trabajo queda fallido
+    await store.update(store.jobs[1].id, { run_at: sendAt.toISOString() });
+    mocked(providerService.sendText).mockResolvedValue(false);
+    await scheduler.processDueJobs(new Date(2025, 5, 11, 10, 0));
+    await store.update(store.jobs[1].id, { run_at: sendAt.toISOString() });
+    await scheduler.processDueJobs(new Date(2025, 5, 11, 10, 0));
+    expect(store.jobs[1]).toMatchObject({ job_type: 'reminder', status: 'failed', attempts: 2 });
+  });
+
+  it('debe confirmar o cancelar la cita según la respuesta', async () => {
+    await scheduler.scheduleForAppointment(appointment, new Date(2025, 5, 9, 8, 0));
+    const now = new Date(2025, 5, 10, 10, 5);
+    await scheduler.processDueJobs(now);
+
+    expect(await scheduler.handleReply('tenant-1', '5215512345678', 'hola', now)).toBeNull();
+    expect(await scheduler.handleReply('tenant-2', '5215512345678', '1', now)).toBeNull();
+
+    const reply = await scheduler.handleReply('tenant-1', '5215512345678', 'Sí', now);
+    expect(reply).toContain('confirmada');
+    expect(appointmentService.updateAppointmentStatus).toHaveBeenCalledWith('tenant-1', 'cita-1', 'confirmed');
+    expect(store.jobs[0].status).toBe('completed');
+
+    // Sin recordatorios pendientes de respuesta no se intercepta el mensaje
+    expect(await scheduler.handleReply('tenant-1', '5215512345678', '3', now)).toBeNull();
+
+    await scheduler.processDueJobs(new Date(2025, 5, 11, 10, 0));
+    expect(await scheduler.handleReply('tenant-1', '5215512345678', 'cancelar', new Date(2025, 5, 11, 10, 1))).toContain('cancelada');
+    expect(appointmentService.cancelAppointment).toHaveBeenCalledWith('tenant-1', 'cita-1', expect.any(String));
+  });
+
+  it('debe ofrecer horarios y reprogramar con la opción elegida', async () => {
+    await scheduler.scheduleForAppointment(appointment, new Date(2025, 5, 9, 8, 0));
+    const now = new Date(2025, 5, 10, 10, 5);
+    await scheduler.processDueJobs(now);
+
+    mocked(appointmentService.findNextAvailability).mockResolvedValue({
+      date: '2025-06-13',
+      available_slots: [{ start_time: '09:00' }, { start_time: '12:00' }],
+    });
+    mocked(appointmentService.rescheduleAppointment).mockResolvedValue({
+      ...appointment,
+      date: '2025-06-13',
+      start_time: '12:00',
+    });
+
+    const offer = await scheduler.handleReply('tenant-1', '5215512345678', '2', now);
+    expect(offer).toContain('1. 09:00');
+    expect(offer).toContain('2. 12:00');
+    expect(store.jobs[0].reply_state).toEqual({ step: 'reschedule', date: '2025-06-13', slots: ['09:00', '12:00'] });
+
+    const done = await scheduler.handleReply('tenant-1', '5215512345678', '2', now);
+    expect(appointmentService.rescheduleAppointment).toHaveBeenCalledWith('tenant-1', 'cita-1', {
+      date: '2025-06-13',
+      startTime: '12:00',
+    });
+    expect(done).toContain('2025-06-13 a las 12:00');
+    expect(store.jobs[0].status).toBe('completed');
+  });
+});
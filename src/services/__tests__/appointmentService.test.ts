@@ -0,0 +1,146 @@
+/**
+ * TESTS PARA EL MOTOR DE RESERVAS DE CITAS
+ *
+ * PROPÓSITO: Verificar el cálculo de disponibilidad y la validación de horarios
+ * CUBRE: buffer_time, max_daily_appointments, min_notice_minutes, excepciones,
+ *        agentes, zona horaria del tenant y la serialización de reservas concurrentes
+ *
+ * @version 1.0.1
+ * @created 2025-06-06
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  computeAvailableSlots,
+  evaluateSlot,
+  withBookingLock,
+  DaySchedule,
+  Appointment,
+} from '../appointmentService';
+
+const now = new Date(2025, 5, 9, 8, 0); // lunes 9 de junio de 2025, 08:00
+
+const appointment = (id: string, start: string, end: string, extra: Partial<Appointment> = {}): Appointment => ({
+  id,
+  tenant_id: 'tenant-1',
+  date: '2025-06-10',
+  start_time: start,
+  end_time: end,
+  status: 'scheduled',
+  ...extra,
+});
+
+const buildSchedule = (overrides: Partial<DaySchedule> = {}): DaySchedule => ({
+  date: '2025-06-10',
+  hours: { open_time: '09:00', close_time: '12:00', is_closed: false, is_exception_day: false },
+  duration: 60,
+  bufferTime: 0,
+  minNoticeMinutes: 60,
+  maxFutureDays: 30,
+  maxDailyAppointments: null,
+  appointments: [],
+  agents: [],
+  ...overrides,
+});
+
+describe('Motor de reservas de citas', () => {
+  it('debe generar horarios dentro del horario de atención', () => {
+    const slots = computeAvailableSlots(buildSchedule(), { now });
+    expect(slots.map((slot) => slot.start_time)).toEqual(['09:00', '10:00', '11:00']);
+  });
+
+  it('debe respetar el buffer alrededor de las citas existentes', () => {
+    const schedule = buildSchedule({
+      duration: 30,
+      bufferTime: 15,
+      appointments: [appointment('a1', '10:00', '10:30')],
+    });
+
+    expect(evaluateSlot(schedule, '09:30', { now }).ok).toBe(false);
+    expect(evaluateSlot(schedule, '09:15', { now }).ok).toBe(true);
+    expect(evaluateSlot(schedule, '09:30', { now }).code).toBe('SLOT_UNAVAILABLE');
+    expect(evaluateSlot(schedule, '10:45', { now }).ok).toBe(true);
+    expect(evaluateSlot(schedule, '10:30', { now }).ok).toBe(false);
+  });
+
+  it('debe ignorar citas canceladas y la propia cita al reprogramar', () => {
+    const schedule = buildSchedule({
+      appointments: [
+        appointment('a1', '09:00', '10:00', { status: 'cancelled' }),
+        appointment('a2', '10:00', '11:00'),
+      ],
+    });
+
+    expect(evaluateSlot(schedule, '09:00', { now }).ok).toBe(true);
+    expect(evaluateSlot(schedule, '10:00', { now }).ok).toBe(false);
+    expect(evaluateSlot(schedule, '10:00', { now, ignoreAppointmentId: 'a2' }).ok).toBe(true);
+  });
+
+  it('debe aplicar anticipación mínima, límite diario y días cerrados', () => {
+    const today = buildSchedule({ date: '2025-06-09' });
+    const later = new Date(2025, 5, 9, 8, 30);
+    expect(evaluateSlot(today, '09:00', { now: later }).code).toBe('MIN_NOTICE');
+    expect(computeAvailableSlots(today, { now: later }).map((slot) => slot.start_time)).toEqual(['10:00', '11:00']);
+
+    const limited = buildSchedule({ maxDailyAppointments: 2, appointments: [appointment('a1', '09:00', '10:00')] });
+    expect(computeAvailableSlots(limited, { now })).toHaveLength(1);
+
+    const full = buildSchedule({
+      maxDailyAppointments: 1,
+      appointments: [appointment('a1', '09:00', '10:00')],
+    });
+    expect(evaluateSlot(full, '11:00', { now }).code).toBe('DAILY_LIMIT');
+
+    const closed = buildSchedule({
+      hours: { open_time: '00:00', close_time: '00:00', is_closed: true, is_exception_day: true },
+    });
+    expect(computeAvailableSlots(closed, { now })).toEqual([]);
+    expect(evaluateSlot(closed, '10:00', { now }).code).toBe('DAY_CLOSED');
+    expect(evaluateSlot(buildSchedule(), '11:30', { now }).code).toBe('OUTSIDE_BUSINESS_HOURS');
+  });
+
+  it('debe asignar el agente libre con menos citas', () => {
+    const schedule = buildSchedule({
+      agents: ['agente-a', 'agente-b'],
+      appointments: [
+        appointment('a1', '09:00', '10:00', { agent_id: 'agente-a' }),
+        appointment('a2', '11:00', '12:00', { agent_id: 'agente-a' }),
+        appointment('a3', '11:00', '12:00', { agent_id: 'agente-b' }),
+      ],
+    });
+
+    expect(evaluateSlot(schedule, '09:00', { now }).agentId).toBe('agente-b');
+    expect(evaluateSlot(schedule, '10:00', { now }).agentId).toBe('agente-b');
+    expect(evaluateSlot(schedule, '09:00', { now, agentId: 'agente-a' }).ok).toBe(false);
+    expect(evaluateSlot(schedule, '11:00', { now }).ok).toBe(false);
+  });
+
+  it('debe calcular los horarios en la zona horaria del tenant', () => {
+    const schedule = buildSchedule({ timezone: 'America/Mexico_City' });
+    // 14:30 UTC = 08:30 en Ciudad de México
+    const tenantNow = new Date('2025-06-10T14:30:00Z');
+
+    const slots = computeAvailableSlots(schedule, { now: tenantNow });
+    expect(slots.map((slot) => slot.start_time)).toEqual(['10:00', '11:00']);
+    expect(slots[0].start_datetime).toBe('2025-06-10T16:00:00.000Z');
+    expect(evaluateSlot(schedule, '09:00', { now: tenantNow }).code).toBe('MIN_NOTICE');
+
+    // 02:00 UTC del 11 de junio sigue siendo 10 de junio en Ciudad de México
+    const lateNight = new Date('2025-06-11T02:00:00Z');
+    const limited = buildSchedule({ date: '2025-06-11', maxFutureDays: 0, timezone: 'America/Mexico_City' });
+    expect(evaluateSlot(limited, '10:00', { now: lateNight }).code).toBe('TOO_FAR');
+  });
+
+  it('debe serializar las reservas de la misma clave', async () => {
+    const order: string[] = [];
+    const task = (name: string, delay: number) =>
+      withBookingLock('tenant-1:2025-06-10', async () => {
+        order.push(`${name}:inicio`);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        order.push(`${name}:fin`);
+      });
+
+    await Promise.all([task('a', 20), task('b', 0)]);
+    expect(order).toEqual(['a:inicio', 'a:fin', 'b:inicio', 'b:fin']);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * TESTS PARA EXPRESIONES DE CONDICIÓN
+ *
+ * PROPÓSITO: Verificar el lenguaje de expresiones de las condiciones de flujo
+ * CUBRE: Operadores lógicos, comparaciones numéricas y de fechas, "in", coerción
+ *        de tipos, CONTEXT_VALUE/EXPRESSION y validación en validateFlow
+ *
+ * @version 1.0.1
+ * @created 2025-06-05
+ * @updated 2025-06-17
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { evaluateExpression, validateExpression } from '../../utils/conditionExpression';
+import { evaluateCondition } from '../flowProcessor';
+import { validateFlow } from '../flowValidator';
+import { ConditionType, NodeType } from '../../models/flow.types';
+
+describe('Expresiones de condición', () => {
+  const scope = {
+    presupuesto: '$2,500,000',
+    recamaras: '3',
+    tipo_propiedad: 'Casa',
+    fecha_visita: '2025-06-10',
+    acepta_credito: 'true',
+    lead: { nombre: 'Ana', etapa: 'calificacion' },
+  };
+
+  it('debe comparar números con coerción de tipos', () => {
+    expect(evaluateExpression('presupuesto >= 2000000', scope)).toBe(true);
+    expect(evaluateExpression('recamaras > 3', scope)).toBe(false);
+    expect(evaluateExpression('recamaras == 3', scope)).toBe(true);
+  });
+
+  it('debe combinar condiciones con AND, OR, NOT y paréntesis', () => {
+    expect(evaluateExpression('presupuesto >= 2000000 && tipo_propiedad == "casa"', scope)).toBe(true);
+    expect(evaluateExpression('recamaras > 5 or (acepta_credito and not recamaras < 2)', scope)).toBe(true);
+    expect(evaluateExpression('!(tipo_propiedad == "casa")', scope)).toBe(false);
+  });
+
+  it('debe soportar listas, fechas y variables del lead', () => {
+    expect(evaluateExpression('tipo_propiedad in ["casa", "departamento"]', scope)).toBe(true);
+    expect(evaluateExpression('tipo_propiedad not in ["terreno"]', scope)).toBe(true);
+    expect(evaluateExpression('fecha_visita > "2025-06-01" && fecha_visita < date("2025-07-01")', scope)).toBe(true);
+    expect(evaluateExpression('lead.etapa == "calificacion" && exists(lead.nombre)', scope)).toBe(true);
+    expect(evaluateExpression('lead.telefono == null', scope)).toBe(true);
+  });
+
+  it('debe reportar errores de sintaxis', () => {
+    expect(validateExpression('presupuesto >= ').valid).toBe(false);
+    expect(validateExpression('(a && b').valid).toBe(false);
+    expect(validateExpression('eval(x)').valid).toBe(false);
+    expect(validateExpression('a > 1 && lead.etapa == "x"').variables).toEqual(['a', 'lead']);
+  });
+
+  it('debe evaluar CONTEXT_VALUE y EXPRESSION en evaluateCondition', () => {
+    const context = { estado: 'Activo', presupuesto: 1500000 };
+
+    expect(evaluateCondition({ type: ConditionType.CONTEXT_VALUE, value: 'estado=Activo' }, '', context)).toBe(true);
+    expect(evaluateCondition({ type: ConditionType.CONTEXT_VALUE, value: 'estado=activo' }, '', context)).toBe(false);
+    expect(evaluateCondition({ type: ConditionType.EXPRESSION, value: 'presupuesto > 2000000 || estado == "inactivo"' }, '', context)).toBe(false);
+    expect(evaluateCondition({ type: ConditionType.EXPRESSION, value: 'message contains "visita"' }, 'Quiero una visita', context)).toBe(true);
+  });
+
+  it('debe comparar CONTEXT_VALUE "variable=valor" de forma exacta aunque el valor tenga operadores', () => {
+    const context = { origen: 'https://tienda.com/?utm=ads&ref=1' };
+
+    expect(evaluateCondition({ type: ConditionType.CONTEXT_VALUE, value: 'origen=https://tienda.com/?utm=ads&ref=1' }, '', context)).toBe(true);
+    expect(evaluateCondition({ type: ConditionType.CONTEXT_VALUE, value: 'origen=https://tienda.com/?utm=ads' }, '', context)).toBe(false);
+    expect(evaluateCondition({ type: ConditionType.CONTEXT_VALUE, value: 'origen' }, '', context)).toBe(false);
+  });
+
+  it('debe rechazar flujos con expresiones inválidas', () => {
+    const buildFlow = (expression: string, type: ConditionType = ConditionType.EXPRESSION): any => ({
+      name: 'Flujo de prueba',
+      entryNodeId: 'inicio',
+      nodes: {
+        inicio: {
+          id: 'inicio',
+          type: NodeType.CONDITION,
+          next: [{ condition: { type, value: expression }, nextNodeId: 'fin' }],
+        },
+        fin: { id: 'fin', type: NodeType.MESSAGE, content: 'Gracias' },
+      },
+    });
+
+    expect(() => validateFlow(buildFlow('presupuesto >= 1000000'))).not.toThrow();
+    expect(() => validateFlow(buildFlow('presupuesto >= && x'))).toThrow(/nodo inicio/);
+    expect(() => validateFlow(buildFlow('origen=https://tienda.com/?a=1&b!=2', ConditionType.CONTEXT_VALUE))).not.toThrow();
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * TESTS PARA LA MEMORIA DE CONVERSACIÓN DE LOS NODOS DE IA
+ *
+ * PROPÓSITO: Verificar la ventana de historial y el resumen acumulado
+ * CUBRE: Límite de mensajes y de tokens, mensaje actual duplicado,
+ *        actualización del resumen por umbral, carga sin sesión persistente e
+ *        historial registrado por flowProcessor para cualquier canal
+ *
+ * @version 1.0.1
+ * @created 2025-06-13
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildConversationWindow,
+  updateRollingSummary,
+  loadConversationMemory,
+  formatSummaryForPrompt,
+  recordConversationTurn,
+} from '../conversationMemory';
+import { processFlowMessage } from '../flowProcessor';
+import { NodeType, RuntimeFlow } from '../../models/flow.types';
+import type { ConversationMessage } from '../improvedSessionManager';
+
+function message(index: number, type: 'user' | 'bot' | 'system', content: string): ConversationMessage {
+  return { messageId: `msg_${index}`, timestamp: new Date(2025, 5, 13, 10, index).toISOString(), type, content };
+}
+
+const HISTORY: ConversationMessage[] = [
+  message(0, 'user', 'Hola, busco casa en Querétaro'),
+  message(1, 'bot', '¡Hola! ¿Cuál es tu presupuesto?'),
+  message(2, 'user', 'Unos 3 millones'),
+  message(3, 'system', 'Nodo de captura completado'),
+  message(4, 'bot', 'Tengo dos opciones en Juriquilla'),
+  message(5, 'user', '¿Tienen alberca?'),
+];
+
+const OPTIONS = { maxMessages: 20, maxTokens: 1000, summaryThreshold: 2 };
+
+describe('Memoria de conversación', () => {
+  it('debe armar la ventana sin mensajes de sistema ni el mensaje actual duplicado', () => {
+    const window = buildConversationWindow(HISTORY, '¿Tienen alberca?', OPTIONS);
+
+    expect(window.messages).toEqual([
+      { role: 'user', content: 'Hola, busco casa en Querétaro' },
+      { role: 'assistant', content: '¡Hola! ¿Cuál es tu presupuesto?' },
+      { role: 'user', content: 'Unos 3 millones' },
+      { role: 'assistant', content: 'Tengo dos opciones en Juriquilla' },
+      { role: 'user', content: '¿Tienen alberca?' },
+    ]);
+    expect(window.windowStart).toBe(0);
+  });
+
+  it('debe respetar el límite de mensajes y el presupuesto de tokens', () => {
+    const byCount = buildConversationWindow(HISTORY, '¿Tienen alberca?', { ...OPTIONS, maxMessages: 2 });
+    expect(byCount.messages.map((turn) => turn.content)).toEqual([
+      'Unos 3 millones',
+      'Tengo dos opciones en Juriquilla',
+      '¿Tienen alberca?',
+    ]);
+    expect(byCount.windowStart).toBe(2);
+
+    // 4 tokens del mensaje actual + 8 de la última respuesta; el resto no cabe
+    const byTokens = buildConversationWindow(HISTORY, '¿Tienen alberca?', { ...OPTIONS, maxTokens: 14 });
+    expect(byTokens.messages.map((turn) => turn.content)).toEqual(['Tengo dos opciones en Juriquilla', '¿Tienen alberca?']);
+    expect(byTokens.tokens).toBeLessThanOrEqual(14);
+    expect(byTokens.windowStart).toBe(4);
+  });
+
+  it('debe resumir los mensajes que salen de la ventana al alcanzar el umbral', async () => {
+    const calls: string[] = [];
+    const summarize = async (_prompt: string, messages: { content: string }[]) => {
+      calls.push(messages[0].content);
+      return 'El cliente busca casa en Querétaro con presupuesto de 3 millones.';
+    };
+
+    const summary = await updateRollingSummary(HISTORY, 4, null, summarize, 2);
+    expect(summary).toMatchObject({ coveredCount: 4 });
+    expect(calls[0]).toContain('Cliente: Unos 3 millones');
+    expect(calls[0]).not.toContain('Nodo de captura');
+    expect(formatSummaryForPrompt(summary)).toContain('presupuesto de 3 millones');
+
+    // Sin mensajes nuevos fuera de la ventana se conserva el resumen
+    expect(await updateRollingSummary(HISTORY, 4, summary, summarize, 2)).toBe(summary);
+    // Por debajo del umbral tampoco se vuelve a resumir
+    expect(await updateRollingSummary(HISTORY, 5, summary, summarize, 2)).toBe(summary);
+
+    // El nuevo resumen parte del anterior
+    await updateRollingSummary([...HISTORY, message(6, 'bot', 'Sí, ambas'), message(7, 'user', 'Perfecto')], 7, summary, summarize, 2);
+    expect(calls[1]).toContain('Resumen previo:');
+    expect(calls[1]).toContain('Asistente: Sí, ambas');
+  });
+
+  it('debe usar el historial del contexto cuando no hay sesión persistente', async () => {
+    const failingSummary = async () => {
+      throw new Error('sin conexión');
+    };
+
+    const memory = await loadConversationMemory(undefined, '¿Tienen alberca?', failingSummary, { ...OPTIONS, maxMessages: 1 }, HISTORY);
+    expect(memory.messages).toEqual([
+      { role: 'assistant', content: 'Tengo dos opciones en Juriquilla' },
+      { role: 'user', content: '¿Tienen alberca?' },
+    ]);
+    expect(memory.summary).toBeNull();
+
+    const empty = await loadConversationMemory(undefined, 'Hola', failingSummary, OPTIONS);
+    expect(empty.messages).toEqual([{ role: 'user', content: 'Hola' }]);
+  });
+
+  it('debe registrar los mensajes del flujo en el contexto y recortar el historial', async () => {
+    const flow: RuntimeFlow = {
+      id: 'flow-1',
+      name: 'Bienvenida',
+      version: '1',
+      entryNodeId: 'inicio',
+      tenantId: 't1',
+      nodes: { inicio: { id: 'inicio', type: NodeType.MESSAGE, content: '¡Hola! ¿En qué te ayudo?' } },
+    };
+
+    const { state } = await processFlowMessage(flow, 'Hola', 'u1', 's1');
+    expect(state.context.conversationHistory.map((entry: ConversationMessage) => [entry.type, entry.content])).toEqual([
+      ['user', 'Hola'],
+      ['bot', '¡Hola! ¿En qué te ayudo?'],
+    ]);
+
+    const context: Record<string, any> = {
+      conversationHistory: HISTORY,
+      conversationSummary: { text: 'Busca casa', coveredCount: 4, updatedAt: '' },
+    };
+    recordConversationTurn(context, 'bot', 'Sí, ambas', 'ai', 4);
+    expect(context.conversationHistory.map((entry: ConversationMessage) => entry.content)).toEqual([
+      'Nodo de captura completado',
+      'Tengo dos opciones en Juriquilla',
+      '¿Tienen alberca?',
+      'Sí, ambas',
+    ]);
+    expect(context.conversationSummary.coveredCount).toBe(1);
+    expect(HISTORY).toHaveLength(6);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * TESTS PARA EL LINTER DE FLUJOS
+ *
+ * PROPÓSITO: Verificar el análisis estático del grafo de un flujo
+ * CUBRE: Nodos inalcanzables, callejones sin salida, ciclos sin entrada del
+ *        usuario, variables sin uso o sin captura, botones sin conexión y
+ *        retrocesos en el sales funnel
+ *
+ * @version 1.0.0
+ * @created 2025-06-11
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { lintFlow, FlowLintResult } from '../flowLinter';
+import { FlowNode, NodeType, ConditionType } from '../../models/flow.types';
+
+const codesFor = (result: FlowLintResult, nodeId?: string) =>
+  result.issues.filter((issue) => !nodeId || issue.nodeId === nodeId).map((issue) => issue.code);
+
+const validNodes = (): Record<string, FlowNode> => ({
+  inicio: { id: 'inicio', type: NodeType.START, content: '', next: 'pregunta' },
+  pregunta: {
+    id: 'pregunta',
+    type: NodeType.INPUT,
+    content: '¿Cómo te llamas?',
+    metadata: { variableName: 'cliente' },
+    next: 'opciones',
+  },
+  opciones: {
+    id: 'opciones',
+    type: NodeType.BUTTONS_NODE,
+    content: 'Hola {{cliente}}, ¿qué buscas?',
+    metadata: {
+      buttons: [
+        { id: 'b1', text: 'Comprar', handle: 'handle-0' },
+        { id: 'b2', text: 'Rentar', handle: 'handle-1' },
+      ],
+      edges: [
+        { sourceHandle: 'handle-0', target: 'fin' },
+        { sourceHandle: 'handle-1', target: 'fin' },
+      ],
+    } as any,
+  },
+  fin: { id: 'fin', type: NodeType.END_NODE, content: 'Gracias, {{company_name}} te contactará' },
+});
+
+describe('Linter de flujos', () => {
+  it('no debe reportar problemas en un flujo correcto', () => {
+    const result = lintFlow({ entryNodeId: 'inicio', nodes: validNodes() });
+
+    expect(result.issues).toEqual([]);
+    expect(result.valid).toBe(true);
+  });
+
+  it('debe detectar nodos inalcanzables, callejones y referencias rotas', () => {
+    const nodes = validNodes();
+    nodes.huerfano = { id: 'huerfano', type: NodeType.MESSAGE, content: 'Nadie llega aquí', next: 'fin' };
+    nodes.fin = { id: 'fin', type: NodeType.MESSAGE, content: 'Gracias', next: 'no-existe' };
+
+    const result = lintFlow({ entryNodeId: 'inicio', nodes });
+
+    expect(codesFor(result, 'huerfano')).toEqual(['UNREACHABLE_NODE']);
+    expect(codesFor(result, 'fin')).toEqual(['BROKEN_REFERENCE', 'DEAD_END']);
+    expect(result.valid).toBe(false);
+
+    expect(codesFor(lintFlow({ entryNodeId: 'otro', nodes: validNodes() }))).toContain('MISSING_ENTRY');
+  });
+
+  it('debe detectar ciclos que nunca esperan al usuario', () => {
+    const nodes = validNodes();
+    nodes.fin = { id: 'fin', type: NodeType.MESSAGE, content: 'Revisando...', next: 'revisar' };
+    nodes.revisar = {
+      id: 'revisar',
+      type: NodeType.CONDITION,
+      content: '',
+      next: [{ condition: { type: ConditionType.EXPRESSION, value: 'cliente != ""' }, nextNodeId: 'fin' }],
+    };
+
+    const result = lintFlow({ entryNodeId: 'inicio', nodes });
+    const loop = result.issues.find((issue) => issue.code === 'INFINITE_LOOP');
+
+    expect(loop?.nodeIds).toEqual(['fin', 'revisar']);
+
+    // Si el ciclo vuelve a preguntar al usuario ya no es infinito
+    nodes.revisar.next = [{ condition: { type: ConditionType.EXPRESSION, value: 'cliente != ""' }, nextNodeId: 'pregunta' }];
+    expect(codesFor(lintFlow({ entryNodeId: 'inicio', nodes }))).not.toContain('INFINITE_LOOP');
+  });
+
+  it('debe reportar variables sin uso y variables nunca capturadas', () => {
+    const nodes = validNodes();
+    nodes.opciones.content = 'Hola {{nombre_cliente}}, ¿qué buscas?';
+
+    const result = lintFlow({ entryNodeId: 'inicio', nodes });
+
+    expect(codesFor(result, 'pregunta')).toEqual(['UNUSED_VARIABLE']);
+    expect(result.issues.find((issue) => issue.code === 'UNDEFINED_VARIABLE')).toMatchObject({
+      nodeId: 'opciones',
+      details: { variable: 'nombre_cliente' },
+    });
+
+    const withKnown = lintFlow({ entryNodeId: 'inicio', nodes }, { knownVariables: ['nombre_cliente'] });
+    expect(codesFor(withKnown)).not.toContain('UNDEFINED_VARIABLE');
+  });
+
+  it('debe detectar botones sin conexión para su handle', () => {
+    const nodes = validNodes();
+    (nodes.opciones.metadata as any).edges = [{ sourceHandle: 'handle-0', target: 'fin' }];
+
+    const result = lintFlow({ entryNodeId: 'inicio', nodes });
+    expect(result.issues.find((issue) => issue.code === 'BUTTON_WITHOUT_EDGE')).toMatchObject({
+      nodeId: 'opciones',
+      severity: 'error',
+      details: { handle: 'handle-1', index: 1 },
+    });
+
+    nodes.opciones.next = 'fin';
+    expect(codesFor(lintFlow({ entryNodeId: 'inicio', nodes }), 'opciones')).toEqual(['BUTTON_GENERIC_EDGE']);
+  });
+
+  it('debe advertir cuando un nodo regresa al lead a una etapa anterior', () => {
+    const nodes = validNodes();
+    nodes.pregunta.metadata = { ...nodes.pregunta.metadata, movesToStage: 'calificacion' } as any;
+    nodes.fin.metadata = { salesStageId: 'prospecting' } as any;
+
+    const result = lintFlow({ entryNodeId: 'inicio', nodes });
+
+    expect(result.issues.find((issue) => issue.code === 'BACKWARD_STAGE_MOVE')).toMatchObject({
+      nodeId: 'fin',
+      details: { from: 'qualification', to: 'prospecting' },
+    });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * TESTS PARA EL MERGE DE FLUJOS CON PLANTILLAS
+ *
+ * PROPÓSITO: Verificar que las actualizaciones de una plantilla se apliquen a las
+ *            instancias de los tenants sin perder sus personalizaciones
+ * CUBRE: Cambios sin conflicto, ediciones del tenant, conflictos en nodos
+ *        editables, instancias sin base y resolución de conflictos
+ *
+ * @version 1.0.0
+ * @created 2025-06-10
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { mergeFlowWithTemplate, resolveMergeConflicts } from '../flowMerge';
+import { FlowSnapshot, NodeType } from '../../models/flow.types';
+
+const buildTemplate = (): FlowSnapshot => ({
+  name: 'Plantilla inmobiliaria',
+  entryNodeId: 'inicio',
+  nodes: {
+    inicio: { id: 'inicio', type: NodeType.MESSAGE, content: 'Hola', next: 'saludo', x: 0, y: 0 },
+    saludo: { id: 'saludo', type: NodeType.MESSAGE, content: 'Bienvenido a la inmobiliaria', next: 'fin', isEditable: true },
+    fin: { id: 'fin', type: NodeType.MESSAGE, content: 'Gracias' },
+  },
+});
+
+const clone = (snapshot: FlowSnapshot): FlowSnapshot => JSON.parse(JSON.stringify(snapshot));
+
+describe('Merge de flujos con plantillas', () => {
+  it('debe aplicar los cambios de la plantilla y conservar las ediciones del tenant', () => {
+    const base = buildTemplate();
+
+    const instance = clone(base);
+    instance.nodes.saludo.content = 'Bienvenido a Casas del Norte';
+    instance.nodes.inicio.x = 300;
+
+    const template = clone(base);
+    template.nodes.inicio.content = 'Hola 👋';
+    template.nodes.fin.next = 'encuesta';
+    template.nodes.encuesta = { id: 'encuesta', type: NodeType.INPUT, content: '¿Te ayudamos?' };
+
+    const result = mergeFlowWithTemplate(base, template, instance, ['saludo']);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.nodes.inicio.content).toBe('Hola 👋');
+    expect(result.nodes.inicio.x).toBe(300);
+    expect(result.nodes.saludo.content).toBe('Bienvenido a Casas del Norte');
+    expect(result.nodes.encuesta).toBeDefined();
+    expect(result.applied.map((change) => [change.nodeId, change.change])).toEqual([
+      ['encuesta', 'added'],
+      ['fin', 'modified'],
+      ['inicio', 'modified'],
+    ]);
+    expect(result.keptInstanceChanges).toEqual(['saludo']);
+    expect(result.hasTemplateChanges).toBe(true);
+  });
+
+  it('debe combinar campos distintos de un mismo nodo editable', () => {
+    const base = buildTemplate();
+    const instance = clone(base);
+    instance.nodes.saludo.content = 'Bienvenido a Casas del Norte';
+    const template = clone(base);
+    template.nodes.saludo.next = 'inicio';
+
+    const result = mergeFlowWithTemplate(base, template, instance);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.nodes.saludo).toMatchObject({ content: 'Bienvenido a Casas del Norte', next: 'inicio' });
+  });
+
+  it('debe reportar conflictos en nodos editables y sobrescribir los no editables', () => {
+    const base = buildTemplate();
+    const instance = clone(base);
+    instance.nodes.saludo.content = 'Bienvenido a Casas del Norte';
+    instance.nodes.fin.content = 'Gracias por escribir';
+
+    const template = clone(base);
+    template.nodes.saludo.content = 'Bienvenido, ¿buscas comprar o rentar?';
+    template.nodes.fin.content = 'Gracias, te contactaremos';
+
+    const result = mergeFlowWithTemplate(base, template, instance);
+
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0]).toMatchObject({ nodeId: 'saludo', reason: 'both_modified', fields: ['content'] });
+    expect(result.nodes.saludo.content).toBe('Bienvenido a Casas del Norte');
+    expect(result.nodes.fin.content).toBe('Gracias, te contactaremos');
+    expect(result.applied.find((change) => change.nodeId === 'fin')?.overridesInstance).toBe(true);
+
+    // Un nodo editable modificado por el tenant y eliminado en la plantilla
+    const removed = clone(base);
+    delete removed.nodes.saludo;
+    removed.nodes.inicio.next = 'fin';
+    const removal = mergeFlowWithTemplate(base, removed, instance);
+    expect(removal.conflicts.map((conflict) => [conflict.nodeId, conflict.reason])).toEqual([
+      ['saludo', 'modified_and_removed'],
+    ]);
+  });
+
+  it('debe tratar las diferencias de instancias sin base como conflictos editables', () => {
+    const template = buildTemplate();
+    template.nodes.inicio.content = 'Hola de nuevo';
+    const instance = buildTemplate();
+    instance.nodes.saludo.content = 'Bienvenido a Casas del Norte';
+
+    const result = mergeFlowWithTemplate(null, template, instance);
+
+    expect(result.nodes.inicio.content).toBe('Hola de nuevo');
+    expect(result.conflicts.map((conflict) => [conflict.nodeId, conflict.reason])).toEqual([['saludo', 'no_base']]);
+  });
+
+  it('debe aplicar las resoluciones y detectar conflictos pendientes', () => {
+    const base = buildTemplate();
+    const instance = clone(base);
+    instance.nodes.saludo = { ...instance.nodes.saludo, content: 'Versión del tenant', x: 50 };
+    const template = clone(base);
+    template.nodes.saludo.content = 'Versión de la plantilla';
+
+    const result = mergeFlowWithTemplate(base, template, instance);
+
+    expect(resolveMergeConflicts(result, {}).unresolved.map((conflict) => conflict.nodeId)).toEqual(['saludo']);
+
+    const fromTemplate = resolveMergeConflicts(result, { saludo: 'template' });
+    expect(fromTemplate.unresolved).toEqual([]);
+    expect(fromTemplate.nodes.saludo).toMatchObject({ content: 'Versión de la plantilla', x: 50 });
+
+    const custom = resolveMergeConflicts(result, {
+      saludo: { id: 'otro', type: NodeType.MESSAGE, content: 'Texto combinado', next: 'fin' },
+    });
+    expect(custom.nodes.saludo).toMatchObject({ id: 'saludo', content: 'Texto combinado' });
+
+    expect(resolveMergeConflicts(result, { saludo: null }).nodes.saludo).toBeUndefined();
+  });
+});
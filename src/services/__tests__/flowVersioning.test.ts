@@ -0,0 +1,233 @@
+/**
+ * TESTS PARA EL VERSIONADO DE FLUJOS
+ *
+ * PROPÓSITO: Verificar las diferencias entre versiones y que las sesiones
+ *            conserven la versión con la que iniciaron
+ * CUBRE: diffFlowSnapshots, versionToRuntimeFlow, FlowService.processMessage
+ *        con versiones publicadas y publicaciones concurrentes
+ *
+ * @version 1.0.1
+ * @created 2025-06-09
+ */
+
+import { describe, it, expect, beforeEach, afterAll, jest } from '@jest/globals';
+
+jest.mock('../flowRepository', () => {
+  const actual = jest.requireActual('../flowRepository') as any;
+  return { ...actual, getActiveTenantFlow: jest.fn(), getFlowById: jest.fn(), setPublishedVersion: jest.fn() };
+});
+
+jest.mock('../supabase', () => {
+  const actual = jest.requireActual('../supabase') as any;
+  return { ...actual, getSupabaseClient: jest.fn() };
+});
+
+jest.mock('../flowVersionService', () => {
+  const actual = jest.requireActual('../flowVersionService') as any;
+  return { ...actual, getFlowVersion: jest.fn() };
+});
+
+import * as FlowRepository from '../flowRepository';
+import * as FlowVersionService from '../flowVersionService';
+import * as Supabase from '../supabase';
+import { diffFlowSnapshots, publishFlow, FlowVersionError } from '../flowVersionService';
+import { FlowService } from '../flowService';
+import { Flow, FlowSnapshot, FlowVersion, NodeType } from '../../models/flow.types';
+
+const mocked = (fn: any) => fn as jest.Mock<any>;
+
+const buildSnapshot = (greeting: string, question: string): FlowSnapshot => ({
+  name: 'Flujo de ventas',
+  entryNodeId: 'inicio',
+  nodes: {
+    inicio: { id: 'inicio', type: NodeType.MESSAGE, content: greeting, next: 'pregunta', x: 0, y: 0 },
+    pregunta: {
+      id: 'pregunta',
+      type: NodeType.INPUT,
+      content: question,
+      metadata: { variableName: 'nombre' },
+      next: 'fin',
+    },
+    fin: { id: 'fin', type: NodeType.MESSAGE, content: `Gracias {{nombre}} (${greeting})` },
+  },
+});
+
+const buildVersion = (id: string, versionNumber: number, snapshot: FlowSnapshot): FlowVersion => ({
+  id,
+  flowId: 'flujo-1',
+  tenantId: 'tenant-1',
+  versionNumber,
+  version: `${versionNumber}.0.0`,
+  snapshot,
+  createdAt: new Date('2025-06-09T10:00:00Z'),
+});
+
+describe('Versionado de flujos', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  it('debe detectar nodos agregados, eliminados y modificados', () => {
+    const before = buildSnapshot('Hola', '¿Cuál es tu nombre?');
+    const after = buildSnapshot('Hola', '¿Cómo te llamas?');
+    after.nodes.inicio = { ...after.nodes.inicio, x: 200 };
+    delete after.nodes.fin;
+    after.nodes.despedida = { id: 'despedida', type: NodeType.MESSAGE, content: 'Adiós' };
+    after.nodes.pregunta.next = 'despedida';
+    after.name = 'Flujo de ventas v2';
+
+    const diff = diffFlowSnapshots(before, after, { fromLabel: '1.0.0', toLabel: 'draft' });
+
+    expect(diff.from).toBe('1.0.0');
+    expect(diff.flowChanges).toEqual([{ field: 'name', before: 'Flujo de ventas', after: 'Flujo de ventas v2' }]);
+    expect(diff.addedNodes).toEqual(['despedida']);
+    expect(diff.removedNodes).toEqual(['fin']);
+    expect(diff.changedNodes).toEqual([
+      {
+        nodeId: 'pregunta',
+        changes: [
+          { field: 'content', before: '¿Cuál es tu nombre?', after: '¿Cómo te llamas?' },
+          { field: 'next', before: 'fin', after: 'despedida' },
+        ],
+      },
+    ]);
+    expect(diff.summary).toEqual({ added: 1, removed: 1, changed: 1, unchanged: 1 });
+
+    // Las posiciones solo cuentan si se piden explícitamente
+    const withLayout = diffFlowSnapshots(before, after, { includeLayout: true });
+    expect(withLayout.changedNodes.map((change) => change.nodeId)).toEqual(['inicio', 'pregunta']);
+  });
+
+  it('debe ignorar el orden de las claves al comparar metadata', () => {
+    const before = buildSnapshot('Hola', 'Nombre');
+    const after = buildSnapshot('Hola', 'Nombre');
+    before.nodes.pregunta.metadata = { variableName: 'nombre', required: true } as any;
+    after.nodes.pregunta.metadata = { required: true, variableName: 'nombre' } as any;
+
+    expect(diffFlowSnapshots(before, after).summary.changed).toBe(0);
+  });
+
+  it('debe mantener las sesiones en curso en su versión original', async () => {
+    const v1 = buildVersion('version-1', 1, buildSnapshot('Hola v1', 'Nombre v1'));
+    const v2 = buildVersion('version-2', 2, buildSnapshot('Hola v2', 'Nombre v2'));
+    const versions: Record<string, FlowVersion> = { 'version-1': v1, 'version-2': v2 };
+    mocked(FlowVersionService.getFlowVersion).mockImplementation(async (id: string) => versions[id] || null);
+
+    const draft: Flow = {
+      id: 'flujo-1',
+      name: 'Flujo de ventas',
+      version: '1.0.0',
+      ...buildSnapshot('Hola borrador', 'Nombre borrador'),
+      tenantId: 'tenant-1',
+      isActive: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      publishedVersionId: 'version-1',
+    };
+    mocked(FlowRepository.getActiveTenantFlow).mockResolvedValue(draft);
+
+    const service = new FlowService();
+
+    // Una sesión nueva ejecuta la versión publicada, no el borrador
+    const first = await service.processMessage('hola', 'usuario-1', 'sesion-1', 'tenant-1');
+    expect(first.response).toContain('Hola v1');
+    expect(first.response).not.toContain('borrador');
+    expect(first.state.flowVersionId).toBe('version-1');
+
+    // Se publica la versión 2 mientras la sesión espera respuesta
+    mocked(FlowRepository.getActiveTenantFlow).mockResolvedValue({ ...draft, publishedVersionId: 'version-2' });
+    service.clearCache('tenant-tenant-1');
+
+    const second = await service.processMessage('Ana', 'usuario-1', 'sesion-1', 'tenant-1', first.state);
+    expect(second.state.flowVersionId).toBe('version-1');
+    expect(second.response).toContain('Hola v1');
+    expect(second.response).not.toContain('v2');
+
+    const fresh = await service.processMessage('hola', 'usuario-2', 'sesion-2', 'tenant-1');
+    expect(fresh.response).toContain('Hola v2');
+    expect(fresh.state.flowVersionId).toBe('version-2');
+  });
+
+  describe('publishFlow', () => {
+    const draft = (): Flow => ({
+      id: 'flujo-1',
+      name: 'Flujo de ventas',
+      version: '1.0.0',
+      ...buildSnapshot('Hola', 'Nombre'),
+      tenantId: 'tenant-1',
+      isActive: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    /**
+     * Cliente de Supabase con la última versión leída y los resultados de cada insert
+     */
+    const mockSupabase = (lastVersions: number[], inserts: Array<{ data?: any; error?: any }>) => {
+      const inserted: any[] = [];
+      const client = {
+        from: () => {
+          const query: any = {
+            select: () => query,
+            eq: () => query,
+            order: () => query,
+            limit: () => query,
+            maybeSingle: async () => ({ data: { version_number: lastVersions.shift() } }),
+            insert: (row: any) => {
+              inserted.push(row);
+              return query;
+            },
+            single: async () => inserts.shift(),
+          };
+          return query;
+        },
+      };
+      mocked(Supabase.getSupabaseClient).mockReturnValue(client);
+      return inserted;
+    };
+
+    const versionRow = (versionNumber: number) => ({
+      id: `version-${versionNumber}`,
+      flow_id: 'flujo-1',
+      tenant_id: 'tenant-1',
+      version_number: versionNumber,
+      version: `${versionNumber}.0.0`,
+      snapshot: buildSnapshot('Hola', 'Nombre'),
+      created_at: '2025-06-17T10:00:00Z',
+    });
+
+    beforeEach(() => {
+      mocked(FlowRepository.getFlowById).mockResolvedValue(draft());
+      mocked(FlowRepository.setPublishedVersion).mockResolvedValue(true);
+    });
+
+    it('debe reintentar con el siguiente número cuando otra publicación tomó el mismo', async () => {
+      const inserted = mockSupabase([1, 2], [
+        { error: { code: '23505', message: 'duplicate key value' } },
+        { data: versionRow(3) },
+      ]);
+
+      const version = await publishFlow('flujo-1', { publishedBy: 'admin' });
+
+      expect(inserted.map((row) => row.version_number)).toEqual([2, 3]);
+      expect(version.versionNumber).toBe(3);
+      expect(FlowRepository.setPublishedVersion).toHaveBeenCalledWith('flujo-1', 'version-3', '3.0.0');
+    });
+
+    it('debe reportar CONFLICT si el conflicto persiste', async () => {
+      const conflict = { error: { code: '23505', message: 'duplicate key value' } };
+      mockSupabase([1, 1, 1], [conflict, conflict, conflict]);
+
+      const error = await publishFlow('flujo-1').catch((err) => err);
+
+      expect(error).toBeInstanceOf(FlowVersionError);
+      expect(error.code).toBe('CONFLICT');
+      expect(FlowRepository.setPublishedVersion).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * TESTS PARA LA BASE DE CONOCIMIENTO
+ *
+ * PROPÓSITO: Verificar la indexación y recuperación de documentos por tenant
+ * CUBRE: División en fragmentos (Markdown, PDF y solapamiento), ranking BM25,
+ *        aislamiento por tenant, fusión con embeddings y contexto con citas
+ *
+ * @version 1.0.0
+ * @created 2025-06-12
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  KnowledgeBase,
+  KnowledgeBaseError,
+  MemoryKnowledgeStore,
+  buildKnowledgePrompt,
+  chunkDocument,
+} from '../knowledgeBase';
+import { Bm25Index } from '../knowledgeBase/bm25Index';
+
+const POLICIES = `# Políticas
+
+## Apartado
+Para apartar una propiedad se requiere un depósito del 5% del valor.
+El depósito es reembolsable durante los primeros 7 días.
+
+## Mascotas
+En los departamentos en renta se permiten mascotas pequeñas con un depósito adicional.`;
+
+const FAQ = `Horario de atención: lunes a sábado de 9 a 19 horas.
+
+Aceptamos créditos Infonavit y Fovissste en todas las casas nuevas.`;
+
+describe('Base de conocimiento', () => {
+  it('debe dividir documentos respetando encabezados y páginas', () => {
+    const markdown = chunkDocument(POLICIES, 'markdown');
+    expect(markdown.map((chunk) => chunk.heading)).toEqual(['Políticas > Apartado', 'Políticas > Mascotas']);
+
+    const pdf = chunkDocument('Ficha técnica\fTerreno de 300 m2\f', 'pdf');
+    expect(pdf.map((chunk) => [chunk.page, chunk.content])).toEqual([
+      [1, 'Ficha técnica'],
+      [2, 'Terreno de 300 m2'],
+    ]);
+
+    const long = chunkDocument(
+      Array.from({ length: 6 }, (_, i) => `Párrafo ${i} con información de la propiedad número ${i}.`).join('\n\n'),
+      'text',
+      { maxChars: 120, overlapChars: 30 }
+    );
+    expect(long.length).toBeGreaterThan(2);
+    long.forEach((chunk) => expect(chunk.content.length).toBeLessThanOrEqual(160));
+    // Cada fragmento repite el final del anterior
+    expect(long[1].content).toContain(long[0].content.split(' ').slice(-2).join(' '));
+  });
+
+  it('debe ordenar por relevancia BM25 ignorando acentos y plurales', () => {
+    const index = new Bm25Index();
+    index.add('a', 'Aceptamos créditos Infonavit en casas nuevas');
+    index.add('b', 'Horario de atención de lunes a sábado');
+    index.add('c', 'Las casas de la zona norte tienen jardín');
+
+    expect(index.search('¿aceptan credito infonavit?').map((match) => match.id)).toEqual(['a']);
+    expect(index.search('casa').map((match) => match.id).sort()).toEqual(['a', 'c']);
+
+    index.remove('a');
+    expect(index.search('infonavit')).toEqual([]);
+    expect(index.size).toBe(2);
+  });
+
+  it('debe recuperar fragmentos citables solo del tenant', async () => {
+    const kb = new KnowledgeBase(new MemoryKnowledgeStore());
+    await kb.addDocument('tenant-1', { title: 'Políticas', content: POLICIES, format: 'markdown' });
+    await kb.addDocument('tenant-1', { title: 'FAQ', content: FAQ, source: 'faq.txt' });
+    await kb.addDocument('tenant-2', { title: 'Otro', content: 'El depósito de apartado es del 20%.' });
+
+    const results = await kb.search('tenant-1', '¿Cuánto es el depósito para apartar?', 2);
+    expect(results[0]).toMatchObject({ citation: 1, title: 'Políticas', heading: 'Políticas > Apartado' });
+    expect(results.every((passage) => passage.title !== 'Otro')).toBe(true);
+
+    const prompt = buildKnowledgePrompt(results);
+    expect(prompt).toContain('[1] Políticas > Apartado');
+    expect(prompt).toContain('depósito del 5%');
+
+    await expect(kb.addDocument('tenant-1', { title: 'Vacío', content: '  ' })).rejects.toBeInstanceOf(KnowledgeBaseError);
+
+    const [policies] = (await kb.listDocuments('tenant-1')).filter((document) => document.title === 'Políticas');
+    await kb.deleteDocument('tenant-1', policies.id);
+    const afterDelete = await kb.search('tenant-1', 'depósito para apartar');
+    expect(afterDelete.every((passage) => passage.title !== 'Políticas')).toBe(true);
+    await expect(kb.deleteDocument('tenant-1', policies.id)).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  it('debe combinar la búsqueda léxica con embeddings', async () => {
+    // Embeddings de prueba: "alberca" y "piscina" comparten dimensión
+    const vocabulary = [['alberca', 'piscina'], ['jardin', 'jardín'], ['estacionamiento', 'cochera']];
+    const embeddingProvider = {
+      model: 'prueba',
+      embed: async (texts: string[]) =>
+        texts.map((text) => vocabulary.map((words) => (words.some((word) => text.toLowerCase().includes(word)) ? 1 : 0))),
+    };
+
+    const kb = new KnowledgeBase(new MemoryKnowledgeStore(), embeddingProvider);
+    await kb.addDocument('tenant-1', { title: 'Amenidades', content: 'El fraccionamiento tiene alberca techada.' });
+    await kb.addDocument('tenant-1', { title: 'Cocheras', content: 'Cada casa incluye cochera para dos autos.' });
+
+    const results = await kb.search('tenant-1', '¿tienen piscina?', 1);
+    expect(results.map((passage) => passage.title)).toEqual(['Amenidades']);
+  });
+
+  it('debe limitar el contexto al tamaño máximo', () => {
+    const passage = { citation: 1, chunkId: 'c', documentId: 'd', title: 'FAQ', content: 'x'.repeat(500), score: 1 };
+    const prompt = buildKnowledgePrompt([passage, { ...passage, citation: 2 }], 400);
+
+    expect(prompt.length).toBeLessThanOrEqual(400);
+    expect(prompt).toContain('[1] FAQ');
+    expect(prompt).not.toContain('[2]');
+    expect(buildKnowledgePrompt([])).toBe('');
+  });
+});
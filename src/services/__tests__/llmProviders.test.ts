@@ -0,0 +1,97 @@
+/**
+ * TESTS PARA LOS PROVEEDORES DE LLM
+ *
+ * PROPÓSITO: Verificar la selección de proveedor, el respaldo y la contabilidad de tokens
+ * CUBRE: Proveedor programado, orden nodo > tenant > global, modelo por proveedor,
+ *        respaldo ante fallas y registro de uso por tenant
+ *
+ * @version 1.0.0
+ * @created 2025-06-14
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  LLMService,
+  LLMProviderError,
+  ScriptedLLMProvider,
+  LocalLLMProvider,
+  TenantLLMSettings,
+  ScriptedRule,
+} from '../llm';
+
+const REQUEST = { systemPrompt: 'Eres un asesor inmobiliario', messages: [{ role: 'user' as const, content: '¿Tienen casas en renta?' }] };
+
+function createService(
+  settings: Record<string, TenantLLMSettings> = {},
+  primaryRules: ScriptedRule[] = [{ match: 'renta', response: 'Sí, tenemos tres casas en renta.' }],
+  localRules: ScriptedRule[] = []
+) {
+  const primary = new ScriptedLLMProvider(primaryRules, 'No entendí', 'openai');
+  const local = new ScriptedLLMProvider(localRules, 'Respuesta local', 'local');
+  const recorded: Array<[string, number]> = [];
+
+  const service = new LLMService(
+    [primary, local],
+    async (tenantId) => settings[tenantId] || null,
+    async (tenantId, tokens) => {
+      recorded.push([tenantId, tokens]);
+    }
+  );
+
+  return { service, primary, local, recorded };
+}
+
+describe('Proveedores de LLM', () => {
+  it('debe responder de forma determinista con el proveedor programado', async () => {
+    const provider = new ScriptedLLMProvider([
+      { match: /horario/i, response: 'De 9 a 19 horas' },
+      { match: 'caída', response: new Error('servicio caído') },
+    ]);
+
+    const response = await provider.complete({ ...REQUEST, messages: [{ role: 'user', content: '¿Cuál es su Horario?' }] });
+    expect(response).toMatchObject({ text: 'De 9 a 19 horas', provider: 'scripted', model: 'scripted' });
+    expect(response.usage.totalTokens).toBe(response.usage.promptTokens + response.usage.completionTokens);
+
+    await expect(provider.complete({ ...REQUEST, messages: [{ role: 'user', content: 'simula caída' }] }))
+      .rejects.toBeInstanceOf(LLMProviderError);
+    expect(provider.requests).toHaveLength(2);
+  });
+
+  it('debe ordenar proveedores del nodo, del tenant y globales sin repetir', async () => {
+    const { service } = createService({ 'tenant-1': { tenant_id: 'tenant-1', provider: 'local', fallback_providers: ['openai', 'ollama'] } });
+
+    expect(await service.resolveProviderOrder({ tenantId: 'tenant-1' })).toEqual(['local', 'openai']);
+    expect(await service.resolveProviderOrder({ tenantId: 'tenant-1', provider: 'openai' })).toEqual(['openai', 'local']);
+    expect(await service.resolveProviderOrder({ tenantId: 'otro' })).toEqual(['openai']);
+  });
+
+  it('debe usar el respaldo cuando falla el proveedor y registrar el uso', async () => {
+    const { service, primary, local, recorded } = createService(
+      { 'tenant-1': { tenant_id: 'tenant-1', provider: 'openai', fallback_providers: ['local'], model: 'gpt-4o' } },
+      [{ response: new Error('429') }]
+    );
+
+    const response = await service.complete({ ...REQUEST, model: 'gpt-4.1' }, { tenantId: 'tenant-1' });
+
+    expect(response).toMatchObject({ text: 'Respuesta local', provider: 'local' });
+    // El modelo pedido solo aplica al primer proveedor
+    expect(primary.requests[0].model).toBe('gpt-4.1');
+    expect(local.requests[0].model).toBeUndefined();
+    expect(recorded).toEqual([['tenant-1', response.usage.totalTokens]]);
+    expect(service.getUsageStats('tenant-1')).toMatchObject({
+      openai: { calls: 0, failures: 1, totalTokens: 0 },
+      local: { calls: 1, failures: 0, totalTokens: response.usage.totalTokens },
+    });
+  });
+
+  it('debe fallar cuando ningún proveedor responde o está disponible', async () => {
+    const { service } = createService({}, [{ response: new Error('sin conexión') }], [{ response: new Error('apagado') }]);
+
+    await expect(service.complete(REQUEST, { fallbackProviders: ['local'] }))
+      .rejects.toMatchObject({ code: 'ALL_PROVIDERS_FAILED' });
+
+    // Un servidor local sin URL no está disponible
+    const offline = new LLMService([new LocalLLMProvider('')], async () => null, async () => undefined);
+    await expect(offline.complete(REQUEST, { provider: 'local' })).rejects.toMatchObject({ code: 'NOT_CONFIGURED' });
+  });
+});
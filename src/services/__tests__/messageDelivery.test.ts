@@ -0,0 +1,142 @@
+/**
+ * TESTS PARA EL REGISTRO DE ENTREGA DE MENSAJES SALIENTES
+ *
+ * PROPÓSITO: Verificar estados, reintentos y línea de tiempo con un proveedor falso
+ * CUBRE: Envío registrado, estados informados por el proveedor (delivered, read, failed),
+ *        reintento con espera exponencial de fallos transitorios (solo errores HTTP
+ *        reintentables y de red), fallos definitivos
+ *
+ * @version 1.0.1
+ * @created 2025-06-17
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { EventEmitter } from 'events';
+import {
+  MessageDeliveryService,
+  MemoryMessageDeliveryStore,
+  MessageDeliveryDependencies,
+  isTransientDeliveryError,
+} from '../messageDelivery';
+
+const TENANT = '11111111-1111-1111-1111-111111111111';
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// Error de red de Node (sin respuesta HTTP)
+function networkError(code: string, message: string): Error {
+  return Object.assign(new Error(message), { code });
+}
+
+describe('Registro de entrega de mensajes', () => {
+  let store: MemoryMessageDeliveryStore;
+  let provider: EventEmitter;
+  let failures: Error[];
+  let sent: Array<{ to: string; content: string }>;
+  let service: MessageDeliveryService;
+
+  const deps: MessageDeliveryDependencies = {
+    resolveProvider: async () => provider as any,
+    dispatch: async (_provider, delivery) => {
+      const failure = failures.shift();
+      if (failure) throw failure;
+      sent.push({ to: delivery.recipient, content: delivery.content });
+      return { messageId: `wamid.${sent.length}` };
+    },
+  };
+
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(() => {
+    store = new MemoryMessageDeliveryStore();
+    provider = new EventEmitter();
+    failures = [];
+    sent = [];
+    service = new MessageDeliveryService(store, deps, { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 60000 });
+  });
+
+  it('debe registrar el envío y aplicar los estados que informa el proveedor', async () => {
+    const delivery = await service.deliver(TENANT, { type: 'text', to: '+52 1 55 1111 2222', text: 'Hola' });
+    expect(delivery).toMatchObject({ status: 'sent', attempts: 1, channel_message_id: 'wamid.1', recipient_key: '5215511112222' });
+
+    const readAt = Math.floor(Date.now() / 1000) + 10;
+    provider.emit('message_status', { messageId: 'wamid.1', status: 'read', timestamp: String(readAt) });
+    await flush();
+    // Un "delivered" que llega después de "read" no hace retroceder el estado
+    provider.emit('message_status', { messageId: 'wamid.1', status: 'delivered', timestamp: String(readAt - 5) });
+    provider.emit('message_status', { messageId: 'wamid.otro', status: 'delivered' });
+    await flush();
+
+    const timeline = await service.getTimeline(TENANT, '5215511112222');
+    expect(timeline.deliveries).toHaveLength(1);
+    expect(timeline.deliveries[0]).toMatchObject({
+      status: 'read',
+      read_at: new Date(readAt * 1000).toISOString(),
+      delivered_at: new Date(readAt * 1000).toISOString(),
+    });
+    expect(timeline.deliveries[0].events.map((event) => event.status)).toEqual(['queued', 'sent', 'read']);
+  });
+
+  it('debe reintentar los fallos transitorios con espera exponencial', async () => {
+    failures = [new HttpError(503, 'Service Unavailable'), new HttpError(429, 'Too Many Requests')];
+    const now = new Date('2025-06-17T10:00:00Z');
+
+    const delivery = await service.deliver(TENANT, { type: 'buttons', to: '5215511112222', text: '¿Confirmas?', payload: { buttons: [{ body: 'Sí' }] } }, now);
+    expect(delivery.status).toBe('queued');
+    expect(delivery.next_attempt_at).toBe('2025-06-17T10:00:01.000Z');
+
+    expect(await service.processRetries(new Date('2025-06-17T10:00:00.500Z'))).toBe(0);
+    expect(await service.processRetries(new Date('2025-06-17T10:00:01Z'))).toBe(1);
+    expect(store.deliveries[0]).toMatchObject({ status: 'queued', attempts: 2, next_attempt_at: '2025-06-17T10:00:03.000Z' });
+
+    expect(await service.processRetries(new Date('2025-06-17T10:00:03Z'))).toBe(1);
+    expect(store.deliveries[0]).toMatchObject({ status: 'sent', attempts: 3, last_error: null, next_attempt_at: null });
+    expect(sent).toEqual([{ to: '5215511112222', content: '¿Confirmas?' }]);
+
+    const events = store.events.map((event) => event.status);
+    expect(events).toEqual(['queued', 'queued', 'queued', 'sent']);
+  });
+
+  it('debe marcar como fallidos los errores definitivos y los que agotan los intentos', async () => {
+    failures = [new HttpError(400, 'Invalid parameter')];
+    const rejected = await service.deliver(TENANT, { type: 'text', to: '5215500000001', text: 'Hola' });
+    expect(rejected).toMatchObject({ status: 'failed', attempts: 1, last_error: 'Invalid parameter' });
+
+    failures = [networkError('ECONNRESET', 'socket hang up'), networkError('ECONNRESET', 'socket hang up'), networkError('ECONNRESET', 'socket hang up')];
+    const now = new Date('2025-06-17T10:00:00Z');
+    await service.deliver(TENANT, { type: 'text', to: '5215500000002', text: 'Hola' }, now);
+    await service.processRetries(new Date('2025-06-17T10:00:01Z'));
+    await service.processRetries(new Date('2025-06-17T10:00:03Z'));
+    expect(store.deliveries[1]).toMatchObject({ status: 'failed', attempts: 3, last_error: 'socket hang up' });
+    expect(await service.processRetries(new Date('2025-06-17T11:00:00Z'))).toBe(0);
+  });
+
+  it('debe reintentar los fallos de entrega transitorios que informa el proveedor', async () => {
+    await service.deliver(TENANT, { type: 'text', to: '5215511112222', text: 'Uno' });
+    await service.deliver(TENANT, { type: 'text', to: '5215511112222', text: 'Dos' });
+
+    const now = new Date('2025-06-17T10:00:00Z');
+    await service.handleStatusUpdate({ messageId: 'wamid.1', status: 'failed', error: { code: 130429, title: 'Rate limit hit' } }, now);
+    await service.handleStatusUpdate({ messageId: 'wamid.2', status: 'failed', error: { code: 131047, title: 'Re-engagement message' } }, now);
+
+    expect(store.deliveries[0]).toMatchObject({ status: 'queued', last_error: 'Rate limit hit (130429)' });
+    expect(store.deliveries[1]).toMatchObject({ status: 'failed', last_error: 'Re-engagement message (131047)' });
+
+    await service.processRetries(new Date('2025-06-17T10:00:01Z'));
+    expect(store.deliveries[0]).toMatchObject({ status: 'sent', attempts: 2, channel_message_id: 'wamid.3' });
+  });
+
+  it('debe clasificar los errores transitorios', () => {
+    expect(isTransientDeliveryError(new HttpError(502, 'Bad Gateway'))).toBe(true);
+    expect(isTransientDeliveryError(new HttpError(429, 'Too Many Requests'))).toBe(true);
+    expect(isTransientDeliveryError(new HttpError(401, 'Unauthorized'))).toBe(false);
+    expect(isTransientDeliveryError(networkError('ECONNRESET', 'read ECONNRESET'))).toBe(true);
+    expect(isTransientDeliveryError(new TypeError('fetch failed', { cause: networkError('ETIMEDOUT', 'timeout') }))).toBe(true);
+    expect(isTransientDeliveryError(new TypeError("Cannot read properties of undefined (reading 'id')"))).toBe(false);
+    expect(isTransientDeliveryError(new Error('Número de destinatario inválido'))).toBe(false);
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * TESTS PARA EL PROVEEDOR DE WHATSAPP CLOUD API (META)
+ *
+ * PROPÓSITO: Verificar el proveedor y el webhook contra una Graph API simulada en local
+ * CUBRE: Texto, botones y listas nativos, subida y descarga de multimedia,
+ *        verificación hub.verify_token, firma X-Hub-Signature-256,
+ *        mensajes entrantes y estados de entrega/lectura, entradas firmadas
+ *        con el secreto de otro número y archivos locales fuera de los directorios de medios
+ *
+ * @version 1.0.0
+ * @created 2025-06-17
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { AddressInfo } from 'net';
+import axios from 'axios';
+import express from 'express';
+import { config } from '../../config';
+import { MetaCloudProvider, MetaMessageStatus } from '../../provider/metaProvider';
+import metaWebhookRouter from '../../api/metaWebhook';
+
+interface GraphRequest {
+  method: string;
+  url: string;
+  authorization?: string;
+  contentType?: string;
+  body: Buffer;
+}
+
+const PHONE_NUMBER_ID = '1234567890';
+
+/**
+ * Graph API simulada: responde como Meta y guarda las peticiones
+ */
+function startMockGraph(requests: GraphRequest[]): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => {
+      requests.push({
+        method: req.method || '',
+        url: req.url || '',
+        authorization: req.headers.authorization,
+        contentType: req.headers['content-type'],
+        body: Buffer.concat(chunks),
+      });
+      const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      const send = (data: unknown, type = 'application/json') => {
+        res.writeHead(200, { 'Content-Type': type });
+        res.end(type === 'application/json' ? JSON.stringify(data) : data);
+      };
+
+      if (req.url === `/v20.0/${PHONE_NUMBER_ID}`) return send({ display_phone_number: '+52 55 0000 0001' });
+      if (req.url === `/v20.0/${PHONE_NUMBER_ID}/messages`) return send({ messages: [{ id: `wamid.${requests.length}` }] });
+      if (req.url === `/v20.0/${PHONE_NUMBER_ID}/media`) return send({ id: 'media-up-1' });
+      if (req.url === '/v20.0/media-in-1') return send({ url: `${baseUrl}/files/media-in-1`, mime_type: 'image/png' });
+      if (req.url === '/files/media-in-1') return send(Buffer.from('png-data'), 'image/png');
+
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { message: 'Unknown path' } }));
+    });
+  });
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+const sign = (body: string, secret: string) =>
+  `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+
+describe('Proveedor de WhatsApp Cloud API', () => {
+  const requests: GraphRequest[] = [];
+  const originalMeta = { ...config.whatsapp.meta };
+  let graph: http.Server;
+  let webhook: http.Server;
+  let webhookUrl: string;
+  let directory: string;
+  let provider: MetaCloudProvider;
+
+  const lastMessage = () => JSON.parse(requests.filter((r) => r.url.endsWith('/messages')).pop()!.body.toString());
+
+  beforeAll(async () => {
+    graph = await startMockGraph(requests);
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'meta-provider-'));
+    Object.assign(config.whatsapp.meta, { appSecret: 'app-secret', verifyToken: 'verify-me' });
+
+    provider = new MetaCloudProvider({
+      accessToken: 'token-123',
+      phoneNumberId: PHONE_NUMBER_ID,
+      graphUrl: `http://127.0.0.1:${(graph.address() as AddressInfo).port}`,
+      apiVersion: 'v20.0',
+      mediaDir: directory,
+    });
+    await new Promise((resolve) => provider.on('ready', resolve));
+
+    const app = express();
+    app.use('/webhooks/meta', metaWebhookRouter);
+    webhook = await new Promise((resolve) => {
+      const server = app.listen(0, '127.0.0.1', () => resolve(server));
+    });
+    webhookUrl = `http://127.0.0.1:${(webhook.address() as AddressInfo).port}/webhooks/meta`;
+  });
+
+  afterAll(async () => {
+    Object.assign(config.whatsapp.meta, originalMeta);
+    await provider.close();
+    await new Promise((resolve) => graph.close(resolve));
+    await new Promise((resolve) => webhook.close(resolve));
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('debe enviar texto, botones nativos y listas con el token', async () => {
+    const sent = await provider.sendText('+52 1 55 1111 2222', 'Hola');
+    expect(sent.messageId).toMatch(/^wamid\./);
+    expect(requests[requests.length - 1].authorization).toBe('Bearer token-123');
+    expect(lastMessage()).toMatchObject({ messaging_product: 'whatsapp', to: '5215511112222', type: 'text', text: { body: 'Hola' } });
+
+    await provider.sendInteractiveButtons('5215511112222', '¿Qué deseas?', {
+      title: 'Menú',
+      buttons: [
+        { id: 'b1', text: 'Comprar', value: 'comprar' },
+        { id: 'b2', text: 'Hablar con un asesor de ventas' },
+      ],
+    });
+    expect(lastMessage().interactive).toMatchObject({
+      type: 'button',
+      header: { type: 'text', text: 'Menú' },
+      body: { text: '¿Qué deseas?' },
+      action: { buttons: [{ reply: { id: 'comprar', title: 'Comprar' } }, { reply: { id: 'b2', title: 'Hablar con un aseso…' } }] },
+    });
+
+    // Más de 3 botones no caben como respuesta rápida: se envían como lista
+    await provider.sendMessage('5215511112222', 'Elige', { options: { buttons: [{ body: 'A' }, { body: 'B' }, { body: 'C' }, { body: 'D' }] } });
+    const list = lastMessage().interactive;
+    expect(list.type).toBe('list');
+    expect(list.action.sections[0].rows.map((row: any) => row.title)).toEqual(['A', 'B', 'C', 'D']);
+
+    await provider.sendInteractiveList('5215511112222', 'Catálogo', {
+      buttonText: 'Ver productos',
+      maxItems: 2,
+      items: [
+        { id: 'p1', text: 'Producto 1', description: 'Descripción' },
+        { id: 'p2', text: 'Producto 2', disabled: true },
+        { id: 'p3', text: 'Producto 3' },
+      ],
+    });
+    expect(lastMessage().interactive.action).toEqual({
+      button: 'Ver productos',
+      sections: [{ title: 'Opciones', rows: [{ id: 'p1', title: 'Producto 1', description: 'Descripción' }, { id: 'p3', title: 'Producto 3' }] }],
+    });
+  });
+
+  it('debe subir archivos locales y descargar los medios recibidos', async () => {
+    const file = path.join(directory, 'foto.png');
+    fs.writeFileSync(file, 'fake-png');
+
+    await provider.sendMedia('5215511112222', file, 'Nuestra tienda');
+    const upload = requests.find((r) => r.url.endsWith('/media'))!;
+    expect(upload.contentType).toMatch(/^multipart\/form-data/);
+    expect(upload.body.toString()).toContain('fake-png');
+    expect(lastMessage()).toMatchObject({ type: 'image', image: { id: 'media-up-1', caption: 'Nuestra tienda' } });
+
+    const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'meta-outside-'));
+    fs.writeFileSync(path.join(outside, '.env'), 'SECRET=1');
+    await expect(provider.sendMedia('5215511112222', path.join(outside, '.env'))).rejects.toMatchObject({ code: 'MEDIA_NOT_ALLOWED' });
+    await expect(provider.sendMedia('5215511112222', path.join(directory, '..', path.basename(outside), '.env')))
+      .rejects.toMatchObject({ code: 'MEDIA_NOT_ALLOWED' });
+    expect(requests.filter((r) => r.url.endsWith('/media'))).toHaveLength(1);
+    fs.rmSync(outside, { recursive: true, force: true });
+
+    await provider.sendMedia('5215511112222', 'https://example.com/catalogo.pdf');
+    expect(lastMessage()).toMatchObject({ type: 'document', document: { link: 'https://example.com/catalogo.pdf', filename: 'catalogo.pdf' } });
+
+    const saved = await provider.saveFile({ media: { id: 'media-in-1' } });
+    expect(path.extname(saved)).toBe('.png');
+    expect(fs.readFileSync(saved, 'utf8')).toBe('png-data');
+  });
+
+  it('debe verificar la suscripción y la firma del webhook', async () => {
+    const ok = await axios.get(webhookUrl, {
+      params: { 'hub.mode': 'subscribe', 'hub.verify_token': 'verify-me', 'hub.challenge': 'abc123' },
+    });
+    expect(ok.data).toBe('abc123');
+
+    const denied = await axios.get(webhookUrl, {
+      params: { 'hub.mode': 'subscribe', 'hub.verify_token': 'otro', 'hub.challenge': 'abc123' },
+      validateStatus: () => true,
+    });
+    expect(denied.status).toBe(403);
+
+    const body = JSON.stringify({ object: 'whatsapp_business_account', entry: [] });
+    const unsigned = await axios.post(webhookUrl, body, {
+      headers: { 'Content-Type': 'application/json', 'X-Hub-Signature-256': sign(body, 'otro-secreto') },
+      validateStatus: () => true,
+    });
+    expect(unsigned.status).toBe(401);
+  });
+
+  it('debe entregar mensajes entrantes y estados de entrega al proveedor del número', async () => {
+    const messages: any[] = [];
+    const statuses: MetaMessageStatus[] = [];
+    const hosts: string[] = [];
+    provider.on('message', (message) => messages.push(message));
+    provider.on('message_status', (status) => statuses.push(status));
+    provider.on('host', (host) => hosts.push(host.phone));
+
+    const value = (extra: Record<string, unknown>) => ({
+      object: 'whatsapp_business_account',
+      entry: [{ changes: [{ field: 'messages', value: { metadata: { phone_number_id: PHONE_NUMBER_ID, display_phone_number: '525500000001' }, ...extra } }] }],
+    });
+    const post = (payload: unknown) => {
+      const body = JSON.stringify(payload);
+      return axios.post(webhookUrl, body, {
+        headers: { 'Content-Type': 'application/json', 'X-Hub-Signature-256': sign(body, 'app-secret') },
+      });
+    };
+
+    await post(value({
+      contacts: [{ wa_id: '5215511112222', profile: { name: 'Ana' } }],
+      messages: [
+        { from: '5215511112222', id: 'wamid.in1', timestamp: '1718600000', type: 'interactive', interactive: { type: 'button_reply', button_reply: { id: 'comprar', title: 'Comprar' } } },
+        { from: '5215511112222', id: 'wamid.in2', timestamp: '1718600001', type: 'audio', audio: { id: 'media-in-2', mime_type: 'audio/ogg; codecs=opus' } },
+      ],
+    }));
+    await post(value({
+      statuses: [
+        { id: 'wamid.out1', status: 'delivered', timestamp: '1718600002', recipient_id: '5215511112222' },
+        { id: 'wamid.out2', status: 'failed', timestamp: '1718600003', recipient_id: '5215511112222', errors: [{ code: 131047, title: 'Re-engagement message' }] },
+      ],
+    }));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(hosts).toContain('525500000001');
+    expect(messages[0]).toMatchObject({ from: '5215511112222', name: 'Ana', body: 'Comprar', buttonId: 'comprar' });
+    expect(messages[1].body).toMatch(/^_event_voice_note_/);
+    expect(messages[1].media).toEqual({ id: 'media-in-2', mimeType: 'audio/ogg; codecs=opus', filename: undefined });
+    expect(statuses).toEqual([
+      expect.objectContaining({ messageId: 'wamid.out1', status: 'delivered' }),
+      expect.objectContaining({ messageId: 'wamid.out2', status: 'failed', error: { code: 131047, title: 'Re-engagement message' } }),
+    ]);
+  });
+
+  it('debe descartar las entradas firmadas con el secreto de otro número', async () => {
+    const OTHER_PHONE_NUMBER_ID = '9876543210';
+    const own = new MetaCloudProvider({
+      accessToken: 'token-a',
+      phoneNumberId: '5550000001',
+      appSecret: 'secreto-a',
+      graphUrl: `http://127.0.0.1:${(graph.address() as AddressInfo).port}`,
+      apiVersion: 'v20.0',
+      mediaDir: directory,
+    });
+    const other = new MetaCloudProvider({
+      accessToken: 'token-b',
+      phoneNumberId: OTHER_PHONE_NUMBER_ID,
+      appSecret: 'secreto-b',
+      graphUrl: `http://127.0.0.1:${(graph.address() as AddressInfo).port}`,
+      apiVersion: 'v20.0',
+      mediaDir: directory,
+    });
+    const ownMessages: any[] = [];
+    const otherMessages: any[] = [];
+    own.on('message', (message) => ownMessages.push(message));
+    other.on('message', (message) => otherMessages.push(message));
+
+    const entry = (phoneNumberId: string, id: string) => ({
+      changes: [{ field: 'messages', value: {
+        metadata: { phone_number_id: phoneNumberId },
+        messages: [{ from: '5215511112222', id, timestamp: '1718600000', type: 'text', text: { body: 'hola' } }],
+      } }],
+    });
+    const body = JSON.stringify({
+      object: 'whatsapp_business_account',
+      entry: [entry('5550000001', 'wamid.propio'), entry(OTHER_PHONE_NUMBER_ID, 'wamid.ajeno')],
+    });
+
+    const originalSecret = config.whatsapp.meta.appSecret;
+    config.whatsapp.meta.appSecret = '';
+    try {
+      // Firmado con el secreto del tenant A pero nombrando también el número del tenant B
+      const response = await axios.post(webhookUrl, body, {
+        headers: { 'Content-Type': 'application/json', 'X-Hub-Signature-256': sign(body, 'secreto-a') },
+      });
+      expect(response.status).toBe(200);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(ownMessages.map((message) => message.body)).toEqual(['hola']);
+      expect(otherMessages).toEqual([]);
+
+      const forged = await axios.post(webhookUrl, JSON.stringify({
+        object: 'whatsapp_business_account',
+        entry: [entry(OTHER_PHONE_NUMBER_ID, 'wamid.ajeno2')],
+      }), {
+        headers: { 'Content-Type': 'application/json', 'X-Hub-Signature-256': sign(body, 'secreto-a') },
+        validateStatus: () => true,
+      });
+      expect(forged.status).toBe(401);
+    } finally {
+      config.whatsapp.meta.appSecret = originalSecret;
+      await own.close();
+      await other.close();
+    }
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * TESTS PARA LA EXTRACCIÓN DE SLOTS
+ *
+ * PROPÓSITO: Verificar que una sola respuesta libre llene varios datos del lead
+ * CUBRE: Nombre, correo, teléfono, presupuesto, tipo de propiedad, zona y fechas;
+ *        nodos de entrada que se omiten cuando su variable ya fue capturada;
+ *        slots de un nodo que incluyen la variable que el propio nodo captura
+ *
+ * @version 1.0.1
+ * @created 2025-06-16
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { extractName, extractNodeSlots, extractSlots, extractZone, normalizeSlotDefinitions } from '../nlu/slotExtractor';
+import { processFlowMessage } from '../flowProcessor';
+import { NodeType, RuntimeFlow } from '../../models/flow.types';
+
+function createLeadFlow(): RuntimeFlow {
+  return {
+    id: 'lead-flow',
+    name: 'Captura de lead',
+    version: '1',
+    tenantId: 'default',
+    entryNodeId: 'ask_name',
+    nodes: {
+      ask_name: { id: 'ask_name', type: NodeType.MESSAGE, content: '¿Cómo te llamas?', metadata: { waitForResponse: true } as any, next: 'in_name' },
+      in_name: {
+        id: 'in_name',
+        type: NodeType.INPUT,
+        content: '',
+        metadata: { variableName: 'nombre', slots: ['email', 'telefono', 'tipo_propiedad', 'recamaras'] },
+        next: 'ask_email',
+      },
+      ask_email: { id: 'ask_email', type: NodeType.MESSAGE, content: '¿Cuál es tu correo?', metadata: { waitForResponse: true } as any, next: 'in_email' },
+      in_email: { id: 'in_email', type: NodeType.INPUT, content: '', metadata: { variableName: 'email' }, next: 'ask_phone' },
+      ask_phone: { id: 'ask_phone', type: NodeType.MESSAGE, content: '¿A qué número te marcamos?', metadata: { waitForResponse: true } as any, next: 'in_phone' },
+      in_phone: { id: 'in_phone', type: NodeType.INPUT, content: '', metadata: { variableName: 'telefono' }, next: 'done' },
+      done: { id: 'done', type: NodeType.MESSAGE, content: 'Gracias', metadata: {} as any },
+    },
+  };
+}
+
+describe('Extracción de slots', () => {
+  const reference = new Date(2025, 5, 16); // lunes 16 de junio de 2025
+
+  it('debe llenar varios slots declarados con un solo mensaje', () => {
+    const slots = normalizeSlotDefinitions([
+      'nombre',
+      'email',
+      'presupuesto',
+      'tipo_propiedad',
+      { variable: 'zona_interes', type: 'zone' },
+      'fecha_visita',
+      'recamaras',
+      'campo_libre',
+    ]);
+
+    expect(slots.map((slot) => slot.variable)).not.toContain('campo_libre');
+    expect(
+      extractSlots(
+        'Soy Ana, mi correo es ana@x.com y busco casa de 3 recámaras en Zapopan hasta 2.5 millones, puedo verla mañana',
+        slots,
+        reference
+      )
+    ).toEqual({
+      nombre: 'Ana',
+      email: 'ana@x.com',
+      presupuesto: 2500000,
+      tipo_propiedad: 'casa',
+      zona_interes: 'Zapopan',
+      fecha_visita: '2025-06-17',
+      recamaras: 3,
+    });
+  });
+
+  it('debe distinguir nombres y zonas de frases parecidas', () => {
+    expect(extractName('me llamo ana maría lópez y quiero informes')).toBe('Ana María López');
+    expect(extractName('soy de Guadalajara')).toBeNull();
+    expect(extractZone('busco algo en la zona de Puerta de Hierro')).toBe('Puerta de Hierro');
+    expect(extractZone('pago en efectivo en Mayo')).toBeNull();
+    expect(extractZone('algo por providencia', ['Providencia', 'Chapalita'])).toBe('Providencia');
+  });
+
+  it('debe extraer la variable del nodo junto con sus slots declarados', () => {
+    expect(extractNodeSlots('Soy Ana, mi correo es ana@x.com', ['email'], 'nombre', reference))
+      .toEqual({ nombre: 'Ana', email: 'ana@x.com' });
+    expect(extractNodeSlots('Soy Ana, mi correo es ana@x.com', undefined, 'nombre', reference)).toEqual({});
+  });
+
+  it('debe omitir las preguntas cuyos datos ya se capturaron', async () => {
+    const flow = createLeadFlow();
+
+    const first = await processFlowMessage(flow, 'hola', 'u1', 's1');
+    expect(first.response).toBe('¿Cómo te llamas?');
+
+    const second = await processFlowMessage(flow, 'Soy Ana, mi correo es ana@x.com y busco casa de 3 recámaras', 'u1', 's1', first.state);
+    expect(second.response).toBe('¿A qué número te marcamos?');
+    expect(second.state.context).toMatchObject({ nombre: 'Ana', email: 'ana@x.com', tipo_propiedad: 'casa', recamaras: 3 });
+    expect(second.state.context.extractedSlots).toEqual({ tipo_propiedad: 'casa', recamaras: 3 });
+
+    const third = await processFlowMessage(flow, '33 1234 5678', 'u1', 's1', second.state);
+    expect(third.response).toBe('Gracias');
+    expect(third.state.context.telefono).toBe('33 1234 5678');
+    expect(third.state.context.email).toBe('ana@x.com');
+  });
+});
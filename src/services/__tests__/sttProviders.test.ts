@@ -0,0 +1,108 @@
+/**
+ * TESTS PARA LOS PROVEEDORES DE TRANSCRIPCIÓN DE VOZ
+ *
+ * PROPÓSITO: Verificar la transcripción con respaldo entre proveedores sin servicios externos
+ * CUBRE: Orden de respaldo, pista de idioma, formato detectado y lectura de
+ *        respuestas verbose_json de whisper.cpp y de servidores compatibles con OpenAI
+ *
+ * @version 1.0.0
+ * @created 2025-06-17
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  STTService,
+  STTProvider,
+  STTRequest,
+  STTTranscription,
+  createSilentWav,
+  normalizeLanguage,
+  parseWhisperResponse,
+} from '../speech';
+
+/**
+ * Proveedor de pruebas que devuelve una transcripción fija (o falla si se indica)
+ */
+class FakeSTTProvider implements STTProvider {
+  readonly requests: STTRequest[] = [];
+
+  constructor(readonly name: string, private result: STTTranscription | Error) {}
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async transcribe(request: STTRequest): Promise<STTTranscription> {
+    this.requests.push(request);
+    if (this.result instanceof Error) throw this.result;
+    return this.result;
+  }
+}
+
+describe('Proveedores de STT', () => {
+  it('debe pasar al siguiente proveedor si el solicitado falla o no devuelve texto', async () => {
+    const failing = new FakeSTTProvider('remote', new Error('sin conexión'));
+    const empty = new FakeSTTProvider('empty', { text: '  ', confidence: null, words: [] });
+    const local = new FakeSTTProvider('local', {
+      text: ' Busco casa en Polanco ',
+      confidence: 0.91,
+      words: [{ text: 'Busco', start: 0, end: 320, confidence: 0.95 }],
+    });
+    const service = new STTService([failing, empty, local]);
+
+    const result = await service.transcribe(createSilentWav(200), { provider: 'remote', language: 'es-MX' });
+
+    expect(result).toMatchObject({ text: 'Busco casa en Polanco', confidence: 0.91, provider: 'local', language: 'es' });
+    expect(failing.requests[0]).toMatchObject({ format: 'wav', mimeType: 'audio/wav', language: 'es' });
+    expect(service.resolveProviderOrder({ provider: 'remote' })[0]).toBe('remote');
+  });
+
+  it('debe fallar con código propio si ningún proveedor transcribe', async () => {
+    const service = new STTService([new FakeSTTProvider('remote', new Error('sin conexión'))]);
+
+    await expect(service.transcribe(createSilentWav(200), { provider: 'remote' })).rejects.toMatchObject({
+      code: 'ALL_PROVIDERS_FAILED',
+    });
+    await expect(new STTService([]).transcribe(createSilentWav(200))).rejects.toMatchObject({ code: 'NOT_CONFIGURED' });
+  });
+
+  it('debe normalizar la pista de idioma', () => {
+    expect(normalizeLanguage('es-MX')).toBe('es');
+    expect(normalizeLanguage('EN_us')).toBe('en');
+    expect(normalizeLanguage('')).toBe('es');
+    expect(normalizeLanguage(undefined)).toBe('es');
+  });
+
+  it('debe leer palabras, tiempos y confianza de whisper.cpp y de OpenAI', () => {
+    const whisperCpp = parseWhisperResponse({
+      text: ' Hola, quiero rentar.',
+      language: 'es',
+      segments: [
+        {
+          text: ' Hola, quiero rentar.',
+          words: [
+            { word: ' Hola,', start: 0, end: 0.42, probability: 0.9 },
+            { word: ' quiero', start: 0.42, end: 0.8, probability: 0.8 },
+            { word: ' rentar.', start: 0.8, end: 1.25, probability: 0.7 },
+          ],
+        },
+      ],
+    });
+
+    expect(whisperCpp.text).toBe('Hola, quiero rentar.');
+    expect(whisperCpp.confidence).toBe(0.8);
+    expect(whisperCpp.language).toBe('es');
+    expect(whisperCpp.words[2]).toEqual({ text: 'rentar.', start: 800, end: 1250, confidence: 0.7 });
+
+    const openAI = parseWhisperResponse({
+      text: 'Hola',
+      language: 'spanish',
+      words: [{ word: 'Hola', start: 0, end: 0.5 }],
+      segments: [{ text: 'Hola', avg_logprob: Math.log(0.5) }],
+    });
+
+    expect(openAI.confidence).toBe(0.5);
+    expect(openAI.language).toBeUndefined();
+    expect(openAI.words).toEqual([{ text: 'Hola', start: 0, end: 500, confidence: null }]);
+  });
+});
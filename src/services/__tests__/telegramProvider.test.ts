@@ -0,0 +1,225 @@
+/**
+ * TESTS PARA EL PROVEEDOR DE TELEGRAM
+ *
+ * PROPÓSITO: Verificar el proveedor contra un servidor local que simula la Bot API
+ * CUBRE: Teclados inline para nodos de botones y lista, long polling de getUpdates,
+ *        botones pulsados (callback_query) como selección, notas de voz al STT
+ *        y medios por URL o solo desde los directorios de medios
+ *
+ * @version 1.0.0
+ * @created 2025-06-17
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { TelegramProvider, TelegramIncomingMessage, toCallbackData } from '../../provider/telegramProvider';
+import { processButtonSelection } from '../buttonProcessor';
+
+const TOKEN = '123456:TEST';
+
+interface BotApiCall {
+  method: string;
+  params: any;
+}
+
+/**
+ * Bot API simulada: guarda las llamadas y entrega las actualizaciones encoladas
+ */
+function startFakeBotApi(calls: BotApiCall[], updates: any[]): Promise<http.Server> {
+  let messageId = 100;
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => {
+      const reply = (result: unknown) => {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ ok: true, result }));
+      };
+
+      if (req.url === `/file/bot${TOKEN}/voice/file_7.oga`) {
+        res.writeHead(200, { 'Content-Type': 'audio/ogg' });
+        return res.end(Buffer.from('ogg-opus-audio'));
+      }
+
+      const method = (req.url || '').replace(`/bot${TOKEN}/`, '');
+      const params = chunks.length ? JSON.parse(Buffer.concat(chunks).toString()) : {};
+      calls.push({ method, params });
+
+      switch (method) {
+        case 'getMe':
+          return reply({ id: 42, is_bot: true, username: 'pymebot_test' });
+        case 'getUpdates': {
+          const pending = updates.splice(0).filter((update) => update.update_id >= (params.offset || 0));
+          // Long polling abreviado: sin novedades responde tras una pausa corta
+          return pending.length ? reply(pending) : setTimeout(() => reply([]), 50);
+        }
+        case 'getFile':
+          return reply({ file_id: params.file_id, file_path: 'voice/file_7.oga' });
+        case 'answerCallbackQuery':
+          return reply(true);
+        default:
+          return reply({ message_id: ++messageId, chat: { id: params.chat_id } });
+      }
+    });
+  });
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+describe('Proveedor de Telegram', () => {
+  const calls: BotApiCall[] = [];
+  const updates: any[] = [];
+  const transcribed: Buffer[] = [];
+  let server: http.Server;
+  let directory: string;
+  let provider: TelegramProvider;
+  const received: TelegramIncomingMessage[] = [];
+
+  const sentCalls = () => calls.filter((call) => call.method !== 'getUpdates');
+  const nextMessage = async (): Promise<TelegramIncomingMessage> => {
+    const count = received.length;
+    for (let attempt = 0; attempt < 100 && received.length === count; attempt++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    return received[count];
+  };
+
+  beforeAll(async () => {
+    server = await startFakeBotApi(calls, updates);
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'telegram-provider-'));
+
+    provider = new TelegramProvider({
+      botToken: TOKEN,
+      apiUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      tenantId: 'tenant-telegram',
+      pollingTimeoutSec: 1,
+      transcribeVoiceNotes: true,
+      mediaDir: directory,
+      transcribe: async (audio) => {
+        transcribed.push(audio);
+        return 'quiero agendar una cita';
+      },
+    });
+    provider.on('message', (message: TelegramIncomingMessage) => received.push(message));
+    await new Promise((resolve) => provider.on('ready', resolve));
+  });
+
+  beforeEach(() => {
+    calls.length = 0;
+  });
+
+  afterAll(async () => {
+    await provider.close();
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('debe enviar nodos de botones y lista como teclados inline', async () => {
+    const sent = await provider.sendInteractiveButtons('555', '¿Qué deseas?', {
+      title: 'Menú',
+      buttons: [
+        { id: 'b1', text: 'Comprar', value: 'comprar' },
+        { id: 'b2', text: 'Ver sitio', url: 'https://example.com' },
+        { id: 'b3', text: 'Oculto', disabled: true },
+        { id: 'x'.repeat(80), text: 'ID largo' },
+      ],
+    });
+    expect(sent.messageId).toBe('101');
+    expect(sentCalls()[0]).toEqual({
+      method: 'sendMessage',
+      params: {
+        chat_id: '555',
+        text: 'Menú\n\n¿Qué deseas?',
+        reply_markup: {
+          inline_keyboard: [
+            [{ text: 'Comprar', callback_data: 'comprar' }],
+            [{ text: 'Ver sitio', url: 'https://example.com' }],
+            [{ text: 'ID largo', callback_data: 'x'.repeat(64) }],
+          ],
+        },
+      },
+    });
+
+    await provider.sendInteractiveList('555', 'Catálogo', {
+      maxItems: 2,
+      items: [
+        { id: 'p1', text: 'Producto 1', description: '$100' },
+        { id: 'p2', text: 'Producto 2' },
+        { id: 'p3', text: 'Producto 3' },
+      ],
+    });
+    expect(sentCalls()[1].params.text).toBe('Catálogo\n\n• Producto 1: $100');
+    expect(sentCalls()[1].params.reply_markup.inline_keyboard).toEqual([
+      [{ text: 'Producto 1', callback_data: 'p1' }],
+      [{ text: 'Producto 2', callback_data: 'p2' }],
+    ]);
+
+    expect(Buffer.byteLength(toCallbackData('ñ'.repeat(40)))).toBeLessThanOrEqual(64);
+  });
+
+  it('debe enviar medios por URL y no subir archivos fuera de los directorios de medios', async () => {
+    await provider.sendMedia('555', 'https://example.com/catalogo.pdf?v=2', 'Catálogo');
+    expect(sentCalls()[0]).toEqual({
+      method: 'sendDocument',
+      params: { chat_id: '555', document: 'https://example.com/catalogo.pdf?v=2', caption: 'Catálogo' },
+    });
+
+    const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'telegram-outside-'));
+    fs.writeFileSync(path.join(outside, '.env'), 'SECRET=1');
+    await expect(provider.sendMedia('555', path.join(outside, '.env'))).rejects.toMatchObject({ code: 'FILE_NOT_ALLOWED' });
+    await expect(provider.sendMedia('555', path.join(directory, '..', path.basename(outside), '.env')))
+      .rejects.toMatchObject({ code: 'FILE_NOT_ALLOWED' });
+    expect(sentCalls()).toHaveLength(1);
+    fs.rmSync(outside, { recursive: true, force: true });
+  });
+
+  it('debe recibir mensajes por long polling y convertir los botones pulsados en selección', async () => {
+    const buttons = [
+      { id: 'info', text: 'Información', value: 'info' },
+      { id: 'contact', text: 'Contacto', value: 'contact' },
+    ];
+
+    updates.push({ update_id: 10, message: { message_id: 1, date: 1718600000, chat: { id: 555 }, from: { first_name: 'Ana', last_name: 'López' }, text: 'hola' } });
+    expect(await nextMessage()).toMatchObject({ from: '555', name: 'Ana López', body: 'hola', _metadata: { tenantId: 'tenant-telegram', channel: 'telegram' } });
+
+    updates.push({
+      update_id: 11,
+      callback_query: {
+        id: 'cb-1',
+        from: { id: 555, first_name: 'Ana' },
+        data: 'contact',
+        message: { message_id: 101, chat: { id: 555 }, reply_markup: { inline_keyboard: buttons.map((button) => [{ text: button.text, callback_data: button.value }]) } },
+      },
+    });
+    const pressed = await nextMessage();
+    expect(pressed).toMatchObject({ from: '555', body: 'Contacto', buttonId: 'contact', type: 'callback_query' });
+    expect(calls.find((call) => call.method === 'answerCallbackQuery')?.params).toEqual({ callback_query_id: 'cb-1' });
+
+    // El texto del botón pulsado se resuelve como cualquier selección de botones
+    expect(processButtonSelection(pressed.body, buttons)).toEqual({ handle: 'handle-1', index: 1, selected: 'Contacto' });
+
+    // Cada actualización se confirma una sola vez: el siguiente getUpdates pide desde la última + 1
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    const offsets = calls.filter((call) => call.method === 'getUpdates').map((call) => call.params.offset);
+    expect(offsets[offsets.length - 1]).toBe(12);
+  });
+
+  it('debe transcribir las notas de voz con el STT y guardar el audio recibido', async () => {
+    updates.push({
+      update_id: 12,
+      message: { message_id: 2, date: 1718600001, chat: { id: 555 }, voice: { file_id: 'voice-7', mime_type: 'audio/ogg', duration: 3 } },
+    });
+
+    const voice = await nextMessage();
+    expect(voice).toMatchObject({ type: 'voice', body: 'quiero agendar una cita', transcription: 'quiero agendar una cita' });
+    expect(transcribed[0].toString()).toBe('ogg-opus-audio');
+
+    const saved = await provider.saveFile(voice);
+    expect(path.extname(saved)).toBe('.oga');
+    expect(fs.readFileSync(saved, 'utf8')).toBe('ogg-opus-audio');
+  });
+});
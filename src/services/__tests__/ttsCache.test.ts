@@ -0,0 +1,93 @@
+/**
+ * TESTS PARA LA CACHÉ PERSISTENTE DE AUDIO
+ *
+ * PROPÓSITO: Verificar la caché de TTS direccionada por contenido en un directorio temporal
+ * CUBRE: Clave por texto/voz/velocidad/tono/formato, expulsión LRU por cuota,
+ *        recarga desde disco, uso desde el servicio y mensajes fijos de un flujo
+ *
+ * @version 1.0.0
+ * @created 2025-06-17
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { TTSAudioCache, TTSService, SilentTTSProvider, getTTSCacheKey } from '../speech';
+import { getStaticMessageTexts } from '../tts';
+import { NodeType, RuntimeFlow } from '../../models/flow.types';
+
+const params = { text: 'Hola, bienvenido', voice: 'silent', format: 'wav' };
+
+describe('Caché persistente de TTS', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'tts-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('debe distinguir velocidad, tono y formato en la clave', () => {
+    expect(getTTSCacheKey(params)).toBe(getTTSCacheKey({ ...params, text: ' Hola, bienvenido ', speed: 1 }));
+    expect(getTTSCacheKey(params)).not.toBe(getTTSCacheKey({ ...params, speed: 1.2 }));
+    expect(getTTSCacheKey(params)).not.toBe(getTTSCacheKey({ ...params, pitch: 0.8 }));
+    expect(getTTSCacheKey(params)).not.toBe(getTTSCacheKey({ ...params, format: 'mp3' }));
+  });
+
+  it('debe expulsar el audio menos usado al superar la cuota y recargar desde disco', () => {
+    const cache = new TTSAudioCache({ enabled: true, directory, maxBytes: 250 });
+    cache.set({ ...params, text: 'uno' }, Buffer.alloc(100, 1));
+    cache.set({ ...params, text: 'dos' }, Buffer.alloc(100, 2));
+    expect(cache.get({ ...params, text: 'uno' })).not.toBeNull();
+
+    cache.set({ ...params, text: 'tres' }, Buffer.alloc(100, 3));
+
+    expect(cache.has({ ...params, text: 'dos' })).toBe(false);
+    expect(cache.getStats()).toMatchObject({ entries: 2, sizeBytes: 200, evictions: 1, hits: 1 });
+    expect(fs.readdirSync(directory)).toHaveLength(2);
+
+    const reloaded = new TTSAudioCache({ enabled: true, directory, maxBytes: 250 });
+    expect(reloaded.get({ ...params, text: 'tres' })?.[0]).toBe(3);
+    expect(reloaded.getStats()).toMatchObject({ entries: 2, hits: 1, misses: 0, hitRate: 1 });
+  });
+
+  it('debe servir desde la caché sin volver a llamar al proveedor', async () => {
+    const silent = new SilentTTSProvider();
+    const cache = new TTSAudioCache({ enabled: true, directory, maxBytes: 1024 * 1024 });
+    const service = new TTSService([silent], async () => ({ tts_provider: 'silent' }), cache);
+
+    const first = await service.synthesize('Hola', { tenantId: 't1' });
+    const second = await service.synthesize('Hola', { tenantId: 't1' });
+    await service.synthesize('Hola', { tenantId: 't1', speed: 1.5 });
+    await service.synthesize('Hola', { tenantId: 't1', useCache: false });
+
+    expect(first.cached).toBeUndefined();
+    expect(second).toMatchObject({ cached: true, provider: 'silent', format: 'wav' });
+    expect(second.audio.equals(first.audio)).toBe(true);
+    expect(silent.requests).toHaveLength(3);
+    expect(silent.requests[0].useCache).toBe(false);
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 2, writes: 2 });
+  });
+
+  it('debe obtener solo los mensajes fijos del flujo', () => {
+    const flow: RuntimeFlow = {
+      id: 'f1',
+      name: 'Captación',
+      version: '1',
+      entryNodeId: 'a',
+      tenantId: 't1',
+      nodes: {
+        a: { id: 'a', type: NodeType.MESSAGE, content: '¡Hola! Soy tu asesor.' },
+        b: { id: 'b', type: NodeType.MESSAGE_NODE, content: 'Gracias, {{nombre}}.' },
+        c: { id: 'c', type: NodeType.MESSAGE_NODE, content: ' ¡Hola! Soy tu asesor. ' },
+        d: { id: 'd', type: NodeType.AI_NODE, content: 'Responde amablemente' },
+        e: { id: 'e', type: NodeType.MESSAGE, content: '' },
+      },
+    };
+
+    expect(getStaticMessageTexts(flow)).toEqual(['¡Hola! Soy tu asesor.']);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * TESTS PARA LOS PROVEEDORES DE SÍNTESIS DE VOZ
+ *
+ * PROPÓSITO: Verificar la selección de proveedor y voz por tenant sin servicios externos
+ * CUBRE: Orden de respaldo, voz guardada con el tenant, negociación de formato,
+ *        detección del formato real del audio y fallos del motor local
+ *
+ * @version 1.0.1
+ * @created 2025-06-17
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  TTSService,
+  SilentTTSProvider,
+  LocalTTSProvider,
+  TTSProvider,
+  TTSRequest,
+  createSilentWav,
+  negotiateAudioFormat,
+} from '../speech';
+import { detectAudioFormat } from '../../utils/audioUtils';
+
+/**
+ * Proveedor de pruebas que entrega MP3 (o falla si se indica)
+ */
+class FakeMp3Provider implements TTSProvider {
+  readonly defaultVoice = 'Calm_Woman';
+  readonly formats = ['mp3'];
+  readonly requests: TTSRequest[] = [];
+
+  constructor(readonly name: string, private fail = false) {}
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async synthesize(request: TTSRequest): Promise<Buffer> {
+    this.requests.push(request);
+    if (this.fail) throw new Error('sin conexión');
+    return Buffer.concat([Buffer.from('ID3'), Buffer.alloc(32)]);
+  }
+
+  async listVoices() {
+    return [{ id: 'Calm_Woman', name: 'Calm Woman', gender: 'female' as const }];
+  }
+}
+
+describe('Proveedores de TTS', () => {
+  it('debe generar un WAV válido con el proveedor silencioso', () => {
+    const info = detectAudioFormat(createSilentWav(500));
+
+    expect(info.format).toBe('wav');
+    expect(info.sizeBytes).toBe(44 + 8000);
+  });
+
+  it('debe usar el proveedor y la voz guardados con el tenant', async () => {
+    const silent = new SilentTTSProvider();
+    const service = new TTSService([new FakeMp3Provider('remote'), silent], async (tenantId) =>
+      tenantId === 't1' ? { tts_provider: 'silent', tts_voice: 'susurro' } : null
+    );
+
+    const result = await service.synthesize('Hola, bienvenido', { tenantId: 't1' });
+
+    expect(result).toMatchObject({ provider: 'silent', voice: 'susurro', format: 'wav', mimeType: 'audio/wav' });
+    expect(silent.requests[0]).toMatchObject({ text: 'Hola, bienvenido', voice: 'susurro', format: 'wav' });
+    expect((await service.listVoices({ tenantId: 't1' })).defaultVoice).toBe('susurro');
+  });
+
+  it('debe pasar al respaldo sin aplicarle la voz solicitada al primero', async () => {
+    const failing = new FakeMp3Provider('remote', true);
+    const silent = new SilentTTSProvider();
+    const service = new TTSService([failing, silent], async () => ({ tts_provider: 'silent' }));
+
+    expect(await service.resolveProviderOrder({ tenantId: 't1', provider: 'remote' })).toEqual(['remote', 'silent']);
+
+    const result = await service.synthesize('Hola', { tenantId: 't1', provider: 'remote', voice: 'Calm_Woman' });
+    expect(failing.requests[0].voice).toBe('Calm_Woman');
+    expect(result).toMatchObject({ provider: 'silent', voice: 'silent' });
+  });
+
+  it('debe negociar el formato de audio con el cliente', async () => {
+    const mp3 = new FakeMp3Provider('remote');
+    const silent = new SilentTTSProvider();
+    const service = new TTSService([silent, mp3], async () => ({ tts_provider: 'remote' }));
+
+    expect(negotiateAudioFormat(silent, ['audio/mpeg', 'audio/wav'])).toBe('wav');
+    expect(negotiateAudioFormat(silent, ['audio/mpeg'])).toBeNull();
+    expect(negotiateAudioFormat(silent, ['application/json'])).toBe('wav');
+
+    const result = await service.synthesize('Hola', { tenantId: 't1', provider: 'silent', accept: ['mp3'] });
+    expect(result).toMatchObject({ provider: 'remote', format: 'mp3' });
+    expect(silent.requests).toHaveLength(0);
+
+    await expect(service.synthesize('Hola', { tenantId: 't1', provider: 'silent', accept: ['ogg'] })).rejects.toMatchObject({
+      code: 'UNSUPPORTED_FORMAT',
+    });
+  });
+
+  it('debe rechazar sin excepción no capturada si el motor local termina sin leer el texto', async () => {
+    // "false" termina de inmediato: la escritura en stdin falla con EPIPE
+    const provider = new LocalTTSProvider({
+      enabled: true,
+      engine: 'espeak',
+      command: 'false',
+      model: '',
+      voice: 'es',
+      timeoutMs: 5000,
+    });
+
+    await expect(provider.synthesize({ text: 'Hola '.repeat(200000), voice: 'es', format: 'wav' })).rejects.toMatchObject({
+      code: 'REQUEST_FAILED',
+    });
+  });
+});
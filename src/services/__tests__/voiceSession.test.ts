@@ -0,0 +1,171 @@
+/**
+ * TESTS PARA LAS SESIONES DE VOZ EN TIEMPO REAL
+ *
+ * PROPÓSITO: Verificar el ciclo de una sesión full-duplex sin WebSocket ni servicios externos
+ * CUBRE: Detección de voz por energía, turno completo (transcripción, flujo y audio),
+ *        pista de idioma del flujo, cuota del tenant por turno e interrupción del bot
+ *        por el usuario (barge-in)
+ *
+ * @version 1.0.0
+ * @created 2025-06-17
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { VoiceActivityDetector } from '../speech';
+import type { STTResult, TTSResult } from '../speech';
+import { VoiceSession, VoiceSessionMessage, VoiceSessionDependencies } from '../voiceSession';
+import { FlowState } from '../../models/flow.types';
+
+const SAMPLE_RATE = 16000;
+
+/**
+ * Audio PCM de 16 bits: tono (voz) o silencio
+ */
+const pcm = (ms: number, amplitude: number): Buffer => {
+  const samples = (SAMPLE_RATE * ms) / 1000;
+  const buffer = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    buffer.writeInt16LE(Math.round(amplitude * 32767 * Math.sin((2 * Math.PI * 220 * i) / SAMPLE_RATE)), i * 2);
+  }
+  return buffer;
+};
+const voice = (ms: number) => pcm(ms, 0.3);
+const silence = (ms: number) => pcm(ms, 0);
+
+const speech = (text: string): TTSResult => ({
+  audio: Buffer.from(text),
+  format: 'wav',
+  mimeType: 'audio/wav',
+  provider: 'silent',
+  voice: 'silent',
+});
+
+const state = (context: Record<string, any> = {}): FlowState => ({
+  flowId: 'f1',
+  currentNodeId: 'n1',
+  context,
+  history: [],
+  startedAt: new Date(),
+  lastUpdatedAt: new Date(),
+  userId: 'u1',
+  sessionId: 's1',
+});
+
+/**
+ * Crea una sesión con servicios simulados y registra lo enviado al cliente
+ */
+const createSession = (deps: Partial<VoiceSessionDependencies>, initialState?: FlowState) => {
+  const messages: VoiceSessionMessage[] = [];
+  const audio: string[] = [];
+  const languages: Array<string | undefined> = [];
+
+  const session = new VoiceSession(
+    { sessionId: 's1', tenantId: 't1', userId: 'u1', sampleRate: SAMPLE_RATE, partialIntervalMs: 0, state: initialState },
+    { sendJson: (message) => messages.push(message), sendAudio: (chunk) => audio.push(chunk.toString()) },
+    {
+      transcribe: async (_audio, language): Promise<STTResult> => {
+        languages.push(language);
+        return { text: 'Busco casa', confidence: 0.9, words: [], language: language || 'es', provider: 'fake' };
+      },
+      synthesize: async function* (text) {
+        yield speech(text);
+      },
+      processMessage: async (text, prev) => ({ response: `Respuesta a: ${text}`, state: prev || state() }),
+      ...deps,
+    }
+  );
+  return { session, messages, audio, languages };
+};
+
+describe('Sesiones de voz en tiempo real', () => {
+  it('debe detectar inicio y fin de voz e ignorar ruido breve', () => {
+    const vad = new VoiceActivityDetector({ sampleRate: SAMPLE_RATE, threshold: 0.02, minSpeechMs: 200, silenceMs: 600, maxUtteranceMs: 10000 });
+
+    expect(vad.push(Buffer.concat([voice(100), silence(1000)]))).toEqual([]);
+
+    const events = vad.push(Buffer.concat([voice(500), silence(700)]));
+    expect(events.map((event) => event.type)).toEqual(['speech_start', 'speech_end']);
+    const end = events[1] as { type: 'speech_end'; durationMs: number; audio: Buffer };
+    expect(end.durationMs).toBe(500 + 600);
+    expect(end.audio.length).toBe((SAMPLE_RATE * 1.1) * 2);
+    expect(vad.isSpeaking()).toBe(false);
+  });
+
+  it('debe transcribir el enunciado, procesarlo con el flujo y enviar el audio', async () => {
+    const { session, messages, audio, languages } = createSession({}, state({ sttLanguage: 'pt' }));
+
+    session.handleAudio(voice(400));
+    session.handleAudio(silence(800));
+    await session.idle();
+
+    expect(messages.map((message) => message.type)).toEqual([
+      'speech_start',
+      'speech_end',
+      'transcript',
+      'response',
+      'audio_start',
+      'audio_end',
+    ]);
+    expect(messages[2]).toMatchObject({ text: 'Busco casa', final: true, confidence: 0.9, language: 'pt' });
+    expect(messages[3]).toEqual({ type: 'response', text: 'Respuesta a: Busco casa' });
+    expect(messages[5]).toMatchObject({ interrupted: false });
+    expect(audio).toEqual(['Respuesta a: Busco casa']);
+    expect(languages).toEqual(['pt']);
+  });
+
+  it('debe verificar la cuota del tenant antes de cada turno', async () => {
+    let quota = true;
+    const transcribed: string[] = [];
+    const { session, messages, audio } = createSession({
+      hasQuota: async () => quota,
+      transcribe: async (): Promise<STTResult> => {
+        transcribed.push('turno');
+        return { text: 'Busco casa', confidence: 0.9, words: [], language: 'es', provider: 'fake' };
+      },
+    });
+
+    await session.handleText('Hola');
+    expect(audio).toEqual(['Respuesta a: Hola']);
+
+    quota = false;
+    await session.handleText('Otra pregunta');
+    session.handleAudio(voice(400));
+    session.handleAudio(silence(800));
+    await session.idle();
+
+    expect(audio).toEqual(['Respuesta a: Hola']);
+    expect(transcribed).toEqual([]);
+    expect(messages.filter((message) => message.type === 'error')).toEqual([
+      { type: 'error', code: 'QUOTA_EXCEEDED', message: 'El tenant ha excedido su cuota de mensajes para el período actual' },
+      { type: 'error', code: 'QUOTA_EXCEEDED', message: 'El tenant ha excedido su cuota de mensajes para el período actual' },
+    ]);
+  });
+
+  it('debe cortar la respuesta cuando el usuario habla encima (barge-in)', async () => {
+    let releaseSecondSentence: () => void = () => undefined;
+    const secondSentence = new Promise<void>((resolve) => (releaseSecondSentence = resolve));
+    let firstSentenceSent: () => void = () => undefined;
+    const firstSent = new Promise<void>((resolve) => (firstSentenceSent = resolve));
+
+    const { session, messages, audio } = createSession({
+      synthesize: async function* () {
+        yield speech('frase 1');
+        firstSentenceSent();
+        await secondSentence;
+        yield speech('frase 2');
+      },
+    });
+
+    const turn = session.handleText('Hola');
+    await firstSent;
+
+    // El usuario empieza a hablar mientras suena la primera frase
+    session.handleAudio(voice(300));
+    releaseSecondSentence();
+    await turn;
+
+    expect(audio).toEqual(['frase 1']);
+    expect(messages.find((message) => message.type === 'barge_in')).toMatchObject({ playbackId: 1 });
+    expect(messages.find((message) => message.type === 'audio_end')).toMatchObject({ playbackId: 1, interrupted: true });
+  });
+});
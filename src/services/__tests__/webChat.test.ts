@@ -0,0 +1,251 @@
+/**
+ * TESTS PARA EL WIDGET DE CHAT WEB
+ *
+ * PROPÓSITO: Verificar el proveedor del widget y sus endpoints públicos con un servidor local
+ * CUBRE: Contenido listo para renderizar (botones, listas, medios), indicador de escritura,
+ *        botones elegidos como selección, reenvío al reconectar (Last-Event-ID),
+ *        identidad firmada de visitantes, lista de orígenes permitidos por tenant y flujo SSE
+ *
+ * @version 1.0.0
+ * @created 2025-06-17
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+
+// Las rutas públicas no usan autenticación (el middleware crea el cliente de Supabase al importarse)
+jest.mock('../../middlewares/auth', () => ({
+  authMiddleware: (_req: unknown, _res: unknown, next: () => void) => next(),
+}));
+
+import http from 'http';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { config } from '../../config';
+import { WebChatProvider, WebChatStreamEvent, WebChatIncomingMessage, getWebChatMediaType } from '../../provider/webChatProvider';
+import {
+  WebChatWidgetService,
+  MemoryWebChatWidgetStore,
+  createVisitorToken,
+  verifyVisitorToken,
+  isOriginAllowed,
+} from '../webChatWidgets';
+import { createWebChatRouter } from '../../api/webchat';
+import { processButtonSelection } from '../buttonProcessor';
+
+const TENANT = '11111111-1111-1111-1111-111111111111';
+const OTHER_TENANT = '22222222-2222-2222-2222-222222222222';
+
+/**
+ * Conexión en memoria que guarda los eventos recibidos
+ */
+function createStream(events: WebChatStreamEvent[]) {
+  return { send: (event: WebChatStreamEvent) => events.push(event), close: () => undefined };
+}
+
+describe('Widget de chat web', () => {
+  let provider: WebChatProvider;
+  const received: WebChatIncomingMessage[] = [];
+
+  beforeAll(() => {
+    config.webchat.enabled = true;
+    config.webchat.tokenSecret = 'secreto-de-prueba';
+    provider = new WebChatProvider({ historySize: 3, maxTypingMs: 5000, visitorIdleMs: 1000 });
+    provider.on('message', (message: WebChatIncomingMessage) => received.push(message));
+  });
+
+  beforeEach(() => {
+    received.length = 0;
+  });
+
+  afterAll(async () => {
+    await provider.close();
+  });
+
+  describe('Proveedor', () => {
+    it('debe entregar botones, listas, medios y el indicador de escritura listos para renderizar', async () => {
+      const events: WebChatStreamEvent[] = [];
+      provider.connect(TENANT, 'visitante-1', createStream(events));
+
+      await provider.sendTyping('visitante-1', 60000);
+      await provider.sendInteractiveButtons('visitante-1', '¿Qué deseas?', {
+        title: 'Menú',
+        buttons: [
+          { id: 'b1', text: 'Comprar', value: 'comprar' },
+          { id: 'b2', text: 'Ver sitio', url: 'https://example.com' },
+          { id: 'b3', text: 'Oculto', disabled: true },
+        ],
+      });
+      await provider.sendInteractiveList('visitante-1', 'Catálogo', {
+        maxItems: 1,
+        items: [
+          { id: 'p1', text: 'Producto 1', description: '$100' },
+          { id: 'p2', text: 'Producto 2' },
+        ],
+      });
+      await provider.sendMessage('visitante-1', 'Nuestro local', { options: { media: 'https://cdn.example.com/local.jpg?v=2' } });
+
+      expect(events[0]).toEqual({ event: 'typing', data: { active: true, durationMs: 5000 } });
+      expect(events[1]).toMatchObject({
+        id: 1,
+        event: 'message',
+        data: {
+          type: 'buttons',
+          text: '¿Qué deseas?',
+          title: 'Menú',
+          layout: 'vertical',
+          buttons: [
+            { id: 'comprar', text: 'Comprar' },
+            { id: 'b2', text: 'Ver sitio', url: 'https://example.com' },
+          ],
+        },
+      });
+      expect(events[2]).toMatchObject({ id: 2, data: { type: 'list', items: [{ id: 'p1', text: 'Producto 1', description: '$100' }] } });
+      expect(events[3]).toMatchObject({ id: 3, data: { type: 'media', text: 'Nuestro local', mediaType: 'image' } });
+      expect(getWebChatMediaType('/docs/catalogo.pdf')).toBe('file');
+    });
+
+    it('debe emitir el elemento elegido con su texto para resolverlo como selección', async () => {
+      const buttons = [
+        { id: 'info', text: 'Información', value: 'info' },
+        { id: 'contact', text: 'Contacto', value: 'contact' },
+      ];
+      provider.connect(TENANT, 'visitante-2', createStream([]));
+      await provider.sendInteractiveButtons('visitante-2', 'Elige', { buttons });
+
+      const pressed = provider.receive(TENANT, 'visitante-2', { buttonId: 'contact' });
+      expect(received[0]).toBe(pressed);
+      expect(pressed).toMatchObject({
+        from: 'visitante-2',
+        body: 'Contacto',
+        type: 'button_reply',
+        buttonId: 'contact',
+        _metadata: { tenantId: TENANT, channel: 'webchat' },
+      });
+      expect(processButtonSelection(pressed.body, buttons)).toEqual({ handle: 'handle-1', index: 1, selected: 'Contacto' });
+
+      expect(() => provider.receive(TENANT, 'visitante-2', { text: '   ' })).toThrow('text o buttonId');
+      expect(() => provider.receive(OTHER_TENANT, 'visitante-2', { text: 'hola' })).toThrow('no pertenece');
+    });
+
+    it('debe reenviar al reconectar solo los mensajes no recibidos y olvidar a los visitantes inactivos', async () => {
+      const first: WebChatStreamEvent[] = [];
+      const disconnect = provider.connect(TENANT, 'visitante-3', createStream(first));
+      await provider.sendText('visitante-3', 'Uno');
+      disconnect();
+
+      // Sin conexión los mensajes se guardan (los últimos historySize)
+      for (const text of ['Dos', 'Tres', 'Cuatro', 'Cinco']) await provider.sendText('visitante-3', text);
+      expect(provider.isOnline('visitante-3')).toBe(false);
+
+      const replayed: WebChatStreamEvent[] = [];
+      const reconnect = provider.connect(TENANT, 'visitante-3', createStream(replayed), 1);
+      expect(replayed.map((event) => (event.event === 'message' ? event.data : null))).toMatchObject([
+        { text: 'Tres' },
+        { text: 'Cuatro' },
+        { text: 'Cinco' },
+      ]);
+      reconnect();
+
+      expect(provider.pruneIdleVisitors(Date.now() + 2000)).toBeGreaterThanOrEqual(1);
+      expect(await provider.sendText('visitante-3', 'Seis')).toEqual({ messageId: null });
+    });
+  });
+
+  describe('Identidad y orígenes', () => {
+    it('debe firmar la identidad del visitante por tenant', () => {
+      const token = createVisitorToken(TENANT);
+      const visitorId = verifyVisitorToken(token, TENANT);
+      expect(visitorId).toMatch(/^web-/);
+      expect(verifyVisitorToken(token, OTHER_TENANT)).toBeNull();
+      expect(verifyVisitorToken(`${visitorId}-otro.${token.split('.').pop()}`, TENANT)).toBeNull();
+    });
+
+    it('debe aceptar orígenes exactos y subdominios con comodín', () => {
+      const allowed = ['https://tienda.com', 'https://*.ejemplo.mx'];
+      expect(isOriginAllowed('https://tienda.com', allowed)).toBe(true);
+      expect(isOriginAllowed('https://app.ejemplo.mx', allowed)).toBe(true);
+      expect(isOriginAllowed('http://app.ejemplo.mx', allowed)).toBe(false);
+      expect(isOriginAllowed('https://tienda.com.evil.io', allowed)).toBe(false);
+      expect(isOriginAllowed(undefined, ['*'])).toBe(false);
+    });
+  });
+
+  describe('Endpoints públicos', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let widgets: WebChatWidgetService;
+
+    const request = (method: string, path: string, origin?: string, body?: unknown) =>
+      fetch(`${baseUrl}${path}`, {
+        method,
+        headers: { 'Content-Type': 'application/json', ...(origin ? { Origin: origin } : {}) },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+
+    beforeAll(async () => {
+      widgets = new WebChatWidgetService(new MemoryWebChatWidgetStore(), { defaultAllowedOrigins: [] });
+      await widgets.updateWidget(TENANT, { allowed_origins: ['https://tienda.com/'], settings: { title: 'Tienda' } });
+
+      const app = express();
+      app.use(express.json());
+      app.use('/api/webchat', createWebChatRouter({ getProvider: async () => provider, widgets }));
+      server = await new Promise<http.Server>((resolve) => {
+        const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+      });
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('debe rechazar los orígenes que no están en la lista del tenant', async () => {
+      expect((await request('GET', `/api/webchat/${TENANT}/config`, 'https://otra.com')).status).toBe(403);
+      expect((await request('GET', `/api/webchat/${TENANT}/config`)).status).toBe(403);
+      expect((await request('GET', `/api/webchat/${OTHER_TENANT}/config`, 'https://tienda.com')).status).toBe(403);
+      expect((await request('GET', '/api/webchat/no-es-un-tenant/config', 'https://tienda.com')).status).toBe(404);
+
+      const allowed = await request('GET', `/api/webchat/${TENANT}/config`, 'https://tienda.com');
+      expect(allowed.status).toBe(200);
+      expect(allowed.headers.get('access-control-allow-origin')).toBe('https://tienda.com');
+      expect(await allowed.json()).toEqual({ tenantId: TENANT, settings: { title: 'Tienda' } });
+    });
+
+    it('debe crear la sesión, recibir mensajes y entregar las respuestas por SSE', async () => {
+      const session = (await (await request('POST', `/api/webchat/${TENANT}/session`, 'https://tienda.com', {})).json()) as any;
+      expect(session.resumed).toBe(false);
+
+      const resumed = (await (await request('POST', `/api/webchat/${TENANT}/session`, 'https://tienda.com', { token: session.token })).json()) as any;
+      expect(resumed).toEqual({ visitorId: session.visitorId, token: session.token, resumed: true });
+
+      expect((await request('POST', `/api/webchat/${TENANT}/messages`, 'https://tienda.com', { token: 'x.y', text: 'hola' })).status).toBe(401);
+
+      // El bot responde a cada mensaje recibido
+      const reply = (message: WebChatIncomingMessage) => provider.sendText(message.from, `Eco: ${message.body}`);
+      provider.on('message', reply);
+
+      const controller = new AbortController();
+      const stream = await fetch(`${baseUrl}/api/webchat/${TENANT}/events?token=${encodeURIComponent(session.token)}`, {
+        headers: { Origin: 'https://tienda.com' },
+        signal: controller.signal,
+      });
+      expect(stream.headers.get('content-type')).toContain('text/event-stream');
+
+      const accepted = await request('POST', `/api/webchat/${TENANT}/messages`, 'https://tienda.com', { token: session.token, text: 'hola' });
+      expect(accepted.status).toBe(202);
+      expect(received[received.length - 1]).toMatchObject({ from: session.visitorId, body: 'hola' });
+
+      const reader = stream.body!.getReader();
+      let text = '';
+      while (!text.includes('event: message')) {
+        const { value } = await reader.read();
+        text += Buffer.from(value!).toString();
+      }
+      controller.abort();
+
+      expect(text).toContain(`event: ready\ndata: {"visitorId":"${session.visitorId}"}`);
+      expect(text).toMatch(/id: 1\nevent: message\ndata: \{"type":"text","text":"Eco: hola"/);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * TESTS PARA EL POOL DE NÚMEROS DE WHATSAPP POR TENANT
+ *
+ * PROPÓSITO: Verificar que cada tenant conecte su propio número con proveedores falsos
+ * CUBRE: Sesión y QR aislados por tenant, asignación de mensajes por número receptor,
+ *        número en uso por otro tenant, desconexión y reconexión al iniciar
+ *
+ * @version 1.0.0
+ * @created 2025-06-17
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  WhatsAppProviderPool,
+  WhatsAppPoolDependencies,
+  MemoryWhatsAppNumberStore,
+  normalizeWhatsAppNumber,
+} from '../../provider/whatsappProviderPool';
+
+const TENANT_A = '11111111-1111-1111-1111-111111111111';
+const TENANT_B = '22222222-2222-2222-2222-222222222222';
+
+class FakeProvider extends EventEmitter {
+  closed = false;
+  async getInstance() {
+    return { close: async () => { this.closed = true; } };
+  }
+}
+
+describe('Pool de números de WhatsApp', () => {
+  let directory: string;
+  let store: MemoryWhatsAppNumberStore;
+  let created: Array<{ type: string; options: any; provider: FakeProvider }>;
+  let pool: WhatsAppProviderPool;
+
+  const deps: WhatsAppPoolDependencies = {
+    createProvider: async (type, options) => {
+      const provider = new FakeProvider();
+      created.push({ type, options, provider });
+      return provider as any;
+    },
+    startBot: async () => undefined,
+    shutdownProvider: async (provider) => {
+      const instance: any = await provider.getInstance();
+      await instance.close();
+    },
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'wa-pool-'));
+    store = new MemoryWhatsAppNumberStore();
+    created = [];
+    pool = new WhatsAppProviderPool(store, deps, {
+      sessionsDir: path.join(directory, 'sessions'),
+      qrDir: path.join(directory, 'qr'),
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('debe aislar sesión y QR por tenant y asignar mensajes por el número receptor', async () => {
+    await pool.connect(TENANT_A, { provider: 'baileys' });
+    await pool.connect(TENANT_B, { provider: 'twilio', credentials: { accountSid: 'AC1', authToken: 't', phoneNumber: 'whatsapp:+5215500000002' } });
+
+    expect(created[0].options.sessionDir).toBe(path.join(directory, 'sessions', TENANT_A));
+    expect(created[0].options.qrPath).toBe(path.join(directory, 'qr', `${TENANT_A}.qr.png`));
+    expect(created[1].options.twilio.accountSid).toBe('AC1');
+
+    // Twilio conoce su número desde las credenciales; Baileys lo informa al vincularse
+    expect(pool.resolveTenantByNumber('5215500000002')).toBe(TENANT_B);
+    expect(pool.resolveTenantByNumber('5215500000001')).toBeNull();
+
+    created[0].provider.emit('require_action', { payload: { qr: 'qr' } });
+    expect((await pool.getStatus(TENANT_A)).status).toBe('awaiting_qr');
+
+    created[0].provider.emit('host', { phone: '5215500000001:7@s.whatsapp.net' });
+    created[0].provider.emit('ready', true);
+
+    const status = await pool.getStatus(TENANT_A);
+    expect(status.status).toBe('connected');
+    expect(status.phoneNumber).toBe('5215500000001');
+    expect(pool.resolveTenantByNumber('+52 1 55 0000 0001')).toBe(TENANT_A);
+    expect(pool.getProvider(TENANT_A)).toBe(created[0].provider);
+    expect((await store.get(TENANT_A))?.phone_number).toBe('5215500000001');
+  });
+
+  it('debe rechazar un número conectado por otro tenant', async () => {
+    await pool.connect(TENANT_A, { provider: 'twilio', phoneNumber: '5215500000001', credentials: { accountSid: 'AC1', authToken: 't', phoneNumber: '5215500000001' } });
+
+    await expect(
+      pool.connect(TENANT_B, { provider: 'twilio', phoneNumber: '+5215500000001' })
+    ).rejects.toMatchObject({ code: 'NUMBER_IN_USE' });
+    await expect(pool.connect(TENANT_B, { provider: 'telegram' as any })).rejects.toMatchObject({ code: 'INVALID_PROVIDER' });
+  });
+
+  it('debe desconectar, borrar la sesión al cerrar sesión y reconectar solo los números activos', async () => {
+    await pool.connect(TENANT_A, { provider: 'baileys' });
+    await pool.connect(TENANT_B, { provider: 'baileys' });
+    created[0].provider.emit('host', { phone: '5215500000001' });
+    fs.mkdirSync(pool.getSessionDir(TENANT_A), { recursive: true });
+
+    const status = await pool.disconnect(TENANT_A, true);
+    expect(status.status).toBe('disconnected');
+    expect(status.phoneNumber).toBeNull();
+    expect(created[0].provider.closed).toBe(true);
+    expect(fs.existsSync(pool.getSessionDir(TENANT_A))).toBe(false);
+    expect(pool.resolveTenantByNumber('5215500000001')).toBeNull();
+
+    // Un pool nuevo (reinicio) reconecta solo el tenant que sigue con auto_connect
+    const restarted = new WhatsAppProviderPool(store, deps, {
+      sessionsDir: path.join(directory, 'sessions'),
+      qrDir: path.join(directory, 'qr'),
+    });
+    expect(await restarted.restore()).toBe(1);
+    expect(restarted.getProvider(TENANT_A)).toBeNull();
+    expect(restarted.getProvider(TENANT_B)).not.toBeNull();
+  });
+
+  it('debe normalizar los formatos de número', () => {
+    expect(normalizeWhatsAppNumber('whatsapp:+14155238886')).toBe('14155238886');
+    expect(normalizeWhatsAppNumber('5215512345678:12@s.whatsapp.net')).toBe('5215512345678');
+    expect(normalizeWhatsAppNumber('')).toBeNull();
+  });
+});
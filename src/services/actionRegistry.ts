@@ -0,0 +1,494 @@
+/**
+ * src/services/actionRegistry.ts
+ *
+ * Registro de acciones ejecutables desde nodos ACTION.
+ * Incluye acciones integradas (variables, contadores, sales funnel, medios, auditoría)
+ * y permite que cada tenant registre acciones propias: en código con
+ * registerTenantAction o guardadas en la tabla tenant_actions (webhooks y
+ * acciones integradas con parámetros fijos), que se cargan al ejecutar y se
+ * recargan cada 5 minutos.
+ * @version 1.1.0
+ * @created 2025-06-03
+ * @updated 2025-06-17
+ */
+
+import logger from "../utils/logger";
+import { config } from "../config";
+import { ActionNodeMetadata, ApiCallNodeMetadata, FlowNode } from "../models/flow.types";
+import { ExtendedFlowState } from "../models/extendedFlow.types";
+import { interpolateTemplate, getValueByPath, executeApiCall } from "./apiCallService";
+import { getSupabaseAdminClient } from "./supabase";
+import { updateLeadStage } from "./salesFunnelService";
+import { sendMedia } from "./providerService";
+import { logAuditAction, AuditActionType } from "./auditService";
+import { isRemoteMedia } from "../utils/localMedia";
+
+/**
+ * Contexto disponible para una acción durante su ejecución
+ */
+export interface ActionContext {
+  node: FlowNode;
+  state: ExtendedFlowState;
+  tenantId: string;
+}
+
+/**
+ * Resultado de ejecutar una acción
+ */
+export interface ActionResult {
+  success: boolean;
+  output?: any;                       // Valor que se guarda en resultVariable
+  contextUpdates?: Record<string, any>; // Variables a escribir en state.context
+  error?: string;
+}
+
+/**
+ * Firma de un manejador de acción
+ */
+export type ActionHandler = (
+  parameters: Record<string, any>,
+  context: ActionContext
+) => Promise<ActionResult>;
+
+/**
+ * Acción de un tenant guardada en la tabla tenant_actions
+ * - webhook: llamada HTTP con la configuración de un nodo API_CALL
+ *   (sin body se envían los parámetros de la acción como JSON)
+ * - preset: acción integrada con parámetros fijos ({ action, parameters })
+ */
+export interface TenantActionDefinition {
+  action_type: string;
+  kind: "webhook" | "preset";
+  config: Record<string, any>;
+  enabled?: boolean;
+}
+
+export type ActionRegistryErrorCode = "INVALID_INPUT" | "NOT_FOUND" | "DB_ERROR";
+
+export class ActionRegistryError extends Error {
+  constructor(public code: ActionRegistryErrorCode, message: string) {
+    super(message);
+    this.name = "ActionRegistryError";
+  }
+}
+
+// Tiempo tras el cual se vuelven a consultar las acciones guardadas de un tenant
+const STORED_ACTIONS_TTL_MS = 5 * 60 * 1000;
+
+// Acciones integradas disponibles para todos los tenants
+const builtInActions = new Map<string, ActionHandler>();
+
+// Acciones registradas por tenant (tenantId -> actionType -> handler)
+const tenantActions = new Map<string, Map<string, ActionHandler>>();
+
+// Acciones guardadas en tenant_actions (tenantId -> actionType -> handler)
+const storedTenantActions = new Map<string, Map<string, ActionHandler>>();
+const loadedTenants = new Map<string, number>(); // tenant -> momento de la última carga exitosa
+const pendingLoads = new Map<string, Promise<void>>();
+
+/**
+ * Normaliza el nombre de una acción ("Set Variable", "set-variable" -> "set_variable")
+ */
+function normalizeActionType(actionType: string): string {
+  return (actionType || "")
+    .trim()
+    .replace(/([a-z])([A-Z])/g, "$1_$2")
+    .replace(/[\s-]+/g, "_")
+    .toLowerCase();
+}
+
+/**
+ * Registra una acción integrada
+ * @param actionType Nombre de la acción
+ * @param handler Manejador de la acción
+ */
+export function registerBuiltInAction(actionType: string, handler: ActionHandler): void {
+  builtInActions.set(normalizeActionType(actionType), handler);
+}
+
+/**
+ * Registra una acción propia de un tenant
+ * Las acciones de tenant tienen prioridad sobre las integradas con el mismo nombre
+ * @param tenantId ID del tenant
+ * @param actionType Nombre de la acción
+ * @param handler Manejador de la acción
+ */
+export function registerTenantAction(
+  tenantId: string,
+  actionType: string,
+  handler: ActionHandler
+): void {
+  if (!tenantActions.has(tenantId)) {
+    tenantActions.set(tenantId, new Map());
+  }
+  tenantActions.get(tenantId)!.set(normalizeActionType(actionType), handler);
+  logger.info(`Acción ${actionType} registrada para tenant ${tenantId}`);
+}
+
+/**
+ * Elimina una acción propia de un tenant
+ * @returns true si la acción existía
+ */
+export function unregisterTenantAction(tenantId: string, actionType: string): boolean {
+  return tenantActions.get(tenantId)?.delete(normalizeActionType(actionType)) || false;
+}
+
+/**
+ * Busca el manejador de una acción para un tenant
+ * Prioridad: acciones registradas en código, guardadas en tenant_actions e integradas
+ * @returns Manejador o undefined si no existe
+ */
+export function getActionHandler(actionType: string, tenantId: string): ActionHandler | undefined {
+  const normalized = normalizeActionType(actionType);
+  return (
+    tenantActions.get(tenantId)?.get(normalized) ||
+    storedTenantActions.get(tenantId)?.get(normalized) ||
+    builtInActions.get(normalized)
+  );
+}
+
+/**
+ * Lista las acciones disponibles para un tenant
+ */
+export function listActions(tenantId: string): string[] {
+  const names = new Set<string>(builtInActions.keys());
+  tenantActions.get(tenantId)?.forEach((_, name) => names.add(name));
+  storedTenantActions.get(tenantId)?.forEach((_, name) => names.add(name));
+  return Array.from(names).sort();
+}
+
+/**
+ * Crea el manejador de una acción guardada
+ */
+function createStoredActionHandler(definition: TenantActionDefinition): ActionHandler {
+  const settings = definition.config || {};
+
+  if (definition.kind === "preset") {
+    return async (parameters, context) => {
+      const base = builtInActions.get(normalizeActionType(settings.action));
+      if (!base) {
+        return { success: false, error: `Acción integrada desconocida: ${settings.action}` };
+      }
+      const variables = { ...context.state.context, ...(context.state.variables || {}) };
+      return base({ ...resolveParameters(settings.parameters || {}, variables), ...parameters }, context);
+    };
+  }
+
+  return async (parameters, { state }) => {
+    const result = await executeApiCall(
+      { ...settings, body: settings.body ?? "{{parameters}}" } as ApiCallNodeMetadata,
+      { ...state.context, ...(state.variables || {}), parameters }
+    );
+    return result.success
+      ? { success: true, output: result.value }
+      : { success: false, error: result.error || `La llamada respondió ${result.status}` };
+  };
+}
+
+/**
+ * Carga desde Supabase las acciones guardadas de un tenant (tabla tenant_actions)
+ * Vuelve a consultar cuando vence STORED_ACTIONS_TTL_MS; una carga fallida se
+ * reintenta en la siguiente llamada
+ * @param tenantId ID del tenant
+ */
+export async function loadTenantActions(tenantId: string): Promise<void> {
+  if (!config.supabase.enabled) return;
+
+  const loadedAt = loadedTenants.get(tenantId);
+  if (loadedAt !== undefined && Date.now() - loadedAt < STORED_ACTIONS_TTL_MS) return;
+
+  // Ejecuciones simultáneas del mismo tenant comparten la consulta
+  let pending = pendingLoads.get(tenantId);
+  if (!pending) {
+    pending = fetchTenantActions(tenantId).finally(() => pendingLoads.delete(tenantId));
+    pendingLoads.set(tenantId, pending);
+  }
+  await pending;
+}
+
+async function fetchTenantActions(tenantId: string): Promise<void> {
+  try {
+    const { data, error } = await getSupabaseAdminClient()
+      .from("tenant_actions")
+      .select("action_type, kind, config")
+      .eq("tenant_id", tenantId)
+      .eq("enabled", true);
+
+    if (error) {
+      logger.warn(`No se pudieron cargar las acciones del tenant ${tenantId}: ${error.message}`);
+      return;
+    }
+
+    const handlers = new Map<string, ActionHandler>();
+    for (const row of (data || []) as TenantActionDefinition[]) {
+      handlers.set(normalizeActionType(row.action_type), createStoredActionHandler(row));
+    }
+    storedTenantActions.set(tenantId, handlers);
+    loadedTenants.set(tenantId, Date.now());
+  } catch (error) {
+    logger.error(`Error al cargar las acciones del tenant ${tenantId}:`, error);
+  }
+}
+
+/**
+ * Fuerza la recarga de las acciones guardadas de un tenant en la siguiente ejecución
+ */
+export function invalidateTenantActions(tenantId: string): void {
+  loadedTenants.delete(tenantId);
+}
+
+/**
+ * Valida y normaliza una acción antes de guardarla
+ */
+function validateTenantAction(definition: Partial<TenantActionDefinition>): TenantActionDefinition {
+  const actionType = normalizeActionType(definition.action_type || "");
+  if (!actionType) {
+    throw new ActionRegistryError("INVALID_INPUT", "La acción requiere 'action_type'");
+  }
+
+  const settings = definition.config || {};
+  if (definition.kind === "webhook") {
+    if (!settings.url || typeof settings.url !== "string") {
+      throw new ActionRegistryError("INVALID_INPUT", "Una acción webhook requiere 'config.url'");
+    }
+  } else if (definition.kind === "preset") {
+    if (!builtInActions.has(normalizeActionType(settings.action || ""))) {
+      throw new ActionRegistryError("INVALID_INPUT", `Acción integrada desconocida: ${settings.action}`);
+    }
+  } else {
+    throw new ActionRegistryError("INVALID_INPUT", "'kind' debe ser 'webhook' o 'preset'");
+  }
+
+  return { action_type: actionType, kind: definition.kind, config: settings, enabled: definition.enabled !== false };
+}
+
+/**
+ * Lista las acciones guardadas de un tenant (incluye las deshabilitadas)
+ */
+export async function listTenantActionDefinitions(tenantId: string): Promise<TenantActionDefinition[]> {
+  const { data, error } = await getSupabaseAdminClient()
+    .from("tenant_actions")
+    .select("action_type, kind, config, enabled")
+    .eq("tenant_id", tenantId)
+    .order("action_type");
+
+  if (error) throw new ActionRegistryError("DB_ERROR", error.message);
+  return (data || []) as TenantActionDefinition[];
+}
+
+/**
+ * Crea o reemplaza una acción guardada de un tenant
+ */
+export async function saveTenantAction(
+  tenantId: string,
+  definition: Partial<TenantActionDefinition>
+): Promise<TenantActionDefinition> {
+  const action = validateTenantAction(definition);
+
+  const { data, error } = await getSupabaseAdminClient()
+    .from("tenant_actions")
+    .upsert(
+      { tenant_id: tenantId, ...action, updated_at: new Date().toISOString() },
+      { onConflict: "tenant_id,action_type" }
+    )
+    .select("action_type, kind, config, enabled")
+    .single();
+
+  if (error) throw new ActionRegistryError("DB_ERROR", error.message);
+  invalidateTenantActions(tenantId);
+  logger.info(`Acción ${action.action_type} guardada para tenant ${tenantId}`);
+  return data as TenantActionDefinition;
+}
+
+/**
+ * Elimina una acción guardada de un tenant
+ */
+export async function deleteTenantAction(tenantId: string, actionType: string): Promise<void> {
+  const { data, error } = await getSupabaseAdminClient()
+    .from("tenant_actions")
+    .delete()
+    .eq("tenant_id", tenantId)
+    .eq("action_type", normalizeActionType(actionType))
+    .select("id");
+
+  if (error) throw new ActionRegistryError("DB_ERROR", error.message);
+  if (!data || data.length === 0) {
+    throw new ActionRegistryError("NOT_FOUND", `La acción ${actionType} no existe`);
+  }
+  invalidateTenantActions(tenantId);
+}
+
+/**
+ * Interpola las variables {{variable}} en los parámetros de tipo texto
+ */
+function resolveParameters(
+  parameters: Record<string, any>,
+  variables: Record<string, any>
+): Record<string, any> {
+  const resolved: Record<string, any> = {};
+
+  for (const [key, value] of Object.entries(parameters || {})) {
+    if (typeof value === "string") {
+      // Si el parámetro es exactamente una variable, conservamos su tipo original
+      const single = value.match(/^\{\{\s*([^{}]+?)\s*\}\}$/);
+      resolved[key] = single
+        ? getValueByPath(variables, single[1])
+        : interpolateTemplate(value, variables);
+    } else if (value && typeof value === "object" && !Array.isArray(value)) {
+      resolved[key] = resolveParameters(value, variables);
+    } else {
+      resolved[key] = value;
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Ejecuta la acción configurada en un nodo ACTION
+ * @param metadata Metadatos del nodo
+ * @param context Contexto de ejecución
+ * @returns Resultado de la acción (nunca lanza excepción)
+ */
+export async function executeAction(
+  metadata: ActionNodeMetadata,
+  context: ActionContext
+): Promise<ActionResult> {
+  if (!metadata || !metadata.actionType) {
+    return { success: false, error: "Nodo de acción sin actionType configurado" };
+  }
+
+  await loadTenantActions(context.tenantId);
+  const handler = getActionHandler(metadata.actionType, context.tenantId);
+  if (!handler) {
+    return { success: false, error: `Acción desconocida: ${metadata.actionType}` };
+  }
+
+  const variables = {
+    ...context.state.context,
+    ...(context.state.variables || {}),
+  };
+
+  try {
+    const parameters = resolveParameters(metadata.parameters || {}, variables);
+    logger.info(`Ejecutando acción ${metadata.actionType} del nodo ${context.node.id}`);
+    return await handler(parameters, context);
+  } catch (error) {
+    logger.error(`Error al ejecutar acción ${metadata.actionType}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Error desconocido",
+    };
+  }
+}
+
+/**
+ * Obtiene el ID del lead del estado en cualquiera de sus ubicaciones habituales
+ */
+function getLeadId(state: ExtendedFlowState): string | undefined {
+  return state.leadId || state.lead_id || state.context?.leadId || state.context?.lead_id;
+}
+
+// ----- Acciones integradas -----
+
+// Asigna una o varias variables: { variable, value } o { variables: { a: 1 } }
+registerBuiltInAction("set_variable", async (parameters) => {
+  const updates: Record<string, any> = { ...(parameters.variables || {}) };
+  const name = parameters.variable || parameters.name;
+
+  if (name) {
+    updates[name] = parameters.value;
+  }
+
+  if (Object.keys(updates).length === 0) {
+    return { success: false, error: "set_variable requiere 'variable' o 'variables'" };
+  }
+
+  return { success: true, output: parameters.value, contextUpdates: updates };
+});
+
+// Incrementa un contador numérico: { variable, amount? }
+registerBuiltInAction("increment_counter", async (parameters, { state }) => {
+  const name = parameters.variable || parameters.name;
+  if (!name) {
+    return { success: false, error: "increment_counter requiere 'variable'" };
+  }
+
+  const amount = Number(parameters.amount ?? 1);
+  if (isNaN(amount)) {
+    return { success: false, error: `Incremento inválido: ${parameters.amount}` };
+  }
+
+  const current = Number(state.context[name]) || 0;
+  const value = current + amount;
+
+  return { success: true, output: value, contextUpdates: { [name]: value } };
+});
+
+// Mueve el lead a otra etapa del sales funnel: { stage }
+registerBuiltInAction("update_lead_stage", async (parameters, { state, tenantId }) => {
+  const leadId = parameters.leadId || getLeadId(state);
+  const stage = parameters.stage || parameters.stageId;
+
+  if (!leadId) return { success: false, error: "No hay lead asociado a la sesión" };
+  if (!stage) return { success: false, error: "update_lead_stage requiere 'stage'" };
+
+  const updated = await updateLeadStage(leadId, stage, tenantId);
+  if (!updated) {
+    return { success: false, error: `No se pudo mover el lead ${leadId} a ${stage}` };
+  }
+
+  return { success: true, output: stage, contextUpdates: { currentLeadStage: stage } };
+});
+
+// Envía un archivo multimedia por el número del tenant (o el proveedor global): { mediaUrl, caption?, to? }
+// Solo acepta URLs http(s): los parámetros del flujo nunca deben apuntar a archivos del servidor
+registerBuiltInAction("send_media", async (parameters, { state, tenantId }) => {
+  const mediaUrl = parameters.mediaUrl || parameters.url;
+  const to = parameters.to || state.context.phone || state.userId;
+
+  if (!mediaUrl) return { success: false, error: "send_media requiere 'mediaUrl'" };
+  if (!isRemoteMedia(String(mediaUrl))) {
+    return { success: false, error: "send_media solo acepta URLs http(s)" };
+  }
+
+  const sent = await sendMedia(to, mediaUrl, parameters.caption, tenantId);
+  return sent
+    ? { success: true, output: mediaUrl }
+    : { success: false, error: `No se pudo enviar el medio a ${to}` };
+});
+
+// Registra un evento en la auditoría: { event, details? }
+registerBuiltInAction("log_audit_event", async (parameters, { node, state, tenantId }) => {
+  const logged = await logAuditAction({
+    action: AuditActionType.FLOW_ACTION,
+    userId: state.userId,
+    tenantId,
+    resourceId: state.flowId,
+    resourceType: "flow",
+    details: {
+      event: parameters.event || "flow_event",
+      nodeId: node.id,
+      sessionId: state.sessionId,
+      ...(parameters.details || {}),
+    },
+  });
+
+  return logged
+    ? { success: true, output: parameters.event }
+    : { success: false, error: "No se pudo registrar el evento de auditoría" };
+});
+
+export default {
+  registerBuiltInAction,
+  registerTenantAction,
+  unregisterTenantAction,
+  getActionHandler,
+  listActions,
+  loadTenantActions,
+  invalidateTenantActions,
+  listTenantActionDefinitions,
+  saveTenantAction,
+  deleteTenantAction,
+  executeAction,
+};
@@ -0,0 +1,366 @@
+/**
+ * src/services/aiGuardrails.ts
+ *
+ * Validaciones de las respuestas generadas por nodos de IA antes de enviarlas:
+ * datos personales que no pertenecen a la conversación, temas prohibidos por
+ * tenant, precios que no coinciden con propiedades o productos y longitud máxima.
+ * Una respuesta bloqueada se reemplaza por la respuesta de respaldo y se registra
+ * en la auditoría para revisión (con correos y teléfonos enmascarados).
+ * @version 1.0.1
+ * @created 2025-06-16
+ * @updated 2025-06-17
+ */
+
+import logger from "../utils/logger";
+import { config } from "../config";
+import { FlowNode } from "../models/flow.types";
+import { ExtendedFlowState } from "../models/extendedFlow.types";
+import { getSupabaseAdminClient } from "./supabase";
+import { getPropertiesByTenant } from "./propertyService";
+import { getProductDetailsForChatbot } from "./productsService";
+import { logAuditAction, AuditActionType } from "./auditService";
+import { extractEntities } from "./nlu/entityExtractor";
+import { normalizeText } from "./nlu/textUtils";
+
+/**
+ * Configuración de validaciones de un tenant (tabla tenant_guardrail_settings)
+ */
+export interface TenantGuardrailSettings {
+  tenant_id: string;
+  enabled?: boolean | null;
+  forbidden_topics?: string[] | null;
+  max_response_length?: number | null;
+  fallback_reply?: string | null;
+  verify_prices?: boolean | null;
+}
+
+/**
+ * Configuración efectiva para una respuesta (global + tenant + nodo)
+ */
+export interface ResolvedGuardrailSettings {
+  enabled: boolean;
+  forbiddenTopics: string[];
+  maxResponseLength: number;
+  fallbackReply: string;
+  verifyPrices: boolean;
+  priceTolerance: number;
+}
+
+/**
+ * Datos de la conversación con los que se valida la respuesta
+ */
+export interface GuardrailContext {
+  tenantId: string;
+  state: ExtendedFlowState;
+  node?: FlowNode;
+  sourceText?: string; // Texto entregado al modelo: prompt, historial, base de conocimiento, herramientas
+}
+
+/**
+ * Problema detectado por una validación
+ */
+export interface GuardrailViolation {
+  check: string;
+  message: string;
+  details?: Record<string, any>;
+}
+
+/**
+ * Resultado de validar una respuesta
+ */
+export interface GuardrailResult {
+  allowed: boolean;
+  response: string;     // Respuesta a enviar (la original, recortada o la de respaldo)
+  violations: GuardrailViolation[];
+  truncated: boolean;
+}
+
+/**
+ * Validación: devuelve los problemas encontrados (lista vacía si la respuesta es válida)
+ */
+export type GuardrailCheck = (
+  text: string,
+  context: GuardrailContext,
+  settings: ResolvedGuardrailSettings
+) => Promise<GuardrailViolation[]>;
+
+const SETTINGS_TTL_MS = 5 * 60 * 1000;
+
+const checks = new Map<string, GuardrailCheck>();
+const settingsCache = new Map<string, { settings: TenantGuardrailSettings | null; loadedAt: number }>();
+
+/**
+ * Registra una validación (reemplaza la existente con el mismo nombre)
+ */
+export function registerGuardrailCheck(name: string, check: GuardrailCheck): void {
+  checks.set(name, check);
+}
+
+/**
+ * Lista los nombres de las validaciones registradas, en orden de ejecución
+ */
+export function listGuardrailChecks(): string[] {
+  return Array.from(checks.keys());
+}
+
+/**
+ * Obtiene la configuración de validaciones del tenant (null si no tiene)
+ */
+export async function loadTenantGuardrailSettings(tenantId: string): Promise<TenantGuardrailSettings | null> {
+  if (!config.supabase.enabled) return null;
+
+  const { data, error } = await getSupabaseAdminClient()
+    .from("tenant_guardrail_settings")
+    .select("*")
+    .eq("tenant_id", tenantId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error(`Error al obtener validaciones de IA del tenant ${tenantId}: ${error.message}`);
+    return null;
+  }
+  return (data as TenantGuardrailSettings) || null;
+}
+
+async function getTenantGuardrailSettings(tenantId: string): Promise<TenantGuardrailSettings | null> {
+  const cached = settingsCache.get(tenantId);
+  if (cached && Date.now() - cached.loadedAt < SETTINGS_TTL_MS) return cached.settings;
+
+  let settings: TenantGuardrailSettings | null = null;
+  try {
+    settings = await loadTenantGuardrailSettings(tenantId);
+  } catch (error) {
+    logger.error(`Error al cargar validaciones de IA del tenant ${tenantId}:`, error);
+  }
+  settingsCache.set(tenantId, { settings, loadedAt: Date.now() });
+  return settings;
+}
+
+/**
+ * Descarta la configuración en caché de un tenant (tras modificarla)
+ */
+export function invalidateGuardrailSettings(tenantId: string): void {
+  settingsCache.delete(tenantId);
+}
+
+/**
+ * Combina la configuración global, la del tenant y la del nodo
+ */
+export function resolveGuardrailSettings(
+  tenantSettings: TenantGuardrailSettings | null,
+  node?: FlowNode
+): ResolvedGuardrailSettings {
+  return {
+    enabled: config.guardrails.enabled && tenantSettings?.enabled !== false && node?.metadata?.guardrails !== false,
+    forbiddenTopics: [...config.guardrails.forbiddenTopics, ...(tenantSettings?.forbidden_topics || [])],
+    maxResponseLength:
+      node?.metadata?.maxResponseLength || tenantSettings?.max_response_length || config.guardrails.maxResponseLength,
+    fallbackReply: node?.metadata?.guardrailFallback || tenantSettings?.fallback_reply || config.guardrails.fallbackReply,
+    verifyPrices: tenantSettings?.verify_prices !== false,
+    priceTolerance: config.guardrails.priceTolerance,
+  };
+}
+
+/**
+ * Recorta una respuesta a la longitud máxima, de preferencia al final de una oración
+ */
+export function truncateResponse(text: string, maxLength: number): string {
+  if (!maxLength || text.length <= maxLength) return text;
+
+  const slice = text.slice(0, maxLength);
+  const sentenceEnd = Math.max(slice.lastIndexOf(". "), slice.lastIndexOf("! "), slice.lastIndexOf("? "), slice.lastIndexOf("\n"));
+  if (sentenceEnd >= maxLength * 0.5) {
+    return slice.slice(0, sentenceEnd + 1).trim();
+  }
+
+  const wordEnd = slice.lastIndexOf(" ");
+  return `${(wordEnd > 0 ? slice.slice(0, wordEnd) : slice.slice(0, maxLength - 1)).trim()}…`;
+}
+
+/**
+ * Texto con los datos que la respuesta puede repetir: lo entregado al modelo y
+ * los valores del contexto de la sesión (datos del propio lead y del negocio)
+ */
+function collectGroundingText(context: GuardrailContext): string {
+  const values: string[] = [context.sourceText || "", context.state.userId || ""];
+
+  const visit = (value: unknown, depth: number) => {
+    if (value === null || value === undefined || depth > 3) return;
+    if (typeof value === "string" || typeof value === "number") {
+      values.push(String(value));
+    } else if (Array.isArray(value)) {
+      value.forEach((item) => visit(item, depth + 1));
+    } else if (typeof value === "object") {
+      Object.values(value as Record<string, unknown>).forEach((item) => visit(item, depth + 1));
+    }
+  };
+  visit(context.state.context, 0);
+  visit(context.state.variables, 0);
+
+  return values.join("\n");
+}
+
+function maskEmail(email: string): string {
+  const [user, domain] = email.split("@");
+  return `${user.charAt(0)}***@${domain}`;
+}
+
+function maskPhone(phone: string): string {
+  return `***${phone.slice(-4)}`;
+}
+
+/**
+ * Enmascara correos y teléfonos de un texto para guardarlo en la auditoría
+ */
+function maskContactData(text: string): string {
+  return text
+    .replace(/[\w.+-]+@[\w-]+(\.[\w-]+)+/g, (email) => maskEmail(email))
+    .replace(/\+?\d[\d\s().-]{6,}\d/g, (match) => {
+      const digits = match.replace(/\D/g, "");
+      return digits.length >= 10 ? maskPhone(digits) : match;
+    });
+}
+
+// Datos personales (correos y teléfonos) que no aparecen en la conversación: posiblemente de otro lead
+registerGuardrailCheck("pii", async (text, context) => {
+  const entities = extractEntities(text).filter((entity) => entity.type === "email" || entity.type === "phone");
+  if (entities.length === 0) return [];
+
+  const grounding = collectGroundingText(context);
+  const groundingLower = grounding.toLowerCase();
+  const groundingDigits = grounding.replace(/[\s().+-]/g, "");
+
+  const leaked = entities.filter((entity) =>
+    entity.type === "email"
+      ? !groundingLower.includes(String(entity.value))
+      : !groundingDigits.includes(String(entity.value).slice(-10))
+  );
+  if (leaked.length === 0) return [];
+
+  return [
+    {
+      check: "pii",
+      message: "La respuesta incluye datos de contacto que no pertenecen a la conversación",
+      details: {
+        values: leaked.map((entity) =>
+          entity.type === "email" ? maskEmail(String(entity.value)) : maskPhone(String(entity.value))
+        ),
+      },
+    },
+  ];
+});
+
+// Temas que el tenant no quiere que la IA trate
+registerGuardrailCheck("forbidden_topics", async (text, _context, settings) => {
+  if (settings.forbiddenTopics.length === 0) return [];
+
+  const toWords = (value: string) => normalizeText(value).replace(/[^a-z0-9ñ]+/g, " ").trim();
+  const normalized = ` ${toWords(text)} `;
+  const found = settings.forbiddenTopics.filter((topic) => {
+    const normalizedTopic = toWords(topic);
+    return normalizedTopic && normalized.includes(` ${normalizedTopic} `);
+  });
+  if (found.length === 0) return [];
+
+  return [{ check: "forbidden_topics", message: "La respuesta trata un tema prohibido", details: { topics: found } }];
+});
+
+// Precios que no coinciden con propiedades, productos ni con lo dicho en la conversación
+registerGuardrailCheck("prices", async (text, context, settings) => {
+  if (!settings.verifyPrices) return [];
+
+  const mentioned = extractEntities(text)
+    .filter((entity) => entity.type === "price")
+    .map((entity) => ({ raw: entity.raw, value: Number(entity.value) }))
+    .filter((price) => price.value > 0);
+  if (mentioned.length === 0) return [];
+
+  const [properties, products] = await Promise.all([
+    getPropertiesByTenant(context.tenantId, "", 200),
+    getProductDetailsForChatbot(context.tenantId),
+  ]);
+  const known = [
+    // getPropertiesByTenant devuelve propiedades de ejemplo cuando falla la consulta
+    ...properties.filter((property) => !property.id.startsWith("example-")).map((property) => Number(property.price)),
+    ...products.map((product) => Number(product.price)),
+    ...extractEntities(collectGroundingText(context))
+      .filter((entity) => entity.type === "price")
+      .map((entity) => Number(entity.value)),
+  ].filter((price) => price > 0);
+
+  const unverified = mentioned.filter(
+    (price) => !known.some((value) => Math.abs(value - price.value) <= value * settings.priceTolerance)
+  );
+  if (unverified.length === 0) return [];
+
+  return [
+    {
+      check: "prices",
+      message: "La respuesta menciona precios que no coinciden con los registrados",
+      details: { prices: unverified.map((price) => price.raw) },
+    },
+  ];
+});
+
+/**
+ * Valida una respuesta generada y decide qué se envía al usuario
+ * @param text Respuesta generada por el modelo
+ * @param context Tenant, estado y texto entregado al modelo
+ * @param tenantSettings Configuración del tenant (si no se indica se carga de la base de datos)
+ * @returns Resultado con la respuesta a enviar (nunca lanza excepción)
+ */
+export async function applyGuardrails(
+  text: string,
+  context: GuardrailContext,
+  tenantSettings?: TenantGuardrailSettings | null
+): Promise<GuardrailResult> {
+  const settings = resolveGuardrailSettings(
+    tenantSettings !== undefined ? tenantSettings : await getTenantGuardrailSettings(context.tenantId),
+    context.node
+  );
+  if (!settings.enabled || !text) {
+    return { allowed: true, response: text, violations: [], truncated: false };
+  }
+
+  const violations: GuardrailViolation[] = [];
+  for (const [name, check] of checks.entries()) {
+    try {
+      violations.push(...(await check(text, context, settings)));
+    } catch (error) {
+      // Una validación que falla (p. ej. sin acceso a la base de datos) no bloquea la respuesta
+      logger.error(`Error en la validación de IA ${name}:`, error);
+    }
+  }
+
+  if (violations.length > 0) {
+    logger.warn(
+      `Respuesta de IA bloqueada en nodo ${context.node?.id || "desconocido"}: ${violations.map((violation) => violation.check).join(", ")}`
+    );
+    await logAuditAction({
+      action: AuditActionType.AI_RESPONSE_BLOCKED,
+      userId: context.state.userId,
+      tenantId: context.tenantId,
+      resourceId: context.state.flowId,
+      resourceType: "flow",
+      details: {
+        nodeId: context.node?.id,
+        sessionId: context.state.sessionId,
+        violations,
+        response: maskContactData(text.slice(0, 2000)),
+      },
+    });
+    return { allowed: false, response: settings.fallbackReply, violations, truncated: false };
+  }
+
+  const response = truncateResponse(text, settings.maxResponseLength);
+  return { allowed: true, response, violations, truncated: response !== text };
+}
+
+export default {
+  applyGuardrails,
+  registerGuardrailCheck,
+  listGuardrailChecks,
+  resolveGuardrailSettings,
+  truncateResponse,
+  invalidateGuardrailSettings,
+};
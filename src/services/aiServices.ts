@@ -1,14 +1,23 @@
 /**
  * backend/src/services/aiServices.ts
  * Servicio de AI con modelo especificado
- * @version 1.0.1
- * @updated 2024-02-01
+ * @version 1.1.0
+ * @updated 2025-06-13
  */
 
 import OpenAI from "openai";
 import { type ChatCompletionMessageParam } from "openai/resources/chat";
 import { config } from "../config";
 
+/**
+ * Parámetros opcionales de una llamada (por defecto los de config.openai)
+ */
+export interface ChatOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
 class AIServices {
   private static apiKey: string;
   private openAI: OpenAI;
@@ -25,7 +34,8 @@ class AIServices {
 
   async chat(
     prompt: string,
-    messages: { role: string; content: string }[]
+    messages: { role: string; content: string }[],
+    options: ChatOptions = {}
   ): Promise<string> {
     try {
       // Validaciones
@@ -49,10 +59,10 @@ class AIServices {
 
       // Llamada a OpenAI con modelo específico
       const completion = await this.openAI.chat.completions.create({
-        model: "gpt-4o-mini", // Especificamos el modelo directamente
+        model: options.model || config.openai.model || "gpt-4o-mini",
         messages: formattedMessages,
-        temperature: config.openai.temperature ?? 0.7,
-        max_tokens: config.openai.maxTokens ?? 500,
+        temperature: options.temperature ?? config.openai.temperature ?? 0.7,
+        max_tokens: options.maxTokens ?? config.openai.maxTokens ?? 500,
         presence_penalty: config.openai.presencePenalty ?? 0,
         frequency_penalty: config.openai.frequencyPenalty ?? 0,
       });
@@ -0,0 +1,383 @@
+/**
+ * src/services/aiTools.ts
+ *
+ * Herramientas (function calling) disponibles para los nodos de IA:
+ * búsqueda de propiedades y productos, disponibilidad de citas y
+ * actualización de datos del lead. Cada nodo elige qué herramientas
+ * expone al modelo (metadata.aiTools).
+ * @version 1.0.1
+ * @created 2025-06-15
+ * @updated 2025-06-17
+ */
+
+import logger from "../utils/logger";
+import { config } from "../config";
+import { FlowNode } from "../models/flow.types";
+import { ExtendedFlowState } from "../models/extendedFlow.types";
+import { getPropertiesByTenant, Property } from "./propertyService";
+import { getProductsForChatbot } from "./productsService";
+import { getAvailability, findNextAvailability } from "./appointmentService";
+import { updateLeadData } from "./leads/updateLeadData";
+import { normalizeText } from "./nlu/textUtils";
+import type { LLMCallOptions, LLMMessage, LLMRequest, LLMResponse, LLMToolCall, LLMToolDefinition } from "./llm";
+
+/**
+ * Contexto disponible para una herramienta durante su ejecución
+ */
+export interface AIToolContext {
+  tenantId: string;
+  state: ExtendedFlowState;
+  node?: FlowNode;
+}
+
+/**
+ * Resultado de ejecutar una herramienta
+ */
+export interface AIToolResult {
+  success: boolean;
+  data?: any;                           // Se envía al modelo como JSON
+  contextUpdates?: Record<string, any>; // Variables a escribir en state.context
+  error?: string;
+}
+
+/**
+ * Herramienta: definición para el modelo y manejador
+ */
+export interface AITool {
+  definition: LLMToolDefinition;
+  handler: (args: Record<string, any>, context: AIToolContext) => Promise<AIToolResult>;
+}
+
+/**
+ * Registro de una invocación ejecutada
+ */
+export interface AIToolExecution {
+  call: LLMToolCall;
+  result: AIToolResult;
+}
+
+/**
+ * Resultado de una conversación con herramientas
+ */
+export interface ToolLoopResult {
+  response: LLMResponse;           // Última respuesta del modelo
+  executions: AIToolExecution[];
+  contextUpdates: Record<string, any>;
+  totalTokens: number;             // Tokens de todas las llamadas al modelo
+}
+
+/**
+ * Cliente mínimo del modelo (LLMService o un doble de pruebas)
+ */
+export interface ToolLoopClient {
+  complete(request: LLMRequest, options?: LLMCallOptions): Promise<LLMResponse>;
+}
+
+const tools = new Map<string, AITool>();
+
+/**
+ * Registra una herramienta (reemplaza la existente con el mismo nombre)
+ */
+export function registerAITool(tool: AITool): void {
+  tools.set(tool.definition.name, tool);
+}
+
+/**
+ * Lista los nombres de las herramientas registradas
+ */
+export function listAITools(): string[] {
+  return Array.from(tools.keys()).sort();
+}
+
+/**
+ * Definiciones de las herramientas indicadas (se ignoran las desconocidas)
+ */
+export function getAIToolDefinitions(names: string[]): LLMToolDefinition[] {
+  return names
+    .map((name) => {
+      const tool = tools.get(name);
+      if (!tool) logger.warn(`Herramienta de IA desconocida: ${name}`);
+      return tool?.definition;
+    })
+    .filter((definition): definition is LLMToolDefinition => Boolean(definition));
+}
+
+/**
+ * Ejecuta una invocación de herramienta
+ * @returns Resultado (nunca lanza excepción)
+ */
+export async function executeAIToolCall(call: LLMToolCall, context: AIToolContext): Promise<AIToolResult> {
+  const tool = tools.get(call.name);
+  if (!tool) {
+    return { success: false, error: `Herramienta desconocida: ${call.name}` };
+  }
+
+  try {
+    logger.info(`Ejecutando herramienta de IA ${call.name} con ${JSON.stringify(call.arguments)}`);
+    return await tool.handler(call.arguments || {}, context);
+  } catch (error) {
+    logger.error(`Error al ejecutar herramienta de IA ${call.name}:`, error);
+    return { success: false, error: error instanceof Error ? error.message : "Error desconocido" };
+  }
+}
+
+/**
+ * Conversa con el modelo ejecutando las herramientas que solicite hasta obtener
+ * una respuesta de texto o agotar las rondas permitidas
+ * @param client Cliente del modelo
+ * @param request Solicitud inicial (con las herramientas expuestas)
+ * @param options Selección de proveedor
+ * @param context Contexto para las herramientas
+ * @param maxRounds Rondas de herramientas permitidas
+ */
+export async function completeWithTools(
+  client: ToolLoopClient,
+  request: LLMRequest,
+  options: LLMCallOptions,
+  context: AIToolContext,
+  maxRounds: number = config.llm.maxToolRounds
+): Promise<ToolLoopResult> {
+  const messages: LLMMessage[] = [...request.messages];
+  const executions: AIToolExecution[] = [];
+  const contextUpdates: Record<string, any> = {};
+  let totalTokens = 0;
+
+  for (let round = 0; ; round++) {
+    // En la última ronda ya no se ofrecen herramientas para forzar una respuesta
+    const exposeTools = round < maxRounds;
+    const response = await client.complete(
+      { ...request, messages, tools: exposeTools ? request.tools : undefined },
+      options
+    );
+    totalTokens += response.usage.totalTokens;
+
+    if (!exposeTools || !response.toolCalls || response.toolCalls.length === 0) {
+      return { response, executions, contextUpdates, totalTokens };
+    }
+
+    messages.push({ role: "assistant", content: response.text, toolCalls: response.toolCalls });
+
+    for (const call of response.toolCalls) {
+      const result = await executeAIToolCall(call, context);
+      executions.push({ call, result });
+
+      if (result.contextUpdates) {
+        Object.assign(contextUpdates, result.contextUpdates);
+        // Las herramientas siguientes ven las variables ya capturadas
+        Object.assign(context.state.context, result.contextUpdates);
+      }
+
+      messages.push({
+        role: "tool",
+        toolCallId: call.id,
+        content: JSON.stringify(result.success ? result.data ?? { ok: true } : { error: result.error }),
+      });
+    }
+  }
+}
+
+/**
+ * Obtiene el ID del lead del estado en cualquiera de sus ubicaciones habituales
+ */
+function getLeadId(state: ExtendedFlowState): string | undefined {
+  return state.leadId || state.lead_id || state.context?.leadId || state.context?.lead_id;
+}
+
+function toNumber(value: any): number | undefined {
+  const parsed = typeof value === "string" ? parseFloat(value.replace(/[^\d.]/g, "")) : Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function matchesText(value: string | undefined, search: string): boolean {
+  return normalizeText(value || "").includes(normalizeText(search));
+}
+
+// ----- Herramientas integradas -----
+
+// Búsqueda de propiedades con filtros de tipo, zona, recámaras y precio
+registerAITool({
+  definition: {
+    name: "search_properties",
+    description:
+      "Busca propiedades disponibles del negocio. Úsala para responder sobre inventario, precios, zonas o características.",
+    parameters: {
+      type: "object",
+      properties: {
+        type: { type: "string", description: "Tipo de propiedad: Casa, Apartamento, Oficina, Local, Terreno" },
+        location: { type: "string", description: "Ciudad, municipio o colonia" },
+        min_bedrooms: { type: "integer", description: "Número mínimo de recámaras" },
+        min_price: { type: "number", description: "Precio mínimo en pesos" },
+        max_price: { type: "number", description: "Precio máximo en pesos" },
+        limit: { type: "integer", description: "Máximo de resultados (por defecto 5)" },
+      },
+    },
+  },
+  handler: async (args, { tenantId }) => {
+    const limit = Math.min(Math.max(toNumber(args.limit) || 5, 1), 10);
+    const minBedrooms = toNumber(args.min_bedrooms);
+    const minPrice = toNumber(args.min_price);
+    const maxPrice = toNumber(args.max_price);
+
+    // Se filtra en memoria para no depender de mayúsculas o acentos
+    const properties = (await getPropertiesByTenant(tenantId, "", 100))
+      // Las propiedades de ejemplo del servicio no son inventario real
+      .filter((property) => !property.id.startsWith("example-"))
+      .filter((property) => !args.type || matchesText(property.type, args.type))
+      .filter((property) => !args.location || matchesText(`${property.city || ""} ${property.address || ""}`, args.location))
+      .filter((property) => minBedrooms === undefined || (property.bedrooms || 0) >= minBedrooms)
+      .filter((property) => minPrice === undefined || (property.price !== undefined && property.price >= minPrice))
+      .filter((property) => maxPrice === undefined || (property.price !== undefined && property.price <= maxPrice));
+
+    return {
+      success: true,
+      data: {
+        total: properties.length,
+        properties: properties.slice(0, limit).map((property: Property) => ({
+          id: property.id,
+          name: property.name,
+          type: property.type,
+          price: property.price,
+          city: property.city,
+          address: property.address,
+          bedrooms: property.bedrooms,
+          bathrooms: property.bathrooms,
+          square_meters: property.square_meters,
+          features: property.features,
+          status: property.status,
+        })),
+      },
+    };
+  },
+});
+
+// Catálogo de productos y servicios
+registerAITool({
+  definition: {
+    name: "search_products",
+    description: "Consulta el catálogo de productos o servicios del negocio con sus precios.",
+    parameters: {
+      type: "object",
+      properties: {
+        category_id: { type: "string", description: "ID de categoría para filtrar (opcional)" },
+        limit: { type: "integer", description: "Máximo de resultados (por defecto 10)" },
+      },
+    },
+  },
+  handler: async (args, { tenantId }) => {
+    const limit = Math.min(Math.max(toNumber(args.limit) || 10, 1), 25);
+    const products = await getProductsForChatbot(tenantId, args.category_id || undefined, limit);
+    return { success: true, data: { products } };
+  },
+});
+
+// Horarios disponibles para citas (misma lógica que GET /api/appointments/availability)
+registerAITool({
+  definition: {
+    name: "check_availability",
+    description:
+      "Consulta los horarios disponibles para agendar una cita en una fecha. Si no hay lugar, devuelve la siguiente fecha con disponibilidad.",
+    parameters: {
+      type: "object",
+      properties: {
+        date: { type: "string", description: "Fecha en formato YYYY-MM-DD" },
+        appointment_type_id: { type: "string", description: "ID del tipo de cita (opcional)" },
+        location_id: { type: "string", description: "ID de la sucursal (opcional)" },
+      },
+      required: ["date"],
+    },
+  },
+  handler: async (args, { tenantId }) => {
+    if (!args.date || !/^\d{4}-\d{2}-\d{2}$/.test(args.date)) {
+      return { success: false, error: "Se requiere una fecha válida (YYYY-MM-DD)" };
+    }
+
+    const options = { appointmentTypeId: args.appointment_type_id, locationId: args.location_id };
+    const availability = await getAvailability(tenantId, args.date, options);
+    const result: Record<string, any> = {
+      date: availability.date,
+      is_closed: availability.business_hours.is_closed,
+      available_times: availability.available_slots.map((slot) => slot.start_time),
+    };
+
+    if (availability.available_slots.length === 0) {
+      const next = await findNextAvailability(tenantId, args.date, 14, options);
+      if (next) {
+        result.next_available_date = next.date;
+        result.next_available_times = next.available_slots.map((slot) => slot.start_time);
+      }
+    }
+
+    return { success: true, data: result };
+  },
+});
+
+// Datos del lead que el modelo puede guardar (cualquier otro argumento se descarta
+// para que no sobrescriba variables internas como tenantId o leadId)
+const LEAD_FIELDS = ["name", "email", "phone", "budget", "location", "property_type", "notes"];
+
+// Columnas del lead que se actualizan directamente
+const LEAD_COLUMNS: Record<string, string> = {
+  name: "full_name",
+  email: "email",
+  phone: "phone",
+};
+
+// Guarda los datos que el cliente comparte en la conversación
+registerAITool({
+  definition: {
+    name: "update_lead_fields",
+    description:
+      "Guarda datos que el cliente compartió (nombre, correo, teléfono, presupuesto, zona o tipo de propiedad de interés).",
+    parameters: {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        email: { type: "string" },
+        phone: { type: "string" },
+        budget: { type: "number", description: "Presupuesto en pesos" },
+        location: { type: "string", description: "Zona de interés" },
+        property_type: { type: "string" },
+        notes: { type: "string" },
+      },
+    },
+  },
+  handler: async (args, { state }) => {
+    const fields: Record<string, any> = {};
+    for (const key of LEAD_FIELDS) {
+      const value = args[key];
+      if (value !== undefined && value !== null && value !== "") fields[key] = value;
+    }
+    if (Object.keys(fields).length === 0) {
+      return { success: false, error: "No se indicaron datos para guardar" };
+    }
+
+    const leadUpdates: Record<string, any> = {};
+    for (const [field, column] of Object.entries(LEAD_COLUMNS)) {
+      if (fields[field] !== undefined) leadUpdates[column] = fields[field];
+    }
+
+    const leadId = getLeadId(state);
+    let leadUpdated = false;
+    if (leadId && Object.keys(leadUpdates).length > 0) {
+      const result = await updateLeadData(leadId, { ...leadUpdates, updated_at: new Date().toISOString() });
+      leadUpdated = result.success;
+      if (!result.success) {
+        logger.warn(`No se pudo actualizar el lead ${leadId} desde la IA: ${result.error}`);
+      }
+    }
+
+    return {
+      success: true,
+      data: { saved: Object.keys(fields), lead_updated: leadUpdated },
+      contextUpdates: fields,
+    };
+  },
+});
+
+export default {
+  registerAITool,
+  listAITools,
+  getAIToolDefinitions,
+  executeAIToolCall,
+  completeWithTools,
+};
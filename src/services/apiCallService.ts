@@ -0,0 +1,383 @@
+/**
+ * src/services/apiCallService.ts
+ *
+ * Servicio para ejecutar llamadas HTTP desde nodos API_CALL.
+ * Interpola variables en URL, cabeceras y cuerpo, aplica timeout y reintentos
+ * y extrae valores de la respuesta mediante rutas JSON.
+ * Las URLs las configura el tenant: se bloquean las direcciones privadas,
+ * loopback y link-local (también tras redirecciones) y, si se configura,
+ * solo se llama a los hosts de API_CALL_ALLOWED_HOSTS.
+ * @version 1.1.0
+ * @created 2025-06-02
+ * @updated 2025-06-17
+ */
+
+import dns from "dns";
+import net from "net";
+import axios, { AxiosError, LookupAddressEntry } from "axios";
+import { config } from "../config";
+import logger from "../utils/logger";
+import { ApiCallNodeMetadata } from "../models/flow.types";
+
+// Valores por defecto para las llamadas
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_RETRY_DELAY_MS = 500;
+const MAX_RETRIES = 5;
+
+export type ApiCallErrorCode = "BLOCKED_URL";
+
+export class ApiCallError extends Error {
+  constructor(public code: ApiCallErrorCode, message: string) {
+    super(message);
+    this.name = "ApiCallError";
+  }
+}
+
+/**
+ * Resultado de una llamada a API ejecutada desde un nodo
+ */
+export interface ApiCallResult {
+  success: boolean;
+  status?: number;
+  data?: any;
+  value?: any;       // Valor extraído con responsePath (o data completa)
+  error?: string;
+  attempts: number;
+  durationMs: number;
+}
+
+/**
+ * Obtiene un valor de un objeto usando una ruta tipo "data.items[0].name"
+ * Acepta el prefijo "$." de JSONPath por compatibilidad con el editor visual
+ * @param source Objeto de origen
+ * @param path Ruta a resolver
+ * @returns Valor encontrado o undefined
+ */
+export function getValueByPath(source: any, path?: string): any {
+  if (!path || path.trim() === "" || path.trim() === "$") return source;
+
+  const segments = path
+    .trim()
+    .replace(/^\$\.?/, "")
+    .replace(/\[(\d+)\]/g, ".$1")
+    .replace(/\[["']([^"']+)["']\]/g, ".$1")
+    .split(".")
+    .filter((segment) => segment !== "");
+
+  let current = source;
+  for (const segment of segments) {
+    if (current === null || current === undefined) return undefined;
+    current = current[segment];
+  }
+
+  return current;
+}
+
+/**
+ * Reemplaza las variables {{variable}} de una plantilla
+ * A diferencia de replaceVariablesEnhanced, no usa valores por defecto ni
+ * coincidencias aproximadas: una variable inexistente se reemplaza por cadena vacía
+ * @param template Texto con variables
+ * @param variables Variables disponibles (admite rutas con puntos)
+ * @param encode Función opcional para codificar cada valor
+ * @returns Texto interpolado
+ */
+export function interpolateTemplate(
+  template: string,
+  variables: Record<string, any>,
+  encode?: (value: any) => string
+): string {
+  if (!template) return "";
+
+  return template.replace(/\{\{\s*([^{}]+?)\s*\}\}/g, (match, variableName) => {
+    const value = getValueByPath(variables, variableName);
+
+    if (value === undefined || value === null) {
+      logger.debug(`Variable ${variableName} no encontrada al interpolar llamada a API`);
+      return encode ? encode("") : "";
+    }
+
+    if (encode) return encode(value);
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+  });
+}
+
+/**
+ * Codifica un valor para insertarlo dentro de un cuerpo JSON
+ * Si la variable está dentro de una cadena de la plantilla se inserta escapada,
+ * de lo contrario se inserta como literal JSON
+ */
+function interpolateJsonBody(template: string, variables: Record<string, any>): string {
+  const placeholder = /\{\{\s*([^{}]+?)\s*\}\}/y;
+  let result = "";
+  let inString = false;
+  let i = 0;
+
+  while (i < template.length) {
+    placeholder.lastIndex = i;
+    const match = placeholder.exec(template);
+
+    if (match) {
+      const value = getValueByPath(variables, match[1]);
+
+      if (inString) {
+        // Variable dentro de una cadena JSON: "{{nombre}}" o "Hola {{nombre}}"
+        const text = value === undefined || value === null
+          ? ""
+          : typeof value === "object" ? JSON.stringify(value) : String(value);
+        result += JSON.stringify(text).slice(1, -1);
+      } else {
+        // Variable fuera de comillas: {"precio": {{presupuesto}}}
+        result += value === undefined ? "null" : JSON.stringify(value);
+      }
+
+      i += match[0].length;
+      continue;
+    }
+
+    const char = template[i];
+    if (inString && char === "\\") {
+      // Secuencia de escape de la plantilla: se copia completa
+      result += template.slice(i, i + 2);
+      i += 2;
+      continue;
+    }
+    if (char === '"') inString = !inString;
+    result += char;
+    i++;
+  }
+
+  return result;
+}
+
+/**
+ * Construye el cuerpo de la petición a partir de la plantilla del nodo
+ */
+function buildRequestBody(
+  body: string | undefined,
+  variables: Record<string, any>,
+  headers: Record<string, string>
+): any {
+  if (!body || body.trim() === "") return undefined;
+
+  const contentType = Object.entries(headers).find(
+    ([key]) => key.toLowerCase() === "content-type"
+  )?.[1];
+  const looksLikeJson = /^\s*[[{]/.test(body);
+
+  if (looksLikeJson && (!contentType || contentType.includes("json"))) {
+    const interpolated = interpolateJsonBody(body, variables);
+    try {
+      return JSON.parse(interpolated);
+    } catch (error) {
+      logger.warn(`Cuerpo JSON inválido tras interpolar, se envía como texto: ${error}`);
+      return interpolated;
+    }
+  }
+
+  return interpolateTemplate(body, variables);
+}
+
+/**
+ * Indica si una IP es privada, loopback, link-local, CGNAT, multicast o no especificada
+ */
+export function isPrivateAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return isPrivateAddress(mapped[1]);
+
+  if (net.isIPv4(address)) {
+    const [a, b] = address.split(".").map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168)
+    );
+  }
+
+  const normalized = address.toLowerCase();
+  return (
+    normalized === "::" ||
+    normalized === "::1" ||
+    /^f[cd]/.test(normalized) ||   // Direcciones locales únicas (fc00::/7)
+    /^fe[89ab]/.test(normalized) || // Link-local (fe80::/10)
+    /^ff/.test(normalized)          // Multicast
+  );
+}
+
+/**
+ * Verifica el esquema y el host de la URL antes de llamarla
+ * @throws ApiCallError si la URL no está permitida
+ */
+function assertUrlAllowed(url: string): void {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new ApiCallError("BLOCKED_URL", `URL inválida: ${url}`);
+  }
+
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new ApiCallError("BLOCKED_URL", `Protocolo no permitido: ${parsed.protocol}`);
+  }
+
+  const hostname = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  const { allowedHosts, allowPrivateNetworks } = config.apiCalls;
+
+  if (
+    allowedHosts.length > 0 &&
+    !allowedHosts.some((allowed) => hostname === allowed || hostname.endsWith(`.${allowed}`))
+  ) {
+    throw new ApiCallError("BLOCKED_URL", `Host no permitido: ${hostname}`);
+  }
+
+  // Los hostnames se verifican al resolverlos (guardedLookup)
+  if (!allowPrivateNetworks && net.isIP(hostname) && isPrivateAddress(hostname)) {
+    throw new ApiCallError("BLOCKED_URL", `Dirección no permitida: ${hostname}`);
+  }
+}
+
+/**
+ * Resolución DNS que rechaza direcciones privadas; se aplica a cada conexión,
+ * incluidas las redirecciones
+ */
+async function guardedLookup(hostname: string, options: object): Promise<[LookupAddressEntry[]]> {
+  const addresses = await dns.promises.lookup(hostname, { ...options, all: true });
+
+  const blocked = addresses.find((entry) => isPrivateAddress(entry.address));
+  if (blocked && !config.apiCalls.allowPrivateNetworks) {
+    throw new ApiCallError("BLOCKED_URL", `Dirección no permitida: ${hostname} (${blocked.address})`);
+  }
+  return [addresses.map(({ address, family }) => ({ address, family: family === 6 ? 6 : 4 }))];
+}
+
+/**
+ * Determina si un error es transitorio y merece reintento
+ */
+function isRetryable(status?: number): boolean {
+  if (status === undefined) return true; // Error de red o timeout
+  return status === 429 || status >= 500;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Ejecuta la llamada HTTP configurada en un nodo API_CALL
+ * @param metadata Configuración del nodo
+ * @param variables Variables disponibles para interpolar
+ * @returns Resultado de la llamada (nunca lanza excepción)
+ */
+export async function executeApiCall(
+  metadata: ApiCallNodeMetadata,
+  variables: Record<string, any>
+): Promise<ApiCallResult> {
+  const startTime = Date.now();
+
+  if (!metadata || !metadata.url) {
+    return {
+      success: false,
+      error: "Nodo de API sin URL configurada",
+      attempts: 0,
+      durationMs: 0,
+    };
+  }
+
+  const method = (metadata.method || "GET").toUpperCase();
+  const url = interpolateTemplate(metadata.url, variables, (value) =>
+    encodeURIComponent(typeof value === "object" ? JSON.stringify(value) : String(value))
+  );
+
+  const headers: Record<string, string> = {};
+  for (const [key, value] of Object.entries(metadata.headers || {})) {
+    headers[key] = interpolateTemplate(String(value), variables);
+  }
+
+  try {
+    assertUrlAllowed(url);
+  } catch (error) {
+    logger.warn(`API_CALL ${method} ${url} bloqueada: ${(error as Error).message}`);
+    return { success: false, error: (error as Error).message, attempts: 0, durationMs: Date.now() - startTime };
+  }
+
+  const data = method === "GET" ? undefined : buildRequestBody(metadata.body, variables, headers);
+  const timeout = metadata.timeout && metadata.timeout > 0 ? metadata.timeout : DEFAULT_TIMEOUT_MS;
+  const retries = Math.min(Math.max(metadata.retries || 0, 0), MAX_RETRIES);
+  const retryDelay = metadata.retryDelay ?? DEFAULT_RETRY_DELAY_MS;
+
+  let attempts = 0;
+  let lastStatus: number | undefined;
+  let lastError = "";
+  let lastData: any;
+
+  while (attempts <= retries) {
+    attempts++;
+
+    try {
+      logger.info(`API_CALL ${method} ${url} (intento ${attempts}/${retries + 1})`);
+
+      const response = await axios.request({
+        url,
+        method,
+        headers,
+        data,
+        timeout,
+        lookup: guardedLookup,
+        validateStatus: () => true,
+      });
+
+      lastStatus = response.status;
+      lastData = response.data;
+
+      if (response.status >= 200 && response.status < 300) {
+        return {
+          success: true,
+          status: response.status,
+          data: response.data,
+          value: getValueByPath(response.data, metadata.responsePath),
+          attempts,
+          durationMs: Date.now() - startTime,
+        };
+      }
+
+      lastError = `La API respondió con estado ${response.status}`;
+    } catch (error) {
+      const axiosError = error as AxiosError;
+      lastStatus = axiosError.response?.status;
+      lastError = axiosError.code === "ECONNABORTED"
+        ? `Tiempo de espera agotado (${timeout}ms)`
+        : axiosError.message || String(error);
+
+      // La URL resolvió (o redirigió) a una dirección privada: no se reintenta
+      if (axiosError.code === "BLOCKED_URL") {
+        logger.warn(`API_CALL ${method} ${url} bloqueada: ${lastError}`);
+        break;
+      }
+    }
+
+    logger.warn(`API_CALL ${method} ${url} falló: ${lastError}`);
+
+    if (attempts > retries || !isRetryable(lastStatus)) break;
+
+    // Backoff exponencial simple entre intentos
+    await sleep(retryDelay * Math.pow(2, attempts - 1));
+  }
+
+  return {
+    success: false,
+    status: lastStatus,
+    data: lastData,
+    error: lastError,
+    attempts,
+    durationMs: Date.now() - startTime,
+  };
+}
+
+export default {
+  executeApiCall,
+  interpolateTemplate,
+  getValueByPath,
+};
@@ -0,0 +1,262 @@
+/**
+ * src/services/appointmentCalendar.ts
+ *
+ * Exportación de citas a iCalendar (.ics).
+ * Genera la invitación (o cancelación) de una cita para enviarla como adjunto
+ * con el proveedor activo, y feeds suscribibles por tenant o por agente.
+ * Los feeds se protegen con un token HMAC porque los clientes de calendario
+ * no envían cabeceras de autenticación.
+ * @version 1.0.0
+ * @created 2025-06-08
+ */
+
+import crypto from "crypto";
+import fs from "fs";
+import { join } from "path";
+import logger from "../utils/logger";
+import { config } from "../config";
+import { getSupabaseAdminClient } from "./supabase";
+import { sendMedia } from "./providerService";
+import {
+  Appointment,
+  AppointmentError,
+  getAppointment,
+  getAppointmentSettings,
+  listAppointments,
+} from "./appointmentService";
+import {
+  CalendarEvent,
+  CalendarMethod,
+  buildCalendar,
+  isValidTimeZone,
+  zonedTimeToUtc,
+} from "../utils/icalendar";
+
+/**
+ * Archivo .ics generado
+ */
+export interface AppointmentIcs {
+  filename: string;
+  content: string;
+  method: CalendarMethod;
+}
+
+/**
+ * Datos adicionales para construir el evento de una cita
+ */
+export interface AppointmentEventOptions {
+  timezone: string;
+  typeName?: string;
+  agentName?: string;
+  domain?: string;
+}
+
+const FEED_PAST_DAYS = 30;
+
+/**
+ * Zona horaria del tenant (appointment settings) o la predeterminada
+ */
+export async function getTenantTimezone(tenantId: string): Promise<string> {
+  try {
+    const settings = await getAppointmentSettings(tenantId);
+    if (settings.timezone && isValidTimeZone(settings.timezone)) return settings.timezone;
+  } catch (error) {
+    logger.debug(`Usando zona horaria predeterminada para tenant ${tenantId}: ${error}`);
+  }
+  return config.appointments.timezone;
+}
+
+/**
+ * Nombres de los tipos de cita del tenant (tenant_appointment_types)
+ */
+async function getAppointmentTypeNames(tenantId: string): Promise<Map<string, string>> {
+  const { data, error } = await getSupabaseAdminClient()
+    .from("tenant_appointment_types")
+    .select("id, name")
+    .eq("tenant_id", tenantId);
+
+  if (error) {
+    logger.warn(`No se pudieron cargar tipos de cita para tenant ${tenantId}: ${error.message}`);
+    return new Map();
+  }
+  return new Map((data || []).map((type: any) => [type.id, type.name]));
+}
+
+/**
+ * Nombre de un agente (la tabla de agentes es opcional)
+ */
+async function getAgentName(tenantId: string, agentId: string): Promise<string | undefined> {
+  const { data } = await getSupabaseAdminClient()
+    .from("tenant_appointment_agents")
+    .select("name")
+    .eq("tenant_id", tenantId)
+    .eq("id", agentId)
+    .maybeSingle();
+  return data?.name;
+}
+
+function getDomain(): string {
+  try {
+    return new URL(config.appointments.publicUrl).hostname;
+  } catch {
+    return "localhost";
+  }
+}
+
+/**
+ * Convierte una cita en un evento de calendario
+ * La secuencia se deriva de updated_at para que cada cambio reemplace al anterior
+ */
+export function appointmentToEvent(appointment: Appointment, options: AppointmentEventOptions): CalendarEvent {
+  const summary = options.typeName || "Cita";
+  const details = [
+    appointment.customer_name && `Cliente: ${appointment.customer_name}`,
+    appointment.customer_phone && `Teléfono: ${appointment.customer_phone}`,
+    appointment.customer_email && `Email: ${appointment.customer_email}`,
+    options.agentName && `Agente: ${options.agentName}`,
+    appointment.notes,
+    appointment.status === "cancelled" && appointment.cancellation_reason &&
+      `Motivo de cancelación: ${appointment.cancellation_reason}`,
+  ].filter(Boolean);
+
+  const updatedAt = Date.parse(appointment.updated_at || appointment.created_at || "");
+
+  return {
+    uid: `${appointment.id}@${options.domain || getDomain()}`,
+    start: zonedTimeToUtc(appointment.date, appointment.start_time, options.timezone),
+    end: zonedTimeToUtc(appointment.date, appointment.end_time, options.timezone),
+    summary: appointment.customer_name ? `${summary} - ${appointment.customer_name}` : summary,
+    description: details.join("\n") || undefined,
+    status:
+      appointment.status === "cancelled" ? "CANCELLED" :
+      appointment.status === "pending" ? "TENTATIVE" :
+      "CONFIRMED",
+    sequence: isNaN(updatedAt) ? 0 : Math.floor(updatedAt / 1000),
+    stamp: isNaN(updatedAt) ? undefined : new Date(updatedAt),
+    attendees: appointment.customer_email
+      ? [{ name: appointment.customer_name || undefined, email: appointment.customer_email }]
+      : undefined,
+  };
+}
+
+/**
+ * Genera el .ics de una cita: invitación (REQUEST) o cancelación (CANCEL)
+ */
+export async function buildAppointmentIcs(tenantId: string, appointmentId: string): Promise<AppointmentIcs> {
+  const appointment = await getAppointment(tenantId, appointmentId);
+  const [timezone, typeNames] = await Promise.all([getTenantTimezone(tenantId), getAppointmentTypeNames(tenantId)]);
+  const agentName = appointment.agent_id ? await getAgentName(tenantId, appointment.agent_id) : undefined;
+
+  const method: CalendarMethod = appointment.status === "cancelled" ? "CANCEL" : "REQUEST";
+  const event = appointmentToEvent(appointment, {
+    timezone,
+    typeName: typeNames.get(appointment.appointment_type_id || ""),
+    agentName,
+  });
+
+  return {
+    filename: `cita-${appointment.date}-${appointment.id}.ics`,
+    content: buildCalendar([event], { method, timezone }),
+    method,
+  };
+}
+
+/**
+ * Genera el feed suscribible de un tenant o de un agente
+ * Incluye las citas desde hace 30 días; las canceladas se publican con STATUS:CANCELLED
+ */
+export async function buildAppointmentFeed(tenantId: string, agentId?: string): Promise<string> {
+  const from = new Date();
+  from.setDate(from.getDate() - FEED_PAST_DAYS);
+  const fromDate = `${from.getFullYear()}-${String(from.getMonth() + 1).padStart(2, "0")}-${String(from.getDate()).padStart(2, "0")}`;
+
+  const [appointments, timezone, typeNames] = await Promise.all([
+    listAppointments(tenantId, { from: fromDate, agentId }),
+    getTenantTimezone(tenantId),
+    getAppointmentTypeNames(tenantId),
+  ]);
+  const agentName = agentId ? await getAgentName(tenantId, agentId) : undefined;
+
+  const events = appointments.map((appointment) =>
+    appointmentToEvent(appointment, {
+      timezone,
+      typeName: typeNames.get(appointment.appointment_type_id || ""),
+      agentName,
+    })
+  );
+
+  return buildCalendar(events, {
+    method: "PUBLISH",
+    name: agentName ? `Citas - ${agentName}` : "Citas",
+    timezone,
+  });
+}
+
+/**
+ * Token de acceso a un feed (HMAC del tenant y el agente)
+ */
+export function createFeedToken(tenantId: string, agentId?: string): string {
+  if (!config.appointments.feedSecret) {
+    throw new Error("CALENDAR_FEED_SECRET no está configurado");
+  }
+  return crypto
+    .createHmac("sha256", config.appointments.feedSecret)
+    .update(`${tenantId}:${agentId || ""}`)
+    .digest("base64url")
+    .slice(0, 32);
+}
+
+/**
+ * Verifica el token de un feed sin filtrar información por tiempos de comparación
+ */
+export function verifyFeedToken(token: string, tenantId: string, agentId?: string): boolean {
+  if (!token || !config.appointments.feedSecret) return false;
+  const expected = Buffer.from(createFeedToken(tenantId, agentId));
+  const received = Buffer.from(String(token));
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+/**
+ * URL pública del feed de un tenant o de un agente
+ */
+export function getFeedUrl(tenantId: string, agentId?: string): string {
+  const base = config.appointments.publicUrl.replace(/\/$/, "");
+  const path = agentId
+    ? `/api/calendar/${tenantId}/agents/${agentId}/feed.ics`
+    : `/api/calendar/${tenantId}/feed.ics`;
+  return `${base}${path}?token=${createFeedToken(tenantId, agentId)}`;
+}
+
+/**
+ * Envía el .ics de una cita como adjunto desde el número del tenant
+ * @param to Destinatario; por defecto el teléfono del cliente
+ */
+export async function sendAppointmentIcs(tenantId: string, appointmentId: string, to?: string): Promise<boolean> {
+  const ics = await buildAppointmentIcs(tenantId, appointmentId);
+  const recipient = to || (await getAppointment(tenantId, appointmentId)).customer_phone;
+  if (!recipient) {
+    throw new AppointmentError("INVALID_INPUT", "La cita no tiene teléfono de contacto");
+  }
+
+  fs.mkdirSync(config.paths.calendar, { recursive: true });
+  const filePath = join(config.paths.calendar, ics.filename);
+  fs.writeFileSync(filePath, ics.content, "utf8");
+
+  const caption = ics.method === "CANCEL"
+    ? "Tu cita fue cancelada. Abre el archivo para quitarla de tu calendario."
+    : "Agrega tu cita a tu calendario con este archivo.";
+
+  logger.info(`Enviando calendario de la cita ${appointmentId} a ${recipient}`);
+  return sendMedia(recipient, filePath, caption, tenantId);
+}
+
+export default {
+  getTenantTimezone,
+  appointmentToEvent,
+  buildAppointmentIcs,
+  buildAppointmentFeed,
+  createFeedToken,
+  verifyFeedToken,
+  getFeedUrl,
+  sendAppointmentIcs,
+};
@@ -0,0 +1,657 @@
+/**
+ * src/services/appointmentScheduler.ts
+ *
+ * Programador de recordatorios y seguimiento de citas.
+ * Encola confirmaciones ("responde 1 para confirmar, 2 para reprogramar"),
+ * recordatorios y seguimientos por inasistencia; los envía con el proveedor
+ * activo y procesa las respuestas del cliente. Los trabajos se guardan en la
+ * tabla appointment_jobs para sobrevivir a reinicios.
+ * Las horas de las citas se interpretan en la zona horaria del tenant.
+ * @version 1.0.1
+ * @created 2025-06-07
+ * @updated 2025-06-17
+ */
+
+import logger from "../utils/logger";
+import { config } from "../config";
+import { getSupabaseAdminClient } from "./supabase";
+import { sendText, sendButtons } from "./providerService";
+import { extractEntities } from "./nlu/entityExtractor";
+import { normalizeText } from "./nlu/textUtils";
+import {
+  Appointment,
+  AppointmentError,
+  AppointmentSettings,
+  getAppointment,
+  getAppointmentSettings,
+  getAppointmentDateTime,
+  getDateInTimeZone,
+  findNextAvailability,
+  bookAppointment,
+  rescheduleAppointment,
+  cancelAppointment,
+  updateAppointmentStatus,
+  onAppointmentEvent,
+  DEFAULT_APPOINTMENT_SETTINGS,
+} from "./appointmentService";
+import { getTenantTimezone } from "./appointmentCalendar";
+
+/**
+ * Tipos de trabajo programado
+ */
+export type AppointmentJobType = "confirmation" | "reminder" | "no_show_followup";
+
+/**
+ * Estados de un trabajo programado
+ */
+export type AppointmentJobStatus =
+  | "pending"
+  | "processing"
+  | "awaiting_reply"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+/**
+ * Estado de la conversación de respuesta (reprogramación en curso)
+ */
+export interface ReplyState {
+  step: "reschedule";
+  date?: string;
+  slots?: string[];
+}
+
+/**
+ * Trabajo programado (tabla appointment_jobs)
+ */
+export interface AppointmentJob {
+  id: string;
+  tenant_id: string;
+  appointment_id: string;
+  job_type: AppointmentJobType;
+  run_at: string;
+  status: AppointmentJobStatus;
+  attempts: number;
+  phone: string;
+  phone_key: string;
+  last_error?: string | null;
+  reply_state?: ReplyState | null;
+  reply_expires_at?: string | null;
+  sent_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type NewAppointmentJob = Omit<AppointmentJob, "id" | "created_at" | "updated_at">;
+
+/**
+ * Almacenamiento de trabajos programados
+ */
+export interface AppointmentJobStore {
+  insert(jobs: NewAppointmentJob[]): Promise<AppointmentJob[]>;
+  update(id: string, changes: Partial<AppointmentJob>): Promise<void>;
+  cancelOpenJobs(appointmentId: string): Promise<void>;
+  claimDue(now: Date, limit: number): Promise<AppointmentJob[]>;
+  findAwaitingReply(tenantId: string, phoneKey: string, now: Date): Promise<AppointmentJob | null>;
+  releaseStale(olderThan: Date): Promise<number>;
+}
+
+const OPEN_STATUSES: AppointmentJobStatus[] = ["pending", "processing", "awaiting_reply"];
+
+/**
+ * Clave de teléfono para asociar respuestas: últimos 10 dígitos
+ */
+export function toPhoneKey(phone: string): string {
+  return String(phone || "").replace(/\D/g, "").slice(-10);
+}
+
+/**
+ * Almacenamiento en Supabase (tabla appointment_jobs)
+ */
+export class SupabaseAppointmentJobStore implements AppointmentJobStore {
+  async insert(jobs: NewAppointmentJob[]): Promise<AppointmentJob[]> {
+    if (jobs.length === 0) return [];
+    const { data, error } = await getSupabaseAdminClient().from("appointment_jobs").insert(jobs).select();
+    if (error) throw new Error(`Error al guardar trabajos de citas: ${error.message}`);
+    return (data || []) as AppointmentJob[];
+  }
+
+  async update(id: string, changes: Partial<AppointmentJob>): Promise<void> {
+    const { error } = await getSupabaseAdminClient()
+      .from("appointment_jobs")
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq("id", id);
+    if (error) throw new Error(`Error al actualizar trabajo ${id}: ${error.message}`);
+  }
+
+  async cancelOpenJobs(appointmentId: string): Promise<void> {
+    const { error } = await getSupabaseAdminClient()
+      .from("appointment_jobs")
+      .update({ status: "cancelled", updated_at: new Date().toISOString() })
+      .eq("appointment_id", appointmentId)
+      .in("status", OPEN_STATUSES);
+    if (error) throw new Error(`Error al cancelar trabajos de la cita ${appointmentId}: ${error.message}`);
+  }
+
+  async claimDue(now: Date, limit: number): Promise<AppointmentJob[]> {
+    const supabase = getSupabaseAdminClient();
+    const { data, error } = await supabase
+      .from("appointment_jobs")
+      .select("*")
+      .eq("status", "pending")
+      .lte("run_at", now.toISOString())
+      .order("run_at")
+      .limit(limit);
+    if (error) throw new Error(`Error al obtener trabajos pendientes: ${error.message}`);
+
+    // Reclamamos cada trabajo solo si sigue pendiente (evita envíos duplicados entre instancias)
+    const claimed: AppointmentJob[] = [];
+    for (const job of data || []) {
+      const { data: updated } = await supabase
+        .from("appointment_jobs")
+        .update({ status: "processing", updated_at: now.toISOString() })
+        .eq("id", job.id)
+        .eq("status", "pending")
+        .select()
+        .maybeSingle();
+      if (updated) claimed.push(updated as AppointmentJob);
+    }
+    return claimed;
+  }
+
+  async findAwaitingReply(tenantId: string, phoneKey: string, now: Date): Promise<AppointmentJob | null> {
+    const { data, error } = await getSupabaseAdminClient()
+      .from("appointment_jobs")
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .eq("phone_key", phoneKey)
+      .eq("status", "awaiting_reply")
+      .gt("reply_expires_at", now.toISOString())
+      .order("sent_at", { ascending: false })
+      .limit(1);
+    if (error) {
+      logger.error(`Error al buscar recordatorio pendiente de respuesta: ${error.message}`);
+      return null;
+    }
+    return (data && data[0]) || null;
+  }
+
+  async releaseStale(olderThan: Date): Promise<number> {
+    const { data, error } = await getSupabaseAdminClient()
+      .from("appointment_jobs")
+      .update({ status: "pending", updated_at: new Date().toISOString() })
+      .eq("status", "processing")
+      .lt("updated_at", olderThan.toISOString())
+      .select("id");
+    if (error) throw new Error(`Error al liberar trabajos bloqueados: ${error.message}`);
+    return (data || []).length;
+  }
+}
+
+/**
+ * Almacenamiento en memoria (pruebas o sin Supabase)
+ */
+export class MemoryAppointmentJobStore implements AppointmentJobStore {
+  jobs: AppointmentJob[] = [];
+  private sequence = 0;
+
+  async insert(jobs: NewAppointmentJob[]): Promise<AppointmentJob[]> {
+    const now = new Date().toISOString();
+    const created = jobs.map((job) => ({ ...job, id: `job-${++this.sequence}`, created_at: now, updated_at: now }));
+    this.jobs.push(...created);
+    return created;
+  }
+
+  async update(id: string, changes: Partial<AppointmentJob>): Promise<void> {
+    const job = this.jobs.find((candidate) => candidate.id === id);
+    if (job) Object.assign(job, changes, { updated_at: new Date().toISOString() });
+  }
+
+  async cancelOpenJobs(appointmentId: string): Promise<void> {
+    for (const job of this.jobs) {
+      if (job.appointment_id === appointmentId && OPEN_STATUSES.includes(job.status)) job.status = "cancelled";
+    }
+  }
+
+  async claimDue(now: Date, limit: number): Promise<AppointmentJob[]> {
+    const due = this.jobs
+      .filter((job) => job.status === "pending" && new Date(job.run_at) <= now)
+      .sort((a, b) => a.run_at.localeCompare(b.run_at))
+      .slice(0, limit);
+    due.forEach((job) => (job.status = "processing"));
+    return due;
+  }
+
+  async findAwaitingReply(tenantId: string, phoneKey: string, now: Date): Promise<AppointmentJob | null> {
+    const candidates = this.jobs
+      .filter(
+        (job) =>
+          job.tenant_id === tenantId &&
+          job.phone_key === phoneKey &&
+          job.status === "awaiting_reply" &&
+          !!job.reply_expires_at &&
+          new Date(job.reply_expires_at) > now
+      )
+      .sort((a, b) => String(b.sent_at).localeCompare(String(a.sent_at)));
+    return candidates[0] || null;
+  }
+
+  async releaseStale(olderThan: Date): Promise<number> {
+    let released = 0;
+    for (const job of this.jobs) {
+      if (job.status === "processing" && new Date(job.updated_at || 0) < olderThan) {
+        job.status = "pending";
+        released++;
+      }
+    }
+    return released;
+  }
+}
+
+/**
+ * Calcula los trabajos que corresponden a una cita
+ * @param appointment Cita
+ * @param settings Configuración de citas del tenant
+ * @param now Fecha actual
+ * @param timezone Zona horaria del tenant (sin ella, la del servidor)
+ */
+export function planAppointmentJobs(
+  appointment: Appointment,
+  settings: Partial<AppointmentSettings>,
+  now: Date = new Date(),
+  timezone?: string
+): NewAppointmentJob[] {
+  if (!appointment.customer_phone || ["cancelled", "completed", "no_show"].includes(appointment.status)) {
+    return [];
+  }
+
+  const start = getAppointmentDateTime(appointment.date, appointment.start_time, timezone);
+  const end = getAppointmentDateTime(appointment.date, appointment.end_time, timezone);
+  const hour = 60 * 60 * 1000;
+
+  const confirmationHours = settings.confirmation_time_hours ?? DEFAULT_APPOINTMENT_SETTINGS.confirmation_time_hours;
+  const reminderHours = settings.reminder_time_hours ?? DEFAULT_APPOINTMENT_SETTINGS.reminder_time_hours;
+  const followupMinutes = settings.no_show_followup_minutes ?? DEFAULT_APPOINTMENT_SETTINGS.no_show_followup_minutes;
+
+  const base = {
+    tenant_id: appointment.tenant_id,
+    appointment_id: appointment.id,
+    status: "pending" as AppointmentJobStatus,
+    attempts: 0,
+    phone: appointment.customer_phone,
+    phone_key: toPhoneKey(appointment.customer_phone),
+  };
+  const jobs: NewAppointmentJob[] = [];
+
+  const confirmationAt = new Date(start.getTime() - confirmationHours * hour);
+  if (appointment.status !== "confirmed" && confirmationHours > 0 && confirmationAt > now) {
+    jobs.push({ ...base, job_type: "confirmation", run_at: confirmationAt.toISOString() });
+  }
+
+  // El recordatorio se omite si coincide (±1 h) con la confirmación
+  const reminderAt = new Date(start.getTime() - reminderHours * hour);
+  const overlapsConfirmation = jobs.some(
+    (job) => Math.abs(new Date(job.run_at).getTime() - reminderAt.getTime()) < hour
+  );
+  if (reminderHours > 0 && reminderAt > now && !overlapsConfirmation) {
+    jobs.push({ ...base, job_type: "reminder", run_at: reminderAt.toISOString() });
+  }
+
+  if (followupMinutes > 0) {
+    const followupAt = new Date(end.getTime() + followupMinutes * 60 * 1000);
+    jobs.push({ ...base, job_type: "no_show_followup", run_at: followupAt.toISOString() });
+  }
+
+  return jobs;
+}
+
+/**
+ * Texto de la fecha y hora de una cita
+ */
+function describeAppointment(appointment: Appointment): string {
+  return `el ${appointment.date} a las ${appointment.start_time.slice(0, 5)}`;
+}
+
+function formatSlots(date: string, slots: string[]): string {
+  return `Horarios disponibles el ${date}:\n${slots.map((slot, index) => `${index + 1}. ${slot}`).join("\n")}\n\nResponde con el número o la hora que prefieras.`;
+}
+
+// Palabras clave de respuesta (texto normalizado sin acentos)
+const CONFIRM_PATTERN = /^(1|si|confirmo|confirmar|confirmada|confirmado|ok)\b/;
+const RESCHEDULE_PATTERN = /^(2|reprogramar|reprogramo|cambiar|mover)\b/;
+const CANCEL_PATTERN = /^(3|cancelar|cancelo|cancela)\b/;
+
+/**
+ * Patrón de mensajes que pueden ser respuesta a un recordatorio
+ * (usado para registrar el flujo de respuestas en BuilderBot)
+ */
+export const APPOINTMENT_REPLY_KEYWORD =
+  "^\\s*(\\d{1,2}|\\d{1,2}:\\d{2}|s[ií]|ok|confirm\\w*|reprogram\\w*|cambiar|mover|cancel\\w*)\\s*$";
+
+/**
+ * Opciones del programador
+ */
+interface SchedulerOptions {
+  intervalMs: number;
+  maxAttempts: number;
+  batchSize: number;
+  staleAfterMs: number;
+  replyWindowHours: number; // Ventana de respuesta para seguimientos por inasistencia
+  searchDays: number;       // Días a revisar al ofrecer horarios para reprogramar
+  maxSlots: number;
+}
+
+/**
+ * Programador de recordatorios de citas
+ */
+export class AppointmentScheduler {
+  private static instance: AppointmentScheduler;
+  private options: SchedulerOptions;
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(private store: AppointmentJobStore, options: Partial<SchedulerOptions> = {}) {
+    this.options = {
+      intervalMs: config.appointments.schedulerIntervalMs,
+      maxAttempts: config.appointments.maxSendAttempts,
+      batchSize: 20,
+      staleAfterMs: 10 * 60 * 1000,
+      replyWindowHours: 72,
+      searchDays: 7,
+      maxSlots: 5,
+      ...options,
+    };
+  }
+
+  /**
+   * Obtiene la instancia compartida (Supabase si está habilitado, memoria si no)
+   */
+  static getInstance(): AppointmentScheduler {
+    if (!AppointmentScheduler.instance) {
+      const store = config.supabase.enabled
+        ? new SupabaseAppointmentJobStore()
+        : new MemoryAppointmentJobStore();
+      AppointmentScheduler.instance = new AppointmentScheduler(store);
+    }
+    return AppointmentScheduler.instance;
+  }
+
+  /**
+   * Inicia el procesamiento periódico y la escucha de cambios de citas
+   */
+  async start(): Promise<void> {
+    if (this.timer) return;
+
+    try {
+      const released = await this.store.releaseStale(new Date(Date.now() - this.options.staleAfterMs));
+      if (released > 0) logger.info(`Recordatorios: ${released} trabajos liberados tras reinicio`);
+    } catch (error) {
+      logger.error(`Recordatorios: error al liberar trabajos bloqueados: ${error}`);
+    }
+
+    // Los cambios de estado (confirmada, no asistió) no reprograman: los maneja el propio trabajo
+    this.unsubscribe = onAppointmentEvent(async (event, appointment) => {
+      if (event === "booked" || event === "rescheduled") {
+        await this.scheduleForAppointment(appointment);
+      } else if (event === "cancelled") {
+        await this.store.cancelOpenJobs(appointment.id);
+      }
+    });
+
+    this.timer = setInterval(() => {
+      this.processDueJobs().catch((error) => logger.error(`Recordatorios: error en ciclo: ${error}`));
+    }, this.options.intervalMs);
+    this.timer.unref?.();
+
+    logger.info(`Programador de recordatorios de citas iniciado (cada ${this.options.intervalMs} ms)`);
+  }
+
+  /**
+   * Detiene el procesamiento periódico
+   */
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    if (this.unsubscribe) this.unsubscribe();
+    this.unsubscribe = null;
+  }
+
+  /**
+   * Reemplaza los trabajos abiertos de una cita por los que le corresponden ahora
+   */
+  async scheduleForAppointment(appointment: Appointment, now: Date = new Date()): Promise<AppointmentJob[]> {
+    await this.store.cancelOpenJobs(appointment.id);
+
+    let settings: Partial<AppointmentSettings> = DEFAULT_APPOINTMENT_SETTINGS;
+    try {
+      settings = await getAppointmentSettings(appointment.tenant_id);
+    } catch (error) {
+      logger.warn(`Recordatorios: usando configuración predeterminada para tenant ${appointment.tenant_id}`);
+    }
+
+    const timezone = await getTenantTimezone(appointment.tenant_id);
+    const jobs = await this.store.insert(planAppointmentJobs(appointment, settings, now, timezone));
+    logger.info(`Recordatorios: ${jobs.length} trabajos programados para la cita ${appointment.id}`);
+    return jobs;
+  }
+
+  /**
+   * Procesa los trabajos vencidos
+   * @returns Número de trabajos procesados
+   */
+  async processDueJobs(now: Date = new Date()): Promise<number> {
+    if (this.processing) return 0;
+    this.processing = true;
+
+    try {
+      const jobs = await this.store.claimDue(now, this.options.batchSize);
+      for (const job of jobs) {
+        await this.runJob(job, now);
+      }
+      return jobs.length;
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Ejecuta un trabajo: valida la cita, envía el mensaje y espera respuesta
+   */
+  private async runJob(job: AppointmentJob, now: Date): Promise<void> {
+    try {
+      const appointment = await getAppointment(job.tenant_id, job.appointment_id);
+      const timezone = await getTenantTimezone(job.tenant_id);
+      const start = getAppointmentDateTime(appointment.date, appointment.start_time, timezone);
+
+      const skip =
+        ["cancelled", "completed"].includes(appointment.status) ||
+        (job.job_type !== "no_show_followup" && start <= now) ||
+        (job.job_type === "confirmation" && appointment.status === "confirmed") ||
+        (job.job_type === "no_show_followup" && appointment.status === "no_show");
+
+      if (skip) {
+        await this.store.update(job.id, { status: "cancelled" });
+        return;
+      }
+
+      let replyExpiresAt = start;
+      let sent: boolean;
+
+      if (job.job_type === "confirmation") {
+        const text = `Hola${appointment.customer_name ? ` ${appointment.customer_name}` : ""}, tienes una cita ${describeAppointment(appointment)}.\n\nResponde 1 para confirmar, 2 para reprogramar o 3 para cancelar.`;
+        sent =
+          (await sendButtons(job.phone, [
+            { body: "1. Confirmar", id: "1" },
+            { body: "2. Reprogramar", id: "2" },
+            { body: "3. Cancelar", id: "3" },
+          ], text, job.tenant_id)) || (await sendText(job.phone, text, job.tenant_id));
+      } else if (job.job_type === "reminder") {
+        sent = await sendText(
+          job.phone,
+          `⏰ Te recordamos tu cita ${describeAppointment(appointment)}.\n\nSi necesitas reprogramar responde 2, o 3 para cancelar.`,
+          job.tenant_id
+        );
+      } else {
+        await updateAppointmentStatus(appointment.tenant_id, appointment.id, "no_show");
+        sent = await sendText(
+          job.phone,
+          `Notamos que no pudiste asistir a tu cita ${describeAppointment(appointment)}. ¿Quieres agendar una nueva? Responde 2 para reprogramar.`,
+          job.tenant_id
+        );
+        replyExpiresAt = new Date(now.getTime() + this.options.replyWindowHours * 60 * 60 * 1000);
+      }
+
+      if (!sent) throw new Error("El proveedor no pudo enviar el mensaje");
+
+      await this.store.update(job.id, {
+        status: "awaiting_reply",
+        attempts: job.attempts + 1,
+        sent_at: now.toISOString(),
+        reply_expires_at: replyExpiresAt.toISOString(),
+        last_error: null,
+      });
+      logger.info(`Recordatorios: ${job.job_type} enviado para la cita ${appointment.id}`);
+    } catch (error) {
+      const attempts = job.attempts + 1;
+      const message = error instanceof Error ? error.message : String(error);
+      const finalFailure = attempts >= this.options.maxAttempts || error instanceof AppointmentError;
+
+      // Reintento con espera exponencial (1, 2, 4... minutos)
+      await this.store.update(job.id, {
+        status: finalFailure ? "failed" : "pending",
+        attempts,
+        last_error: message,
+        run_at: new Date(now.getTime() + Math.pow(2, attempts - 1) * 60 * 1000).toISOString(),
+      });
+      logger.error(`Recordatorios: error en trabajo ${job.id} (intento ${attempts}): ${message}`);
+    }
+  }
+
+  /**
+   * Procesa la respuesta de un cliente a un recordatorio
+   * @param tenantId ID del tenant
+   * @param phone Teléfono del remitente
+   * @param message Mensaje recibido
+   * @returns Texto a responder o null si el mensaje no es una respuesta a un recordatorio
+   */
+  async handleReply(tenantId: string, phone: string, message: string, now: Date = new Date()): Promise<string | null> {
+    const job = await this.store.findAwaitingReply(tenantId, toPhoneKey(phone), now);
+    if (!job) return null;
+
+    const text = normalizeText(String(message || "")).trim();
+
+    try {
+      const appointment = await getAppointment(job.tenant_id, job.appointment_id);
+
+      if (job.reply_state?.step === "reschedule") {
+        const response = await this.handleRescheduleReply(job, appointment, message, now);
+        if (response) return response;
+      }
+
+      if (CONFIRM_PATTERN.test(text) && job.job_type !== "no_show_followup") {
+        await updateAppointmentStatus(appointment.tenant_id, appointment.id, "confirmed");
+        await this.store.update(job.id, { status: "completed" });
+        return `¡Gracias! Tu cita ${describeAppointment(appointment)} está confirmada.`;
+      }
+
+      if (RESCHEDULE_PATTERN.test(text)) {
+        const today = getDateInTimeZone(now, await getTenantTimezone(job.tenant_id));
+        return this.offerRescheduleSlots(job, appointment, today);
+      }
+
+      if (CANCEL_PATTERN.test(text) && job.job_type !== "no_show_followup") {
+        await cancelAppointment(appointment.tenant_id, appointment.id, "Cancelada por el cliente desde un recordatorio");
+        await this.store.update(job.id, { status: "completed" });
+        return `Tu cita ${describeAppointment(appointment)} fue cancelada. Si quieres agendar otra, escríbenos.`;
+      }
+    } catch (error) {
+      logger.error(`Recordatorios: error al procesar respuesta de ${phone}: ${error}`);
+      return error instanceof AppointmentError
+        ? error.message
+        : "No pudimos procesar tu respuesta en este momento. Por favor intenta más tarde.";
+    }
+
+    return null;
+  }
+
+  /**
+   * Ofrece horarios para reprogramar y guarda el estado de la conversación
+   */
+  private async offerRescheduleSlots(job: AppointmentJob, appointment: Appointment, fromDate: string): Promise<string> {
+    const availability = await findNextAvailability(appointment.tenant_id, fromDate, this.options.searchDays, {
+      appointmentTypeId: appointment.appointment_type_id || undefined,
+      locationId: appointment.location_id || undefined,
+    });
+
+    if (!availability) {
+      await this.store.update(job.id, { reply_state: { step: "reschedule" } });
+      return `No encontramos horarios disponibles en los próximos ${this.options.searchDays} días. Indícanos otra fecha y te ayudamos.`;
+    }
+
+    const slots = availability.available_slots.slice(0, this.options.maxSlots).map((slot) => slot.start_time);
+    await this.store.update(job.id, { reply_state: { step: "reschedule", date: availability.date, slots } });
+    return formatSlots(availability.date, slots);
+  }
+
+  /**
+   * Procesa la elección de horario durante una reprogramación
+   * @returns Texto a responder o null si el mensaje no es una elección de horario
+   */
+  private async handleRescheduleReply(
+    job: AppointmentJob,
+    appointment: Appointment,
+    message: string,
+    now: Date
+  ): Promise<string | null> {
+    const state = job.reply_state as ReplyState;
+    const trimmed = String(message || "").trim();
+    const entities = extractEntities(trimmed, now);
+    const requestedDate = entities.find((entity) => entity.type === "date")?.value as string | undefined;
+    const requestedTime = entities.find((entity) => entity.type === "time")?.value as string | undefined;
+
+    let date = requestedDate || state.date;
+    let time: string | undefined;
+
+    if (/^\d{1,2}$/.test(trimmed) && state.slots) {
+      time = state.slots[parseInt(trimmed, 10) - 1];
+      date = state.date;
+    } else {
+      time = requestedTime || state.slots?.find((slot) => trimmed.includes(slot));
+    }
+
+    // Solo indicó una fecha: ofrecemos los horarios de ese día
+    if (requestedDate && !time) {
+      return this.offerRescheduleSlots(job, appointment, requestedDate);
+    }
+    if (!date || !time) return null;
+
+    try {
+      // Tras una inasistencia se agenda una cita nueva con los mismos datos
+      const updated = appointment.status === "no_show"
+        ? await bookAppointment({
+            tenantId: appointment.tenant_id,
+            date,
+            startTime: time,
+            appointmentTypeId: appointment.appointment_type_id || undefined,
+            locationId: appointment.location_id || undefined,
+            leadId: appointment.lead_id || undefined,
+            propertyId: appointment.property_id || undefined,
+            customerName: appointment.customer_name || undefined,
+            customerPhone: appointment.customer_phone || undefined,
+            customerEmail: appointment.customer_email || undefined,
+            source: "reminder",
+          })
+        : await rescheduleAppointment(appointment.tenant_id, appointment.id, { date, startTime: time });
+
+      await this.store.update(job.id, { status: "completed", reply_state: null });
+      return `Listo, tu cita quedó para ${describeAppointment(updated)}.`;
+    } catch (error) {
+      if (!(error instanceof AppointmentError)) throw error;
+      const alternatives = await this.offerRescheduleSlots(job, appointment, date);
+      return `${error.message}\n\n${alternatives}`;
+    }
+  }
+}
+
+export default AppointmentScheduler;
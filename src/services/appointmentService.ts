@@ -0,0 +1,1018 @@
+/**
+ * src/services/appointmentService.ts
+ *
+ * Motor de reservas de citas.
+ * Calcula disponibilidad y reserva, reprograma o cancela citas respetando
+ * buffer_time, max_daily_appointments, min_notice_minutes, excepciones de
+ * horario y agentes. Los horarios se interpretan en la zona horaria del tenant.
+ * Las reservas se hacen con la función book_tenant_appointment, que aplica el
+ * límite diario y los solapamientos en la base de datos (ver create_appointment_booking.sql).
+ * @version 1.1.0
+ * @created 2025-06-06
+ * @updated 2025-06-17
+ */
+
+import { getSupabaseAdminClient } from "./supabase";
+import { config } from "../config";
+import { isValidTimeZone, zonedTimeToUtc } from "../utils/icalendar";
+import logger from "../utils/logger";
+
+/**
+ * Configuración de citas de un tenant (tabla tenant_appointment_settings)
+ */
+export interface AppointmentSettings {
+  tenant_id: string;
+  appointment_duration: number;
+  buffer_time: number;
+  max_daily_appointments: number | null;
+  min_notice_minutes: number;
+  max_future_days: number;
+  require_approval: boolean;
+  reminder_time_hours: number;
+  confirmation_time_hours?: number;   // Horas antes de la cita para pedir confirmación
+  no_show_followup_minutes?: number;  // Minutos después de la cita para el seguimiento
+  [key: string]: any;
+}
+
+/**
+ * Tipo de cita (tabla tenant_appointment_types)
+ */
+export interface AppointmentType {
+  id: string;
+  tenant_id: string;
+  name: string;
+  duration_minutes: number;
+  buffer_time?: number | null;
+  max_daily_appointments?: number | null;
+  [key: string]: any;
+}
+
+/**
+ * Estados posibles de una cita
+ */
+export type AppointmentStatus =
+  | "pending"
+  | "scheduled"
+  | "confirmed"
+  | "cancelled"
+  | "completed"
+  | "no_show";
+
+/**
+ * Cita registrada (tabla tenant_appointments)
+ */
+export interface Appointment {
+  id: string;
+  tenant_id: string;
+  date: string;       // YYYY-MM-DD
+  start_time: string; // HH:mm
+  end_time: string;   // HH:mm
+  status: AppointmentStatus;
+  appointment_type_id?: string | null;
+  agent_id?: string | null;
+  location_id?: string | null;
+  buffer_time?: number;  // Minutos libres después de la cita
+  lead_id?: string | null;
+  property_id?: string | null;
+  customer_name?: string | null;
+  customer_phone?: string | null;
+  customer_email?: string | null;
+  notes?: string | null;
+  source?: string | null;
+  session_id?: string | null;
+  cancellation_reason?: string | null;
+  cancelled_at?: string | null;
+  rescheduled_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Horario efectivo de un día (regular o de excepción)
+ */
+export interface DayHours {
+  open_time: string;
+  close_time: string;
+  is_closed: boolean;
+  is_exception_day: boolean;
+}
+
+/**
+ * Toda la información necesaria para evaluar la disponibilidad de un día
+ */
+export interface DaySchedule {
+  date: string;
+  hours: DayHours;
+  duration: number;
+  bufferTime: number;
+  minNoticeMinutes: number;
+  maxFutureDays: number | null;
+  maxDailyAppointments: number | null;
+  appointmentTypeId?: string | null;
+  appointments: Appointment[];
+  agents: string[]; // Vacío = un solo calendario compartido
+  timezone?: string; // Zona horaria del tenant (sin ella, la del servidor)
+}
+
+/**
+ * Horario disponible
+ */
+export interface AvailableSlot {
+  start_time: string;
+  end_time: string;
+  start_datetime: string;
+  end_datetime: string;
+  agent_id?: string;
+}
+
+/**
+ * Resultado del cálculo de disponibilidad
+ */
+export interface AvailabilityResult {
+  available_slots: AvailableSlot[];
+  business_hours: {
+    open_time: string;
+    close_time: string;
+    is_closed: boolean;
+  };
+  date: string;
+  is_exception_day: boolean;
+}
+
+/**
+ * Datos para reservar una cita
+ */
+export interface BookingRequest {
+  tenantId: string;
+  date: string;
+  startTime: string;
+  appointmentTypeId?: string;
+  agentId?: string;
+  locationId?: string;
+  leadId?: string;
+  propertyId?: string;
+  customerName?: string;
+  customerPhone?: string;
+  customerEmail?: string;
+  notes?: string;
+  source?: string;
+  sessionId?: string;
+}
+
+/**
+ * Códigos de error del motor de reservas
+ */
+export type AppointmentErrorCode =
+  | "INVALID_INPUT"
+  | "NOT_FOUND"
+  | "DAY_CLOSED"
+  | "OUTSIDE_BUSINESS_HOURS"
+  | "MIN_NOTICE"
+  | "TOO_FAR"
+  | "DAILY_LIMIT"
+  | "SLOT_UNAVAILABLE"
+  | "INVALID_STATUS";
+
+/**
+ * Error de negocio al reservar, reprogramar o cancelar
+ */
+export class AppointmentError extends Error {
+  constructor(public code: AppointmentErrorCode, message: string) {
+    super(message);
+    this.name = "AppointmentError";
+  }
+}
+
+// Valores predeterminados cuando el tenant no tiene configuración
+export const DEFAULT_APPOINTMENT_SETTINGS: Omit<AppointmentSettings, "tenant_id"> = {
+  appointment_duration: 30,
+  buffer_time: 0,
+  max_daily_appointments: null,
+  min_notice_minutes: 60,
+  max_future_days: 30,
+  require_approval: false,
+  reminder_time_hours: 24,
+  confirmation_time_hours: 48,
+  no_show_followup_minutes: 60,
+};
+
+/**
+ * Eventos emitidos cuando cambia una cita
+ */
+export type AppointmentEventType = "booked" | "rescheduled" | "cancelled" | "status_changed";
+
+export type AppointmentListener = (
+  event: AppointmentEventType,
+  appointment: Appointment
+) => void | Promise<void>;
+
+const appointmentListeners: AppointmentListener[] = [];
+
+/**
+ * Registra un listener para los cambios de citas
+ * @returns Función para eliminar el listener
+ */
+export function onAppointmentEvent(listener: AppointmentListener): () => void {
+  appointmentListeners.push(listener);
+  return () => {
+    const index = appointmentListeners.indexOf(listener);
+    if (index >= 0) appointmentListeners.splice(index, 1);
+  };
+}
+
+/**
+ * Notifica a los listeners sin bloquear ni propagar sus errores
+ */
+function emitAppointmentEvent(event: AppointmentEventType, appointment: Appointment): void {
+  for (const listener of appointmentListeners) {
+    Promise.resolve()
+      .then(() => listener(event, appointment))
+      .catch((error) => logger.error(`Error en listener de citas (${event}): ${error}`));
+  }
+}
+
+// Estados que no ocupan un horario
+const INACTIVE_STATUSES: AppointmentStatus[] = ["cancelled"];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)(:\d{2})?$/;
+
+// ----- Utilidades de fecha y hora -----
+
+/**
+ * Convierte "HH:mm" (o "HH:mm:ss") a minutos desde medianoche
+ */
+export function timeToMinutes(time: string): number {
+  const match = String(time).match(TIME_PATTERN);
+  if (!match) return NaN;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Convierte minutos desde medianoche a "HH:mm"
+ */
+export function minutesToTime(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return `${String(hours).padStart(2, "0")}:${String(mins).padStart(2, "0")}`;
+}
+
+/**
+ * Construye el instante correspondiente a un día y minuto en la zona horaria
+ * indicada (o en la del servidor si no se indica)
+ */
+function toLocalDate(date: string, minutes: number, timezone?: string): Date {
+  if (timezone) return zonedTimeToUtc(date, minutesToTime(minutes), timezone);
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day, Math.floor(minutes / 60), minutes % 60, 0, 0);
+}
+
+/**
+ * Obtiene el instante de un día y hora ("2025-06-10", "10:30") en la zona horaria indicada
+ */
+export function getAppointmentDateTime(date: string, time: string, timezone?: string): Date {
+  return toLocalDate(date, timeToMinutes(time), timezone);
+}
+
+/**
+ * Fecha (YYYY-MM-DD) de un instante en la zona horaria indicada (o en la del servidor)
+ */
+export function getDateInTimeZone(instant: Date, timezone?: string): string {
+  if (!timezone) {
+    return `${instant.getFullYear()}-${String(instant.getMonth() + 1).padStart(2, "0")}-${String(instant.getDate()).padStart(2, "0")}`;
+  }
+  // en-CA formatea como YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(instant);
+}
+
+/**
+ * Suma días a una fecha YYYY-MM-DD
+ */
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Zona horaria configurada del tenant o la predeterminada
+ */
+function resolveTimezone(settings: AppointmentSettings): string {
+  return settings.timezone && isValidTimeZone(settings.timezone) ? settings.timezone : config.appointments.timezone;
+}
+
+function isActive(appointment: Appointment): boolean {
+  return !INACTIVE_STATUSES.includes(appointment.status);
+}
+
+// ----- Evaluación de horarios (sin acceso a datos) -----
+
+/**
+ * Resultado de evaluar un horario concreto
+ */
+export interface SlotEvaluation {
+  ok: boolean;
+  agentId?: string;
+  code?: AppointmentErrorCode;
+  message?: string;
+}
+
+/**
+ * Evalúa si un horario puede reservarse en un día
+ * @param schedule Información del día
+ * @param startTime Hora de inicio (HH:mm)
+ * @param options Agente solicitado, cita a ignorar (reprogramación) y fecha actual
+ */
+export function evaluateSlot(
+  schedule: DaySchedule,
+  startTime: string,
+  options: { agentId?: string; ignoreAppointmentId?: string; now?: Date } = {}
+): SlotEvaluation {
+  const now = options.now || new Date();
+  const { hours, duration, bufferTime } = schedule;
+
+  if (hours.is_closed) {
+    return { ok: false, code: "DAY_CLOSED", message: `No hay atención el ${schedule.date}` };
+  }
+
+  const start = timeToMinutes(startTime);
+  if (isNaN(start)) {
+    return { ok: false, code: "INVALID_INPUT", message: `Hora inválida: ${startTime}` };
+  }
+  const end = start + duration;
+
+  if (start < timeToMinutes(hours.open_time) || end > timeToMinutes(hours.close_time)) {
+    return {
+      ok: false,
+      code: "OUTSIDE_BUSINESS_HOURS",
+      message: `El horario ${startTime} está fuera del horario de atención (${hours.open_time} - ${hours.close_time})`,
+    };
+  }
+
+  const startDate = toLocalDate(schedule.date, start, schedule.timezone);
+  if (startDate.getTime() < now.getTime() + schedule.minNoticeMinutes * 60 * 1000) {
+    return {
+      ok: false,
+      code: "MIN_NOTICE",
+      message: `Las citas requieren al menos ${schedule.minNoticeMinutes} minutos de anticipación`,
+    };
+  }
+
+  if (schedule.maxFutureDays !== null && schedule.maxFutureDays !== undefined) {
+    const lastDate = addDays(getDateInTimeZone(now, schedule.timezone), schedule.maxFutureDays);
+    if (schedule.date > lastDate) {
+      return {
+        ok: false,
+        code: "TOO_FAR",
+        message: `Solo se pueden agendar citas con ${schedule.maxFutureDays} días de anticipación como máximo`,
+      };
+    }
+  }
+
+  const active = schedule.appointments.filter(
+    (appointment) => isActive(appointment) && appointment.id !== options.ignoreAppointmentId
+  );
+
+  // Límite diario (del tipo de cita si lo define, o del tenant)
+  if (schedule.maxDailyAppointments !== null && schedule.maxDailyAppointments !== undefined) {
+    const counted = schedule.appointmentTypeId
+      ? active.filter((appointment) => appointment.appointment_type_id === schedule.appointmentTypeId)
+      : active;
+    if (counted.length >= schedule.maxDailyAppointments) {
+      return { ok: false, code: "DAILY_LIMIT", message: `Se alcanzó el límite de citas del ${schedule.date}` };
+    }
+  }
+
+  // El buffer se aplica antes y después de cada cita existente
+  const overlaps = (appointment: Appointment): boolean => {
+    const appointmentStart = timeToMinutes(appointment.start_time);
+    const appointmentEnd = timeToMinutes(appointment.end_time);
+    return start < appointmentEnd + bufferTime && end + bufferTime > appointmentStart;
+  };
+
+  // Sin agentes: un solo calendario compartido
+  if (schedule.agents.length === 0) {
+    return active.some(overlaps)
+      ? { ok: false, code: "SLOT_UNAVAILABLE", message: `El horario ${startTime} ya no está disponible` }
+      : { ok: true, agentId: options.agentId };
+  }
+
+  const candidates = options.agentId ? [options.agentId] : schedule.agents;
+  const freeAgents = candidates.filter(
+    (agentId) => !active.some((appointment) => appointment.agent_id === agentId && overlaps(appointment))
+  );
+
+  if (freeAgents.length === 0) {
+    return { ok: false, code: "SLOT_UNAVAILABLE", message: `El horario ${startTime} ya no está disponible` };
+  }
+
+  // Asignamos el agente libre con menos citas ese día
+  const load = (agentId: string) => active.filter((appointment) => appointment.agent_id === agentId).length;
+  const agentId = freeAgents.reduce((best, current) => (load(current) < load(best) ? current : best));
+
+  return { ok: true, agentId };
+}
+
+/**
+ * Calcula los horarios disponibles de un día
+ * Los horarios se generan desde la apertura en pasos de duración + buffer
+ * @param schedule Información del día
+ * @param options Agente solicitado y fecha actual
+ */
+export function computeAvailableSlots(
+  schedule: DaySchedule,
+  options: { agentId?: string; now?: Date } = {}
+): AvailableSlot[] {
+  const { hours, duration, bufferTime } = schedule;
+  if (hours.is_closed) return [];
+
+  const open = timeToMinutes(hours.open_time);
+  const close = timeToMinutes(hours.close_time);
+  const step = Math.max(duration + bufferTime, 5);
+  const slots: AvailableSlot[] = [];
+
+  for (let minute = open; minute + duration <= close; minute += step) {
+    const evaluation = evaluateSlot(schedule, minutesToTime(minute), options);
+    if (!evaluation.ok) {
+      if (evaluation.code === "DAILY_LIMIT" || evaluation.code === "TOO_FAR") break;
+      continue;
+    }
+
+    slots.push({
+      start_time: minutesToTime(minute),
+      end_time: minutesToTime(minute + duration),
+      start_datetime: toLocalDate(schedule.date, minute, schedule.timezone).toISOString(),
+      end_datetime: toLocalDate(schedule.date, minute + duration, schedule.timezone).toISOString(),
+      ...(evaluation.agentId ? { agent_id: evaluation.agentId } : {}),
+    });
+  }
+
+  // No ofrecemos más horarios que los que permite el límite diario
+  if (schedule.maxDailyAppointments !== null && schedule.maxDailyAppointments !== undefined) {
+    const booked = schedule.appointments.filter(
+      (appointment) =>
+        isActive(appointment) &&
+        (!schedule.appointmentTypeId || appointment.appointment_type_id === schedule.appointmentTypeId)
+    ).length;
+    return slots.slice(0, Math.max(0, schedule.maxDailyAppointments - booked));
+  }
+
+  return slots;
+}
+
+// ----- Acceso a datos -----
+
+/**
+ * Obtiene la configuración de citas del tenant (o los valores predeterminados)
+ */
+export async function getAppointmentSettings(tenantId: string): Promise<AppointmentSettings> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("tenant_appointment_settings")
+    .select("*")
+    .eq("tenant_id", tenantId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error(`Error al obtener configuración de citas: ${error.message}`);
+    throw new Error("Error al obtener configuración de citas");
+  }
+
+  return { ...DEFAULT_APPOINTMENT_SETTINGS, ...(data || {}), tenant_id: tenantId };
+}
+
+/**
+ * Obtiene el horario efectivo de un día, dando prioridad a las excepciones
+ */
+async function getDayHours(tenantId: string, date: string, locationId?: string): Promise<DayHours> {
+  const supabase = getSupabaseAdminClient();
+
+  let exceptionQuery = supabase
+    .from("tenant_business_hours_exceptions")
+    .select("*")
+    .eq("tenant_id", tenantId)
+    .eq("exception_date", date);
+  exceptionQuery = locationId
+    ? exceptionQuery.eq("location_id", locationId)
+    : exceptionQuery.is("location_id", null);
+
+  const { data: exception, error: exceptionError } = await exceptionQuery.maybeSingle();
+  if (exceptionError) {
+    logger.error(`Error al obtener excepciones de horarios: ${exceptionError.message}`);
+    throw new Error("Error al obtener excepciones de horarios");
+  }
+
+  if (exception) {
+    return {
+      open_time: exception.open_time || "00:00",
+      close_time: exception.close_time || "00:00",
+      is_closed: !!exception.is_closed || !exception.open_time || !exception.close_time,
+      is_exception_day: true,
+    };
+  }
+
+  const [year, month, day] = date.split("-").map(Number);
+  const dayOfWeek = new Date(Date.UTC(year, month - 1, day)).getUTCDay(); // 0 (domingo) a 6 (sábado)
+  let hoursQuery = supabase
+    .from("tenant_business_hours")
+    .select("*")
+    .eq("tenant_id", tenantId)
+    .eq("day_of_week", dayOfWeek);
+  hoursQuery = locationId ? hoursQuery.eq("location_id", locationId) : hoursQuery.is("location_id", null);
+
+  const { data: hours, error: hoursError } = await hoursQuery.maybeSingle();
+  if (hoursError) {
+    logger.error(`Error al obtener horarios de negocio: ${hoursError.message}`);
+    throw new Error("Error al obtener horarios de negocio");
+  }
+
+  return {
+    open_time: hours?.open_time || "00:00",
+    close_time: hours?.close_time || "00:00",
+    is_closed: !hours || !!hours.is_closed,
+    is_exception_day: false,
+  };
+}
+
+/**
+ * Obtiene los agentes activos que atienden citas (tabla tenant_appointment_agents)
+ */
+async function getAgents(tenantId: string, locationId?: string): Promise<string[]> {
+  const supabase = getSupabaseAdminClient();
+  let query = supabase
+    .from("tenant_appointment_agents")
+    .select("id, location_id")
+    .eq("tenant_id", tenantId)
+    .eq("is_active", true);
+  if (locationId) query = query.eq("location_id", locationId);
+
+  const { data, error } = await query;
+  if (error) {
+    // La tabla de agentes es opcional: sin ella se usa un solo calendario
+    logger.debug(`Sin agentes de citas para tenant ${tenantId}: ${error.message}`);
+    return [];
+  }
+
+  return (data || []).map((agent: any) => agent.id);
+}
+
+/**
+ * Carga toda la información necesaria para evaluar un día
+ */
+export async function loadDaySchedule(
+  tenantId: string,
+  date: string,
+  options: { appointmentTypeId?: string; locationId?: string } = {}
+): Promise<DaySchedule> {
+  if (!DATE_PATTERN.test(date)) {
+    throw new AppointmentError("INVALID_INPUT", "Se requiere una fecha válida (YYYY-MM-DD)");
+  }
+
+  const supabase = getSupabaseAdminClient();
+  const settings = await getAppointmentSettings(tenantId);
+
+  let appointmentType: AppointmentType | null = null;
+  if (options.appointmentTypeId) {
+    const { data, error } = await supabase
+      .from("tenant_appointment_types")
+      .select("*")
+      .eq("id", options.appointmentTypeId)
+      .eq("tenant_id", tenantId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Error al obtener tipo de cita: ${error.message}`);
+      throw new Error("Error al obtener tipo de cita");
+    }
+    if (!data) {
+      throw new AppointmentError("NOT_FOUND", `Tipo de cita ${options.appointmentTypeId} no encontrado`);
+    }
+    appointmentType = data;
+  }
+
+  let appointmentsQuery = supabase
+    .from("tenant_appointments")
+    .select("*")
+    .eq("tenant_id", tenantId)
+    .eq("date", date)
+    .neq("status", "cancelled");
+  if (options.locationId) appointmentsQuery = appointmentsQuery.eq("location_id", options.locationId);
+
+  const { data: appointments, error: appointmentsError } = await appointmentsQuery;
+  if (appointmentsError) {
+    logger.error(`Error al obtener citas existentes: ${appointmentsError.message}`);
+    throw new Error("Error al obtener citas existentes");
+  }
+
+  const [hours, agents] = await Promise.all([
+    getDayHours(tenantId, date, options.locationId),
+    getAgents(tenantId, options.locationId),
+  ]);
+
+  return {
+    date,
+    hours,
+    duration: appointmentType?.duration_minutes || settings.appointment_duration,
+    bufferTime: appointmentType ? appointmentType.buffer_time || 0 : settings.buffer_time || 0,
+    minNoticeMinutes: settings.min_notice_minutes || 0,
+    maxFutureDays: settings.max_future_days ?? null,
+    maxDailyAppointments: appointmentType?.max_daily_appointments || settings.max_daily_appointments || null,
+    appointmentTypeId: appointmentType?.id || null,
+    appointments: (appointments || []) as Appointment[],
+    agents,
+    timezone: resolveTimezone(settings),
+  };
+}
+
+/**
+ * Calcula la disponibilidad de un día
+ */
+export async function getAvailability(
+  tenantId: string,
+  date: string,
+  options: { appointmentTypeId?: string; locationId?: string; agentId?: string } = {}
+): Promise<AvailabilityResult> {
+  const schedule = await loadDaySchedule(tenantId, date, options);
+  const slots = computeAvailableSlots(schedule, { agentId: options.agentId });
+
+  logger.info(`Disponibilidad calculada para ${date}: ${slots.length} slots disponibles`);
+
+  return {
+    available_slots: slots,
+    business_hours: {
+      open_time: schedule.hours.open_time,
+      close_time: schedule.hours.close_time,
+      is_closed: schedule.hours.is_closed,
+    },
+    date,
+    is_exception_day: schedule.hours.is_exception_day,
+  };
+}
+
+/**
+ * Busca el siguiente día con horarios disponibles a partir de una fecha
+ * @param days Número máximo de días a revisar (incluyendo la fecha inicial)
+ */
+export async function findNextAvailability(
+  tenantId: string,
+  fromDate: string,
+  days: number = 7,
+  options: { appointmentTypeId?: string; locationId?: string; agentId?: string } = {}
+): Promise<AvailabilityResult | null> {
+  if (!DATE_PATTERN.test(fromDate)) {
+    throw new AppointmentError("INVALID_INPUT", "Se requiere una fecha válida (YYYY-MM-DD)");
+  }
+
+  for (let offset = 0; offset < days; offset++) {
+    const date = addDays(fromDate, offset);
+    const availability = await getAvailability(tenantId, date, options);
+    if (availability.available_slots.length > 0) return availability;
+  }
+
+  return null;
+}
+
+// Cola de reservas por tenant y fecha dentro de este proceso; entre instancias
+// la función book_tenant_appointment serializa con un bloqueo de la base de datos
+const bookingLocks = new Map<string, Promise<void>>();
+
+/**
+ * Ejecuta una función en exclusión mutua para una clave
+ */
+export async function withBookingLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const previous = bookingLocks.get(key) || Promise.resolve();
+  let release!: () => void;
+  const current = new Promise<void>((resolve) => (release = resolve));
+  const chained = previous.then(() => current);
+  bookingLocks.set(key, chained);
+
+  await previous;
+  try {
+    return await fn();
+  } finally {
+    release();
+    if (bookingLocks.get(key) === chained) bookingLocks.delete(key);
+  }
+}
+
+/**
+ * Traduce los errores de restricción de la base de datos (ver create_appointment_booking.sql)
+ */
+function isSlotConstraintError(error: any): boolean {
+  return error?.code === "23P01" || error?.code === "23505";
+}
+
+// Código devuelto por book_tenant_appointment cuando se alcanzó el límite diario
+const DAILY_LIMIT_ERROR_CODE = "AP001";
+
+/**
+ * Reserva o reprograma una cita con book_tenant_appointment
+ * @param appointment Campos de la cita
+ * @param schedule Día evaluado (límite diario)
+ * @param startTime Hora solicitada (para los mensajes de error)
+ * @param appointmentId Cita a reprogramar (sin ella se crea una nueva)
+ */
+async function saveBooking(
+  appointment: Record<string, any>,
+  schedule: DaySchedule,
+  startTime: string,
+  appointmentId?: string
+): Promise<Appointment> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase.rpc("book_tenant_appointment", {
+    p_appointment: appointment,
+    p_max_daily: schedule.maxDailyAppointments,
+    p_appointment_id: appointmentId || null,
+  });
+
+  if (error) {
+    if (isSlotConstraintError(error)) {
+      throw new AppointmentError("SLOT_UNAVAILABLE", `El horario ${startTime} ya no está disponible`);
+    }
+    if (error.code === DAILY_LIMIT_ERROR_CODE) {
+      throw new AppointmentError("DAILY_LIMIT", `Se alcanzó el límite de citas del ${schedule.date}`);
+    }
+    logger.error(`Error al guardar cita: ${error.message}`);
+    throw new Error(appointmentId ? "Error al reprogramar cita" : "Error al reservar cita");
+  }
+
+  return data as Appointment;
+}
+
+function assertBookable(evaluation: SlotEvaluation): string | undefined {
+  if (!evaluation.ok) {
+    throw new AppointmentError(evaluation.code, evaluation.message);
+  }
+  return evaluation.agentId;
+}
+
+/**
+ * Obtiene una cita por ID
+ */
+export async function getAppointment(tenantId: string, appointmentId: string): Promise<Appointment> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("tenant_appointments")
+    .select("*")
+    .eq("id", appointmentId)
+    .eq("tenant_id", tenantId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error(`Error al obtener cita ${appointmentId}: ${error.message}`);
+    throw new Error("Error al obtener cita");
+  }
+  if (!data) {
+    throw new AppointmentError("NOT_FOUND", `Cita ${appointmentId} no encontrada`);
+  }
+
+  return data as Appointment;
+}
+
+/**
+ * Lista las citas de un tenant
+ */
+export async function listAppointments(
+  tenantId: string,
+  filters: { from?: string; to?: string; leadId?: string; agentId?: string; status?: string } = {}
+): Promise<Appointment[]> {
+  const supabase = getSupabaseAdminClient();
+  let query = supabase.from("tenant_appointments").select("*").eq("tenant_id", tenantId);
+
+  if (filters.from) query = query.gte("date", filters.from);
+  if (filters.to) query = query.lte("date", filters.to);
+  if (filters.leadId) query = query.eq("lead_id", filters.leadId);
+  if (filters.agentId) query = query.eq("agent_id", filters.agentId);
+  if (filters.status) query = query.eq("status", filters.status);
+
+  const { data, error } = await query.order("date").order("start_time");
+  if (error) {
+    logger.error(`Error al listar citas: ${error.message}`);
+    throw new Error("Error al listar citas");
+  }
+
+  return (data || []) as Appointment[];
+}
+
+/**
+ * Busca la próxima cita activa de un lead o de un teléfono
+ */
+export async function findUpcomingAppointment(
+  tenantId: string,
+  criteria: { leadId?: string; phone?: string }
+): Promise<Appointment | null> {
+  if (!criteria.leadId && !criteria.phone) return null;
+
+  const settings = await getAppointmentSettings(tenantId).catch(() => null);
+  const today = getDateInTimeZone(new Date(), settings ? resolveTimezone(settings) : config.appointments.timezone);
+
+  const supabase = getSupabaseAdminClient();
+  let query = supabase
+    .from("tenant_appointments")
+    .select("*")
+    .eq("tenant_id", tenantId)
+    .gte("date", today)
+    .not("status", "in", "(cancelled,completed,no_show)");
+  query = criteria.leadId ? query.eq("lead_id", criteria.leadId) : query.eq("customer_phone", criteria.phone);
+
+  const { data, error } = await query.order("date").order("start_time").limit(1);
+  if (error) {
+    logger.error(`Error al buscar próxima cita: ${error.message}`);
+    return null;
+  }
+
+  return (data && data[0]) || null;
+}
+
+/**
+ * Reserva una cita
+ * @throws AppointmentError si el horario no puede reservarse
+ */
+export async function bookAppointment(request: BookingRequest): Promise<Appointment> {
+  const { tenantId, date, startTime } = request;
+
+  if (!DATE_PATTERN.test(date || "") || isNaN(timeToMinutes(startTime))) {
+    throw new AppointmentError("INVALID_INPUT", "Se requiere fecha (YYYY-MM-DD) y hora (HH:mm) válidas");
+  }
+
+  return withBookingLock(`${tenantId}:${date}`, async () => {
+    const schedule = await loadDaySchedule(tenantId, date, {
+      appointmentTypeId: request.appointmentTypeId,
+      locationId: request.locationId,
+    });
+    const agentId = assertBookable(evaluateSlot(schedule, startTime, { agentId: request.agentId }));
+    const settings = await getAppointmentSettings(tenantId);
+    const start = timeToMinutes(startTime);
+
+    const data = await saveBooking(
+      {
+        tenant_id: tenantId,
+        date,
+        start_time: minutesToTime(start),
+        end_time: minutesToTime(start + schedule.duration),
+        buffer_time: schedule.bufferTime,
+        status: settings.require_approval ? "pending" : "scheduled",
+        appointment_type_id: request.appointmentTypeId || null,
+        agent_id: agentId || null,
+        location_id: request.locationId || null,
+        lead_id: request.leadId || null,
+        property_id: request.propertyId || null,
+        customer_name: request.customerName || null,
+        customer_phone: request.customerPhone || null,
+        customer_email: request.customerEmail || null,
+        notes: request.notes || null,
+        source: request.source || "api",
+        session_id: request.sessionId || null,
+      },
+      schedule,
+      startTime
+    );
+
+    logger.info(`Cita ${data.id} reservada para tenant ${tenantId} el ${date} a las ${startTime}`);
+    emitAppointmentEvent("booked", data as Appointment);
+    return data as Appointment;
+  });
+}
+
+/**
+ * Reprograma una cita a una nueva fecha y hora
+ * @throws AppointmentError si la cita no existe o el horario no puede reservarse
+ */
+export async function rescheduleAppointment(
+  tenantId: string,
+  appointmentId: string,
+  changes: { date: string; startTime: string; agentId?: string }
+): Promise<Appointment> {
+  if (!DATE_PATTERN.test(changes.date || "") || isNaN(timeToMinutes(changes.startTime))) {
+    throw new AppointmentError("INVALID_INPUT", "Se requiere fecha (YYYY-MM-DD) y hora (HH:mm) válidas");
+  }
+
+  const current = await getAppointment(tenantId, appointmentId);
+  if (["cancelled", "completed", "no_show"].includes(current.status)) {
+    throw new AppointmentError("INVALID_STATUS", `No se puede reprogramar una cita con estado ${current.status}`);
+  }
+
+  return withBookingLock(`${tenantId}:${changes.date}`, async () => {
+    const schedule = await loadDaySchedule(tenantId, changes.date, {
+      appointmentTypeId: current.appointment_type_id || undefined,
+      locationId: current.location_id || undefined,
+    });
+    const agentId = assertBookable(
+      evaluateSlot(schedule, changes.startTime, {
+        agentId: changes.agentId || current.agent_id || undefined,
+        ignoreAppointmentId: current.id,
+      })
+    );
+    const start = timeToMinutes(changes.startTime);
+
+    const data = await saveBooking(
+      {
+        tenant_id: tenantId,
+        date: changes.date,
+        start_time: minutesToTime(start),
+        end_time: minutesToTime(start + schedule.duration),
+        buffer_time: schedule.bufferTime,
+        appointment_type_id: current.appointment_type_id || null,
+        agent_id: agentId || null,
+        location_id: current.location_id || null,
+      },
+      schedule,
+      changes.startTime,
+      appointmentId
+    );
+
+    logger.info(`Cita ${appointmentId} reprogramada al ${changes.date} a las ${changes.startTime}`);
+    emitAppointmentEvent("rescheduled", data as Appointment);
+    return data as Appointment;
+  });
+}
+
+/**
+ * Cancela una cita
+ * @throws AppointmentError si la cita no existe o ya está cancelada
+ */
+export async function cancelAppointment(
+  tenantId: string,
+  appointmentId: string,
+  reason?: string
+): Promise<Appointment> {
+  const current = await getAppointment(tenantId, appointmentId);
+  if (current.status === "cancelled") {
+    throw new AppointmentError("INVALID_STATUS", `La cita ${appointmentId} ya está cancelada`);
+  }
+
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("tenant_appointments")
+    .update({
+      status: "cancelled",
+      cancellation_reason: reason || null,
+      cancelled_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", appointmentId)
+    .eq("tenant_id", tenantId)
+    .select()
+    .single();
+
+  if (error) {
+    logger.error(`Error al cancelar cita ${appointmentId}: ${error.message}`);
+    throw new Error("Error al cancelar cita");
+  }
+
+  logger.info(`Cita ${appointmentId} cancelada para tenant ${tenantId}`);
+  emitAppointmentEvent("cancelled", data as Appointment);
+  return data as Appointment;
+}
+
+/**
+ * Cambia el estado de una cita (confirmada, completada, no asistió...)
+ * Para cancelar se debe usar cancelAppointment
+ */
+export async function updateAppointmentStatus(
+  tenantId: string,
+  appointmentId: string,
+  status: Exclude<AppointmentStatus, "cancelled">
+): Promise<Appointment> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("tenant_appointments")
+    .update({ status, updated_at: new Date().toISOString() })
+    .eq("id", appointmentId)
+    .eq("tenant_id", tenantId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    logger.error(`Error al actualizar estado de cita ${appointmentId}: ${error.message}`);
+    throw new Error("Error al actualizar estado de cita");
+  }
+  if (!data) {
+    throw new AppointmentError("NOT_FOUND", `Cita ${appointmentId} no encontrada`);
+  }
+
+  logger.info(`Cita ${appointmentId} actualizada a estado ${status}`);
+  emitAppointmentEvent("status_changed", data as Appointment);
+  return data as Appointment;
+}
+
+export default {
+  getAppointmentSettings,
+  loadDaySchedule,
+  getAvailability,
+  findNextAvailability,
+  computeAvailableSlots,
+  evaluateSlot,
+  getAppointment,
+  listAppointments,
+  findUpcomingAppointment,
+  bookAppointment,
+  rescheduleAppointment,
+  cancelAppointment,
+  updateAppointmentStatus,
+  onAppointmentEvent,
+};
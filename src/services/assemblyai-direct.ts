@@ -3,8 +3,8 @@
  *
  * Implementación directa de la API de AssemblyAI utilizando axios.
  * Basada en la documentación oficial para mayor fiabilidad.
- * @version 1.0.0
- * @updated 2025-04-28
+ * @version 1.1.0
+ * @updated 2025-06-17
  */
 
 import axios from 'axios';
@@ -19,16 +19,27 @@ const BASE_URL = 'https://api.assemblyai.com/v2';
 const POLLING_INTERVAL = 1000; // 1 segundo entre intentos de polling
 const MAX_POLLING_ATTEMPTS = 60; // 60 segundos máximo de espera
 
+/**
+ * Transcripción completada por AssemblyAI (solo los campos que usamos)
+ */
+export interface AssemblyAITranscript {
+  id: string;
+  text: string | null;
+  confidence: number | null;
+  language_code?: string;
+  words?: Array<{ text: string; start: number; end: number; confidence: number }> | null;
+}
+
 /**
  * Transcribe un archivo de audio usando la API directa de AssemblyAI
  * @param audioBuffer Buffer del archivo de audio
  * @param language Código de idioma (solo soportados: 'en', 'es', etc)
- * @returns Texto transcrito
+ * @returns Transcripción completa (texto, confianza y palabras con tiempos)
  */
-export const transcribeAudioWithAssemblyAIDirect = async (
+export const requestAssemblyAITranscript = async (
   audioBuffer: Buffer,
   language: string = 'es'
-): Promise<string> => {
+): Promise<AssemblyAITranscript> => {
   try {
     // Log inicial
     logger.info('Iniciando transcripción con AssemblyAI (llamada directa)...');
@@ -120,12 +131,8 @@ export const transcribeAudioWithAssemblyAIDirect = async (
           // Limpieza del archivo temporal
           try { fs.unlinkSync(tempFile); } catch (e) { /* ignorar error */ }
           
-          if (!transcriptionResult.text) {
-            return ''; // Devolver string vacío si no hay texto
-          }
-          
-          logger.info(`Transcripción completada: "${transcriptionResult.text}"`);
-          return transcriptionResult.text;
+          logger.info(`Transcripción completada: "${transcriptionResult.text || ''}"`);
+          return transcriptionResult as AssemblyAITranscript;
         } else if (transcriptionResult.status === 'error') {
           logger.error(`Error en la transcripción: ${transcriptionResult.error}`);
           throw new Error(`Transcripción fallida: ${transcriptionResult.error}`);
@@ -151,4 +158,18 @@ export const transcribeAudioWithAssemblyAIDirect = async (
   }
 };
 
+/**
+ * Transcribe un archivo de audio usando la API directa de AssemblyAI
+ * @param audioBuffer Buffer del archivo de audio
+ * @param language Código de idioma (solo soportados: 'en', 'es', etc)
+ * @returns Texto transcrito
+ */
+export const transcribeAudioWithAssemblyAIDirect = async (
+  audioBuffer: Buffer,
+  language: string = 'es'
+): Promise<string> => {
+  const transcript = await requestAssemblyAITranscript(audioBuffer, language);
+  return transcript.text || ''; // Devolver string vacío si no hay texto
+};
+
 export default transcribeAudioWithAssemblyAIDirect;
@@ -30,6 +30,9 @@ export enum AuditActionType {
   // Acciones comunes
   CREATE_FLOW = "create_flow",
   UPDATE_FLOW = "update_flow",
+  PUBLISH_FLOW = "publish_flow",
+  ROLLBACK_FLOW = "rollback_flow",
+  MERGE_TEMPLATE_UPDATE = "merge_template_update",
   TEST_FLOW = "test_flow",
   TEST_TEMPLATE = "test_template",
   
@@ -40,6 +43,12 @@ export enum AuditActionType {
   // Acciones de templates
   SET_ACTIVE_TEMPLATE = "set_active_template",
   SET_TEMPLATE_ENABLED = "set_template_enabled",
+
+  // Acciones ejecutadas desde nodos de flujo
+  FLOW_ACTION = "flow_action",
+
+  // Respuestas de IA bloqueadas por las validaciones
+  AI_RESPONSE_BLOCKED = "ai_response_blocked",
 }
 
 /**
@@ -0,0 +1,279 @@
+/**
+ * src/services/conversationMemory.ts
+ *
+ * Memoria de conversación para los nodos de IA.
+ * Toma el historial (ConversationMessage) de la sesión persistente o, si no hay,
+ * el que flowProcessor registra en el contexto del flujo para todos los canales;
+ * arma una ventana de los mensajes más recientes dentro de un presupuesto de
+ * tokens y mantiene un resumen acumulado de lo que queda fuera de la ventana.
+ * @version 1.1.0
+ * @created 2025-06-13
+ * @updated 2025-06-17
+ */
+
+import logger from "../utils/logger";
+import { config } from "../config";
+import type { ConversationMessage, ConversationSummary } from "./improvedSessionManager";
+
+/**
+ * Mensaje en el formato que recibe AIServices.chat
+ */
+export interface ChatTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface ConversationMemoryOptions {
+  maxMessages: number;      // Mensajes previos como máximo en la ventana
+  maxTokens: number;        // Presupuesto de tokens de la ventana (incluye el mensaje actual)
+  summaryThreshold: number; // Mensajes sin resumir fuera de la ventana para actualizar el resumen
+}
+
+/**
+ * Ventana de conversación enviada al modelo
+ */
+export interface ConversationWindow {
+  messages: ChatTurn[];   // Mensajes previos + mensaje actual al final
+  tokens: number;
+  windowStart: number;    // Índice del historial donde empieza la ventana
+}
+
+/**
+ * Función que genera el resumen (normalmente AIServices.chat)
+ */
+export type SummarizeFn = (prompt: string, messages: ChatTurn[]) => Promise<string>;
+
+/**
+ * Resultado de cargar la memoria de una sesión
+ */
+export interface ConversationMemory {
+  messages: ChatTurn[];
+  summary: ConversationSummary | null;
+  tokens: number;
+  fromSession: boolean; // El historial vino de la sesión persistente (si no, del contexto del flujo)
+}
+
+const SUMMARY_PROMPT = [
+  "Resume la conversación entre un cliente y el asistente de una inmobiliaria.",
+  "Conserva los datos del cliente (nombre, teléfono, correo), las propiedades y zonas de interés,",
+  "presupuesto, citas acordadas y preguntas pendientes. Omite saludos y cortesías.",
+  "Responde solo con el resumen, en español y en un máximo de 8 líneas.",
+].join("\n");
+
+/**
+ * Estimación de tokens usada en las métricas (4 caracteres por token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil((text || "").length / 4);
+}
+
+/**
+ * Opciones por defecto (config.conversationMemory)
+ */
+export function getDefaultMemoryOptions(): ConversationMemoryOptions {
+  return {
+    maxMessages: config.conversationMemory.maxMessages,
+    maxTokens: config.conversationMemory.maxTokens,
+    summaryThreshold: config.conversationMemory.summaryThreshold,
+  };
+}
+
+/**
+ * Registra un mensaje en el historial del contexto del flujo.
+ * Conserva los últimos `limit` mensajes y ajusta el resumen guardado al recortar.
+ * @param context Contexto del estado del flujo
+ * @param type Quién envía el mensaje
+ * @param content Texto del mensaje
+ * @param nodeId Nodo en el que se envió
+ * @param limit Mensajes a conservar
+ */
+export function recordConversationTurn(
+  context: Record<string, any>,
+  type: "user" | "bot",
+  content: string,
+  nodeId?: string,
+  limit: number = config.conversationMemory.historyLimit
+): void {
+  if (!content || !content.trim()) return;
+
+  const history: ConversationMessage[] = Array.isArray(context.conversationHistory) ? context.conversationHistory : [];
+  const updated = [
+    ...history,
+    { messageId: `msg_${Date.now()}_${history.length}`, timestamp: new Date().toISOString(), type, content, nodeId },
+  ];
+
+  const overflow = updated.length - limit;
+  if (overflow > 0) {
+    updated.splice(0, overflow);
+    const summary: ConversationSummary | undefined = context.conversationSummary;
+    if (summary) {
+      context.conversationSummary = { ...summary, coveredCount: Math.max(0, summary.coveredCount - overflow) };
+    }
+  }
+
+  context.conversationHistory = updated;
+}
+
+function toChatTurn(message: ConversationMessage): ChatTurn | null {
+  if (!message || !message.content || !message.content.trim()) return null;
+  if (message.type === "user") return { role: "user", content: message.content };
+  if (message.type === "bot") return { role: "assistant", content: message.content };
+  return null;
+}
+
+/**
+ * Arma la ventana de mensajes recientes dentro del presupuesto
+ * @param history Historial de la sesión (el más antiguo primero)
+ * @param currentMessage Mensaje actual del usuario
+ * @param options Límites de la ventana
+ */
+export function buildConversationWindow(
+  history: ConversationMessage[],
+  currentMessage: string,
+  options: ConversationMemoryOptions
+): ConversationWindow {
+  let end = history.length;
+
+  // El proveedor suele registrar el mensaje actual antes de ejecutar el flujo
+  const last = history[end - 1];
+  if (last && last.type === "user" && last.content.trim() === currentMessage.trim()) {
+    end--;
+  }
+
+  const current: ChatTurn = { role: "user", content: currentMessage };
+  let tokens = estimateTokens(currentMessage);
+  const previous: ChatTurn[] = [];
+  let windowStart = end;
+
+  for (let i = end - 1; i >= 0 && previous.length < options.maxMessages; i--) {
+    const turn = toChatTurn(history[i]);
+    if (!turn) continue;
+
+    const turnTokens = estimateTokens(turn.content);
+    if (tokens + turnTokens > options.maxTokens) break;
+
+    previous.unshift(turn);
+    tokens += turnTokens;
+    windowStart = i;
+  }
+
+  return { messages: [...previous, current], tokens, windowStart };
+}
+
+/**
+ * Actualiza el resumen acumulado con los mensajes que salieron de la ventana
+ * @param history Historial de la sesión
+ * @param windowStart Inicio de la ventana actual
+ * @param previous Resumen existente
+ * @param summarize Función que genera el resumen
+ * @param threshold Mensajes pendientes necesarios para actualizar
+ * @returns Resumen actualizado (o el existente si no hace falta actualizar)
+ */
+export async function updateRollingSummary(
+  history: ConversationMessage[],
+  windowStart: number,
+  previous: ConversationSummary | null,
+  summarize: SummarizeFn,
+  threshold: number
+): Promise<ConversationSummary | null> {
+  const coveredCount = previous ? Math.min(previous.coveredCount, windowStart) : 0;
+  const pending = history
+    .slice(coveredCount, windowStart)
+    .map(toChatTurn)
+    .filter((turn): turn is ChatTurn => turn !== null);
+
+  if (pending.length === 0 || pending.length < threshold) return previous;
+
+  const transcript = pending
+    .map((turn) => `${turn.role === "user" ? "Cliente" : "Asistente"}: ${turn.content}`)
+    .join("\n");
+  const content = previous?.text
+    ? `Resumen previo:\n${previous.text}\n\nNuevos mensajes:\n${transcript}`
+    : transcript;
+
+  const text = (await summarize(SUMMARY_PROMPT, [{ role: "user", content }])).trim();
+  if (!text) return previous;
+
+  return { text, coveredCount: windowStart, updatedAt: new Date().toISOString() };
+}
+
+/**
+ * Texto del resumen para agregar al prompt de sistema
+ */
+export function formatSummaryForPrompt(summary: ConversationSummary | null): string {
+  return summary?.text ? `Resumen de la conversación anterior con el cliente:\n${summary.text}` : "";
+}
+
+/**
+ * Carga la memoria de conversación de una sesión persistente.
+ * Nunca lanza: ante cualquier error devuelve solo el mensaje actual.
+ * @param sessionId Sesión en ImprovedSessionManager
+ * @param currentMessage Mensaje actual del usuario
+ * @param summarize Función que genera el resumen
+ * @param options Límites de la ventana y del resumen
+ * @param fallbackHistory Historial a usar si la sesión no tiene historial (p. ej. el del contexto del flujo)
+ * @param fallbackSummary Resumen guardado junto con fallbackHistory
+ */
+export async function loadConversationMemory(
+  sessionId: string | undefined,
+  currentMessage: string,
+  summarize: SummarizeFn,
+  options: ConversationMemoryOptions = getDefaultMemoryOptions(),
+  fallbackHistory: ConversationMessage[] = [],
+  fallbackSummary: ConversationSummary | null = null
+): Promise<ConversationMemory> {
+  const onlyCurrent: ConversationMemory = {
+    messages: [{ role: "user", content: currentMessage }],
+    summary: null,
+    tokens: estimateTokens(currentMessage),
+    fromSession: false,
+  };
+
+  try {
+    let context = null;
+    if (sessionId) {
+      // Importamos dinámicamente para no crear el cliente de sesiones al cargar el módulo
+      const ImprovedSessionManager = (await import("./improvedSessionManager")).default;
+      context = await ImprovedSessionManager.getInstance().getSessionContext(sessionId);
+    }
+
+    // Solo algunos proveedores (web) registran el historial en la sesión persistente
+    const fromSession = Boolean(context?.conversationHistory?.length);
+    const history = fromSession ? context!.conversationHistory! : fallbackHistory;
+    if (history.length === 0) return onlyCurrent;
+
+    const window = buildConversationWindow(history, currentMessage, options);
+    let summary = (fromSession ? context?.conversationSummary : fallbackSummary) || null;
+
+    try {
+      const updated = await updateRollingSummary(history, window.windowStart, summary, summarize, options.summaryThreshold);
+      if (updated && updated !== summary && fromSession && sessionId) {
+        const ImprovedSessionManager = (await import("./improvedSessionManager")).default;
+        await ImprovedSessionManager.getInstance().updateSessionContext(sessionId, { conversationSummary: updated });
+      }
+      summary = updated;
+    } catch (error) {
+      // Sin resumen nuevo seguimos con la ventana y el resumen anterior
+      logger.warn(`No se pudo actualizar el resumen de la sesión ${sessionId}: ${error}`);
+    }
+
+    return {
+      messages: window.messages,
+      summary,
+      tokens: window.tokens + estimateTokens(summary?.text || ""),
+      fromSession,
+    };
+  } catch (error) {
+    logger.error(`Error al cargar la memoria de conversación de la sesión ${sessionId}:`, error);
+    return onlyCurrent;
+  }
+}
+
+export default {
+  estimateTokens,
+  recordConversationTurn,
+  buildConversationWindow,
+  updateRollingSummary,
+  formatSummaryForPrompt,
+  loadConversationMemory,
+};
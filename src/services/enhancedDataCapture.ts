@@ -12,10 +12,13 @@
  * - Uso correcto de capture: true
  * - Navegación dinámica con gotoFlow
  * - Variables contextuales normalizadas
+ * - Extracción de varios datos (slots) de una sola respuesta; las preguntas
+ *   cuyo dato ya se extrajo se omiten
  */
 
 import { addKeyword } from "@builderbot/bot";
 import { createClient } from "@supabase/supabase-js";
+import { extractNodeSlots, inferSlotType } from "./nlu/slotExtractor";
 
 const supabase = createClient(
   process.env.SUPABASE_URL!,
@@ -137,6 +140,7 @@ interface EnhancedDataNodeContent {
   tenantId?: string;
   templateId?: string;
   salesStageId?: string;
+  slots?: Array<string | { variable: string; type?: string; options?: string[] }>; // Otros datos a extraer de la respuesta
 }
 
 interface HybridState {
@@ -160,6 +164,7 @@ interface HybridState {
     sessionStarted?: string;
     lastActivity?: string;
     leadSystemVars?: any;
+    extractedSlots?: Record<string, any>; // Datos extraídos cuya pregunta aún no se hizo
   };
   
   // METADATOS
@@ -188,7 +193,7 @@ export class EnhancedDataCapture {
       // ========================================
       // FASE 1: PREPARACIÓN (ADAPTADA DEL V1-REFERENCE)
       // ========================================
-      .addAction(async (ctx, { flowDynamic, state }) => {
+      .addAction(async (ctx, { flowDynamic, state, gotoFlow, endFlow }) => {
         try {
           console.log(`[EnhancedDataCapture] FASE 1 - Iniciando preparación para nodo ${nodeConfig.nodeId}`);
           
@@ -220,6 +225,28 @@ export class EnhancedDataCapture {
             return;
           }
           
+          // OMITIR LA PREGUNTA SI EL DATO YA SE EXTRAJO DE UNA RESPUESTA ANTERIOR
+          const captureVariable = this.getCaptureVariable(nodeData, this.detectInputType(nodeData.input?.label));
+          const pendingSlots = currentState.hybrid?.extractedSlots || {};
+          if (captureVariable && captureVariable in pendingSlots) {
+            const { [captureVariable]: _answered, ...remainingSlots } = pendingSlots;
+            console.log(`[EnhancedDataCapture] FASE 1 - ${captureVariable} ya capturado, se omite la pregunta`);
+            
+            await state.update({
+              ...currentState,
+              hybrid: {
+                ...currentState.hybrid,
+                currentNodeId: node.id,
+                extractedSlots: remainingSlots,
+                awaitingResponse: false,
+                lastActivity: new Date().toISOString(),
+              },
+            });
+            
+            const nextNode = await this.getNextNodeHybrid(node.id, tenantId);
+            return nextNode ? gotoFlow(nextNode.flow) : endFlow();
+          }
+          
           // 4. PRESERVAR VARIABLES DEL SISTEMA DE LEADS
           const leadSystemVars = await this.getLeadSystemVariables(currentState, tenantId);
           
@@ -356,6 +383,7 @@ export class EnhancedDataCapture {
                 hybrid: {
                   ...currentState.hybrid,
                   collectedData: processedData.collectedData,
+                  extractedSlots: processedData.extractedSlots,
                   globalVars: {
                     ...currentState.hybrid.globalVars,
                     ...processedData.contextVars,
@@ -431,6 +459,16 @@ export class EnhancedDataCapture {
     return nameKeywords.some(keyword => lowercaseLabel.includes(keyword)) ? "name" : "other";
   }
   
+  /**
+   * MÉTODO: Variable (slot) que captura el nodo
+   * PROPÓSITO: Saber si otra respuesta ya trajo el dato que pide el nodo
+   */
+  private static getCaptureVariable(nodeData: EnhancedDataNodeContent, inputType?: string): string | null {
+    if (inputType === "name") return "name";
+    const fieldType = nodeData.input?.type;
+    return fieldType && inferSlotType(fieldType) ? fieldType : null;
+  }
+  
   /**
    * MÉTODO: Procesar pregunta con variables de leads
    * PROPÓSITO: Integrar variables del sistema de leads en las preguntas
@@ -462,14 +500,24 @@ export class EnhancedDataCapture {
     collectedData: Record<string, any>;
     contextVars: Record<string, any>;
     leadData: any;
+    extractedSlots?: Record<string, any>;
   }> {
     
     const isNameField = currentState.hybrid?.inputType === "name";
     const leadSystemVars = currentState.hybrid?.leadSystemVars || {};
     
+    // OTROS DATOS DECLARADOS EN EL NODO QUE VIENEN EN LA MISMA RESPUESTA
+    // (p. ej. "Soy Ana, mi correo es ana@x.com"); quedan pendientes para omitir sus preguntas
+    const captureVariable = this.getCaptureVariable(nodeData, currentState.hybrid?.inputType);
+    const extracted = extractNodeSlots(userResponse, nodeData.slots, captureVariable || undefined);
+    if (captureVariable) delete extracted[captureVariable];
+    const extractedSlots = { ...(currentState.hybrid?.extractedSlots || {}), ...extracted };
+    if (captureVariable) delete extractedSlots[captureVariable];
+    
     // PROCESAR DATOS RECOLECTADOS (PATRÓN V1-REFERENCE)
     const collectedData = {
       ...(currentState.hybrid?.collectedData || {}),
+      ...extracted,
       ...(isNameField
         ? {
             name: userResponse,
@@ -498,6 +546,7 @@ export class EnhancedDataCapture {
       collectedData,
       contextVars,
       leadData,
+      extractedSlots,
     };
   }
   
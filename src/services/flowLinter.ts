@@ -0,0 +1,466 @@
+/**
+ * src/services/flowLinter.ts
+ *
+ * Linter estático de flujos conversacionales.
+ * A diferencia de validateFlow, no modifica el flujo: analiza el grafo de nodos
+ * y reporta errores y advertencias con el ID de los nodos afectados para que el
+ * constructor visual pueda señalarlos.
+ * @version 1.1.0
+ * @created 2025-06-11
+ * @updated 2025-06-16
+ */
+
+import { FlowNode, NodeType } from "../models/flow.types";
+import { normalizeNodeType } from "./flowValidator";
+import { SALES_FUNNEL_STAGES } from "./salesFunnelService";
+import { CRITICAL_VARIABLES } from "../utils/criticalVariables";
+import { normalizeSlotDefinitions } from "./nlu/slotExtractor";
+
+/**
+ * Códigos de los hallazgos del linter
+ */
+export type FlowLintCode =
+  | "MISSING_ENTRY"
+  | "BROKEN_REFERENCE"
+  | "UNREACHABLE_NODE"
+  | "DEAD_END"
+  | "INFINITE_LOOP"
+  | "UNUSED_VARIABLE"
+  | "UNDEFINED_VARIABLE"
+  | "BUTTON_WITHOUT_EDGE"
+  | "BUTTON_GENERIC_EDGE"
+  | "BACKWARD_STAGE_MOVE";
+
+export type FlowLintSeverity = "error" | "warning";
+
+/**
+ * Hallazgo del linter
+ */
+export interface FlowLintIssue {
+  code: FlowLintCode;
+  severity: FlowLintSeverity;
+  message: string;
+  nodeId?: string;
+  nodeIds?: string[];
+  details?: Record<string, any>;
+}
+
+/**
+ * Resultado del análisis
+ */
+export interface FlowLintResult {
+  valid: boolean; // Sin errores (las advertencias no invalidan el flujo)
+  errors: number;
+  warnings: number;
+  issues: FlowLintIssue[];
+}
+
+/**
+ * Flujo a analizar (borrador, versión publicada o contenido sin guardar)
+ */
+export interface LintableFlow {
+  entryNodeId: string;
+  nodes: Record<string, FlowNode>;
+}
+
+export interface FlowLintOptions {
+  knownVariables?: string[]; // Variables disponibles sin capturarlas (sistema, tenant)
+}
+
+/**
+ * Conexión de salida de un nodo
+ */
+interface FlowEdge {
+  target: string;
+  handle?: string;
+}
+
+// Variables que el motor agrega al contexto de cada conversación
+const RUNTIME_VARIABLES = ["lastUserMessage", "userId", "sessionId", "tenantId", "leadId", "lead_id"];
+
+// Nodos que detienen el flujo hasta recibir un mensaje del usuario
+const WAITING_NODE_TYPES: string[] = [
+  NodeType.INPUT,
+  NodeType.INPUT_NODE,
+  NodeType.BUTTONS,
+  NodeType.BUTTONS_NODE,
+  NodeType.LIST,
+  NodeType.LIST_NODE,
+  NodeType.SPEECH_TO_TEXT,
+  NodeType.STT_NODE,
+  NodeType.AI_NODE,
+  NodeType.AI_VOICE_AGENT,
+  NodeType.CHECK_AVAILABILITY_NODE,
+];
+
+// Nodos que pueden terminar la conversación sin salida (los agentes de IA siguen conversando)
+const TERMINAL_NODE_TYPES: string[] = [NodeType.END, NodeType.END_NODE, NodeType.AI_NODE, NodeType.AI_VOICE_AGENT];
+
+const INPUT_NODE_TYPES: string[] = [NodeType.INPUT, NodeType.INPUT_NODE];
+const CHOICE_NODE_TYPES: string[] = [NodeType.BUTTONS, NodeType.BUTTONS_NODE, NodeType.LIST, NodeType.LIST_NODE];
+
+// Metadatos en los que un nodo guarda un valor en el contexto
+const CAPTURE_KEYS = [
+  "variableName",
+  "storeSelectionAs",
+  "responseVariableName",
+  "resultVariable",
+  "outputVariableName",
+  "appointmentIdVariable",
+  "dateVariable",
+  "timeVariable",
+];
+
+const STAGE_ORDER: string[] = Object.values(SALES_FUNNEL_STAGES);
+
+const VARIABLE_REFERENCE = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+function nodeMetadata(node: FlowNode): Record<string, any> {
+  return { ...((node as any).data || {}), ...((node.metadata as any) || {}) };
+}
+
+function isWaitingNode(node: FlowNode): boolean {
+  return (
+    WAITING_NODE_TYPES.includes(normalizeNodeType(node.type)) ||
+    (node.metadata as any)?.waitForResponse === true
+  );
+}
+
+/**
+ * Conexiones de salida de un nodo en todos los formatos que admite el motor
+ */
+function getOutgoingEdges(node: FlowNode): FlowEdge[] {
+  const edges: FlowEdge[] = [];
+  const metadata = nodeMetadata(node);
+
+  if (typeof node.next === "string" && node.next) {
+    edges.push({ target: node.next });
+  } else if (Array.isArray(node.next)) {
+    for (const conditional of node.next as any[]) {
+      if (conditional?.nextNodeId) {
+        edges.push({ target: conditional.nextNodeId, handle: conditional.handle || conditional.sourceHandle });
+      }
+    }
+  }
+
+  if (node.nextNodeId) edges.push({ target: node.nextNodeId });
+
+  if (Array.isArray(metadata.edges)) {
+    for (const edge of metadata.edges) {
+      if (edge?.target) edges.push({ target: edge.target, handle: edge.sourceHandle });
+    }
+  }
+
+  for (const key of ["successNodeId", "errorNodeId"]) {
+    if (typeof metadata[key] === "string" && metadata[key]) edges.push({ target: metadata[key] });
+  }
+
+  return edges;
+}
+
+/**
+ * Textos de un nodo que admiten {{variables}}
+ */
+function getTemplateTexts(node: FlowNode): string[] {
+  const metadata = nodeMetadata(node);
+  const texts = [node.content, metadata.message, metadata.errorMessage, metadata.template, metadata.prompt, metadata.url];
+
+  for (const option of [...(metadata.buttons || []), ...(metadata.items || [])]) {
+    texts.push(option?.text, option?.description, option?.value);
+  }
+
+  return texts.filter((text): text is string => typeof text === "string");
+}
+
+function getReferencedVariables(node: FlowNode): string[] {
+  const names = new Set<string>();
+  for (const text of getTemplateTexts(node)) {
+    for (const match of text.matchAll(VARIABLE_REFERENCE)) {
+      names.add(match[1].split(".")[0]);
+    }
+  }
+  return Array.from(names);
+}
+
+function getCapturedVariables(node: FlowNode): string[] {
+  const metadata = nodeMetadata(node);
+  const captured = CAPTURE_KEYS.map((key) => metadata[key]).filter(
+    (name): name is string => typeof name === "string" && name.length > 0
+  );
+  // Los nodos de entrada también llenan los slots que declaran
+  return [...captured, ...normalizeSlotDefinitions(metadata.slots).map((slot) => slot.variable)];
+}
+
+/**
+ * Texto donde un nodo puede usar una variable: plantillas, condiciones y metadatos
+ * (sin las claves con las que la captura)
+ */
+function getUsageText(node: FlowNode): string {
+  const metadata = nodeMetadata(node);
+  const usedMetadata = Object.fromEntries(Object.entries(metadata).filter(([key]) => !CAPTURE_KEYS.includes(key) && key !== "slots"));
+  return [node.content || "", JSON.stringify(usedMetadata), Array.isArray(node.next) ? JSON.stringify(node.next) : ""].join("\n");
+}
+
+/**
+ * Etapa a la que un nodo mueve al lead (acepta nombres en español)
+ */
+function getStageMove(node: FlowNode): string | null {
+  const metadata = nodeMetadata(node);
+  const stage = metadata.movesToStage || metadata.salesStageId;
+  if (typeof stage !== "string" || !stage) return null;
+  const normalized = (SALES_FUNNEL_STAGES as Record<string, string>)[stage] || stage;
+  return STAGE_ORDER.includes(normalized) ? normalized : null;
+}
+
+/**
+ * Componentes fuertemente conexos (Tarjan) del subgrafo indicado
+ */
+function findStronglyConnected(nodeIds: string[], successors: Map<string, string[]>): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let counter = 0;
+
+  function visit(nodeId: string): void {
+    index.set(nodeId, counter);
+    lowLink.set(nodeId, counter);
+    counter++;
+    stack.push(nodeId);
+    onStack.add(nodeId);
+
+    for (const next of successors.get(nodeId) || []) {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(nodeId, Math.min(lowLink.get(nodeId)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(nodeId, Math.min(lowLink.get(nodeId)!, index.get(next)!));
+      }
+    }
+
+    if (lowLink.get(nodeId) === index.get(nodeId)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== nodeId);
+      components.push(component.sort());
+    }
+  }
+
+  for (const nodeId of nodeIds) {
+    if (!index.has(nodeId)) visit(nodeId);
+  }
+  return components;
+}
+
+/**
+ * Analiza un flujo y reporta sus problemas estructurales
+ * @param flow Flujo a analizar (no se modifica)
+ * @param options Variables conocidas además de las capturadas en el flujo
+ * @returns Hallazgos ordenados por nodo
+ */
+export function lintFlow(flow: LintableFlow, options: FlowLintOptions = {}): FlowLintResult {
+  const nodes = flow.nodes || {};
+  const nodeIds = Object.keys(nodes).sort();
+  const issues: FlowLintIssue[] = [];
+
+  // Conexiones válidas (las rotas se reportan y se ignoran para el resto del análisis)
+  const successors = new Map<string, string[]>();
+  for (const nodeId of nodeIds) {
+    const targets = new Set<string>();
+    for (const edge of getOutgoingEdges(nodes[nodeId])) {
+      if (nodes[edge.target]) {
+        targets.add(edge.target);
+      } else {
+        issues.push({
+          code: "BROKEN_REFERENCE",
+          severity: "error",
+          nodeId,
+          message: `El nodo ${nodeId} apunta a un nodo inexistente: ${edge.target}`,
+          details: { target: edge.target, handle: edge.handle },
+        });
+      }
+    }
+    successors.set(nodeId, Array.from(targets));
+  }
+
+  // 1. Nodo de entrada y alcanzabilidad
+  const reachable = new Set<string>();
+  if (!flow.entryNodeId || !nodes[flow.entryNodeId]) {
+    issues.push({
+      code: "MISSING_ENTRY",
+      severity: "error",
+      message: flow.entryNodeId
+        ? `El nodo de entrada ${flow.entryNodeId} no existe`
+        : "El flujo no tiene nodo de entrada",
+    });
+  } else {
+    const pending = [flow.entryNodeId];
+    while (pending.length > 0) {
+      const nodeId = pending.pop()!;
+      if (reachable.has(nodeId)) continue;
+      reachable.add(nodeId);
+      pending.push(...(successors.get(nodeId) || []));
+    }
+
+    for (const nodeId of nodeIds) {
+      if (!reachable.has(nodeId)) {
+        issues.push({
+          code: "UNREACHABLE_NODE",
+          severity: "warning",
+          nodeId,
+          message: `El nodo ${nodeId} no es alcanzable desde el nodo de entrada`,
+        });
+      }
+    }
+  }
+
+  // 2. Callejones sin salida
+  for (const nodeId of nodeIds) {
+    if (!reachable.has(nodeId)) continue;
+    const type = normalizeNodeType(nodes[nodeId].type);
+    if ((successors.get(nodeId) || []).length === 0 && !TERMINAL_NODE_TYPES.includes(type)) {
+      issues.push({
+        code: "DEAD_END",
+        severity: "warning",
+        nodeId,
+        message: `El nodo ${nodeId} no tiene salida y no es un nodo de fin`,
+        details: { type },
+      });
+    }
+  }
+
+  // 3. Ciclos que nunca esperan un mensaje del usuario
+  const reachableIds = nodeIds.filter((nodeId) => reachable.has(nodeId));
+  for (const component of findStronglyConnected(reachableIds, successors)) {
+    const isCycle = component.length > 1 || (successors.get(component[0]) || []).includes(component[0]);
+    if (isCycle && !component.some((nodeId) => isWaitingNode(nodes[nodeId]))) {
+      issues.push({
+        code: "INFINITE_LOOP",
+        severity: "error",
+        nodeId: component[0],
+        nodeIds: component,
+        message: `Ciclo sin entrada del usuario entre los nodos: ${component.join(", ")}`,
+      });
+    }
+  }
+
+  // 4. Variables capturadas y referenciadas
+  const captured = new Set<string>();
+  for (const nodeId of nodeIds) {
+    getCapturedVariables(nodes[nodeId]).forEach((name) => captured.add(name));
+  }
+  const known = new Set<string>([
+    ...captured,
+    ...Object.keys(CRITICAL_VARIABLES),
+    ...RUNTIME_VARIABLES,
+    ...(options.knownVariables || []),
+  ]);
+
+  for (const nodeId of nodeIds) {
+    const node = nodes[nodeId];
+
+    for (const name of getReferencedVariables(node)) {
+      if (!known.has(name)) {
+        issues.push({
+          code: "UNDEFINED_VARIABLE",
+          severity: "warning",
+          nodeId,
+          message: `El nodo ${nodeId} usa la variable {{${name}}} que ningún nodo captura`,
+          details: { variable: name },
+        });
+      }
+    }
+
+    const variableName = nodeMetadata(node).variableName;
+    if (INPUT_NODE_TYPES.includes(normalizeNodeType(node.type)) && typeof variableName === "string" && variableName) {
+      const usage = new RegExp(`\\b${variableName.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`);
+      const isUsed = nodeIds.some((otherId) => usage.test(getUsageText(nodes[otherId])));
+      if (!isUsed) {
+        issues.push({
+          code: "UNUSED_VARIABLE",
+          severity: "warning",
+          nodeId,
+          message: `La variable ${variableName} capturada en el nodo ${nodeId} no se usa en el flujo`,
+          details: { variable: variableName },
+        });
+      }
+    }
+  }
+
+  // 5. Botones y listas sin conexión para su handle
+  for (const nodeId of nodeIds) {
+    const node = nodes[nodeId];
+    if (!CHOICE_NODE_TYPES.includes(normalizeNodeType(node.type))) continue;
+
+    const metadata = nodeMetadata(node);
+    const options = [...(metadata.buttons || []), ...(metadata.items || [])];
+    const edges = getOutgoingEdges(node);
+    const conditionals = Array.isArray(node.next) ? node.next : [];
+    const hasGenericEdge = typeof node.next === "string" || !!node.nextNodeId;
+
+    options.forEach((option: any, index: number) => {
+      const handle = option?.handle || `handle-${index}`;
+      const hasEdge =
+        edges.some((edge) => edge.handle === handle) ||
+        (/^handle-\d+$/.test(handle) && !!conditionals[Number(handle.slice(7))]);
+      if (hasEdge) return;
+
+      issues.push({
+        code: hasGenericEdge ? "BUTTON_GENERIC_EDGE" : "BUTTON_WITHOUT_EDGE",
+        severity: hasGenericEdge ? "warning" : "error",
+        nodeId,
+        message: hasGenericEdge
+          ? `La opción "${option?.text}" del nodo ${nodeId} no tiene conexión propia y usa la salida genérica`
+          : `La opción "${option?.text}" del nodo ${nodeId} no tiene conexión para el handle ${handle}`,
+        details: { handle, index },
+      });
+    });
+  }
+
+  // 6. Movimientos del sales funnel hacia etapas anteriores
+  // Se propaga la etapa más avanzada posible con la que se llega a cada nodo
+  const arrivalStage = new Map<string, number>();
+  if (reachable.size > 0) {
+    const pending: Array<[string, number]> = [[flow.entryNodeId, -1]];
+    while (pending.length > 0) {
+      const [nodeId, stage] = pending.pop()!;
+      if ((arrivalStage.get(nodeId) ?? -2) >= stage) continue;
+      arrivalStage.set(nodeId, stage);
+
+      const move = getStageMove(nodes[nodeId]);
+      const leaving = move ? STAGE_ORDER.indexOf(move) : stage;
+      for (const next of successors.get(nodeId) || []) pending.push([next, leaving]);
+    }
+  }
+
+  for (const nodeId of reachableIds) {
+    const move = getStageMove(nodes[nodeId]);
+    const arrival = arrivalStage.get(nodeId) ?? -1;
+    if (move && arrival > STAGE_ORDER.indexOf(move)) {
+      issues.push({
+        code: "BACKWARD_STAGE_MOVE",
+        severity: "warning",
+        nodeId,
+        message: `El nodo ${nodeId} puede regresar al lead de ${STAGE_ORDER[arrival]} a ${move}`,
+        details: { from: STAGE_ORDER[arrival], to: move },
+      });
+    }
+  }
+
+  const errors = issues.filter((issue) => issue.severity === "error").length;
+  return {
+    valid: errors === 0,
+    errors,
+    warnings: issues.length - errors,
+    issues,
+  };
+}
+
+export default {
+  lintFlow,
+};
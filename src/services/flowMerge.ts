@@ -0,0 +1,265 @@
+/**
+ * src/services/flowMerge.ts
+ *
+ * Merge de tres vías entre la plantilla original (base), la nueva versión de la
+ * plantilla y la instancia del tenant. Los cambios de la plantilla se aplican
+ * automáticamente salvo cuando chocan con ediciones del tenant en nodos editables,
+ * que se reportan como conflictos para resolverlos manualmente.
+ * @version 1.0.0
+ * @created 2025-06-10
+ */
+
+import { FlowNode, FlowSnapshot } from "../models/flow.types";
+import { isSameContent } from "./flowVersionService";
+
+/**
+ * Motivo de un conflicto
+ * - both_modified: plantilla y tenant cambiaron los mismos campos del nodo
+ * - modified_and_removed: un lado eliminó el nodo y el otro lo modificó
+ * - added_both: ambos agregaron un nodo con el mismo ID y distinto contenido
+ * - no_base: no se conoce la plantilla original y el nodo editable difiere
+ */
+export type MergeConflictReason = "both_modified" | "modified_and_removed" | "added_both" | "no_base";
+
+/**
+ * Conflicto en un nodo editable
+ */
+export interface MergeConflict {
+  nodeId: string;
+  reason: MergeConflictReason;
+  fields: string[];
+  base: FlowNode | null;
+  template: FlowNode | null;
+  instance: FlowNode | null;
+}
+
+/**
+ * Cambio aplicado desde la plantilla
+ */
+export interface MergeChange {
+  nodeId: string;
+  change: "added" | "modified" | "removed";
+  fields?: string[];
+  overridesInstance?: boolean; // El nodo no editable tenía cambios locales que se reemplazaron
+}
+
+/**
+ * Resolución de un conflicto: quedarse con la plantilla, con la instancia
+ * o un nodo definido manualmente (null elimina el nodo)
+ */
+export type MergeResolution = "template" | "instance" | FlowNode | null;
+
+/**
+ * Resultado del merge
+ */
+export interface FlowMergeResult {
+  nodes: Record<string, FlowNode>;
+  entryNodeId: string;
+  applied: MergeChange[];
+  keptInstanceChanges: string[];
+  conflicts: MergeConflict[];
+  hasTemplateChanges: boolean;
+}
+
+// Campos que se combinan (las posiciones x/y siempre se conservan de la instancia)
+const MERGE_FIELDS: Array<keyof FlowNode> = ["type", "content", "metadata", "next", "isEditable"];
+
+function changedFields(a: FlowNode | undefined, b: FlowNode | undefined): string[] {
+  return MERGE_FIELDS.filter((field) => !isSameContent(a?.[field], b?.[field])) as string[];
+}
+
+function sameNode(a: FlowNode | undefined, b: FlowNode | undefined): boolean {
+  if (!a || !b) return !a && !b;
+  return changedFields(a, b).length === 0;
+}
+
+/**
+ * Combina los campos de un nodo modificado en ambos lados
+ * @returns Nodo combinado y campos en conflicto
+ */
+function mergeNodeFields(
+  base: FlowNode,
+  template: FlowNode,
+  instance: FlowNode
+): { node: FlowNode; conflictFields: string[] } {
+  const node: FlowNode = { ...instance };
+  const conflictFields: string[] = [];
+
+  for (const field of MERGE_FIELDS) {
+    const baseValue = base[field];
+    const templateValue = template[field];
+    const instanceValue = instance[field];
+
+    if (isSameContent(templateValue, baseValue) || isSameContent(templateValue, instanceValue)) {
+      continue; // Solo cambió la instancia (o ambos igual): se conserva
+    }
+    if (isSameContent(instanceValue, baseValue)) {
+      (node as any)[field] = templateValue; // Solo cambió la plantilla
+      continue;
+    }
+    conflictFields.push(field as string);
+  }
+
+  return { node, conflictFields };
+}
+
+/**
+ * Conserva la posición de la instancia al tomar un nodo de la plantilla
+ */
+function withInstanceLayout(template: FlowNode, instance?: FlowNode): FlowNode {
+  if (!instance) return { ...template };
+  return {
+    ...template,
+    ...(instance.x !== undefined ? { x: instance.x } : {}),
+    ...(instance.y !== undefined ? { y: instance.y } : {}),
+  };
+}
+
+/**
+ * Merge de tres vías de una instancia con la nueva versión de su plantilla
+ * @param base Plantilla con la que se creó (o sincronizó) la instancia; null si se desconoce
+ * @param template Nueva versión de la plantilla
+ * @param instance Contenido actual de la instancia del tenant
+ * @param editableNodes IDs de nodos que el tenant puede editar
+ */
+export function mergeFlowWithTemplate(
+  base: FlowSnapshot | null,
+  template: FlowSnapshot,
+  instance: FlowSnapshot,
+  editableNodes: string[] = []
+): FlowMergeResult {
+  const baseNodes = base?.nodes || {};
+  const templateNodes = template.nodes || {};
+  const instanceNodes = instance.nodes || {};
+
+  const isEditable = (nodeId: string) =>
+    editableNodes.includes(nodeId) ||
+    !!instanceNodes[nodeId]?.isEditable ||
+    !!templateNodes[nodeId]?.isEditable;
+
+  const nodes: Record<string, FlowNode> = {};
+  const applied: MergeChange[] = [];
+  const keptInstanceChanges: string[] = [];
+  const conflicts: MergeConflict[] = [];
+
+  const nodeIds = Array.from(
+    new Set([...Object.keys(baseNodes), ...Object.keys(templateNodes), ...Object.keys(instanceNodes)])
+  ).sort();
+
+  for (const nodeId of nodeIds) {
+    const b = base ? baseNodes[nodeId] : undefined;
+    const t = templateNodes[nodeId];
+    const i = instanceNodes[nodeId];
+
+    const templateChanged = base ? !sameNode(b, t) : !sameNode(i, t);
+    const instanceChanged = base ? !sameNode(b, i) : false;
+
+    const keepInstance = () => {
+      if (i) nodes[nodeId] = i;
+      if (instanceChanged) keptInstanceChanges.push(nodeId);
+    };
+    const takeTemplate = (overridesInstance = false) => {
+      if (t) nodes[nodeId] = withInstanceLayout(t, i);
+      applied.push({
+        nodeId,
+        change: !t ? "removed" : !i ? "added" : "modified",
+        ...(t && i ? { fields: changedFields(i, t) } : {}),
+        ...(overridesInstance ? { overridesInstance } : {}),
+      });
+    };
+    const conflict = (reason: MergeConflictReason, fields: string[], merged?: FlowNode) => {
+      // Mientras no se resuelva, se conserva la versión del tenant
+      if (merged || i) nodes[nodeId] = merged || i;
+      conflicts.push({ nodeId, reason, fields, base: b || null, template: t || null, instance: i || null });
+    };
+
+    if (!templateChanged) {
+      keepInstance();
+      continue;
+    }
+
+    // Nodos no editables: la plantilla manda
+    if (!isEditable(nodeId)) {
+      takeTemplate(instanceChanged && !sameNode(i, t));
+      continue;
+    }
+
+    // Sin base: cualquier diferencia en un nodo editable requiere decisión
+    if (!base) {
+      conflict("no_base", changedFields(i, t));
+      continue;
+    }
+
+    if (!instanceChanged || sameNode(i, t)) {
+      takeTemplate();
+      continue;
+    }
+
+    if (!b) {
+      conflict("added_both", changedFields(i, t));
+    } else if (!t || !i) {
+      conflict("modified_and_removed", changedFields(b, t || i));
+    } else {
+      const { node, conflictFields } = mergeNodeFields(b, t, i);
+      if (conflictFields.length > 0) {
+        conflict("both_modified", conflictFields, node);
+      } else {
+        nodes[nodeId] = node;
+        applied.push({ nodeId, change: "modified", fields: changedFields(i, node) });
+        keptInstanceChanges.push(nodeId);
+      }
+    }
+  }
+
+  // El nodo de entrada sigue a la plantilla si ésta lo cambió
+  let entryNodeId = instance.entryNodeId;
+  if (base ? base.entryNodeId !== template.entryNodeId : instance.entryNodeId !== template.entryNodeId) {
+    entryNodeId = template.entryNodeId;
+  }
+  if (!nodes[entryNodeId]) entryNodeId = template.entryNodeId;
+
+  return {
+    nodes,
+    entryNodeId,
+    applied,
+    keptInstanceChanges,
+    conflicts,
+    hasTemplateChanges: applied.length > 0 || conflicts.length > 0 || entryNodeId !== instance.entryNodeId,
+  };
+}
+
+/**
+ * Aplica las resoluciones de conflictos al resultado del merge
+ * @returns Nodos finales y conflictos que siguen sin resolver
+ */
+export function resolveMergeConflicts(
+  result: FlowMergeResult,
+  resolutions: Record<string, MergeResolution>
+): { nodes: Record<string, FlowNode>; unresolved: MergeConflict[] } {
+  const nodes = { ...result.nodes };
+  const unresolved: MergeConflict[] = [];
+
+  for (const conflict of result.conflicts) {
+    if (!(conflict.nodeId in resolutions)) {
+      unresolved.push(conflict);
+      continue;
+    }
+
+    const resolution = resolutions[conflict.nodeId];
+    const chosen =
+      resolution === "template" ? conflict.template :
+      resolution === "instance" ? conflict.instance :
+      resolution ? { ...resolution, id: conflict.nodeId } :
+      null;
+
+    if (chosen) nodes[conflict.nodeId] = withInstanceLayout(chosen, conflict.instance || undefined);
+    else delete nodes[conflict.nodeId];
+  }
+
+  return { nodes, unresolved };
+}
+
+export default {
+  mergeFlowWithTemplate,
+  resolveMergeConflicts,
+};
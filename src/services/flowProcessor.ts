@@ -17,13 +17,47 @@ import {
   Condition,
   ConditionalNext,
   ConditionType,
+  ApiCallNodeMetadata,
+  ActionNodeMetadata,
+  ConditionNodeMetadata,
+  AppointmentNodeMetadata,
+  VoiceNodeMetadata,
 } from "../models/flow.types";
 import { ExtendedFlowState } from "../models/extendedFlow.types";
+import type { LLMMessage } from "./llm";
 import {
   processButtonsNode,
   processListNode,
+  findNextNodeByHandle,
 } from "./buttonProcessor";
+import { executeApiCall } from "./apiCallService";
+import { executeAction } from "./actionRegistry";
+import { evaluateExpression } from "../utils/conditionExpression";
+import {
+  AppointmentError,
+  Appointment,
+  getAvailability,
+  findNextAvailability,
+  findUpcomingAppointment,
+  bookAppointment,
+  rescheduleAppointment,
+  cancelAppointment,
+} from "./appointmentService";
+import { extractEntities } from "./nlu/entityExtractor";
+import { extractNodeSlots, isSlotFilled } from "./nlu/slotExtractor";
+import { recordConversationTurn } from "./conversationMemory";
+import {
+  analyzeMessage,
+  analyzeMessageSync,
+  matchesIntent,
+  matchesSentiment,
+  hasEntity,
+  entityHasValue,
+  entitiesToVariables,
+  NLUResult,
+} from "./nlu";
 import logger from "../utils/logger";
+import { config } from "../config";
 import { replaceVariablesEnhanced } from "../utils/variableReplacerFix";
 import { processFinalText } from "../utils/finalReplacer";
 import { processCompositeMessage, parseMessageWithEmbeddedMedia, CompositeMessage } from "../utils/compositeMessageProcessor";
@@ -88,10 +122,18 @@ export async function processFlowMessage(
       tenantId: 'default'
     };
 
+    // La sesión queda asociada a la versión publicada con la que inició
+    if (!state.flowVersionId && flow.versionId) {
+      state.flowVersionId = flow.versionId;
+    }
+
     // Actualizamos el contexto con el nuevo mensaje
     state.context.lastUserMessage = message;
     state.lastUpdatedAt = new Date();
 
+    // El historial del contexto alimenta la memoria de los nodos de IA en todos los canales
+    recordConversationTurn(state.context, "user", message, state.currentNodeId);
+
     logger.info(
       `Procesando mensaje "${message}" en flujo ${flow.id}, nodo inicial ${state.currentNodeId}`
     );
@@ -146,6 +188,8 @@ export async function processFlowMessage(
       logger.error(`Error al procesar variables en respuesta final: ${error}`);
       // Seguimos con la respuesta original si hay error
     }
+
+    recordConversationTurn(state.context, "bot", finalResponse, state.currentNodeId);
     
     return {
       response: finalResponse,
@@ -282,6 +326,12 @@ export async function processNode(
       `Tipo de nodo normalizado: ${nodeType} (original: ${node.type})`
     );
 
+    // El idioma de los nodos de voz queda como pista para transcribir el próximo audio
+    const voiceLanguage = (node.metadata as VoiceNodeMetadata | undefined)?.language;
+    if (isVoiceNodeType(nodeType) && voiceLanguage) {
+      state.context.sttLanguage = voiceLanguage;
+    }
+
     // Procesamos las acciones del sales funnel si aplican para este nodo
     try {
       const canProceed = await processSalesFunnelActions(node, state);
@@ -371,6 +421,22 @@ export async function processNode(
         logger.info(`Procesando nodo de lista ${node.id}`);
         return processListNode(node, flow, state, onNodeVisit);
 
+      case NodeType.CHECK_AVAILABILITY_NODE:
+        logger.info(`Procesando nodo de disponibilidad ${node.id}`);
+        return processCheckAvailabilityNode(node, flow, state, onNodeVisit);
+
+      case NodeType.BOOK_APPOINTMENT_NODE:
+        logger.info(`Procesando nodo de reserva de cita ${node.id}`);
+        return processBookAppointmentNode(node, flow, state, onNodeVisit);
+
+      case NodeType.RESCHEDULE_APPOINTMENT_NODE:
+        logger.info(`Procesando nodo de reprogramación de cita ${node.id}`);
+        return processRescheduleAppointmentNode(node, flow, state, onNodeVisit);
+
+      case NodeType.CANCEL_APPOINTMENT_NODE:
+        logger.info(`Procesando nodo de cancelación de cita ${node.id}`);
+        return processCancelAppointmentNode(node, flow, state, onNodeVisit);
+
       default:
         logger.warn(
           `Tipo de nodo no implementado específicamente: ${node.type} (normalizado: ${nodeType})`
@@ -485,6 +551,17 @@ function applyTemplateConfig(
   }
 }
 
+/**
+ * Indica si un tipo de nodo trabaja con voz (su metadata.language aplica a STT)
+ */
+function isVoiceNodeType(nodeType: NodeType): boolean {
+  return (
+    nodeType === NodeType.STT_NODE ||
+    nodeType === NodeType.TTS_NODE ||
+    nodeType === NodeType.AI_VOICE_AGENT
+  );
+}
+
 /**
  * Normaliza el tipo de nodo entre el Constructor Visual y el backend
  * @param nodeType Tipo de nodo original
@@ -517,6 +594,11 @@ function normalizeNodeType(nodeType: string): NodeType {
     text_to_speech: NodeType.TEXT_TO_SPEECH,
     sttNode: NodeType.STT_NODE,
     speech_to_text: NodeType.SPEECH_TO_TEXT,
+    // Tipos de citas
+    "check-availability": NodeType.CHECK_AVAILABILITY_NODE,
+    "book-appointment": NodeType.BOOK_APPOINTMENT_NODE,
+    "reschedule-appointment": NodeType.RESCHEDULE_APPOINTMENT_NODE,
+    "cancel-appointment": NodeType.CANCEL_APPOINTMENT_NODE,
   };
 
   // Devolver el tipo normalizado si existe, o el original si no
@@ -607,6 +689,14 @@ export async function processMessageNode(
   state: ExtendedFlowState,
   onNodeVisit?: NodeVisitCallback
 ): Promise<NodeProcessResult> {
+  // Si la pregunta es para un dato que el usuario ya dio en otra respuesta, no se repite
+  const answeredNodeId = getNextNodeId(node);
+  if ((node.metadata as any)?.waitForResponse === true && answeredNodeId && isAnsweredSlotInput(flow.nodes[answeredNodeId], state)) {
+    logger.info(`Nodo de mensaje ${node.id}: el dato ya fue capturado, se omite la pregunta`);
+    state.currentNodeId = answeredNodeId;
+    return processNode(flow, state, onNodeVisit);
+  }
+
   let messageContent = node.content;
   let mediaUrl = (node.metadata as any)?.media || (node.metadata as any)?.imageUrl || (node.metadata as any)?.audioUrl || (node.metadata as any)?.videoUrl;
   let mediaType = (node.metadata as any)?.mediaType;
@@ -847,13 +937,28 @@ export async function processConditionNode(
 
   logger.debug(`Evaluando ${next.length} condiciones posibles`);
 
+  // Si alguna condición depende del NLU, analizamos el mensaje una sola vez
+  if (next.some((conditional) => NLU_CONDITION_TYPES.includes(conditional.condition?.type))) {
+    const tenantId = state.tenantId || (state.context && state.context.tenantId) || 'default';
+    const provider = (node.metadata as ConditionNodeMetadata | undefined)?.nluProvider || "local";
+
+    try {
+      const nlu = await analyzeMessage(userMessage, tenantId, provider);
+      state.context.nlu = nlu;
+      state.context.entities = entitiesToVariables(nlu.entities);
+      logger.debug(`NLU: intención ${nlu.intent} (${nlu.confidence}), sentimiento ${nlu.sentiment.label}`);
+    } catch (error) {
+      logger.error(`Error al analizar mensaje con NLU: ${error}`);
+    }
+  }
+
   // Evaluamos cada condición
   for (const conditional of next) {
     logger.debug(
       `Evaluando condición para nodo destino: ${conditional.nextNodeId}`
     );
 
-    if (evaluateCondition(conditional.condition, userMessage, state.context)) {
+    if (evaluateCondition(conditional.condition, userMessage, state.context, buildExpressionScope(state))) {
       // Si la condición se cumple, pasamos al siguiente nodo
       logger.info(
         `Condición cumplida, avanzando a nodo: ${conditional.nextNodeId}`
@@ -895,12 +1000,34 @@ export async function processActionNode(
   state: ExtendedFlowState,
   onNodeVisit?: NodeVisitCallback
 ): Promise<NodeProcessResult> {
-  // Por ahora, simplemente pasamos al siguiente nodo
-  // En una implementación más completa, ejecutaríamos la acción correspondiente
   logger.info(`Ejecutando acción del nodo ${node.id}`);
 
-  // Obtenemos el siguiente nodo
-  const nextNodeId = getNextNodeId(node);
+  const tenantId = state.tenantId || (state.context && state.context.tenantId) || 'default';
+  const actionConfig = (node.metadata || node.data || {}) as ActionNodeMetadata;
+
+  const result = await executeAction(actionConfig, { node, state, tenantId });
+
+  // Escribimos los resultados de la acción en el contexto
+  if (result.contextUpdates) {
+    Object.assign(state.context, result.contextUpdates);
+  }
+  if (result.success && actionConfig.resultVariable) {
+    state.context[actionConfig.resultVariable] = result.output;
+  }
+  state.context.lastActionResult = {
+    actionType: actionConfig.actionType,
+    success: result.success,
+    error: result.error,
+  };
+
+  if (!result.success) {
+    logger.error(`Acción ${actionConfig.actionType} del nodo ${node.id} falló: ${result.error}`);
+  }
+
+  // Si la acción falla, usamos el nodo de fallback cuando esté configurado
+  const nextNodeId = result.success
+    ? getNextNodeId(node)
+    : actionConfig.fallbackNodeId || findNextNodeByHandle(node, "fallback");
 
   if (nextNodeId) {
     state.currentNodeId = nextNodeId;
@@ -909,8 +1036,9 @@ export async function processActionNode(
   }
 
   // Procesar variables en el mensaje de acción
-  const tenantId = state.tenantId || (state.context && state.context.tenantId) || 'default';
-  let actionMessage = "Acción ejecutada correctamente.";
+  let actionMessage = result.success
+    ? "Acción ejecutada correctamente."
+    : "No pudimos completar la acción solicitada. Por favor intenta más tarde.";
   
   try {
     actionMessage = await processFinalText(actionMessage, {
@@ -936,27 +1064,49 @@ export async function processApiCallNode(
   state: ExtendedFlowState,
   onNodeVisit?: NodeVisitCallback
 ): Promise<NodeProcessResult> {
-  // Esto podría ampliarse con una implementación real de llamadas a API
   logger.info(`Ejecutando llamada a API del nodo ${node.id}`);
 
-  // Simulamos respuesta de API
+  // La configuración puede venir en metadata o en data (formato ReactFlow)
+  const apiConfig = (node.metadata || node.data || {}) as ApiCallNodeMetadata;
+
+  const result = await executeApiCall(apiConfig, {
+    ...state.context,
+    ...(state.variables || {}),
+  });
+
   state.context.apiResponse = {
-    success: true,
-    data: { message: "Respuesta simulada de API" },
+    success: result.success,
+    status: result.status,
+    data: result.data,
+    error: result.error,
   };
 
-  // Obtenemos el siguiente nodo
-  const nextNodeId = getNextNodeId(node);
+  if (result.success && apiConfig.resultVariable) {
+    state.context[apiConfig.resultVariable] = result.value;
+    logger.debug(`API: Guardando respuesta en variable ${apiConfig.resultVariable}`);
+  }
+
+  if (!result.success) {
+    logger.error(`Llamada a API del nodo ${node.id} falló tras ${result.attempts} intento(s): ${result.error}`);
+  }
+
+  // Elegimos la rama de éxito o error; si no existe, seguimos al siguiente nodo genérico
+  const branch = result.success ? "success" : "error";
+  const nextNodeId =
+    (result.success ? apiConfig.successNodeId : apiConfig.errorNodeId) ||
+    findNextNodeByHandle(node, branch);
 
   if (nextNodeId) {
     state.currentNodeId = nextNodeId;
-    logger.debug(`API: Avanzando al nodo ${nextNodeId}`);
+    logger.debug(`API: Avanzando al nodo ${nextNodeId} (rama ${branch})`);
     return processNode(flow, state, onNodeVisit);
   }
 
   // Procesar variables en el mensaje de API
   const tenantId = state.tenantId || (state.context && state.context.tenantId) || 'default';
-  let apiMessage = "Llamada a API completada.";
+  let apiMessage = result.success
+    ? "Llamada a API completada."
+    : "No pudimos completar la consulta en este momento. Por favor intenta más tarde.";
   
   try {
     apiMessage = await processFinalText(apiMessage, {
@@ -973,6 +1123,429 @@ export async function processApiCallNode(
   };
 }
 
+// ----- Nodos de citas -----
+
+/**
+ * Busca el destino de un handle específico sin recurrir al siguiente nodo genérico
+ */
+function findExplicitHandleTarget(node: FlowNode, handle: string): string | null {
+  const edges = (node.metadata as any)?.edges;
+  if (Array.isArray(edges)) {
+    const edge = edges.find((candidate: any) => candidate.sourceHandle === handle);
+    if (edge) return edge.target;
+  }
+
+  if (Array.isArray(node.next)) {
+    const match = node.next.find(
+      (candidate: any) => candidate.handle === handle || candidate.sourceHandle === handle
+    );
+    if (match) return match.nextNodeId;
+  }
+
+  return null;
+}
+
+/**
+ * Reemplaza las variables de un mensaje de los nodos de citas
+ */
+async function renderAppointmentMessage(template: string, state: ExtendedFlowState): Promise<string> {
+  const tenantId = state.tenantId || (state.context && state.context.tenantId) || 'default';
+  try {
+    return await processFinalText(template, {
+      ...state,
+      ...state.context,
+      ...(state.variables || {})
+    }, tenantId);
+  } catch (error) {
+    return template;
+  }
+}
+
+/**
+ * Responde con un mensaje y, si hay siguiente nodo, continúa el flujo concatenando su respuesta
+ */
+async function continueWithMessage(
+  message: string,
+  nextNodeId: string | null,
+  flow: RuntimeFlow,
+  state: ExtendedFlowState,
+  onNodeVisit?: NodeVisitCallback
+): Promise<NodeProcessResult> {
+  state.history.push(message);
+  if (!nextNodeId) {
+    return { response: message };
+  }
+
+  state.currentNodeId = nextNodeId;
+  const nextResult = await processNode(flow, state, onNodeVisit);
+  return {
+    ...nextResult,
+    response: nextResult.response ? `${message}\n\n${nextResult.response}` : message,
+  };
+}
+
+/**
+ * Permanece en el nodo esperando la respuesta del usuario
+ */
+function waitInNode(node: FlowNode, state: ExtendedFlowState, message: string): NodeProcessResult {
+  state.currentNodeId = node.id;
+  state.history.push(message);
+  return { response: message, nextNodeId: node.id, shouldWait: true };
+}
+
+// Fecha y hora que pide el usuario (separadas de appointment_date / appointment_time,
+// que guardan la cita ya agendada y no deben reutilizarse en una nueva reserva)
+const REQUESTED_DATE_VARIABLE = "requested_date";
+const REQUESTED_TIME_VARIABLE = "requested_time";
+
+/**
+ * Obtiene la fecha y hora solicitadas desde el contexto o el último mensaje del usuario
+ * Admite elegir por número uno de los horarios ofrecidos por el nodo de disponibilidad
+ */
+function resolveAppointmentDateTime(
+  state: ExtendedFlowState,
+  dateVariable: string,
+  timeVariable: string
+): { date?: string; time?: string } {
+  const context = state.context;
+  const message = String(context.lastUserMessage || "").trim();
+  const offeredSlots: string[] = Array.isArray(context.available_slots) ? context.available_slots : [];
+
+  let date: string | undefined = context[dateVariable] || undefined;
+  let time: string | undefined = context[timeVariable] || undefined;
+
+  if (!time && offeredSlots.length > 0) {
+    const index = /^\d{1,2}$/.test(message) ? parseInt(message, 10) - 1 : -1;
+    time = offeredSlots[index] || offeredSlots.find((slot) => message.includes(slot));
+    if (time && !date) date = context.availability_date;
+  }
+
+  const entities = extractEntities(message);
+  if (!date) date = entities.find((entity) => entity.type === "date")?.value as string | undefined;
+  if (!time) time = entities.find((entity) => entity.type === "time")?.value as string | undefined;
+
+  if (date) context[dateVariable] = date;
+  if (time) context[timeVariable] = time;
+
+  return { date, time };
+}
+
+/**
+ * Obtiene la cita sobre la que actúan los nodos de reprogramación y cancelación
+ */
+async function resolveAppointmentId(
+  state: ExtendedFlowState,
+  config: AppointmentNodeMetadata,
+  tenantId: string
+): Promise<string | null> {
+  const variable = config.appointmentIdVariable || "appointment_id";
+  if (state.context[variable]) return state.context[variable];
+
+  const leadId = state.leadId || state.lead_id || state.context?.leadId || state.context?.lead_id;
+  const phone = state.context.telefono || state.context.phone || state.userId;
+  const upcoming = await findUpcomingAppointment(tenantId, { leadId, phone });
+
+  return upcoming ? upcoming.id : null;
+}
+
+/**
+ * Guarda en el contexto los datos de una cita
+ */
+function storeAppointmentInContext(state: ExtendedFlowState, appointment: Appointment, idVariable: string): void {
+  state.context[idVariable] = appointment.id;
+  state.context.appointment_id = appointment.id;
+  state.context.appointment_date = appointment.date;
+  state.context.appointment_time = appointment.start_time;
+  state.context.appointment_status = appointment.status;
+  state.context.appointment_scheduled = appointment.status !== "cancelled";
+  delete state.context.appointment_error;
+}
+
+/**
+ * Maneja un error de reserva: sigue la rama de error si existe o permanece
+ * en el nodo ofreciendo horarios alternativos
+ */
+async function handleAppointmentFailure(
+  node: FlowNode,
+  flow: RuntimeFlow,
+  state: ExtendedFlowState,
+  config: AppointmentNodeMetadata,
+  error: unknown,
+  retry: { date?: string; timeVariable: string },
+  onNodeVisit?: NodeVisitCallback
+): Promise<NodeProcessResult> {
+  const tenantId = state.tenantId || (state.context && state.context.tenantId) || 'default';
+  const message = error instanceof AppointmentError
+    ? error.message
+    : "No pudimos completar la operación con tu cita en este momento.";
+
+  logger.error(`Error en nodo de citas ${node.id}: ${error instanceof Error ? error.message : error}`);
+  state.context.appointment_error = {
+    code: error instanceof AppointmentError ? error.code : "UNKNOWN",
+    message,
+  };
+  delete state.context[retry.timeVariable];
+
+  const errorNodeId = config.errorNodeId || findExplicitHandleTarget(node, "error");
+  if (errorNodeId) {
+    state.currentNodeId = errorNodeId;
+    return processNode(flow, state, onNodeVisit);
+  }
+
+  // Sin rama de error, ofrecemos otros horarios del mismo día
+  let alternatives: string[] = [];
+  if (retry.date && error instanceof AppointmentError) {
+    try {
+      const availability = await getAvailability(tenantId, retry.date, {
+        appointmentTypeId: config.appointmentTypeId,
+        locationId: config.locationId,
+        agentId: config.agentId,
+      });
+      alternatives = availability.available_slots.slice(0, config.maxSlots || 5).map((slot) => slot.start_time);
+    } catch (availabilityError) {
+      logger.error(`Error al buscar horarios alternativos: ${availabilityError}`);
+    }
+  }
+
+  state.context.available_slots = alternatives;
+  state.context.availability_date = retry.date;
+
+  const text = config.errorMessage
+    ? await renderAppointmentMessage(config.errorMessage, state)
+    : alternatives.length > 0
+      ? `${message}\n\nHorarios disponibles el ${retry.date}:\n${alternatives.map((slot, index) => `${index + 1}. ${slot}`).join("\n")}\n\nResponde con el número o la hora que prefieras.`
+      : `${message}\n\n¿Qué otra fecha u hora te gustaría?`;
+
+  return waitInNode(node, state, text);
+}
+
+/**
+ * Procesa un nodo de verificación de disponibilidad
+ * Ofrece los horarios del día solicitado (o del siguiente día con disponibilidad)
+ */
+export async function processCheckAvailabilityNode(
+  node: FlowNode,
+  flow: RuntimeFlow,
+  state: ExtendedFlowState,
+  onNodeVisit?: NodeVisitCallback
+): Promise<NodeProcessResult> {
+  const config = (node.metadata || node.data || {}) as AppointmentNodeMetadata;
+  const tenantId = state.tenantId || (state.context && state.context.tenantId) || 'default';
+  const dateVariable = config.dateVariable || REQUESTED_DATE_VARIABLE;
+
+  const { date } = resolveAppointmentDateTime(state, dateVariable, config.timeVariable || REQUESTED_TIME_VARIABLE);
+  if (!date) {
+    return waitInNode(node, state, "¿Para qué fecha te gustaría agendar tu cita?");
+  }
+
+  try {
+    const searchDays = config.searchDays || 7;
+    const availability = await findNextAvailability(tenantId, date, searchDays, {
+      appointmentTypeId: config.appointmentTypeId,
+      locationId: config.locationId,
+      agentId: config.agentId,
+    });
+
+    if (!availability) {
+      delete state.context[dateVariable];
+      state.context.available_slots = [];
+
+      const unavailableNodeId = config.errorNodeId || findExplicitHandleTarget(node, "unavailable");
+      if (unavailableNodeId) {
+        state.currentNodeId = unavailableNodeId;
+        return processNode(flow, state, onNodeVisit);
+      }
+
+      return waitInNode(
+        node,
+        state,
+        `No tenemos horarios disponibles entre el ${date} y los siguientes ${searchDays - 1} días. ¿Quieres intentar con otra fecha?`
+      );
+    }
+
+    const slots = availability.available_slots.slice(0, config.maxSlots || 5).map((slot) => slot.start_time);
+    state.context.available_slots = slots;
+    state.context.availability_date = availability.date;
+    state.context[dateVariable] = availability.date;
+
+    const intro = availability.date === date
+      ? `Estos son los horarios disponibles para el ${availability.date}:`
+      : `No hay horarios el ${date}, pero tenemos disponibilidad el ${availability.date}:`;
+    const text = config.message
+      ? await renderAppointmentMessage(config.message, state)
+      : `${intro}\n${slots.map((slot, index) => `${index + 1}. ${slot}`).join("\n")}\n\nResponde con el número o la hora que prefieras.`;
+
+    // Esperamos la elección del usuario en el siguiente nodo
+    const nextNodeId = config.successNodeId || findNextNodeByHandle(node, "available");
+    state.currentNodeId = nextNodeId || node.id;
+    state.history.push(text);
+
+    return { response: text, nextNodeId, shouldWait: true };
+  } catch (error) {
+    return handleAppointmentFailure(node, flow, state, config, error, {
+      timeVariable: config.timeVariable || REQUESTED_TIME_VARIABLE,
+    }, onNodeVisit);
+  }
+}
+
+/**
+ * Procesa un nodo de reserva de cita
+ */
+export async function processBookAppointmentNode(
+  node: FlowNode,
+  flow: RuntimeFlow,
+  state: ExtendedFlowState,
+  onNodeVisit?: NodeVisitCallback
+): Promise<NodeProcessResult> {
+  const config = (node.metadata || node.data || {}) as AppointmentNodeMetadata;
+  const tenantId = state.tenantId || (state.context && state.context.tenantId) || 'default';
+  const dateVariable = config.dateVariable || REQUESTED_DATE_VARIABLE;
+  const timeVariable = config.timeVariable || REQUESTED_TIME_VARIABLE;
+
+  const { date, time } = resolveAppointmentDateTime(state, dateVariable, timeVariable);
+  if (!date) {
+    return waitInNode(node, state, "¿Para qué fecha te gustaría agendar tu cita?");
+  }
+  if (!time) {
+    return waitInNode(node, state, `¿A qué hora te gustaría tu cita el ${date}?`);
+  }
+
+  try {
+    const context = state.context;
+    const appointment = await bookAppointment({
+      tenantId,
+      date,
+      startTime: time,
+      appointmentTypeId: config.appointmentTypeId,
+      agentId: config.agentId,
+      locationId: config.locationId,
+      propertyId: config.propertyId || context.property_id || context.propertyId,
+      leadId: state.leadId || state.lead_id || context.leadId || context.lead_id,
+      customerName: context.nombre || context.name || context.nombre_lead,
+      customerPhone: context.telefono || context.phone || state.userId,
+      customerEmail: context.email || context.correo,
+      source: "chatbot",
+      sessionId: state.sessionId,
+    });
+
+    // La solicitud ya se atendió: una nueva reserva en la sesión vuelve a preguntar fecha y hora
+    delete state.context[dateVariable];
+    delete state.context[timeVariable];
+    storeAppointmentInContext(state, appointment, config.appointmentIdVariable || "appointment_id");
+    state.context.available_slots = [];
+
+    const text = await renderAppointmentMessage(
+      config.message || "✅ Tu cita quedó agendada para el {{appointment_date}} a las {{appointment_time}}.",
+      state
+    );
+    const nextNodeId = config.successNodeId || findNextNodeByHandle(node, "success");
+
+    return continueWithMessage(text, nextNodeId, flow, state, onNodeVisit);
+  } catch (error) {
+    return handleAppointmentFailure(node, flow, state, config, error, { date, timeVariable }, onNodeVisit);
+  }
+}
+
+/**
+ * Procesa un nodo de reprogramación de cita
+ * La nueva fecha y hora se leen de reschedule_date / reschedule_time por defecto
+ */
+export async function processRescheduleAppointmentNode(
+  node: FlowNode,
+  flow: RuntimeFlow,
+  state: ExtendedFlowState,
+  onNodeVisit?: NodeVisitCallback
+): Promise<NodeProcessResult> {
+  const config = (node.metadata || node.data || {}) as AppointmentNodeMetadata;
+  const tenantId = state.tenantId || (state.context && state.context.tenantId) || 'default';
+  const dateVariable = config.dateVariable || "reschedule_date";
+  const timeVariable = config.timeVariable || "reschedule_time";
+
+  try {
+    const appointmentId = await resolveAppointmentId(state, config, tenantId);
+    if (!appointmentId) {
+      const text = "No encontramos una cita activa para reprogramar.";
+      const errorNodeId = config.errorNodeId || findExplicitHandleTarget(node, "error");
+      return continueWithMessage(text, errorNodeId, flow, state, onNodeVisit);
+    }
+
+    const { date, time } = resolveAppointmentDateTime(state, dateVariable, timeVariable);
+    if (!date) {
+      return waitInNode(node, state, "¿Para qué nueva fecha quieres mover tu cita?");
+    }
+    if (!time) {
+      return waitInNode(node, state, `¿A qué hora te gustaría tu cita el ${date}?`);
+    }
+
+    try {
+      const appointment = await rescheduleAppointment(tenantId, appointmentId, {
+        date,
+        startTime: time,
+        agentId: config.agentId,
+      });
+
+      delete state.context[dateVariable];
+      delete state.context[timeVariable];
+      storeAppointmentInContext(state, appointment, config.appointmentIdVariable || "appointment_id");
+      state.context.available_slots = [];
+
+      const text = await renderAppointmentMessage(
+        config.message || "🔄 Tu cita fue reprogramada para el {{appointment_date}} a las {{appointment_time}}.",
+        state
+      );
+      const nextNodeId = config.successNodeId || findNextNodeByHandle(node, "success");
+
+      return continueWithMessage(text, nextNodeId, flow, state, onNodeVisit);
+    } catch (error) {
+      return handleAppointmentFailure(node, flow, state, config, error, { date, timeVariable }, onNodeVisit);
+    }
+  } catch (error) {
+    return handleAppointmentFailure(node, flow, state, config, error, { timeVariable }, onNodeVisit);
+  }
+}
+
+/**
+ * Procesa un nodo de cancelación de cita
+ */
+export async function processCancelAppointmentNode(
+  node: FlowNode,
+  flow: RuntimeFlow,
+  state: ExtendedFlowState,
+  onNodeVisit?: NodeVisitCallback
+): Promise<NodeProcessResult> {
+  const config = (node.metadata || node.data || {}) as AppointmentNodeMetadata;
+  const tenantId = state.tenantId || (state.context && state.context.tenantId) || 'default';
+
+  try {
+    const appointmentId = await resolveAppointmentId(state, config, tenantId);
+    if (!appointmentId) {
+      const text = "No encontramos una cita activa para cancelar.";
+      const errorNodeId = config.errorNodeId || findExplicitHandleTarget(node, "error");
+      return continueWithMessage(text, errorNodeId, flow, state, onNodeVisit);
+    }
+
+    const appointment = await cancelAppointment(
+      tenantId,
+      appointmentId,
+      config.reason || "Cancelada por el cliente desde el chat"
+    );
+
+    storeAppointmentInContext(state, appointment, config.appointmentIdVariable || "appointment_id");
+
+    const text = await renderAppointmentMessage(
+      config.message || "Tu cita del {{appointment_date}} a las {{appointment_time}} fue cancelada.",
+      state
+    );
+    const nextNodeId = config.successNodeId || findNextNodeByHandle(node, "success");
+
+    return continueWithMessage(text, nextNodeId, flow, state, onNodeVisit);
+  } catch (error) {
+    return handleAppointmentFailure(node, flow, state, config, error, {
+      timeVariable: config.timeVariable || REQUESTED_TIME_VARIABLE,
+    }, onNodeVisit);
+  }
+}
+
 /**
  * Procesa un nodo de tipo entrada
  */
@@ -986,12 +1559,34 @@ export async function processInputNode(
   state.history.push(node.content);
   logger.info(`Procesando nodo de entrada ${node.id}: "${node.content}"`);
 
-  // Si hay un nombre de variable en los metadatos, guardamos el mensaje del usuario
-  if (node.metadata?.variableName) {
-    const varName = node.metadata.variableName as string;
-    state.context[varName] = state.context.lastUserMessage;
-    logger.debug(`Entrada: Guardando mensaje en variable ${varName}`);
+  const varName = node.metadata?.variableName as string | undefined;
+  const pendingSlots: Record<string, any> = state.context.extractedSlots || {};
+
+  if (varName && isAnsweredSlotInput(node, state)) {
+    // El valor se extrajo de una respuesta anterior: no lo sobrescribimos con el mensaje actual
+    delete pendingSlots[varName];
+    logger.debug(`Entrada: Variable ${varName} ya capturada, se omite el nodo`);
+  } else {
+    // Extraemos los datos declarados en el nodo (p. ej. nombre, correo y tipo de propiedad en un solo mensaje)
+    const extracted = extractNodeSlots(state.context.lastUserMessage || "", node.metadata?.slots, varName);
+
+    for (const [slotName, value] of Object.entries(extracted)) {
+      if (slotName === varName) continue;
+      state.context[slotName] = value;
+      pendingSlots[slotName] = value;
+    }
+    if (Object.keys(extracted).length > 0) {
+      logger.debug(`Entrada: Datos extraídos del mensaje: ${Object.keys(extracted).join(", ")}`);
+    }
+
+    // Si hay un nombre de variable en los metadatos, guardamos el dato extraído o el mensaje del usuario
+    if (varName) {
+      state.context[varName] = extracted[varName] ?? state.context.lastUserMessage;
+      delete pendingSlots[varName];
+      logger.debug(`Entrada: Guardando mensaje en variable ${varName}`);
+    }
   }
+  state.context.extractedSlots = pendingSlots;
 
   // Obtenemos el siguiente nodo
   const nextNodeId = getNextNodeId(node);
@@ -1023,6 +1618,20 @@ export async function processInputNode(
   };
 }
 
+/**
+ * Indica si un nodo es de entrada y su variable ya se llenó con datos extraídos
+ * de una respuesta anterior (pendiente de consumir)
+ */
+function isAnsweredSlotInput(node: FlowNode | undefined, state: ExtendedFlowState): boolean {
+  if (!node) return false;
+  const nodeType = normalizeNodeType(node.type);
+  if (nodeType !== NodeType.INPUT && nodeType !== NodeType.INPUT_NODE) return false;
+
+  const varName = node.metadata?.variableName as string | undefined;
+  const pendingSlots: Record<string, any> = state.context.extractedSlots || {};
+  return !!varName && varName in pendingSlots && isSlotFilled(state.context[varName]);
+}
+
 /**
  * Procesa un nodo de Text-to-Speech
  */
@@ -1139,28 +1748,29 @@ export async function processAINode(
 
     // Configuración para API de IA
     const aiSettings = {
-      model: node.metadata?.model || "gpt-4o-mini",
-      temperature: node.metadata?.temperature || 0.7,
+      model: node.metadata?.model, // Sin modelo se usa el del proveedor (o el del tenant)
+      temperature: node.metadata?.temperature ?? config.openai.temperature ?? 0.7,
       systemPrompt: node.metadata?.systemPrompt || "",
       prompt: node.metadata?.prompt || "",
-      maxTokens: node.metadata?.maxTokens || 500
+      maxTokens: node.metadata?.maxTokens || config.openai.maxTokens || 500
     };
 
-    // INTEGRACIÓN CON OPENAI - Llamada real a la API en modo "auto"
+    // INTEGRACIÓN CON LLM - Llamada real al proveedor en modo "auto"
     if (isAutoMode) {
       try {
-        logger.info(`Nodo IA ${node.id} configurado en modo AUTO - Llamando a OpenAI`);
+        logger.info(`Nodo IA ${node.id} configurado en modo AUTO - Llamando al proveedor de LLM`);
 
         // Importamos dinámicamente para evitar ciclos de dependencia
-        const AIServices = (await import('../services/aiServices')).default;
-
-        // Verificamos que tengamos la API Key configurada
-        if (!process.env.OPENAI_API_KEY) {
-          throw new Error("API Key de OpenAI no configurada en variables de entorno");
-        }
+        const { LLMService } = await import('./llm');
+        const llm = LLMService.getInstance();
+        const tenantId = state.tenantId || (state.context && state.context.tenantId) || 'default';
 
-        // Inicializamos el servicio de IA
-        const aiService = new AIServices(process.env.OPENAI_API_KEY);
+        // Proveedor del nodo; si no tiene, el del tenant y los de respaldo
+        const llmOptions = {
+          tenantId,
+          provider: node.metadata?.llmProvider,
+          fallbackProviders: node.metadata?.llmFallbackProviders,
+        };
 
         // Construir el prompt completo
         let prompt = aiSettings.systemPrompt || "";
@@ -1173,19 +1783,128 @@ export async function processAINode(
           prompt = "Eres un asistente virtual amable y útil. Responde de manera concisa y profesional.";
         }
 
-        // Crear el historial de mensajes para la API
-        const messages = [
+        // Agregamos los fragmentos relevantes de la base de conocimiento del tenant
+        if (node.metadata?.useKnowledgeBase && userMessage) {
+          const { getKnowledgeContext } = await import('./knowledgeBase');
+          const knowledge = await getKnowledgeContext(tenantId, userMessage, node.metadata.knowledgeBaseTopK);
+
+          if (knowledge.prompt) {
+            prompt += "\n\n" + knowledge.prompt;
+            promptTokens += Math.ceil(knowledge.prompt.length / 4);
+          }
+          state.context.knowledgeCitations = knowledge.passages.map((passage) => ({
+            citation: passage.citation,
+            documentId: passage.documentId,
+            title: passage.title,
+            heading: passage.heading,
+            page: passage.page,
+            source: passage.source,
+          }));
+          logger.info(`Nodo IA ${node.id}: ${knowledge.passages.length} fragmentos de la base de conocimiento`);
+        }
+
+        // Crear el historial de mensajes para la API (ventana de la sesión + resumen)
+        let messages: LLMMessage[] = [
           { role: "user", content: userMessage }
         ];
 
-        // Obtenemos respuesta real de OpenAI
-        responseText = await aiService.chat(prompt, messages);
-        logger.info(`OpenAI respondió con éxito: "${responseText.substring(0, 50)}..."`);
+        if (node.metadata?.useConversationMemory !== false) {
+          const { loadConversationMemory, getDefaultMemoryOptions, formatSummaryForPrompt } =
+            await import('./conversationMemory');
+          const defaults = getDefaultMemoryOptions();
+          const memory = await loadConversationMemory(
+            state.context.sessionId || state.sessionId,
+            userMessage,
+            async (summaryPrompt, summaryMessages) =>
+              (await llm.complete({
+                systemPrompt: summaryPrompt,
+                messages: summaryMessages,
+                model: aiSettings.model,
+                temperature: 0.3,
+                maxTokens: config.conversationMemory.summaryMaxTokens,
+              }, llmOptions)).text,
+            {
+              ...defaults,
+              maxMessages: node.metadata.memoryMaxMessages ?? defaults.maxMessages,
+              maxTokens: node.metadata.memoryMaxTokens ?? defaults.maxTokens,
+            },
+            Array.isArray(state.context.conversationHistory) ? state.context.conversationHistory : [],
+            state.context.conversationSummary || null
+          );
+
+          // Sin historial en la sesión persistente el resumen se guarda junto al historial del contexto
+          if (!memory.fromSession && memory.summary) {
+            state.context.conversationSummary = memory.summary;
+          }
 
-        // Calcular tokens de salida
-        outputTokens = Math.ceil(responseText.length / 4);
-      } catch (openaiError) {
-        logger.error(`Error al llamar a OpenAI: ${openaiError}`);
+          const summaryPrompt = formatSummaryForPrompt(memory.summary);
+          if (summaryPrompt) {
+            prompt += "\n\n" + summaryPrompt;
+          }
+          messages = memory.messages;
+          inputTokens = memory.tokens;
+          logger.debug(`Nodo IA ${node.id}: ${messages.length - 1} mensajes previos en la ventana${memory.summary ? " y resumen" : ""}`);
+        }
+
+        const llmRequest = {
+          systemPrompt: prompt,
+          messages,
+          model: aiSettings.model,
+          temperature: aiSettings.temperature,
+          maxTokens: aiSettings.maxTokens,
+        };
+
+        // Obtenemos respuesta real con la configuración del nodo
+        let completion;
+        let toolResultsText = "";
+        if (Array.isArray(node.metadata?.aiTools) && node.metadata.aiTools.length > 0) {
+          // El modelo puede consultar datos reales y guardar lo capturado en variables
+          const { completeWithTools, getAIToolDefinitions } = await import('./aiTools');
+          const toolResult = await completeWithTools(
+            llm,
+            { ...llmRequest, tools: getAIToolDefinitions(node.metadata.aiTools) },
+            llmOptions,
+            { tenantId, state, node }
+          );
+          completion = toolResult.response;
+          Object.assign(state.context, toolResult.contextUpdates);
+          state.context.aiToolCalls = toolResult.executions.map((execution) => ({
+            name: execution.call.name,
+            arguments: execution.call.arguments,
+            success: execution.result.success,
+          }));
+
+          toolResultsText = JSON.stringify(toolResult.executions.map((execution) => execution.result.data ?? null));
+
+          // Consumo de todas las rondas con herramientas
+          inputTokens = toolResult.totalTokens - completion.usage.completionTokens;
+        } else {
+          completion = await llm.complete(llmRequest, llmOptions);
+          // El consumo del proveedor ya incluye el prompt de sistema y el historial
+          inputTokens = completion.usage.promptTokens;
+        }
+        responseText = completion.text;
+        logger.info(`${completion.provider} (${completion.model}) respondió con éxito: "${responseText.substring(0, 50)}..."`);
+
+        // Validamos la respuesta antes de enviarla (datos de otros leads, temas prohibidos, precios, longitud)
+        const { applyGuardrails } = await import('./aiGuardrails');
+        const guarded = await applyGuardrails(responseText, {
+          tenantId,
+          state,
+          node,
+          sourceText: [prompt, ...messages.map((message) => message.content), toolResultsText].join("\n"),
+        });
+        responseText = guarded.response;
+        if (!guarded.allowed) {
+          state.context.guardrailViolations = guarded.violations.map((violation) => violation.check);
+        }
+
+        outputTokens = completion.usage.completionTokens;
+        promptTokens = 0;
+        systemPromptTokens = 0;
+        state.context.lastLLMProvider = completion.provider;
+      } catch (llmError) {
+        logger.error(`Error al llamar al proveedor de LLM: ${llmError}`);
 
         // En caso de error, caemos a una respuesta fallback
         responseText = `Lo siento, estoy teniendo problemas para procesar tu solicitud. ¿Podrías intentarlo de nuevo?`;
@@ -1305,13 +2024,49 @@ export async function processAINode(
   }
 }
 
+// Tipos de condición que requieren análisis NLU del mensaje
+const NLU_CONDITION_TYPES: string[] = [
+  ConditionType.INTENT_IS,
+  ConditionType.SENTIMENT_IS,
+  ConditionType.ENTITY_PRESENT,
+  ConditionType.ENTITY_EXISTS,
+  ConditionType.ENTITY_VALUE,
+];
+
+/**
+ * Obtiene el análisis NLU del mensaje, reutilizando el del contexto si corresponde
+ * al mismo mensaje o calculándolo con el clasificador local
+ */
+function getNLUResult(message: string, context: Record<string, any>): NLUResult {
+  const cached = context.nlu as NLUResult | undefined;
+  if (cached && cached.message === message) return cached;
+  return analyzeMessageSync(message, context.tenantId || "default");
+}
+
+/**
+ * Construye las variables disponibles para las expresiones de condición:
+ * variables del estado, contexto y datos del lead (accesibles como "lead.campo")
+ */
+export function buildExpressionScope(state: ExtendedFlowState): Record<string, any> {
+  const context = state.context || {};
+  return {
+    ...(state.variables || {}),
+    ...context,
+    lead: { ...(state.variables?.lead || {}), ...(context.lead || {}) },
+    leadStage: state.currentLeadStage || context.currentLeadStage,
+    message: context.lastUserMessage || "",
+  };
+}
+
 /**
  * Evalúa una condición contra un mensaje de usuario
+ * @param scope Variables para condiciones EXPRESSION (por defecto, el contexto)
  */
 export function evaluateCondition(
   condition: Condition,
   message: string,
-  context: Record<string, any>
+  context: Record<string, any>,
+  scope?: Record<string, any>
 ): boolean {
   try {
     // Aseguramos que message y value sean strings
@@ -1347,26 +2102,31 @@ export function evaluateCondition(
       case ConditionType.CONTEXT_HAS:
         return valueStr in context;
 
-      case ConditionType.CONTEXT_VALUE:
-        // Formato esperado: "variable=valor"
-        const [variable, value] = valueStr.split("=");
-        return context[variable] === value;
+      case ConditionType.CONTEXT_VALUE: {
+        // Formato esperado: "variable=valor" (el valor puede contener "=", p. ej. una URL)
+        const separator = valueStr.indexOf("=");
+        if (separator < 0) return false;
+        return context[valueStr.slice(0, separator)] === valueStr.slice(separator + 1);
+      }
+
+      case ConditionType.EXPRESSION:
+        return evaluateExpression(valueStr, { message: messageStr, ...(scope || context) });
 
       case ConditionType.INTENT_IS:
-        // Requeriría integración con sistema de NLU
-        // Por ahora devolvemos false
-        logger.warn(`Condición INTENT_IS no implementada`);
-        return false;
+        return matchesIntent(getNLUResult(messageStr, context), valueStr, condition.minConfidence);
 
       case ConditionType.SENTIMENT_IS:
-        // Requeriría integración con análisis de sentimiento
-        logger.warn(`Condición SENTIMENT_IS no implementada`);
-        return false;
+        return matchesSentiment(getNLUResult(messageStr, context), valueStr);
 
       case ConditionType.ENTITY_PRESENT:
-        // Requeriría integración con extracción de entidades
-        logger.warn(`Condición ENTITY_PRESENT no implementada`);
-        return false;
+      case ConditionType.ENTITY_EXISTS:
+        return hasEntity(getNLUResult(messageStr, context), valueStr);
+
+      case ConditionType.ENTITY_VALUE: {
+        // Formato esperado: "entidad=valor"
+        const [entityType, ...rest] = valueStr.split("=");
+        return entityHasValue(getNLUResult(messageStr, context), entityType.trim(), rest.join("=").trim());
+      }
 
       case ConditionType.DEFAULT:
         // Condición por defecto, siempre se cumple
@@ -3,8 +3,8 @@
  *
  * Repositorio para acceso a datos de flujos.
  * Gestiona la comunicación con la base de datos para los flujos.
- * @version 1.1.0
- * @updated 2025-04-28
+ * @version 1.1.1
+ * @updated 2025-06-17
  */
 
 import {
@@ -13,6 +13,7 @@ import {
   RuntimeFlow,
   FlowCreateData,
   FlowUpdateData,
+  FlowSnapshot,
 } from "../models/flow.types";
 import { getSupabaseClient } from "./supabase";
 import { config } from "../config"; // Asumiendo que config se usa aquí
@@ -90,6 +91,9 @@ export async function getFlowById(flowId: string): Promise<Flow | null> {
       author: flow.author,
       parentTemplateId: flow.parent_template_id, // Mapear a camelCase
       editPermission: flow.edit_permission, // Mapear a camelCase
+      publishedVersionId: flow.published_version_id || undefined,
+      parentTemplateVersion: flow.parent_template_version || undefined,
+      parentTemplateSnapshot: flow.parent_template_snapshot || undefined,
     };
   } catch (error) {
     logger.error(`Excepción al obtener flujo ${flowId}:`, error);
@@ -404,6 +408,7 @@ export function transformToRuntimeFlow(
     id: flow.id,
     name: flow.name,
     version: flow.version,
+    versionId: flow.publishedVersionId,
     nodes: flow.nodes,
     entryNodeId: flow.entryNodeId,
     tenantId: flow.tenantId,
@@ -616,6 +621,9 @@ export async function getActiveTenantFlow(
       author: flowData.author,
       parentTemplateId: flowData.parent_template_id, // Mapear a camelCase
       editPermission: flowData.edit_permission, // Mapear a camelCase
+      publishedVersionId: flowData.published_version_id || undefined,
+      parentTemplateVersion: flowData.parent_template_version || undefined,
+      parentTemplateSnapshot: flowData.parent_template_snapshot || undefined,
     };
   } catch (error) {
     logger.error(
@@ -626,6 +634,174 @@ export async function getActiveTenantFlow(
   }
 }
 
+/**
+ * Marca la versión publicada de un flujo
+ * @param flowId ID del flujo
+ * @param versionId ID de la versión en flow_versions
+ * @param version Etiqueta de la versión (se copia a flows.version)
+ * @returns true si fue exitoso
+ */
+export async function setPublishedVersion(
+  flowId: string,
+  versionId: string,
+  version: string
+): Promise<boolean> {
+  try {
+    const supabase = getSupabaseClient();
+    const { error } = await supabase
+      .from("flows")
+      .update({
+        published_version_id: versionId,
+        version,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", flowId);
+
+    if (error) {
+      logger.error(`Error al publicar versión ${versionId} del flujo ${flowId}:`, error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    logger.error(`Excepción al publicar versión del flujo ${flowId}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Guarda el contenido de la plantilla padre con el que se sincronizó un flujo
+ * (base para el merge de tres vías con futuras versiones de la plantilla)
+ * @param flowId ID del flujo
+ * @param snapshot Contenido de la plantilla
+ * @param version Versión de la plantilla
+ * @returns true si fue exitoso
+ */
+export async function setTemplateBase(
+  flowId: string,
+  snapshot: FlowSnapshot,
+  version: string
+): Promise<boolean> {
+  try {
+    const supabase = getSupabaseClient();
+    const { error } = await supabase
+      .from("flows")
+      .update({
+        parent_template_snapshot: snapshot,
+        parent_template_version: version,
+      })
+      .eq("id", flowId);
+
+    if (error) {
+      logger.error(`Error al guardar la base de plantilla del flujo ${flowId}:`, error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    logger.error(`Excepción al guardar la base de plantilla del flujo ${flowId}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Aplica un merge de plantilla en una sola transacción (función apply_flow_template_merge):
+ * reemplaza los nodos, actualiza el nodo de entrada y guarda la nueva base de plantilla
+ * @param flowId ID del flujo
+ * @param entryNodeId Nodo de entrada resultante
+ * @param nodes Nodos completos del flujo
+ * @param snapshot Contenido de la plantilla aplicada
+ * @param version Versión de la plantilla aplicada
+ * @returns true si fue exitoso
+ */
+export async function applyTemplateMerge(
+  flowId: string,
+  entryNodeId: string,
+  nodes: Record<string, FlowNode>,
+  snapshot: FlowSnapshot,
+  version: string
+): Promise<boolean> {
+  try {
+    const supabase = getSupabaseClient();
+    const { error } = await supabase.rpc("apply_flow_template_merge", {
+      p_flow_id: flowId,
+      p_entry_node_id: entryNodeId,
+      p_nodes: Object.values(nodes).map((node) => ({
+        id: node.id,
+        type: node.type,
+        content: node.content,
+        metadata: node.metadata,
+        next: node.next,
+        x: node.x,
+        y: node.y,
+      })),
+      p_template_snapshot: snapshot,
+      p_template_version: version,
+    });
+
+    if (error) {
+      logger.error(`Error al aplicar el merge de plantilla del flujo ${flowId}:`, error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    logger.error(`Excepción al aplicar el merge de plantilla del flujo ${flowId}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Reemplaza todos los nodos de un flujo (elimina los que ya no existen)
+ * @param flowId ID del flujo
+ * @param nodes Nodos completos del flujo
+ * @returns true si fue exitoso
+ */
+export async function replaceFlowNodes(
+  flowId: string,
+  nodes: Record<string, FlowNode>
+): Promise<boolean> {
+  try {
+    const supabase = getSupabaseClient();
+    const nodeIds = Object.keys(nodes);
+
+    if (nodeIds.length > 0) {
+      const { error: upsertError } = await supabase.from("flow_nodes").upsert(
+        Object.values(nodes).map((node) => ({
+          id: node.id,
+          flow_id: flowId,
+          type: node.type,
+          content: node.content,
+          metadata: node.metadata,
+          next: node.next,
+          x: node.x,
+          y: node.y,
+        })),
+        { onConflict: "id, flow_id" }
+      );
+
+      if (upsertError) {
+        logger.error(`Error al restaurar nodos del flujo ${flowId}:`, upsertError);
+        return false;
+      }
+    }
+
+    // Eliminamos los nodos que no forman parte del contenido restaurado
+    let deleteQuery = supabase.from("flow_nodes").delete().eq("flow_id", flowId);
+    if (nodeIds.length > 0) {
+      deleteQuery = deleteQuery.not("id", "in", `(${nodeIds.map((id) => `"${id}"`).join(",")})`);
+    }
+    const { error: deleteError } = await deleteQuery;
+
+    if (deleteError) {
+      logger.error(`Error al eliminar nodos sobrantes del flujo ${flowId}:`, deleteError);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    logger.error(`Excepción al reemplazar nodos del flujo ${flowId}:`, error);
+    return false;
+  }
+}
+
 // Añadir aquí cualquier otra función de repositorio necesaria...
 // Por ejemplo, una función para actualizar solo nodos:
 /**
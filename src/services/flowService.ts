@@ -3,9 +3,10 @@
  *
  * Servicio para la gestión de flujos conversacionales.
  * Se encarga de coordinar la carga, validación y ejecución de flujos dinámicos.
- * Incluye soporte para plantillas personalizadas y métricas de consumo.
- * @version 1.3.0
- * @updated 2025-04-26
+ * Incluye soporte para plantillas personalizadas, métricas de consumo
+ * y ejecución de versiones publicadas.
+ * @version 1.5.0
+ * @updated 2025-06-17
  */
 
 import {
@@ -15,11 +16,15 @@ import {
   FlowUpdateData,
   Flow,
   FlowNode, // Añadir FlowNode
+  FlowVersion,
 } from "../models/flow.types";
 import { validateFlow } from "./flowValidator";
 import { processFlowMessage } from "./flowProcessor";
 import * as FlowRepository from "./flowRepository";
+import * as FlowVersionService from "./flowVersionService";
+import { prewarmFlowAudio } from "./tts";
 import logger from "../utils/logger";
+import { config } from "../config";
 
 // Interfaz para métricas de procesamiento
 export interface ProcessingMetrics {
@@ -108,8 +113,11 @@ export class FlowService {
         return null;
       }
 
-      // Convertimos a formato runtime
-      const runtimeFlow = FlowRepository.transformToRuntimeFlow(flow);
+      // Ejecutamos la versión publicada; sin versiones se usa el borrador
+      const runtimeFlow = flow.publishedVersionId
+        ? (await this.getFlowVersionRuntime(flow.publishedVersionId)) ||
+          FlowRepository.transformToRuntimeFlow(flow)
+        : FlowRepository.transformToRuntimeFlow(flow);
 
       // Guardamos en caché
       this.flowCache.set(cacheKey, runtimeFlow);
@@ -125,6 +133,35 @@ export class FlowService {
     }
   }
 
+  /**
+   * Obtiene una versión publicada en formato runtime
+   * Las versiones son inmutables, por lo que se pueden mantener en caché
+   * @param versionId ID de la versión
+   * @returns Flujo runtime de la versión o null si no existe
+   */
+  async getFlowVersionRuntime(versionId: string): Promise<RuntimeFlow | null> {
+    const cacheKey = `version-${versionId}`;
+    if (this.flowCache.has(cacheKey)) {
+      return this.flowCache.get(cacheKey) || null;
+    }
+
+    try {
+      const version = await FlowVersionService.getFlowVersion(versionId);
+      if (!version) {
+        logger.warn(`Versión de flujo ${versionId} no encontrada`);
+        return null;
+      }
+
+      const runtimeFlow = FlowVersionService.versionToRuntimeFlow(version);
+      this.flowCache.set(cacheKey, runtimeFlow);
+      this.cacheTimestamps.set(cacheKey, Date.now());
+      return runtimeFlow;
+    } catch (error) {
+      logger.error(`Error al cargar versión de flujo ${versionId}:`, error);
+      return null;
+    }
+  }
+
   /**
    * Crea un nuevo flujo en la base de datos
    * @param flowData Datos del flujo a crear (sin nodos)
@@ -181,8 +218,12 @@ export class FlowService {
       // Validamos el flujo completo
       validateFlow(updatedFlow);
 
-      // Actualizamos el flujo en la base de datos
-      const success = await FlowRepository.updateFlow(flowId, flowData);
+      // Congelamos el contenido actual antes de la primera edición para que
+      // las conversaciones en curso no se vean afectadas por el borrador
+      await FlowVersionService.ensureBaselineVersion(currentFlow);
+
+      // Actualizamos el borrador en la base de datos
+      const success = await FlowRepository.updateFlow(flowId, flowData, flowData.nodes);
 
       if (success) {
         // Invalidamos la caché para este tenant
@@ -251,6 +292,13 @@ export class FlowService {
         const cacheKey = `tenant-${flow.tenantId}`;
         this.flowCache.delete(cacheKey);
         this.cacheTimestamps.delete(cacheKey);
+
+        // Pre-renderizamos en segundo plano el audio de sus mensajes fijos
+        if (config.tts.cache.enabled && config.tts.cache.prewarmOnActivate) {
+          this.getFlowByTenant(flow.tenantId)
+            .then((runtimeFlow) => runtimeFlow && prewarmFlowAudio(runtimeFlow))
+            .catch((error) => logger.error(`Error al pre-renderizar audio del flujo ${flowId}:`, error));
+        }
       }
 
       return success;
@@ -260,6 +308,38 @@ export class FlowService {
     }
   }
 
+  /**
+   * Publica el borrador de un flujo como una nueva versión
+   * @param flowId ID del flujo
+   * @param options Notas, autor y etiqueta opcional
+   * @returns Versión publicada
+   */
+  async publishFlow(
+    flowId: string,
+    options: { notes?: string; publishedBy?: string; version?: string } = {}
+  ): Promise<FlowVersion> {
+    const version = await FlowVersionService.publishFlow(flowId, options);
+    this.clearCache(`tenant-${version.tenantId}`);
+    return version;
+  }
+
+  /**
+   * Restaura una versión publicada anterior
+   * @param flowId ID del flujo
+   * @param ref Número o ID de la versión
+   * @param options restoreDraft reemplaza también el borrador
+   * @returns Versión restaurada
+   */
+  async rollbackFlow(
+    flowId: string,
+    ref: string,
+    options: { restoreDraft?: boolean } = {}
+  ): Promise<FlowVersion> {
+    const version = await FlowVersionService.rollbackFlow(flowId, ref, options);
+    this.clearCache(`tenant-${version.tenantId}`);
+    return version;
+  }
+
   /**
    * Consulta los flujos de un tenant
    * @param tenantId ID del tenant
@@ -299,8 +379,13 @@ export class FlowService {
       let tokensUsed = 0;
 
       // Si se proporciona un flujo runtime directamente, lo usamos
-      // Esto es útil para pruebas sin necesidad de guardar el flujo
-      const flow = runtimeFlow || (await this.getFlowByTenant(tenantId));
+      // Esto es útil para pruebas sin necesidad de guardar el flujo.
+      // Las sesiones en curso continúan con la versión con la que iniciaron
+      const pinnedFlow =
+        !runtimeFlow && prevState?.flowVersionId
+          ? await this.getFlowVersionRuntime(prevState.flowVersionId)
+          : null;
+      const flow = runtimeFlow || pinnedFlow || (await this.getFlowByTenant(tenantId));
 
       if (!flow) {
         logger.warn(
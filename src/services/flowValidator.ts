@@ -9,6 +9,7 @@
 
 import { Flow, FlowCreateData, FlowNode, NodeType, ConditionType } from "../models/flow.types";
 import logger from "../utils/logger";
+import { validateExpression } from "../utils/conditionExpression";
 
 /**
  * Valida un flujo para asegurar que es consistente y no tiene errores
@@ -95,6 +96,9 @@ export function validateFlow(flow: Flow | FlowCreateData): void {
   // 6. Verificar que no hay nodos aislados (sin entrada ni salida)
   checkForIsolatedNodes(flow.nodes, flow.entryNodeId);
 
+  // 7. Verificar la sintaxis de las expresiones de condición
+  validateConditionExpressions(flow.nodes);
+
   logger.info(`Flujo "${flow.name}" validado correctamente`);
 }
 
@@ -199,7 +203,7 @@ function validateNodeTypes(nodes: Record<string, FlowNode>): void {
  * @param type Tipo de nodo a normalizar
  * @returns Tipo de nodo normalizado
  */
-function normalizeNodeType(type: string): string {
+export function normalizeNodeType(type: string): string {
   // Mapa de tipos equivalentes
   const typeMap: Record<string, string> = {
     'startNode': NodeType.START,
@@ -277,6 +281,28 @@ function checkForIsolatedNodes(
   }
 }
 
+/**
+ * Verifica que las expresiones de las condiciones tengan una sintaxis válida
+ * @param nodes Nodos del flujo
+ * @throws Error si alguna expresión no es válida
+ */
+function validateConditionExpressions(nodes: Record<string, FlowNode>): void {
+  for (const nodeId in nodes) {
+    const next = nodes[nodeId].next;
+    if (!Array.isArray(next)) continue;
+
+    for (const conditional of next) {
+      const condition = conditional.condition;
+      if (!condition || condition.type !== ConditionType.EXPRESSION) continue;
+
+      const result = validateExpression(String(condition.value ?? ""));
+      if (!result.valid) {
+        throw new Error(`Expresión de condición inválida en el nodo ${nodeId}: ${result.error}`);
+      }
+    }
+  }
+}
+
 /**
  * Valida la sintaxis de una expresión regular
  * @param pattern Patrón de expresión regular
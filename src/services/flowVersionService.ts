@@ -0,0 +1,448 @@
+/**
+ * src/services/flowVersionService.ts
+ *
+ * Versionado de flujos: borrador, publicación, diferencias y rollback.
+ * Los nodos de las tablas flows/flow_nodes son el borrador editable; al publicar
+ * se congela una copia inmutable en flow_versions y el runtime ejecuta esa copia.
+ * Las sesiones en curso conservan la versión con la que iniciaron.
+ * @version 1.0.1
+ * @created 2025-06-09
+ * @updated 2025-06-17
+ */
+
+import {
+  Flow,
+  FlowNode,
+  FlowSnapshot,
+  FlowVersion,
+  RuntimeFlow,
+} from "../models/flow.types";
+import { getSupabaseClient } from "./supabase";
+import { validateFlow } from "./flowValidator";
+import * as FlowRepository from "./flowRepository";
+import logger from "../utils/logger";
+
+/**
+ * Códigos de error del versionado
+ */
+export type FlowVersionErrorCode = "NOT_FOUND" | "INVALID_FLOW" | "CONFLICT" | "DB_ERROR";
+
+export class FlowVersionError extends Error {
+  constructor(public code: FlowVersionErrorCode, message: string) {
+    super(message);
+    this.name = "FlowVersionError";
+  }
+}
+
+/**
+ * Cambio de un campo entre dos versiones
+ */
+export interface FieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+/**
+ * Diferencias entre dos contenidos de un flujo
+ */
+export interface FlowDiff {
+  from: string;
+  to: string;
+  flowChanges: FieldChange[];
+  addedNodes: string[];
+  removedNodes: string[];
+  changedNodes: Array<{ nodeId: string; changes: FieldChange[] }>;
+  summary: { added: number; removed: number; changed: number; unchanged: number };
+}
+
+/**
+ * Referencia a un contenido del flujo: "draft", "published", número de versión o ID
+ */
+export type FlowVersionRef = string;
+
+// Campos del nodo que definen su comportamiento (x/y son solo de diseño)
+const NODE_FIELDS: Array<keyof FlowNode> = ["type", "content", "metadata", "next", "isEditable"];
+const LAYOUT_FIELDS: Array<keyof FlowNode> = ["x", "y"];
+
+/**
+ * Serializa un valor con las claves ordenadas para comparar contenidos
+ */
+function stableStringify(value: any): string {
+  if (value === undefined || value === null) return "null";
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (typeof value === "object") {
+    return `{${Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Compara dos valores por contenido (sin importar el orden de las claves)
+ */
+export function isSameContent(a: any, b: any): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+/**
+ * Calcula las diferencias entre dos contenidos de un flujo
+ * @param from Contenido base
+ * @param to Contenido a comparar
+ * @param options includeLayout compara también las posiciones x/y
+ */
+export function diffFlowSnapshots(
+  from: FlowSnapshot,
+  to: FlowSnapshot,
+  options: { fromLabel?: string; toLabel?: string; includeLayout?: boolean } = {}
+): FlowDiff {
+  const flowChanges: FieldChange[] = [];
+  for (const field of ["name", "description", "entryNodeId"] as Array<keyof FlowSnapshot>) {
+    if (!isSameContent(from[field], to[field])) {
+      flowChanges.push({ field, before: from[field] ?? null, after: to[field] ?? null });
+    }
+  }
+
+  const fromNodes = from.nodes || {};
+  const toNodes = to.nodes || {};
+  const fields = options.includeLayout ? [...NODE_FIELDS, ...LAYOUT_FIELDS] : NODE_FIELDS;
+
+  const addedNodes = Object.keys(toNodes).filter((id) => !fromNodes[id]).sort();
+  const removedNodes = Object.keys(fromNodes).filter((id) => !toNodes[id]).sort();
+  const changedNodes: FlowDiff["changedNodes"] = [];
+  let unchanged = 0;
+
+  for (const nodeId of Object.keys(fromNodes).filter((id) => toNodes[id]).sort()) {
+    const changes = fields
+      .filter((field) => !isSameContent(fromNodes[nodeId][field], toNodes[nodeId][field]))
+      .map((field) => ({
+        field,
+        before: fromNodes[nodeId][field] ?? null,
+        after: toNodes[nodeId][field] ?? null,
+      }));
+
+    if (changes.length > 0) changedNodes.push({ nodeId, changes });
+    else unchanged++;
+  }
+
+  return {
+    from: options.fromLabel || "from",
+    to: options.toLabel || "to",
+    flowChanges,
+    addedNodes,
+    removedNodes,
+    changedNodes,
+    summary: {
+      added: addedNodes.length,
+      removed: removedNodes.length,
+      changed: changedNodes.length,
+      unchanged,
+    },
+  };
+}
+
+/**
+ * Contenido actual (borrador) de un flujo
+ */
+export function flowToSnapshot(flow: Flow): FlowSnapshot {
+  return {
+    name: flow.name,
+    description: flow.description,
+    entryNodeId: flow.entryNodeId,
+    nodes: flow.nodes,
+  };
+}
+
+/**
+ * Convierte una fila de flow_versions al modelo
+ */
+function mapVersion(row: any): FlowVersion {
+  return {
+    id: row.id,
+    flowId: row.flow_id,
+    tenantId: row.tenant_id,
+    versionNumber: row.version_number,
+    version: row.version,
+    snapshot: row.snapshot,
+    notes: row.notes || undefined,
+    publishedBy: row.published_by || undefined,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+/**
+ * Lista las versiones publicadas de un flujo (sin el contenido)
+ */
+export async function listFlowVersions(flowId: string): Promise<Array<Omit<FlowVersion, "snapshot">>> {
+  const { data, error } = await getSupabaseClient()
+    .from("flow_versions")
+    .select("id, flow_id, tenant_id, version_number, version, notes, published_by, created_at")
+    .eq("flow_id", flowId)
+    .order("version_number", { ascending: false });
+
+  if (error) {
+    logger.error(`Error al listar versiones del flujo ${flowId}:`, error);
+    throw new FlowVersionError("DB_ERROR", "Error al listar versiones del flujo");
+  }
+
+  return (data || []).map((row) => {
+    const { snapshot, ...version } = mapVersion(row);
+    return version;
+  });
+}
+
+/**
+ * Obtiene una versión por su ID
+ */
+export async function getFlowVersion(versionId: string): Promise<FlowVersion | null> {
+  const { data, error } = await getSupabaseClient()
+    .from("flow_versions")
+    .select("*")
+    .eq("id", versionId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error(`Error al obtener versión ${versionId}:`, error);
+    throw new FlowVersionError("DB_ERROR", "Error al obtener versión del flujo");
+  }
+
+  return data ? mapVersion(data) : null;
+}
+
+/**
+ * Resuelve una referencia ("draft", "published", número o ID) dentro de un flujo
+ */
+async function resolveVersion(flow: Flow, ref: FlowVersionRef): Promise<FlowVersion> {
+  let query = getSupabaseClient().from("flow_versions").select("*").eq("flow_id", flow.id);
+
+  if (ref === "published") {
+    if (!flow.publishedVersionId) {
+      throw new FlowVersionError("NOT_FOUND", `El flujo ${flow.id} no tiene versiones publicadas`);
+    }
+    query = query.eq("id", flow.publishedVersionId);
+  } else if (/^\d+$/.test(ref)) {
+    query = query.eq("version_number", parseInt(ref, 10));
+  } else {
+    query = query.eq("id", ref);
+  }
+
+  const { data, error } = await query.maybeSingle();
+  if (error) {
+    logger.error(`Error al resolver versión ${ref} del flujo ${flow.id}:`, error);
+    throw new FlowVersionError("DB_ERROR", "Error al obtener versión del flujo");
+  }
+  if (!data) {
+    throw new FlowVersionError("NOT_FOUND", `Versión ${ref} no encontrada para el flujo ${flow.id}`);
+  }
+
+  return mapVersion(data);
+}
+
+async function loadFlow(flowId: string): Promise<Flow> {
+  const flow = await FlowRepository.getFlowById(flowId);
+  if (!flow) throw new FlowVersionError("NOT_FOUND", `Flujo ${flowId} no encontrado`);
+  return flow;
+}
+
+/**
+ * Obtiene el contenido de una referencia del flujo
+ */
+export async function getFlowSnapshot(
+  flowId: string,
+  ref: FlowVersionRef
+): Promise<{ label: string; snapshot: FlowSnapshot }> {
+  const flow = await loadFlow(flowId);
+  if (ref === "draft") return { label: "draft", snapshot: flowToSnapshot(flow) };
+
+  const version = await resolveVersion(flow, ref);
+  return { label: version.version, snapshot: version.snapshot };
+}
+
+/**
+ * Compara dos referencias de un flujo (por defecto la versión publicada contra el borrador)
+ */
+export async function diffFlowVersions(
+  flowId: string,
+  fromRef: FlowVersionRef = "published",
+  toRef: FlowVersionRef = "draft",
+  options: { includeLayout?: boolean } = {}
+): Promise<FlowDiff> {
+  const [from, to] = await Promise.all([getFlowSnapshot(flowId, fromRef), getFlowSnapshot(flowId, toRef)]);
+  return diffFlowSnapshots(from.snapshot, to.snapshot, {
+    fromLabel: from.label,
+    toLabel: to.label,
+    includeLayout: options.includeLayout,
+  });
+}
+
+/**
+ * Intentos de publicación ante conflictos de número de versión
+ */
+const PUBLISH_MAX_ATTEMPTS = 3;
+
+/**
+ * Publica el borrador actual como una nueva versión inmutable
+ * @param flowId ID del flujo
+ * @param options Notas, autor y etiqueta opcional de la versión
+ * @returns Versión creada
+ */
+export async function publishFlow(
+  flowId: string,
+  options: { notes?: string; publishedBy?: string; version?: string } = {}
+): Promise<FlowVersion> {
+  const flow = await loadFlow(flowId);
+
+  try {
+    validateFlow(flow);
+  } catch (error) {
+    throw new FlowVersionError(
+      "INVALID_FLOW",
+      `El borrador no es válido: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const supabase = getSupabaseClient();
+  const snapshot = flowToSnapshot(flow);
+  let data: any = null;
+  let versionNumber = 0;
+
+  // El número de versión se calcula leyendo la última; si otra publicación
+  // concurrente tomó el mismo número (UNIQUE flow_id, version_number) se reintenta
+  for (let attempt = 1; attempt <= PUBLISH_MAX_ATTEMPTS && !data; attempt++) {
+    const { data: last } = await supabase
+      .from("flow_versions")
+      .select("version_number")
+      .eq("flow_id", flowId)
+      .order("version_number", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    versionNumber = (last?.version_number || 0) + 1;
+    const result = await supabase
+      .from("flow_versions")
+      .insert({
+        flow_id: flowId,
+        tenant_id: flow.tenantId,
+        version_number: versionNumber,
+        version: options.version || `${versionNumber}.0.0`,
+        snapshot,
+        notes: options.notes,
+        published_by: options.publishedBy,
+      })
+      .select()
+      .single();
+
+    if (result.error?.code === "23505") {
+      logger.warn(`Conflicto al publicar flujo ${flowId} como versión #${versionNumber} (intento ${attempt})`);
+      continue;
+    }
+
+    if (result.error || !result.data) {
+      logger.error(`Error al publicar flujo ${flowId}:`, result.error);
+      throw new FlowVersionError("DB_ERROR", "Error al guardar la versión del flujo");
+    }
+
+    data = result.data;
+  }
+
+  if (!data) {
+    throw new FlowVersionError("CONFLICT", `Otra publicación del flujo ${flowId} está en curso, intenta de nuevo`);
+  }
+
+  const version = mapVersion(data);
+  if (!(await FlowRepository.setPublishedVersion(flowId, version.id, version.version))) {
+    throw new FlowVersionError("DB_ERROR", "Error al marcar la versión publicada");
+  }
+
+  logger.info(`Flujo ${flowId} publicado como versión ${version.version} (#${versionNumber})`);
+  return version;
+}
+
+/**
+ * Vuelve a poner en ejecución una versión anterior
+ * @param flowId ID del flujo
+ * @param ref Versión a restaurar (número o ID)
+ * @param options restoreDraft reemplaza también el borrador con esa versión (por defecto true)
+ * @returns Versión restaurada
+ */
+export async function rollbackFlow(
+  flowId: string,
+  ref: FlowVersionRef,
+  options: { restoreDraft?: boolean } = {}
+): Promise<FlowVersion> {
+  const flow = await loadFlow(flowId);
+  const version = await resolveVersion(flow, ref);
+
+  if (!(await FlowRepository.setPublishedVersion(flowId, version.id, version.version))) {
+    throw new FlowVersionError("DB_ERROR", "Error al marcar la versión publicada");
+  }
+
+  if (options.restoreDraft !== false) {
+    const { snapshot } = version;
+    const restored =
+      (await FlowRepository.updateFlow(flowId, {
+        name: snapshot.name,
+        description: snapshot.description,
+        entryNodeId: snapshot.entryNodeId,
+      })) && (await FlowRepository.replaceFlowNodes(flowId, snapshot.nodes));
+
+    if (!restored) {
+      throw new FlowVersionError("DB_ERROR", "La versión se publicó pero no se pudo restaurar el borrador");
+    }
+  }
+
+  logger.info(`Flujo ${flowId} restaurado a la versión ${version.version} (#${version.versionNumber})`);
+  return version;
+}
+
+/**
+ * Publica el contenido actual si el flujo aún no tiene versiones, para que
+ * la primera edición del borrador no afecte a las conversaciones en curso
+ */
+export async function ensureBaselineVersion(flow: Flow): Promise<FlowVersion | null> {
+  if (flow.publishedVersionId) return null;
+
+  try {
+    return await publishFlow(flow.id, { notes: "Versión inicial (antes de la primera edición)" });
+  } catch (error) {
+    // Flujos heredados que no pasan la validación siguen ejecutándose desde el borrador
+    logger.warn(`No se pudo crear la versión base del flujo ${flow.id}: ${error instanceof Error ? error.message : error}`);
+    return null;
+  }
+}
+
+/**
+ * Convierte una versión publicada al formato runtime
+ */
+export function versionToRuntimeFlow(version: FlowVersion): RuntimeFlow {
+  return FlowRepository.transformToRuntimeFlow({
+    id: version.flowId,
+    name: version.snapshot.name,
+    description: version.snapshot.description,
+    version: version.version,
+    nodes: version.snapshot.nodes,
+    entryNodeId: version.snapshot.entryNodeId,
+    tenantId: version.tenantId,
+    isActive: true,
+    createdAt: version.createdAt,
+    updatedAt: version.createdAt,
+    publishedVersionId: version.id,
+  });
+}
+
+export default {
+  diffFlowSnapshots,
+  isSameContent,
+  diffFlowVersions,
+  flowToSnapshot,
+  listFlowVersions,
+  getFlowVersion,
+  getFlowSnapshot,
+  publishFlow,
+  rollbackFlow,
+  ensureBaselineVersion,
+  versionToRuntimeFlow,
+};
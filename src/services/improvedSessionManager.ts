@@ -46,6 +46,7 @@ interface SessionContextData {
   globalVars: Record<string, any>;
   leadData?: LeadSessionData;
   conversationHistory: ConversationMessage[];
+  conversationSummary?: ConversationSummary;
   flowHistory: FlowNavigationEntry[];
   validationState?: ValidationSessionState;
   temporaryData: Record<string, any>;
@@ -83,6 +84,12 @@ interface ConversationMessage {
   metadata?: Record<string, any>;
 }
 
+interface ConversationSummary {
+  text: string;
+  coveredCount: number; // Mensajes del historial (desde el inicio) incluidos en el resumen
+  updatedAt: string;
+}
+
 interface FlowNavigationEntry {
   timestamp: string;
   fromNodeId?: string;
@@ -1002,6 +1009,8 @@ export type {
   SessionContextData,
   LeadSessionData,
   SessionMetadata,
+  ConversationMessage,
+  ConversationSummary,
   SessionConfig,
   CacheStats
 };
\ No newline at end of file
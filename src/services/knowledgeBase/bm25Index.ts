@@ -0,0 +1,111 @@
+/**
+ * src/services/knowledgeBase/bm25Index.ts
+ *
+ * Índice léxico BM25 en memoria para los fragmentos de la base de conocimiento.
+ * Usa la tokenización del módulo NLU (sin acentos, sin palabras vacías y con
+ * raíces aproximadas) para que "recámaras" coincida con "recamara".
+ * @version 1.0.0
+ * @created 2025-06-12
+ */
+
+import { tokenize } from "../nlu/textUtils";
+
+/**
+ * Resultado de una búsqueda
+ */
+export interface IndexMatch {
+  id: string;
+  score: number;
+}
+
+interface IndexedEntry {
+  length: number;
+  terms: Map<string, number>;
+}
+
+/**
+ * Índice BM25 (k1 controla la saturación de frecuencias, b la normalización por longitud)
+ */
+export class Bm25Index {
+  private entries = new Map<string, IndexedEntry>();
+  private documentFrequency = new Map<string, number>();
+  private totalLength = 0;
+
+  constructor(private k1: number = 1.2, private b: number = 0.75) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Agrega (o reemplaza) un texto en el índice
+   */
+  add(id: string, text: string): void {
+    this.remove(id);
+
+    const tokens = tokenize(text);
+    const terms = new Map<string, number>();
+    for (const token of tokens) {
+      terms.set(token, (terms.get(token) || 0) + 1);
+    }
+
+    for (const term of terms.keys()) {
+      this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1);
+    }
+
+    this.entries.set(id, { length: tokens.length, terms });
+    this.totalLength += tokens.length;
+  }
+
+  /**
+   * Elimina un texto del índice
+   */
+  remove(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+
+    for (const term of entry.terms.keys()) {
+      const frequency = (this.documentFrequency.get(term) || 1) - 1;
+      if (frequency <= 0) this.documentFrequency.delete(term);
+      else this.documentFrequency.set(term, frequency);
+    }
+
+    this.totalLength -= entry.length;
+    this.entries.delete(id);
+  }
+
+  /**
+   * Busca los textos más relevantes para una consulta
+   * @param query Consulta en lenguaje natural
+   * @param limit Máximo de resultados
+   * @returns Resultados con puntuación mayor a cero, de mayor a menor
+   */
+  search(query: string, limit: number = 5): IndexMatch[] {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0 || this.entries.size === 0) return [];
+
+    const count = this.entries.size;
+    const averageLength = this.totalLength / count || 1;
+    const matches: IndexMatch[] = [];
+
+    for (const [id, entry] of this.entries) {
+      let score = 0;
+
+      for (const term of queryTerms) {
+        const frequency = entry.terms.get(term);
+        if (!frequency) continue;
+
+        const documents = this.documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (count - documents + 0.5) / (documents + 0.5));
+        const normalization = this.k1 * (1 - this.b + (this.b * entry.length) / averageLength);
+        score += idf * ((frequency * (this.k1 + 1)) / (frequency + normalization));
+      }
+
+      if (score > 0) matches.push({ id, score });
+    }
+
+    return matches.sort((a, b) => b.score - a.score || a.id.localeCompare(b.id)).slice(0, limit);
+  }
+}
+
+export default Bm25Index;
@@ -0,0 +1,177 @@
+/**
+ * src/services/knowledgeBase/chunker.ts
+ *
+ * División de documentos de la base de conocimiento en fragmentos.
+ * Respeta encabezados Markdown y páginas de PDF para poder citar la fuente,
+ * y agrega un solapamiento entre fragmentos consecutivos de una misma sección.
+ * @version 1.0.0
+ * @created 2025-06-12
+ */
+
+/**
+ * Formato del documento
+ * - pdf: texto ya extraído del PDF; las páginas se separan con salto de página (\f)
+ */
+export type KnowledgeFormat = "text" | "markdown" | "pdf";
+
+/**
+ * Fragmento de un documento
+ */
+export interface DocumentChunk {
+  index: number;
+  content: string;
+  heading?: string; // Ruta de encabezados Markdown ("Políticas > Apartado")
+  page?: number;    // Página del PDF (desde 1)
+}
+
+export interface ChunkOptions {
+  maxChars: number;
+  overlapChars: number;
+}
+
+const DEFAULT_OPTIONS: ChunkOptions = {
+  maxChars: 1200,
+  overlapChars: 150,
+};
+
+interface Section {
+  text: string;
+  heading?: string;
+  page?: number;
+}
+
+/**
+ * Divide el documento en secciones (páginas o encabezados)
+ */
+function splitSections(content: string, format: KnowledgeFormat): Section[] {
+  const text = (content || "").replace(/\r\n?/g, "\n");
+
+  if (format === "pdf") {
+    return text.split("\f").map((page, index) => ({ text: page, page: index + 1 }));
+  }
+
+  if (format !== "markdown") {
+    return [{ text }];
+  }
+
+  const sections: Section[] = [];
+  const headings: string[] = [];
+  let current: string[] = [];
+
+  const flush = () => {
+    if (current.length > 0) {
+      sections.push({ text: current.join("\n"), heading: headings.filter(Boolean).join(" > ") || undefined });
+      current = [];
+    }
+  };
+
+  for (const line of text.split("\n")) {
+    const match = line.match(/^(#{1,6})\s+(.*)$/);
+    if (match) {
+      flush();
+      const level = match[1].length;
+      headings.length = level;
+      headings[level - 1] = match[2].replace(/#+\s*$/, "").trim();
+    } else {
+      current.push(line);
+    }
+  }
+  flush();
+
+  return sections;
+}
+
+/**
+ * Divide un texto largo por oraciones y, si hace falta, por longitud
+ */
+function splitLongText(text: string, maxChars: number): string[] {
+  const sentences = text.match(/[^.!?\n]+(?:[.!?]+|\n|$)/g) || [text];
+  const parts: string[] = [];
+  let current = "";
+
+  for (const raw of sentences) {
+    const sentence = raw.trim();
+    if (!sentence) continue;
+
+    if (sentence.length > maxChars) {
+      if (current) parts.push(current);
+      current = "";
+      for (let start = 0; start < sentence.length; start += maxChars) {
+        parts.push(sentence.slice(start, start + maxChars));
+      }
+      continue;
+    }
+
+    if (current && current.length + sentence.length + 1 > maxChars) {
+      parts.push(current);
+      current = sentence;
+    } else {
+      current = current ? `${current} ${sentence}` : sentence;
+    }
+  }
+  if (current) parts.push(current);
+
+  return parts;
+}
+
+/**
+ * Final de un fragmento para repetirlo al inicio del siguiente (cortado en palabra)
+ */
+function overlapTail(text: string, overlapChars: number): string {
+  if (overlapChars <= 0 || text.length <= overlapChars) return "";
+  const tail = text.slice(-overlapChars);
+  const firstSpace = tail.indexOf(" ");
+  return firstSpace >= 0 ? tail.slice(firstSpace + 1) : tail;
+}
+
+/**
+ * Divide un documento en fragmentos
+ * @param content Texto del documento
+ * @param format Formato del documento
+ * @param options Tamaño máximo y solapamiento en caracteres
+ * @returns Fragmentos en orden
+ */
+export function chunkDocument(
+  content: string,
+  format: KnowledgeFormat = "text",
+  options: Partial<ChunkOptions> = {}
+): DocumentChunk[] {
+  const { maxChars, overlapChars } = { ...DEFAULT_OPTIONS, ...options };
+  const chunks: DocumentChunk[] = [];
+
+  for (const section of splitSections(content, format)) {
+    const paragraphs = section.text
+      .split(/\n\s*\n/)
+      .map((paragraph) => paragraph.replace(/\s+/g, " ").trim())
+      .filter(Boolean)
+      .flatMap((paragraph) => (paragraph.length > maxChars ? splitLongText(paragraph, maxChars) : [paragraph]));
+
+    let current = "";
+    let previous = "";
+
+    const push = () => {
+      if (!current) return;
+      const overlap = overlapTail(previous, overlapChars);
+      chunks.push({
+        index: chunks.length,
+        content: overlap ? `${overlap} ${current}` : current,
+        heading: section.heading,
+        page: section.page,
+      });
+      previous = current;
+      current = "";
+    };
+
+    for (const paragraph of paragraphs) {
+      if (current && current.length + paragraph.length + 2 > maxChars) push();
+      current = current ? `${current}\n\n${paragraph}` : paragraph;
+    }
+    push();
+  }
+
+  return chunks;
+}
+
+export default {
+  chunkDocument,
+};
@@ -0,0 +1,88 @@
+/**
+ * src/services/knowledgeBase/embeddingIndex.ts
+ *
+ * Índice opcional por embeddings para la base de conocimiento.
+ * Complementa al índice BM25 cuando la consulta usa palabras distintas
+ * a las del documento ("alberca" / "piscina").
+ * @version 1.0.0
+ * @created 2025-06-12
+ */
+
+import OpenAI from "openai";
+import { config } from "../../config";
+import { IndexMatch } from "./bm25Index";
+
+/**
+ * Proveedor de embeddings
+ */
+export interface EmbeddingProvider {
+  readonly model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Embeddings con la API de OpenAI
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  private client: OpenAI;
+
+  constructor(apiKey: string = config.openai.apiKey, readonly model: string = config.knowledgeBase.embeddingModel) {
+    if (!apiKey) {
+      throw new Error("API Key de OpenAI no configurada para embeddings");
+    }
+    this.client = new OpenAI({ apiKey });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const response = await this.client.embeddings.create({ model: this.model, input: texts });
+    return response.data.sort((a, b) => a.index - b.index).map((item) => item.embedding);
+  }
+}
+
+function norm(vector: number[]): number {
+  return Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+}
+
+/**
+ * Índice de vectores en memoria con similitud coseno
+ */
+export class EmbeddingIndex {
+  private vectors = new Map<string, { vector: number[]; norm: number }>();
+
+  get size(): number {
+    return this.vectors.size;
+  }
+
+  add(id: string, vector: number[]): void {
+    if (!Array.isArray(vector) || vector.length === 0) return;
+    this.vectors.set(id, { vector, norm: norm(vector) || 1 });
+  }
+
+  remove(id: string): void {
+    this.vectors.delete(id);
+  }
+
+  /**
+   * Busca los vectores más similares
+   * @param query Vector de la consulta
+   * @param limit Máximo de resultados
+   * @param minScore Similitud mínima
+   */
+  search(query: number[], limit: number = 5, minScore: number = 0): IndexMatch[] {
+    const queryNorm = norm(query) || 1;
+    const matches: IndexMatch[] = [];
+
+    for (const [id, entry] of this.vectors) {
+      if (entry.vector.length !== query.length) continue;
+      let dot = 0;
+      for (let i = 0; i < query.length; i++) dot += query[i] * entry.vector[i];
+      const score = dot / (queryNorm * entry.norm);
+      if (score > minScore) matches.push({ id, score });
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
+
+export default EmbeddingIndex;
@@ -0,0 +1,387 @@
+/**
+ * src/services/knowledgeBase/index.ts
+ *
+ * Base de conocimiento por tenant para los nodos de IA (useKnowledgeBase).
+ * Los documentos (FAQs, fichas de propiedades, políticas) se dividen en
+ * fragmentos que se indexan con BM25 y, opcionalmente, con embeddings.
+ * Los fragmentos recuperados se inyectan en el prompt con su número de cita.
+ * @version 1.0.0
+ * @created 2025-06-12
+ */
+
+import logger from "../../utils/logger";
+import { config } from "../../config";
+import { chunkDocument, KnowledgeFormat } from "./chunker";
+import { Bm25Index, IndexMatch } from "./bm25Index";
+import { EmbeddingIndex, EmbeddingProvider, OpenAIEmbeddingProvider } from "./embeddingIndex";
+import {
+  KnowledgeChunk,
+  KnowledgeDocument,
+  KnowledgeStore,
+  MemoryKnowledgeStore,
+  SupabaseKnowledgeStore,
+} from "./store";
+
+export type { KnowledgeFormat } from "./chunker";
+export type { KnowledgeDocument, KnowledgeChunk, KnowledgeStore } from "./store";
+export { MemoryKnowledgeStore, SupabaseKnowledgeStore } from "./store";
+export { chunkDocument } from "./chunker";
+
+/**
+ * Códigos de error de la base de conocimiento
+ */
+export type KnowledgeBaseErrorCode = "INVALID_INPUT" | "NOT_FOUND" | "DB_ERROR";
+
+export class KnowledgeBaseError extends Error {
+  constructor(public code: KnowledgeBaseErrorCode, message: string) {
+    super(message);
+    this.name = "KnowledgeBaseError";
+  }
+}
+
+/**
+ * Documento a agregar
+ */
+export interface KnowledgeDocumentInput {
+  title: string;
+  content: string;
+  format?: KnowledgeFormat;
+  source?: string;
+}
+
+/**
+ * Fragmento recuperado para una consulta
+ */
+export interface KnowledgePassage {
+  citation: number; // Número con el que se cita en la respuesta ([1], [2]...)
+  chunkId: string;
+  documentId: string;
+  title: string;
+  heading?: string;
+  page?: number;
+  source?: string;
+  content: string;
+  score: number;
+}
+
+interface TenantIndex {
+  bm25: Bm25Index;
+  embeddings: EmbeddingIndex;
+  chunks: Map<string, KnowledgeChunk>;
+  documents: Map<string, KnowledgeDocument>;
+  loadedAt: number;
+}
+
+const SUPPORTED_FORMATS: KnowledgeFormat[] = ["text", "markdown", "pdf"];
+const INDEX_TTL_MS = 5 * 60 * 1000;
+// Constante de la fusión por rango recíproco (RRF)
+const RRF_K = 60;
+
+/**
+ * Texto indexado de un fragmento (el título y la sección también cuentan)
+ */
+function indexText(chunk: KnowledgeChunk, document?: KnowledgeDocument): string {
+  return [document?.title, chunk.heading, chunk.content].filter(Boolean).join("\n");
+}
+
+/**
+ * Combina los rankings léxico y semántico por rango recíproco
+ */
+function fuseRankings(rankings: IndexMatch[][], limit: number): IndexMatch[] {
+  const scores = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((match, position) => {
+      scores.set(match.id, (scores.get(match.id) || 0) + 1 / (RRF_K + position + 1));
+    });
+  }
+  return Array.from(scores.entries())
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Etiqueta de la fuente de un fragmento: "Título > Sección, p. 3"
+ */
+export function formatCitationLabel(passage: Pick<KnowledgePassage, "title" | "heading" | "page">): string {
+  // El primer encabezado del documento suele repetir el título
+  const heading = passage.heading && passage.heading.startsWith(passage.title)
+    ? passage.heading.slice(passage.title.length).replace(/^\s*>\s*/, "")
+    : passage.heading;
+  const label = [passage.title, heading].filter(Boolean).join(" > ");
+  return passage.page ? `${label}, p. ${passage.page}` : label;
+}
+
+/**
+ * Construye el bloque de contexto que se agrega al prompt del nodo de IA
+ * @param passages Fragmentos recuperados
+ * @param maxChars Longitud máxima del bloque
+ * @returns Texto para el prompt (vacío si no hay fragmentos)
+ */
+export function buildKnowledgePrompt(
+  passages: KnowledgePassage[],
+  maxChars: number = config.knowledgeBase.maxContextChars
+): string {
+  if (passages.length === 0) return "";
+
+  const header = [
+    "Información de la base de conocimiento del negocio:",
+    "Usa esta información para responder y cita la fuente con su número entre corchetes, por ejemplo [1].",
+    "Si la respuesta no está en esta información, dilo en lugar de inventarla.",
+  ].join("\n");
+
+  const blocks: string[] = [];
+  let length = header.length;
+
+  for (const passage of passages) {
+    const block = `[${passage.citation}] ${formatCitationLabel(passage)}\n${passage.content}`;
+    if (length + block.length + 2 > maxChars) {
+      const remaining = maxChars - length - 2;
+      if (blocks.length === 0 && remaining > 0) blocks.push(block.slice(0, remaining));
+      break;
+    }
+    blocks.push(block);
+    length += block.length + 2;
+  }
+
+  return `${header}\n\n${blocks.join("\n\n")}`;
+}
+
+/**
+ * Servicio de base de conocimiento
+ */
+export class KnowledgeBase {
+  private static instance: KnowledgeBase;
+  private indexes = new Map<string, TenantIndex>();
+  private loading = new Map<string, Promise<TenantIndex>>();
+
+  constructor(private store: KnowledgeStore, private embeddingProvider: EmbeddingProvider | null = null) {}
+
+  /**
+   * Obtiene la instancia compartida (Supabase si está habilitado, memoria si no)
+   */
+  static getInstance(): KnowledgeBase {
+    if (!KnowledgeBase.instance) {
+      const store = config.supabase.enabled ? new SupabaseKnowledgeStore() : new MemoryKnowledgeStore();
+
+      let embeddingProvider: EmbeddingProvider | null = null;
+      if (config.knowledgeBase.embeddingsEnabled) {
+        try {
+          embeddingProvider = new OpenAIEmbeddingProvider();
+        } catch (error) {
+          logger.warn(`Base de conocimiento sin embeddings: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+
+      KnowledgeBase.instance = new KnowledgeBase(store, embeddingProvider);
+    }
+    return KnowledgeBase.instance;
+  }
+
+  /**
+   * Agrega un documento: lo divide en fragmentos, calcula embeddings (si aplica) y lo guarda
+   */
+  async addDocument(tenantId: string, input: KnowledgeDocumentInput): Promise<KnowledgeDocument> {
+    const title = String(input.title || "").trim();
+    const content = String(input.content || "");
+    const format = input.format || "text";
+
+    if (!title) throw new KnowledgeBaseError("INVALID_INPUT", "El documento requiere un título");
+    if (!content.trim()) throw new KnowledgeBaseError("INVALID_INPUT", "El documento no tiene contenido");
+    if (!SUPPORTED_FORMATS.includes(format)) {
+      throw new KnowledgeBaseError("INVALID_INPUT", `Formato no soportado: ${format}`);
+    }
+
+    const chunks = chunkDocument(content, format, {
+      maxChars: config.knowledgeBase.maxChunkChars,
+      overlapChars: config.knowledgeBase.chunkOverlapChars,
+    });
+    if (chunks.length === 0) {
+      throw new KnowledgeBaseError("INVALID_INPUT", "El documento no tiene texto indexable");
+    }
+
+    let embeddings: number[][] = [];
+    if (this.embeddingProvider) {
+      try {
+        embeddings = await this.embeddingProvider.embed(
+          chunks.map((chunk) => [title, chunk.heading, chunk.content].filter(Boolean).join("\n"))
+        );
+      } catch (error) {
+        // El índice léxico sigue funcionando sin embeddings
+        logger.warn(`No se pudieron calcular embeddings del documento "${title}": ${error}`);
+      }
+    }
+
+    try {
+      const document = await this.store.saveDocument(
+        {
+          tenant_id: tenantId,
+          title,
+          format,
+          source: input.source || null,
+          content_length: content.length,
+          chunk_count: chunks.length,
+        },
+        chunks.map((chunk, index) => ({
+          tenant_id: tenantId,
+          chunk_index: chunk.index,
+          content: chunk.content,
+          heading: chunk.heading || null,
+          page: chunk.page || null,
+          embedding: embeddings[index] || null,
+        }))
+      );
+
+      this.invalidate(tenantId);
+      logger.info(`Base de conocimiento: documento "${title}" agregado al tenant ${tenantId} (${chunks.length} fragmentos)`);
+      return document;
+    } catch (error) {
+      throw new KnowledgeBaseError("DB_ERROR", error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Lista los documentos de un tenant
+   */
+  async listDocuments(tenantId: string): Promise<KnowledgeDocument[]> {
+    try {
+      return await this.store.listDocuments(tenantId);
+    } catch (error) {
+      throw new KnowledgeBaseError("DB_ERROR", error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Elimina un documento y sus fragmentos
+   */
+  async deleteDocument(tenantId: string, documentId: string): Promise<void> {
+    let deleted: boolean;
+    try {
+      deleted = await this.store.deleteDocument(tenantId, documentId);
+    } catch (error) {
+      throw new KnowledgeBaseError("DB_ERROR", error instanceof Error ? error.message : String(error));
+    }
+
+    if (!deleted) throw new KnowledgeBaseError("NOT_FOUND", `Documento ${documentId} no encontrado`);
+    this.invalidate(tenantId);
+  }
+
+  /**
+   * Busca los fragmentos más relevantes para una consulta
+   * @param tenantId ID del tenant
+   * @param query Consulta (normalmente el último mensaje del usuario)
+   * @param topK Máximo de fragmentos
+   * @returns Fragmentos numerados para citarlos
+   */
+  async search(tenantId: string, query: string, topK: number = config.knowledgeBase.topK): Promise<KnowledgePassage[]> {
+    if (!query || !query.trim()) return [];
+
+    const index = await this.getTenantIndex(tenantId);
+    if (index.chunks.size === 0) return [];
+
+    const candidates = Math.max(topK * 3, 10);
+    const rankings = [index.bm25.search(query, candidates)];
+
+    if (this.embeddingProvider && index.embeddings.size > 0) {
+      try {
+        const [vector] = await this.embeddingProvider.embed([query]);
+        rankings.push(index.embeddings.search(vector, candidates));
+      } catch (error) {
+        logger.warn(`Búsqueda semántica no disponible para tenant ${tenantId}: ${error}`);
+      }
+    }
+
+    const matches = rankings.length > 1 ? fuseRankings(rankings, topK) : rankings[0].slice(0, topK);
+
+    return matches.map((match, position) => {
+      const chunk = index.chunks.get(match.id)!;
+      const document = index.documents.get(chunk.document_id);
+      return {
+        citation: position + 1,
+        chunkId: chunk.id,
+        documentId: chunk.document_id,
+        title: document?.title || "Documento",
+        heading: chunk.heading || undefined,
+        page: chunk.page || undefined,
+        source: document?.source || undefined,
+        content: chunk.content,
+        score: match.score,
+      };
+    });
+  }
+
+  /**
+   * Descarta el índice en memoria de un tenant (se reconstruye en la siguiente búsqueda)
+   */
+  invalidate(tenantId: string): void {
+    this.indexes.delete(tenantId);
+  }
+
+  /**
+   * Índice del tenant, construido a partir del almacenamiento
+   */
+  private async getTenantIndex(tenantId: string): Promise<TenantIndex> {
+    const cached = this.indexes.get(tenantId);
+    if (cached && Date.now() - cached.loadedAt < INDEX_TTL_MS) return cached;
+
+    let pending = this.loading.get(tenantId);
+    if (!pending) {
+      pending = this.buildTenantIndex(tenantId).finally(() => this.loading.delete(tenantId));
+      this.loading.set(tenantId, pending);
+    }
+    return pending;
+  }
+
+  private async buildTenantIndex(tenantId: string): Promise<TenantIndex> {
+    const [documents, chunks] = await Promise.all([
+      this.store.listDocuments(tenantId),
+      this.store.listChunks(tenantId),
+    ]);
+
+    const index: TenantIndex = {
+      bm25: new Bm25Index(),
+      embeddings: new EmbeddingIndex(),
+      chunks: new Map(),
+      documents: new Map(documents.map((document) => [document.id, document])),
+      loadedAt: Date.now(),
+    };
+
+    for (const chunk of chunks) {
+      const document = index.documents.get(chunk.document_id);
+      if (!document) continue;
+      index.chunks.set(chunk.id, chunk);
+      index.bm25.add(chunk.id, indexText(chunk, document));
+      if (chunk.embedding) index.embeddings.add(chunk.id, chunk.embedding);
+    }
+
+    this.indexes.set(tenantId, index);
+    logger.debug(`Base de conocimiento: índice del tenant ${tenantId} con ${index.chunks.size} fragmentos`);
+    return index;
+  }
+}
+
+/**
+ * Recupera fragmentos y construye el contexto para un nodo de IA
+ * Nunca lanza errores: sin base de conocimiento el nodo responde solo con su prompt
+ * @returns Bloque para el prompt y fragmentos citables
+ */
+export async function getKnowledgeContext(
+  tenantId: string,
+  query: string,
+  topK?: number
+): Promise<{ prompt: string; passages: KnowledgePassage[] }> {
+  try {
+    const passages = await KnowledgeBase.getInstance().search(tenantId, query, topK);
+    return { prompt: buildKnowledgePrompt(passages), passages };
+  } catch (error) {
+    logger.error(`Error al consultar la base de conocimiento del tenant ${tenantId}:`, error);
+    return { prompt: "", passages: [] };
+  }
+}
+
+export default {
+  KnowledgeBase,
+  getKnowledgeContext,
+  buildKnowledgePrompt,
+  formatCitationLabel,
+};
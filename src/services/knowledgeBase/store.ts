@@ -0,0 +1,157 @@
+/**
+ * src/services/knowledgeBase/store.ts
+ *
+ * Almacenamiento de documentos y fragmentos de la base de conocimiento.
+ * @version 1.0.0
+ * @created 2025-06-12
+ */
+
+import { getSupabaseAdminClient } from "../supabase";
+import { KnowledgeFormat } from "./chunker";
+
+/**
+ * Documento de la base de conocimiento (tabla knowledge_documents)
+ */
+export interface KnowledgeDocument {
+  id: string;
+  tenant_id: string;
+  title: string;
+  format: KnowledgeFormat;
+  source?: string | null;      // URL o nombre del archivo original
+  content_length: number;
+  chunk_count: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Fragmento indexable de un documento (tabla knowledge_chunks)
+ */
+export interface KnowledgeChunk {
+  id: string;
+  document_id: string;
+  tenant_id: string;
+  chunk_index: number;
+  content: string;
+  heading?: string | null;
+  page?: number | null;
+  embedding?: number[] | null;
+}
+
+export type NewKnowledgeDocument = Omit<KnowledgeDocument, "id" | "created_at" | "updated_at">;
+export type NewKnowledgeChunk = Omit<KnowledgeChunk, "id" | "document_id">;
+
+/**
+ * Almacenamiento de la base de conocimiento
+ */
+export interface KnowledgeStore {
+  saveDocument(document: NewKnowledgeDocument, chunks: NewKnowledgeChunk[]): Promise<KnowledgeDocument>;
+  listDocuments(tenantId: string): Promise<KnowledgeDocument[]>;
+  getDocument(tenantId: string, documentId: string): Promise<KnowledgeDocument | null>;
+  deleteDocument(tenantId: string, documentId: string): Promise<boolean>;
+  listChunks(tenantId: string): Promise<KnowledgeChunk[]>;
+}
+
+/**
+ * Almacenamiento en Supabase
+ */
+export class SupabaseKnowledgeStore implements KnowledgeStore {
+  async saveDocument(document: NewKnowledgeDocument, chunks: NewKnowledgeChunk[]): Promise<KnowledgeDocument> {
+    const supabase = getSupabaseAdminClient();
+    const { data, error } = await supabase.from("knowledge_documents").insert(document).select().single();
+    if (error || !data) throw new Error(`Error al guardar documento: ${error?.message || "sin datos"}`);
+
+    if (chunks.length > 0) {
+      const { error: chunkError } = await supabase
+        .from("knowledge_chunks")
+        .insert(chunks.map((chunk) => ({ ...chunk, document_id: data.id })));
+
+      if (chunkError) {
+        await supabase.from("knowledge_documents").delete().eq("id", data.id);
+        throw new Error(`Error al guardar fragmentos del documento: ${chunkError.message}`);
+      }
+    }
+
+    return data as KnowledgeDocument;
+  }
+
+  async listDocuments(tenantId: string): Promise<KnowledgeDocument[]> {
+    const { data, error } = await getSupabaseAdminClient()
+      .from("knowledge_documents")
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .order("created_at", { ascending: false });
+    if (error) throw new Error(`Error al listar documentos: ${error.message}`);
+    return (data || []) as KnowledgeDocument[];
+  }
+
+  async getDocument(tenantId: string, documentId: string): Promise<KnowledgeDocument | null> {
+    const { data, error } = await getSupabaseAdminClient()
+      .from("knowledge_documents")
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .eq("id", documentId)
+      .maybeSingle();
+    if (error) throw new Error(`Error al obtener documento ${documentId}: ${error.message}`);
+    return (data as KnowledgeDocument) || null;
+  }
+
+  async deleteDocument(tenantId: string, documentId: string): Promise<boolean> {
+    // Los fragmentos se eliminan en cascada
+    const { data, error } = await getSupabaseAdminClient()
+      .from("knowledge_documents")
+      .delete()
+      .eq("tenant_id", tenantId)
+      .eq("id", documentId)
+      .select("id");
+    if (error) throw new Error(`Error al eliminar documento ${documentId}: ${error.message}`);
+    return (data || []).length > 0;
+  }
+
+  async listChunks(tenantId: string): Promise<KnowledgeChunk[]> {
+    const { data, error } = await getSupabaseAdminClient()
+      .from("knowledge_chunks")
+      .select("*")
+      .eq("tenant_id", tenantId);
+    if (error) throw new Error(`Error al cargar fragmentos del tenant ${tenantId}: ${error.message}`);
+    return (data || []) as KnowledgeChunk[];
+  }
+}
+
+/**
+ * Almacenamiento en memoria (pruebas o sin Supabase)
+ */
+export class MemoryKnowledgeStore implements KnowledgeStore {
+  documents: KnowledgeDocument[] = [];
+  chunks: KnowledgeChunk[] = [];
+  private sequence = 0;
+
+  async saveDocument(document: NewKnowledgeDocument, chunks: NewKnowledgeChunk[]): Promise<KnowledgeDocument> {
+    const now = new Date().toISOString();
+    const created: KnowledgeDocument = { ...document, id: `doc-${++this.sequence}`, created_at: now, updated_at: now };
+    this.documents.push(created);
+    this.chunks.push(
+      ...chunks.map((chunk) => ({ ...chunk, id: `${created.id}-${chunk.chunk_index}`, document_id: created.id }))
+    );
+    return created;
+  }
+
+  async listDocuments(tenantId: string): Promise<KnowledgeDocument[]> {
+    return this.documents.filter((document) => document.tenant_id === tenantId).reverse();
+  }
+
+  async getDocument(tenantId: string, documentId: string): Promise<KnowledgeDocument | null> {
+    return this.documents.find((document) => document.tenant_id === tenantId && document.id === documentId) || null;
+  }
+
+  async deleteDocument(tenantId: string, documentId: string): Promise<boolean> {
+    const before = this.documents.length;
+    this.documents = this.documents.filter((document) => !(document.tenant_id === tenantId && document.id === documentId));
+    this.chunks = this.chunks.filter((chunk) => chunk.document_id !== documentId);
+    return this.documents.length < before;
+  }
+
+  async listChunks(tenantId: string): Promise<KnowledgeChunk[]> {
+    return this.chunks.filter((chunk) => chunk.tenant_id === tenantId);
+  }
+}
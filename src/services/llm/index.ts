@@ -0,0 +1,268 @@
+/**
+ * src/services/llm/index.ts
+ *
+ * Selección de proveedor de modelos de lenguaje por tenant y por nodo,
+ * con orden de respaldo y contabilidad de tokens por proveedor.
+ * El orden es: proveedor del nodo, respaldos del nodo, proveedor del tenant,
+ * respaldos del tenant y por último los de la configuración global.
+ * @version 1.0.0
+ * @created 2025-06-14
+ */
+
+import logger from "../../utils/logger";
+import { config } from "../../config";
+import { getSupabaseAdminClient, incrementUsage } from "../supabase";
+import { LLMProvider, LLMProviderError, LLMRequest, LLMResponse } from "./types";
+import { LocalLLMProvider, OpenAIProvider } from "./openaiProvider";
+import { ScriptedLLMProvider } from "./scriptedProvider";
+
+export * from "./types";
+export { OpenAICompatibleProvider, OpenAIProvider, LocalLLMProvider } from "./openaiProvider";
+export { ScriptedLLMProvider } from "./scriptedProvider";
+export type { ScriptedRule, ScriptedToolCalls } from "./scriptedProvider";
+
+/**
+ * Configuración de proveedor de un tenant (tabla tenant_llm_settings)
+ */
+export interface TenantLLMSettings {
+  tenant_id: string;
+  provider?: string | null;
+  fallback_providers?: string[] | null;
+  model?: string | null;   // Modelo para el proveedor del tenant
+}
+
+/**
+ * Opciones de selección de proveedor para una llamada
+ */
+export interface LLMCallOptions {
+  tenantId?: string;
+  provider?: string;            // Proveedor elegido en el nodo
+  fallbackProviders?: string[]; // Respaldos elegidos en el nodo
+  trackUsage?: boolean;         // Registrar tokens en el uso del tenant (por defecto sí)
+}
+
+/**
+ * Consumo acumulado de un proveedor
+ */
+export interface ProviderUsageStats {
+  calls: number;
+  failures: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+type SettingsLoader = (tenantId: string) => Promise<TenantLLMSettings | null>;
+type UsageRecorder = (tenantId: string, tokens: number) => Promise<void>;
+
+const SETTINGS_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Obtiene la configuración de proveedor del tenant (null si no tiene)
+ */
+export async function loadTenantLLMSettings(tenantId: string): Promise<TenantLLMSettings | null> {
+  if (!config.supabase.enabled) return null;
+
+  const { data, error } = await getSupabaseAdminClient()
+    .from("tenant_llm_settings")
+    .select("*")
+    .eq("tenant_id", tenantId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error(`Error al obtener configuración de LLM del tenant ${tenantId}: ${error.message}`);
+    return null;
+  }
+  return (data as TenantLLMSettings) || null;
+}
+
+/**
+ * Registra los tokens en el uso diario del tenant (sin contar una llamada API adicional)
+ */
+async function recordTenantUsage(tenantId: string, tokens: number): Promise<void> {
+  await incrementUsage(tenantId, tokens, 0);
+}
+
+function emptyStats(): ProviderUsageStats {
+  return { calls: 0, failures: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+}
+
+/**
+ * Servicio de modelos de lenguaje
+ */
+export class LLMService {
+  private static instance: LLMService;
+  private providers = new Map<string, LLMProvider>();
+  private tenantSettings = new Map<string, { settings: TenantLLMSettings | null; loadedAt: number }>();
+  private usage = new Map<string, Map<string, ProviderUsageStats>>();
+
+  constructor(
+    providers: LLMProvider[] = [],
+    private loadSettings: SettingsLoader = loadTenantLLMSettings,
+    private recordUsage: UsageRecorder = recordTenantUsage
+  ) {
+    providers.forEach((provider) => this.registerProvider(provider));
+  }
+
+  /**
+   * Obtiene la instancia compartida con los proveedores configurados
+   */
+  static getInstance(): LLMService {
+    if (!LLMService.instance) {
+      const providers: LLMProvider[] = [new OpenAIProvider(), new LocalLLMProvider()];
+      if (config.llm.scriptedEnabled) {
+        providers.push(new ScriptedLLMProvider());
+      }
+      LLMService.instance = new LLMService(providers);
+    }
+    return LLMService.instance;
+  }
+
+  registerProvider(provider: LLMProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  getProvider(name: string): LLMProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  /**
+   * Nombres de los proveedores registrados y disponibles
+   */
+  listProviders(): string[] {
+    return Array.from(this.providers.values())
+      .filter((provider) => provider.isAvailable())
+      .map((provider) => provider.name);
+  }
+
+  private async getTenantSettings(tenantId?: string): Promise<TenantLLMSettings | null> {
+    if (!tenantId) return null;
+
+    const cached = this.tenantSettings.get(tenantId);
+    if (cached && Date.now() - cached.loadedAt < SETTINGS_TTL_MS) return cached.settings;
+
+    let settings: TenantLLMSettings | null = null;
+    try {
+      settings = await this.loadSettings(tenantId);
+    } catch (error) {
+      logger.error(`Error al cargar configuración de LLM del tenant ${tenantId}:`, error);
+    }
+    this.tenantSettings.set(tenantId, { settings, loadedAt: Date.now() });
+    return settings;
+  }
+
+  /**
+   * Descarta la configuración en caché de un tenant (tras modificarla)
+   */
+  invalidateTenantSettings(tenantId: string): void {
+    this.tenantSettings.delete(tenantId);
+  }
+
+  /**
+   * Orden de proveedores a intentar para una llamada
+   */
+  async resolveProviderOrder(options: LLMCallOptions = {}): Promise<string[]> {
+    const settings = await this.getTenantSettings(options.tenantId);
+
+    const candidates = [
+      options.provider,
+      ...(options.fallbackProviders || []),
+      settings?.provider,
+      ...(settings?.fallback_providers || []),
+      config.llm.defaultProvider,
+      ...config.llm.fallbackProviders,
+    ];
+
+    const order: string[] = [];
+    for (const name of candidates) {
+      if (!name || order.includes(name)) continue;
+      if (!this.providers.has(name)) {
+        logger.warn(`Proveedor de LLM desconocido: ${name}`);
+        continue;
+      }
+      order.push(name);
+    }
+    return order;
+  }
+
+  /**
+   * Genera una respuesta probando los proveedores en orden hasta que uno responda
+   * @param request Solicitud (el modelo solo aplica al primer proveedor)
+   * @param options Tenant y proveedores elegidos en el nodo
+   */
+  async complete(request: LLMRequest, options: LLMCallOptions = {}): Promise<LLMResponse> {
+    const settings = await this.getTenantSettings(options.tenantId);
+    const order = (await this.resolveProviderOrder(options)).filter((name) => this.providers.get(name)!.isAvailable());
+
+    if (order.length === 0) {
+      throw new LLMProviderError("NOT_CONFIGURED", "No hay proveedores de LLM disponibles");
+    }
+
+    const failures: string[] = [];
+
+    for (const [position, name] of order.entries()) {
+      const provider = this.providers.get(name)!;
+
+      // Un modelo pedido para un proveedor no sirve para otro
+      let model: string | undefined = position === 0 ? request.model : undefined;
+      if (!model && settings?.model && name === settings.provider) {
+        model = settings.model;
+      }
+
+      try {
+        const response = await provider.complete({ ...request, model });
+        this.track(options.tenantId, name, response);
+
+        if (options.tenantId && options.trackUsage !== false) {
+          try {
+            await this.recordUsage(options.tenantId, response.usage.totalTokens);
+          } catch (error) {
+            logger.error(`Error al registrar uso de LLM del tenant ${options.tenantId}:`, error);
+          }
+        }
+
+        if (position > 0) {
+          logger.info(`LLM: respuesta obtenida del proveedor de respaldo ${name}`);
+        }
+        return response;
+      } catch (error) {
+        this.track(options.tenantId, name);
+        const message = error instanceof Error ? error.message : String(error);
+        failures.push(`${name}: ${message}`);
+        logger.warn(`LLM: falló el proveedor ${name}: ${message}`);
+      }
+    }
+
+    throw new LLMProviderError(
+      "ALL_PROVIDERS_FAILED",
+      `Ningún proveedor de LLM respondió (${failures.join("; ")})`
+    );
+  }
+
+  private track(tenantId: string | undefined, providerName: string, response?: LLMResponse): void {
+    const key = tenantId || "global";
+    if (!this.usage.has(key)) this.usage.set(key, new Map());
+    const byProvider = this.usage.get(key)!;
+    const stats = byProvider.get(providerName) || emptyStats();
+
+    if (response) {
+      stats.calls++;
+      stats.promptTokens += response.usage.promptTokens;
+      stats.completionTokens += response.usage.completionTokens;
+      stats.totalTokens += response.usage.totalTokens;
+    } else {
+      stats.failures++;
+    }
+    byProvider.set(providerName, stats);
+  }
+
+  /**
+   * Consumo por proveedor acumulado desde el arranque del proceso
+   */
+  getUsageStats(tenantId?: string): Record<string, ProviderUsageStats> {
+    const byProvider = this.usage.get(tenantId || "global");
+    return byProvider ? Object.fromEntries(byProvider.entries()) : {};
+  }
+}
+
+export default LLMService;
@@ -0,0 +1,197 @@
+/**
+ * src/services/llm/openaiProvider.ts
+ *
+ * Proveedores con API compatible con OpenAI: la API de OpenAI y servidores
+ * locales que exponen /v1/chat/completions (llama.cpp, Ollama, vLLM).
+ * @version 1.1.0
+ * @created 2025-06-14
+ * @updated 2025-06-15
+ */
+
+import OpenAI from "openai";
+import { type ChatCompletionMessageParam } from "openai/resources/chat";
+import { config } from "../../config";
+import {
+  LLMMessage,
+  LLMProvider,
+  LLMProviderError,
+  LLMRequest,
+  LLMResponse,
+  LLMToolCall,
+  estimateUsage,
+} from "./types";
+
+export interface OpenAICompatibleOptions {
+  name: string;
+  apiKey: string;
+  defaultModel: string;
+  baseURL?: string;
+  timeoutMs?: number;
+  requiresApiKey?: boolean; // Los servidores locales normalmente no usan API Key
+}
+
+/**
+ * Convierte un mensaje al formato de la API de chat
+ */
+function toChatCompletionMessage(message: LLMMessage): ChatCompletionMessageParam {
+  if (message.role === "tool") {
+    return { role: "tool", tool_call_id: message.toolCallId || "", content: message.content };
+  }
+  if (message.role === "assistant" && message.toolCalls && message.toolCalls.length > 0) {
+    return {
+      role: "assistant",
+      content: message.content || null,
+      tool_calls: message.toolCalls.map((call) => ({
+        id: call.id,
+        type: "function" as const,
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+      })),
+    };
+  }
+  return { role: message.role, content: message.content } as ChatCompletionMessageParam;
+}
+
+/**
+ * Interpreta los argumentos JSON de una herramienta (objeto vacío si no son válidos)
+ */
+function parseToolArguments(raw: string): Record<string, any> {
+  try {
+    const parsed = JSON.parse(raw || "{}");
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Proveedor genérico para cualquier endpoint compatible con OpenAI
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  private client: OpenAI | null = null;
+
+  constructor(private options: OpenAICompatibleOptions) {
+    this.name = options.name;
+    this.defaultModel = options.defaultModel;
+  }
+
+  isAvailable(): boolean {
+    if (this.options.requiresApiKey !== false && !this.options.apiKey) return false;
+    if (this.options.requiresApiKey === false && !this.options.baseURL) return false;
+    return true;
+  }
+
+  private getClient(): OpenAI {
+    if (!this.isAvailable()) {
+      throw new LLMProviderError("NOT_CONFIGURED", `Proveedor ${this.name} no configurado`, this.name);
+    }
+    if (!this.client) {
+      this.client = new OpenAI({
+        // El SDK exige una API Key aunque el servidor local no la valide
+        apiKey: this.options.apiKey || "sin-api-key",
+        baseURL: this.options.baseURL || undefined,
+        timeout: this.options.timeoutMs,
+        maxRetries: 0, // Los reintentos los decide el orden de respaldo
+      });
+    }
+    return this.client;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const client = this.getClient();
+    const model = request.model || this.defaultModel;
+
+    const messages: ChatCompletionMessageParam[] = [
+      { role: "system", content: request.systemPrompt },
+      ...request.messages.map(toChatCompletionMessage),
+    ];
+
+    try {
+      const completion = await client.chat.completions.create({
+        model,
+        messages,
+        temperature: request.temperature ?? config.openai.temperature ?? 0.7,
+        max_tokens: request.maxTokens ?? config.openai.maxTokens ?? 500,
+        presence_penalty: config.openai.presencePenalty ?? 0,
+        frequency_penalty: config.openai.frequencyPenalty ?? 0,
+        ...(request.tools && request.tools.length > 0
+          ? {
+              tools: request.tools.map((tool) => ({
+                type: "function" as const,
+                function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+              })),
+            }
+          : {}),
+      });
+
+      const choice = completion.choices[0]?.message;
+      const text = choice?.content || "";
+      const toolCalls: LLMToolCall[] = (choice?.tool_calls || [])
+        .filter((call) => call.type === "function")
+        .map((call) => ({ id: call.id, name: call.function.name, arguments: parseToolArguments(call.function.arguments) }));
+
+      if (!text && toolCalls.length === 0) {
+        throw new LLMProviderError("EMPTY_RESPONSE", `No se recibió respuesta de ${this.name}`, this.name);
+      }
+
+      const usage = completion.usage
+        ? {
+            promptTokens: completion.usage.prompt_tokens,
+            completionTokens: completion.usage.completion_tokens,
+            totalTokens: completion.usage.total_tokens,
+            estimated: false,
+          }
+        : estimateUsage(request, text);
+
+      return {
+        text,
+        ...(toolCalls.length > 0 ? { toolCalls } : {}),
+        provider: this.name,
+        model: completion.model || model,
+        usage,
+      };
+    } catch (error) {
+      if (error instanceof LLMProviderError) throw error;
+
+      if (error instanceof OpenAI.APIError) {
+        throw new LLMProviderError(
+          "REQUEST_FAILED",
+          `Error de ${this.name}: ${error.status ?? "sin estado"} ${error.message}`,
+          this.name
+        );
+      }
+
+      throw new LLMProviderError(
+        "REQUEST_FAILED",
+        `Error al conectar con ${this.name}: ${error instanceof Error ? error.message : error}`,
+        this.name
+      );
+    }
+  }
+}
+
+/**
+ * API de OpenAI
+ */
+export class OpenAIProvider extends OpenAICompatibleProvider {
+  constructor(apiKey: string = config.openai.apiKey) {
+    super({ name: "openai", apiKey, defaultModel: config.openai.model || "gpt-4o-mini" });
+  }
+}
+
+/**
+ * Servidor local compatible con OpenAI (p. ej. http://localhost:11434/v1 de Ollama)
+ */
+export class LocalLLMProvider extends OpenAICompatibleProvider {
+  constructor(baseURL: string = config.llm.local.baseUrl) {
+    super({
+      name: "local",
+      apiKey: config.llm.local.apiKey,
+      defaultModel: config.llm.local.model,
+      baseURL,
+      timeoutMs: config.llm.local.timeoutMs,
+      requiresApiKey: false,
+    });
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * src/services/llm/scriptedProvider.ts
+ *
+ * Proveedor determinista para pruebas y demos sin conexión: responde según
+ * reglas por coincidencia con el último mensaje del usuario.
+ * @version 1.1.0
+ * @created 2025-06-14
+ * @updated 2025-06-15
+ */
+
+import { LLMProvider, LLMProviderError, LLMRequest, LLMResponse, LLMToolCall, estimateUsage } from "./types";
+
+/**
+ * Invocaciones de herramientas a devolver (el id se genera si no se indica)
+ */
+export interface ScriptedToolCalls {
+  toolCalls: Array<Omit<LLMToolCall, "id"> & { id?: string }>;
+}
+
+/**
+ * Regla de respuesta: si el último mensaje coincide con `match` se responde `response`.
+ * Una respuesta de tipo Error simula una falla del proveedor; una función recibe la
+ * solicitud (p. ej. para responder con los resultados de las herramientas).
+ * Las reglas que invocan herramientas no aplican cuando el último mensaje ya es
+ * el resultado de una herramienta.
+ */
+export interface ScriptedRule {
+  match?: string | RegExp;  // Sin match la regla aplica siempre
+  response: string | Error | ScriptedToolCalls | ((request: LLMRequest) => string);
+}
+
+function isToolCalls(response: ScriptedRule["response"]): response is ScriptedToolCalls {
+  return typeof response === "object" && !(response instanceof Error) && Array.isArray(response.toolCalls);
+}
+
+export class ScriptedLLMProvider implements LLMProvider {
+  readonly name: string;
+  readonly defaultModel = "scripted";
+  /** Solicitudes recibidas, en orden */
+  readonly requests: LLMRequest[] = [];
+  private sequence = 0;
+
+  constructor(
+    private rules: ScriptedRule[] = [],
+    private fallbackResponse: string = "Respuesta de prueba",
+    name: string = "scripted"
+  ) {
+    this.name = name;
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    this.requests.push(request);
+
+    const lastUserMessage = [...request.messages].reverse().find((message) => message.role === "user")?.content || "";
+    const afterTool = request.messages[request.messages.length - 1]?.role === "tool";
+    const rule = this.rules.find((candidate) => {
+      if (afterTool && isToolCalls(candidate.response)) return false;
+      if (!candidate.match) return true;
+      return typeof candidate.match === "string"
+        ? lastUserMessage.toLowerCase().includes(candidate.match.toLowerCase())
+        : candidate.match.test(lastUserMessage);
+    });
+
+    const response = rule ? rule.response : this.fallbackResponse;
+    if (response instanceof Error) {
+      throw new LLMProviderError("REQUEST_FAILED", response.message, this.name);
+    }
+
+    if (isToolCalls(response)) {
+      const toolCalls = response.toolCalls.map((call) => ({
+        id: call.id || `call_${++this.sequence}`,
+        name: call.name,
+        arguments: call.arguments,
+      }));
+      return {
+        text: "",
+        toolCalls,
+        provider: this.name,
+        model: request.model || this.defaultModel,
+        usage: estimateUsage(request, JSON.stringify(toolCalls)),
+      };
+    }
+
+    const text = typeof response === "function" ? response(request) : response;
+    return {
+      text,
+      provider: this.name,
+      model: request.model || this.defaultModel,
+      usage: estimateUsage(request, text),
+    };
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * src/services/llm/types.ts
+ *
+ * Tipos comunes de los proveedores de modelos de lenguaje.
+ * @version 1.1.0
+ * @created 2025-06-14
+ * @updated 2025-06-15
+ */
+
+/**
+ * Herramienta (función) que el modelo puede invocar
+ */
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>; // JSON Schema de los argumentos
+}
+
+/**
+ * Invocación de una herramienta solicitada por el modelo
+ */
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+/**
+ * Mensaje de la conversación enviada al modelo.
+ * Los mensajes "tool" llevan el resultado de una herramienta (toolCallId)
+ * y los del asistente pueden llevar las invocaciones que lo originaron.
+ */
+export interface LLMMessage {
+  role: "user" | "assistant" | "tool";
+  content: string;
+  toolCalls?: LLMToolCall[];
+  toolCallId?: string;
+}
+
+/**
+ * Solicitud de completado
+ */
+export interface LLMRequest {
+  systemPrompt: string;
+  messages: LLMMessage[];
+  model?: string;        // Si no se indica se usa el modelo por defecto del proveedor
+  temperature?: number;
+  maxTokens?: number;
+  tools?: LLMToolDefinition[];
+}
+
+/**
+ * Tokens consumidos por una llamada
+ */
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimated: boolean;    // true si el proveedor no informó el consumo
+}
+
+/**
+ * Respuesta de un proveedor
+ */
+export interface LLMResponse {
+  text: string;              // Puede estar vacío si el modelo solo invoca herramientas
+  toolCalls?: LLMToolCall[];
+  provider: string;
+  model: string;
+  usage: LLMUsage;
+}
+
+/**
+ * Proveedor de modelos de lenguaje
+ */
+export interface LLMProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  /** Indica si el proveedor tiene la configuración necesaria para usarse */
+  isAvailable(): boolean;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+/**
+ * Códigos de error de los proveedores
+ */
+export type LLMErrorCode =
+  | "NOT_CONFIGURED"
+  | "UNKNOWN_PROVIDER"
+  | "REQUEST_FAILED"
+  | "EMPTY_RESPONSE"
+  | "ALL_PROVIDERS_FAILED";
+
+export class LLMProviderError extends Error {
+  constructor(public code: LLMErrorCode, message: string, public provider?: string) {
+    super(message);
+    this.name = "LLMProviderError";
+  }
+}
+
+/**
+ * Estimación de tokens usada cuando el proveedor no informa el consumo
+ */
+export function estimateUsage(request: LLMRequest, text: string): LLMUsage {
+  const promptChars = request.systemPrompt.length + request.messages.reduce((sum, message) => sum + message.content.length, 0);
+  const promptTokens = Math.ceil(promptChars / 4);
+  const completionTokens = Math.ceil(text.length / 4);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, estimated: true };
+}
@@ -0,0 +1,668 @@
+/**
+ * src/services/messageDelivery.ts
+ *
+ * Registro de entrega de mensajes salientes.
+ * Cada envío de providerService queda registrado con su estado
+ * (queued, sent, delivered, read, failed); los estados que informa el proveedor
+ * (evento "message_status" de WhatsApp Cloud API) lo actualizan, y los fallos
+ * transitorios se reintentan con espera exponencial. Los cambios de estado se
+ * guardan como eventos para consultar la línea de tiempo de una conversación.
+ * @version 1.0.1
+ * @created 2025-06-17
+ * @updated 2025-06-17
+ */
+
+import type { ProviderClass } from "@builderbot/bot";
+import logger from "../utils/logger";
+import { config } from "../config";
+import { getSupabaseAdminClient, getValidTenantUuid } from "./supabase";
+import { MetaProviderError } from "../provider/metaProvider";
+import { normalizeWhatsAppNumber } from "../provider/whatsappProviderPool";
+
+/**
+ * Estados de un mensaje saliente
+ */
+export type MessageDeliveryStatus = "queued" | "sent" | "delivered" | "read" | "failed";
+
+export type OutboundMessageType = "text" | "buttons" | "list" | "media";
+
+/**
+ * Lista interactiva (secciones con filas)
+ */
+export interface OutboundList {
+  header?: string;
+  body: string;
+  footer?: string;
+  buttonText: string;
+  sections: Array<{
+    title: string;
+    rows: Array<{
+      id: string;
+      title: string;
+      description?: string;
+    }>;
+  }>;
+}
+
+/**
+ * Datos del mensaje según su tipo (se guardan para poder reintentar)
+ */
+export interface OutboundPayload {
+  buttons?: Array<{ body: string; id?: string }>;
+  list?: OutboundList;
+  mediaUrl?: string;
+}
+
+/**
+ * Mensaje por enviar
+ */
+export interface OutboundMessage {
+  type: OutboundMessageType;
+  to: string;
+  text: string;
+  payload?: OutboundPayload;
+}
+
+/**
+ * Mensaje registrado (tabla message_deliveries)
+ */
+export interface MessageDelivery {
+  id: string;
+  tenant_id: string;
+  recipient: string;
+  recipient_key: string;
+  message_type: OutboundMessageType;
+  content: string;
+  payload?: OutboundPayload | null;
+  status: MessageDeliveryStatus;
+  channel_message_id?: string | null;
+  attempts: number;
+  next_attempt_at?: string | null;
+  last_error?: string | null;
+  sent_at?: string | null;
+  delivered_at?: string | null;
+  read_at?: string | null;
+  failed_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type NewMessageDelivery = Omit<MessageDelivery, "id" | "created_at" | "updated_at">;
+
+/**
+ * Cambio de estado (tabla message_delivery_events)
+ */
+export interface MessageDeliveryEvent {
+  id: string;
+  delivery_id: string;
+  status: MessageDeliveryStatus;
+  detail?: string | null;
+  created_at: string;
+}
+
+export type NewMessageDeliveryEvent = Omit<MessageDeliveryEvent, "id">;
+
+/**
+ * Estado informado por el proveedor (compatible con MetaMessageStatus)
+ */
+export interface DeliveryStatusUpdate {
+  messageId: string;
+  status: "sent" | "delivered" | "read" | "failed";
+  timestamp?: string;
+  error?: { code?: number | string; title?: string };
+}
+
+/**
+ * Línea de tiempo de entrega de una conversación
+ */
+export interface DeliveryTimeline {
+  tenantId: string;
+  recipient: string;
+  deliveries: Array<MessageDelivery & { events: MessageDeliveryEvent[] }>;
+}
+
+export type MessageDeliveryErrorCode = "NO_PROVIDER" | "UNSUPPORTED_MESSAGE";
+
+export class MessageDeliveryError extends Error {
+  constructor(public code: MessageDeliveryErrorCode, message: string) {
+    super(message);
+    this.name = "MessageDeliveryError";
+  }
+}
+
+/**
+ * Almacenamiento del registro de entregas
+ */
+export interface MessageDeliveryStore {
+  insert(delivery: NewMessageDelivery): Promise<MessageDelivery>;
+  update(id: string, changes: Partial<MessageDelivery>): Promise<void>;
+  addEvent(event: NewMessageDeliveryEvent): Promise<void>;
+  findByChannelMessageId(channelMessageId: string): Promise<MessageDelivery | null>;
+  claimDueRetries(now: Date, leaseUntil: Date, limit: number): Promise<MessageDelivery[]>;
+  listByRecipient(tenantId: string, recipientKey: string, limit: number): Promise<MessageDelivery[]>;
+  listEvents(deliveryIds: string[]): Promise<MessageDeliveryEvent[]>;
+}
+
+/**
+ * Clave de conversación: solo dígitos del destino (o el destino si no es un número)
+ */
+export function toRecipientKey(to: string): string {
+  return normalizeWhatsAppNumber(to) || String(to || "").trim();
+}
+
+/**
+ * Almacenamiento en Supabase (tablas message_deliveries y message_delivery_events)
+ */
+export class SupabaseMessageDeliveryStore implements MessageDeliveryStore {
+  async insert(delivery: NewMessageDelivery): Promise<MessageDelivery> {
+    const { data, error } = await getSupabaseAdminClient().from("message_deliveries").insert(delivery).select().single();
+    if (error) throw new Error(`Error al registrar mensaje saliente: ${error.message}`);
+    return data as MessageDelivery;
+  }
+
+  async update(id: string, changes: Partial<MessageDelivery>): Promise<void> {
+    const { error } = await getSupabaseAdminClient()
+      .from("message_deliveries")
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq("id", id);
+    if (error) throw new Error(`Error al actualizar mensaje saliente ${id}: ${error.message}`);
+  }
+
+  async addEvent(event: NewMessageDeliveryEvent): Promise<void> {
+    const { error } = await getSupabaseAdminClient().from("message_delivery_events").insert(event);
+    if (error) throw new Error(`Error al registrar evento de entrega: ${error.message}`);
+  }
+
+  async findByChannelMessageId(channelMessageId: string): Promise<MessageDelivery | null> {
+    const { data, error } = await getSupabaseAdminClient()
+      .from("message_deliveries")
+      .select("*")
+      .eq("channel_message_id", channelMessageId)
+      .limit(1);
+    if (error) throw new Error(`Error al buscar mensaje ${channelMessageId}: ${error.message}`);
+    return (data && (data[0] as MessageDelivery)) || null;
+  }
+
+  async claimDueRetries(now: Date, leaseUntil: Date, limit: number): Promise<MessageDelivery[]> {
+    const supabase = getSupabaseAdminClient();
+    const { data, error } = await supabase
+      .from("message_deliveries")
+      .select("*")
+      .eq("status", "queued")
+      .lte("next_attempt_at", now.toISOString())
+      .order("next_attempt_at")
+      .limit(limit);
+    if (error) throw new Error(`Error al obtener reintentos pendientes: ${error.message}`);
+
+    // Se aparta cada mensaje hasta leaseUntil solo si nadie lo tomó antes (evita envíos duplicados
+    // entre instancias); si la instancia cae a mitad del envío, vuelve a vencer al terminar el plazo
+    const claimed: MessageDelivery[] = [];
+    for (const delivery of data || []) {
+      const { data: updated } = await supabase
+        .from("message_deliveries")
+        .update({ next_attempt_at: leaseUntil.toISOString(), updated_at: now.toISOString() })
+        .eq("id", delivery.id)
+        .eq("status", "queued")
+        .eq("next_attempt_at", delivery.next_attempt_at)
+        .select()
+        .maybeSingle();
+      if (updated) claimed.push(updated as MessageDelivery);
+    }
+    return claimed;
+  }
+
+  async listByRecipient(tenantId: string, recipientKey: string, limit: number): Promise<MessageDelivery[]> {
+    const { data, error } = await getSupabaseAdminClient()
+      .from("message_deliveries")
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .eq("recipient_key", recipientKey)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+    if (error) throw new Error(`Error al obtener mensajes de ${recipientKey}: ${error.message}`);
+    return (data || []) as MessageDelivery[];
+  }
+
+  async listEvents(deliveryIds: string[]): Promise<MessageDeliveryEvent[]> {
+    if (deliveryIds.length === 0) return [];
+    const { data, error } = await getSupabaseAdminClient()
+      .from("message_delivery_events")
+      .select("*")
+      .in("delivery_id", deliveryIds)
+      .order("created_at");
+    if (error) throw new Error(`Error al obtener eventos de entrega: ${error.message}`);
+    return (data || []) as MessageDeliveryEvent[];
+  }
+}
+
+/**
+ * Almacenamiento en memoria (pruebas o sin Supabase)
+ */
+export class MemoryMessageDeliveryStore implements MessageDeliveryStore {
+  deliveries: MessageDelivery[] = [];
+  events: MessageDeliveryEvent[] = [];
+  private sequence = 0;
+
+  async insert(delivery: NewMessageDelivery): Promise<MessageDelivery> {
+    const now = new Date().toISOString();
+    const created = { ...delivery, id: `delivery-${++this.sequence}`, created_at: now, updated_at: now };
+    this.deliveries.push(created);
+    return { ...created };
+  }
+
+  async update(id: string, changes: Partial<MessageDelivery>): Promise<void> {
+    const delivery = this.deliveries.find((candidate) => candidate.id === id);
+    if (delivery) Object.assign(delivery, changes, { updated_at: new Date().toISOString() });
+  }
+
+  async addEvent(event: NewMessageDeliveryEvent): Promise<void> {
+    this.events.push({ ...event, id: `event-${++this.sequence}` });
+  }
+
+  async findByChannelMessageId(channelMessageId: string): Promise<MessageDelivery | null> {
+    const delivery = this.deliveries.find((candidate) => candidate.channel_message_id === channelMessageId);
+    return delivery ? { ...delivery } : null;
+  }
+
+  async claimDueRetries(now: Date, leaseUntil: Date, limit: number): Promise<MessageDelivery[]> {
+    const due = this.deliveries
+      .filter((delivery) => delivery.status === "queued" && !!delivery.next_attempt_at && new Date(delivery.next_attempt_at) <= now)
+      .sort((a, b) => String(a.next_attempt_at).localeCompare(String(b.next_attempt_at)))
+      .slice(0, limit);
+    due.forEach((delivery) => (delivery.next_attempt_at = leaseUntil.toISOString()));
+    return due.map((delivery) => ({ ...delivery }));
+  }
+
+  async listByRecipient(tenantId: string, recipientKey: string, limit: number): Promise<MessageDelivery[]> {
+    return this.deliveries
+      .filter((delivery) => delivery.tenant_id === tenantId && delivery.recipient_key === recipientKey)
+      .sort((a, b) => String(b.created_at).localeCompare(String(a.created_at)))
+      .slice(0, limit)
+      .map((delivery) => ({ ...delivery }));
+  }
+
+  async listEvents(deliveryIds: string[]): Promise<MessageDeliveryEvent[]> {
+    return this.events
+      .filter((event) => deliveryIds.includes(event.delivery_id))
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+}
+
+// Orden de avance: un estado nunca retrocede (los webhooks pueden llegar desordenados)
+const STATUS_RANK: Record<MessageDeliveryStatus, number> = {
+  queued: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3,
+  failed: 4,
+};
+
+// Códigos de error de WhatsApp Cloud API que se resuelven reintentando
+// (límite de velocidad, error desconocido, servicio no disponible)
+const RETRYABLE_STATUS_CODES = ["130429", "131000", "131016"];
+
+// Errores de red de Node (sin respuesta HTTP) que se resuelven reintentando
+const TRANSIENT_NETWORK_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "ESOCKETTIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "ENETUNREACH",
+  "EHOSTUNREACH",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_SOCKET",
+];
+
+/**
+ * Indica si un error de envío es transitorio (conviene reintentar).
+ * Cualquier otro error (destinatario inválido, errores de programación) es definitivo.
+ */
+export function isTransientDeliveryError(error: unknown): boolean {
+  if (error instanceof MessageDeliveryError) return error.code === "NO_PROVIDER";
+
+  const candidate = error as {
+    status?: unknown;
+    statusCode?: unknown;
+    response?: { status?: unknown };
+    code?: unknown;
+    name?: unknown;
+    cause?: { code?: unknown };
+  } | null;
+  const status = candidate?.status ?? candidate?.statusCode ?? candidate?.response?.status;
+  if (typeof status === "number") return status === 408 || status === 429 || status >= 500;
+
+  // Sin respuesta HTTP: la Graph API no respondió (MetaProviderError solo lleva status si hubo respuesta)
+  if (error instanceof MetaProviderError) return error.code === "REQUEST_FAILED";
+
+  // Caída de red o tiempo agotado (fetch deja el código en cause)
+  const code = candidate?.code ?? candidate?.cause?.code;
+  if (typeof code === "string" && TRANSIENT_NETWORK_CODES.includes(code)) return true;
+  return candidate?.name === "AbortError" || candidate?.name === "TimeoutError";
+}
+
+/**
+ * ID del mensaje en el canal a partir de la respuesta del proveedor
+ * (Cloud API: messageId, Baileys: key.id, Twilio: sid)
+ */
+export function extractChannelMessageId(result: unknown): string | null {
+  const sent = result as { messageId?: string; key?: { id?: string }; sid?: string } | null;
+  return sent?.messageId || sent?.key?.id || sent?.sid || null;
+}
+
+/**
+ * Fecha de un estado informado por el proveedor (segundos Unix o ISO)
+ */
+function parseStatusTimestamp(timestamp: string | undefined, fallback: Date): string {
+  if (timestamp && /^\d+$/.test(timestamp)) return new Date(parseInt(timestamp, 10) * 1000).toISOString();
+  const parsed = timestamp ? new Date(timestamp) : null;
+  return parsed && !isNaN(parsed.getTime()) ? parsed.toISOString() : fallback.toISOString();
+}
+
+/**
+ * Envío real de un mensaje registrado
+ */
+export interface MessageDeliveryDependencies {
+  resolveProvider(tenantId: string): Promise<ProviderClass | null>;
+  dispatch(provider: ProviderClass, delivery: MessageDelivery): Promise<unknown>;
+}
+
+const defaultDependencies: MessageDeliveryDependencies = {
+  resolveProvider: async (tenantId) => {
+    const { getProviderForTenant } = await import("./providerService");
+    return getProviderForTenant(tenantId);
+  },
+  dispatch: async (provider, delivery) => {
+    const { dispatchDelivery } = await import("./providerService");
+    return dispatchDelivery(provider, delivery);
+  },
+};
+
+/**
+ * Opciones del registro de entregas
+ */
+interface MessageDeliveryOptions {
+  intervalMs: number;
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  batchSize: number;
+  leaseMs: number; // Tiempo que un mensaje en envío queda apartado del ciclo de reintentos
+}
+
+/**
+ * Registro de entrega de mensajes salientes con reintentos
+ */
+export class MessageDeliveryService {
+  private static instance: MessageDeliveryService;
+  private options: MessageDeliveryOptions;
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+  private trackedProviders = new WeakSet<object>();
+
+  constructor(
+    private store: MessageDeliveryStore,
+    private deps: MessageDeliveryDependencies = defaultDependencies,
+    options: Partial<MessageDeliveryOptions> = {}
+  ) {
+    this.options = {
+      intervalMs: config.messageDelivery.retryIntervalMs,
+      maxAttempts: config.messageDelivery.maxAttempts,
+      baseDelayMs: config.messageDelivery.retryBaseDelayMs,
+      maxDelayMs: config.messageDelivery.retryMaxDelayMs,
+      batchSize: 20,
+      leaseMs: 5 * 60 * 1000,
+      ...options,
+    };
+  }
+
+  /**
+   * Obtiene la instancia compartida (Supabase si está habilitado, memoria si no)
+   */
+  static getInstance(): MessageDeliveryService {
+    if (!MessageDeliveryService.instance) {
+      const store = config.supabase.enabled
+        ? new SupabaseMessageDeliveryStore()
+        : new MemoryMessageDeliveryStore();
+      MessageDeliveryService.instance = new MessageDeliveryService(store);
+    }
+    return MessageDeliveryService.instance;
+  }
+
+  /**
+   * Inicia el ciclo periódico de reintentos
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.processRetries().catch((error) => logger.error(`Entregas: error en ciclo de reintentos: ${error}`));
+    }, this.options.intervalMs);
+    this.timer.unref?.();
+
+    logger.info(`Reintentos de mensajes salientes activos (cada ${this.options.intervalMs} ms)`);
+  }
+
+  /**
+   * Detiene el ciclo de reintentos
+   */
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Escucha los estados de entrega que informa un proveedor (una sola vez por proveedor)
+   */
+  trackProvider(provider: ProviderClass): void {
+    if (this.trackedProviders.has(provider)) return;
+    this.trackedProviders.add(provider);
+
+    provider.on("message_status", (update: DeliveryStatusUpdate) => {
+      this.handleStatusUpdate(update).catch((error) =>
+        logger.error(`Entregas: error al procesar estado de ${update?.messageId}: ${error}`)
+      );
+    });
+  }
+
+  /**
+   * Registra un mensaje y hace el primer intento de envío
+   * @param tenantId Tenant que envía
+   * @param message Mensaje por enviar
+   * @returns Registro con el estado resultante (sent, queued para reintento o failed)
+   */
+  async deliver(tenantId: string | undefined, message: OutboundMessage, now: Date = new Date()): Promise<MessageDelivery> {
+    const newDelivery: NewMessageDelivery = {
+      tenant_id: getValidTenantUuid(tenantId),
+      recipient: message.to,
+      recipient_key: toRecipientKey(message.to),
+      message_type: message.type,
+      content: message.text || "",
+      payload: message.payload || null,
+      status: "queued",
+      attempts: 0,
+      // Apartado del ciclo de reintentos mientras se hace el primer intento
+      next_attempt_at: new Date(now.getTime() + this.options.leaseMs).toISOString(),
+    };
+
+    // Si el registro no está disponible el mensaje se envía igual (sin reintentos)
+    let delivery: MessageDelivery;
+    try {
+      delivery = await this.store.insert(newDelivery);
+    } catch (error) {
+      logger.error(`Entregas: no se pudo registrar el mensaje a ${message.to}: ${error}`);
+      delivery = { ...newDelivery, id: "" };
+    }
+
+    await this.recordEvent(delivery, "queued", now);
+    return this.attempt(delivery, now, tenantId);
+  }
+
+  /**
+   * Reintenta los mensajes en cola cuyo plazo venció
+   * @returns Número de mensajes procesados
+   */
+  async processRetries(now: Date = new Date()): Promise<number> {
+    if (this.processing) return 0;
+    this.processing = true;
+
+    try {
+      const leaseUntil = new Date(now.getTime() + this.options.leaseMs);
+      const deliveries = await this.store.claimDueRetries(now, leaseUntil, this.options.batchSize);
+      for (const delivery of deliveries) {
+        await this.attempt(delivery, now);
+      }
+      return deliveries.length;
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Aplica un estado informado por el proveedor
+   * @returns Registro actualizado, o null si el mensaje no está registrado o el estado no avanza
+   */
+  async handleStatusUpdate(update: DeliveryStatusUpdate, now: Date = new Date()): Promise<MessageDelivery | null> {
+    if (!update?.messageId || !(update.status in STATUS_RANK)) return null;
+
+    const delivery = await this.store.findByChannelMessageId(update.messageId);
+    if (!delivery) return null;
+
+    const at = parseStatusTimestamp(update.timestamp, now);
+
+    if (update.status === "failed") {
+      // Un mensaje ya entregado no puede fallar; uno en cola ya se está reintentando
+      if (delivery.status !== "sent") return null;
+
+      const code = update.error?.code !== undefined ? String(update.error.code) : "";
+      const detail = `${update.error?.title || "Fallo informado por el proveedor"}${code ? ` (${code})` : ""}`;
+      const retry = RETRYABLE_STATUS_CODES.includes(code) && delivery.attempts < this.options.maxAttempts;
+      return this.applyFailure(delivery, detail, retry, now);
+    }
+
+    // Un "delivered" o "read" tardío corrige un fallo; lo demás solo avanza
+    if (delivery.status !== "failed" && STATUS_RANK[update.status] <= STATUS_RANK[delivery.status]) return null;
+
+    const changes: Partial<MessageDelivery> = { status: update.status, next_attempt_at: null };
+    if (update.status === "sent") changes.sent_at = delivery.sent_at || at;
+    if (update.status === "delivered") changes.delivered_at = at;
+    if (update.status === "read") {
+      changes.read_at = at;
+      changes.delivered_at = delivery.delivered_at || at; // WhatsApp puede omitir "delivered" si se lee al instante
+    }
+
+    await this.save(delivery, changes);
+    await this.recordEvent(delivery, update.status, new Date(at));
+    return delivery;
+  }
+
+  /**
+   * Línea de tiempo de entrega de una conversación (mensajes más recientes, en orden cronológico)
+   * @param tenantId Tenant
+   * @param recipient Número del cliente (cualquier formato)
+   * @param limit Máximo de mensajes
+   */
+  async getTimeline(tenantId: string, recipient: string, limit: number = 50): Promise<DeliveryTimeline> {
+    const recipientKey = toRecipientKey(recipient);
+    const deliveries = (await this.store.listByRecipient(tenantId, recipientKey, limit)).reverse();
+    const events = await this.store.listEvents(deliveries.map((delivery) => delivery.id));
+
+    return {
+      tenantId,
+      recipient: recipientKey,
+      deliveries: deliveries.map((delivery) => ({
+        ...delivery,
+        events: events.filter((event) => event.delivery_id === delivery.id),
+      })),
+    };
+  }
+
+  /**
+   * Intento de envío: marca sent, o queued con espera exponencial si el fallo es transitorio
+   */
+  private async attempt(delivery: MessageDelivery, now: Date, tenantId: string = delivery.tenant_id): Promise<MessageDelivery> {
+    const attempts = delivery.attempts + 1;
+
+    try {
+      const provider = await this.deps.resolveProvider(tenantId);
+      if (!provider) throw new MessageDeliveryError("NO_PROVIDER", "Proveedor no inicializado");
+      this.trackProvider(provider);
+
+      const result = await this.deps.dispatch(provider, delivery);
+      await this.save(delivery, {
+        status: "sent",
+        attempts,
+        channel_message_id: extractChannelMessageId(result),
+        sent_at: now.toISOString(),
+        next_attempt_at: null,
+        last_error: null,
+      });
+      await this.recordEvent(delivery, "sent", now, attempts > 1 ? `Enviado en el intento ${attempts}` : null);
+      logger.info(`Entregas: ${delivery.message_type} enviado a ${delivery.recipient}`);
+      return delivery;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      // Sin registro guardado no hay reintento posible
+      const retry = !!delivery.id && attempts < this.options.maxAttempts && isTransientDeliveryError(error);
+      delivery.attempts = attempts;
+      return this.applyFailure(delivery, message, retry, now);
+    }
+  }
+
+  /**
+   * Programa un reintento o marca el mensaje como fallido
+   */
+  private async applyFailure(delivery: MessageDelivery, detail: string, retry: boolean, now: Date): Promise<MessageDelivery> {
+    if (retry) {
+      const delay = Math.min(this.options.baseDelayMs * 2 ** Math.max(delivery.attempts - 1, 0), this.options.maxDelayMs);
+      await this.save(delivery, {
+        status: "queued",
+        next_attempt_at: new Date(now.getTime() + delay).toISOString(),
+        last_error: detail,
+      });
+      await this.recordEvent(delivery, "queued", now, `Reintento ${delivery.attempts + 1} en ${Math.round(delay / 1000)} s: ${detail}`);
+      logger.warn(`Entregas: fallo transitorio enviando a ${delivery.recipient}, reintento en ${delay} ms: ${detail}`);
+    } else {
+      await this.save(delivery, {
+        status: "failed",
+        failed_at: now.toISOString(),
+        next_attempt_at: null,
+        last_error: detail,
+      });
+      await this.recordEvent(delivery, "failed", now, detail);
+      logger.error(`Entregas: mensaje a ${delivery.recipient} fallido tras ${delivery.attempts} intento(s): ${detail}`);
+    }
+    return delivery;
+  }
+
+  /**
+   * Actualiza el registro (los errores del almacenamiento no detienen el envío)
+   */
+  private async save(delivery: MessageDelivery, changes: Partial<MessageDelivery>): Promise<void> {
+    Object.assign(delivery, changes);
+    if (!delivery.id) return;
+    try {
+      await this.store.update(delivery.id, { ...changes, attempts: delivery.attempts });
+    } catch (error) {
+      logger.error(`Entregas: error al actualizar ${delivery.id}: ${error}`);
+    }
+  }
+
+  private async recordEvent(
+    delivery: MessageDelivery,
+    status: MessageDeliveryStatus,
+    at: Date,
+    detail: string | null = null
+  ): Promise<void> {
+    if (!delivery.id) return;
+    try {
+      await this.store.addEvent({ delivery_id: delivery.id, status, detail, created_at: at.toISOString() });
+    } catch (error) {
+      logger.error(`Entregas: error al registrar evento de ${delivery.id}: ${error}`);
+    }
+  }
+}
+
+export default MessageDeliveryService;
@@ -3,8 +3,8 @@
  *
  * Servicio para la síntesis de voz usando MiniMax.
  * Implementa la conversión de texto a audio (TTS) usando la API de MiniMax.
- * @version 1.0.0
- * @updated 2025-04-17
+ * @version 1.1.0
+ * @updated 2025-06-17
  */
 
 import axios from "axios";
@@ -249,20 +249,34 @@ const cleanupCache = (): void => {
   }
 };
 
+/**
+ * Convierte velocidad y tono (0.5-2.0, 1 = normal) a los valores de MiniMax:
+ * velocidad 0.5-2 y tono en semitonos (-12 a 12)
+ */
+const toMiniMaxVoiceSetting = (speed: number = 1, pitch: number = 1) => ({
+  speed: Math.min(2, Math.max(0.5, speed)),
+  pitch: Math.min(12, Math.max(-12, Math.round(12 * Math.log2(pitch > 0 ? pitch : 1)))),
+});
+
 /**
  * Sintetiza voz a partir de un texto usando la API de MiniMax
  * @param text Texto a convertir en voz
  * @param voiceId ID de la voz a utilizar (opcional)
  * @param useCache Indica si se debe usar el caché (por defecto: true)
+ * @param voiceSettings Velocidad y tono (0.5-2.0, 1 = normal)
  * @returns Buffer con el audio generado
  */
 export const synthesizeSpeechWithMiniMax = async (
   text: string,
   voiceId: string = config.minimax.voice,
-  useCache: boolean = config.minimax.cache.enabled
+  useCache: boolean = config.minimax.cache.enabled,
+  voiceSettings: { speed?: number; pitch?: number } = {}
 ): Promise<Buffer> => {
   // Declarar isAsyncMode al principio de la función
   let isAsyncMode = false;
+  const { speed, pitch } = toMiniMaxVoiceSetting(voiceSettings.speed, voiceSettings.pitch);
+  // La caché en memoria solo distingue texto y voz
+  useCache = useCache && speed === 1 && pitch === 0;
   // Declarar payload aquí para que esté disponible en todos los bloques
   let payload: any;
   try {
@@ -361,9 +375,9 @@ export const synthesizeSpeechWithMiniMax = async (
       subtitle_enable: false,
       voice_setting: {
         voice_id: safeVoiceId, // Usamos la voz validada
-        speed: 1,
+        speed,
         vol: 1,
-        pitch: 0,
+        pitch,
       },
       audio_setting: {
         sample_rate: 32000,
@@ -0,0 +1,290 @@
+/**
+ * src/services/nlu/entityExtractor.ts
+ *
+ * Extractor determinista de entidades para mensajes en español.
+ * Reconoce fechas, horas, precios, teléfonos, correos, tipos de propiedad y recámaras.
+ * @version 1.0.0
+ * @created 2025-06-04
+ */
+
+import { normalizeText } from "./textUtils";
+
+/**
+ * Tipos de entidades reconocidas por el extractor local
+ */
+export type EntityType =
+  | "email"
+  | "phone"
+  | "price"
+  | "date"
+  | "time"
+  | "property_type"
+  | "bedrooms"
+  | "number";
+
+/**
+ * Entidad extraída de un mensaje
+ */
+export interface ExtractedEntity {
+  type: EntityType | string;
+  value: any;   // Valor normalizado (número, fecha ISO, etc.)
+  raw: string;  // Texto original que generó la entidad
+}
+
+// Sinónimos de tipos de propiedad -> valor canónico
+const PROPERTY_TYPES: Record<string, string> = {
+  casa: "casa",
+  casas: "casa",
+  residencia: "casa",
+  departamento: "departamento",
+  departamentos: "departamento",
+  depto: "departamento",
+  deptos: "departamento",
+  depa: "departamento",
+  apartamento: "departamento",
+  terreno: "terreno",
+  terrenos: "terreno",
+  lote: "terreno",
+  local: "local",
+  "local comercial": "local",
+  oficina: "oficina",
+  oficinas: "oficina",
+  bodega: "bodega",
+  bodegas: "bodega",
+  penthouse: "penthouse",
+  condominio: "condominio",
+};
+
+const MONTHS: Record<string, number> = {
+  enero: 1, febrero: 2, marzo: 3, abril: 4, mayo: 5, junio: 6,
+  julio: 7, agosto: 8, septiembre: 9, setiembre: 9, octubre: 10,
+  noviembre: 11, diciembre: 12,
+};
+
+const WEEKDAYS: Record<string, number> = {
+  domingo: 0, lunes: 1, martes: 2, miercoles: 3, jueves: 4, viernes: 5, sabado: 6,
+};
+
+/**
+ * Formatea una fecha local como YYYY-MM-DD
+ */
+function toIsoDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+/**
+ * Convierte una cantidad escrita ("2.5", "1,500,000") y su multiplicador en número
+ */
+function parseAmount(amount: string, multiplier?: string): number | null {
+  let clean = amount.replace(/\s/g, "");
+
+  // "1,500,000" o "1.500.000" -> separadores de miles
+  if (/^\d{1,3}([.,]\d{3})+$/.test(clean)) {
+    clean = clean.replace(/[.,]/g, "");
+  } else {
+    clean = clean.replace(",", ".");
+  }
+
+  const value = parseFloat(clean);
+  if (isNaN(value)) return null;
+
+  const unit = (multiplier || "").toLowerCase();
+  if (/^(millones|millon|mdp|m)$/.test(unit)) return Math.round(value * 1_000_000);
+  if (/^(mil|k)$/.test(unit)) return Math.round(value * 1_000);
+  return value;
+}
+
+function extractEmails(text: string): ExtractedEntity[] {
+  const matches = text.match(/[\w.+-]+@[\w-]+(\.[\w-]+)+/g) || [];
+  return matches.map((raw) => ({ type: "email", value: raw.toLowerCase(), raw }));
+}
+
+function extractPhones(text: string): ExtractedEntity[] {
+  const entities: ExtractedEntity[] = [];
+  const regex = /(\+?\d[\d\s().-]{8,}\d)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = regex.exec(text)) !== null) {
+    const digits = match[1].replace(/\D/g, "");
+    // Teléfonos de 10 a 13 dígitos (10 nacionales + lada internacional)
+    if (digits.length >= 10 && digits.length <= 13) {
+      entities.push({ type: "phone", value: digits, raw: match[1].trim() });
+    }
+  }
+
+  return entities;
+}
+
+function extractPrices(text: string): ExtractedEntity[] {
+  const entities: ExtractedEntity[] = [];
+  const regex = /(\$\s*)?(\d+(?:[.,]\d+)*)\s*(millones|millon|mdp|mil|k|m)?\b\s*(pesos|mxn|usd|dolares)?/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = regex.exec(text)) !== null) {
+    const [raw, currencySign, amount, multiplier, currencyWord] = match;
+    // Solo consideramos precio si hay indicio monetario
+    if (!currencySign && !multiplier && !currencyWord) continue;
+
+    const value = parseAmount(amount, multiplier);
+    if (value === null) continue;
+
+    entities.push({ type: "price", value, raw: raw.trim() });
+  }
+
+  return entities;
+}
+
+function extractDates(normalized: string, referenceDate: Date): ExtractedEntity[] {
+  const entities: ExtractedEntity[] = [];
+
+  const relative: Array<[RegExp, number]> = [
+    [/\bpasado manana\b/, 2],
+    [/\bmanana\b/, 1],
+    [/\bhoy\b/, 0],
+  ];
+  for (const [regex, offset] of relative) {
+    const match = normalized.match(regex);
+    if (match) {
+      entities.push({ type: "date", value: toIsoDate(addDays(referenceDate, offset)), raw: match[0] });
+      break;
+    }
+  }
+
+  // "el lunes", "este viernes", "proximo martes"
+  const weekdayMatch = normalized.match(/\b(lunes|martes|miercoles|jueves|viernes|sabado|domingo)\b/);
+  if (weekdayMatch) {
+    const target = WEEKDAYS[weekdayMatch[1]];
+    let offset = (target - referenceDate.getDay() + 7) % 7;
+    if (offset === 0) offset = 7;
+    entities.push({ type: "date", value: toIsoDate(addDays(referenceDate, offset)), raw: weekdayMatch[0] });
+  }
+
+  // "15 de mayo", "15 de mayo de 2025"
+  const longDate = /\b(\d{1,2}) de ([a-z]+)(?: de(?:l)? (\d{4}))?\b/g;
+  let match: RegExpExecArray | null;
+  while ((match = longDate.exec(normalized)) !== null) {
+    const month = MONTHS[match[2]];
+    if (!month) continue;
+    const day = parseInt(match[1], 10);
+    let year = match[3] ? parseInt(match[3], 10) : referenceDate.getFullYear();
+    let date = new Date(year, month - 1, day);
+    // Sin año explícito, una fecha pasada se interpreta como del año siguiente
+    if (!match[3] && date < addDays(referenceDate, 0)) {
+      year++;
+      date = new Date(year, month - 1, day);
+    }
+    entities.push({ type: "date", value: toIsoDate(date), raw: match[0] });
+  }
+
+  // "2025-05-15"
+  const isoDate = /\b(\d{4})-(\d{2})-(\d{2})\b/g;
+  while ((match = isoDate.exec(normalized)) !== null) {
+    entities.push({ type: "date", value: match[0], raw: match[0] });
+  }
+
+  // "15/05/2025" o "15/05"
+  const shortDate = /\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?\b/g;
+  while ((match = shortDate.exec(normalized)) !== null) {
+    const day = parseInt(match[1], 10);
+    const month = parseInt(match[2], 10);
+    if (month < 1 || month > 12 || day < 1 || day > 31) continue;
+    let year = match[3] ? parseInt(match[3], 10) : referenceDate.getFullYear();
+    if (year < 100) year += 2000;
+    entities.push({ type: "date", value: toIsoDate(new Date(year, month - 1, day)), raw: match[0] });
+  }
+
+  return entities;
+}
+
+function extractTimes(normalized: string): ExtractedEntity[] {
+  const entities: ExtractedEntity[] = [];
+  const regex = /\b(?:a las?\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.|hrs|horas|de la manana|de la tarde|de la noche)?\b/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = regex.exec(normalized)) !== null) {
+    const [raw, hourText, minuteText, suffix] = match;
+    const explicit = raw.startsWith("a la") || minuteText !== undefined || suffix !== undefined;
+    if (!explicit) continue;
+
+    let hour = parseInt(hourText, 10);
+    const minute = minuteText ? parseInt(minuteText, 10) : 0;
+    if (hour > 23 || minute > 59) continue;
+
+    if (suffix && /pm|p\.m\.|tarde|noche/.test(suffix) && hour < 12) hour += 12;
+    if (suffix && /am|a\.m\./.test(suffix) && hour === 12) hour = 0;
+
+    entities.push({
+      type: "time",
+      value: `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`,
+      raw: raw.trim(),
+    });
+  }
+
+  return entities;
+}
+
+function extractPropertyTypes(normalized: string): ExtractedEntity[] {
+  const entities: ExtractedEntity[] = [];
+  const seen = new Set<string>();
+
+  // Los sinónimos compuestos se evalúan primero
+  const synonyms = Object.keys(PROPERTY_TYPES).sort((a, b) => b.length - a.length);
+  for (const synonym of synonyms) {
+    const match = normalized.match(new RegExp(`\\b${synonym}\\b`));
+    if (match && !seen.has(PROPERTY_TYPES[synonym])) {
+      seen.add(PROPERTY_TYPES[synonym]);
+      entities.push({ type: "property_type", value: PROPERTY_TYPES[synonym], raw: match[0] });
+    }
+  }
+
+  return entities;
+}
+
+function extractBedrooms(normalized: string): ExtractedEntity[] {
+  const match = normalized.match(/\b(\d{1,2}|una|dos|tres|cuatro|cinco)\s+(recamaras?|habitaciones?|cuartos?|dormitorios?)\b/);
+  if (!match) return [];
+
+  const words: Record<string, number> = { una: 1, dos: 2, tres: 3, cuatro: 4, cinco: 5 };
+  const value = words[match[1]] ?? parseInt(match[1], 10);
+  return [{ type: "bedrooms", value, raw: match[0] }];
+}
+
+/**
+ * Extrae todas las entidades reconocibles de un mensaje
+ * @param text Mensaje del usuario
+ * @param referenceDate Fecha de referencia para expresiones relativas ("mañana")
+ * @returns Lista de entidades encontradas
+ */
+export function extractEntities(text: string, referenceDate: Date = new Date()): ExtractedEntity[] {
+  if (!text) return [];
+
+  const normalized = normalizeText(text);
+
+  // Eliminamos correos antes de buscar teléfonos y precios para evitar falsos positivos
+  const emails = extractEmails(text);
+  const withoutEmails = emails.reduce((acc, entity) => acc.replace(entity.raw, " "), text);
+  const phones = extractPhones(withoutEmails);
+  const withoutPhones = phones.reduce((acc, entity) => acc.replace(entity.raw, " "), withoutEmails);
+
+  return [
+    ...emails,
+    ...phones,
+    ...extractPrices(withoutPhones),
+    ...extractDates(normalized, referenceDate),
+    ...extractTimes(normalizeText(withoutPhones)),
+    ...extractPropertyTypes(normalized),
+    ...extractBedrooms(normalized),
+  ];
+}
+
+export default {
+  extractEntities,
+};
@@ -0,0 +1,305 @@
+/**
+ * src/services/nlu/index.ts
+ *
+ * Servicio de comprensión del lenguaje (NLU) para condiciones de flujo.
+ * Combina un clasificador local entrenado con ejemplos por tenant,
+ * análisis de sentimiento por léxico, extracción de entidades y un
+ * clasificador LLM opcional.
+ * @version 1.0.1
+ * @created 2025-06-04
+ * @updated 2025-06-17
+ */
+
+import logger from "../../utils/logger";
+import { config } from "../../config";
+import { getSupabaseClient } from "../supabase";
+import { LocalIntentClassifier, analyzeSentiment, SentimentPrediction } from "./localClassifier";
+import { extractEntities, ExtractedEntity } from "./entityExtractor";
+import { classifyWithLLM } from "./llmClassifier";
+import { normalizeText } from "./textUtils";
+
+export type { ExtractedEntity } from "./entityExtractor";
+export { extractEntities } from "./entityExtractor";
+export type { SlotDefinition, SlotType } from "./slotExtractor";
+export { extractSlots, extractNodeSlots, normalizeSlotDefinitions } from "./slotExtractor";
+
+/**
+ * Proveedor de clasificación a utilizar
+ */
+export type NLUProvider = "local" | "llm";
+
+/**
+ * Resultado completo del análisis NLU de un mensaje
+ */
+export interface NLUResult {
+  message: string;
+  intent: string;
+  confidence: number;
+  sentiment: SentimentPrediction;
+  entities: ExtractedEntity[];
+  provider: NLUProvider;
+}
+
+// Confianza mínima por defecto para considerar una intención
+export const DEFAULT_MIN_CONFIDENCE = 0.4;
+
+// Ejemplos por defecto para el vertical inmobiliario
+export const DEFAULT_INTENT_EXAMPLES: Record<string, string[]> = {
+  saludo: ["hola", "buenos dias", "buenas tardes", "que tal", "hola buenas noches"],
+  despedida: ["adios", "hasta luego", "gracias eso es todo", "nos vemos", "bye"],
+  agendar_cita: [
+    "quiero agendar una cita",
+    "me gustaria visitar la propiedad",
+    "puedo ir a ver la casa",
+    "quiero programar una visita",
+    "cuando puedo ver el departamento",
+  ],
+  reprogramar_cita: ["quiero cambiar mi cita", "necesito reprogramar la visita", "puedo mover la cita a otro dia"],
+  cancelar_cita: ["quiero cancelar mi cita", "ya no podre asistir", "cancela la visita"],
+  consultar_precio: ["cuanto cuesta", "cual es el precio", "que precio tiene la casa", "en cuanto esta el departamento"],
+  buscar_propiedad: [
+    "busco una casa",
+    "quiero comprar un departamento",
+    "tienen terrenos en venta",
+    "busco casa de tres recamaras",
+    "que propiedades tienen disponibles",
+  ],
+  rentar: ["busco casa en renta", "quiero rentar un departamento", "tienen propiedades en alquiler"],
+  hablar_con_asesor: ["quiero hablar con un asesor", "comunicame con una persona", "necesito un agente humano"],
+  informacion: ["mas informacion", "me das detalles", "donde estan ubicados", "cual es su horario"],
+};
+
+// Tiempo tras el cual se vuelven a consultar las intenciones de un tenant
+const EXAMPLES_TTL_MS = 5 * 60 * 1000;
+
+// Ejemplos y clasificadores por tenant
+const tenantExamples = new Map<string, Record<string, string[]>>();
+const classifiers = new Map<string, LocalIntentClassifier>();
+const loadedTenants = new Map<string, number>(); // tenant -> momento de la última carga exitosa
+const pendingLoads = new Map<string, Promise<void>>();
+
+/**
+ * Registra ejemplos de intenciones para un tenant
+ * Los ejemplos se combinan con los predeterminados; una intención con el
+ * mismo nombre reemplaza a la predeterminada
+ * @param tenantId ID del tenant
+ * @param examples Mapa intención -> frases de ejemplo
+ */
+export function registerTenantExamples(
+  tenantId: string,
+  examples: Record<string, string[]>
+): void {
+  const merged = { ...(tenantExamples.get(tenantId) || {}), ...examples };
+  tenantExamples.set(tenantId, merged);
+  classifiers.set(tenantId, new LocalIntentClassifier({ ...DEFAULT_INTENT_EXAMPLES, ...merged }));
+  logger.info(`NLU: ${Object.keys(examples).length} intenciones registradas para tenant ${tenantId}`);
+}
+
+/**
+ * Carga desde Supabase los ejemplos de intenciones de un tenant (tabla tenant_nlu_intents)
+ * Vuelve a consultar cuando vence EXAMPLES_TTL_MS; una carga fallida se reintenta
+ * en la siguiente llamada
+ * @param tenantId ID del tenant
+ */
+export async function loadTenantExamples(tenantId: string): Promise<void> {
+  if (!config.supabase.enabled) return;
+
+  const loadedAt = loadedTenants.get(tenantId);
+  if (loadedAt !== undefined && Date.now() - loadedAt < EXAMPLES_TTL_MS) return;
+
+  // Mensajes simultáneos del mismo tenant comparten la consulta
+  let pending = pendingLoads.get(tenantId);
+  if (!pending) {
+    pending = fetchTenantExamples(tenantId).finally(() => pendingLoads.delete(tenantId));
+    pendingLoads.set(tenantId, pending);
+  }
+  await pending;
+}
+
+async function fetchTenantExamples(tenantId: string): Promise<void> {
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from("tenant_nlu_intents")
+      .select("intent, examples")
+      .eq("tenant_id", tenantId);
+
+    if (error) {
+      logger.warn(`NLU: no se pudieron cargar intenciones del tenant ${tenantId}: ${error.message}`);
+      return;
+    }
+
+    if (data && data.length > 0) {
+      const examples: Record<string, string[]> = {};
+      for (const row of data) {
+        examples[row.intent] = Array.isArray(row.examples) ? row.examples : [];
+      }
+      registerTenantExamples(tenantId, examples);
+    }
+    loadedTenants.set(tenantId, Date.now());
+  } catch (error) {
+    logger.error(`NLU: error al cargar intenciones del tenant ${tenantId}:`, error);
+  }
+}
+
+/**
+ * Obtiene el clasificador local del tenant (o el predeterminado)
+ */
+function getClassifier(tenantId: string): LocalIntentClassifier {
+  let classifier = classifiers.get(tenantId) || classifiers.get("__default__");
+  if (!classifier) {
+    classifier = new LocalIntentClassifier(DEFAULT_INTENT_EXAMPLES);
+    classifiers.set("__default__", classifier);
+  }
+  return classifier;
+}
+
+/**
+ * Lista las intenciones conocidas por un tenant
+ */
+export function getTenantIntents(tenantId: string): string[] {
+  return Object.keys({ ...DEFAULT_INTENT_EXAMPLES, ...(tenantExamples.get(tenantId) || {}) });
+}
+
+/**
+ * Analiza un mensaje con el clasificador local (síncrono)
+ * @param message Mensaje del usuario
+ * @param tenantId ID del tenant
+ * @returns Resultado NLU
+ */
+export function analyzeMessageSync(message: string, tenantId: string = "default"): NLUResult {
+  const prediction = getClassifier(tenantId).classify(message);
+
+  return {
+    message,
+    intent: prediction.intent,
+    confidence: prediction.confidence,
+    sentiment: analyzeSentiment(message),
+    entities: extractEntities(message),
+    provider: "local",
+  };
+}
+
+/**
+ * Analiza un mensaje, opcionalmente apoyándose en el clasificador LLM
+ * Si el LLM falla o tiene menor confianza, se conserva el resultado local
+ * @param message Mensaje del usuario
+ * @param tenantId ID del tenant
+ * @param provider Proveedor de clasificación ("local" por defecto)
+ * @returns Resultado NLU
+ */
+export async function analyzeMessage(
+  message: string,
+  tenantId: string = "default",
+  provider: NLUProvider = "local"
+): Promise<NLUResult> {
+  await loadTenantExamples(tenantId);
+  const local = analyzeMessageSync(message, tenantId);
+
+  if (provider !== "llm") return local;
+
+  const llm = await classifyWithLLM(message, getTenantIntents(tenantId));
+  if (!llm) return local;
+
+  // Unimos entidades evitando duplicados del mismo tipo y valor
+  const entities = [...local.entities];
+  for (const entity of llm.entities) {
+    const duplicate = entities.some(
+      (existing) => existing.type === entity.type && String(existing.value) === String(entity.value)
+    );
+    if (!duplicate) entities.push(entity);
+  }
+
+  const useLLMIntent = llm.intent !== "unknown" && llm.confidence >= local.confidence;
+
+  return {
+    message,
+    intent: useLLMIntent ? llm.intent : local.intent,
+    confidence: useLLMIntent ? llm.confidence : local.confidence,
+    sentiment: llm.sentiment
+      ? { label: llm.sentiment, score: local.sentiment.score }
+      : local.sentiment,
+    entities,
+    provider: useLLMIntent ? "llm" : "local",
+  };
+}
+
+// Sinónimos aceptados en las condiciones de sentimiento
+const SENTIMENT_ALIASES: Record<string, SentimentPrediction["label"]> = {
+  positive: "positive",
+  positivo: "positive",
+  negative: "negative",
+  negativo: "negative",
+  neutral: "neutral",
+  neutro: "neutral",
+};
+
+/**
+ * Verifica si la intención detectada coincide con alguna de las esperadas
+ * @param result Resultado NLU
+ * @param expected Intención o lista separada por "|" o ","
+ * @param minConfidence Confianza mínima
+ */
+export function matchesIntent(
+  result: NLUResult,
+  expected: string,
+  minConfidence: number = DEFAULT_MIN_CONFIDENCE
+): boolean {
+  if (result.confidence < minConfidence) return false;
+  const candidates = expected.split(/[|,]/).map((value) => normalizeText(value));
+  return candidates.includes(normalizeText(result.intent));
+}
+
+/**
+ * Verifica si el sentimiento detectado coincide con el esperado
+ */
+export function matchesSentiment(result: NLUResult, expected: string): boolean {
+  const label = SENTIMENT_ALIASES[normalizeText(expected)];
+  return label !== undefined && result.sentiment.label === label;
+}
+
+/**
+ * Verifica si existe una entidad del tipo indicado
+ */
+export function hasEntity(result: NLUResult, type: string): boolean {
+  const expected = normalizeText(type);
+  return result.entities.some((entity) => normalizeText(String(entity.type)) === expected);
+}
+
+/**
+ * Verifica si una entidad tiene un valor específico (comparación sin acentos ni mayúsculas)
+ */
+export function entityHasValue(result: NLUResult, type: string, value: string): boolean {
+  const expectedType = normalizeText(type);
+  const expectedValue = normalizeText(value);
+  return result.entities.some(
+    (entity) =>
+      normalizeText(String(entity.type)) === expectedType &&
+      normalizeText(String(entity.value)) === expectedValue
+  );
+}
+
+/**
+ * Agrupa las entidades por tipo tomando el primer valor de cada una
+ * Útil para exponerlas como variables de contexto
+ */
+export function entitiesToVariables(entities: ExtractedEntity[]): Record<string, any> {
+  const variables: Record<string, any> = {};
+  for (const entity of entities) {
+    if (variables[entity.type] === undefined) variables[entity.type] = entity.value;
+  }
+  return variables;
+}
+
+export default {
+  analyzeMessage,
+  analyzeMessageSync,
+  registerTenantExamples,
+  loadTenantExamples,
+  getTenantIntents,
+  matchesIntent,
+  matchesSentiment,
+  hasEntity,
+  entityHasValue,
+  entitiesToVariables,
+};
@@ -0,0 +1,89 @@
+/**
+ * src/services/nlu/llmClassifier.ts
+ *
+ * Clasificador opcional basado en LLM a través de AIServices.
+ * Devuelve intención, sentimiento y entidades en formato JSON.
+ * @version 1.0.0
+ * @created 2025-06-04
+ */
+
+import logger from "../../utils/logger";
+import { config } from "../../config";
+import { ExtractedEntity } from "./entityExtractor";
+
+/**
+ * Resultado del clasificador LLM
+ */
+export interface LLMClassification {
+  intent: string;
+  confidence: number;
+  sentiment?: "positive" | "negative" | "neutral";
+  entities: ExtractedEntity[];
+}
+
+/**
+ * Construye las instrucciones del clasificador
+ */
+function buildPrompt(intents: string[]): string {
+  return [
+    "Eres un clasificador de mensajes para un chatbot inmobiliario en español.",
+    `Intenciones posibles: ${intents.length > 0 ? intents.join(", ") : "libre"}, unknown.`,
+    "Responde SOLO con JSON válido con la forma:",
+    '{"intent": "<intención>", "confidence": <0-1>, "sentiment": "positive|negative|neutral",',
+    ' "entities": [{"type": "date|time|price|phone|email|property_type|bedrooms|<otro>", "value": <valor>, "raw": "<texto>"}]}',
+    "Las fechas en formato YYYY-MM-DD, las horas en HH:mm y los precios como número.",
+  ].join("\n");
+}
+
+/**
+ * Clasifica un mensaje con un LLM
+ * @param message Mensaje del usuario
+ * @param intents Intenciones conocidas del tenant
+ * @returns Clasificación o null si el LLM no está disponible o responde mal
+ */
+export async function classifyWithLLM(
+  message: string,
+  intents: string[]
+): Promise<LLMClassification | null> {
+  if (!config.openai.apiKey) {
+    logger.debug("Clasificador LLM no disponible: API Key de OpenAI no configurada");
+    return null;
+  }
+
+  try {
+    // Importamos dinámicamente para evitar ciclos de dependencia
+    const AIServices = (await import("../aiServices")).default;
+    const aiService = new AIServices(config.openai.apiKey);
+
+    const answer = await aiService.chat(buildPrompt(intents), [
+      { role: "user", content: message },
+    ]);
+
+    const json = answer.slice(answer.indexOf("{"), answer.lastIndexOf("}") + 1);
+    const parsed = JSON.parse(json);
+
+    return {
+      intent: String(parsed.intent || "unknown"),
+      confidence: Math.max(0, Math.min(1, Number(parsed.confidence) || 0)),
+      sentiment: ["positive", "negative", "neutral"].includes(parsed.sentiment)
+        ? parsed.sentiment
+        : undefined,
+      entities: Array.isArray(parsed.entities)
+        ? parsed.entities
+            .filter((entity: any) => entity && entity.type)
+            .map((entity: any) => ({
+              type: String(entity.type),
+              value: entity.value,
+              raw: String(entity.raw ?? entity.value ?? ""),
+            }))
+        : [],
+    };
+  } catch (error) {
+    logger.error(`Error en clasificador LLM: ${error}`);
+    return null;
+  }
+}
+
+export default {
+  classifyWithLLM,
+};
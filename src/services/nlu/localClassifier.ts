@@ -0,0 +1,216 @@
+/**
+ * src/services/nlu/localClassifier.ts
+ *
+ * Clasificador local y determinista de intenciones y sentimiento.
+ * Se entrena con frases de ejemplo por intención (TF-IDF + similitud coseno),
+ * sin dependencias externas ni embeddings.
+ * @version 1.0.0
+ * @created 2025-06-04
+ */
+
+import { extractFeatures, normalizeText } from "./textUtils";
+
+/**
+ * Resultado de clasificar la intención de un mensaje
+ */
+export interface IntentPrediction {
+  intent: string;
+  confidence: number; // 0-1
+  scores: Record<string, number>;
+}
+
+/**
+ * Resultado del análisis de sentimiento
+ */
+export interface SentimentPrediction {
+  label: "positive" | "negative" | "neutral";
+  score: number; // -1 a 1
+}
+
+type Vector = Map<string, number>;
+
+function norm(vector: Vector): number {
+  let sum = 0;
+  vector.forEach((value) => (sum += value * value));
+  return Math.sqrt(sum);
+}
+
+function cosine(a: Vector, b: Vector): number {
+  const normA = norm(a);
+  const normB = norm(b);
+  if (normA === 0 || normB === 0) return 0;
+
+  let dot = 0;
+  a.forEach((value, key) => {
+    const other = b.get(key);
+    if (other) dot += value * other;
+  });
+
+  return dot / (normA * normB);
+}
+
+/**
+ * Clasificador de intenciones entrenado con ejemplos
+ */
+export class LocalIntentClassifier {
+  private idf = new Map<string, number>();
+  private centroids = new Map<string, Vector>();
+  private exampleVectors: Array<{ intent: string; vector: Vector }> = [];
+
+  constructor(examples: Record<string, string[]> = {}) {
+    this.train(examples);
+  }
+
+  /**
+   * Entrena el clasificador con frases de ejemplo agrupadas por intención
+   * @param examples Mapa intención -> frases de ejemplo
+   */
+  train(examples: Record<string, string[]>): void {
+    this.idf.clear();
+    this.centroids.clear();
+    this.exampleVectors = [];
+
+    const documents: Array<{ intent: string; features: string[] }> = [];
+    for (const [intent, phrases] of Object.entries(examples)) {
+      for (const phrase of phrases || []) {
+        const features = extractFeatures(phrase);
+        if (features.length > 0) documents.push({ intent, features });
+      }
+    }
+
+    if (documents.length === 0) return;
+
+    // IDF por característica sobre todos los ejemplos
+    const documentFrequency = new Map<string, number>();
+    for (const doc of documents) {
+      new Set(doc.features).forEach((feature) =>
+        documentFrequency.set(feature, (documentFrequency.get(feature) || 0) + 1)
+      );
+    }
+    documentFrequency.forEach((df, feature) => {
+      this.idf.set(feature, Math.log((documents.length + 1) / (df + 1)) + 1);
+    });
+
+    // Vectores por ejemplo y centroides por intención
+    for (const doc of documents) {
+      const vector = this.vectorize(doc.features);
+      this.exampleVectors.push({ intent: doc.intent, vector });
+
+      const centroid = this.centroids.get(doc.intent) || new Map<string, number>();
+      vector.forEach((value, key) => centroid.set(key, (centroid.get(key) || 0) + value));
+      this.centroids.set(doc.intent, centroid);
+    }
+  }
+
+  /**
+   * Indica si el clasificador tiene intenciones entrenadas
+   */
+  isTrained(): boolean {
+    return this.centroids.size > 0;
+  }
+
+  private vectorize(features: string[]): Vector {
+    const vector: Vector = new Map();
+    for (const feature of features) {
+      const weight = this.idf.get(feature);
+      if (weight !== undefined) {
+        vector.set(feature, (vector.get(feature) || 0) + weight);
+      }
+    }
+    return vector;
+  }
+
+  /**
+   * Clasifica un mensaje
+   * La puntuación de cada intención combina la similitud con su centroide
+   * y con su ejemplo más parecido
+   * @param text Mensaje del usuario
+   * @returns Intención más probable ("unknown" si no hay coincidencias)
+   */
+  classify(text: string): IntentPrediction {
+    const vector = this.vectorize(extractFeatures(text));
+    const scores: Record<string, number> = {};
+
+    if (vector.size === 0) {
+      return { intent: "unknown", confidence: 0, scores };
+    }
+
+    const bestExample: Record<string, number> = {};
+    for (const example of this.exampleVectors) {
+      const similarity = cosine(vector, example.vector);
+      bestExample[example.intent] = Math.max(bestExample[example.intent] || 0, similarity);
+    }
+
+    this.centroids.forEach((centroid, intent) => {
+      scores[intent] = (cosine(vector, centroid) + (bestExample[intent] || 0)) / 2;
+    });
+
+    let best = "unknown";
+    let bestScore = 0;
+    for (const [intent, score] of Object.entries(scores)) {
+      if (score > bestScore) {
+        best = intent;
+        bestScore = score;
+      }
+    }
+
+    return {
+      intent: best,
+      confidence: Math.round(Math.min(bestScore, 1) * 1000) / 1000,
+      scores,
+    };
+  }
+}
+
+// Léxico de sentimiento (palabras normalizadas sin acentos)
+const SENTIMENT_LEXICON: Record<string, number> = {
+  excelente: 2, genial: 2, perfecto: 2, encanta: 2, increible: 2, maravilloso: 2,
+  gracias: 1, bien: 1, bueno: 1, buena: 1, gusta: 1, interesa: 1, interesado: 1,
+  interesada: 1, claro: 0.5, listo: 0.5, feliz: 2, contento: 2, contenta: 2, super: 1,
+  mal: -1, malo: -1, mala: -1, pesimo: -2, horrible: -2, terrible: -2, molesto: -2,
+  molesta: -2, enojado: -2, enojada: -2, caro: -1, cara: -1, queja: -2, problema: -1,
+  nunca: -1, tarde: -0.5, lento: -1, decepcionado: -2, decepcionada: -2, odio: -2,
+  fraude: -2, estafa: -2, cancelar: -1, harto: -2, harta: -2,
+};
+
+const NEGATIONS = new Set(["no", "ni", "tampoco", "sin", "nada"]);
+const INTENSIFIERS: Record<string, number> = { muy: 1.5, super: 1.5, bastante: 1.3, demasiado: 1.5 };
+
+/**
+ * Analiza el sentimiento de un mensaje con un léxico en español
+ * Maneja negaciones ("no me gusta") e intensificadores ("muy malo")
+ * @param text Mensaje del usuario
+ * @returns Etiqueta y puntuación normalizada
+ */
+export function analyzeSentiment(text: string): SentimentPrediction {
+  const words = normalizeText(text).split(/[^a-z0-9ñ]+/).filter(Boolean);
+  let total = 0;
+  let matches = 0;
+
+  for (let i = 0; i < words.length; i++) {
+    const weight = SENTIMENT_LEXICON[words[i]];
+    if (weight === undefined) continue;
+
+    let value = weight;
+    // Revisamos hasta dos palabras anteriores
+    for (const previous of words.slice(Math.max(0, i - 2), i)) {
+      if (NEGATIONS.has(previous)) value = -value;
+      if (INTENSIFIERS[previous]) value *= INTENSIFIERS[previous];
+    }
+
+    total += value;
+    matches++;
+  }
+
+  if (matches === 0) return { label: "neutral", score: 0 };
+
+  const score = Math.max(-1, Math.min(1, total / (matches * 2)));
+  const label = score > 0.15 ? "positive" : score < -0.15 ? "negative" : "neutral";
+
+  return { label, score: Math.round(score * 1000) / 1000 };
+}
+
+export default {
+  LocalIntentClassifier,
+  analyzeSentiment,
+};
@@ -0,0 +1,279 @@
+/**
+ * src/services/nlu/slotExtractor.ts
+ *
+ * Extracción de varios datos (slots) de una sola respuesta libre, p. ej.
+ * "Soy Ana, mi correo es ana@x.com y busco casa de 3 recámaras".
+ * Reutiliza el extractor de entidades y agrega nombre y zona.
+ * @version 1.1.0
+ * @created 2025-06-16
+ * @updated 2025-06-17
+ */
+
+import { extractEntities, ExtractedEntity } from "./entityExtractor";
+import { normalizeText } from "./textUtils";
+
+/**
+ * Tipos de dato que se pueden extraer
+ */
+export type SlotType =
+  | "name"
+  | "email"
+  | "phone"
+  | "budget"
+  | "property_type"
+  | "zone"
+  | "date"
+  | "time"
+  | "bedrooms";
+
+/**
+ * Slot declarado en un nodo: variable destino y tipo de dato
+ */
+export interface SlotDefinition {
+  variable: string;
+  type: SlotType;
+  options?: string[]; // Valores conocidos (p. ej. zonas que atiende el negocio)
+}
+
+const SLOT_TYPES: SlotType[] = ["name", "email", "phone", "budget", "property_type", "zone", "date", "time", "bedrooms"];
+
+// Nombres de variable habituales -> tipo de slot
+const VARIABLE_ALIASES: Record<string, SlotType> = {
+  name: "name",
+  nombre: "name",
+  full_name: "name",
+  nombre_completo: "name",
+  nombre_usuario: "name",
+  email: "email",
+  correo: "email",
+  correo_electronico: "email",
+  phone: "phone",
+  telefono: "phone",
+  celular: "phone",
+  whatsapp: "phone",
+  budget: "budget",
+  presupuesto: "budget",
+  property_type: "property_type",
+  tipo_propiedad: "property_type",
+  tipo_inmueble: "property_type",
+  zone: "zone",
+  zona: "zone",
+  location: "zone",
+  ubicacion: "zone",
+  colonia: "zone",
+  date: "date",
+  fecha: "date",
+  fecha_visita: "date",
+  fecha_cita: "date",
+  time: "time",
+  hora: "time",
+  hora_cita: "time",
+  bedrooms: "bedrooms",
+  recamaras: "bedrooms",
+  habitaciones: "bedrooms",
+};
+
+// Palabras que cortan un nombre ("Soy Ana y busco...") o indican que no es un nombre ("soy de Zapopan")
+const NAME_STOPWORDS = new Set([
+  "y", "e", "o", "mi", "me", "te", "le", "les", "con", "de", "del", "el", "la", "los", "las",
+  "un", "una", "que", "en", "para", "por", "desde", "muy", "yo", "su", "tu",
+  "busco", "buscando", "quiero", "estoy", "tengo", "necesito", "interesado", "interesada",
+  "cliente", "nuevo", "nueva", "correo", "email", "telefono", "celular",
+]);
+
+const NAME_PATTERN = /\b(?:me llamo|mi nombre es|soy|le habla|les saluda)\s+([a-záéíóúñü]+(?:\s+[a-záéíóúñü]+){0,3})/i;
+
+// Marcadores explícitos de zona: admiten minúsculas ("zona centro")
+const ZONE_MARKER_PATTERN =
+  /\b(?:zona|colonia|col\.|fraccionamiento|fracc\.|cerca de|rumbo a)\s+(?:de\s+|del\s+)?(?:la\s+|el\s+)?([a-záéíóúñü]+(?:\s+(?:de\s+(?:la\s+|los\s+)?|del\s+)?[A-ZÁÉÍÓÚÑ][a-záéíóúñü]+){0,3})/i;
+
+// Palabras con mayúscula que siguen a "en" y no son lugares ("en Mayo", "el Lunes")
+const NOT_ZONES = new Set([
+  "enero", "febrero", "marzo", "abril", "mayo", "junio", "julio", "agosto", "septiembre",
+  "octubre", "noviembre", "diciembre", "lunes", "martes", "miercoles", "jueves", "viernes",
+  "sabado", "domingo", "efectivo", "linea", "persona",
+]);
+
+// "en Zapopan", "por Providencia": solo nombres propios para evitar "en efectivo"
+const ZONE_PREPOSITION_PATTERN =
+  /\b(?:en|por)\s+(?:la\s+)?([A-ZÁÉÍÓÚÑ][a-záéíóúñü]+(?:\s+(?:de\s+(?:la\s+|los\s+)?|del\s+)?[A-ZÁÉÍÓÚÑ][a-záéíóúñü]+){0,3})/g;
+
+function capitalize(word: string): string {
+  return word.charAt(0).toLocaleUpperCase("es") + word.slice(1).toLocaleLowerCase("es");
+}
+
+/**
+ * Determina el tipo de slot a partir del nombre de la variable (null si no se reconoce)
+ */
+export function inferSlotType(variable: string): SlotType | null {
+  return VARIABLE_ALIASES[normalizeText(variable).replace(/\s+/g, "_")] || null;
+}
+
+/**
+ * Normaliza los slots declarados en un nodo. Acepta nombres de variable
+ * ("email", "presupuesto") u objetos con variable y tipo; descarta los que
+ * no tienen un tipo reconocible.
+ */
+export function normalizeSlotDefinitions(raw: unknown): SlotDefinition[] {
+  if (!Array.isArray(raw)) return [];
+
+  const definitions: SlotDefinition[] = [];
+  for (const entry of raw) {
+    if (typeof entry === "string" && entry.trim()) {
+      const type = inferSlotType(entry);
+      if (type) definitions.push({ variable: entry.trim(), type });
+      continue;
+    }
+
+    if (entry && typeof entry === "object" && typeof (entry as any).variable === "string") {
+      const variable = (entry as any).variable.trim();
+      const type = SLOT_TYPES.includes((entry as any).type) ? (entry as any).type : inferSlotType(variable);
+      if (!variable || !type) continue;
+      const options = Array.isArray((entry as any).options)
+        ? (entry as any).options.filter((option: unknown) => typeof option === "string" && option.trim())
+        : undefined;
+      definitions.push({ variable, type, ...(options && options.length > 0 ? { options } : {}) });
+    }
+  }
+  return definitions;
+}
+
+/**
+ * Extrae el nombre de presentaciones como "soy Ana", "me llamo Ana López"
+ */
+export function extractName(text: string): string | null {
+  const match = (text || "").match(NAME_PATTERN);
+  if (!match) return null;
+
+  const words: string[] = [];
+  for (const word of match[1].split(/\s+/)) {
+    if (NAME_STOPWORDS.has(normalizeText(word))) break;
+    words.push(capitalize(word));
+  }
+  return words.length > 0 ? words.join(" ") : null;
+}
+
+/**
+ * Extrae la zona o colonia mencionada. Si se indican opciones conocidas,
+ * se prefiere la que aparezca en el texto.
+ */
+export function extractZone(text: string, options: string[] = []): string | null {
+  if (!text) return null;
+
+  const normalized = ` ${normalizeText(text)} `;
+  const known = options.find((option) => normalized.includes(` ${normalizeText(option)} `));
+  if (known) return known;
+
+  const marker = text.match(ZONE_MARKER_PATTERN);
+  if (marker) {
+    return marker[1].split(/\s+/).map((word, index) => (index === 0 ? capitalize(word) : word)).join(" ");
+  }
+
+  for (const match of text.matchAll(ZONE_PREPOSITION_PATTERN)) {
+    // "en Mayo", "en Casa" no son zonas
+    if (NOT_ZONES.has(normalizeText(match[1])) || extractEntities(match[1]).length > 0) continue;
+    return match[1];
+  }
+  return null;
+}
+
+/**
+ * Presupuesto: el mayor precio mencionado, o el monto si la respuesta es solo un número
+ */
+function extractBudget(text: string, entities: ExtractedEntity[]): number | null {
+  const prices = entities.filter((entity) => entity.type === "price").map((entity) => Number(entity.value));
+  if (prices.length > 0) return Math.max(...prices);
+
+  const bare = text.trim().match(/^\$?\s*(\d{1,3}(?:[.,]\d{3})+|\d+)\s*$/);
+  return bare ? Number(bare[1].replace(/[.,]/g, "")) : null;
+}
+
+function firstEntity(entities: ExtractedEntity[], type: string): any {
+  return entities.find((entity) => entity.type === type)?.value ?? null;
+}
+
+/**
+ * Extrae de un mensaje los valores de los slots declarados
+ * @param text Mensaje del usuario
+ * @param slots Slots a buscar
+ * @param referenceDate Fecha de referencia para fechas relativas ("mañana")
+ * @returns Valores encontrados por nombre de variable (solo los que aparecen)
+ */
+export function extractSlots(
+  text: string,
+  slots: SlotDefinition[],
+  referenceDate: Date = new Date()
+): Record<string, any> {
+  if (!text || slots.length === 0) return {};
+
+  const entities = extractEntities(text, referenceDate);
+  const values: Record<string, any> = {};
+
+  for (const slot of slots) {
+    let value: any = null;
+    switch (slot.type) {
+      case "name":
+        value = extractName(text);
+        break;
+      case "zone":
+        value = extractZone(text, slot.options);
+        break;
+      case "budget":
+        value = extractBudget(text, entities);
+        break;
+      case "email":
+      case "phone":
+      case "property_type":
+      case "date":
+      case "time":
+      case "bedrooms":
+        value = firstEntity(entities, slot.type);
+        break;
+    }
+
+    if (isSlotFilled(value)) values[slot.variable] = value;
+  }
+  return values;
+}
+
+/**
+ * Extrae los slots declarados en un nodo de captura (INPUT, InputFlow o
+ * EnhancedDataCapture). Si el nodo declara slots y el tipo de su propia variable
+ * se reconoce por el nombre, también se busca esa variable.
+ * @param text Mensaje del usuario
+ * @param rawSlots Slots declarados en el nodo (ver normalizeSlotDefinitions)
+ * @param ownVariable Variable que captura el nodo
+ * @returns Valores encontrados por nombre de variable
+ */
+export function extractNodeSlots(
+  text: string,
+  rawSlots: unknown,
+  ownVariable?: string,
+  referenceDate: Date = new Date()
+): Record<string, any> {
+  const slots = normalizeSlotDefinitions(rawSlots);
+  const ownType = ownVariable ? inferSlotType(ownVariable) : null;
+  if (ownVariable && ownType && slots.length > 0 && !slots.some((slot) => slot.variable === ownVariable)) {
+    slots.unshift({ variable: ownVariable, type: ownType });
+  }
+  return extractSlots(text, slots, referenceDate);
+}
+
+/**
+ * Indica si una variable ya tiene un valor utilizable
+ */
+export function isSlotFilled(value: unknown): boolean {
+  if (value === null || value === undefined) return false;
+  if (typeof value === "string") return value.trim().length > 0;
+  return true;
+}
+
+export default {
+  extractSlots,
+  extractNodeSlots,
+  extractName,
+  extractZone,
+  inferSlotType,
+  normalizeSlotDefinitions,
+  isSlotFilled,
+};
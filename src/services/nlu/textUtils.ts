@@ -0,0 +1,67 @@
+/**
+ * src/services/nlu/textUtils.ts
+ *
+ * Utilidades de normalización y tokenización de texto para el módulo NLU.
+ * @version 1.0.0
+ * @created 2025-06-04
+ */
+
+// Palabras vacías en español que no aportan a la clasificación
+const STOPWORDS = new Set([
+  "a", "al", "algo", "con", "de", "del", "el", "en", "es", "esa", "ese", "eso",
+  "esta", "este", "esto", "la", "las", "le", "les", "lo", "los", "me", "mi", "mis",
+  "para", "por", "que", "se", "su", "sus", "te", "tu", "tus", "un", "una", "unas",
+  "unos", "y", "o", "ya", "yo", "muy", "pero", "como", "mas", "hay", "son", "ser",
+]);
+
+/**
+ * Normaliza un texto: minúsculas, sin acentos y sin signos de puntuación repetidos
+ * @param text Texto original
+ * @returns Texto normalizado
+ */
+export function normalizeText(text: string): string {
+  return (text || "")
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[¿¡!?,;"]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Reduce una palabra a una raíz aproximada (plurales y terminaciones comunes)
+ */
+function stem(word: string): string {
+  if (word.length > 5 && word.endsWith("es")) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith("s")) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Divide un texto en tokens normalizados sin palabras vacías
+ * @param text Texto original
+ * @returns Lista de tokens
+ */
+export function tokenize(text: string): string[] {
+  return normalizeText(text)
+    .split(/[^a-z0-9ñ]+/)
+    .filter((token) => token.length > 0 && !STOPWORDS.has(token))
+    .map(stem);
+}
+
+/**
+ * Genera características (unigramas y bigramas) para clasificación
+ * @param text Texto original
+ * @returns Lista de características
+ */
+export function extractFeatures(text: string): string[] {
+  const tokens = tokenize(text);
+  const features = [...tokens];
+
+  for (let i = 0; i < tokens.length - 1; i++) {
+    features.push(`${tokens[i]}_${tokens[i + 1]}`);
+  }
+
+  return features;
+}
@@ -2,15 +2,27 @@
  * src/services/providerService.ts
  *
  * Service for managing WhatsApp provider operations
- * Handles button sending, media messages, and other provider-specific functionality
- * @version 1.0.0
+ * Handles button sending, media messages, and other provider-specific functionality.
+ * Outbound messages are recorded in the delivery ledger (messageDelivery.ts),
+ * which tracks their status and retries transient failures
+ * @version 1.2.0
  * @created 2025-05-15
+ * @updated 2025-06-17
  */
 
 import { BaileysProvider } from "@builderbot/provider-baileys";
 import { createProvider, ProviderClass } from "@builderbot/bot";
 import logger from "../utils/logger";
 import { config } from "../config";
+import { WhatsAppProviderPool } from "../provider/whatsappProviderPool";
+import { isInteractiveProvider } from "../provider/interactiveProvider";
+import {
+  MessageDelivery,
+  MessageDeliveryError,
+  MessageDeliveryService,
+  OutboundList,
+  OutboundMessage,
+} from "./messageDelivery";
 
 // Singleton instance of the provider
 let providerInstance: ProviderClass | null = null;
@@ -20,6 +32,8 @@ let providerInstance: ProviderClass | null = null;
  */
 export const setProvider = (provider: ProviderClass): void => {
   providerInstance = provider;
+  // Delivery/read callbacks may arrive for messages sent before a restart
+  MessageDeliveryService.getInstance().trackProvider(provider);
   logger.info("Provider instance set in providerService");
 };
 
@@ -66,35 +80,99 @@ export const getProvider = (): ProviderClass | null => {
   return providerInstance;
 };
 
+/**
+ * Get the provider that sends on behalf of a tenant: its own number in the
+ * WhatsApp pool when connected, otherwise the global provider
+ */
+export const getProviderForTenant = (tenantId?: string): ProviderClass | null => {
+  const tenantProvider = tenantId ? WhatsAppProviderPool.getInstance().getProvider(tenantId) : null;
+  return tenantProvider || getProvider();
+};
+
+/**
+ * Send a registered outbound message through a provider
+ * (used by the delivery ledger for the first attempt and for retries)
+ * @param provider Provider that sends the message
+ * @param delivery Registered message
+ * @returns Provider response (carries the channel message id when available)
+ */
+export const dispatchDelivery = async (provider: ProviderClass, delivery: MessageDelivery): Promise<unknown> => {
+  const to = delivery.recipient;
+  const message = delivery.content;
+  const payload = delivery.payload || {};
+
+  switch (delivery.message_type) {
+    case "text":
+      // sendText no existe en ProviderClass, usamos sendMessage
+      return provider.sendMessage(to, message);
+
+    case "buttons": {
+      const buttons = payload.buttons || [];
+      if (isInteractiveProvider(provider)) {
+        // Native reply buttons (Meta Cloud API)
+        return provider.sendInteractiveButtons(to, message, {
+          buttons: buttons.map((button, index) => ({ id: button.id || String(index + 1), text: button.body })),
+        });
+      }
+      // sendButtons no existe en ProviderClass, usamos sendMessage
+      return provider.sendMessage(to, JSON.stringify({ message, buttons }));
+    }
+
+    case "list": {
+      const list = payload.list;
+      if (!list) throw new MessageDeliveryError("UNSUPPORTED_MESSAGE", "List message without list data");
+      if (isInteractiveProvider(provider)) {
+        // Native list message (Meta Cloud API)
+        return provider.sendInteractiveList(to, message || list.body, {
+          items: list.sections.flatMap((section) =>
+            section.rows.map((row) => ({ id: row.id, text: row.title, description: row.description }))
+          ),
+          title: list.header,
+          buttonText: list.buttonText,
+        });
+      }
+      // sendList no existe en ProviderClass, usamos sendMessage
+      return provider.sendMessage(to, JSON.stringify({ list }));
+    }
+
+    case "media":
+      if (isInteractiveProvider(provider)) {
+        // BuilderBot convention: media travels in options (uploaded when it is a local file)
+        return provider.sendMessage(to, message || "", { options: { media: payload.mediaUrl } });
+      }
+      // sendMedia no existe en ProviderClass, usamos sendMessage
+      return provider.sendMessage(to, JSON.stringify({ media: payload.mediaUrl, caption: message || undefined }));
+
+    default:
+      throw new MessageDeliveryError("UNSUPPORTED_MESSAGE", `Unsupported message type: ${delivery.message_type}`);
+  }
+};
+
+/**
+ * Register an outbound message in the delivery ledger and send it
+ * @returns true when the message was sent or queued for retry after a transient failure
+ */
+const deliver = async (tenantId: string | undefined, message: OutboundMessage): Promise<boolean> => {
+  const delivery = await MessageDeliveryService.getInstance().deliver(tenantId, message);
+  return delivery.status !== "failed";
+};
+
 /**
  * Send buttons directly through the provider
  * @param to Phone number to send to
  * @param buttons Array of button objects
  * @param message Text message to accompany buttons
+ * @param tenantId Tenant whose number sends the message (optional)
+ * @returns false when delivery failed permanently (see the delivery ledger)
  */
 export const sendButtons = async (
   to: string,
   buttons: Array<{ body: string; id?: string }>,
-  message: string
+  message: string,
+  tenantId?: string
 ): Promise<boolean> => {
-  try {
-    const provider = getProvider();
-    if (!provider) {
-      throw new Error("Provider not initialized");
-    }
-
-    logger.info(`Sending buttons to ${to}: ${JSON.stringify({ message, buttons })}`);
-
-    // Use the provider's sendButtons method
-    // sendButtons no existe en ProviderClass, usamos sendMessage
-    await provider.sendMessage(to, JSON.stringify({ message, buttons }));
-    
-    logger.info(`Buttons sent successfully to ${to}`);
-    return true;
-  } catch (error) {
-    logger.error(`Error sending buttons to ${to}:`, error);
-    return false;
-  }
+  logger.info(`Sending buttons to ${to}: ${JSON.stringify({ message, buttons })}`);
+  return deliver(tenantId, { type: "buttons", to, text: message, payload: { buttons } });
 };
 
 /**
@@ -102,72 +180,33 @@ export const sendButtons = async (
  * @param to Phone number to send to
  * @param list List configuration
  * @param message Header message
+ * @param tenantId Tenant whose number sends the message (optional)
+ * @returns false when delivery failed permanently (see the delivery ledger)
  */
 export const sendList = async (
   to: string,
-  list: {
-    header?: string;
-    body: string;
-    footer?: string;
-    buttonText: string;
-    sections: Array<{
-      title: string;
-      rows: Array<{
-        id: string;
-        title: string;
-        description?: string;
-      }>;
-    }>;
-  },
-  message: string
+  list: OutboundList,
+  message: string,
+  tenantId?: string
 ): Promise<boolean> => {
-  try {
-    const provider = getProvider();
-    if (!provider) {
-      throw new Error("Provider not initialized");
-    }
-
-    logger.info(`Sending list to ${to}: ${JSON.stringify({ message, list })}`);
-
-    // Use the provider's sendList method
-    // sendList no existe en ProviderClass, usamos sendMessage
-    await provider.sendMessage(to, JSON.stringify({ list }));
-    
-    logger.info(`List sent successfully to ${to}`);
-    return true;
-  } catch (error) {
-    logger.error(`Error sending list to ${to}:`, error);
-    return false;
-  }
+  logger.info(`Sending list to ${to}: ${JSON.stringify({ message, list })}`);
+  return deliver(tenantId, { type: "list", to, text: message, payload: { list } });
 };
 
 /**
  * Send a text message directly through the provider
  * @param to Phone number to send to
  * @param message Text message to send
+ * @param tenantId Tenant whose number sends the message (optional)
+ * @returns false when delivery failed permanently (see the delivery ledger)
  */
 export const sendText = async (
   to: string,
-  message: string
+  message: string,
+  tenantId?: string
 ): Promise<boolean> => {
-  try {
-    const provider = getProvider();
-    if (!provider) {
-      throw new Error("Provider not initialized");
-    }
-
-    logger.info(`Sending text to ${to}: ${message}`);
-
-    // Use the provider's sendText method
-    // sendText no existe en ProviderClass, usamos sendMessage
-    await provider.sendMessage(to, message);
-    
-    logger.info(`Text sent successfully to ${to}`);
-    return true;
-  } catch (error) {
-    logger.error(`Error sending text to ${to}:`, error);
-    return false;
-  }
+  logger.info(`Sending text to ${to}: ${message}`);
+  return deliver(tenantId, { type: "text", to, text: message });
 };
 
 /**
@@ -175,35 +214,24 @@ export const sendText = async (
  * @param to Phone number to send to
  * @param mediaUrl URL of the media file
  * @param message Caption for the media
+ * @param tenantId Tenant whose number sends the message (optional)
+ * @returns false when delivery failed permanently (see the delivery ledger)
  */
 export const sendMedia = async (
   to: string,
   mediaUrl: string,
-  message?: string
+  message?: string,
+  tenantId?: string
 ): Promise<boolean> => {
-  try {
-    const provider = getProvider();
-    if (!provider) {
-      throw new Error("Provider not initialized");
-    }
-
-    logger.info(`Sending media to ${to}: ${mediaUrl} with caption: ${message}`);
-
-    // Use the provider's sendMedia method
-    // sendMedia no existe en ProviderClass, usamos sendMessage
-    await provider.sendMessage(to, JSON.stringify({ media: mediaUrl, caption: message }));
-    
-    logger.info(`Media sent successfully to ${to}`);
-    return true;
-  } catch (error) {
-    logger.error(`Error sending media to ${to}:`, error);
-    return false;
-  }
+  logger.info(`Sending media to ${to}: ${mediaUrl} with caption: ${message}`);
+  return deliver(tenantId, { type: "media", to, text: message || "", payload: { mediaUrl } });
 };
 
 export default {
   initializeProvider,
   getProvider,
+  getProviderForTenant,
+  dispatchDelivery,
   sendButtons,
   sendList,
   sendText,
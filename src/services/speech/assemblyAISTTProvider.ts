@@ -0,0 +1,47 @@
+/**
+ * src/services/speech/assemblyAISTTProvider.ts
+ *
+ * Proveedor de transcripción con la API de AssemblyAI. Entrega la confianza
+ * global y las palabras con sus tiempos (AssemblyAI ya los da en milisegundos).
+ * @version 1.0.0
+ * @created 2025-06-17
+ */
+
+import { config } from "../../config";
+import { requestAssemblyAITranscript } from "../assemblyai-direct";
+import { SpeechProviderError, STTProvider, STTRequest, STTTranscription } from "./types";
+
+export class AssemblyAISTTProvider implements STTProvider {
+  readonly name = "assemblyai";
+
+  isAvailable(): boolean {
+    return Boolean(config.assemblyai.apiKey);
+  }
+
+  async transcribe(request: STTRequest): Promise<STTTranscription> {
+    if (!this.isAvailable()) {
+      throw new SpeechProviderError("NOT_CONFIGURED", "Falta credencial de AssemblyAI (ASSEMBLYAI_API_KEY)", this.name);
+    }
+
+    try {
+      const transcript = await requestAssemblyAITranscript(request.audio, request.language);
+      return {
+        text: transcript.text || "",
+        confidence: transcript.confidence ?? null,
+        words: (transcript.words || []).map((word) => ({
+          text: word.text,
+          start: word.start,
+          end: word.end,
+          confidence: word.confidence ?? null,
+        })),
+        language: transcript.language_code,
+      };
+    } catch (error) {
+      throw new SpeechProviderError(
+        "REQUEST_FAILED",
+        `Error de AssemblyAI: ${error instanceof Error ? error.message : error}`,
+        this.name
+      );
+    }
+  }
+}
@@ -0,0 +1,346 @@
+/**
+ * src/services/speech/index.ts
+ *
+ * Selección de proveedor de síntesis de voz por tenant, con orden de respaldo
+ * y negociación del formato de audio. El orden es: proveedor solicitado,
+ * proveedor del tenant y por último los de la configuración global.
+ * La voz del tenant se guarda con el tenant (tenants.tts_provider, tenants.tts_voice).
+ * El audio generado se guarda en la caché persistente (ttsCache.ts).
+ * También expone los proveedores y el servicio de transcripción (STT) y la
+ * detección de actividad de voz de las sesiones en tiempo real.
+ * @version 1.2.0
+ * @created 2025-06-17
+ * @updated 2025-06-17
+ */
+
+import logger from "../../utils/logger";
+import { config } from "../../config";
+import { detectAudioFormat } from "../../utils/audioUtils";
+import { getSupabaseAdminClient } from "../supabase";
+import { SpeechProviderError, TTSProvider, TTSResult, TTSVoice } from "./types";
+import { MiniMaxTTSProvider } from "./minimaxTTSProvider";
+import { LocalTTSProvider } from "./localTTSProvider";
+import { SilentTTSProvider } from "./silentTTSProvider";
+import { TTSAudioCache } from "./ttsCache";
+
+export * from "./types";
+export { MiniMaxTTSProvider } from "./minimaxTTSProvider";
+export { LocalTTSProvider } from "./localTTSProvider";
+export type { LocalTTSOptions } from "./localTTSProvider";
+export { SilentTTSProvider, createSilentWav } from "./silentTTSProvider";
+export { TTSAudioCache, getTTSCacheKey } from "./ttsCache";
+export type { TTSCacheOptions, TTSCacheKeyParams, TTSCacheStats } from "./ttsCache";
+export { AssemblyAISTTProvider } from "./assemblyAISTTProvider";
+export { MiniMaxSTTProvider } from "./minimaxSTTProvider";
+export { LocalSTTProvider, parseWhisperResponse } from "./localSTTProvider";
+export type { LocalSTTOptions } from "./localSTTProvider";
+export { STTService, normalizeLanguage } from "./sttService";
+export type { STTCallOptions } from "./sttService";
+export { VoiceActivityDetector, getFrameEnergy, pcmToWav } from "./vad";
+export type { VADOptions, VADEvent } from "./vad";
+
+/**
+ * Voz elegida por un tenant
+ */
+export interface TenantVoiceSettings {
+  tts_provider?: string | null;
+  tts_voice?: string | null;
+}
+
+/**
+ * Opciones de una síntesis
+ */
+export interface TTSCallOptions {
+  tenantId?: string;
+  provider?: string;   // Proveedor solicitado (tiene prioridad sobre el del tenant)
+  voice?: string;      // Voz solicitada (solo aplica al primer proveedor)
+  accept?: string[];   // Formatos aceptados por el cliente, en orden de preferencia
+  speed?: number;      // Velocidad (0.5-2.0)
+  pitch?: number;      // Tono (0.5-2.0)
+  useCache?: boolean;  // false para omitir la caché
+}
+
+type VoiceSettingsLoader = (tenantId: string) => Promise<TenantVoiceSettings | null>;
+
+const SETTINGS_TTL_MS = 5 * 60 * 1000;
+
+// Alias de formatos y tipos MIME -> formato
+const FORMAT_ALIASES: Record<string, string> = {
+  mp3: "mp3",
+  mpeg: "mp3",
+  "audio/mpeg": "mp3",
+  "audio/mp3": "mp3",
+  wav: "wav",
+  wave: "wav",
+  "audio/wav": "wav",
+  "audio/x-wav": "wav",
+  "audio/wave": "wav",
+  ogg: "ogg",
+  opus: "ogg",
+  "audio/ogg": "ogg",
+  m4a: "m4a",
+  "audio/mp4": "m4a",
+};
+
+/**
+ * Normaliza un formato o tipo MIME (null si no se reconoce)
+ */
+export function normalizeAudioFormat(format: string): string | null {
+  return FORMAT_ALIASES[format.trim().toLowerCase().split(";")[0]] || null;
+}
+
+/**
+ * Elige el formato de salida: el primero aceptado que el proveedor pueda entregar
+ * @returns Formato o null si no hay coincidencia
+ */
+export function negotiateAudioFormat(provider: TTSProvider, accept?: string[]): string | null {
+  const accepted = (accept || [])
+    .map(normalizeAudioFormat)
+    .filter((format): format is string => Boolean(format));
+
+  if (accepted.length === 0) return provider.formats[0];
+  return accepted.find((format) => provider.formats.includes(format)) || null;
+}
+
+/**
+ * Obtiene la voz guardada con el tenant (null si no tiene)
+ */
+export async function loadTenantVoiceSettings(tenantId: string): Promise<TenantVoiceSettings | null> {
+  if (!config.supabase.enabled) return null;
+
+  const { data, error } = await getSupabaseAdminClient()
+    .from("tenants")
+    .select("tts_provider, tts_voice")
+    .eq("id", tenantId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error(`Error al obtener la voz del tenant ${tenantId}: ${error.message}`);
+    return null;
+  }
+  return (data as TenantVoiceSettings) || null;
+}
+
+/**
+ * Guarda la voz elegida por el tenant
+ */
+export async function saveTenantVoiceSettings(tenantId: string, settings: TenantVoiceSettings): Promise<void> {
+  const { error } = await getSupabaseAdminClient()
+    .from("tenants")
+    .update({ tts_provider: settings.tts_provider ?? null, tts_voice: settings.tts_voice ?? null })
+    .eq("id", tenantId);
+
+  if (error) {
+    throw new Error(`Error al guardar la voz del tenant ${tenantId}: ${error.message}`);
+  }
+}
+
+/**
+ * Servicio de síntesis de voz
+ */
+export class TTSService {
+  private static instance: TTSService;
+  private providers = new Map<string, TTSProvider>();
+  private tenantSettings = new Map<string, { settings: TenantVoiceSettings | null; loadedAt: number }>();
+
+  constructor(
+    providers: TTSProvider[] = [],
+    private loadSettings: VoiceSettingsLoader = loadTenantVoiceSettings,
+    private cache: TTSAudioCache | null = null
+  ) {
+    providers.forEach((provider) => this.registerProvider(provider));
+  }
+
+  /**
+   * Obtiene la instancia compartida con los proveedores configurados
+   */
+  static getInstance(): TTSService {
+    if (!TTSService.instance) {
+      const providers: TTSProvider[] = [new MiniMaxTTSProvider(), new LocalTTSProvider()];
+      if (config.tts.silentEnabled) {
+        providers.push(new SilentTTSProvider());
+      }
+      TTSService.instance = new TTSService(providers, loadTenantVoiceSettings, TTSAudioCache.getInstance());
+    }
+    return TTSService.instance;
+  }
+
+  registerProvider(provider: TTSProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  getProvider(name: string): TTSProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  /**
+   * Nombres de los proveedores registrados y disponibles
+   */
+  listProviders(): string[] {
+    return Array.from(this.providers.values())
+      .filter((provider) => provider.isAvailable())
+      .map((provider) => provider.name);
+  }
+
+  /**
+   * Voz del tenant (usa caché de 5 minutos)
+   */
+  async getTenantSettings(tenantId?: string): Promise<TenantVoiceSettings | null> {
+    if (!tenantId) return null;
+
+    const cached = this.tenantSettings.get(tenantId);
+    if (cached && Date.now() - cached.loadedAt < SETTINGS_TTL_MS) return cached.settings;
+
+    let settings: TenantVoiceSettings | null = null;
+    try {
+      settings = await this.loadSettings(tenantId);
+    } catch (error) {
+      logger.error(`Error al cargar la voz del tenant ${tenantId}:`, error);
+    }
+    this.tenantSettings.set(tenantId, { settings, loadedAt: Date.now() });
+    return settings;
+  }
+
+  /**
+   * Descarta la voz en caché de un tenant (tras modificarla)
+   */
+  invalidateTenantSettings(tenantId: string): void {
+    this.tenantSettings.delete(tenantId);
+  }
+
+  /**
+   * Orden de proveedores disponibles a intentar para una síntesis
+   */
+  async resolveProviderOrder(options: TTSCallOptions = {}): Promise<string[]> {
+    const settings = await this.getTenantSettings(options.tenantId);
+
+    const candidates = [
+      options.provider,
+      settings?.tts_provider,
+      config.tts.defaultProvider,
+      ...config.tts.fallbackProviders,
+    ];
+
+    const order: string[] = [];
+    for (const name of candidates) {
+      if (!name || order.includes(name)) continue;
+      const provider = this.providers.get(name);
+      if (!provider) {
+        logger.warn(`Proveedor de TTS desconocido: ${name}`);
+        continue;
+      }
+      if (provider.isAvailable()) order.push(name);
+    }
+    return order;
+  }
+
+  /**
+   * Voz a usar con un proveedor: la solicitada (solo el primero), la del tenant
+   * si es su proveedor o la predeterminada del proveedor
+   */
+  private resolveVoice(provider: TTSProvider, position: number, settings: TenantVoiceSettings | null, voice?: string): string {
+    if (position === 0 && voice) return voice;
+    const tenantProvider = settings?.tts_provider || config.tts.defaultProvider;
+    if (settings?.tts_voice && tenantProvider === provider.name) return settings.tts_voice;
+    return provider.defaultVoice;
+  }
+
+  /**
+   * Sintetiza un texto probando los proveedores en orden hasta que uno responda.
+   * Antes de llamar a cada proveedor se busca el audio en la caché persistente.
+   * @param text Texto a convertir en voz
+   * @param options Tenant, proveedor, voz, velocidad, tono y formatos aceptados
+   * @returns Audio con el formato detectado en sus bytes
+   */
+  async synthesize(text: string, options: TTSCallOptions = {}): Promise<TTSResult> {
+    const settings = await this.getTenantSettings(options.tenantId);
+    const order = await this.resolveProviderOrder(options);
+
+    if (order.length === 0) {
+      throw new SpeechProviderError("NOT_CONFIGURED", "No hay proveedores de TTS disponibles");
+    }
+
+    const useCache = options.useCache !== false && Boolean(this.cache?.isEnabled());
+    const failures: string[] = [];
+
+    for (const [position, name] of order.entries()) {
+      const provider = this.providers.get(name)!;
+
+      const format = negotiateAudioFormat(provider, options.accept);
+      if (!format) {
+        failures.push(`${name}: no entrega ${options.accept!.join(", ")}`);
+        continue;
+      }
+
+      const voice = this.resolveVoice(provider, position, settings, options.voice);
+      const cacheParams = { text, voice, speed: options.speed, pitch: options.pitch, format };
+
+      const cached = useCache ? this.cache!.get(cacheParams) : null;
+      if (cached) {
+        const info = detectAudioFormat(cached);
+        return { audio: cached, format: info.format, mimeType: info.mimeType, provider: name, voice, cached: true };
+      }
+
+      try {
+        // Con la caché persistente activa el proveedor no necesita la suya
+        const audio = await provider.synthesize({
+          text,
+          voice,
+          format,
+          speed: options.speed,
+          pitch: options.pitch,
+          useCache: useCache ? false : options.useCache,
+        });
+        if (!audio || audio.length === 0) {
+          throw new SpeechProviderError("EMPTY_RESPONSE", `${name} no generó audio`, name);
+        }
+
+        const info = detectAudioFormat(audio);
+        if (info.format !== format) {
+          logger.warn(`TTS: ${name} entregó ${info.format} en lugar de ${format}`);
+        }
+        if (position > 0) {
+          logger.info(`TTS: audio obtenido del proveedor de respaldo ${name}`);
+        }
+        if (useCache) {
+          this.cache!.set(cacheParams, audio, info.format);
+        }
+
+        return { audio, format: info.format, mimeType: info.mimeType, provider: name, voice };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        failures.push(`${name}: ${message}`);
+        logger.warn(`TTS: falló el proveedor ${name}: ${message}`);
+      }
+    }
+
+    const code = failures.length > 0 && failures.every((failure) => failure.includes("no entrega"))
+      ? "UNSUPPORTED_FORMAT"
+      : "ALL_PROVIDERS_FAILED";
+    throw new SpeechProviderError(code, `Ningún proveedor de TTS generó audio (${failures.join("; ")})`);
+  }
+
+  /**
+   * Voces de un proveedor (por defecto el primero del tenant) y la voz predeterminada
+   */
+  async listVoices(options: { tenantId?: string; provider?: string } = {}): Promise<{
+    provider: string;
+    defaultVoice: string;
+    voices: TTSVoice[];
+  }> {
+    const [name] = await this.resolveProviderOrder(options);
+    const provider = name ? this.providers.get(name) : undefined;
+    if (!provider) {
+      throw new SpeechProviderError("NOT_CONFIGURED", "No hay proveedores de TTS disponibles");
+    }
+
+    const settings = await this.getTenantSettings(options.tenantId);
+    return {
+      provider: provider.name,
+      defaultVoice: this.resolveVoice(provider, 1, settings),
+      voices: await provider.listVoices(),
+    };
+  }
+}
+
+export default TTSService;
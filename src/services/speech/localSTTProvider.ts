@@ -0,0 +1,130 @@
+/**
+ * src/services/speech/localSTTProvider.ts
+ *
+ * Proveedor de transcripción con un servidor local compatible con whisper.cpp
+ * (POST /inference) o con la API de OpenAI (POST /v1/audio/transcriptions).
+ * Ambos reciben el audio como multipart y responden verbose_json, del que se
+ * obtienen las palabras con sus tiempos y la confianza.
+ * @version 1.0.0
+ * @created 2025-06-17
+ */
+
+import axios from "axios";
+import FormData from "form-data";
+import { config } from "../../config";
+import logger from "../../utils/logger";
+import { SpeechProviderError, STTProvider, STTRequest, STTTranscription, STTWord } from "./types";
+
+export interface LocalSTTOptions {
+  enabled: boolean;
+  url: string;        // URL base del servidor
+  endpoint: string;   // "/inference" (whisper.cpp) o "/v1/audio/transcriptions"
+  model: string;      // Modelo a pedir (solo servidores compatibles con OpenAI)
+  timeoutMs: number;
+}
+
+interface WhisperWord {
+  word: string;
+  start: number;        // Segundos
+  end: number;
+  probability?: number;
+}
+
+interface WhisperSegment {
+  text?: string;
+  avg_logprob?: number;
+  words?: WhisperWord[];
+}
+
+interface WhisperResponse {
+  text?: string;
+  language?: string;
+  words?: WhisperWord[];
+  segments?: WhisperSegment[];
+}
+
+const round = (value: number, decimals: number) => Number(value.toFixed(decimals));
+
+/**
+ * Convierte una respuesta verbose_json de Whisper a una transcripción.
+ * Las palabras vienen en la raíz (OpenAI) o dentro de cada segmento (whisper.cpp)
+ * y sus tiempos en segundos. La confianza es el promedio de la probabilidad de
+ * las palabras o, si no la hay, el de exp(avg_logprob) de los segmentos.
+ */
+export function parseWhisperResponse(data: WhisperResponse): STTTranscription {
+  const segments = data.segments || [];
+  const rawWords = data.words || segments.flatMap((segment) => segment.words || []);
+
+  const words: STTWord[] = rawWords
+    .filter((word) => word.word && word.word.trim())
+    .map((word) => ({
+      text: word.word.trim(),
+      start: Math.round(word.start * 1000),
+      end: Math.round(word.end * 1000),
+      confidence: typeof word.probability === "number" ? round(word.probability, 3) : null,
+    }));
+
+  const scores = words.some((word) => word.confidence !== null)
+    ? words.map((word) => word.confidence).filter((score): score is number => score !== null)
+    : segments
+        .map((segment) => segment.avg_logprob)
+        .filter((logprob): logprob is number => typeof logprob === "number")
+        .map((logprob) => Math.exp(logprob));
+
+  const text = (data.text ?? segments.map((segment) => segment.text || "").join("")).trim();
+
+  return {
+    text,
+    confidence: scores.length > 0 ? round(scores.reduce((sum, score) => sum + score, 0) / scores.length, 3) : null,
+    words,
+    // OpenAI informa el nombre del idioma ("spanish"): solo se conserva el código
+    language: data.language && /^[a-z]{2,3}$/.test(data.language) ? data.language : undefined,
+  };
+}
+
+export class LocalSTTProvider implements STTProvider {
+  readonly name = "local";
+
+  constructor(private options: LocalSTTOptions = config.stt.local) {}
+
+  isAvailable(): boolean {
+    return this.options.enabled && Boolean(this.options.url);
+  }
+
+  async transcribe(request: STTRequest): Promise<STTTranscription> {
+    if (!this.isAvailable()) {
+      throw new SpeechProviderError("NOT_CONFIGURED", "Servidor Whisper local no configurado (LOCAL_STT_ENABLED)", this.name);
+    }
+
+    const formData = new FormData();
+    formData.append("file", request.audio, {
+      filename: `audio.${request.format}`,
+      contentType: request.mimeType,
+    });
+    formData.append("response_format", "verbose_json");
+    formData.append("language", request.language);
+    formData.append("temperature", "0");
+    if (this.options.endpoint.includes("/audio/transcriptions")) {
+      if (this.options.model) formData.append("model", this.options.model);
+      formData.append("timestamp_granularities[]", "word");
+    }
+
+    const url = `${this.options.url.replace(/\/+$/, "")}${this.options.endpoint}`;
+
+    try {
+      const response = await axios.post(url, formData, {
+        headers: formData.getHeaders(),
+        timeout: this.options.timeoutMs,
+      });
+      const transcription = parseWhisperResponse(response.data || {});
+      logger.debug(`STT local: ${transcription.words.length} palabras de ${url}`);
+      return transcription;
+    } catch (error) {
+      throw new SpeechProviderError(
+        "REQUEST_FAILED",
+        `Error del servidor Whisper local (${url}): ${error instanceof Error ? error.message : error}`,
+        this.name
+      );
+    }
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * src/services/speech/localTTSProvider.ts
+ *
+ * Proveedor de síntesis de voz con un motor local ejecutado como subproceso:
+ * espeak-ng (--stdout) o Piper (modelo .onnx). Ambos entregan WAV y no
+ * requieren conexión, por lo que sirven para desarrollo y entornos sin red.
+ * @version 1.1.1
+ * @created 2025-06-17
+ * @updated 2025-06-17
+ */
+
+import { spawn } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { randomUUID } from "crypto";
+import { config } from "../../config";
+import logger from "../../utils/logger";
+import { SpeechProviderError, TTSProvider, TTSRequest, TTSVoice } from "./types";
+
+// Valores por defecto de espeak-ng: palabras por minuto y tono (0-99)
+const ESPEAK_WORDS_PER_MINUTE = 175;
+const ESPEAK_PITCH = 50;
+
+export interface LocalTTSOptions {
+  enabled: boolean;
+  engine: string;     // "espeak" | "piper"
+  command: string;    // Ejecutable (vacío = espeak-ng o piper en el PATH)
+  model: string;      // Modelo de Piper
+  voice: string;      // Voz de espeak-ng
+  timeoutMs: number;
+}
+
+export class LocalTTSProvider implements TTSProvider {
+  readonly name = "local";
+  readonly defaultVoice: string;
+  readonly formats = ["wav"];
+
+  constructor(private options: LocalTTSOptions = config.tts.local) {
+    this.defaultVoice = options.engine === "piper"
+      ? path.basename(options.model || "piper", ".onnx")
+      : options.voice;
+  }
+
+  isAvailable(): boolean {
+    if (!this.options.enabled) return false;
+    return this.options.engine !== "piper" || Boolean(this.options.model);
+  }
+
+  private get command(): string {
+    return this.options.command || (this.options.engine === "piper" ? "piper" : "espeak-ng");
+  }
+
+  /**
+   * Ejecuta el motor con el texto en stdin y devuelve lo que escribe en stdout
+   */
+  private run(args: string[], text: string): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.command, args, { stdio: ["pipe", "pipe", "pipe"] });
+      const stdout: Buffer[] = [];
+      let stderr = "";
+
+      const timer = setTimeout(() => {
+        child.kill();
+        reject(new SpeechProviderError("REQUEST_FAILED", `El motor ${this.command} excedió ${this.options.timeoutMs} ms`, this.name));
+      }, this.options.timeoutMs);
+
+      child.stdout.on("data", (chunk: Buffer) => stdout.push(chunk));
+      child.stderr.on("data", (chunk: Buffer) => (stderr += chunk.toString()));
+      child.on("error", (error) => {
+        clearTimeout(timer);
+        reject(new SpeechProviderError("NOT_CONFIGURED", `No se pudo ejecutar ${this.command}: ${error.message}`, this.name));
+      });
+      // Si el motor termina sin leer stdin la escritura falla con EPIPE; sin este
+      // listener el error llegaría como excepción no capturada
+      child.stdin.on("error", (error) => {
+        clearTimeout(timer);
+        child.kill();
+        reject(new SpeechProviderError("REQUEST_FAILED", `No se pudo enviar el texto a ${this.command}: ${error.message}`, this.name));
+      });
+      child.on("close", (code) => {
+        clearTimeout(timer);
+        if (code !== 0) {
+          reject(new SpeechProviderError("REQUEST_FAILED", `${this.command} terminó con código ${code}: ${stderr.trim()}`, this.name));
+          return;
+        }
+        resolve(Buffer.concat(stdout));
+      });
+
+      child.stdin.end(text);
+    });
+  }
+
+  async synthesize(request: TTSRequest): Promise<Buffer> {
+    if (!this.isAvailable()) {
+      throw new SpeechProviderError("NOT_CONFIGURED", "Motor de voz local no configurado (LOCAL_TTS_ENABLED)", this.name);
+    }
+
+    let audio: Buffer;
+    if (this.options.engine === "piper") {
+      // Piper escribe el WAV en un archivo: usamos uno temporal
+      const outputFile = path.join(os.tmpdir(), `tts-${randomUUID()}.wav`);
+      try {
+        // length_scale > 1 habla más lento
+        const lengthScale = (1 / (request.speed || 1)).toFixed(2);
+        await this.run(
+          ["--model", this.options.model, "--length_scale", lengthScale, "--output_file", outputFile],
+          request.text
+        );
+        audio = fs.readFileSync(outputFile);
+      } finally {
+        fs.rmSync(outputFile, { force: true });
+      }
+    } else {
+      const wordsPerMinute = Math.round(ESPEAK_WORDS_PER_MINUTE * (request.speed || 1));
+      const pitch = Math.min(99, Math.max(0, Math.round(ESPEAK_PITCH * (request.pitch || 1))));
+      audio = await this.run(
+        ["-v", request.voice || this.defaultVoice, "-s", String(wordsPerMinute), "-p", String(pitch), "--stdout"],
+        request.text
+      );
+    }
+
+    if (audio.length === 0) {
+      throw new SpeechProviderError("EMPTY_RESPONSE", `${this.command} no generó audio`, this.name);
+    }
+    logger.debug(`TTS local (${this.options.engine}): ${audio.length} bytes`);
+    return audio;
+  }
+
+  async listVoices(): Promise<TTSVoice[]> {
+    return [{ id: this.defaultVoice, name: this.defaultVoice, language: "es" }];
+  }
+}
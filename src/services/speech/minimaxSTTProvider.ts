@@ -0,0 +1,41 @@
+/**
+ * src/services/speech/minimaxSTTProvider.ts
+ *
+ * Proveedor de transcripción con la API de MiniMax. Solo entrega el texto:
+ * sin confianza ni tiempos por palabra.
+ * @version 1.0.0
+ * @created 2025-06-17
+ */
+
+import { config } from "../../config";
+import { transcribeAudioWithMiniMax } from "../minimax-stt";
+import { SpeechProviderError, STTProvider, STTRequest, STTTranscription } from "./types";
+
+export class MiniMaxSTTProvider implements STTProvider {
+  readonly name = "minimax";
+
+  isAvailable(): boolean {
+    return Boolean(config.minimax.apiKey && config.minimax.groupId);
+  }
+
+  async transcribe(request: STTRequest): Promise<STTTranscription> {
+    if (!this.isAvailable()) {
+      throw new SpeechProviderError(
+        "NOT_CONFIGURED",
+        "Faltan credenciales de MiniMax (MINIMAX_API_KEY, MINIMAX_GROUP_ID)",
+        this.name
+      );
+    }
+
+    try {
+      const text = await transcribeAudioWithMiniMax(request.audio, request.language);
+      return { text, confidence: null, words: [] };
+    } catch (error) {
+      throw new SpeechProviderError(
+        "REQUEST_FAILED",
+        `Error de MiniMax: ${error instanceof Error ? error.message : error}`,
+        this.name
+      );
+    }
+  }
+}
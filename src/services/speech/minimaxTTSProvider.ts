@@ -0,0 +1,72 @@
+/**
+ * src/services/speech/minimaxTTSProvider.ts
+ *
+ * Proveedor de síntesis de voz con la API de MiniMax (entrega MP3).
+ * @version 1.1.0
+ * @created 2025-06-17
+ * @updated 2025-06-17
+ */
+
+import { config } from "../../config";
+import { synthesizeSpeechWithMiniMax } from "../minimax-tts";
+import { SpeechProviderError, TTSProvider, TTSRequest, TTSVoice } from "./types";
+
+// Voces disponibles en MiniMax
+const MINIMAX_VOICES: TTSVoice[] = [
+  { id: "Wise_Woman", name: "Wise Woman", gender: "female" },
+  { id: "Friendly_Person", name: "Friendly Person", gender: "neutral" },
+  { id: "Inspirational_girl", name: "Inspirational Girl", gender: "female" },
+  { id: "Deep_Voice_Man", name: "Deep Voice Man", gender: "male" },
+  { id: "Calm_Woman", name: "Calm Woman", gender: "female" },
+  { id: "Casual_Guy", name: "Casual Guy", gender: "male" },
+  { id: "Lively_Girl", name: "Lively Girl", gender: "female" },
+  { id: "Patient_Man", name: "Patient Man", gender: "male" },
+  { id: "Young_Knight", name: "Young Knight", gender: "male" },
+  { id: "Determined_Man", name: "Determined Man", gender: "male" },
+  { id: "Lovely_Girl", name: "Lovely Girl", gender: "female" },
+  { id: "Decent_Boy", name: "Decent Boy", gender: "male" },
+  { id: "Imposing_Manner", name: "Imposing Manner", gender: "neutral" },
+  { id: "Elegant_Man", name: "Elegant Man", gender: "male" },
+  { id: "Abbess", name: "Abbess", gender: "female" },
+  { id: "Sweet_Girl_2", name: "Sweet Girl 2", gender: "female" },
+  { id: "Exuberant_Girl", name: "Exuberant Girl", gender: "female" },
+];
+
+export class MiniMaxTTSProvider implements TTSProvider {
+  readonly name = "minimax";
+  readonly defaultVoice = config.minimax.voice;
+  readonly formats = ["mp3"];
+
+  isAvailable(): boolean {
+    return Boolean(config.minimax.apiKey && config.minimax.groupId);
+  }
+
+  async synthesize(request: TTSRequest): Promise<Buffer> {
+    if (!this.isAvailable()) {
+      throw new SpeechProviderError(
+        "NOT_CONFIGURED",
+        "Faltan credenciales de MiniMax (MINIMAX_API_KEY, MINIMAX_GROUP_ID)",
+        this.name
+      );
+    }
+
+    try {
+      return await synthesizeSpeechWithMiniMax(
+        request.text,
+        request.voice,
+        request.useCache ?? config.minimax.cache.enabled,
+        { speed: request.speed, pitch: request.pitch }
+      );
+    } catch (error) {
+      throw new SpeechProviderError(
+        "REQUEST_FAILED",
+        `Error de MiniMax: ${error instanceof Error ? error.message : error}`,
+        this.name
+      );
+    }
+  }
+
+  async listVoices(): Promise<TTSVoice[]> {
+    return MINIMAX_VOICES;
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * src/services/speech/silentTTSProvider.ts
+ *
+ * Proveedor de pruebas: genera un WAV de silencio con duración proporcional
+ * al texto y registra las solicitudes recibidas.
+ * @version 1.0.0
+ * @created 2025-06-17
+ */
+
+import { TTSProvider, TTSRequest, TTSVoice } from "./types";
+
+const SAMPLE_RATE = 8000;
+const MS_PER_CHARACTER = 60;
+const MAX_DURATION_MS = 10000;
+
+/**
+ * Crea un WAV PCM de 16 bits mono con silencio
+ */
+export function createSilentWav(durationMs: number, sampleRate: number = SAMPLE_RATE): Buffer {
+  const samples = Math.max(1, Math.round((sampleRate * durationMs) / 1000));
+  const dataSize = samples * 2;
+  const buffer = Buffer.alloc(44 + dataSize);
+
+  buffer.write("RIFF", 0, "ascii");
+  buffer.writeUInt32LE(36 + dataSize, 4);
+  buffer.write("WAVE", 8, "ascii");
+  buffer.write("fmt ", 12, "ascii");
+  buffer.writeUInt32LE(16, 16);             // Tamaño del bloque fmt
+  buffer.writeUInt16LE(1, 20);              // PCM
+  buffer.writeUInt16LE(1, 22);              // Mono
+  buffer.writeUInt32LE(sampleRate, 24);
+  buffer.writeUInt32LE(sampleRate * 2, 28); // Bytes por segundo
+  buffer.writeUInt16LE(2, 32);              // Bytes por muestra
+  buffer.writeUInt16LE(16, 34);             // Bits por muestra
+  buffer.write("data", 36, "ascii");
+  buffer.writeUInt32LE(dataSize, 40);
+
+  return buffer;
+}
+
+export class SilentTTSProvider implements TTSProvider {
+  readonly name: string;
+  readonly defaultVoice = "silent";
+  readonly formats = ["wav"];
+  /** Solicitudes recibidas, en orden */
+  readonly requests: TTSRequest[] = [];
+
+  constructor(name: string = "silent") {
+    this.name = name;
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async synthesize(request: TTSRequest): Promise<Buffer> {
+    this.requests.push(request);
+    return createSilentWav(Math.min(request.text.length * MS_PER_CHARACTER, MAX_DURATION_MS));
+  }
+
+  async listVoices(): Promise<TTSVoice[]> {
+    return [{ id: this.defaultVoice, name: "Silencio", gender: "neutral" }];
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * src/services/speech/sttService.ts
+ *
+ * Selección de proveedor de transcripción de voz con orden de respaldo:
+ * proveedor solicitado, los de la configuración global y por último el resto
+ * de los registrados. El idioma se recibe como pista (por ejemplo, el de un
+ * nodo de voz del flujo).
+ * @version 1.0.0
+ * @created 2025-06-17
+ */
+
+import logger from "../../utils/logger";
+import { config } from "../../config";
+import { detectAudioFormat } from "../../utils/audioUtils";
+import { SpeechProviderError, STTProvider, STTResult } from "./types";
+import { AssemblyAISTTProvider } from "./assemblyAISTTProvider";
+import { MiniMaxSTTProvider } from "./minimaxSTTProvider";
+import { LocalSTTProvider } from "./localSTTProvider";
+
+/**
+ * Opciones de una transcripción
+ */
+export interface STTCallOptions {
+  provider?: string;  // Proveedor solicitado (tiene prioridad sobre la configuración)
+  language?: string;  // Pista de idioma (es, es-MX, en...)
+}
+
+/**
+ * Normaliza una pista de idioma a su código ISO 639-1 ("es-MX" -> "es")
+ */
+export function normalizeLanguage(language?: string | null): string {
+  const code = (language || "").trim().toLowerCase().split(/[-_]/)[0];
+  return /^[a-z]{2,3}$/.test(code) ? code : config.stt.defaultLanguage;
+}
+
+/**
+ * Servicio de transcripción de voz
+ */
+export class STTService {
+  private static instance: STTService;
+  private providers = new Map<string, STTProvider>();
+
+  constructor(providers: STTProvider[] = []) {
+    providers.forEach((provider) => this.registerProvider(provider));
+  }
+
+  /**
+   * Obtiene la instancia compartida con los proveedores configurados
+   */
+  static getInstance(): STTService {
+    if (!STTService.instance) {
+      STTService.instance = new STTService([
+        new AssemblyAISTTProvider(),
+        new MiniMaxSTTProvider(),
+        new LocalSTTProvider(),
+      ]);
+    }
+    return STTService.instance;
+  }
+
+  registerProvider(provider: STTProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  getProvider(name: string): STTProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  /**
+   * Nombres de los proveedores registrados y disponibles
+   */
+  listProviders(): string[] {
+    return Array.from(this.providers.values())
+      .filter((provider) => provider.isAvailable())
+      .map((provider) => provider.name);
+  }
+
+  /**
+   * Orden de proveedores disponibles a intentar para una transcripción.
+   * Tras los configurados se prueban los demás registrados, para no perder
+   * el mensaje de voz si los configurados no están disponibles.
+   */
+  resolveProviderOrder(options: STTCallOptions = {}): string[] {
+    const candidates = [
+      options.provider,
+      config.stt.defaultProvider,
+      ...config.stt.fallbackProviders,
+      ...this.providers.keys(),
+    ];
+
+    const order: string[] = [];
+    for (const name of candidates) {
+      if (!name || order.includes(name)) continue;
+      const provider = this.providers.get(name);
+      if (!provider) {
+        logger.warn(`Proveedor de STT desconocido: ${name}`);
+        continue;
+      }
+      if (provider.isAvailable()) order.push(name);
+    }
+    return order;
+  }
+
+  /**
+   * Transcribe un audio probando los proveedores en orden hasta que uno entregue texto
+   * @param audio Audio a transcribir
+   * @param options Proveedor solicitado y pista de idioma
+   * @returns Texto, confianza y palabras con tiempos
+   */
+  async transcribe(audio: Buffer, options: STTCallOptions = {}): Promise<STTResult> {
+    if (!audio || audio.length === 0) {
+      throw new SpeechProviderError("EMPTY_RESPONSE", "Audio vacío");
+    }
+
+    const order = this.resolveProviderOrder(options);
+    if (order.length === 0) {
+      throw new SpeechProviderError("NOT_CONFIGURED", "No hay proveedores de STT disponibles");
+    }
+
+    const language = normalizeLanguage(options.language);
+    const { format, mimeType } = detectAudioFormat(audio);
+    const failures: string[] = [];
+
+    for (const [position, name] of order.entries()) {
+      const provider = this.providers.get(name)!;
+
+      try {
+        const transcription = await provider.transcribe({ audio, format, mimeType, language });
+        if (!transcription.text.trim()) {
+          throw new SpeechProviderError("EMPTY_RESPONSE", `${name} no devolvió texto`, name);
+        }
+        if (position > 0) {
+          logger.info(`STT: transcripción obtenida del proveedor de respaldo ${name}`);
+        }
+
+        return {
+          ...transcription,
+          text: transcription.text.trim(),
+          language: transcription.language || language,
+          provider: name,
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        failures.push(`${name}: ${message}`);
+        logger.warn(`STT: falló el proveedor ${name}: ${message}`);
+      }
+    }
+
+    throw new SpeechProviderError("ALL_PROVIDERS_FAILED", `Ningún proveedor de STT transcribió el audio (${failures.join("; ")})`);
+  }
+}
+
+export default STTService;
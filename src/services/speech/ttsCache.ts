@@ -0,0 +1,232 @@
+/**
+ * src/services/speech/ttsCache.ts
+ *
+ * Caché persistente de audio sintetizado, direccionada por contenido: la clave
+ * es el hash de (texto, voz, velocidad, tono, formato) y cada audio se guarda
+ * en disco como <hash>.<formato>. Al superar la cuota se eliminan los audios
+ * usados hace más tiempo (LRU); la fecha de modificación del archivo guarda
+ * el último uso para conservar el orden entre reinicios.
+ * @version 1.0.0
+ * @created 2025-06-17
+ */
+
+import fs from "fs";
+import path from "path";
+import { config } from "../../config";
+import logger from "../../utils/logger";
+import { getAudioHash } from "../../utils/audioUtils";
+
+export interface TTSCacheOptions {
+  enabled: boolean;
+  directory: string;
+  maxBytes: number;
+}
+
+/**
+ * Parámetros que identifican un audio
+ */
+export interface TTSCacheKeyParams {
+  text: string;
+  voice: string;
+  speed?: number;
+  pitch?: number;
+  format: string;
+}
+
+/**
+ * Métricas de la caché
+ */
+export interface TTSCacheStats {
+  enabled: boolean;
+  entries: number;
+  sizeBytes: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+  hitRate: number | null; // null mientras no haya consultas
+  writes: number;
+  evictions: number;
+}
+
+interface CacheEntry {
+  file: string;
+  size: number;
+}
+
+/**
+ * Clave de un audio: hash de sus parámetros (velocidad y tono por defecto 1)
+ */
+export function getTTSCacheKey(params: TTSCacheKeyParams): string {
+  const parts = [params.text.trim(), params.voice, params.speed ?? 1, params.pitch ?? 1, params.format];
+  return getAudioHash(Buffer.from(parts.join("\u0000"), "utf8"));
+}
+
+export class TTSAudioCache {
+  private static instance: TTSAudioCache;
+  // El orden de inserción del Map es el orden de uso: el primero es el menos reciente
+  private entries = new Map<string, CacheEntry>();
+  private sizeBytes = 0;
+  private loaded = false;
+  private counters = { hits: 0, misses: 0, writes: 0, evictions: 0 };
+
+  constructor(private options: TTSCacheOptions = config.tts.cache) {}
+
+  /**
+   * Obtiene la instancia compartida con la configuración global
+   */
+  static getInstance(): TTSAudioCache {
+    if (!TTSAudioCache.instance) {
+      TTSAudioCache.instance = new TTSAudioCache();
+    }
+    return TTSAudioCache.instance;
+  }
+
+  isEnabled(): boolean {
+    return this.options.enabled;
+  }
+
+  /**
+   * Carga el índice desde el directorio, ordenado por último uso
+   */
+  private load(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    if (!fs.existsSync(this.options.directory)) {
+      fs.mkdirSync(this.options.directory, { recursive: true });
+      return;
+    }
+
+    const files = fs
+      .readdirSync(this.options.directory)
+      .map((name) => {
+        const stats = fs.statSync(path.join(this.options.directory, name));
+        return { name, size: stats.size, usedAt: stats.mtimeMs, isFile: stats.isFile() };
+      })
+      .filter((file) => file.isFile && /^[0-9a-f]{32}\.\w+$/.test(file.name))
+      .sort((a, b) => a.usedAt - b.usedAt);
+
+    for (const file of files) {
+      this.entries.set(file.name.split(".")[0], { file: file.name, size: file.size });
+      this.sizeBytes += file.size;
+    }
+
+    logger.info(`Caché TTS: ${this.entries.size} audios (${this.sizeBytes} bytes) en ${this.options.directory}`);
+    this.evict();
+  }
+
+  /**
+   * Devuelve el audio en caché (null si no está) y lo marca como recién usado
+   */
+  get(params: TTSCacheKeyParams): Buffer | null {
+    if (!this.isEnabled()) return null;
+    this.load();
+
+    const key = getTTSCacheKey(params);
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.counters.misses++;
+      return null;
+    }
+
+    const filePath = path.join(this.options.directory, entry.file);
+    try {
+      const audio = fs.readFileSync(filePath);
+      const now = new Date();
+      fs.utimesSync(filePath, now, now);
+
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      this.counters.hits++;
+      return audio;
+    } catch (error) {
+      // El archivo se borró fuera del proceso: se descarta la entrada
+      logger.warn(`Caché TTS: no se pudo leer ${entry.file}: ${error instanceof Error ? error.message : error}`);
+      this.remove(key);
+      this.counters.misses++;
+      return null;
+    }
+  }
+
+  has(params: TTSCacheKeyParams): boolean {
+    if (!this.isEnabled()) return false;
+    this.load();
+    return this.entries.has(getTTSCacheKey(params));
+  }
+
+  /**
+   * Guarda un audio y libera espacio si se supera la cuota
+   * @param params Parámetros del audio
+   * @param audio Audio sintetizado
+   * @param extension Extensión del archivo (formato detectado; por defecto el solicitado)
+   */
+  set(params: TTSCacheKeyParams, audio: Buffer, extension: string = params.format): void {
+    if (!this.isEnabled() || audio.length === 0) return;
+    if (audio.length > this.options.maxBytes) {
+      logger.warn(`Caché TTS: audio de ${audio.length} bytes supera la cuota, no se guarda`);
+      return;
+    }
+    this.load();
+
+    const key = getTTSCacheKey(params);
+    this.remove(key);
+
+    const entry: CacheEntry = { file: `${key}.${extension}`, size: audio.length };
+    try {
+      fs.writeFileSync(path.join(this.options.directory, entry.file), audio);
+    } catch (error) {
+      logger.error(`Caché TTS: no se pudo guardar ${entry.file}:`, error);
+      return;
+    }
+
+    this.entries.set(key, entry);
+    this.sizeBytes += entry.size;
+    this.counters.writes++;
+    this.evict();
+  }
+
+  /**
+   * Elimina los audios menos usados hasta quedar dentro de la cuota
+   */
+  private evict(): void {
+    while (this.sizeBytes > this.options.maxBytes && this.entries.size > 0) {
+      const [oldest] = this.entries.keys();
+      this.remove(oldest);
+      this.counters.evictions++;
+    }
+  }
+
+  private remove(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+
+    fs.rmSync(path.join(this.options.directory, entry.file), { force: true });
+    this.entries.delete(key);
+    this.sizeBytes -= entry.size;
+  }
+
+  /**
+   * Elimina todos los audios y reinicia las métricas
+   */
+  clear(): void {
+    this.load();
+    Array.from(this.entries.keys()).forEach((key) => this.remove(key));
+    this.counters = { hits: 0, misses: 0, writes: 0, evictions: 0 };
+  }
+
+  getStats(): TTSCacheStats {
+    if (this.isEnabled()) this.load();
+
+    const lookups = this.counters.hits + this.counters.misses;
+    return {
+      enabled: this.isEnabled(),
+      entries: this.entries.size,
+      sizeBytes: this.sizeBytes,
+      maxBytes: this.options.maxBytes,
+      ...this.counters,
+      hitRate: lookups > 0 ? Number((this.counters.hits / lookups).toFixed(3)) : null,
+    };
+  }
+}
+
+export default TTSAudioCache;
@@ -0,0 +1,119 @@
+/**
+ * src/services/speech/types.ts
+ *
+ * Tipos comunes de los proveedores de síntesis (TTS) y transcripción (STT) de voz.
+ * @version 1.1.0
+ * @created 2025-06-17
+ * @updated 2025-06-17
+ */
+
+/**
+ * Voz ofrecida por un proveedor
+ */
+export interface TTSVoice {
+  id: string;
+  name: string;
+  gender?: "male" | "female" | "neutral";
+  language?: string;
+}
+
+/**
+ * Solicitud de síntesis para un proveedor
+ */
+export interface TTSRequest {
+  text: string;
+  voice: string;
+  format: string;      // Formato de salida negociado (mp3, wav, ogg)
+  speed?: number;      // Velocidad (0.5-2.0, 1 = normal)
+  pitch?: number;      // Tono (0.5-2.0, 1 = normal)
+  useCache?: boolean;  // Los proveedores con caché propia pueden omitirla
+}
+
+/**
+ * Audio generado, con el formato detectado en los bytes
+ */
+export interface TTSResult {
+  audio: Buffer;
+  format: string;
+  mimeType: string;
+  provider: string;
+  voice: string;
+  cached?: boolean;  // true si el audio salió de la caché persistente
+}
+
+/**
+ * Proveedor de síntesis de voz
+ */
+export interface TTSProvider {
+  readonly name: string;
+  readonly defaultVoice: string;
+  readonly formats: string[]; // Formatos que puede entregar, en orden de preferencia
+  isAvailable(): boolean;
+  synthesize(request: TTSRequest): Promise<Buffer>;
+  listVoices(): Promise<TTSVoice[]>;
+}
+
+/**
+ * Palabra transcrita con sus tiempos (en milisegundos)
+ */
+export interface STTWord {
+  text: string;
+  start: number;
+  end: number;
+  confidence: number | null;
+}
+
+/**
+ * Solicitud de transcripción para un proveedor
+ */
+export interface STTRequest {
+  audio: Buffer;
+  format: string;    // Formato detectado en los bytes (ogg, mp3, wav)
+  mimeType: string;
+  language: string;  // Código ISO 639-1 (es, en, pt)
+}
+
+/**
+ * Transcripción entregada por un proveedor
+ */
+export interface STTTranscription {
+  text: string;
+  confidence: number | null; // 0-1, null si el proveedor no la informa
+  words: STTWord[];          // Vacío si el proveedor no da tiempos por palabra
+  language?: string;         // Idioma detectado, si el proveedor lo informa
+}
+
+/**
+ * Transcripción con el proveedor que la generó
+ */
+export interface STTResult extends STTTranscription {
+  language: string;
+  provider: string;
+}
+
+/**
+ * Proveedor de transcripción de voz
+ */
+export interface STTProvider {
+  readonly name: string;
+  isAvailable(): boolean;
+  transcribe(request: STTRequest): Promise<STTTranscription>;
+}
+
+/**
+ * Códigos de error de los proveedores
+ */
+export type SpeechErrorCode =
+  | "NOT_CONFIGURED"
+  | "UNKNOWN_PROVIDER"
+  | "UNSUPPORTED_FORMAT"
+  | "REQUEST_FAILED"
+  | "EMPTY_RESPONSE"
+  | "ALL_PROVIDERS_FAILED";
+
+export class SpeechProviderError extends Error {
+  constructor(public code: SpeechErrorCode, message: string, public provider?: string) {
+    super(message);
+    this.name = "SpeechProviderError";
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * src/services/speech/vad.ts
+ *
+ * Detección de actividad de voz (VAD) por energía sobre audio PCM de 16 bits
+ * mono. Recibe fragmentos de cualquier tamaño, los analiza en tramas de 20 ms
+ * y marca el inicio de la voz y el fin del enunciado tras un silencio.
+ * @version 1.0.0
+ * @created 2025-06-17
+ */
+
+import { config } from "../../config";
+
+export interface VADOptions {
+  sampleRate: number;
+  threshold: number;       // Energía RMS mínima (0-1) para considerar una trama como voz
+  minSpeechMs: number;     // Voz continua necesaria para iniciar un enunciado
+  silenceMs: number;       // Silencio que cierra un enunciado
+  maxUtteranceMs: number;  // Duración máxima de un enunciado
+}
+
+export type VADEvent =
+  | { type: "speech_start" }
+  | { type: "speech_end"; audio: Buffer; durationMs: number };
+
+const FRAME_MS = 20;
+
+/**
+ * Energía RMS normalizada (0-1) de una trama PCM de 16 bits
+ */
+export function getFrameEnergy(frame: Buffer): number {
+  const samples = Math.floor(frame.length / 2);
+  if (samples === 0) return 0;
+
+  let sum = 0;
+  for (let i = 0; i < samples; i++) {
+    const sample = frame.readInt16LE(i * 2) / 32768;
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / samples);
+}
+
+/**
+ * Envuelve audio PCM de 16 bits mono en un WAV
+ */
+export function pcmToWav(pcm: Buffer, sampleRate: number): Buffer {
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write("WAVE", 8, "ascii");
+  header.write("fmt ", 12, "ascii");
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);              // PCM
+  header.writeUInt16LE(1, 22);              // Mono
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write("data", 36, "ascii");
+  header.writeUInt32LE(pcm.length, 40);
+  return Buffer.concat([header, pcm]);
+}
+
+export class VoiceActivityDetector {
+  private readonly options: VADOptions;
+  private readonly frameBytes: number;
+  private pending = Buffer.alloc(0);
+  private frames: Buffer[] = [];
+  private speechMs = 0;
+  private silenceMs = 0;
+  private speaking = false;
+
+  constructor(options: Partial<VADOptions> = {}) {
+    this.options = {
+      sampleRate: config.voiceStream.sampleRate,
+      ...config.voiceStream.vad,
+      ...options,
+    };
+    this.frameBytes = Math.round((this.options.sampleRate * FRAME_MS) / 1000) * 2;
+  }
+
+  /**
+   * true mientras hay un enunciado en curso (ya confirmado como voz)
+   */
+  isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  /**
+   * Audio PCM del enunciado en curso (vacío si no hay)
+   */
+  getCurrentAudio(): Buffer {
+    return this.speaking ? Buffer.concat(this.frames) : Buffer.alloc(0);
+  }
+
+  /**
+   * Duración del enunciado en curso en milisegundos
+   */
+  getCurrentDurationMs(): number {
+    return this.speaking ? this.frames.length * FRAME_MS : 0;
+  }
+
+  /**
+   * Analiza un fragmento de audio y devuelve los eventos detectados
+   */
+  push(chunk: Buffer): VADEvent[] {
+    const events: VADEvent[] = [];
+    let data = Buffer.concat([this.pending, chunk]);
+
+    while (data.length >= this.frameBytes) {
+      const frame = data.subarray(0, this.frameBytes);
+      data = data.subarray(this.frameBytes);
+      const event = this.processFrame(Buffer.from(frame));
+      if (event) events.push(event);
+    }
+
+    this.pending = Buffer.from(data);
+    return events;
+  }
+
+  private processFrame(frame: Buffer): VADEvent | null {
+    const isVoice = getFrameEnergy(frame) >= this.options.threshold;
+
+    if (!this.speaking) {
+      if (!isVoice) {
+        // Ruido breve: se descarta lo acumulado
+        this.frames = [];
+        this.speechMs = 0;
+        return null;
+      }
+
+      this.frames.push(frame);
+      this.speechMs += FRAME_MS;
+      if (this.speechMs >= this.options.minSpeechMs) {
+        this.speaking = true;
+        this.silenceMs = 0;
+        return { type: "speech_start" };
+      }
+      return null;
+    }
+
+    this.frames.push(frame);
+    this.silenceMs = isVoice ? 0 : this.silenceMs + FRAME_MS;
+
+    if (this.silenceMs >= this.options.silenceMs || this.frames.length * FRAME_MS >= this.options.maxUtteranceMs) {
+      return this.end();
+    }
+    return null;
+  }
+
+  /**
+   * Cierra el enunciado en curso (por ejemplo, cuando el cliente deja de enviar audio)
+   */
+  flush(): VADEvent | null {
+    return this.speaking ? this.end() : null;
+  }
+
+  private end(): VADEvent {
+    const audio = Buffer.concat(this.frames);
+    const durationMs = this.frames.length * FRAME_MS;
+    this.frames = [];
+    this.speechMs = 0;
+    this.silenceMs = 0;
+    this.speaking = false;
+    return { type: "speech_end", audio, durationMs };
+  }
+
+  reset(): void {
+    this.pending = Buffer.alloc(0);
+    this.frames = [];
+    this.speechMs = 0;
+    this.silenceMs = 0;
+    this.speaking = false;
+  }
+}
+
+export default VoiceActivityDetector;
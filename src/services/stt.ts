@@ -1,89 +1,77 @@
 /**
  * src/services/stt.ts
  *
- * Servicio para la transcripción de audio usando AssemblyAI.
- * Implementa la conversión de audio a texto (STT).
- * @version 2.0.0
- * @updated 2025-04-17
+ * Servicio para la transcripción de audio (STT).
+ * Convierte audio a texto usando los proveedores configurados (AssemblyAI,
+ * MiniMax o un servidor Whisper local) con respaldo automático.
+ * @version 3.0.0
+ * @updated 2025-06-17
  */
 
 import { config } from "../config";
 import fs from "fs";
 import logger from "../utils/logger";
-import { transcribeAudioWithAssemblyAI } from "./assemblyai-stt";
-import { transcribeAudioWithAssemblyAIDirect } from "./assemblyai-direct";
+import { STTService, STTCallOptions } from "./speech";
+import type { STTResult } from "./speech";
+import { getConversationState } from "./conversationState";
 
 /**
- * Detecta el formato del audio basado en sus primeros bytes
- * @param buffer Buffer de audio a analizar
- * @returns Formato detectado o undefined si no se reconoce
+ * Transcribe un audio y devuelve el texto con su confianza, las palabras con
+ * tiempos y el proveedor que lo transcribió
+ * @param audioBuffer Buffer del archivo de audio a transcribir
+ * @param options Proveedor solicitado y pista de idioma
+ * @returns Transcripción detallada
  */
-const detectAudioFormat = (buffer: Buffer): string | undefined => {
-  // OGG header: "OggS"
-  if (buffer.length > 4 && buffer.toString("ascii", 0, 4) === "OggS") {
-    return "audio/ogg";
-  }
-
-  // MP3 header: "ID3" o comienza con 0xFF 0xFB
-  if (
-    (buffer.length > 3 && buffer.toString("ascii", 0, 3) === "ID3") ||
-    (buffer.length > 2 &&
-      buffer[0] === 0xff &&
-      (buffer[1] === 0xfb || buffer[1] === 0xf3 || buffer[1] === 0xf2))
-  ) {
-    return "audio/mp3";
-  }
-
-  // WAV header: "RIFF" + "WAVE"
-  if (
-    buffer.length > 12 &&
-    buffer.toString("ascii", 0, 4) === "RIFF" &&
-    buffer.toString("ascii", 8, 12) === "WAVE"
-  ) {
-    return "audio/wav";
-  }
-
-  // Si no podemos detectar, asumimos ogg por ser común en WhatsApp
-  return "audio/ogg";
+export const transcribeAudioWithProvider = async (
+  audioBuffer: Buffer,
+  options: STTCallOptions = {}
+): Promise<STTResult> => {
+  return STTService.getInstance().transcribe(audioBuffer, options);
 };
 
 /**
- * Transcribe un buffer de audio a texto usando AssemblyAI
+ * Transcribe un buffer de audio a texto
  * @param audioBuffer Buffer del archivo de audio a transcribir
  * @param language Código de idioma (opcional)
  * @returns Texto transcrito del audio
  */
 export const transcribeAudio = async (
   audioBuffer: Buffer,
-  language: string = "es"
+  language: string = config.stt.defaultLanguage
 ): Promise<string> => {
-  // Detectamos el formato del audio una sola vez
-  const contentType = detectAudioFormat(audioBuffer);
-  const fileExtension = contentType?.split("/")[1] || "ogg";
+  try {
+    const result = await transcribeAudioWithProvider(audioBuffer, { language });
+    return result.text;
+  } catch (error) {
+    logger.error("Error al transcribir audio:", error);
 
-  // Verificamos que la clave de AssemblyAI esté configurada
-  if (!config.assemblyai.apiKey) {
-    throw new Error("Falta credencial de AssemblyAI (ASSEMBLYAI_API_KEY)");
+    // Si todos los proveedores fallan, usamos un texto genérico
+    logger.warn("Usando texto genérico como fallback para mantener la conversación activa");
+    return "Mensaje de voz recibido";
   }
+};
+
+/**
+ * Obtiene la pista de idioma guardada en la sesión por el último nodo de voz
+ * del flujo (VoiceNodeMetadata.language)
+ * @param tenantId ID del tenant
+ * @param userId ID del usuario
+ * @param sessionId ID de la sesión
+ * @returns Código de idioma o undefined si la sesión no tiene
+ */
+export const getSessionLanguageHint = async (
+  tenantId: string,
+  userId: string,
+  sessionId?: string
+): Promise<string | undefined> => {
+  if (!sessionId || !config.supabase.enabled) return undefined;
 
   try {
-    // Usamos la implementación directa con axios que sigue la documentación oficial
-    logger.info("Iniciando transcripción con AssemblyAI...");
-    return await transcribeAudioWithAssemblyAIDirect(audioBuffer, language);
+    const state = await getConversationState(tenantId, userId, sessionId);
+    return state?.data?.context?.sttLanguage || undefined;
   } catch (error) {
-    logger.error("Error al transcribir audio con AssemblyAI (llamada directa):", error);
-    
-    // Si la llamada directa falla, intentamos con el SDK como fallback
-    try {
-      logger.warn("Intentando con SDK como alternativa...");
-      return await transcribeAudioWithAssemblyAI(audioBuffer, language);
-    } catch (sdkError) {
-      logger.error("Error también con SDK de AssemblyAI:", sdkError);
-      
-      // Si ambos métodos fallan, usamos un texto genérico
-      logger.warn("Usando texto genérico como fallback para mantener la conversación activa");
-      return "Mensaje de voz recibido";
-    }
+    logger.warn(`No se pudo obtener el idioma de la sesión ${sessionId}:`, error);
+    return undefined;
   }
 };
 
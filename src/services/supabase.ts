@@ -22,6 +22,8 @@ export interface Tenant {
   max_requests?: number; // Límite de llamadas API (puede estar obsoleto si se usa 'usage')
   max_tokens?: number; // Límite de tokens (puede estar obsoleto si se usa 'usage')
   owner_id?: string;
+  tts_provider?: string | null; // Proveedor de síntesis de voz del tenant (src/services/speech)
+  tts_voice?: string | null;    // Voz elegida para ese proveedor
 }
 
 // Interfaz simplificada, ajustar según necesidad
@@ -423,10 +425,12 @@ export const logMessage = async (
  * Utiliza una función RPC para manejo atómico.
  * @param tenantId ID del tenant
  * @param tokensUsed Tokens utilizados (o segundos de audio si aplica)
+ * @param apiCalls Llamadas API a sumar (0 para registrar solo tokens)
  */
 export const incrementUsage = async (
   tenantId: string,
-  tokensUsed: number = 0 // Default a 0 si solo contamos llamadas API
+  tokensUsed: number = 0, // Default a 0 si solo contamos llamadas API
+  apiCalls: number = 1
 ): Promise<void> => {
   try {
     if (!config.supabase.enabled) {
@@ -457,7 +461,7 @@ export const incrementUsage = async (
     const { error: rpcError } = await supabase.rpc("increment_usage", {
       p_tenant_id: tenantIdForDb,
       p_date: today,
-      p_api_calls_increment: 1, // Siempre incrementamos 1 llamada
+      p_api_calls_increment: apiCalls,
       p_tokens_increment: tokensUsed,
     });
 
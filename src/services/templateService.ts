@@ -3,8 +3,8 @@
  *
  * Servicio para gestionar plantillas de flujos y modificaciones limitadas para tenants.
  * Proporciona funciones para crear, instanciar y modificar plantillas de flujos.
- * @version 1.1.2
- * @updated 2025-04-27
+ * @version 1.1.3
+ * @updated 2025-06-17
  */
 
 import {
@@ -15,6 +15,8 @@ import {
   EditPermission,
   NodeType,
   FlowCreateData, // Importar tipo para creación
+  FlowSnapshot,
+  FlowVersion,
   ConditionType,
 } from "../models/flow.types";
 import {
@@ -23,7 +25,16 @@ import {
   ChatbotTemplateBase,
 } from "./supabase"; // Importar ChatbotTemplateBase y getTemplateById
 import { FlowService } from "./flowService";
+import * as FlowRepository from "./flowRepository";
 import { validateFlow } from "./flowValidator";
+import { FlowVersionError, ensureBaselineVersion, flowToSnapshot } from "./flowVersionService";
+import {
+  FlowMergeResult,
+  MergeConflict,
+  MergeResolution,
+  mergeFlowWithTemplate,
+  resolveMergeConflicts,
+} from "./flowMerge";
 import { logAuditAction, AuditActionType } from "./auditService";
 import logger from "../utils/logger";
 import { v4 as uuidv4 } from "uuid";
@@ -493,11 +504,9 @@ export class TemplateService {
       }
 
       // Extraer nodos y entryNodeId del JSON
-      // Asumimos que react_flow_json tiene una estructura como { nodes: {...}, edges: [...], viewport: {...} }
-      // y que puede tener un entryNodeId definido o lo inferimos.
-      const flowJson = templateBase.react_flow_json as any; // Usar 'as any' o definir un tipo adecuado
-      const templateNodes = flowJson?.nodes || {};
-      let entryNodeId = flowJson?.entryNodeId; // Intentar obtenerlo del JSON
+      const templateSnapshot = this.getTemplateSnapshot(templateBase);
+      const templateNodes = templateSnapshot.nodes;
+      let entryNodeId = templateSnapshot.entryNodeId;
 
       // Verificamos que exista un nodo de entrada o lo asignamos/creamos
       if (!entryNodeId || !templateNodes[entryNodeId]) {
@@ -561,6 +570,18 @@ export class TemplateService {
         return null;
       }
 
+      // Guardamos la plantilla original como base para futuros merges
+      const baseStored = await FlowRepository.setTemplateBase(
+        flowId,
+        { ...templateSnapshot, nodes: nodesToInsert, entryNodeId },
+        flowData.version
+      );
+      if (!baseStored) {
+        logger.warn(
+          `El flujo ${flowId} no tiene base de plantilla: las diferencias en nodos editables se tratarán como conflictos`
+        );
+      }
+
       // Registrar acción de auditoría
       await logAuditAction({
         action: AuditActionType.INSTANTIATE_TEMPLATE,
@@ -587,6 +608,153 @@ export class TemplateService {
     }
   }
 
+  /**
+   * Extrae el contenido de una plantilla (nodos y nodo de entrada)
+   * Usa react_flow_json cuando ya está en el formato de nodos del sistema
+   * @param template Plantilla base o procesada
+   * @returns Contenido de la plantilla
+   */
+  private getTemplateSnapshot(template: any): FlowSnapshot {
+    // Asumimos que react_flow_json tiene una estructura como { nodes: {...}, edges: [...], viewport: {...} }
+    // y que puede tener un entryNodeId definido o lo inferimos.
+    const flowJson = template.react_flow_json as any;
+    const nodes: Record<string, FlowNode> =
+      flowJson?.nodes && !Array.isArray(flowJson.nodes)
+        ? flowJson.nodes
+        : template.nodes || {};
+
+    return {
+      name: template.name,
+      description: template.description,
+      entryNodeId: flowJson?.entryNodeId || template.entryNodeId || "",
+      nodes,
+    };
+  }
+
+  /**
+   * Calcula el merge de tres vías entre la plantilla con la que se creó un flujo,
+   * la versión actual de la plantilla y el flujo del tenant
+   * @param flowId ID del flujo instanciado
+   * @returns Vista previa del merge
+   */
+  async previewTemplateMerge(flowId: string): Promise<{
+    templateId: string;
+    templateVersion: string;
+    baseVersion: string | null;
+    upToDate: boolean;
+    merge: FlowMergeResult;
+  }> {
+    const { flow, template, templateSnapshot } = await this.loadMergeSources(flowId);
+
+    const merge = mergeFlowWithTemplate(
+      flow.parentTemplateSnapshot || null,
+      templateSnapshot,
+      flowToSnapshot(flow),
+      template.editableNodes || []
+    );
+
+    return {
+      templateId: template.id,
+      templateVersion: template.version,
+      baseVersion: flow.parentTemplateVersion || null,
+      upToDate: !merge.hasTemplateChanges,
+      merge,
+    };
+  }
+
+  /**
+   * Aplica la versión actual de la plantilla a un flujo instanciado
+   * @param flowId ID del flujo instanciado
+   * @param resolutions Resolución de cada conflicto por ID de nodo
+   * @param options publish: publica el resultado como nueva versión
+   * @returns Resultado del merge aplicado y la versión publicada (si aplica)
+   */
+  async applyTemplateMerge(
+    flowId: string,
+    resolutions: Record<string, MergeResolution> = {},
+    options: { publish?: boolean; publishedBy?: string } = {}
+  ): Promise<{ merge: FlowMergeResult; templateVersion: string; version?: FlowVersion }> {
+    const { flow, template, templateSnapshot } = await this.loadMergeSources(flowId);
+
+    const merge = mergeFlowWithTemplate(
+      flow.parentTemplateSnapshot || null,
+      templateSnapshot,
+      flowToSnapshot(flow),
+      template.editableNodes || []
+    );
+
+    const { nodes, unresolved } = resolveMergeConflicts(merge, resolutions);
+    if (unresolved.length > 0) {
+      throw new FlowVersionError(
+        "CONFLICT",
+        `Conflictos sin resolver en los nodos: ${unresolved.map((conflict: MergeConflict) => conflict.nodeId).join(", ")}`
+      );
+    }
+
+    const entryNodeId = nodes[merge.entryNodeId] ? merge.entryNodeId : templateSnapshot.entryNodeId;
+
+    try {
+      validateFlow({ ...flow, nodes, entryNodeId });
+    } catch (error) {
+      throw new FlowVersionError(
+        "INVALID_FLOW",
+        `El resultado del merge no es válido: ${error instanceof Error ? error.message : error}`
+      );
+    }
+
+    // Congelamos el contenido actual para que las conversaciones en curso no cambien
+    await ensureBaselineVersion(flow);
+
+    // Nodos, nodo de entrada y nueva base (la versión actual de la plantilla) se
+    // guardan juntos: un fallo no deja el flujo a medio actualizar
+    if (!(await FlowRepository.applyTemplateMerge(flowId, entryNodeId, nodes, templateSnapshot, template.version))) {
+      throw new FlowVersionError("DB_ERROR", `No se pudo actualizar el flujo ${flowId}`);
+    }
+    this.flowService.clearCache(`tenant-${flow.tenantId}`);
+
+    const version = options.publish
+      ? await this.flowService.publishFlow(flowId, {
+          notes: `Actualización de plantilla ${template.version}`,
+          publishedBy: options.publishedBy,
+        })
+      : undefined;
+
+    logger.info(
+      `Plantilla ${template.id} (${template.version}) aplicada al flujo ${flowId}: ${merge.applied.length} cambios, ${merge.conflicts.length} conflictos resueltos`
+    );
+
+    return { merge, templateVersion: template.version, version };
+  }
+
+  /**
+   * Carga el flujo instanciado y su plantilla padre
+   */
+  private async loadMergeSources(flowId: string): Promise<{
+    flow: Flow;
+    template: FlowTemplate;
+    templateSnapshot: FlowSnapshot;
+  }> {
+    const flow = await this.flowService.getFlowById(flowId);
+    if (!flow) {
+      throw new FlowVersionError("NOT_FOUND", `Flujo ${flowId} no encontrado`);
+    }
+    if (!flow.parentTemplateId) {
+      throw new FlowVersionError("INVALID_FLOW", `El flujo ${flowId} no proviene de una plantilla`);
+    }
+
+    const template = await this.getTemplateById(flow.parentTemplateId);
+    if (!template) {
+      throw new FlowVersionError("NOT_FOUND", `Plantilla ${flow.parentTemplateId} no encontrada`);
+    }
+
+    const templateSnapshot = this.getTemplateSnapshot(template);
+    if (!templateSnapshot.nodes[templateSnapshot.entryNodeId]) {
+      templateSnapshot.entryNodeId = Object.keys(templateSnapshot.nodes)[0] || "";
+    }
+
+    return { flow, template, templateSnapshot };
+  }
+
   /**
    * Establece la plantilla activa
    * @param templateId ID de la plantilla a activar
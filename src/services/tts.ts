@@ -1,42 +1,84 @@
 /**
  * src/services/tts.ts
  *
- * Servicio para la síntesis de voz usando MiniMax.
- * Convierte texto en audio para respuestas habladas.
- * @version 2.0.0
- * @updated 2025-04-17
+ * Servicio para la síntesis de voz.
+ * Convierte texto en audio para respuestas habladas usando el proveedor
+ * configurado para el tenant (MiniMax, motor local o silencio de pruebas).
+ * Los mensajes fijos de los flujos se pre-renderizan en la caché persistente.
+ * @version 3.2.0
+ * @updated 2025-06-17
  */
 
+import fs from "fs";
+import path from "path";
 import { config } from "../config";
 import logger from "../utils/logger";
-import {
-  synthesizeSpeechWithMiniMax,
-  saveAudioFile as saveMiniMaxAudioFile,
-  preRenderCommonPhrases as preRenderMiniMaxPhrases,
-} from "./minimax-tts";
+import { detectAudioFormat } from "../utils/audioUtils";
+import { saveAudioFile as saveMiniMaxAudioFile } from "./minimax-tts";
+import { TTSService, TTSCallOptions } from "./speech";
+import type { TTSResult } from "./speech";
+import { NodeType, RuntimeFlow } from "../models/flow.types";
+
+// Referencias a variables ({{nombre}}): el texto final depende de la conversación
+const VARIABLE_REFERENCE = /\{\{\s*[\w.]+\s*\}\}/;
+
+/**
+ * Sintetiza voz y devuelve el audio con su formato y el proveedor que lo generó
+ * @param text Texto a convertir en voz
+ * @param options Tenant, proveedor, voz y formatos aceptados
+ * @returns Audio generado
+ */
+export const synthesizeSpeechWithProvider = async (
+  text: string,
+  options: TTSCallOptions = {}
+): Promise<TTSResult> => {
+  return TTSService.getInstance().synthesize(text, options);
+};
+
+/**
+ * Divide un texto en frases (para sintetizarlas y enviarlas una a una)
+ * @param text Texto a dividir
+ * @returns Frases sin vacíos
+ */
+export const splitIntoSentences = (text: string): string[] => {
+  return text
+    .split(/(?<=[.!?…])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+};
+
+/**
+ * Sintetiza un texto frase por frase: la primera frase está lista mucho antes
+ * que el audio completo, lo que reduce la latencia de las sesiones en tiempo real
+ * @param text Texto a convertir en voz
+ * @param options Tenant, proveedor, voz y formatos aceptados
+ */
+export async function* streamSynthesizedSpeech(
+  text: string,
+  options: TTSCallOptions = {}
+): AsyncGenerator<TTSResult> {
+  for (const sentence of splitIntoSentences(text)) {
+    yield await synthesizeSpeechWithProvider(sentence, options);
+  }
+}
 
 /**
- * Sintetiza voz a partir de un texto usando la API de MiniMax
+ * Sintetiza voz a partir de un texto
  * @param text Texto a convertir en voz
- * @param voiceId ID de la voz a utilizar (opcional)
+ * @param voiceId ID de la voz a utilizar (opcional; sin voz se usa la del tenant o la del proveedor)
  * @param useCache Indica si se debe usar el caché (por defecto: true)
+ * @param tenantId ID del tenant (para su proveedor y voz)
  * @returns Buffer con el audio generado
  */
 export const synthesizeSpeech = async (
   text: string,
-  voiceId: string = config.minimax.voice,
-  useCache: boolean = config.minimax.cache.enabled
+  voiceId?: string,
+  useCache: boolean = config.minimax.cache.enabled,
+  tenantId?: string
 ): Promise<Buffer> => {
   try {
-    // Verificamos que las credenciales estén configuradas
-    if (!config.minimax.apiKey || !config.minimax.groupId) {
-      throw new Error(
-        "Faltan credenciales de MiniMax (MINIMAX_API_KEY, MINIMAX_GROUP_ID)"
-      );
-    }
-
-    // Delegamos la síntesis a MiniMax
-    return await synthesizeSpeechWithMiniMax(text, voiceId, useCache);
+    const result = await synthesizeSpeechWithProvider(text, { voice: voiceId, useCache, tenantId });
+    return result.audio;
   } catch (error) {
     logger.error("Error al sintetizar voz:", error);
     throw new Error(
@@ -62,17 +104,85 @@ export const saveAudioFile = (
   text?: string,
   voiceId?: string
 ): string => {
-  return saveMiniMaxAudioFile(audioBuffer, tenantId, userId, text, voiceId);
+  if (!audioBuffer || !Buffer.isBuffer(audioBuffer) || audioBuffer.length === 0) {
+    throw new Error("Buffer de audio inválido o vacío");
+  }
+
+  const { format } = detectAudioFormat(audioBuffer);
+
+  // El MP3 de MiniMax se guarda con su caché
+  if (format === "mp3") {
+    return saveMiniMaxAudioFile(audioBuffer, tenantId, userId, text, voiceId);
+  }
+
+  // Otros proveedores: se guarda con la extensión del formato detectado
+  const filename = `${tenantId}-${userId}-${Date.now()}.${format}`;
+  if (!fs.existsSync(config.paths.audio)) {
+    fs.mkdirSync(config.paths.audio, { recursive: true });
+  }
+  fs.writeFileSync(path.join(config.paths.audio, filename), audioBuffer);
+  logger.info(`Audio guardado en: ${filename} (${audioBuffer.length} bytes)`);
+
+  return `/audio/${filename}`;
 };
 
 /**
  * Pre-renderiza un conjunto de frases comunes para respuestas rápidas
+ * (quedan en la caché persistente de audio)
  * @param phrases Array de frases a pre-renderizar
- * @param voiceId ID de la voz a utilizar
+ * @param voiceId ID de la voz a utilizar (opcional; sin voz se usa la del tenant)
+ * @param tenantId ID del tenant (para su proveedor y voz)
+ * @returns Cantidad de frases ya en caché, generadas y fallidas
  */
 export const preRenderCommonPhrases = async (
   phrases: string[],
-  voiceId: string = config.minimax.voice
-): Promise<void> => {
-  return preRenderMiniMaxPhrases(phrases, voiceId);
+  voiceId?: string,
+  tenantId?: string
+): Promise<{ cached: number; rendered: number; failed: number }> => {
+  const ttsService = TTSService.getInstance();
+  const summary = { cached: 0, rendered: 0, failed: 0 };
+
+  for (const phrase of phrases) {
+    try {
+      const result = await ttsService.synthesize(phrase, { voice: voiceId, tenantId });
+      if (result.cached) {
+        summary.cached++;
+      } else {
+        summary.rendered++;
+      }
+    } catch (error) {
+      summary.failed++;
+      logger.error(`Error al pre-renderizar "${phrase}":`, error);
+    }
+  }
+
+  logger.info(
+    `Pre-renderizado completado: ${summary.rendered} nuevas, ${summary.cached} en caché, ${summary.failed} fallidas`
+  );
+  return summary;
+};
+
+/**
+ * Textos de los nodos de mensaje fijos de un flujo (sin variables), sin repetir
+ * @param flow Flujo en formato runtime
+ */
+export const getStaticMessageTexts = (flow: RuntimeFlow): string[] => {
+  const texts = Object.values(flow.nodes)
+    .filter((node) => node.type === NodeType.MESSAGE || node.type === NodeType.MESSAGE_NODE)
+    .map((node) => (node.content || "").trim())
+    .filter((text) => text && !VARIABLE_REFERENCE.test(text));
+
+  return Array.from(new Set(texts));
+};
+
+/**
+ * Pre-renderiza los mensajes fijos del flujo activo de un tenant con su voz
+ * @param flow Flujo en formato runtime
+ */
+export const prewarmFlowAudio = async (
+  flow: RuntimeFlow
+): Promise<{ cached: number; rendered: number; failed: number }> => {
+  const phrases = getStaticMessageTexts(flow);
+  logger.info(`Pre-renderizando ${phrases.length} mensajes del flujo ${flow.id} (tenant ${flow.tenantId})`);
+  return preRenderCommonPhrases(phrases, undefined, flow.tenantId);
 };
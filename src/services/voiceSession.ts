@@ -0,0 +1,289 @@
+/**
+ * src/services/voiceSession.ts
+ *
+ * Sesión de voz en tiempo real (full-duplex). Recibe audio PCM por fragmentos,
+ * detecta los enunciados con VAD, los transcribe (con transcripciones parciales
+ * mientras el usuario habla), procesa el texto con el flujo del tenant y envía
+ * la respuesta sintetizada frase por frase. Si el usuario habla mientras el bot
+ * responde (barge-in), se corta el audio en curso.
+ * La sesión no conoce el transporte: recibe un VoiceSessionTransport.
+ * Antes de cada turno se verifica la cuota del tenant (STT y TTS tienen costo).
+ * @version 1.0.1
+ * @created 2025-06-17
+ * @updated 2025-06-17
+ */
+
+import { config } from "../config";
+import logger from "../utils/logger";
+import { FlowState } from "../models/flow.types";
+import { VoiceActivityDetector, VADEvent, pcmToWav } from "./speech";
+import type { STTResult, TTSCallOptions, TTSResult } from "./speech";
+
+/**
+ * Mensajes JSON que la sesión envía al cliente
+ */
+export type VoiceSessionMessage =
+  | { type: "ready"; sessionId: string; sampleRate: number }
+  | { type: "speech_start" }
+  | { type: "speech_end"; durationMs: number }
+  | { type: "transcript"; text: string; final: boolean; confidence?: number | null; language?: string }
+  | { type: "response"; text: string }
+  | { type: "audio_start"; playbackId: number; format: string; mimeType: string }
+  | { type: "audio_end"; playbackId: number; interrupted: boolean }
+  | { type: "barge_in"; playbackId: number }
+  | { type: "error"; code: string; message: string };
+
+/**
+ * Canal hacia el cliente (WebSocket u otro)
+ */
+export interface VoiceSessionTransport {
+  sendJson(message: VoiceSessionMessage): void;
+  sendAudio(audio: Buffer): void;
+}
+
+/**
+ * Servicios que usa la sesión (inyectables para pruebas)
+ */
+export interface VoiceSessionDependencies {
+  transcribe(audio: Buffer, language?: string): Promise<STTResult>;
+  synthesize(text: string, options: TTSCallOptions): AsyncIterable<TTSResult>;
+  processMessage(text: string, state?: FlowState): Promise<{ response: string; state: FlowState }>;
+  hasQuota?(): Promise<boolean>;  // false si el tenant excedió su cuota (sin definir: sin límite)
+}
+
+export interface VoiceSessionOptions {
+  sessionId: string;
+  tenantId: string;
+  userId: string;
+  sampleRate?: number;
+  language?: string;   // Pista de idioma (si no, la del último nodo de voz del flujo)
+  voice?: string;
+  bargeIn?: boolean;
+  partialIntervalMs?: number;
+  state?: FlowState;   // Estado previo de la conversación
+}
+
+export class VoiceSession {
+  readonly sessionId: string;
+  readonly sampleRate: number;
+  private readonly vad: VoiceActivityDetector;
+  private readonly bargeIn: boolean;
+  private readonly partialIntervalMs: number;
+  private state?: FlowState;
+  // Turnos en orden: cada enunciado espera al anterior
+  private queue: Promise<void> = Promise.resolve();
+  private playbackId = 0;
+  private playing: number | null = null;
+  private interruptedUpTo = 0;
+  private lastPartialMs = 0;
+  private partialInFlight = false;
+  private closed = false;
+  private quotaExceeded = false;
+
+  constructor(
+    private options: VoiceSessionOptions,
+    private transport: VoiceSessionTransport,
+    private deps: VoiceSessionDependencies
+  ) {
+    this.sessionId = options.sessionId;
+    this.sampleRate = options.sampleRate || config.voiceStream.sampleRate;
+    this.vad = new VoiceActivityDetector({ sampleRate: this.sampleRate });
+    this.bargeIn = options.bargeIn ?? config.voiceStream.bargeIn;
+    this.partialIntervalMs = options.partialIntervalMs ?? config.voiceStream.partialIntervalMs;
+    this.state = options.state;
+  }
+
+  start(): void {
+    this.transport.sendJson({ type: "ready", sessionId: this.sessionId, sampleRate: this.sampleRate });
+  }
+
+  getState(): FlowState | undefined {
+    return this.state;
+  }
+
+  /**
+   * Procesa un fragmento de audio PCM del cliente
+   */
+  handleAudio(chunk: Buffer): void {
+    if (this.closed) return;
+    this.vad.push(chunk).forEach((event) => this.handleVADEvent(event));
+    this.maybeSendPartial();
+  }
+
+  /**
+   * Cierra el enunciado en curso (el cliente dejó de enviar audio)
+   */
+  endOfSpeech(): void {
+    const event = this.vad.flush();
+    if (event) this.handleVADEvent(event);
+  }
+
+  /**
+   * Procesa un mensaje escrito como si fuera un enunciado
+   */
+  handleText(text: string): Promise<void> {
+    return this.enqueue(async () => {
+      if (await this.checkQuota()) await this.respond(text);
+    });
+  }
+
+  /**
+   * Corta la respuesta en curso (barge-in explícito del cliente)
+   */
+  interrupt(): void {
+    if (this.playing !== null) {
+      this.transport.sendJson({ type: "barge_in", playbackId: this.playing });
+    }
+    // También se descartan las respuestas de turnos aún en proceso
+    this.interruptedUpTo = this.playbackId + 1;
+  }
+
+  /**
+   * Espera a que terminen los turnos pendientes
+   */
+  idle(): Promise<void> {
+    return this.queue;
+  }
+
+  close(): void {
+    this.closed = true;
+    this.interruptedUpTo = Number.MAX_SAFE_INTEGER;
+    this.vad.reset();
+  }
+
+  private handleVADEvent(event: VADEvent): void {
+    if (event.type === "speech_start") {
+      this.transport.sendJson({ type: "speech_start" });
+      this.lastPartialMs = 0;
+      if (this.bargeIn) this.interrupt();
+      return;
+    }
+
+    this.transport.sendJson({ type: "speech_end", durationMs: event.durationMs });
+    const audio = pcmToWav(event.audio, this.sampleRate);
+    this.enqueue(() => this.handleUtterance(audio));
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    this.queue = this.queue.then(task).catch((error) => {
+      logger.error(`Sesión de voz ${this.sessionId}: error en el turno:`, error);
+      this.transport.sendJson({
+        type: "error",
+        code: "TURN_FAILED",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    });
+    return this.queue;
+  }
+
+  /**
+   * Verifica la cuota del tenant antes de un turno y avisa al cliente si se excedió
+   */
+  private async checkQuota(): Promise<boolean> {
+    if (!this.deps.hasQuota) return true;
+
+    this.quotaExceeded = !(await this.deps.hasQuota());
+    if (this.quotaExceeded) {
+      this.transport.sendJson({
+        type: "error",
+        code: "QUOTA_EXCEEDED",
+        message: "El tenant ha excedido su cuota de mensajes para el período actual",
+      });
+    }
+    return !this.quotaExceeded;
+  }
+
+  private get language(): string | undefined {
+    return this.options.language || this.state?.context?.sttLanguage;
+  }
+
+  /**
+   * Transcribe el audio acumulado mientras el usuario sigue hablando
+   */
+  private maybeSendPartial(): void {
+    if (this.partialIntervalMs <= 0 || this.partialInFlight || this.quotaExceeded || !this.vad.isSpeaking()) return;
+
+    const durationMs = this.vad.getCurrentDurationMs();
+    if (durationMs - this.lastPartialMs < this.partialIntervalMs) return;
+
+    this.lastPartialMs = durationMs;
+    this.partialInFlight = true;
+    const audio = pcmToWav(this.vad.getCurrentAudio(), this.sampleRate);
+
+    this.deps
+      .transcribe(audio, this.language)
+      .then((result) => {
+        if (!this.closed && this.vad.isSpeaking() && result.text) {
+          this.transport.sendJson({ type: "transcript", text: result.text, final: false });
+        }
+      })
+      .catch((error) => logger.debug(`Sesión de voz ${this.sessionId}: transcripción parcial fallida: ${error}`))
+      .finally(() => (this.partialInFlight = false));
+  }
+
+  private async handleUtterance(audio: Buffer): Promise<void> {
+    if (this.closed || !(await this.checkQuota())) return;
+
+    const result = await this.deps.transcribe(audio, this.language);
+    const text = result.text.trim();
+    this.transport.sendJson({
+      type: "transcript",
+      text,
+      final: true,
+      confidence: result.confidence,
+      language: result.language,
+    });
+
+    if (text) {
+      await this.respond(text);
+    }
+  }
+
+  /**
+   * Procesa el texto con el flujo y envía la respuesta hablada
+   */
+  private async respond(text: string): Promise<void> {
+    if (this.closed) return;
+
+    const playbackId = ++this.playbackId;
+    const result = await this.deps.processMessage(text, this.state);
+    this.state = result.state;
+
+    // El usuario empezó a hablar mientras se procesaba el turno
+    if (this.isInterrupted(playbackId) || !result.response) return;
+
+    this.transport.sendJson({ type: "response", text: result.response });
+    await this.speak(result.response, playbackId);
+  }
+
+  private isInterrupted(playbackId: number): boolean {
+    return this.closed || playbackId < this.interruptedUpTo;
+  }
+
+  private async speak(text: string, playbackId: number): Promise<void> {
+    this.playing = playbackId;
+    let started = false;
+
+    try {
+      for await (const speech of this.deps.synthesize(text, {
+        tenantId: this.options.tenantId,
+        voice: this.options.voice,
+      })) {
+        if (this.isInterrupted(playbackId)) break;
+
+        if (!started) {
+          this.transport.sendJson({ type: "audio_start", playbackId, format: speech.format, mimeType: speech.mimeType });
+          started = true;
+        }
+        this.transport.sendAudio(speech.audio);
+      }
+    } finally {
+      this.playing = null;
+      if (started) {
+        this.transport.sendJson({ type: "audio_end", playbackId, interrupted: this.isInterrupted(playbackId) });
+      }
+    }
+  }
+}
+
+export default VoiceSession;
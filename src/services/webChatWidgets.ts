@@ -0,0 +1,248 @@
+/**
+ * src/services/webChatWidgets.ts
+ *
+ * Configuración del widget de chat web por tenant: orígenes permitidos
+ * (dominios donde se puede embeber), apariencia pública y la identidad
+ * firmada de los visitantes anónimos.
+ * @version 1.0.0
+ * @created 2025-06-17
+ */
+
+import crypto from "crypto";
+import { config } from "../config";
+import logger from "../utils/logger";
+import { getSupabaseAdminClient } from "./supabase";
+
+/**
+ * Apariencia del widget (se entrega sin autenticación al embeberlo)
+ */
+export interface WebChatWidgetSettings {
+  title?: string;
+  welcomeMessage?: string;
+  placeholder?: string;
+  primaryColor?: string;
+  avatarUrl?: string;
+  position?: "left" | "right";
+}
+
+export interface WebChatWidget {
+  tenant_id: string;
+  enabled: boolean;
+  allowed_origins: string[];      // Orígenes exactos, "https://*.dominio.com" o "*"
+  settings: WebChatWidgetSettings | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type WebChatWidgetUpdate = Partial<Pick<WebChatWidget, "enabled" | "allowed_origins" | "settings">>;
+
+export type WebChatWidgetErrorCode = "NOT_CONFIGURED" | "INVALID_ORIGIN";
+
+export class WebChatWidgetError extends Error {
+  constructor(public code: WebChatWidgetErrorCode, message: string) {
+    super(message);
+    this.name = "WebChatWidgetError";
+  }
+}
+
+/**
+ * Almacenamiento de los widgets por tenant
+ */
+export interface WebChatWidgetStore {
+  get(tenantId: string): Promise<WebChatWidget | null>;
+  save(widget: WebChatWidget): Promise<WebChatWidget>;
+}
+
+/**
+ * Almacenamiento en Supabase (tabla webchat_widgets)
+ */
+export class SupabaseWebChatWidgetStore implements WebChatWidgetStore {
+  async get(tenantId: string): Promise<WebChatWidget | null> {
+    const { data, error } = await getSupabaseAdminClient()
+      .from("webchat_widgets")
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .maybeSingle();
+    if (error) throw new Error(`Error al obtener el widget de chat del tenant ${tenantId}: ${error.message}`);
+    return (data as WebChatWidget) || null;
+  }
+
+  async save(widget: WebChatWidget): Promise<WebChatWidget> {
+    const { data, error } = await getSupabaseAdminClient()
+      .from("webchat_widgets")
+      .upsert({ ...widget, updated_at: new Date().toISOString() }, { onConflict: "tenant_id" })
+      .select()
+      .single();
+    if (error) throw new Error(`Error al guardar el widget de chat del tenant ${widget.tenant_id}: ${error.message}`);
+    return data as WebChatWidget;
+  }
+}
+
+/**
+ * Almacenamiento en memoria (pruebas o sin Supabase)
+ */
+export class MemoryWebChatWidgetStore implements WebChatWidgetStore {
+  widgets = new Map<string, WebChatWidget>();
+
+  async get(tenantId: string): Promise<WebChatWidget | null> {
+    return this.widgets.get(tenantId) || null;
+  }
+
+  async save(widget: WebChatWidget): Promise<WebChatWidget> {
+    const saved = { ...widget, updated_at: new Date().toISOString() };
+    this.widgets.set(widget.tenant_id, saved);
+    return saved;
+  }
+}
+
+/**
+ * Normaliza un origen ("https://Tienda.com/" -> "https://tienda.com")
+ * @returns null si no es un origen http(s) válido
+ */
+export function normalizeOrigin(value: string): string | null {
+  const trimmed = String(value || "").trim().toLowerCase().replace(/\/+$/, "");
+  if (trimmed === "*") return trimmed;
+  return /^https?:\/\/(\*\.)?[a-z0-9.-]+(:\d{1,5})?$/.test(trimmed) ? trimmed : null;
+}
+
+/**
+ * Indica si un origen está en la lista (admite "*" y subdominios con "https://*.dominio.com")
+ */
+export function isOriginAllowed(origin: string | undefined, allowedOrigins: string[]): boolean {
+  const normalized = origin ? normalizeOrigin(origin) : null;
+  if (!normalized || normalized === "*") return false;
+
+  return allowedOrigins.some((allowed) => {
+    if (allowed === "*") return true;
+    if (!allowed.includes("*.")) return allowed === normalized;
+
+    const [scheme, domain] = allowed.split("://*.");
+    return normalized.startsWith(`${scheme}://`) && normalized.endsWith(`.${domain}`);
+  });
+}
+
+function signVisitor(tenantId: string, visitorId: string): string {
+  if (!config.webchat.tokenSecret) {
+    throw new WebChatWidgetError("NOT_CONFIGURED", "WEBCHAT_TOKEN_SECRET no está configurado");
+  }
+  return crypto
+    .createHmac("sha256", config.webchat.tokenSecret)
+    .update(`${tenantId}:${visitorId}`)
+    .digest("base64url")
+    .slice(0, 32);
+}
+
+/**
+ * Token de un visitante anónimo: su ID y la firma del tenant y el ID
+ */
+export function createVisitorToken(tenantId: string, visitorId: string = `web-${crypto.randomUUID()}`): string {
+  return `${visitorId}.${signVisitor(tenantId, visitorId)}`;
+}
+
+/**
+ * Verifica el token de un visitante sin filtrar información por tiempos de comparación
+ * @returns ID del visitante, o null si el token no es de este tenant
+ */
+export function verifyVisitorToken(token: string | undefined, tenantId: string): string | null {
+  if (!token || !config.webchat.tokenSecret) return null;
+
+  const separator = token.lastIndexOf(".");
+  if (separator <= 0) return null;
+
+  const visitorId = token.slice(0, separator);
+  const expected = Buffer.from(signVisitor(tenantId, visitorId));
+  const received = Buffer.from(token.slice(separator + 1));
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received) ? visitorId : null;
+}
+
+export interface WebChatWidgetServiceOptions {
+  cacheTtlMs: number;
+  defaultAllowedOrigins: string[];
+}
+
+export class WebChatWidgetService {
+  private static instance: WebChatWidgetService;
+  private readonly options: WebChatWidgetServiceOptions;
+  private cache = new Map<string, { widget: WebChatWidget; expiresAt: number }>();
+
+  constructor(private store: WebChatWidgetStore, options: Partial<WebChatWidgetServiceOptions> = {}) {
+    this.options = {
+      cacheTtlMs: 60000,
+      defaultAllowedOrigins: config.webchat.allowedOrigins,
+      ...options,
+    };
+  }
+
+  static getInstance(): WebChatWidgetService {
+    if (!WebChatWidgetService.instance) {
+      const store = config.supabase.enabled ? new SupabaseWebChatWidgetStore() : new MemoryWebChatWidgetStore();
+      WebChatWidgetService.instance = new WebChatWidgetService(store);
+    }
+    return WebChatWidgetService.instance;
+  }
+
+  /**
+   * Widget del tenant; sin configuración propia usa los orígenes por defecto (WEBCHAT_ALLOWED_ORIGINS)
+   */
+  async getWidget(tenantId: string): Promise<WebChatWidget> {
+    const cached = this.cache.get(tenantId);
+    if (cached && cached.expiresAt > Date.now()) return cached.widget;
+
+    const stored = await this.store.get(tenantId);
+    const widget: WebChatWidget = stored || {
+      tenant_id: tenantId,
+      enabled: true,
+      allowed_origins: [],
+      settings: null,
+    };
+    this.cache.set(tenantId, { widget, expiresAt: Date.now() + this.options.cacheTtlMs });
+    return widget;
+  }
+
+  /**
+   * Orígenes efectivos del tenant
+   */
+  getAllowedOrigins(widget: WebChatWidget): string[] {
+    return widget.allowed_origins.length > 0 ? widget.allowed_origins : this.options.defaultAllowedOrigins;
+  }
+
+  /**
+   * Indica si el widget del tenant puede usarse desde el origen de la petición
+   */
+  async isOriginAllowed(tenantId: string, origin: string | undefined): Promise<boolean> {
+    const widget = await this.getWidget(tenantId);
+    return widget.enabled && isOriginAllowed(origin, this.getAllowedOrigins(widget));
+  }
+
+  /**
+   * Actualiza el widget del tenant (orígenes, apariencia o habilitado)
+   */
+  async updateWidget(tenantId: string, update: WebChatWidgetUpdate): Promise<WebChatWidget> {
+    const current = await this.getWidget(tenantId);
+    let allowedOrigins = current.allowed_origins;
+
+    if (update.allowed_origins !== undefined) {
+      allowedOrigins = [];
+      for (const origin of update.allowed_origins) {
+        const normalized = normalizeOrigin(origin);
+        if (!normalized) {
+          throw new WebChatWidgetError("INVALID_ORIGIN", `Origen no válido: ${origin}`);
+        }
+        if (!allowedOrigins.includes(normalized)) allowedOrigins.push(normalized);
+      }
+    }
+
+    const saved = await this.store.save({
+      ...current,
+      enabled: update.enabled ?? current.enabled,
+      allowed_origins: allowedOrigins,
+      settings: update.settings !== undefined ? update.settings : current.settings,
+    });
+
+    this.cache.delete(tenantId);
+    logger.info(`[WebChat] Widget del tenant ${tenantId} actualizado (${allowedOrigins.length} orígenes)`);
+    return saved;
+  }
+}
+
+export default WebChatWidgetService;
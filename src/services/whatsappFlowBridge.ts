@@ -4,8 +4,9 @@
  * Bridge service que conecta WhatsApp con los flujos modulares de BuilderBot
  * PROPÓSITO: Resolver el problema de navegación automática y asegurar integración correcta
  * 
- * @version 1.0.0
+ * @version 1.4.0
  * @created 2025-08-13
+ * @updated 2025-06-17
  */
 
 import { addKeyword } from '@builderbot/bot';
@@ -15,6 +16,11 @@ import { replaceVariables } from '../utils/variableReplacer';
 import { getSystemVariablesForTenant } from '../utils/systemVariablesLoader';
 import { processSalesFunnelActions } from './salesFunnelService';
 import * as ModularFlows from '../flows/nodes';
+import { AppointmentScheduler, APPOINTMENT_REPLY_KEYWORD } from './appointmentScheduler';
+import { WhatsAppProviderPool } from '../provider/whatsappProviderPool';
+import { isInteractiveProvider, isTypingProvider } from '../provider/interactiveProvider';
+import { MessageNodeMetadata } from '../models/flow.types';
+import { processButtonSelection } from './buttonProcessor';
 
 /**
  * Interface para datos del template de React Flow
@@ -58,7 +64,7 @@ export class WhatsAppFlowBridge {
    */
   createMainWhatsAppFlow() {
     return addKeyword(['hola', 'hi', 'hello', 'inicio', 'start'])
-      .addAction(async (ctx, { state, flowDynamic, gotoFlow }) => {
+      .addAction(async (ctx, { state, flowDynamic, gotoFlow, provider }) => {
         try {
           logger.info(`[WhatsAppBridge] Mensaje recibido de ${ctx.from}: "${ctx.body}"`);
           
@@ -88,15 +94,20 @@ export class WhatsAppFlowBridge {
           }
 
           // Procesar el nodo inicial
-          await this.processNode(initialNode, templateData, initialState, { flowDynamic, gotoFlow, ctx, state });
+          await this.processNode(initialNode, templateData, initialState, { flowDynamic, gotoFlow, ctx, state, provider });
 
         } catch (error) {
           logger.error(`[WhatsAppBridge] Error en flujo principal:`, error);
           await flowDynamic(['Ocurrió un error. Por favor intenta nuevamente.']);
         }
       })
-      .addAnswer('', { capture: true }, async (ctx, { state, flowDynamic, gotoFlow }) => {
+      .addAnswer('', { capture: true }, async (ctx, { state, flowDynamic, gotoFlow, provider }) => {
         try {
+          // Las respuestas a recordatorios de citas tienen prioridad sobre el flujo en curso
+          if (await this.handleAppointmentReply(ctx, flowDynamic)) {
+            return;
+          }
+
           const currentState = state.getMyState() || {};
           const tenantId = currentState.tenantId;
           
@@ -116,7 +127,7 @@ export class WhatsAppFlowBridge {
           currentState.lastUserMessage = ctx.body;
 
           // Procesar respuesta del usuario
-          await this.processUserResponse(ctx.body, currentState, templateData, { flowDynamic, gotoFlow, ctx, state });
+          await this.processUserResponse(ctx.body, currentState, templateData, { flowDynamic, gotoFlow, ctx, state, provider });
 
         } catch (error) {
           logger.error(`[WhatsAppBridge] Error procesando respuesta:`, error);
@@ -126,14 +137,51 @@ export class WhatsAppFlowBridge {
   }
 
   /**
-   * Determina el tenant basado en el contexto de WhatsApp
+   * Crea el flujo que atiende las respuestas a recordatorios de citas
+   * ("1" confirmar, "2" reprogramar, "3" cancelar, o el horario elegido)
+   */
+  createAppointmentReplyFlow() {
+    return addKeyword(APPOINTMENT_REPLY_KEYWORD, { regex: true })
+      .addAction(async (ctx, { flowDynamic, endFlow }) => {
+        try {
+          if (await this.handleAppointmentReply(ctx, flowDynamic)) {
+            return endFlow();
+          }
+        } catch (error) {
+          logger.error(`[WhatsAppBridge] Error en respuesta de cita:`, error);
+        }
+      });
+  }
+
+  /**
+   * Envía la respuesta del programador de citas si el mensaje responde a un recordatorio
+   * @returns true si el mensaje fue atendido
+   */
+  private async handleAppointmentReply(ctx: any, flowDynamic: (messages: string[]) => Promise<void>): Promise<boolean> {
+    const tenantId = await this.determineTenantId(ctx);
+    if (!tenantId) return false;
+
+    const reply = await AppointmentScheduler.getInstance().handleReply(tenantId, ctx.from, ctx.body);
+    if (!reply) return false;
+
+    logger.info(`[WhatsAppBridge] Respuesta a recordatorio de cita de ${ctx.from}`);
+    await flowDynamic([reply]);
+    return true;
+  }
+
+  /**
+   * Determina el tenant basado en el contexto de WhatsApp: el dueño del número
+   * que recibe el mensaje (ctx.host) en el pool de números por tenant.
+   * Los mensajes del número global (sin tenant en el pool) van al tenant por defecto.
    */
   private async determineTenantId(ctx: any): Promise<string | null> {
-    // Lógica para determinar tenant - puede ser basado en número de teléfono, metadata, etc.
-    // Por ahora, usamos un tenant por defecto o extraemos de ctx._metadata
-    const tenantId = ctx._metadata?.tenantId || process.env.DEFAULT_TENANT_ID || 'default-tenant';
+    const tenantId =
+      ctx._metadata?.tenantId ||
+      WhatsAppProviderPool.getInstance().resolveTenantByNumber(ctx.host) ||
+      process.env.DEFAULT_TENANT_ID ||
+      'default-tenant';
     
-    logger.debug(`[WhatsAppBridge] Tenant determinado: ${tenantId}`);
+    logger.debug(`[WhatsAppBridge] Tenant determinado: ${tenantId} (número ${ctx.host || 'desconocido'})`);
     return tenantId;
   }
 
@@ -282,6 +330,11 @@ export class WhatsAppFlowBridge {
           await this.processButtonsNode(node, templateData, currentState, builderBotContext);
           break;
 
+        case 'listnode':
+        case 'list':
+          await this.processListNode(node, templateData, currentState, builderBotContext);
+          break;
+
         case 'inputnode':
         case 'input':
           await this.processInputNode(node, templateData, currentState, builderBotContext);
@@ -314,8 +367,17 @@ export class WhatsAppFlowBridge {
       // Reemplazar variables
       message = replaceVariables(message, currentState.globalVars);
 
+      // Pausa e indicador de escritura antes del mensaje (MessageNodeMetadata)
+      const { delay, typing } = (node.data || {}) as Partial<MessageNodeMetadata>;
+      if (typing && isTypingProvider(builderBotContext.provider)) {
+        await builderBotContext.provider.sendTyping(builderBotContext.ctx.from, delay || 0);
+      }
+
       // Enviar mensaje
-      await builderBotContext.flowDynamic([message]);
+      const media = node.data?.media || node.data?.imageUrl;
+      await builderBotContext.flowDynamic([
+        { body: message, ...(delay ? { delay } : {}), ...(media ? { media } : {}) },
+      ]);
 
       // Procesar sales funnel si aplica
       if (node.data?.salesStageId) {
@@ -361,15 +423,23 @@ export class WhatsAppFlowBridge {
       // Preparar mensaje con opciones
       let fullMessage = replaceVariables(message, currentState.globalVars);
       
-      if (buttons.length > 0) {
-        fullMessage += '\n\n';
-        buttons.forEach((button, index) => {
-          fullMessage += `${index + 1}. ${button.text}\n`;
+      if (buttons.length > 0 && isInteractiveProvider(builderBotContext.provider)) {
+        // Botones nativos (Meta Cloud API); más de 3 se envían como lista
+        await builderBotContext.provider.sendInteractiveButtons(builderBotContext.ctx.from, fullMessage, {
+          ...node.data,
+          buttons,
         });
-      }
+      } else {
+        if (buttons.length > 0) {
+          fullMessage += '\n\n';
+          buttons.forEach((button, index) => {
+            fullMessage += `${index + 1}. ${button.text}\n`;
+          });
+        }
 
-      // Enviar mensaje
-      await builderBotContext.flowDynamic([fullMessage]);
+        // Enviar mensaje
+        await builderBotContext.flowDynamic([fullMessage]);
+      }
 
       // Actualizar estado para esperar respuesta
       currentState.awaitingResponse = true;
@@ -383,6 +453,50 @@ export class WhatsAppFlowBridge {
     }
   }
 
+  /**
+   * Procesa nodo de lista: los elementos se eligen igual que los botones
+   */
+  private async processListNode(
+    node: TemplateNode,
+    templateData: TemplateData,
+    currentState: any,
+    builderBotContext: any
+  ) {
+    try {
+      const message = node.data?.message || node.data?.description || 'Selecciona una opción:';
+      const items = (node.data?.items || []).filter((item) => !item.disabled);
+
+      let fullMessage = replaceVariables(message, currentState.globalVars);
+
+      if (items.length > 0 && isInteractiveProvider(builderBotContext.provider)) {
+        // Lista nativa (Meta Cloud API) o teclado inline (Telegram)
+        await builderBotContext.provider.sendInteractiveList(builderBotContext.ctx.from, fullMessage, {
+          ...node.data,
+          items,
+        });
+      } else {
+        if (items.length > 0) {
+          fullMessage += '\n\n';
+          items.forEach((item, index) => {
+            fullMessage += `${index + 1}. ${item.text}${item.description ? ` - ${item.description}` : ''}\n`;
+          });
+        }
+
+        await builderBotContext.flowDynamic([fullMessage]);
+      }
+
+      // Actualizar estado para esperar respuesta
+      currentState.awaitingResponse = true;
+      currentState.awaitingButtonSelection = true;
+      currentState.buttonOptions = items.map((item) => ({ id: item.id, text: item.text, value: item.value, handle: item.handle }));
+      await builderBotContext.state.update(currentState);
+
+    } catch (error) {
+      logger.error(`[WhatsAppBridge] Error en processListNode:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Procesa nodo de input
    */
@@ -460,27 +574,19 @@ export class WhatsAppFlowBridge {
       let selectedButton = null;
       let selectedIndex = -1;
 
-      // Buscar selección por número
-      const numMatch = userMessage.match(/^(\d+)$/);
-      if (numMatch) {
-        const num = parseInt(numMatch[1], 10);
-        if (num > 0 && num <= buttons.length) {
-          selectedIndex = num - 1;
-          selectedButton = buttons[selectedIndex];
-        }
+      // Respuesta a un botón o lista nativos (Meta, callback de Telegram): llega el ID del botón
+      const buttonId = builderBotContext.ctx?.buttonId;
+      if (buttonId) {
+        selectedIndex = buttons.findIndex((button) => (button.value || button.id) === buttonId);
+        selectedButton = selectedIndex >= 0 ? buttons[selectedIndex] : null;
       }
 
-      // Buscar por texto si no encontró por número
+      // Texto escrito: número, texto o valor del botón, coincidencia parcial, sí/no
       if (!selectedButton) {
-        const normalizedInput = userMessage.toLowerCase().trim();
-        for (let i = 0; i < buttons.length; i++) {
-          const button = buttons[i];
-          if (button.text.toLowerCase().includes(normalizedInput) ||
-              button.value?.toLowerCase().includes(normalizedInput)) {
-            selectedButton = button;
-            selectedIndex = i;
-            break;
-          }
+        const selection = processButtonSelection(userMessage, buttons);
+        if (selection) {
+          selectedIndex = selection.index;
+          selectedButton = buttons[selectedIndex];
         }
       }
 
@@ -496,7 +602,7 @@ export class WhatsAppFlowBridge {
           const edges = templateData.edges.filter(edge => edge.source === currentNode.id);
           
           // Si hay edge específico para este botón
-          let targetEdge = edges.find(edge => edge.sourceHandle === `handle-${selectedIndex}`);
+          let targetEdge = edges.find(edge => edge.sourceHandle === (selectedButton.handle || `handle-${selectedIndex}`));
           if (!targetEdge && edges.length > selectedIndex) {
             targetEdge = edges[selectedIndex];
           }
@@ -0,0 +1,50 @@
+-- Base del merge de plantillas (src/services/flowMerge.ts)
+-- Cada flujo instanciado guarda el contenido y la versión de la plantilla con la
+-- que se creó o sincronizó por última vez, para calcular el merge de tres vías
+-- cuando la plantilla se actualiza
+
+ALTER TABLE flows
+  ADD COLUMN IF NOT EXISTS parent_template_snapshot JSONB,  -- { name, description, entryNodeId, nodes }
+  ADD COLUMN IF NOT EXISTS parent_template_version TEXT;
+
+-- Aplica un merge de plantilla en una sola transacción (src/services/templateService.ts,
+-- applyTemplateMerge): reemplaza los nodos del borrador, actualiza el nodo de entrada y
+-- guarda la nueva base. Si algo falla no queda un flujo a medio actualizar.
+-- p_nodes: arreglo de filas de flow_nodes ({ id, type, content, metadata, next, x, y })
+CREATE OR REPLACE FUNCTION apply_flow_template_merge(
+  p_flow_id UUID,
+  p_entry_node_id TEXT,
+  p_nodes JSONB,
+  p_template_snapshot JSONB,
+  p_template_version TEXT
+) RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE flows
+  SET entry_node_id = p_entry_node_id,
+      parent_template_snapshot = p_template_snapshot,
+      parent_template_version = p_template_version,
+      updated_at = now()
+  WHERE id = p_flow_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Flujo % no encontrado', p_flow_id;
+  END IF;
+
+  INSERT INTO flow_nodes (id, flow_id, type, content, metadata, next, x, y)
+  SELECT node.id, p_flow_id, node.type, node.content, node.metadata, node.next, node.x, node.y
+  FROM jsonb_populate_recordset(NULL::flow_nodes, p_nodes) AS node
+  ON CONFLICT (id, flow_id) DO UPDATE
+  SET type = EXCLUDED.type,
+      content = EXCLUDED.content,
+      metadata = EXCLUDED.metadata,
+      next = EXCLUDED.next,
+      x = EXCLUDED.x,
+      y = EXCLUDED.y;
+
+  DELETE FROM flow_nodes
+  WHERE flow_id = p_flow_id
+    AND id NOT IN (SELECT node.id FROM jsonb_populate_recordset(NULL::flow_nodes, p_nodes) AS node);
+END;
+$$;
@@ -0,0 +1,7 @@
+-- Voz de síntesis (TTS) por tenant (src/services/speech)
+-- tts_provider usa los nombres registrados: minimax, local, silent.
+-- tts_voice es un ID de voz de ese proveedor (p. ej. Calm_Woman en MiniMax, "es" en espeak-ng).
+-- Valores nulos usan la configuración global (TTS_PROVIDER, MINIMAX_VOICE, LOCAL_TTS_VOICE).
+
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS tts_provider TEXT;
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS tts_voice TEXT;
@@ -0,0 +1,127 @@
+-- Soporte de reservas para el motor de citas (src/services/appointmentService.ts)
+-- Agrega los campos de reserva a tenant_appointments, la tabla de agentes, una
+-- restricción de exclusión que impide reservar dos citas solapadas del mismo agente
+-- y sede, y la función book_tenant_appointment que aplica el límite diario
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- Campos de reserva, reprogramación y cancelación
+ALTER TABLE tenant_appointments
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'scheduled',
+  ADD COLUMN IF NOT EXISTS lead_id UUID,
+  ADD COLUMN IF NOT EXISTS property_id UUID,
+  ADD COLUMN IF NOT EXISTS customer_name TEXT,
+  ADD COLUMN IF NOT EXISTS customer_phone TEXT,
+  ADD COLUMN IF NOT EXISTS customer_email TEXT,
+  ADD COLUMN IF NOT EXISTS notes TEXT,
+  ADD COLUMN IF NOT EXISTS source TEXT DEFAULT 'api',
+  ADD COLUMN IF NOT EXISTS session_id TEXT,
+  ADD COLUMN IF NOT EXISTS cancellation_reason TEXT,
+  ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS rescheduled_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS buffer_time INTEGER NOT NULL DEFAULT 0; -- Minutos libres después de la cita
+
+CREATE INDEX IF NOT EXISTS idx_tenant_appointments_tenant_date
+  ON tenant_appointments (tenant_id, date);
+
+CREATE INDEX IF NOT EXISTS idx_tenant_appointments_lead
+  ON tenant_appointments (tenant_id, lead_id);
+
+-- Agentes que atienden citas; sin agentes activos se usa un solo calendario
+CREATE TABLE IF NOT EXISTS tenant_appointment_agents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  email TEXT,
+  phone TEXT,
+  location_id UUID,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tenant_appointment_agents_tenant
+  ON tenant_appointment_agents (tenant_id) WHERE is_active;
+
+-- Evita citas solapadas del mismo agente (o del calendario compartido si no hay agente)
+-- en la misma sede. Cada cita ocupa su horario más el buffer posterior, de modo que
+-- entre dos citas siempre quedan libres los minutos de buffer_time.
+-- Un intento de doble reserva devuelve el código 23P01
+ALTER TABLE tenant_appointments
+  DROP CONSTRAINT IF EXISTS tenant_appointments_no_overlap;
+
+ALTER TABLE tenant_appointments
+  ADD CONSTRAINT tenant_appointments_no_overlap
+  EXCLUDE USING gist (
+    tenant_id WITH =,
+    (COALESCE(location_id::text, '')) WITH =,
+    (COALESCE(agent_id::text, '')) WITH =,
+    tsrange(
+      date + start_time::time,
+      date + end_time::time + buffer_time * interval '1 minute'
+    ) WITH &&
+  ) WHERE (status <> 'cancelled');
+
+-- Reserva (p_appointment_id NULL) o reprograma una cita aplicando el límite diario.
+-- El bloqueo por tenant y fecha serializa las reservas de todas las instancias del
+-- servidor; si el límite se alcanzó devuelve el código AP001.
+-- p_max_daily: límite diario (NULL = sin límite); se cuentan solo las citas del mismo
+-- tipo si la cita tiene appointment_type_id y solo las de la sede si tiene location_id
+CREATE OR REPLACE FUNCTION book_tenant_appointment(
+  p_appointment JSONB,
+  p_max_daily INTEGER DEFAULT NULL,
+  p_appointment_id UUID DEFAULT NULL
+) RETURNS tenant_appointments
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_new tenant_appointments := jsonb_populate_record(NULL::tenant_appointments, p_appointment);
+  v_count INTEGER;
+  v_result tenant_appointments;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(v_new.tenant_id::text || ':' || v_new.date::text));
+
+  IF p_max_daily IS NOT NULL THEN
+    SELECT count(*) INTO v_count
+    FROM tenant_appointments
+    WHERE tenant_id = v_new.tenant_id
+      AND date = v_new.date
+      AND status <> 'cancelled'
+      AND (v_new.appointment_type_id IS NULL OR appointment_type_id = v_new.appointment_type_id)
+      AND (v_new.location_id IS NULL OR location_id = v_new.location_id)
+      AND (p_appointment_id IS NULL OR id <> p_appointment_id);
+
+    IF v_count >= p_max_daily THEN
+      RAISE EXCEPTION 'Se alcanzó el límite de citas del %', v_new.date USING ERRCODE = 'AP001';
+    END IF;
+  END IF;
+
+  IF p_appointment_id IS NULL THEN
+    INSERT INTO tenant_appointments (
+      tenant_id, date, start_time, end_time, buffer_time, status, appointment_type_id,
+      agent_id, location_id, lead_id, property_id, customer_name, customer_phone,
+      customer_email, notes, source, session_id
+    ) VALUES (
+      v_new.tenant_id, v_new.date, v_new.start_time, v_new.end_time, v_new.buffer_time,
+      v_new.status, v_new.appointment_type_id, v_new.agent_id, v_new.location_id,
+      v_new.lead_id, v_new.property_id, v_new.customer_name, v_new.customer_phone,
+      v_new.customer_email, v_new.notes, v_new.source, v_new.session_id
+    )
+    RETURNING * INTO v_result;
+  ELSE
+    UPDATE tenant_appointments
+    SET date = v_new.date,
+        start_time = v_new.start_time,
+        end_time = v_new.end_time,
+        buffer_time = v_new.buffer_time,
+        agent_id = v_new.agent_id,
+        rescheduled_at = now(),
+        updated_at = now()
+    WHERE id = p_appointment_id
+      AND tenant_id = v_new.tenant_id
+    RETURNING * INTO v_result;
+  END IF;
+
+  RETURN v_result;
+END;
+$$;
@@ -0,0 +1,33 @@
+-- Trabajos programados de citas (src/services/appointmentScheduler.ts)
+-- Confirmaciones, recordatorios y seguimientos por inasistencia; se persisten
+-- para sobrevivir a reinicios y para asociar las respuestas del cliente
+
+CREATE TABLE IF NOT EXISTS appointment_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL,
+  appointment_id UUID NOT NULL REFERENCES tenant_appointments(id) ON DELETE CASCADE,
+  job_type TEXT NOT NULL CHECK (job_type IN ('confirmation', 'reminder', 'no_show_followup')),
+  run_at TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'awaiting_reply', 'completed', 'failed', 'cancelled')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  phone TEXT NOT NULL,
+  phone_key TEXT NOT NULL,       -- Últimos 10 dígitos del teléfono
+  last_error TEXT,
+  reply_state JSONB,             -- Estado de la reprogramación en curso
+  reply_expires_at TIMESTAMPTZ,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Trabajos vencidos por procesar
+CREATE INDEX IF NOT EXISTS idx_appointment_jobs_due
+  ON appointment_jobs (run_at) WHERE status = 'pending';
+
+-- Búsqueda de recordatorios que esperan respuesta
+CREATE INDEX IF NOT EXISTS idx_appointment_jobs_reply
+  ON appointment_jobs (tenant_id, phone_key) WHERE status = 'awaiting_reply';
+
+CREATE INDEX IF NOT EXISTS idx_appointment_jobs_appointment
+  ON appointment_jobs (appointment_id);
@@ -0,0 +1,34 @@
+-- Versionado de flujos (src/services/flowVersionService.ts)
+-- flows/flow_nodes pasan a ser el borrador editable; cada publicación guarda
+-- una copia inmutable del flujo y flows.published_version_id indica la que se ejecuta
+
+CREATE TABLE IF NOT EXISTS flow_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  flow_id UUID NOT NULL REFERENCES flows(id) ON DELETE CASCADE,
+  tenant_id UUID,
+  version_number INTEGER NOT NULL,
+  version TEXT NOT NULL,
+  snapshot JSONB NOT NULL,       -- { name, description, entryNodeId, nodes }
+  notes TEXT,
+  published_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (flow_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_flow_versions_flow
+  ON flow_versions (flow_id, version_number DESC);
+
+ALTER TABLE flows
+  ADD COLUMN IF NOT EXISTS published_version_id UUID REFERENCES flow_versions(id) ON DELETE SET NULL;
+
+-- Las versiones publicadas son inmutables
+CREATE OR REPLACE FUNCTION prevent_flow_version_update() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'Las versiones publicadas de un flujo no se pueden modificar';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS flow_versions_immutable ON flow_versions;
+CREATE TRIGGER flow_versions_immutable
+  BEFORE UPDATE ON flow_versions
+  FOR EACH ROW EXECUTE FUNCTION prevent_flow_version_update();
@@ -0,0 +1,33 @@
+-- Base de conocimiento por tenant (src/services/knowledgeBase)
+-- Documentos subidos por el tenant y sus fragmentos indexables; el índice BM25
+-- se construye en memoria y el embedding es opcional (ENABLE_KNOWLEDGE_BASE_EMBEDDINGS)
+
+CREATE TABLE IF NOT EXISTS knowledge_documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL,
+  title TEXT NOT NULL,
+  format TEXT NOT NULL CHECK (format IN ('text', 'markdown', 'pdf')),
+  source TEXT,
+  content_length INTEGER NOT NULL DEFAULT 0,
+  chunk_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_documents_tenant
+  ON knowledge_documents (tenant_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS knowledge_chunks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID NOT NULL REFERENCES knowledge_documents(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL,
+  chunk_index INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  heading TEXT,
+  page INTEGER,
+  embedding JSONB,               -- Vector del fragmento (opcional)
+  UNIQUE (document_id, chunk_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_chunks_tenant
+  ON knowledge_chunks (tenant_id);
@@ -0,0 +1,49 @@
+-- Registro de entrega de mensajes salientes (src/services/messageDelivery.ts)
+-- Cada mensaje enviado por providerService queda en message_deliveries con su
+-- estado (queued, sent, delivered, read, failed); los cambios de estado y los
+-- reintentos se guardan en message_delivery_events para la línea de tiempo
+
+CREATE TABLE IF NOT EXISTS message_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL,
+  recipient TEXT NOT NULL,            -- Destino tal como se envió al proveedor
+  recipient_key TEXT NOT NULL,        -- Solo dígitos (identifica la conversación)
+  message_type TEXT NOT NULL CHECK (message_type IN ('text', 'buttons', 'list', 'media')),
+  content TEXT NOT NULL DEFAULT '',
+  payload JSONB,                      -- Botones, lista o URL del medio
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'sent', 'delivered', 'read', 'failed')),
+  channel_message_id TEXT,            -- ID del mensaje en el canal (wamid, SID de Twilio, key de Baileys)
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ,
+  last_error TEXT,
+  sent_at TIMESTAMPTZ,
+  delivered_at TIMESTAMPTZ,
+  read_at TIMESTAMPTZ,
+  failed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Reintentos pendientes
+CREATE INDEX IF NOT EXISTS idx_message_deliveries_retry
+  ON message_deliveries (next_attempt_at) WHERE status = 'queued';
+
+-- Estados informados por el proveedor
+CREATE INDEX IF NOT EXISTS idx_message_deliveries_channel_id
+  ON message_deliveries (channel_message_id) WHERE channel_message_id IS NOT NULL;
+
+-- Línea de tiempo de una conversación
+CREATE INDEX IF NOT EXISTS idx_message_deliveries_conversation
+  ON message_deliveries (tenant_id, recipient_key, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS message_delivery_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  delivery_id UUID NOT NULL REFERENCES message_deliveries(id) ON DELETE CASCADE,
+  status TEXT NOT NULL CHECK (status IN ('queued', 'sent', 'delivered', 'read', 'failed')),
+  detail TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_delivery_events_delivery
+  ON message_delivery_events (delivery_id, created_at);
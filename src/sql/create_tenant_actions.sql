@@ -0,0 +1,20 @@
+-- Acciones propias de cada tenant para nodos ACTION (src/services/actionRegistry.ts, loadTenantActions)
+-- action_type: nombre normalizado que usan los nodos (p. ej. "consultar_crm")
+-- kind: "webhook" (config con url, method, headers, body, responsePath... como un nodo API_CALL)
+--       o "preset" (config: { action, parameters } sobre una acción integrada)
+-- Se recargan cada 5 minutos y tienen prioridad sobre las acciones integradas con el mismo nombre.
+
+CREATE TABLE IF NOT EXISTS tenant_actions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL,
+  action_type TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('webhook', 'preset')),
+  config JSONB NOT NULL DEFAULT '{}',
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Una fila por acción y tenant; también sirve para la consulta por tenant del cargador
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tenant_actions_tenant_action_type
+  ON tenant_actions (tenant_id, action_type);
@@ -0,0 +1,15 @@
+-- Validaciones de respuestas de IA por tenant (src/services/aiGuardrails.ts)
+-- forbidden_topics: temas o frases que la IA no debe tratar (se comparan sin acentos ni mayúsculas).
+-- Los valores nulos usan la configuración global (AI_MAX_RESPONSE_LENGTH, AI_GUARDRAIL_FALLBACK_REPLY).
+-- Las respuestas bloqueadas se registran en audit_logs con action_type 'ai_response_blocked'.
+
+CREATE TABLE IF NOT EXISTS tenant_guardrail_settings (
+  tenant_id UUID PRIMARY KEY,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  forbidden_topics TEXT[] NOT NULL DEFAULT '{}',
+  max_response_length INTEGER,
+  fallback_reply TEXT,
+  verify_prices BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
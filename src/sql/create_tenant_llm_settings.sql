@@ -0,0 +1,12 @@
+-- Proveedor de modelos de lenguaje por tenant (src/services/llm)
+-- provider y fallback_providers usan los nombres registrados: openai, local, scripted.
+-- Los nodos de IA pueden elegir su propio proveedor (metadata.llmProvider), que tiene prioridad.
+
+CREATE TABLE IF NOT EXISTS tenant_llm_settings (
+  tenant_id UUID PRIMARY KEY,
+  provider TEXT,
+  fallback_providers TEXT[] NOT NULL DEFAULT '{}',
+  model TEXT,                    -- Modelo para el proveedor del tenant
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
@@ -0,0 +1,17 @@
+-- Intenciones NLU propias de cada tenant (src/services/nlu/index.ts, loadTenantExamples)
+-- intent: nombre de la intención (p. ej. "agendar_visita"); examples: frases de ejemplo
+-- con las que se entrena el clasificador local del tenant. Se recargan cada 5 minutos
+-- y se suman a las intenciones predeterminadas (una intención con el mismo nombre reemplaza sus ejemplos).
+
+CREATE TABLE IF NOT EXISTS tenant_nlu_intents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL,
+  intent TEXT NOT NULL,
+  examples TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Una fila por intención y tenant; también sirve para la consulta por tenant del cargador
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tenant_nlu_intents_tenant_intent
+  ON tenant_nlu_intents (tenant_id, intent);
@@ -0,0 +1,25 @@
+-- Número de WhatsApp conectado por tenant (src/provider/whatsappProviderPool.ts)
+-- provider: baileys, twilio o meta. phone_number solo con dígitos (código de país incluido);
+-- en Baileys se completa al vincular el QR. Los mensajes entrantes se asignan al tenant
+-- dueño del número que los recibe.
+-- credentials guarda las credenciales del proveedor (Twilio: accountSid, authToken, phoneNumber, port).
+-- Al iniciar se reconectan los números con auto_connect = true.
+
+CREATE TABLE IF NOT EXISTS tenant_whatsapp_numbers (
+  tenant_id UUID PRIMARY KEY,
+  provider TEXT NOT NULL DEFAULT 'baileys' CHECK (provider IN ('baileys', 'twilio', 'meta')),
+  phone_number TEXT,
+  status TEXT NOT NULL DEFAULT 'disconnected'
+    CHECK (status IN ('connecting', 'awaiting_qr', 'connected', 'disconnected', 'error')),
+  credentials JSONB,
+  auto_connect BOOLEAN NOT NULL DEFAULT true,
+  last_error TEXT,
+  connected_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Un número solo puede pertenecer a un tenant
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tenant_whatsapp_numbers_phone
+  ON tenant_whatsapp_numbers (phone_number)
+  WHERE phone_number IS NOT NULL;
@@ -0,0 +1,14 @@
+-- Widget de chat web embebible por tenant (src/services/webChatWidgets.ts)
+-- allowed_origins: orígenes donde se puede embeber el widget ("https://tienda.com",
+-- "https://*.tienda.com" o "*"). Vacío = WEBCHAT_ALLOWED_ORIGINS.
+-- settings guarda la apariencia pública (title, welcomeMessage, placeholder,
+-- primaryColor, avatarUrl, position).
+
+CREATE TABLE IF NOT EXISTS webchat_widgets (
+  tenant_id UUID PRIMARY KEY,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  allowed_origins TEXT[] NOT NULL DEFAULT '{}',
+  settings JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
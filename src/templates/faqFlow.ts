@@ -1,13 +1,12 @@
 /**
  * backend/src/flows/faqFlow.ts
- * Flujo para manejar todas las interacciones con OpenAI
- * @version 1.1.0
- * @updated 2024-02-01
+ * Flujo para manejar todas las interacciones con el LLM
+ * @version 1.2.1
+ * @updated 2025-06-17
  */
 
 import { addKeyword } from "@builderbot/bot";
-import AIServices from "../services/aiServices";
-import { config } from "~/config";
+import { LLMService } from "../services/llm";
 import path from "path";
 import fs from "fs";
 
@@ -18,26 +17,32 @@ const pathPrompt = path.join(
   "prompt_OpenAI.txt"
 );
 
-// Leemos el prompt base para OpenAI
+// Leemos el prompt base del asistente
 const prompt = fs.readFileSync(pathPrompt, "utf8");
 
-// Inicializamos el servicio de AI
-let aiService: AIServices;
-
-try {
-  aiService = new AIServices(config.openai.apiKey);
-} catch (error) {
-  console.error("Error al inicializar AIServices:", error);
-}
+/**
+ * Responde una pregunta con el proveedor de LLM configurado para el tenant
+ * (el tenant también permite contabilizar los tokens consumidos)
+ */
+const answerQuestion = async (question: string, tenantId?: string): Promise<string> => {
+  const response = await LLMService.getInstance().complete(
+    {
+      systemPrompt: prompt,
+      messages: [{ role: "user", content: question }],
+    },
+    { tenantId }
+  );
+  return response.text;
+};
 
 /**
- * Flujo principal para manejar preguntas y respuestas con OpenAI
+ * Flujo principal para manejar preguntas y respuestas con el LLM
  */
 export const faqFlow = addKeyword(["pregunta", "consulta", "help", "ayuda"])
   .addAction(async (ctx, { flowDynamic, endFlow, state }) => {
     try {
       // Verificamos que el servicio esté inicializado
-      if (!aiService) {
+      if (LLMService.getInstance().listProviders().length === 0) {
         return endFlow(
           "❌ El servicio de AI no está disponible en este momento."
         );
@@ -51,10 +56,10 @@ export const faqFlow = addKeyword(["pregunta", "consulta", "help", "ayuda"])
       // Mostramos indicador de que estamos procesando
       await flowDynamic("Procesando tu pregunta... ⌛");
 
-      // Procesamos la pregunta con OpenAI
-      const response = await aiService.chat(prompt, [
-        { role: "user", content: ctx.body },
-      ]);
+      // Procesamos la pregunta con el LLM del tenant
+      const currentState = state.getMyState();
+      const tenantId = currentState?.tenantId || ctx._metadata?.tenantId;
+      const response = await answerQuestion(ctx.body, tenantId);
 
       // Enviamos la respuesta al usuario
       await flowDynamic(response);
@@ -66,7 +71,6 @@ export const faqFlow = addKeyword(["pregunta", "consulta", "help", "ayuda"])
       ]);
 
       // Guardamos el estado para la siguiente interacción
-      const currentState = state.getMyState();
       state.update({
         ...currentState,
         lastQuestion: ctx.body,
@@ -105,9 +109,7 @@ export const faqFlow = addKeyword(["pregunta", "consulta", "help", "ayuda"])
 
       // Continuamos con el flujo de preguntas
       try {
-        const response = await aiService.chat(prompt, [
-          { role: "user", content: ctx.body },
-        ]);
+        const response = await answerQuestion(ctx.body);
 
         await flowDynamic(response);
         await flowDynamic([
@@ -0,0 +1,537 @@
+/**
+ * src/utils/conditionExpression.ts
+ *
+ * Lenguaje de expresiones seguro para condiciones de flujo.
+ * Soporta comparaciones numéricas y de fechas, composición booleana
+ * (&&, ||, !, and, or, not), listas con "in" y coerción de tipos.
+ * Nunca ejecuta código arbitrario: las expresiones se analizan a un AST propio.
+ *
+ * Ejemplo: presupuesto >= 2000000 && tipo_propiedad in ["casa", "depto"]
+ *
+ * @version 1.0.0
+ * @created 2025-06-05
+ */
+
+// ----- Tokenizador -----
+
+type TokenType = "number" | "string" | "identifier" | "operator" | "punctuation" | "eof";
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const OPERATORS = ["&&", "||", ">=", "<=", "==", "!=", ">", "<", "!", "="];
+const KEYWORDS: Record<string, string> = {
+  and: "&&",
+  or: "||",
+  not: "!",
+};
+
+/**
+ * Error de sintaxis o evaluación de una expresión
+ */
+export class ExpressionError extends Error {
+  constructor(message: string, public position?: number) {
+    super(position !== undefined ? `${message} (posición ${position})` : message);
+    this.name = "ExpressionError";
+  }
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // Números (admite decimales)
+    if (/\d/.test(char) || (char === "." && /\d/.test(expression[i + 1] || ""))) {
+      const start = i;
+      while (i < expression.length && /[\d._]/.test(expression[i])) i++;
+      tokens.push({ type: "number", value: expression.slice(start, i).replace(/_/g, ""), position: start });
+      continue;
+    }
+
+    // Cadenas entre comillas simples o dobles
+    if (char === '"' || char === "'") {
+      const start = i;
+      let value = "";
+      i++;
+      while (i < expression.length && expression[i] !== char) {
+        if (expression[i] === "\\" && i + 1 < expression.length) i++;
+        value += expression[i];
+        i++;
+      }
+      if (i >= expression.length) throw new ExpressionError("Cadena sin cerrar", start);
+      i++;
+      tokens.push({ type: "string", value, position: start });
+      continue;
+    }
+
+    // Identificadores y rutas (lead.nombre, items[0])
+    if (/[A-Za-z_áéíóúñÁÉÍÓÚÑ]/.test(char)) {
+      const start = i;
+      while (i < expression.length && /[\wáéíóúñÁÉÍÓÚÑ.]/.test(expression[i])) i++;
+      const word = expression.slice(start, i);
+      const keyword = KEYWORDS[word.toLowerCase()];
+      tokens.push(
+        keyword
+          ? { type: "operator", value: keyword, position: start }
+          : { type: "identifier", value: word, position: start }
+      );
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => expression.startsWith(op, i));
+    if (operator) {
+      tokens.push({ type: "operator", value: operator === "=" ? "==" : operator, position: i });
+      i += operator.length;
+      continue;
+    }
+
+    if ("()[],".includes(char)) {
+      tokens.push({ type: "punctuation", value: char, position: i });
+      i++;
+      continue;
+    }
+
+    throw new ExpressionError(`Carácter inesperado '${char}'`, i);
+  }
+
+  tokens.push({ type: "eof", value: "", position: expression.length });
+  return tokens;
+}
+
+// ----- Parser (descenso recursivo) -----
+
+/**
+ * Nodo del árbol sintáctico de una expresión
+ */
+export type ExpressionNode =
+  | { kind: "literal"; value: any }
+  | { kind: "variable"; path: string }
+  | { kind: "array"; items: ExpressionNode[] }
+  | { kind: "call"; name: string; args: ExpressionNode[] }
+  | { kind: "not"; operand: ExpressionNode }
+  | { kind: "logical"; operator: "&&" | "||"; left: ExpressionNode; right: ExpressionNode }
+  | { kind: "compare"; operator: string; left: ExpressionNode; right: ExpressionNode };
+
+const COMPARISON_WORDS = ["in", "contains", "startswith", "endswith", "matches"];
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.type !== "eof") {
+      throw new ExpressionError(`Token inesperado '${token.value}'`, token.position);
+    }
+    return node;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private expect(value: string): void {
+    const token = this.next();
+    if (token.value !== value) {
+      throw new ExpressionError(`Se esperaba '${value}' y se encontró '${token.value || "fin"}'`, token.position);
+    }
+  }
+
+  private isOperator(value: string): boolean {
+    const token = this.peek();
+    return token.type === "operator" && token.value === value;
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.isOperator("||")) {
+      this.next();
+      left = { kind: "logical", operator: "||", left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseNot();
+    while (this.isOperator("&&")) {
+      this.next();
+      left = { kind: "logical", operator: "&&", left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): ExpressionNode {
+    if (this.isOperator("!")) {
+      this.next();
+      return { kind: "not", operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ExpressionNode {
+    const left = this.parsePrimary();
+    const token = this.peek();
+
+    if (token.type === "operator" && ["==", "!=", ">", ">=", "<", "<="].includes(token.value)) {
+      this.next();
+      return { kind: "compare", operator: token.value, left, right: this.parsePrimary() };
+    }
+
+    // "x not in [...]"
+    if (token.type === "operator" && token.value === "!" &&
+        this.peek(1).type === "identifier" && this.peek(1).value.toLowerCase() === "in") {
+      this.next();
+      this.next();
+      return { kind: "not", operand: { kind: "compare", operator: "in", left, right: this.parsePrimary() } };
+    }
+
+    if (token.type === "identifier" && COMPARISON_WORDS.includes(token.value.toLowerCase())) {
+      this.next();
+      return { kind: "compare", operator: token.value.toLowerCase(), left, right: this.parsePrimary() };
+    }
+
+    return left;
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case "number": {
+        const value = Number(token.value);
+        if (isNaN(value)) throw new ExpressionError(`Número inválido '${token.value}'`, token.position);
+        return { kind: "literal", value };
+      }
+
+      case "string":
+        return { kind: "literal", value: token.value };
+
+      case "identifier": {
+        const lower = token.value.toLowerCase();
+        if (lower === "true" || lower === "verdadero") return { kind: "literal", value: true };
+        if (lower === "false" || lower === "falso") return { kind: "literal", value: false };
+        if (lower === "null") return { kind: "literal", value: null };
+
+        // Llamada a función: nombre(args)
+        if (this.peek().value === "(" && this.peek().type === "punctuation") {
+          if (!FUNCTIONS[lower]) {
+            throw new ExpressionError(`Función desconocida '${token.value}'`, token.position);
+          }
+          this.next();
+          const args: ExpressionNode[] = [];
+          if (this.peek().value !== ")") {
+            do {
+              args.push(this.parseOr());
+            } while (this.peek().value === "," && this.next());
+          }
+          this.expect(")");
+          return { kind: "call", name: lower, args };
+        }
+
+        // Índices de arreglo: items[0]
+        let path = token.value;
+        while (this.peek().value === "[" && this.peek(1).type === "number") {
+          this.next();
+          path += `.${this.next().value}`;
+          this.expect("]");
+        }
+        return { kind: "variable", path };
+      }
+
+      case "operator":
+        if (token.value === "!") {
+          return { kind: "not", operand: this.parsePrimary() };
+        }
+        break;
+
+      case "punctuation":
+        if (token.value === "(") {
+          const inner = this.parseOr();
+          this.expect(")");
+          return inner;
+        }
+        if (token.value === "[") {
+          const items: ExpressionNode[] = [];
+          if (this.peek().value !== "]") {
+            do {
+              items.push(this.parsePrimary());
+            } while (this.peek().value === "," && this.next());
+          }
+          this.expect("]");
+          return { kind: "array", items };
+        }
+        break;
+    }
+
+    throw new ExpressionError(`Token inesperado '${token.value || "fin"}'`, token.position);
+  }
+}
+
+// ----- Coerción de tipos -----
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Convierte un valor a número si es posible ("$2,000,000" -> 2000000)
+ */
+function toNumber(value: any): number | null {
+  if (typeof value === "number") return isNaN(value) ? null : value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value !== "string") return null;
+
+  const clean = value.trim().replace(/^\$/, "").replace(/,/g, "").replace(/\s/g, "");
+  if (clean === "" || !/^-?\d+(\.\d+)?$/.test(clean)) return null;
+  return Number(clean);
+}
+
+/**
+ * Convierte un valor a marca de tiempo si parece una fecha
+ */
+function toTimestamp(value: any): number | null {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === "string" && DATE_PATTERN.test(value.trim())) {
+    const time = new Date(value.trim()).getTime();
+    return isNaN(time) ? null : time;
+  }
+  return null;
+}
+
+function normalizeString(value: any): string {
+  return String(value ?? "").trim().toLowerCase();
+}
+
+function toBoolean(value: any): boolean {
+  if (typeof value === "string") {
+    const lower = value.trim().toLowerCase();
+    if (["", "false", "falso", "no", "0", "null", "undefined"].includes(lower)) return false;
+    return true;
+  }
+  if (Array.isArray(value)) return value.length > 0;
+  return Boolean(value);
+}
+
+/**
+ * Compara dos valores aplicando coerción: fechas, números y finalmente texto
+ * @returns negativo, cero o positivo; null si no son comparables
+ */
+function compareValues(left: any, right: any): number | null {
+  const leftDate = toTimestamp(left);
+  const rightDate = toTimestamp(right);
+  if (leftDate !== null && rightDate !== null) return leftDate - rightDate;
+
+  const leftNumber = toNumber(left);
+  const rightNumber = toNumber(right);
+  if (leftNumber !== null && rightNumber !== null) return leftNumber - rightNumber;
+
+  if (left === null || left === undefined || right === null || right === undefined) return null;
+  return normalizeString(left).localeCompare(normalizeString(right));
+}
+
+function looseEquals(left: any, right: any): boolean {
+  if ((left === null || left === undefined) && (right === null || right === undefined)) return true;
+  if (typeof left === "boolean" || typeof right === "boolean") return toBoolean(left) === toBoolean(right);
+  return compareValues(left, right) === 0;
+}
+
+// ----- Funciones disponibles -----
+
+const FUNCTIONS: Record<string, (...args: any[]) => any> = {
+  now: () => new Date(),
+  today: () => new Date().toISOString().slice(0, 10),
+  date: (value: any) => {
+    const time = toTimestamp(value) ?? (typeof value === "string" ? new Date(value).getTime() : NaN);
+    return isNaN(time) ? null : new Date(time);
+  },
+  number: (value: any) => toNumber(value),
+  lower: (value: any) => normalizeString(value),
+  upper: (value: any) => String(value ?? "").toUpperCase(),
+  len: (value: any) => (Array.isArray(value) || typeof value === "string" ? value.length : 0),
+  exists: (value: any) => value !== undefined && value !== null && value !== "",
+  days_until: (value: any) => {
+    const time = toTimestamp(value);
+    return time === null ? null : Math.ceil((time - Date.now()) / 86400000);
+  },
+};
+
+// ----- Evaluador -----
+
+function resolvePath(scope: Record<string, any>, path: string): any {
+  let current: any = scope;
+  for (const segment of path.split(".")) {
+    if (current === null || current === undefined) return undefined;
+    current = current[segment];
+  }
+  return current;
+}
+
+function evaluateNode(node: ExpressionNode, scope: Record<string, any>): any {
+  switch (node.kind) {
+    case "literal":
+      return node.value;
+
+    case "variable":
+      return resolvePath(scope, node.path);
+
+    case "array":
+      return node.items.map((item) => evaluateNode(item, scope));
+
+    case "call":
+      return FUNCTIONS[node.name](...node.args.map((arg) => evaluateNode(arg, scope)));
+
+    case "not":
+      return !toBoolean(evaluateNode(node.operand, scope));
+
+    case "logical": {
+      const left = toBoolean(evaluateNode(node.left, scope));
+      if (node.operator === "&&") return left && toBoolean(evaluateNode(node.right, scope));
+      return left || toBoolean(evaluateNode(node.right, scope));
+    }
+
+    case "compare": {
+      const left = evaluateNode(node.left, scope);
+      const right = evaluateNode(node.right, scope);
+
+      switch (node.operator) {
+        case "==":
+          return looseEquals(left, right);
+        case "!=":
+          return !looseEquals(left, right);
+        case ">":
+        case ">=":
+        case "<":
+        case "<=": {
+          const result = compareValues(left, right);
+          if (result === null) return false;
+          if (node.operator === ">") return result > 0;
+          if (node.operator === ">=") return result >= 0;
+          if (node.operator === "<") return result < 0;
+          return result <= 0;
+        }
+        case "in":
+          if (Array.isArray(right)) return right.some((item) => looseEquals(left, item));
+          return normalizeString(right).includes(normalizeString(left));
+        case "contains":
+          if (Array.isArray(left)) return left.some((item) => looseEquals(item, right));
+          return normalizeString(left).includes(normalizeString(right));
+        case "startswith":
+          return normalizeString(left).startsWith(normalizeString(right));
+        case "endswith":
+          return normalizeString(left).endsWith(normalizeString(right));
+        case "matches":
+          try {
+            return new RegExp(String(right), "i").test(String(left ?? ""));
+          } catch {
+            return false;
+          }
+      }
+    }
+  }
+
+  return false;
+}
+
+// Caché de expresiones ya analizadas
+const parseCache = new Map<string, ExpressionNode>();
+const MAX_CACHE_SIZE = 500;
+
+/**
+ * Analiza una expresión y devuelve su árbol sintáctico
+ * @param expression Expresión a analizar
+ * @throws ExpressionError si la sintaxis es inválida
+ */
+export function parseExpression(expression: string): ExpressionNode {
+  const cached = parseCache.get(expression);
+  if (cached) return cached;
+
+  if (!expression || expression.trim() === "") {
+    throw new ExpressionError("La expresión está vacía");
+  }
+
+  const ast = new Parser(tokenize(expression)).parse();
+
+  if (parseCache.size >= MAX_CACHE_SIZE) parseCache.clear();
+  parseCache.set(expression, ast);
+
+  return ast;
+}
+
+/**
+ * Evalúa una expresión contra un conjunto de variables
+ * @param expression Expresión a evaluar
+ * @param scope Variables disponibles (contexto del flujo, variables del lead)
+ * @returns Resultado booleano de la expresión
+ * @throws ExpressionError si la sintaxis es inválida
+ */
+export function evaluateExpression(expression: string, scope: Record<string, any>): boolean {
+  return toBoolean(evaluateNode(parseExpression(expression), scope));
+}
+
+/**
+ * Valida la sintaxis de una expresión sin evaluarla
+ * @param expression Expresión a validar
+ * @returns Resultado con el error y las variables referenciadas
+ */
+export function validateExpression(expression: string): {
+  valid: boolean;
+  error?: string;
+  variables: string[];
+} {
+  try {
+    const ast = parseExpression(expression);
+    const variables = new Set<string>();
+
+    const collect = (node: ExpressionNode): void => {
+      switch (node.kind) {
+        case "variable":
+          variables.add(node.path.split(".")[0]);
+          break;
+        case "array":
+          node.items.forEach(collect);
+          break;
+        case "call":
+          node.args.forEach(collect);
+          break;
+        case "not":
+          collect(node.operand);
+          break;
+        case "logical":
+        case "compare":
+          collect(node.left);
+          collect(node.right);
+          break;
+      }
+    };
+    collect(ast);
+
+    return { valid: true, variables: Array.from(variables) };
+  } catch (error) {
+    return {
+      valid: false,
+      error: error instanceof Error ? error.message : String(error),
+      variables: [],
+    };
+  }
+}
+
+export default {
+  parseExpression,
+  evaluateExpression,
+  validateExpression,
+};
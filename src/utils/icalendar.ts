@@ -0,0 +1,201 @@
+/**
+ * src/utils/icalendar.ts
+ *
+ * Generación de calendarios iCalendar (RFC 5545) para Google Calendar y Outlook.
+ * Las horas locales se convierten a UTC con la zona horaria indicada, de modo
+ * que el evento aparece a la hora correcta sin necesidad de un VTIMEZONE.
+ *
+ * @version 1.0.0
+ * @created 2025-06-08
+ */
+
+/**
+ * Método del calendario: REQUEST (invitación), CANCEL (cancelación) o PUBLISH (feed)
+ */
+export type CalendarMethod = "REQUEST" | "CANCEL" | "PUBLISH";
+
+export type CalendarEventStatus = "CONFIRMED" | "TENTATIVE" | "CANCELLED";
+
+/**
+ * Evento de calendario
+ */
+export interface CalendarEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  status?: CalendarEventStatus;
+  sequence?: number;
+  stamp?: Date;
+  organizer?: { name?: string; email: string };
+  attendees?: Array<{ name?: string; email: string }>;
+}
+
+/**
+ * Opciones del calendario
+ */
+export interface CalendarOptions {
+  method?: CalendarMethod;
+  name?: string;
+  timezone?: string;
+  prodId?: string;
+}
+
+const DEFAULT_PROD_ID = "-//Chatbot Platform//Citas//ES";
+
+/**
+ * Verifica si una zona horaria IANA es válida ("America/Mexico_City")
+ */
+export function isValidTimeZone(timezone: string): boolean {
+  if (!timezone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Diferencia en milisegundos entre la hora local de la zona y UTC en un instante
+ */
+function getTimeZoneOffset(timestamp: number, timezone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(timestamp));
+
+  const value = (type: string) => parseInt(parts.find((part) => part.type === type)?.value || "0", 10);
+  const asUtc = Date.UTC(value("year"), value("month") - 1, value("day"), value("hour"), value("minute"), value("second"));
+  return asUtc - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * Convierte una fecha y hora locales de una zona horaria a un instante UTC
+ * @param date Fecha YYYY-MM-DD
+ * @param time Hora HH:mm
+ * @param timezone Zona horaria IANA
+ */
+export function zonedTimeToUtc(date: string, time: string, timezone: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  const guess = Date.UTC(year, month - 1, day, hour, minute || 0);
+
+  // Segunda pasada para los cambios de horario de verano
+  const offset = getTimeZoneOffset(guess, timezone);
+  const corrected = getTimeZoneOffset(guess - offset, timezone);
+  return new Date(guess - corrected);
+}
+
+/**
+ * Formatea un instante como fecha-hora UTC de iCalendar (20250612T160000Z)
+ */
+export function formatUtcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Escapa un texto para propiedades de iCalendar
+ */
+export function escapeText(text: string): string {
+  return String(text)
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Divide las líneas de más de 75 octetos (continuación con un espacio)
+ */
+export function foldLine(line: string): string {
+  if (Buffer.byteLength(line, "utf8") <= 75) return line;
+
+  const chunks: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  const limit = () => (chunks.length === 0 ? 75 : 74);
+
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char, "utf8");
+    if (currentBytes + bytes > limit()) {
+      chunks.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  chunks.push(current);
+
+  return chunks.join("\r\n ");
+}
+
+function buildEventLines(event: CalendarEvent): string[] {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatUtcDateTime(event.stamp || new Date())}`,
+    `DTSTART:${formatUtcDateTime(event.start)}`,
+    `DTEND:${formatUtcDateTime(event.end)}`,
+    `SEQUENCE:${event.sequence || 0}`,
+    `STATUS:${event.status || "CONFIRMED"}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.organizer) {
+    const name = event.organizer.name ? `;CN=${escapeText(event.organizer.name)}` : "";
+    lines.push(`ORGANIZER${name}:mailto:${event.organizer.email}`);
+  }
+  for (const attendee of event.attendees || []) {
+    const name = attendee.name ? `;CN=${escapeText(attendee.name)}` : "";
+    lines.push(`ATTENDEE${name};ROLE=REQ-PARTICIPANT:mailto:${attendee.email}`);
+  }
+
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/**
+ * Genera el contenido de un archivo .ics
+ * @param events Eventos del calendario
+ * @param options Método, nombre y zona horaria del calendario
+ */
+export function buildCalendar(events: CalendarEvent[], options: CalendarOptions = {}): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${options.prodId || DEFAULT_PROD_ID}`,
+    "CALSCALE:GREGORIAN",
+    `METHOD:${options.method || "PUBLISH"}`,
+  ];
+
+  if (options.name) lines.push(`X-WR-CALNAME:${escapeText(options.name)}`);
+  if (options.timezone) lines.push(`X-WR-TIMEZONE:${options.timezone}`);
+
+  for (const event of events) {
+    lines.push(...buildEventLines(event));
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+export default {
+  isValidTimeZone,
+  zonedTimeToUtc,
+  formatUtcDateTime,
+  escapeText,
+  foldLine,
+  buildCalendar,
+};
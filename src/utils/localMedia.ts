@@ -0,0 +1,63 @@
+/**
+ * src/utils/localMedia.ts
+ *
+ * Validación de los archivos locales que los proveedores suben como multimedia.
+ * Solo se envían archivos dentro de los directorios de medios (audio generado,
+ * calendarios .ics, medios recibidos y LOCAL_MEDIA_DIRS), nunca rutas
+ * arbitrarias del servidor como .env.
+ * @version 1.0.0
+ * @created 2025-06-17
+ */
+
+import fs from "fs";
+import path from "path";
+import { config } from "../config";
+
+/**
+ * Indica si el medio es una URL http(s) (se envía por enlace, sin leer el disco)
+ */
+export function isRemoteMedia(value: string): boolean {
+  return /^https?:\/\//i.test(value || "");
+}
+
+/**
+ * Directorios desde los que se pueden enviar archivos locales
+ */
+export function getLocalMediaDirectories(): string[] {
+  return [config.paths.audio, config.paths.calendar, config.paths.media, ...config.paths.localMedia];
+}
+
+/**
+ * Ruta real (sin enlaces simbólicos) o la ruta absoluta si todavía no existe
+ */
+function realPath(target: string): string {
+  const resolved = path.resolve(target);
+  try {
+    return fs.realpathSync(resolved);
+  } catch {
+    return resolved;
+  }
+}
+
+/**
+ * Resuelve la ruta de un archivo local de medios
+ * @param filePath Ruta indicada
+ * @param directories Directorios permitidos (por defecto, los de medios)
+ * @returns Ruta real del archivo, o null si queda fuera de los directorios permitidos
+ */
+export function resolveLocalMediaPath(
+  filePath: string,
+  directories: string[] = getLocalMediaDirectories()
+): string | null {
+  const resolved = realPath(filePath);
+  const allowed = directories
+    .filter(Boolean)
+    .some((directory) => resolved.startsWith(realPath(directory) + path.sep));
+  return allowed ? resolved : null;
+}
+
+export default {
+  isRemoteMedia,
+  getLocalMediaDirectories,
+  resolveLocalMediaPath,
+};